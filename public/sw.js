@@ -0,0 +1,106 @@
+/*
+ * Offline support for test taking.
+ *
+ * - App shell: navigations are network-first and fall back to the cached
+ *   index.html, so a test page can be reloaded without a connection.
+ * - Build assets (/assets/*) are cache-first; their names are content-hashed.
+ * - Test content read from the Supabase REST API (tests, passages,
+ *   questions, tasks) is network-first with a cached fallback.
+ * - Audio and images for a test are pre-cached when the test starts
+ *   (see precacheTestAssets in src/lib/serviceWorker.ts) and served
+ *   cache-first.
+ */
+
+const SHELL_CACHE = 'ielts-shell-v1';
+const ASSET_CACHE = 'ielts-assets-v1';
+const TEST_DATA_CACHE = 'ielts-test-data-v1';
+const TEST_MEDIA_CACHE = 'ielts-test-media-v1';
+const CURRENT_CACHES = [SHELL_CACHE, ASSET_CACHE, TEST_DATA_CACHE, TEST_MEDIA_CACHE];
+
+const TEST_CONTENT_PATH = /\/rest\/v1\/(reading|listening|writing|speaking)_(tests|passages|paragraphs|questions|question_groups|tasks)\b/;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(['/', '/index.html'])));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => !CURRENT_CACHES.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'PRECACHE_TEST_MEDIA') return;
+  const urls = Array.isArray(event.data.urls) ? event.data.urls : [];
+  event.waitUntil(
+    caches.open(TEST_MEDIA_CACHE).then((cache) =>
+      Promise.all(
+        urls.map(async (url) => {
+          if (await cache.match(url)) return;
+          try {
+            const response = await fetch(url, { mode: 'cors', credentials: 'omit' });
+            if (response.ok) await cache.put(url, response);
+          } catch {
+            // Best effort - the test still works online without the cached copy
+          }
+        })
+      )
+    )
+  );
+});
+
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request)) || (fallbackUrl && (await cache.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request, { ignoreVary: true });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok && cacheName === ASSET_CACHE) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+    return;
+  }
+
+  if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE));
+    return;
+  }
+
+  if (TEST_CONTENT_PATH.test(url.pathname)) {
+    event.respondWith(networkFirst(request, TEST_DATA_CACHE));
+    return;
+  }
+
+  // Media pre-cached for the current test
+  if (!['audio', 'image', 'video'].includes(request.destination)) return;
+  event.respondWith(
+    caches
+      .open(TEST_MEDIA_CACHE)
+      .then((cache) => cache.match(request.url, { ignoreVary: true }))
+      .then((cached) => cached || fetch(request))
+  );
+});
@@ -1,6 +1,7 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { OfflineSyncStatus } from "@/components/common/OfflineSyncStatus";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
@@ -21,12 +22,18 @@ import TestResults from "./pages/TestResults";
 import Analytics from "./pages/Analytics";
 import AnalyticsDemo from "./pages/AnalyticsDemo";
 import Flashcards from "./pages/Flashcards";
+import MyAnnotations from "./pages/MyAnnotations";
 import PassageStudy from "./pages/PassageStudy";
 import NotFound from "./pages/NotFound";
 import Settings from "./pages/Settings";
 import Onboarding from "./pages/Onboarding";
 import PromotionCodesAdmin from "./pages/admin/PromotionCodesAdmin";
+import CreditsAdmin from "./pages/admin/CreditsAdmin";
+import PlansAdmin from "./pages/admin/PlansAdmin";
+import AnswerDisputesAdmin from "./pages/admin/AnswerDisputesAdmin";
+import CalibrationAdmin from "./pages/admin/CalibrationAdmin";
 import FullMockTest from "./pages/FullMockTest";
+import MockTestSession from "./pages/MockTestSession";
 import GenerateListeningPOC from "./pages/GenerateListeningPOC";
 import TestComparison from "./pages/TestComparison";
 import AIPractice from "./pages/AIPractice";
@@ -71,6 +78,7 @@ const App = () => (
       <TooltipProvider>
         <Toaster />
         <Sonner position="top-center" />
+        <OfflineSyncStatus />
         <BrowserRouter>
           <div className="overflow-x-hidden min-h-screen">
           
@@ -87,6 +95,7 @@ const App = () => (
             <Route path="/writing/cambridge-ielts-a" element={<WritingTestList />} />
             <Route path="/writing/test/:testId" element={<WritingTest />} />
             <Route path="/writing/test/:testId/new-submission" element={<WritingTest />} />
+            <Route path="/writing/test/:testId/revise/:submissionId" element={<WritingTest />} />
             <Route path="/writing/evaluation/:testId/:submissionId?" element={<WritingEvaluationReport />} />
             <Route path="/speaking/cambridge-ielts-a" element={<SpeakingTestList />} />
             <Route path="/speaking/test/:testId" element={<SpeakingTest />} />
@@ -96,6 +105,7 @@ const App = () => (
             
             {/* Full Mock Test */}
             <Route path="/full-mock-test" element={<FullMockTest />} />
+            <Route path="/full-mock-test/session/:sessionId" element={<MockTestSession />} />
             
             {/* Test Results */}
             <Route path="/results/:submissionId" element={<TestResults />} />
@@ -104,6 +114,7 @@ const App = () => (
             <Route path="/analytics" element={<Analytics />} />
             <Route path="/analytics/demo" element={<AnalyticsDemo />} />
             <Route path="/flashcards" element={<Flashcards />} />
+            <Route path="/annotations" element={<MyAnnotations />} />
             
             {/* AI Generation POC */}
             <Route path="/generate/listening" element={<GenerateListeningPOC />} />
@@ -139,6 +150,10 @@ const App = () => (
               <Route path="speaking/new" element={<SpeakingTestEditor />} />
               <Route path="speaking/edit/:testId" element={<SpeakingTestEditor />} />
               <Route path="promotions" element={<PromotionCodesAdmin />} />
+              <Route path="credits" element={<CreditsAdmin />} />
+              <Route path="plans" element={<PlansAdmin />} />
+              <Route path="disputes" element={<AnswerDisputesAdmin />} />
+              <Route path="calibration" element={<CalibrationAdmin />} />
               <Route path="testbank" element={<TestBankAdmin />} />
               <Route path="test-factory" element={<TestFactoryAdmin />} />
               <Route path="settings" element={<AdminSettings />} />
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { ChevronDown, Menu, X, User, LogOut, Settings as SettingsIcon, BarChart3, Layers, Brain, Sparkles, Shield } from 'lucide-react';
+import { ChevronDown, Menu, X, User, LogOut, Settings as SettingsIcon, BarChart3, Layers, Brain, Sparkles, Shield, StickyNote } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import { useAdminAccess } from '@/hooks/useAdminAccess';
@@ -116,6 +116,12 @@ export const Navbar = () => {
                     </Button>
                   </Link>
                 )}
+                <Link to="/annotations">
+                  <Button variant="ghost" size="sm" className="flex items-center gap-2">
+                    <StickyNote size={16} />
+                    My Annotations
+                  </Button>
+                </Link>
                 <Link to="/settings">
                   <Button variant="ghost" size="sm" className="flex items-center gap-2">
                     <SettingsIcon size={16} />
@@ -274,6 +280,12 @@ export const Navbar = () => {
                     </Button>
                   </Link>
                 )}
+                <Link to="/annotations" className="block py-2">
+                  <Button variant="ghost" className="w-full justify-start flex items-center gap-2">
+                    <StickyNote size={18} />
+                    My Annotations
+                  </Button>
+                </Link>
                 <Link to="/settings" className="block py-2">
                   <Button variant="ghost" className="w-full justify-start flex items-center gap-2">
                     <SettingsIcon size={18} />
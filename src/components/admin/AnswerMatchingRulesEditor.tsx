@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, ChevronUp, Plus, Trash2, SpellCheck } from 'lucide-react';
+import {
+  getAnswerMatchRules,
+  STRICT_SPELLING_DISABLED_RULES,
+  type AnswerMatchingConfig,
+  type AnswerMatchRuleId,
+  type CustomEquivalenceTable,
+} from '@/lib/ieltsAnswerValidation';
+
+interface AnswerMatchingRulesEditorProps {
+  value: AnswerMatchingConfig | null | undefined;
+  onChange: (value: AnswerMatchingConfig | null) => void;
+  /** Question groups can inherit the test-level configuration */
+  canInherit?: boolean;
+  title?: string;
+}
+
+// One entry per line, equivalent terms separated by "="
+const entriesToText = (entries: string[][]) => entries.map(e => e.join(' = ')).join('\n');
+
+const textToEntries = (text: string) =>
+  text
+    .split('\n')
+    .map(line => line.split('=').map(w => w.trim()).filter(Boolean))
+    .filter(entry => entry.length >= 2);
+
+export function AnswerMatchingRulesEditor({
+  value,
+  onChange,
+  canInherit = false,
+  title = 'Answer Matching Rules',
+}: AnswerMatchingRulesEditorProps) {
+  const [open, setOpen] = useState(false);
+  // Keep raw textarea text so partially typed lines aren't dropped while editing
+  const [draftText, setDraftText] = useState<Record<number, string>>({});
+
+  const inherited = canInherit && !value;
+  const config: AnswerMatchingConfig = value || {};
+  const disabled = new Set(config.disabledRules || []);
+  const tables = config.customEquivalences || [];
+  const rules = getAnswerMatchRules();
+
+  const update = (updates: Partial<AnswerMatchingConfig>) => {
+    onChange({ disabledRules: config.disabledRules || [], customEquivalences: tables, ...updates });
+  };
+
+  const toggleRule = (ruleId: AnswerMatchRuleId, enabled: boolean) => {
+    const next = new Set(disabled);
+    if (enabled) next.delete(ruleId); else next.add(ruleId);
+    update({ disabledRules: [...next] });
+  };
+
+  const updateTable = (index: number, updates: Partial<CustomEquivalenceTable>) => {
+    update({ customEquivalences: tables.map((t, i) => (i === index ? { ...t, ...updates } : t)) });
+  };
+
+  const removeTable = (index: number) => {
+    update({ customEquivalences: tables.filter((_, i) => i !== index) });
+    setDraftText({});
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border rounded-lg">
+      <CollapsibleTrigger asChild>
+        <button type="button" className="w-full flex items-center justify-between p-3 text-left">
+          <span className="flex items-center gap-2 text-sm font-medium">
+            <SpellCheck size={16} />
+            {title}
+            {inherited ? (
+              <Badge variant="outline">Inherits test settings</Badge>
+            ) : (
+              <>
+                {disabled.size > 0 && <Badge variant="secondary">{disabled.size} disabled</Badge>}
+                {tables.length > 0 && <Badge variant="secondary">{tables.length} custom tables</Badge>}
+              </>
+            )}
+          </span>
+          {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+        </button>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent>
+        <div className="space-y-4 p-3 pt-0">
+          {canInherit && (
+            <div className="flex items-center gap-3">
+              <Switch
+                checked={!inherited}
+                onCheckedChange={(checked) => onChange(checked ? { disabledRules: [], customEquivalences: [] } : null)}
+              />
+              <Label>Override test-level rules for this group</Label>
+            </div>
+          )}
+
+          {!inherited && (
+            <>
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  Choose which answer variations are accepted when marking.
+                </p>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update({ disabledRules: STRICT_SPELLING_DISABLED_RULES })}
+                >
+                  Strict spelling preset
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                {rules.map(rule => (
+                  <div key={rule.id} className="flex items-center gap-2">
+                    <Switch
+                      checked={rule.locked || !disabled.has(rule.id)}
+                      disabled={rule.locked}
+                      onCheckedChange={(checked) => toggleRule(rule.id, checked)}
+                    />
+                    <Label className="text-sm font-normal">{rule.label}</Label>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Custom Equivalence Tables</Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => update({ customEquivalences: [...tables, { name: '', entries: [] }] })}
+                  >
+                    <Plus size={14} className="mr-1" />
+                    Add Table
+                  </Button>
+                </div>
+                {tables.map((table, idx) => (
+                  <div key={idx} className="space-y-2 p-3 bg-muted/30 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={table.name}
+                        onChange={(e) => updateTable(idx, { name: e.target.value })}
+                        placeholder="Table name, e.g. Synonyms accepted by examiners"
+                      />
+                      <Button type="button" variant="ghost" size="icon" onClick={() => removeTable(idx)}>
+                        <Trash2 size={14} className="text-destructive" />
+                      </Button>
+                    </div>
+                    <Textarea
+                      value={draftText[idx] ?? entriesToText(table.entries)}
+                      onChange={(e) => {
+                        setDraftText(prev => ({ ...prev, [idx]: e.target.value }));
+                        updateTable(idx, { entries: textToEntries(e.target.value) });
+                      }}
+                      placeholder={'One set per line, e.g.\ncinema = movie theatre\nlift = elevator'}
+                      rows={3}
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,71 @@
+import { BarChart3, AlertTriangle } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import { getItemFlags, isSuspiciousItem, ITEM_FLAG_LABELS, type ItemStats } from '@/lib/itemAnalysis';
+
+interface ItemStatsStripProps {
+  itemStats?: Record<number, ItemStats>;
+  startQuestion: number;
+  endQuestion: number;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/** Facility / discrimination chips for each question of a group, with details on hover */
+export function ItemStatsStrip({ itemStats, startQuestion, endQuestion }: ItemStatsStripProps) {
+  if (!itemStats) return null;
+
+  const items: ItemStats[] = [];
+  for (let n = startQuestion; n <= endQuestion; n++) {
+    if (itemStats[n]) items.push(itemStats[n]);
+  }
+  if (items.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/20 p-2">
+      <span className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+        <BarChart3 size={14} />
+        Item analysis
+      </span>
+      {items.map((item) => {
+        const flags = getItemFlags(item);
+        const suspicious = isSuspiciousItem(flags);
+        return (
+          <Tooltip key={item.questionNumber}>
+            <TooltipTrigger asChild>
+              <span
+                className={cn(
+                  'inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs font-mono cursor-help',
+                  suspicious
+                    ? 'border-destructive/40 bg-destructive/10 text-destructive'
+                    : flags.length > 0
+                      ? 'border-amber-500/40 bg-amber-500/10 text-amber-700'
+                      : 'border-border bg-background text-muted-foreground'
+                )}
+              >
+                {suspicious && <AlertTriangle size={12} />}
+                Q{item.questionNumber} · {percent(item.facility)}
+                {item.discrimination !== null && ` · D ${item.discrimination.toFixed(2)}`}
+              </span>
+            </TooltipTrigger>
+            <TooltipContent className="max-w-xs space-y-1 text-xs">
+              <p className="font-semibold">Question {item.questionNumber} · {item.attempts} attempts</p>
+              <p>Facility: {percent(item.facility)} correct</p>
+              <p>Discrimination: {item.discrimination === null ? 'n/a' : item.discrimination.toFixed(2)}</p>
+              <p>Left blank: {percent(item.blankRate)}</p>
+              {item.commonWrongAnswers.length > 0 && (
+                <p>
+                  Common wrong answers:{' '}
+                  {item.commonWrongAnswers.map(w => `"${w.answer}" (${w.count})`).join(', ')}
+                </p>
+              )}
+              {flags.map(flag => (
+                <p key={flag} className="text-amber-600">⚠ {ITEM_FLAG_LABELS[flag]}</p>
+              ))}
+            </TooltipContent>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import { RichTextEditor } from './RichTextEditor';
 import { MultipleAnswersInput } from './MultipleAnswersInput';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { ItemStatsStrip } from './ItemStatsStrip';
+import type { ItemStats } from '@/lib/itemAnalysis';
 import { Badge } from '@/components/ui/badge';
 import { ListeningTableEditor } from './ListeningTableEditor';
 import { ListeningImageUploader } from './ListeningImageUploader';
@@ -18,6 +20,9 @@ import { MapLabelingEditor } from './MapLabelingEditor';
 import { ListeningQuestionGroupPreview } from './ListeningQuestionGroupPreview';
 import { NoteStyleCategoryEditor, NoteCategory } from './NoteStyleCategoryEditor';
 import { FlowchartCompletionEditor, FlowchartStep } from './FlowchartCompletionEditor';
+import { AnswerMatchingRulesEditor } from './AnswerMatchingRulesEditor';
+import { WordLimitFields } from './WordLimitFields';
+import { isWordLimitedQuestionType, type AnswerMatchingConfig } from '@/lib/ieltsAnswerValidation';
 
 export interface TableCell { // Define TableCell here for local use
   has_question: boolean; // Replaced 'type' with 'has_question'
@@ -62,6 +67,9 @@ export interface QuestionGroup {
   start_timestamp_seconds?: number | null; // Timestamp when this question group starts in the audio
   group_heading?: string | null; // Heading for the entire question group
   group_heading_alignment?: 'left' | 'center' | 'right'; // Alignment for the group heading
+  answer_matching?: AnswerMatchingConfig | null; // Answer matching overrides (null = inherit test-level rules)
+  max_words?: number | null; // Structured word limit (null = parse from instruction)
+  max_numbers?: number | null;
 }
 
 interface ListeningQuestionGroupEditorProps {
@@ -70,6 +78,7 @@ interface ListeningQuestionGroupEditorProps {
   onUpdateAllGroups: (groups: QuestionGroup[]) => void; // This will update the full list of groups
   activePart: number; // New prop
   partRanges: { label: string; start: number; end: number }[]; // New prop
+  itemStats?: Record<number, ItemStats>; // Item analysis of the published test, by question number
 }
 
 const LISTENING_QUESTION_TYPES = [
@@ -96,6 +105,7 @@ export function ListeningQuestionGroupEditor({
   onUpdateAllGroups, // Use this to update the source of truth
   activePart,
   partRanges,
+  itemStats,
 }: ListeningQuestionGroupEditorProps) {
   const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>({}); // Use group ID for expansion
 
@@ -867,6 +877,12 @@ export function ListeningQuestionGroupEditor({
 
                   <CollapsibleContent>
                     <CardContent className="space-y-4 pt-0">
+                      <ItemStatsStrip
+                        itemStats={itemStats}
+                        startQuestion={group.start_question}
+                        endQuestion={group.end_question}
+                      />
+
                       {/* Group Settings */}
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                         <div className="space-y-2">
@@ -965,6 +981,21 @@ export function ListeningQuestionGroupEditor({
                         />
                       </div>
 
+                      {isWordLimitedQuestionType(group.question_type) && (
+                        <WordLimitFields
+                          maxWords={group.max_words}
+                          maxNumbers={group.max_numbers}
+                          instruction={group.instruction}
+                          onChange={(updates) => updateGroup(group.id!, updates)}
+                        />
+                      )}
+
+                      <AnswerMatchingRulesEditor
+                        canInherit
+                        value={group.answer_matching}
+                        onChange={(answer_matching) => updateGroup(group.id!, { answer_matching })}
+                      />
+
                       {/* Group Heading - appears below instruction */}
                       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                         <div className="md:col-span-3 space-y-2">
@@ -10,6 +10,8 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import { RichTextEditor } from './RichTextEditor';
 import { MultipleAnswersInput } from './MultipleAnswersInput';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { ItemStatsStrip } from './ItemStatsStrip';
+import type { ItemStats } from '@/lib/itemAnalysis';
 import { MultiSelectAnswerInput } from './MultiSelectAnswerInput';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
@@ -17,6 +19,9 @@ import { ReadingTableEditor, ReadingTableEditorData } from './ReadingTableEditor
 import { QuestionGroupPreview } from './QuestionGroupPreview';
 import { NoteStyleCategoryEditor, NoteCategory } from './NoteStyleCategoryEditor';
 import { MapLabelingEditor } from './MapLabelingEditor';
+import { AnswerMatchingRulesEditor } from './AnswerMatchingRulesEditor';
+import { WordLimitFields } from './WordLimitFields';
+import { isWordLimitedQuestionType, type AnswerMatchingConfig } from '@/lib/ieltsAnswerValidation';
 
 interface Question {
   id?: string;
@@ -60,6 +65,11 @@ interface QuestionGroup {
   // Matching Grid options
   use_letter_headings?: boolean; // Show A,B,C as headings with legend below
   options_title?: string; // Title for options legend (e.g., "List of political units")
+  // Answer matching overrides (null = inherit test-level rules)
+  answer_matching?: AnswerMatchingConfig | null;
+  // Structured word limit (null = parse from instruction)
+  max_words?: number | null;
+  max_numbers?: number | null;
   // Map Labeling options (stored in options as object)
   map_labeling_options?: {
     imageUrl: string | null;
@@ -80,6 +90,7 @@ interface QuestionGroupEditorProps {
   onUpdate: (groups: QuestionGroup[]) => void;
   questionTypes: { value: string; label: string }[];
   globalQuestionOffset?: number; // Total questions from previous passages
+  itemStats?: Record<number, ItemStats>; // Item analysis of the published test, by question number
 }
 
 const OPTION_FORMATS = [
@@ -99,7 +110,8 @@ export function QuestionGroupEditor({
   questionGroups,
   onUpdate,
   questionTypes,
-  globalQuestionOffset = 0
+  globalQuestionOffset = 0,
+  itemStats,
 }: QuestionGroupEditorProps) {
   const [expandedGroups, setExpandedGroups] = useState<Record<number, boolean>>({});
 
@@ -334,6 +346,12 @@ export function QuestionGroupEditor({
 
                 <CollapsibleContent>
                   <CardContent className="space-y-4 pt-0">
+                    <ItemStatsStrip
+                      itemStats={itemStats}
+                      startQuestion={group.start_question}
+                      endQuestion={group.end_question}
+                    />
+
                     {/* Group Settings */}
                     <div className="grid grid-cols-3 gap-4">
                       <div className="space-y-2">
@@ -426,6 +444,21 @@ export function QuestionGroupEditor({
                       />
                     </div>
 
+                    {isWordLimitedQuestionType(group.question_type) && (
+                      <WordLimitFields
+                        maxWords={group.max_words}
+                        maxNumbers={group.max_numbers}
+                        instruction={group.instruction}
+                        onChange={(updates) => updateGroup(groupIndex, updates)}
+                      />
+                    )}
+
+                    <AnswerMatchingRulesEditor
+                      canInherit
+                      value={group.answer_matching}
+                      onChange={(answer_matching) => updateGroup(groupIndex, { answer_matching })}
+                    />
+
                     {/* Matching Headings - special UI */}
                     {isMatchingHeadings(group.question_type) && (
                       <div className="space-y-4 p-4 bg-muted/30 rounded-lg">
@@ -0,0 +1,57 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { describeWordLimit, parseWordLimit } from '@/lib/ieltsAnswerValidation';
+
+interface WordLimitFieldsProps {
+  maxWords: number | null | undefined;
+  maxNumbers: number | null | undefined;
+  /** Instruction text - used to show the limit that applies when the fields are empty */
+  instruction: string | null | undefined;
+  onChange: (updates: { max_words: number | null; max_numbers: number | null }) => void;
+}
+
+const toLimit = (value: string) => {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+export function WordLimitFields({ maxWords, maxNumbers, instruction, onChange }: WordLimitFieldsProps) {
+  const hasStructuredLimit = !!maxWords || !!maxNumbers;
+  const parsed = parseWordLimit(instruction);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-end gap-4">
+        <div className="space-y-1">
+          <Label className="text-sm">Max words</Label>
+          <Input
+            type="number"
+            min={0}
+            value={maxWords ?? ''}
+            onChange={(e) => onChange({ max_words: toLimit(e.target.value), max_numbers: maxNumbers ?? null })}
+            placeholder={parsed ? String(parsed.maxWords) : '—'}
+            className="w-24"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-sm">Max numbers</Label>
+          <Input
+            type="number"
+            min={0}
+            value={maxNumbers ?? ''}
+            onChange={(e) => onChange({ max_words: maxWords ?? null, max_numbers: toLimit(e.target.value) })}
+            placeholder={parsed ? String(parsed.maxNumbers) : '—'}
+            className="w-24"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {hasStructuredLimit
+          ? `Answers are limited to ${describeWordLimit({ maxWords: maxWords ?? 0, maxNumbers: maxNumbers ?? 0 })}.`
+          : parsed
+            ? `Detected from instruction: ${describeWordLimit(parsed)}. Leave empty to keep using the instruction.`
+            : 'No word limit found in the instruction. Answers of any length are accepted.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { AlertCircle } from 'lucide-react';
+import type { AiValidationFailure } from '@/lib/geminiClient';
+
+interface AiValidationErrorNoticeProps {
+  failure: AiValidationFailure;
+}
+
+/**
+ * Shown on a report whose evaluation never matched the expected structure,
+ * even after the repair attempt. Lists the problems the schema found and
+ * keeps the raw model output behind a disclosure for support requests.
+ */
+export function AiValidationErrorNotice({ failure }: AiValidationErrorNoticeProps) {
+  return (
+    <div className="bg-destructive/10 text-destructive border border-destructive/30 rounded-md p-3 text-sm space-y-2">
+      <p className="font-semibold flex items-center gap-1">
+        <AlertCircle size={16} />
+        The AI evaluation could not be completed
+      </p>
+      <p>The examiner returned an incomplete report, so no band score was recorded. Please submit again to get a new evaluation.</p>
+      {failure.issues.length > 0 && (
+        <ul className="list-disc list-inside text-xs">
+          {failure.issues.map((issue, idx) => (
+            <li key={idx}>
+              {issue.path && <code>{issue.path}</code>} {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      {failure.raw_response && (
+        <details className="text-xs">
+          <summary className="cursor-pointer font-semibold">Raw AI response{failure.model ? ` (${failure.model})` : ''}</summary>
+          <pre className="whitespace-pre-wrap bg-destructive/5 p-2 rounded-sm mt-1">{failure.raw_response}</pre>
+        </details>
+      )}
+    </div>
+  );
+}
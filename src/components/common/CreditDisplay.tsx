@@ -1,23 +1,22 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Zap, Key } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CreditHistory } from '@/components/common/CreditHistory';
+import { Zap, Key, Gift } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { DAILY_CREDIT_LIMIT, type CreditStatus } from '@/lib/credits';
 
 interface CreditDisplayProps {
   className?: string;
+  /** Badge that opens the meter and recent activity in a popover */
   compact?: boolean;
   refreshTrigger?: number;
 }
 
-interface CreditStatus {
-  credits_used: number;
-  credits_remaining: number;
-  limit: number;
-}
-
 export function CreditDisplay({ className, compact = false, refreshTrigger = 0 }: CreditDisplayProps) {
   const { user } = useAuth();
   const [status, setStatus] = useState<CreditStatus | null>(null);
@@ -44,7 +43,7 @@ export function CreditDisplay({ className, compact = false, refreshTrigger = 0 }
     } catch (error) {
       console.error('Error fetching credit status:', error);
       // Fallback to default
-      setStatus({ credits_used: 0, credits_remaining: 100, limit: 100 });
+      setStatus({ credits_used: 0, credits_remaining: DAILY_CREDIT_LIMIT, limit: DAILY_CREDIT_LIMIT, bonus_credits: 0 });
     } finally {
       setLoading(false);
     }
@@ -58,7 +57,7 @@ export function CreditDisplay({ className, compact = false, refreshTrigger = 0 }
         .from('user_secrets')
         .select('id')
         .eq('user_id', user.id)
-        .eq('secret_name', 'gemini_api_key')
+        .eq('secret_name', 'GEMINI_API_KEY')
         .maybeSingle();
       
       setHasUserKey(!!data);
@@ -85,30 +84,15 @@ export function CreditDisplay({ className, compact = false, refreshTrigger = 0 }
 
   if (!status) return null;
 
+  const bonus = status.bonus_credits ?? 0;
   const percentUsed = (status.credits_used / status.limit) * 100;
-  const isLow = status.credits_remaining <= 20;
-  const isCritical = status.credits_remaining <= 5;
+  // Bonus credits are drawn on once the daily allowance is spent
+  const available = status.credits_remaining + bonus;
+  const isLow = available <= 20;
+  const isCritical = available <= 5;
 
-  if (compact) {
-    return (
-      <div className={cn("flex items-center gap-2", className)}>
-        <Badge 
-          variant="outline" 
-          className={cn(
-            isCritical ? "bg-destructive/10 text-destructive border-destructive/30" :
-            isLow ? "bg-amber-500/10 text-amber-600 border-amber-500/30" :
-            "bg-primary/10 text-primary border-primary/30"
-          )}
-        >
-          <Zap className="w-3 h-3 mr-1" />
-          {status.credits_remaining}/{status.limit}
-        </Badge>
-      </div>
-    );
-  }
-
-  return (
-    <div className={cn("space-y-2", className)}>
+  const meter = (
+    <div className="space-y-2">
       <div className="flex items-center justify-between text-sm">
         <span className="flex items-center gap-1 text-muted-foreground">
           <Zap className="w-4 h-4" />
@@ -132,6 +116,12 @@ export function CreditDisplay({ className, compact = false, refreshTrigger = 0 }
           "[&>div]:bg-primary"
         )}
       />
+      {bonus > 0 && (
+        <p className="flex items-center gap-1 text-xs text-emerald-600">
+          <Gift className="w-3 h-3" />
+          +{bonus} bonus credits, used once today's allowance runs out
+        </p>
+      )}
       {isLow && (
         <p className="text-xs text-muted-foreground">
           {isCritical 
@@ -142,4 +132,42 @@ export function CreditDisplay({ className, compact = false, refreshTrigger = 0 }
       )}
     </div>
   );
-}
\ No newline at end of file
+
+  if (compact) {
+    return (
+      <div className={cn("flex items-center gap-2", className)}>
+        <Popover>
+          <PopoverTrigger asChild>
+            <button type="button" className="rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring">
+              <Badge 
+                variant="outline" 
+                className={cn(
+                  "cursor-pointer",
+                  isCritical ? "bg-destructive/10 text-destructive border-destructive/30" :
+                  isLow ? "bg-amber-500/10 text-amber-600 border-amber-500/30" :
+                  "bg-primary/10 text-primary border-primary/30"
+                )}
+              >
+                <Zap className="w-3 h-3 mr-1" />
+                {status.credits_remaining}/{status.limit}
+                {bonus > 0 && <span className="ml-1 text-emerald-600">+{bonus}</span>}
+              </Badge>
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-80 space-y-3">
+            {meter}
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-1">Recent activity</p>
+              <CreditHistory limit={5} refreshTrigger={refreshTrigger} />
+            </div>
+            <Link to="/settings" className="block text-xs text-primary hover:underline">
+              View full credit history
+            </Link>
+          </PopoverContent>
+        </Popover>
+      </div>
+    );
+  }
+
+  return <div className={className}>{meter}</div>;
+}
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, History } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { summarizeCreditHistory, type CreditActivity, type CreditActivityStatus, type CreditTransaction } from '@/lib/credits';
+
+interface CreditHistoryProps {
+  className?: string;
+  /** Most recent entries to show */
+  limit?: number;
+  refreshTrigger?: number;
+}
+
+const STATUS_BADGES: Record<CreditActivityStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-muted text-muted-foreground' },
+  charged: { label: 'Charged', className: 'bg-primary/10 text-primary border-primary/30' },
+  refunded: { label: 'Refunded', className: 'bg-amber-500/10 text-amber-600 border-amber-500/30' },
+  credited: { label: 'Credited', className: 'bg-emerald-500/10 text-emerald-600 border-emerald-500/30' },
+};
+
+export function CreditHistory({ className, limit = 20, refreshTrigger = 0 }: CreditHistoryProps) {
+  const { user } = useAuth();
+  const [activity, setActivity] = useState<CreditActivity[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchHistory = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      // Each charge is a reserve row plus its commit or refund, so fetch enough rows for `limit` entries
+      const { data, error } = await supabase
+        .from('credit_transactions')
+        .select('id, kind, amount, bonus_amount, operation, reference, reservation_id, note, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(limit * 2);
+
+      if (error) throw error;
+      setActivity(summarizeCreditHistory((data || []) as CreditTransaction[]).slice(0, limit));
+    } catch (error) {
+      console.error('Error fetching credit history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, limit]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory, refreshTrigger]);
+
+  if (!user) return null;
+
+  if (loading) {
+    return (
+      <div className={cn("flex justify-center py-4", className)}>
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (activity.length === 0) {
+    return (
+      <div className={cn("py-4 text-center text-sm text-muted-foreground", className)}>
+        <History className="w-6 h-6 mx-auto mb-2 opacity-50" />
+        No credit activity yet.
+      </div>
+    );
+  }
+
+  return (
+    <ul className={cn("divide-y", className)}>
+      {activity.map(item => {
+        const badge = STATUS_BADGES[item.status];
+        return (
+          <li key={item.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+            <div className="min-w-0">
+              <p className="font-medium truncate">{item.label}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {format(new Date(item.createdAt), 'MMM d, HH:mm')}
+                {item.note && ` · ${item.note}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Badge variant="outline" className={badge.className}>{badge.label}</Badge>
+              <span
+                className={cn(
+                  "w-12 text-right font-medium tabular-nums",
+                  item.amount > 0 ? "text-emerald-600" : item.amount < 0 ? "text-foreground" : "text-muted-foreground line-through",
+                )}
+              >
+                {item.status === 'refunded' ? `-${item.reserved}` : `${item.amount > 0 ? '+' : ''}${item.amount}`}
+              </span>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Flag, Loader2, Clock, CheckCircle2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import type { DisputeSource, DisputeStatus } from '@/lib/answerDisputes';
+
+interface DisputeMarkButtonProps {
+  module: 'reading' | 'listening';
+  source: DisputeSource;
+  testId: string;
+  /** Submission row for published tests; AI practice results are keyed by test */
+  submissionId?: string | null;
+  questionNumber: number;
+  questionText?: string | null;
+  userAnswer: string;
+  correctAnswer: string;
+  /** Status of a dispute the user already raised on this question */
+  status?: DisputeStatus;
+  onSubmitted?: (questionNumber: number) => void;
+}
+
+const STATUS_BADGES: Record<DisputeStatus, { label: string; icon: typeof Clock; className: string }> = {
+  pending: { label: 'Dispute under review', icon: Clock, className: 'border-amber-500/40 text-amber-600' },
+  approved: { label: 'Dispute accepted', icon: CheckCircle2, className: 'border-emerald-500/40 text-emerald-600' },
+  rejected: { label: 'Dispute declined', icon: XCircle, className: 'border-muted-foreground/40 text-muted-foreground' },
+};
+
+export function DisputeMarkButton({
+  module,
+  source,
+  testId,
+  submissionId,
+  questionNumber,
+  questionText,
+  userAnswer,
+  correctAnswer,
+  status,
+  onSubmitted,
+}: DisputeMarkButtonProps) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (status) {
+    const badge = STATUS_BADGES[status];
+    const Icon = badge.icon;
+    return (
+      <Badge variant="outline" className={`gap-1 text-xs ${badge.className}`}>
+        <Icon size={12} />
+        {badge.label}
+      </Badge>
+    );
+  }
+
+  const handleSubmit = async () => {
+    if (!user) {
+      toast.error('Please log in to dispute a mark');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.from('answer_disputes').insert({
+        user_id: user.id,
+        module,
+        source,
+        test_id: testId,
+        submission_id: submissionId ?? null,
+        question_number: questionNumber,
+        question_text: questionText ?? null,
+        user_answer: userAnswer.trim(),
+        correct_answer: correctAnswer,
+        reason: reason.trim() || null,
+      });
+
+      // Unique violation: the question was already disputed
+      if (error && error.code !== '23505') throw error;
+
+      toast.success('Dispute sent. We will review your answer and update your score if it is accepted.');
+      setOpen(false);
+      onSubmitted?.(questionNumber);
+    } catch (error) {
+      console.error('Failed to submit answer dispute:', error);
+      toast.error('Failed to send your dispute. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-1 text-xs text-muted-foreground hover:text-amber-600 h-7">
+          <Flag size={12} />
+          Dispute this mark
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Dispute Question {questionNumber}</DialogTitle>
+          <DialogDescription>
+            Think your answer should be accepted? An examiner will review it. If it is accepted, it is added
+            to the answer key and your score is updated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div className="p-3 rounded-lg border bg-muted/30">
+              <p className="text-xs text-muted-foreground mb-1">Your Answer</p>
+              <p className="font-semibold">{userAnswer}</p>
+            </div>
+            <div className="p-3 rounded-lg border bg-muted/30">
+              <p className="text-xs text-muted-foreground mb-1">Answer Key</p>
+              <p className="font-semibold">{correctAnswer}</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`dispute-reason-${questionNumber}`}>Why should it be accepted? (optional)</Label>
+            <Textarea
+              id={`dispute-reason-${questionNumber}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder='e.g. "color" is the American spelling of "colour"'
+              maxLength={1000}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Send Dispute
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Check, X, Brain, Layers } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { scheduleReview, endOfToday } from '@/lib/spacedRepetition';
 
 interface Flashcard {
   id: string;
@@ -14,6 +15,11 @@ interface Flashcard {
   status: 'learning' | 'reviewing' | 'mastered';
   review_count: number;
   correct_count: number;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string | null;
 }
 
 interface FlashcardQuickPracticeProps {
@@ -28,7 +34,7 @@ export function FlashcardQuickPractice({ className }: FlashcardQuickPracticeProp
   const [loading, setLoading] = useState(true);
   const [sessionStats, setSessionStats] = useState({ correct: 0, incorrect: 0 });
 
-  // Load user's flashcards that need review (learning and reviewing status)
+  // Load user's flashcards that are due for review today
   useEffect(() => {
     const loadCards = async () => {
       if (!user) {
@@ -39,10 +45,10 @@ export function FlashcardQuickPractice({ className }: FlashcardQuickPracticeProp
       try {
         const { data, error } = await supabase
           .from('flashcard_cards')
-          .select('id, word, meaning, status, review_count, correct_count')
+          .select('id, word, meaning, status, review_count, correct_count, ease_factor, interval_days, repetitions, lapses, due_at')
           .eq('user_id', user.id)
-          .in('status', ['learning', 'reviewing'])
-          .order('correct_count', { ascending: true })
+          .or(`due_at.is.null,due_at.lte.${endOfToday().toISOString()}`)
+          .order('due_at', { ascending: true, nullsFirst: false })
           .limit(20);
 
         if (error) throw error;
@@ -52,7 +58,8 @@ export function FlashcardQuickPractice({ className }: FlashcardQuickPracticeProp
           const shuffled = [...data].sort(() => Math.random() - 0.5);
           setCards(shuffled.map(c => ({
             ...c,
-            status: c.status as 'learning' | 'reviewing' | 'mastered'
+            status: c.status as 'learning' | 'reviewing' | 'mastered',
+            ease_factor: Number(c.ease_factor),
           })));
         }
       } catch (err) {
@@ -75,38 +82,18 @@ export function FlashcardQuickPractice({ className }: FlashcardQuickPracticeProp
       incorrect: prev.incorrect + (knewIt ? 0 : 1),
     }));
 
-    // Update card in database
-    let newStatus: 'learning' | 'reviewing' | 'mastered' = currentCard.status;
-    const newReviewCount = currentCard.review_count + 1;
-    const newCorrectCount = knewIt ? currentCard.correct_count + 1 : currentCard.correct_count;
-
-    if (knewIt) {
-      if (currentCard.status === 'learning') {
-        newStatus = 'reviewing';
-      } else if (currentCard.status === 'reviewing' && newCorrectCount >= 3) {
-        newStatus = 'mastered';
-      }
-    } else {
-      if (currentCard.status === 'mastered' || currentCard.status === 'reviewing') {
-        newStatus = 'learning';
-      }
-    }
+    // Quick practice only has two buttons: map them onto the scheduler's "good"/"again" grades
+    const result = scheduleReview(currentCard, knewIt ? 'good' : 'again');
 
     try {
       await supabase
         .from('flashcard_cards')
-        .update({
-          status: newStatus,
-          review_count: newReviewCount,
-          correct_count: newCorrectCount,
-        })
+        .update(result)
         .eq('id', currentCard.id);
 
       // Update local state
       setCards(prev => prev.map(c => 
-        c.id === currentCard.id 
-          ? { ...c, status: newStatus, review_count: newReviewCount, correct_count: newCorrectCount }
-          : c
+        c.id === currentCard.id ? { ...c, ...result } : c
       ));
     } catch (err) {
       console.error('Error updating flashcard:', err);
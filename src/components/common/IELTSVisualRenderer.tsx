@@ -1,5 +1,17 @@
 import { cn } from '@/lib/utils';
 import { Component, ErrorInfo, ReactNode } from 'react';
+import type { ChartDataItem, IELTSChartData, MapFeature } from '@/lib/ieltsChartData';
+
+export type {
+  ChartDataItem,
+  IELTSChartData,
+  LineDataPoint,
+  LineSeriesData,
+  MapData,
+  MapFeature,
+  ProcessStep,
+  TableCell,
+} from '@/lib/ieltsChartData';
 
 // Error Boundary for crash-proof charts
 interface ErrorBoundaryState {
@@ -55,62 +67,6 @@ class ChartErrorBoundary extends Component<{ children: ReactNode; fallbackData?:
   }
 }
 
-// Chart data types for different visual types
-export interface ChartDataItem {
-  label: string;
-  value: number;
-  color?: string;
-}
-
-export interface LineDataPoint {
-  x: string | number;
-  y: number;
-}
-
-export interface LineSeriesData {
-  name: string;
-  data: LineDataPoint[];
-  color?: string;
-}
-
-export interface TableCell {
-  value: string | number;
-  isHeader?: boolean;
-}
-
-export interface ProcessStep {
-  label: string;
-  description?: string;
-}
-
-export interface MapFeature {
-  label: string;
-  type: 'building' | 'road' | 'park' | 'water' | 'other';
-  position?: string;
-}
-
-export interface MapData {
-  before?: { year: string; features: MapFeature[] };
-  after?: { year: string; features: MapFeature[] };
-  features?: MapFeature[];
-}
-
-// Main chart data interface
-export interface IELTSChartData {
-  type: 'BAR_CHART' | 'LINE_GRAPH' | 'PIE_CHART' | 'TABLE' | 'PROCESS_DIAGRAM' | 'MAP' | 'MIXED_CHARTS';
-  title: string;
-  subtitle?: string;
-  xAxisLabel?: string;
-  yAxisLabel?: string;
-  data?: ChartDataItem[];
-  series?: LineSeriesData[];
-  rows?: TableCell[][];
-  headers?: string[];
-  steps?: ProcessStep[];
-  mapData?: MapData;
-  charts?: IELTSChartData[]; // For mixed charts
-}
-
 // Default colors for charts - highly distinguishable palette like official IELTS
 const CHART_COLORS = [
   '#3366CC', // Strong blue
@@ -0,0 +1,70 @@
+import { AlertTriangle, CheckCircle2, CloudOff, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+
+/**
+ * Floating pill showing connectivity and offline submission sync state.
+ * Hidden while online with nothing queued.
+ */
+export function OfflineSyncStatus() {
+  const { status, pendingCount, failedCount, retryNow } = useOfflineSync();
+
+  if (status === 'idle') return null;
+
+  const pendingLabel = `${pendingCount} submission${pendingCount === 1 ? '' : 's'}`;
+  const failedLabel = `${failedCount} submission${failedCount === 1 ? '' : 's'}`;
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        'fixed bottom-4 left-4 z-[60] flex items-center gap-2 rounded-full border px-4 py-2 text-sm shadow-lg bg-background',
+        (status === 'offline' || status === 'failed') && 'border-destructive/40 text-destructive',
+        status === 'synced' && 'border-success/40 text-success'
+      )}
+    >
+      {status === 'offline' && (
+        <>
+          <CloudOff className="h-4 w-4" />
+          <span>
+            You're offline
+            {pendingCount > 0 && ` · ${pendingLabel} waiting to sync`}
+          </span>
+        </>
+      )}
+      {status === 'syncing' && (
+        <>
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Syncing {pendingLabel}...</span>
+        </>
+      )}
+      {status === 'pending' && (
+        <>
+          <CloudOff className="h-4 w-4 text-warning" />
+          <span>{pendingLabel} waiting to sync</span>
+          <Button size="sm" variant="ghost" className="h-7 px-2" onClick={retryNow}>
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Retry
+          </Button>
+        </>
+      )}
+      {status === 'failed' && (
+        <>
+          <AlertTriangle className="h-4 w-4" />
+          <span>{failedLabel} could not be sent</span>
+          <Button size="sm" variant="ghost" className="h-7 px-2" onClick={retryNow}>
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Retry
+          </Button>
+        </>
+      )}
+      {status === 'synced' && (
+        <>
+          <CheckCircle2 className="h-4 w-4" />
+          <span>All submissions synced</span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -8,7 +8,8 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Button } from '@/components/ui/button';
-import { Clock, Send, Play } from 'lucide-react';
+import { Clock, Send, Play, RotateCcw, MonitorSmartphone } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 
 interface RestoreTestStateDialogProps {
   open: boolean;
@@ -17,6 +18,14 @@ interface RestoreTestStateDialogProps {
   totalQuestions: number;
   onContinue: () => void;
   onSubmit: () => void;
+  /** Label for the progress row, e.g. "Tasks started:" for writing */
+  progressLabel?: string;
+  /** When the restored state was last saved (server autosave) */
+  savedAt?: string;
+  /** The attempt was autosaved from a different browser or device */
+  fromOtherDevice?: boolean;
+  /** Offered for autosaved attempts: discard the saved progress */
+  onStartOver?: () => void;
 }
 
 export function RestoreTestStateDialog({
@@ -26,6 +35,10 @@ export function RestoreTestStateDialog({
   totalQuestions,
   onContinue,
   onSubmit,
+  progressLabel = 'Questions answered:',
+  savedAt,
+  fromOtherDevice = false,
+  onStartOver,
 }: RestoreTestStateDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   
@@ -61,10 +74,16 @@ export function RestoreTestStateDialog({
             <p>
               Your previous test session has been restored.
             </p>
+            {fromOtherDevice && (
+              <p className="flex items-center gap-2 text-sm">
+                <MonitorSmartphone className="h-4 w-4 text-primary" />
+                This progress was saved on another device.
+              </p>
+            )}
             
             <div className="bg-muted/50 rounded-lg p-4 space-y-2">
               <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Questions answered:</span>
+                <span className="text-muted-foreground">{progressLabel}</span>
                 <span className="font-medium">{answeredCount} / {totalQuestions}</span>
               </div>
               <div className="flex justify-between text-sm">
@@ -73,6 +92,12 @@ export function RestoreTestStateDialog({
                   {isTimeUp ? 'No time left' : timeDisplay}
                 </span>
               </div>
+              {savedAt && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Last saved:</span>
+                  <span className="font-medium">{formatDistanceToNow(new Date(savedAt), { addSuffix: true })}</span>
+                </div>
+              )}
             </div>
 
             {isTimeUp ? (
@@ -98,6 +123,17 @@ export function RestoreTestStateDialog({
             </Button>
           ) : (
             <>
+              {onStartOver && (
+                <Button
+                  variant="ghost"
+                  onClick={onStartOver}
+                  className="w-full sm:w-auto"
+                  disabled={isSubmitting}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Start Over
+                </Button>
+              )}
               <Button 
                 variant="outline" 
                 onClick={onContinue}
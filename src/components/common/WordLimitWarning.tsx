@@ -0,0 +1,31 @@
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { checkWordLimit, type WordLimit } from '@/lib/ieltsAnswerValidation';
+
+interface WordLimitWarningProps {
+  answer: string | undefined;
+  limit: WordLimit | null | undefined;
+  className?: string;
+}
+
+/**
+ * Live warning shown next to completion inputs while the answer is over the
+ * word limit - such answers are marked wrong on submission.
+ */
+export function WordLimitWarning({ answer, limit, className }: WordLimitWarningProps) {
+  if (!answer?.trim() || !limit) return null;
+
+  const check = checkWordLimit(answer, limit);
+  if (check.valid) return null;
+
+  return (
+    <span
+      role="status"
+      title={check.reason ?? undefined}
+      className={cn('inline-flex items-center gap-0.5 ml-1 text-xs font-medium text-destructive align-middle', className)}
+    >
+      <AlertTriangle size={12} />
+      Too many words
+    </span>
+  );
+}
@@ -1,6 +1,7 @@
 import { cn } from '@/lib/utils';
 import { FillInBlank, ListeningTableCompletion, MatchingCorrectLetter, Maps, MapLabeling, MapLabelingTable, MultipleChoiceSingle, MultipleChoiceMultiple, DragAndDropOptions, FlowchartCompletion, NoteStyleFillInBlank } from './questions';
 import { QuestionTextWithTools } from '@/components/common/QuestionTextWithTools';
+import { resolveWordLimit } from '@/lib/ieltsAnswerValidation';
 import { TableData, TableEditorData } from '@/components/admin/ListeningQuestionGroupEditor'; // Import types from admin editor
 
 interface Question {
@@ -30,6 +31,8 @@ interface QuestionGroup {
   questions: Question[]; // Added this line to the interface
   group_heading?: string | null; // Heading for the entire question group
   group_heading_alignment?: 'left' | 'center' | 'right'; // Alignment for the group heading
+  max_words?: number | null; // Structured word limit (falls back to the instruction text)
+  max_numbers?: number | null;
 }
 
 interface ListeningQuestionsProps {
@@ -236,6 +239,7 @@ export function ListeningQuestions({
             onAnswerChange={handleChange}
             renderRichText={renderRichText}
             stripLeadingQuestionNumber={stripLeadingQuestionNumber}
+            wordLimit={resolveWordLimit(group, question.instruction)}
           />
         );
       case 'TABLE_COMPLETION':
@@ -1,5 +1,7 @@
 import { cn } from '@/lib/utils';
 import { QuestionTextWithTools } from '@/components/common/QuestionTextWithTools';
+import { WordLimitWarning } from '@/components/common/WordLimitWarning';
+import { isOverWordLimit, type WordLimit } from '@/lib/ieltsAnswerValidation';
 
 interface Question {
   id: string;
@@ -19,6 +21,7 @@ interface FillInBlankProps {
   renderRichText: (text: string) => string;
   stripLeadingQuestionNumber: (text: string, questionNumber: number) => string;
   isActive?: boolean;
+  wordLimit?: WordLimit | null;
 }
 
 export function FillInBlank({ 
@@ -29,6 +32,7 @@ export function FillInBlank({
   renderRichText, 
   stripLeadingQuestionNumber,
   isActive: _isActive = false,
+  wordLimit,
 }: FillInBlankProps) {
   const hasInlineBlank = /_{2,10}/.test(question.question_text);
 
@@ -103,27 +107,31 @@ export function FillInBlank({
                 as="span"
               />
               {idx < parts.length - 1 && (
-                <input
-                  type="text"
-                  value={currentAnswers[idx] || ''}
-                  onChange={(e) => {
-                    const newAnswers = [...currentAnswers];
-                    newAnswers[idx] = e.target.value;
-                    
-                    const updatedAnswer = (parts.length - 1 > 1) 
-                      ? newAnswers.join(',') 
-                      : newAnswers[0];
+                <>
+                  <input
+                    type="text"
+                    value={currentAnswers[idx] || ''}
+                    onChange={(e) => {
+                      const newAnswers = [...currentAnswers];
+                      newAnswers[idx] = e.target.value;
+                      
+                      const updatedAnswer = (parts.length - 1 > 1) 
+                        ? newAnswers.join(',') 
+                        : newAnswers[0];
 
-                    onAnswerChange(updatedAnswer);
-                  }}
-                  placeholder={String(question.question_number)}
-                  className={cn(
-                    "ielts-input h-7 text-sm font-normal px-2 min-w-[174px] max-w-full rounded-[3px] text-center placeholder:text-center placeholder:font-bold placeholder:text-foreground/70",
-                    "bg-background border border-[hsl(var(--ielts-input-border))] text-foreground",
-                    "focus:outline-none focus:border-[hsl(var(--ielts-input-focus))] focus:ring-0",
-                    "transition-colors align-middle mx-1"
-                  )}
-                />
+                      onAnswerChange(updatedAnswer);
+                    }}
+                    placeholder={String(question.question_number)}
+                    className={cn(
+                      "ielts-input h-7 text-sm font-normal px-2 min-w-[174px] max-w-full rounded-[3px] text-center placeholder:text-center placeholder:font-bold placeholder:text-foreground/70",
+                      "bg-background border border-[hsl(var(--ielts-input-border))] text-foreground",
+                      "focus:outline-none focus:border-[hsl(var(--ielts-input-focus))] focus:ring-0",
+                      "transition-colors align-middle mx-1",
+                      isOverWordLimit(currentAnswers[idx], wordLimit) && "border-destructive"
+                    )}
+                  />
+                  <WordLimitWarning answer={currentAnswers[idx]} limit={wordLimit} />
+                </>
               )}
             </span>
           ))}
@@ -144,9 +152,11 @@ export function FillInBlank({
           "ielts-input h-7 text-sm font-normal px-2 min-w-[174px] max-w-full rounded-[3px] text-center placeholder:text-center placeholder:font-bold placeholder:text-foreground/70",
           "bg-background border border-[hsl(var(--ielts-input-border))] text-foreground",
           "focus:outline-none focus:border-[hsl(var(--ielts-input-focus))] focus:ring-0",
-          "transition-colors"
+          "transition-colors",
+          isOverWordLimit(answer, wordLimit) && "border-destructive"
         )}
       />
+      <WordLimitWarning answer={answer} limit={wordLimit} />
     </div>
   );
 }
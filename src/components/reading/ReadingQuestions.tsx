@@ -20,6 +20,7 @@ import { MatchingHeadingsDragDrop } from './questions/MatchingHeadingsDragDrop';
 import { MatchingSentenceEndingsDragDrop } from './questions/MatchingSentenceEndingsDragDrop';
 import { QuestionTextWithTools } from '@/components/common/QuestionTextWithTools';
 import { NoteStyleFillInBlank } from '@/components/listening/questions/NoteStyleFillInBlank';
+import { resolveWordLimit } from '@/lib/ieltsAnswerValidation';
 import {
   Select,
   SelectContent,
@@ -237,6 +238,10 @@ export function ReadingQuestions({
         return null;
       
       case 'SENTENCE_COMPLETION': {
+        const groupMeta = getQuestionGroupOptions
+          ? getQuestionGroupOptions(question.question_group_id || null)
+          : null;
+
         // Use dedicated SentenceCompletion component that properly handles _____ patterns
         return (
           <SentenceCompletion
@@ -245,6 +250,7 @@ export function ReadingQuestions({
             onAnswerChange={handleChange}
             isActive={isActive}
             onSetActive={onSetActive}
+            wordLimit={resolveWordLimit(groupMeta, question.instruction)}
           />
         );
       }
@@ -284,6 +290,7 @@ export function ReadingQuestions({
             onSetActive={onSetActive}
             useDropdown={useDropdown}
             wordBank={wordBank}
+            wordLimit={useDropdown ? null : resolveWordLimit(groupMeta, question.instruction)}
           />
         );
       }
@@ -841,6 +848,7 @@ export function ReadingQuestions({
                         onAnswerChange={onAnswerChange}
                         currentQuestion={currentQuestion}
                         fontSize={fontSize}
+                        wordLimit={resolveWordLimit(group, instruction)}
                       />
                     );
                   })()
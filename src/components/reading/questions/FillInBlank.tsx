@@ -6,6 +6,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { WordLimitWarning } from '@/components/common/WordLimitWarning';
+import { isOverWordLimit, type WordLimit } from '@/lib/ieltsAnswerValidation';
 
 interface Question {
   id: string;
@@ -23,6 +25,7 @@ interface FillInBlankProps {
   onSetActive?: () => void;
   useDropdown?: boolean;
   wordBank?: string[];
+  wordLimit?: WordLimit | null;
 }
 
 export function FillInBlank({
@@ -33,6 +36,7 @@ export function FillInBlank({
   onSetActive,
   useDropdown = false,
   wordBank = [],
+  wordLimit,
 }: FillInBlankProps) {
   // Match any sequence of 2+ underscores as a potential blank.
   // IMPORTANT: Some generated content may contain decorative underscores that are NOT blanks.
@@ -77,24 +81,28 @@ export function FillInBlank({
     }
 
     return (
-      <input
-        type="text"
-        value={answer || ''}
-        onChange={(e) => onAnswerChange(e.target.value)}
-        onClick={(e) => e.stopPropagation()}
-        onMouseDown={(e) => e.stopPropagation()}
-        onPointerDown={(e) => e.stopPropagation()}
-        onFocus={(e) => e.stopPropagation()}
-        placeholder={String(question.question_number)}
-        className={cn(
-          "ielts-input h-7 text-sm font-normal text-center min-w-[174px] max-w-full rounded-[3px] mx-0.5",
-          "bg-[hsl(var(--ielts-input-bg,0_0%_100%))] border border-[hsl(var(--ielts-input-border))] text-foreground",
-          "focus:outline-none focus:border-[hsl(var(--ielts-input-focus))] focus:border-2",
-          "transition-colors placeholder:text-center placeholder:font-bold placeholder:text-foreground/70",
-          isActive && "border-[hsl(var(--ielts-input-focus))] border-2"
-        )}
-        style={{ verticalAlign: 'baseline', fontFamily: 'var(--font-ielts)' }}
-      />
+      <>
+        <input
+          type="text"
+          value={answer || ''}
+          onChange={(e) => onAnswerChange(e.target.value)}
+          onClick={(e) => e.stopPropagation()}
+          onMouseDown={(e) => e.stopPropagation()}
+          onPointerDown={(e) => e.stopPropagation()}
+          onFocus={(e) => e.stopPropagation()}
+          placeholder={String(question.question_number)}
+          className={cn(
+            "ielts-input h-7 text-sm font-normal text-center min-w-[174px] max-w-full rounded-[3px] mx-0.5",
+            "bg-[hsl(var(--ielts-input-bg,0_0%_100%))] border border-[hsl(var(--ielts-input-border))] text-foreground",
+            "focus:outline-none focus:border-[hsl(var(--ielts-input-focus))] focus:border-2",
+            "transition-colors placeholder:text-center placeholder:font-bold placeholder:text-foreground/70",
+            isActive && "border-[hsl(var(--ielts-input-focus))] border-2",
+            isOverWordLimit(answer, wordLimit) && "border-destructive"
+          )}
+          style={{ verticalAlign: 'baseline', fontFamily: 'var(--font-ielts)' }}
+        />
+        <WordLimitWarning answer={answer} limit={wordLimit} />
+      </>
     );
   };
 
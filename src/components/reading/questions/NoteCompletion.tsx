@@ -1,4 +1,6 @@
 import { cn } from '@/lib/utils';
+import { WordLimitWarning } from '@/components/common/WordLimitWarning';
+import { isOverWordLimit, type WordLimit } from '@/lib/ieltsAnswerValidation';
 
 interface NoteItem {
   question_number: number;
@@ -18,6 +20,7 @@ interface NoteCompletionProps {
   onAnswerChange: (questionNumber: number, answer: string) => void;
   currentQuestion?: number;
   fontSize?: number;
+  wordLimit?: WordLimit | null;
 }
 
 export function NoteCompletion({
@@ -27,6 +30,7 @@ export function NoteCompletion({
   onAnswerChange,
   currentQuestion,
   fontSize = 14,
+  wordLimit,
 }: NoteCompletionProps) {
   return (
     <div className="space-y-3" style={{ fontSize: `${fontSize}px` }}>
@@ -78,7 +82,8 @@ export function NoteCompletion({
                             "bg-[hsl(var(--ielts-input-bg,0_0%_100%))] border border-[hsl(var(--ielts-input-border))] text-foreground",
                             "focus:outline-none focus:border-[hsl(var(--ielts-input-focus))] focus:ring-0",
                             "transition-colors",
-                            isActive && "border-[hsl(var(--ielts-input-focus))]"
+                            isActive && "border-[hsl(var(--ielts-input-focus))]",
+                            isOverWordLimit(answer, wordLimit) && "border-destructive"
                           )}
                         />
                         {answer ? (
@@ -91,6 +96,7 @@ export function NoteCompletion({
                           </span>
                         )}
                       </span>
+                      <WordLimitWarning answer={answer} limit={wordLimit} />
                     </div>
                     {item.text_after && <span>{item.text_after}</span>}
                   </div>
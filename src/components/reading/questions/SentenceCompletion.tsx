@@ -1,4 +1,6 @@
 import { cn } from '@/lib/utils';
+import { WordLimitWarning } from '@/components/common/WordLimitWarning';
+import { isOverWordLimit, type WordLimit } from '@/lib/ieltsAnswerValidation';
 
 interface Question {
   id: string;
@@ -13,6 +15,7 @@ interface SentenceCompletionProps {
   onAnswerChange: (answer: string) => void;
   isActive: boolean;
   onSetActive?: () => void;
+  wordLimit?: WordLimit | null;
 }
 
 // Helper to render basic formatting
@@ -31,7 +34,9 @@ function stripLeadingQuestionNumber(text: string, questionNumber: number): strin
   return text.replace(pattern, '');
 }
 
-export function SentenceCompletion({ question, answer, onAnswerChange, isActive, onSetActive }: SentenceCompletionProps) {
+export function SentenceCompletion({ question, answer, onAnswerChange, isActive, onSetActive, wordLimit }: SentenceCompletionProps) {
+  const overLimit = isOverWordLimit(answer, wordLimit);
+
   // Check for inline blanks: _____ or numbered blanks like 34_____ or _____34
   const hasInlineBlank = question.question_text.includes('_____');
   
@@ -72,10 +77,12 @@ export function SentenceCompletion({ question, answer, onAnswerChange, isActive,
                           "bg-[hsl(var(--ielts-input-bg,0_0%_100%))] border border-[hsl(var(--ielts-input-border))] text-foreground",
                           "focus:outline-none focus:border-[hsl(var(--ielts-input-focus))] focus:ring-0",
                           "transition-colors",
-                          isActive && "border-[hsl(var(--ielts-input-focus))]"
+                          isActive && "border-[hsl(var(--ielts-input-focus))]",
+                          overLimit && "border-destructive"
                         )}
                         style={{ verticalAlign: 'baseline' }}
                       />
+                      <WordLimitWarning answer={answer} limit={wordLimit} />
                     </span>
                 )}
               </span>
@@ -109,10 +116,12 @@ export function SentenceCompletion({ question, answer, onAnswerChange, isActive,
             "bg-[hsl(var(--ielts-input-bg,0_0%_100%))] border border-[hsl(var(--ielts-input-border))] text-foreground",
             "focus:outline-none focus:border-[hsl(var(--ielts-input-focus))] focus:ring-0",
             "transition-colors",
-            isActive && "border-[hsl(var(--ielts-input-focus))]"
+            isActive && "border-[hsl(var(--ielts-input-focus))]",
+            overLimit && "border-destructive"
           )}
           style={{ verticalAlign: 'baseline' }}
         />
+        <WordLimitWarning answer={answer} limit={wordLimit} />
       </span>
     </div>
   );
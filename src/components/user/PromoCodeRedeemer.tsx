@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { Loader2, Gift } from 'lucide-react';
+import { format } from 'date-fns';
+import { normalizePromotionCode, type PromotionRedemptionResult } from '@/lib/promotions';
+
+interface PromoCodeRedeemerProps {
+  /** Called after a successful redemption, e.g. to refresh plan and credit displays */
+  onRedeemed?: () => void;
+}
+
+export function PromoCodeRedeemer({ onRedeemed }: PromoCodeRedeemerProps) {
+  const [code, setCode] = useState('');
+  const [redeeming, setRedeeming] = useState(false);
+
+  const handleRedeem = async () => {
+    const normalized = normalizePromotionCode(code);
+    if (!normalized) return;
+
+    setRedeeming(true);
+    try {
+      const { data, error } = await supabase.rpc('redeem_promotion_code', { p_code: normalized });
+      if (error) throw error;
+
+      const result = data as unknown as PromotionRedemptionResult;
+      if (!result.ok) {
+        toast.error(result.error || 'That code could not be redeemed');
+        return;
+      }
+
+      if (result.reward_type === 'credits') {
+        toast.success(`${result.reward_amount} bonus credits added to your account`);
+      } else if (result.starts_at && new Date(result.starts_at) > new Date()) {
+        toast.success(`${result.plan_name} unlocked from ${format(new Date(result.starts_at), 'MMM d, yyyy')} until ${format(new Date(result.ends_at!), 'MMM d, yyyy')}`);
+      } else {
+        toast.success(`${result.plan_name} unlocked until ${format(new Date(result.ends_at!), 'MMM d, yyyy')}`);
+      }
+      setCode('');
+      onRedeemed?.();
+    } catch (error) {
+      console.error('Error redeeming code:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to redeem code');
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="promo-code">Promotion code</Label>
+      <div className="flex gap-2">
+        <Input
+          id="promo-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleRedeem()}
+          placeholder="IELTS-XXXXXXXX"
+          className="font-mono max-w-xs"
+        />
+        <Button variant="outline" onClick={handleRedeem} disabled={redeeming || !code.trim()}>
+          {redeeming ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Gift className="w-4 h-4 mr-2" />}
+          Redeem
+        </Button>
+      </div>
+    </div>
+  );
+}
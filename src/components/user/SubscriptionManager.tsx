@@ -0,0 +1,191 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useEntitlements } from '@/hooks/useEntitlements';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { toast } from 'sonner';
+import { Loader2, Check } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import {
+  ENTITLEMENT_KEYS,
+  ENTITLEMENTS,
+  formatEntitlementLimit,
+  type PlanEntitlements,
+  type SubscriptionPlan,
+} from '@/lib/entitlements';
+
+interface SubscriptionManagerProps {
+  /** Called after the plan changes, e.g. to refresh credit displays */
+  onPlanChanged?: () => void;
+  refreshTrigger?: number;
+}
+
+interface ChangeSubscriptionResponse {
+  success?: boolean;
+  error?: string;
+  kind?: 'new' | 'upgrade' | 'downgrade' | 'cancel' | 'unchanged';
+  charge?: number;
+  credit?: number;
+  /** Refunded for a scheduled plan the change replaced */
+  refunded?: number;
+  subscription?: { start_date: string };
+}
+
+const formatPrice = (price: number) => (price > 0 ? `$${price.toFixed(2)}/month` : 'Free');
+
+export function SubscriptionManager({ onPlanChanged, refreshTrigger = 0 }: SubscriptionManagerProps) {
+  const [changeCount, setChangeCount] = useState(0);
+  const { status, loading } = useEntitlements(refreshTrigger + changeCount);
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [changingTo, setChangingTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPlans();
+  }, []);
+
+  const fetchPlans = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('subscription_plans')
+        .select('*')
+        .eq('is_active', true)
+        .order('sort_order');
+      if (error) throw error;
+      setPlans((data || []).map(p => ({ ...p, price_monthly: Number(p.price_monthly), entitlements: p.entitlements as unknown as PlanEntitlements })));
+    } catch (error) {
+      console.error('Error fetching plans:', error);
+    }
+  };
+
+  const handleChangePlan = async (plan: SubscriptionPlan) => {
+    setChangingTo(plan.id);
+    try {
+      const { data, error } = await supabase.functions.invoke<ChangeSubscriptionResponse>('change-subscription', {
+        body: { planId: plan.id },
+      });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to change plan');
+
+      switch (data.kind) {
+        case 'new':
+          toast.success(`You're on ${plan.name}. Charged $${data.charge?.toFixed(2)}.`);
+          break;
+        case 'upgrade':
+          toast.success(`Upgraded to ${plan.name}. Charged $${data.charge?.toFixed(2)} after a $${data.credit?.toFixed(2)} credit for your current plan.`);
+          break;
+        case 'downgrade':
+          toast.success(`${plan.name} starts on ${format(new Date(data.subscription!.start_date), 'MMM d, yyyy')}.`);
+          break;
+        case 'cancel':
+          toast.success(`Your plan will end on ${format(new Date(status!.subscription!.end_date), 'MMM d, yyyy')}.${data.refunded ? ` Refunded $${data.refunded.toFixed(2)} for the plan scheduled after it.` : ''}`);
+          break;
+        default:
+          toast.success(`You're on ${plan.name}.`);
+      }
+      setChangeCount(prev => prev + 1);
+      onPlanChanged?.();
+    } catch (error) {
+      console.error('Error changing plan:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to change plan');
+    } finally {
+      setChangingTo(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!status) {
+    return <p className="text-sm text-muted-foreground">Your plan couldn't be loaded. Please refresh the page.</p>;
+  }
+
+  const currentPrice = status.plan.price_monthly;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="font-medium">{status.plan.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {status.subscription
+              ? `Current period ends ${format(new Date(status.subscription.end_date), 'MMM d, yyyy')} and doesn't renew automatically`
+              : `Monthly allowances reset ${format(new Date(status.period_end), 'MMM d')}`}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {ENTITLEMENT_KEYS.map(key => {
+          const usage = status.entitlements[key];
+          if (!usage) return null;
+          const percent = usage.limit ? Math.min(100, (usage.used / usage.limit) * 100) : 0;
+          return (
+            <div key={key} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>{ENTITLEMENTS[key].label}</span>
+                <span className="text-muted-foreground tabular-nums">
+                  {usage.limit === null ? `${usage.used} used` : `${usage.used} / ${usage.limit}`}
+                </span>
+              </div>
+              <Progress value={usage.limit === null ? 0 : percent} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {usage.limit === null ? 'Unlimited' : `Per ${ENTITLEMENTS[key].period}`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {plans.length > 0 && (
+        <div className="grid gap-3 md:grid-cols-3">
+          {plans.map(plan => {
+            const isCurrent = plan.id === status.plan.id;
+            const action = isCurrent
+              ? null
+              : plan.is_default ? 'Cancel plan' : plan.price_monthly > currentPrice ? 'Upgrade' : 'Downgrade';
+            return (
+              <div
+                key={plan.id}
+                className={cn("rounded-lg border p-4 flex flex-col gap-3", isCurrent && "border-primary bg-primary/5")}
+              >
+                <div>
+                  <p className="font-medium">{plan.name}</p>
+                  <p className="text-sm text-muted-foreground">{formatPrice(plan.price_monthly)}</p>
+                </div>
+                {plan.description && <p className="text-xs text-muted-foreground">{plan.description}</p>}
+                <ul className="space-y-1 text-xs flex-1">
+                  {ENTITLEMENT_KEYS.map(key => (
+                    <li key={key} className="flex items-center gap-1.5">
+                      <Check className="w-3 h-3 text-primary shrink-0" />
+                      {formatEntitlementLimit(key, plan.entitlements[key] ?? null)}
+                    </li>
+                  ))}
+                </ul>
+                {action ? (
+                  <Button
+                    size="sm"
+                    variant={action === 'Upgrade' ? 'default' : 'outline'}
+                    onClick={() => handleChangePlan(plan)}
+                    disabled={changingTo !== null}
+                  >
+                    {changingTo === plan.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {action}
+                  </Button>
+                ) : (
+                  <Badge variant="secondary" className="justify-center">Current plan</Badge>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
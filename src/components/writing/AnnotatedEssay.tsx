@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ArrowRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  WRITING_ERROR_CATEGORIES,
+  WRITING_ERROR_CATEGORY_META,
+  countErrorsByCategory,
+  segmentEssay,
+  type WritingCriterionTag,
+  type WritingErrorAnnotation,
+  type WritingErrorCategory,
+} from '@/lib/writingAnnotations';
+
+const CATEGORY_STYLES: Record<WritingErrorCategory, { underline: string; dot: string }> = {
+  grammar: { underline: 'decoration-red-500 hover:bg-red-500/10', dot: 'bg-red-500' },
+  lexical: { underline: 'decoration-blue-500 hover:bg-blue-500/10', dot: 'bg-blue-500' },
+  spelling: { underline: 'decoration-orange-500 hover:bg-orange-500/10', dot: 'bg-orange-500' },
+  cohesion: { underline: 'decoration-purple-500 hover:bg-purple-500/10', dot: 'bg-purple-500' },
+  task_response: { underline: 'decoration-emerald-500 hover:bg-emerald-500/10', dot: 'bg-emerald-500' },
+};
+
+const CRITERION_LABELS: Record<WritingCriterionTag, string> = {
+  TR: 'Task Response',
+  CC: 'Coherence & Cohesion',
+  LR: 'Lexical Resource',
+  GRA: 'Grammatical Range & Accuracy',
+};
+
+// The error counts that back up the accuracy-driven bands
+const SUMMARY_CRITERIA: WritingCriterionTag[] = ['GRA', 'LR'];
+
+interface AnnotatedEssayProps {
+  text: string;
+  annotations: WritingErrorAnnotation[];
+  /** Examiner bands by criterion, shown next to the error counts */
+  bands?: Partial<Record<WritingCriterionTag, number>>;
+  className?: string;
+}
+
+export function AnnotatedEssay({ text, annotations, bands, className }: AnnotatedEssayProps) {
+  const [visible, setVisible] = useState<string[]>([...WRITING_ERROR_CATEGORIES]);
+
+  const segments = useMemo(() => segmentEssay(text, annotations), [text, annotations]);
+  // Counts come from the spans that were actually placed in this text
+  const placed = useMemo(() => segments.flatMap(s => (s.annotation ? [s.annotation] : [])), [segments]);
+  const counts = useMemo(() => countErrorsByCategory(placed), [placed]);
+
+  if (placed.length === 0) {
+    return <p className={cn('whitespace-pre-wrap text-sm', className)}>{text}</p>;
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {SUMMARY_CRITERIA.map(tag => {
+          const categories = WRITING_ERROR_CATEGORIES.filter(c => WRITING_ERROR_CATEGORY_META[c].criterion === tag);
+          const total = categories.reduce((sum, c) => sum + counts[c], 0);
+          return (
+            <div key={tag} className="rounded-md border bg-card p-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{CRITERION_LABELS[tag]}</span>
+                {bands?.[tag] !== undefined && (
+                  <span className="text-muted-foreground tabular-nums">Band {bands[tag]!.toFixed(1)}</span>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {total === 0
+                  ? 'No errors marked'
+                  : categories
+                    .filter(c => counts[c] > 0)
+                    .map(c => `${counts[c]} ${WRITING_ERROR_CATEGORY_META[c].label.toLowerCase()}`)
+                    .join(' · ')}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      <ToggleGroup
+        type="multiple"
+        value={visible}
+        onValueChange={setVisible}
+        className="flex-wrap justify-start"
+        size="sm"
+        variant="outline"
+      >
+        {WRITING_ERROR_CATEGORIES.map(category => (
+          <ToggleGroupItem key={category} value={category} disabled={counts[category] === 0} className="gap-1.5 text-xs">
+            <span className={cn('w-2 h-2 rounded-full', CATEGORY_STYLES[category].dot)} />
+            {WRITING_ERROR_CATEGORY_META[category].label}
+            <span className="tabular-nums text-muted-foreground">{counts[category]}</span>
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <p className="whitespace-pre-wrap text-sm leading-7">
+        {segments.map((segment, i) => {
+          const annotation = segment.annotation;
+          if (!annotation || !visible.includes(annotation.category)) return <span key={i}>{segment.text}</span>;
+          const meta = WRITING_ERROR_CATEGORY_META[annotation.category];
+          return (
+            <Popover key={i}>
+              <PopoverTrigger asChild>
+                {/* A span rather than a button so long quotes wrap with the text */}
+                <span
+                  role="button"
+                  tabIndex={0}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      e.preventDefault();
+                      e.currentTarget.click();
+                    }
+                  }}
+                  className={cn(
+                    'underline decoration-wavy decoration-2 underline-offset-4 rounded-sm cursor-pointer',
+                    CATEGORY_STYLES[annotation.category].underline,
+                  )}
+                >
+                  {segment.text}
+                </span>
+              </PopoverTrigger>
+              <PopoverContent className="w-80 space-y-2 text-sm" align="start">
+                <p className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+                  <span className={cn('w-2 h-2 rounded-full', CATEGORY_STYLES[annotation.category].dot)} />
+                  {meta.label} · {annotation.criterion}
+                </p>
+                {annotation.correction && (
+                  <p className="flex flex-wrap items-center gap-2">
+                    <span className="line-through text-destructive">{annotation.text}</span>
+                    <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                    <span className="font-medium text-success">{annotation.correction}</span>
+                  </p>
+                )}
+                {annotation.explanation && <p className="text-muted-foreground">{annotation.explanation}</p>}
+              </PopoverContent>
+            </Popover>
+          );
+        })}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import {
+  COHESIVE_DEVICES,
+  SENTENCE_LENGTH_BUCKETS,
+  type CohesiveFunction,
+  type EssayMetrics,
+} from '@/lib/essayMetrics';
+
+interface EssayMetricsSummaryProps {
+  metrics: EssayMetrics;
+  className?: string;
+}
+
+/** How many AWL headwords to list before summarising the rest */
+const FAMILY_PREVIEW = 12;
+
+function Stat({ label, value, hint, warn }: { label: string; value: string; hint?: string; warn?: boolean }) {
+  return (
+    <div className="rounded-md border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={cn('text-lg font-semibold tabular-nums', warn && 'text-destructive')}>{value}</p>
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+export function EssayMetricsSummary({ metrics, className }: EssayMetricsSummaryProps) {
+  const { sentences, lexicalDiversity, academicWords, cohesiveDevices } = metrics;
+  const hiddenFamilies = academicWords.families.length - FAMILY_PREVIEW;
+
+  return (
+    <div className={cn('space-y-4 text-sm', className)}>
+      <div className="grid gap-2 grid-cols-2 lg:grid-cols-4">
+        <Stat
+          label="Words"
+          value={`${metrics.wordCount} / ${metrics.minimumWords}`}
+          hint={metrics.meetsMinimum ? 'Minimum reached' : `${metrics.minimumWords - metrics.wordCount} below the minimum`}
+          warn={!metrics.meetsMinimum}
+        />
+        <Stat
+          label="Paragraphs"
+          value={String(metrics.paragraphs.count)}
+          hint={metrics.paragraphs.wordCounts.length > 0 ? `${metrics.paragraphs.wordCounts.join(' · ')} words` : undefined}
+        />
+        <Stat
+          label="Lexical diversity"
+          value={lexicalDiversity.mtld !== null ? `MTLD ${lexicalDiversity.mtld}` : '–'}
+          hint={`Type-token ratio ${lexicalDiversity.typeTokenRatio.toFixed(2)}`}
+        />
+        <Stat
+          label="Academic words"
+          value={`${(academicWords.coverage * 100).toFixed(1)}%`}
+          hint={`${academicWords.count} words from ${academicWords.families.length} AWL families`}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <p className="font-medium">
+          Sentence length
+          <span className="ml-2 font-normal text-muted-foreground">
+            {sentences.count} sentences · {sentences.averageLength} words on average · longest {sentences.longest}
+          </span>
+        </p>
+        {SENTENCE_LENGTH_BUCKETS.map(bucket => (
+          <div key={bucket.key} className="grid grid-cols-[6rem_1fr_2rem] items-center gap-2 text-xs">
+            <span className="text-muted-foreground">{bucket.label}</span>
+            <Progress value={sentences.count ? (sentences.distribution[bucket.key] / sentences.count) * 100 : 0} className="h-2" />
+            <span className="text-right tabular-nums">{sentences.distribution[bucket.key]}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <p className="font-medium">
+          Cohesive devices
+          <span className="ml-2 font-normal text-muted-foreground">
+            {cohesiveDevices.total} used · {cohesiveDevices.perHundredWords} per 100 words
+          </span>
+        </p>
+        <div className="flex flex-wrap gap-1.5">
+          {(Object.keys(COHESIVE_DEVICES) as CohesiveFunction[]).map(fn => (
+            <Badge key={fn} variant="outline" className={cn(cohesiveDevices.byFunction[fn] === 0 && 'text-muted-foreground')}>
+              {COHESIVE_DEVICES[fn].label} {cohesiveDevices.byFunction[fn]}
+            </Badge>
+          ))}
+        </div>
+        {cohesiveDevices.overused.length > 0 && (
+          <p className="text-xs text-destructive">
+            Overused: {cohesiveDevices.overused.map(device => `“${device}”`).join(', ')}
+          </p>
+        )}
+      </div>
+
+      {metrics.repeatedWords.length > 0 && (
+        <div className="space-y-2">
+          <p className="font-medium">Frequently repeated words</p>
+          <div className="flex flex-wrap gap-1.5">
+            {metrics.repeatedWords.map(({ word, count }) => (
+              <Badge key={word} variant="secondary">{word} ×{count}</Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {academicWords.families.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          AWL families: {academicWords.families.slice(0, FAMILY_PREVIEW).join(', ')}
+          {hiddenFamilies > 0 && ` and ${hiddenFamilies} more`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, Loader2, Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { describeApiError } from '@/lib/apiErrors';
+import { creditCost } from '@/lib/credits';
+import {
+  REWRITE_UPGRADE_KINDS,
+  REWRITE_UPGRADE_LABELS,
+  alignParagraphs,
+  countUpgradesByKind,
+  rewriteTargetBands,
+  segmentRewrite,
+  type ModelRewrite,
+  type RewriteSource,
+  type RewriteUpgrade,
+  type RewriteUpgradeKind,
+} from '@/lib/writingRewrite';
+
+const KIND_STYLES: Record<RewriteUpgradeKind, { highlight: string; badge: string }> = {
+  vocabulary: { highlight: 'bg-blue-500/15 hover:bg-blue-500/25', badge: 'border-blue-500/40 text-blue-600 dark:text-blue-400' },
+  structure: { highlight: 'bg-purple-500/15 hover:bg-purple-500/25', badge: 'border-purple-500/40 text-purple-600 dark:text-purple-400' },
+  cohesion: { highlight: 'bg-emerald-500/15 hover:bg-emerald-500/25', badge: 'border-emerald-500/40 text-emerald-600 dark:text-emerald-400' },
+};
+
+interface ModelAnswerRewriteProps {
+  source: RewriteSource;
+  /** writing_submissions.id or ai_practice_results.id */
+  sourceId: string;
+  taskType: 'task1' | 'task2';
+  /** The student's answer, shown paragraph by paragraph against the rewrite */
+  originalText: string;
+  currentBand: number | null;
+}
+
+function UpgradeDetail({ upgrade }: { upgrade: RewriteUpgrade }) {
+  return (
+    <div className="space-y-1 text-sm">
+      <Badge variant="outline" className={KIND_STYLES[upgrade.kind].badge}>{REWRITE_UPGRADE_LABELS[upgrade.kind]}</Badge>
+      {upgrade.original && (
+        <p className="flex flex-wrap items-center gap-1.5">
+          <span className="text-muted-foreground line-through">{upgrade.original}</span>
+          <ArrowRight className="w-3 h-3 text-muted-foreground" />
+          <span className="font-medium">{upgrade.upgraded}</span>
+        </p>
+      )}
+      <p className="text-muted-foreground">{upgrade.explanation}</p>
+    </div>
+  );
+}
+
+function RewrittenParagraph({ text, upgrades }: { text: string; upgrades: RewriteUpgrade[] }) {
+  const segments = useMemo(() => segmentRewrite(text, upgrades), [text, upgrades]);
+  return (
+    <p className="whitespace-pre-wrap text-sm leading-7">
+      {segments.map((segment, i) => segment.upgrade ? (
+        <Popover key={i}>
+          <PopoverTrigger asChild>
+            <span role="button" tabIndex={0} className={cn('cursor-pointer rounded-sm px-0.5', KIND_STYLES[segment.upgrade.kind].highlight)}>
+              {segment.text}
+            </span>
+          </PopoverTrigger>
+          <PopoverContent className="w-80">
+            <UpgradeDetail upgrade={segment.upgrade} />
+          </PopoverContent>
+        </Popover>
+      ) : (
+        <span key={i}>{segment.text}</span>
+      ))}
+    </p>
+  );
+}
+
+export function ModelAnswerRewrite({ source, sourceId, taskType, originalText, currentBand }: ModelAnswerRewriteProps) {
+  const bands = useMemo(() => rewriteTargetBands(currentBand), [currentBand]);
+  const [targetBand, setTargetBand] = useState<number>(bands[Math.min(1, bands.length - 1)]);
+  const [rewrites, setRewrites] = useState<Record<string, ModelRewrite>>({});
+  const [shownBand, setShownBand] = useState<number | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Rewrites already made for this answer are free to show again
+  useEffect(() => {
+    let cancelled = false;
+    setShownBand(null);
+
+    const loadRewrites = async () => {
+      const { data, error } = await supabase
+        .from('writing_model_rewrites')
+        .select('target_band, rewrite')
+        .eq('source_type', source)
+        .eq('source_id', sourceId)
+        .eq('task_type', taskType);
+      if (cancelled) return;
+      if (error) {
+        console.error('Failed to load model rewrites:', error);
+        return;
+      }
+      setRewrites(Object.fromEntries((data ?? []).map(row => [row.target_band.toFixed(1), row.rewrite as unknown as ModelRewrite])));
+    };
+
+    loadRewrites();
+    return () => {
+      cancelled = true;
+    };
+  }, [source, sourceId, taskType]);
+
+  const cached = rewrites[targetBand.toFixed(1)];
+  const shown = shownBand !== null ? rewrites[shownBand.toFixed(1)] : undefined;
+  const aligned = useMemo(() => (shown ? alignParagraphs(originalText, shown) : []), [shown, originalText]);
+  const counts = useMemo(() => (shown ? countUpgradesByKind(shown) : null), [shown]);
+
+  const handleRewrite = async () => {
+    if (cached) {
+      setShownBand(targetBand);
+      return;
+    }
+    setIsGenerating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('rewrite-writing-answer', {
+        body: { source, sourceId, taskType, targetBand },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      setRewrites(prev => ({ ...prev, [targetBand.toFixed(1)]: data.rewrite as ModelRewrite }));
+      setShownBand(targetBand);
+    } catch (err) {
+      console.error('Model rewrite failed:', err);
+      const { title, description } = describeApiError(err);
+      toast.error(title, { description });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label>Target band</Label>
+          <Select value={targetBand.toFixed(1)} onValueChange={value => setTargetBand(Number(value))}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {bands.map(band => (
+                <SelectItem key={band} value={band.toFixed(1)}>
+                  Band {band.toFixed(1)}{rewrites[band.toFixed(1)] ? ' ✓' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={handleRewrite} disabled={isGenerating || shownBand === targetBand}>
+          {isGenerating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+          {cached ? `Show Band ${targetBand.toFixed(1)} version` : `Rewrite at Band ${targetBand.toFixed(1)}`}
+        </Button>
+        {!cached && (
+          <span className="text-xs text-muted-foreground">
+            {creditCost('rewrite_writing')} credits on the shared key · free with your own API key
+          </span>
+        )}
+      </div>
+
+      {shown && shownBand !== null && counts && (
+        <div className="space-y-4">
+          {shown.summary && <p className="text-sm text-muted-foreground">{shown.summary}</p>}
+          <div className="flex flex-wrap gap-1.5">
+            {REWRITE_UPGRADE_KINDS.map(kind => (
+              <Badge key={kind} variant="outline" className={KIND_STYLES[kind].badge}>
+                {REWRITE_UPGRADE_LABELS[kind]} {counts[kind]}
+              </Badge>
+            ))}
+          </div>
+
+          <div className="hidden md:grid md:grid-cols-2 gap-4 text-xs font-medium text-muted-foreground">
+            <span>Your answer{currentBand !== null ? ` · Band ${currentBand.toFixed(1)}` : ''}</span>
+            <span>Rewritten · Band {shownBand.toFixed(1)}</span>
+          </div>
+          {aligned.map((paragraph, i) => (
+            <div key={i} className="grid gap-4 md:grid-cols-2 border-t pt-4">
+              <p className={cn('whitespace-pre-wrap text-sm leading-7 text-muted-foreground', !paragraph.original && 'italic')}>
+                {paragraph.original || 'Added in the rewrite'}
+              </p>
+              <div className="space-y-3">
+                <RewrittenParagraph text={paragraph.rewritten} upgrades={paragraph.upgrades} />
+                {paragraph.upgrades.length > 0 && (
+                  <ul className="space-y-2 rounded-md bg-muted/30 p-3">
+                    {paragraph.upgrades.map((upgrade, j) => (
+                      <li key={j}><UpgradeDetail upgrade={upgrade} /></li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, Lightbulb } from 'lucide-react';
+import { renderRichText } from '@/components/admin/RichTextEditor';
+import { AnnotatedEssay } from '@/components/writing/AnnotatedEssay';
+import { WRITING_REPORT_CRITERIA } from '@/lib/writingRevisions';
+import type { WritingErrorAnnotation } from '@/lib/writingAnnotations';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface CriterionFeedback {
+  band: number;
+  weaknesses: string;
+  suggestions_for_improvement: string;
+}
+
+type RevisionReport = Partial<Record<typeof WRITING_REPORT_CRITERIA[number]['key'], CriterionFeedback>> & {
+  overall_suggestions?: string;
+  error_annotations?: WritingErrorAnnotation[];
+};
+
+interface RevisionFeedbackPanelProps {
+  /** The attempt being revised */
+  submission: Tables<'writing_submissions'>;
+  fontSize: number;
+}
+
+export function RevisionFeedbackPanel({ submission, fontSize }: RevisionFeedbackPanelProps) {
+  const report = submission.evaluation_report as unknown as RevisionReport | null;
+
+  return (
+    <div className="p-6 space-y-6" style={{ fontSize: `${fontSize}px` }}>
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold">Feedback on your previous attempt</h3>
+          <p className="text-xs text-muted-foreground">
+            Submitted {submission.submitted_at ? new Date(submission.submitted_at).toLocaleString() : 'earlier'}
+          </p>
+        </div>
+        {submission.overall_band !== null && (
+          <Badge className="bg-primary text-primary-foreground">Band {submission.overall_band.toFixed(1)}</Badge>
+        )}
+      </div>
+
+      <AnnotatedEssay
+        text={submission.submission_text}
+        annotations={report?.error_annotations ?? []}
+        bands={{ GRA: report?.grammatical_range_and_accuracy?.band, LR: report?.lexical_resource?.band }}
+        className="rounded-md border bg-muted/30 p-4"
+      />
+
+      {report ? (
+        <div className="space-y-4">
+          {WRITING_REPORT_CRITERIA.map(({ key, label }) => {
+            const criterion = report[key];
+            if (!criterion) return null;
+            return (
+              <div key={key} className="space-y-2 border-b border-border/50 pb-4 last:border-b-0">
+                <h4 className="font-medium flex items-center gap-2">
+                  <Badge variant="outline">Band {criterion.band}</Badge>
+                  {label}
+                </h4>
+                <div>
+                  <p className="text-sm font-medium flex items-center gap-1 mb-1">
+                    <AlertCircle size={14} className="text-destructive" />
+                    Weaknesses
+                  </p>
+                  <div className="prose prose-sm max-w-none text-muted-foreground" dangerouslySetInnerHTML={{ __html: renderRichText(criterion.weaknesses) }} />
+                </div>
+                <div>
+                  <p className="text-sm font-medium flex items-center gap-1 mb-1">
+                    <Lightbulb size={14} className="text-primary" />
+                    Suggestions
+                  </p>
+                  <div className="prose prose-sm max-w-none text-muted-foreground" dangerouslySetInnerHTML={{ __html: renderRichText(criterion.suggestions_for_improvement) }} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">This attempt has no feedback yet.</p>
+      )}
+    </div>
+  );
+}
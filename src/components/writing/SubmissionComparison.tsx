@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  bandDeltas,
+  bandTrend,
+  defaultComparisonBase,
+  diffStats,
+  diffWords,
+  formatBandDelta,
+  splitDiff,
+  type DiffSegment,
+} from '@/lib/writingRevisions';
+import type { Tables } from '@/integrations/supabase/types';
+
+type WritingSubmission = Tables<'writing_submissions'>;
+
+interface SubmissionComparisonProps {
+  /** Every submission of one task, in any order */
+  submissions: WritingSubmission[];
+  /** The attempt shown by default as the later side */
+  initialAfterId?: string | null;
+}
+
+const deltaClass = (value: number | null) =>
+  value === null || value === 0 ? 'text-muted-foreground' : value > 0 ? 'text-success' : 'text-destructive';
+
+function DiffColumn({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <p className="whitespace-pre-wrap text-sm leading-7 rounded-md border bg-muted/30 p-4">
+      {segments.map((segment, i) => (
+        <span
+          key={i}
+          className={cn(
+            segment.type === 'removed' && 'bg-destructive/15 text-destructive line-through',
+            segment.type === 'added' && 'bg-success/15 text-success',
+          )}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+export function SubmissionComparison({ submissions, initialAfterId }: SubmissionComparisonProps) {
+  const trend = useMemo(() => bandTrend(submissions), [submissions]);
+  const byId = useMemo(() => new Map(submissions.map(s => [s.id, s])), [submissions]);
+  const attemptNumber = (id: string) => trend.findIndex(p => p.submissionId === id) + 1;
+
+  const [afterId, setAfterId] = useState<string | null>(null);
+  const [beforeId, setBeforeId] = useState<string | null>(null);
+
+  // Follow the attempt picked in the report's submission history
+  useEffect(() => {
+    const after = (initialAfterId && byId.get(initialAfterId)) || byId.get(trend[trend.length - 1]?.submissionId);
+    if (!after) return;
+    setAfterId(after.id);
+    setBeforeId(defaultComparisonBase(submissions, after)?.id ?? null);
+  }, [initialAfterId, submissions, byId, trend]);
+
+  const before = beforeId ? byId.get(beforeId) : undefined;
+  const after = afterId ? byId.get(afterId) : undefined;
+
+  const diff = useMemo(
+    () => (before && after ? diffWords(before.submission_text, after.submission_text) : []),
+    [before, after],
+  );
+  const columns = useMemo(() => splitDiff(diff), [diff]);
+  const stats = useMemo(() => diffStats(diff), [diff]);
+
+  if (submissions.length < 2) {
+    return <p className="text-sm text-muted-foreground">Submit this task again to compare your attempts.</p>;
+  }
+
+  const attemptLabel = (s: WritingSubmission) =>
+    `Attempt ${attemptNumber(s.id)} · ${s.submitted_at ? new Date(s.submitted_at).toLocaleDateString() : 'draft'}` +
+    (s.overall_band !== null ? ` · Band ${s.overall_band.toFixed(1)}` : '');
+
+  const attemptSelect = (value: string | null, onChange: (id: string) => void, excludeId: string | null) => (
+    <Select value={value ?? ''} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Choose an attempt" />
+      </SelectTrigger>
+      <SelectContent>
+        {trend.filter(p => p.submissionId !== excludeId).map(p => (
+          <SelectItem key={p.submissionId} value={p.submissionId}>
+            {attemptLabel(byId.get(p.submissionId)!)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {trend.map((point, i) => (
+          <div key={point.submissionId} className="flex items-center gap-2">
+            {i > 0 && <ArrowRight className="w-3 h-3 text-muted-foreground" />}
+            <Badge variant="outline" className="gap-1.5 py-1">
+              <span className="text-muted-foreground">#{i + 1}</span>
+              <span className="tabular-nums">{point.band !== null ? point.band.toFixed(1) : '–'}</span>
+              {point.delta !== null && (
+                <span className={cn('tabular-nums', deltaClass(point.delta))}>{formatBandDelta(point.delta)}</span>
+              )}
+            </Badge>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label>Earlier attempt</Label>
+          {attemptSelect(beforeId, setBeforeId, afterId)}
+        </div>
+        <div className="space-y-1">
+          <Label>Later attempt</Label>
+          {attemptSelect(afterId, setAfterId, beforeId)}
+        </div>
+      </div>
+
+      {before && after && (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Criterion</TableHead>
+                <TableHead className="text-right">Attempt {attemptNumber(before.id)}</TableHead>
+                <TableHead className="text-right">Attempt {attemptNumber(after.id)}</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bandDeltas(before, after).map(row => (
+                <TableRow key={row.key} className={cn(row.key === 'overall_band' && 'font-medium')}>
+                  <TableCell>{row.label}</TableCell>
+                  <TableCell className="text-right tabular-nums">{row.before?.toFixed(1) ?? '–'}</TableCell>
+                  <TableCell className="text-right tabular-nums">{row.after?.toFixed(1) ?? '–'}</TableCell>
+                  <TableCell className={cn('text-right tabular-nums', deltaClass(row.delta))}>{formatBandDelta(row.delta)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              <span className="text-success">+{stats.added} words</span>
+              {' · '}
+              <span className="text-destructive">−{stats.removed} words</span>
+            </p>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">Attempt {attemptNumber(before.id)}</p>
+                <DiffColumn segments={columns.before} />
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">Attempt {attemptNumber(after.id)}</p>
+                <DiffColumn segments={columns.after} />
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
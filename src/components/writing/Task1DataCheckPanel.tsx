@@ -0,0 +1,63 @@
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, CheckCircle2, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { KEY_FEATURE_LABELS, type Task1DataCheck } from '@/lib/task1DataCheck';
+
+interface Task1DataCheckPanelProps {
+  check: Task1DataCheck;
+  className?: string;
+}
+
+export function Task1DataCheckPanel({ check, className }: Task1DataCheckPanelProps) {
+  if (!check.applicable) return null;
+  const { checked, verified } = check.figures;
+
+  return (
+    <div className={cn('space-y-3 rounded-md border p-3 text-sm', className)}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">Data accuracy</span>
+        <Badge variant="outline" className={cn(check.misreported.length > 0 && 'border-destructive text-destructive')}>
+          {checked > 0 ? `${verified}/${checked} figures match the chart` : 'No figures to check'}
+        </Badge>
+      </div>
+
+      {check.misreported.length > 0 && (
+        <ul className="space-y-2">
+          {check.misreported.map((figure, i) => (
+            <li key={i} className="flex gap-2">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+              <div>
+                <p>
+                  <span className="font-medium text-destructive">{figure.quoted}</span>
+                  <span className="text-muted-foreground"> — the chart shows </span>
+                  {figure.expected.map(p => `${p.labels.join(', ')}: ${p.value}`).join('; ')}
+                </p>
+                <p className="text-xs text-muted-foreground italic">“{figure.sentence}”</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {check.unknownYears.length > 0 && (
+        <p className="text-muted-foreground">
+          Years not shown in the chart: <span className="text-destructive">{check.unknownYears.join(', ')}</span>
+        </p>
+      )}
+
+      <ul className="grid gap-1.5 sm:grid-cols-2">
+        {check.keyFeatures.map(feature => (
+          <li key={feature.feature} className="flex gap-2">
+            {feature.covered
+              ? <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-success" />
+              : <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />}
+            <div>
+              <p className="font-medium">{KEY_FEATURE_LABELS[feature.feature]}</p>
+              <p className="text-xs text-muted-foreground">{feature.expected}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
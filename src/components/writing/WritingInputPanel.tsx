@@ -1,8 +1,12 @@
+import { useDeferredValue, useMemo, useState } from 'react';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Button } from '@/components/ui/button';
-import { Save, Send } from 'lucide-react';
+import { BarChart3, ChevronDown, Save, Send } from 'lucide-react';
+import { EssayMetricsSummary } from '@/components/writing/EssayMetricsSummary';
+import { analyzeEssay } from '@/lib/essayMetrics';
+import { cn } from '@/lib/utils';
 
 interface WritingInputPanelProps {
   submissionText: string;
@@ -13,6 +17,7 @@ interface WritingInputPanelProps {
   isSaving: boolean;
   isSubmitting: boolean;
   fontSize: number;
+  taskType: 'task1' | 'task2';
 }
 
 export function WritingInputPanel({
@@ -24,7 +29,15 @@ export function WritingInputPanel({
   isSaving,
   isSubmitting,
   fontSize,
+  taskType,
 }: WritingInputPanelProps) {
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  // Analysis trails the keystrokes so typing stays responsive
+  const deferredText = useDeferredValue(submissionText);
+  const metrics = useMemo(
+    () => (showAnalysis ? analyzeEssay(deferredText, taskType) : null),
+    [showAnalysis, deferredText, taskType],
+  );
 
   return (
     <div className="p-6 flex flex-col h-full" style={{ fontFamily: 'var(--font-ielts)' }}>
@@ -46,6 +59,25 @@ export function WritingInputPanel({
         style={{ fontSize: `${fontSize}px`, fontFamily: 'var(--font-ielts)', borderRadius: 0 }}
       />
 
+      <Collapsible open={showAnalysis} onOpenChange={setShowAnalysis} className="mt-3 border border-border">
+        <CollapsibleTrigger asChild>
+          <button
+            type="button"
+            className="flex w-full items-center justify-between px-3 py-2 text-sm font-medium hover:bg-muted/30"
+            style={{ fontFamily: 'var(--font-ielts)' }}
+          >
+            <span className="flex items-center gap-2">
+              <BarChart3 size={14} />
+              Text analysis
+            </span>
+            <ChevronDown size={14} className={cn('transition-transform', showAnalysis && 'rotate-180')} />
+          </button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          {metrics && <EssayMetricsSummary metrics={metrics} className="max-h-72 overflow-y-auto border-t border-border p-3" />}
+        </CollapsibleContent>
+      </Collapsible>
+
       <div className="flex justify-end gap-3 mt-4">
         <Button 
           variant="outline" 
@@ -1,49 +1,40 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import { useEntitlements } from './useEntitlements';
+import { entitlementAllows, type EntitlementKey, type EntitlementStatus } from '@/lib/entitlements';
 
 interface AccessStatus {
   canSubmit: boolean;
   isSubscribed: boolean;
   isPromotionActive: boolean;
+  /** The plan in effect; null while loading or signed out */
+  plan: EntitlementStatus['plan'] | null;
+  /** Whether `amount` more of an entitlement fits this period. True until entitlements load. */
+  allows: (key: EntitlementKey, amount?: number) => boolean;
   loading: boolean;
 }
 
 export const useAccessControl = (): AccessStatus => {
   const { user, loading: authLoading } = useAuth();
-  const [isSubscribed, setIsSubscribed] = useState(false);
+  const { status, loading: entitlementsLoading } = useEntitlements();
   const [isPromotionActive, setIsPromotionActive] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const checkAccess = async () => {
+    const checkPromotion = async () => {
       if (authLoading) return;
-      
+
       setLoading(true);
-      
+
       try {
         // Check if promotion is active (public query)
         const { data: promotions } = await supabase
           .from('promotions')
           .select('id')
           .limit(1);
-        
-        setIsPromotionActive(!!(promotions && promotions.length > 0));
 
-        // Check subscription if user is logged in
-        if (user) {
-          const { data: subscriptions } = await supabase
-            .from('subscriptions')
-            .select('id, status, end_date')
-            .eq('user_id', user.id)
-            .eq('status', 'active')
-            .gte('end_date', new Date().toISOString())
-            .limit(1);
-          
-          setIsSubscribed(!!(subscriptions && subscriptions.length > 0));
-        } else {
-          setIsSubscribed(false);
-        }
+        setIsPromotionActive(!!(promotions && promotions.length > 0));
       } catch (error) {
         console.error('Error checking access:', error);
       } finally {
@@ -51,16 +42,24 @@ export const useAccessControl = (): AccessStatus => {
       }
     };
 
-    checkAccess();
+    checkPromotion();
   }, [user, authLoading]);
 
+  // A subscription only counts while its period covers now (see get_entitlements)
+  const isSubscribed = !!status?.subscription;
+
   // User can submit if logged in AND (subscribed OR promotion active)
   const canSubmit = !!user && (isSubscribed || isPromotionActive);
 
+  // The server enforces entitlements, so an unknown status doesn't block
+  const allows = (key: EntitlementKey, amount = 1) => !status || entitlementAllows(status, key, amount);
+
   return {
     canSubmit,
     isSubscribed,
     isPromotionActive,
-    loading: loading || authLoading
+    plan: status?.plan ?? null,
+    allows,
+    loading: loading || authLoading || entitlementsLoading
   };
 };
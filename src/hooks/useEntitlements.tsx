@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { EntitlementStatus } from '@/lib/entitlements';
+
+/**
+ * The signed-in user's plan, billing period and entitlement usage from
+ * get_entitlements(). Null while loading, when signed out, or if the
+ * lookup failed; gates should treat null as "let the server decide".
+ */
+export function useEntitlements(refreshTrigger = 0) {
+  const { user, loading: authLoading } = useAuth();
+  const [status, setStatus] = useState<EntitlementStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setStatus(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_entitlements', { p_user_id: user.id });
+      if (error) throw error;
+      setStatus(data as unknown as EntitlementStatus);
+    } catch (error) {
+      console.error('Error fetching entitlements:', error);
+      setStatus(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    refresh();
+  }, [authLoading, refresh, refreshTrigger]);
+
+  return { status, loading: loading || authLoading, refresh };
+}
@@ -1,4 +1,20 @@
-import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { TestAttemptSource } from '@/lib/testAttempts';
+import {
+  ANNOTATION_SYNC_DEBOUNCE_MS,
+  AnnotationModule,
+  AnnotationSyncState,
+  annotationToRow,
+  emptySyncState,
+  loadSyncState,
+  markDeleted,
+  markDirty,
+  markPushed,
+  reconcileAnnotations,
+  saveSyncState,
+} from '@/lib/annotations';
 
 export interface Highlight {
   id: string;
@@ -37,11 +53,76 @@ const HighlightNoteContext = createContext<HighlightNoteContextType | undefined>
 interface HighlightNoteProviderProps {
   children: ReactNode;
   testId: string;
+  /** Annotations are synced to the account only when the module is given (not in admin previews) */
+  module?: AnnotationModule;
+  source?: TestAttemptSource;
 }
 
-export const HighlightNoteProvider = ({ children, testId }: HighlightNoteProviderProps) => {
+export const HighlightNoteProvider = ({ children, testId, module, source = 'test' }: HighlightNoteProviderProps) => {
+  const { user } = useAuth();
+  // Keyed on the id so a token refresh does not trigger a resync
+  const userId = user?.id;
+  const syncEnabled = !!userId && !!module;
   const [highlights, setHighlights] = useState<Highlight[]>([]);
   const [notes, setNotes] = useState<Note[]>([]);
+  const highlightsRef = useRef(highlights);
+  const notesRef = useRef(notes);
+  const syncStateRef = useRef<AnnotationSyncState>(emptySyncState());
+  const pushTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const pushingRef = useRef(false);
+
+  highlightsRef.current = highlights;
+  notesRef.current = notes;
+
+  const updateSyncState = useCallback((update: (state: AnnotationSyncState) => AnnotationSyncState) => {
+    if (!module) return;
+    syncStateRef.current = update(syncStateRef.current);
+    saveSyncState(testId, syncStateRef.current);
+  }, [module, testId]);
+
+  // Push pending local changes; on failure they stay pending in localStorage
+  const pushChanges = useCallback(async () => {
+    if (!syncEnabled || !userId || !module || pushingRef.current) return;
+    const { dirtyIds, deletedIds } = syncStateRef.current;
+    if (dirtyIds.length === 0 && deletedIds.length === 0) return;
+
+    pushingRef.current = true;
+    try {
+      const scope = { testId, module, source };
+      const rows = highlightsRef.current
+        .filter(h => dirtyIds.includes(h.id))
+        .map(h => annotationToRow(userId, scope, h, notesRef.current.find(n => n.highlightId === h.id)));
+      if (rows.length > 0) {
+        const { error } = await supabase.from('test_annotations').upsert(rows);
+        if (error) throw error;
+      }
+      if (deletedIds.length > 0) {
+        const { error } = await supabase.from('test_annotations').delete().in('id', deletedIds);
+        if (error) throw error;
+      }
+      updateSyncState(state => markPushed(state, dirtyIds, deletedIds));
+    } catch (error) {
+      console.error('Error syncing annotations:', error);
+    } finally {
+      pushingRef.current = false;
+    }
+  }, [syncEnabled, userId, module, source, testId, updateSyncState]);
+
+  const schedulePush = useCallback(() => {
+    if (!syncEnabled) return;
+    clearTimeout(pushTimeoutRef.current);
+    pushTimeoutRef.current = setTimeout(pushChanges, ANNOTATION_SYNC_DEBOUNCE_MS);
+  }, [syncEnabled, pushChanges]);
+
+  const markChanged = useCallback((id: string) => {
+    updateSyncState(state => markDirty(state, id));
+    schedulePush();
+  }, [updateSyncState, schedulePush]);
+
+  const markRemoved = useCallback((id: string) => {
+    updateSyncState(state => markDeleted(state, id));
+    schedulePush();
+  }, [updateSyncState, schedulePush]);
 
   // Load from localStorage on mount
   useEffect(() => {
@@ -53,8 +134,56 @@ export const HighlightNoteProvider = ({ children, testId }: HighlightNoteProvide
     if (savedNotes) {
       setNotes(JSON.parse(savedNotes));
     }
+    syncStateRef.current = loadSyncState(testId);
   }, [testId]);
 
+  // Merge with the account copy; the local cache stays usable if this fails
+  useEffect(() => {
+    if (!syncEnabled || !userId) return;
+    let cancelled = false;
+    supabase
+      .from('test_annotations')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('source', source)
+      .eq('test_id', testId)
+      .order('created_at')
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error loading annotations:', error);
+          return;
+        }
+        const merged = reconcileAnnotations(
+          { highlights: highlightsRef.current, notes: notesRef.current },
+          data || [],
+          syncStateRef.current
+        );
+        setHighlights(merged.highlights);
+        setNotes(merged.notes);
+        updateSyncState(state => ({
+          syncedIds: (data || []).map(row => row.id),
+          dirtyIds: [...new Set([...state.dirtyIds, ...merged.upsertIds])],
+          deletedIds: [...new Set([...state.deletedIds, ...merged.deleteIds])],
+        }));
+        schedulePush();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [syncEnabled, userId, source, testId, updateSyncState, schedulePush]);
+
+  // Retry pending changes once the connection is back
+  useEffect(() => {
+    if (!syncEnabled) return;
+    window.addEventListener('online', pushChanges);
+    return () => {
+      window.removeEventListener('online', pushChanges);
+      clearTimeout(pushTimeoutRef.current);
+    };
+  }, [syncEnabled, pushChanges]);
+
   // Save to localStorage whenever highlights or notes change (quota-safe)
   useEffect(() => {
     import('@/lib/storage').then(({ safeLocalStorageSetItem }) => {
@@ -79,19 +208,22 @@ export const HighlightNoteProvider = ({ children, testId }: HighlightNoteProvide
       isNote: color === 'red',
     };
     setHighlights(prev => [...prev, newHighlight]);
+    markChanged(newHighlight.id);
     return newHighlight;
-  }, []);
+  }, [markChanged]);
 
   const updateHighlight = useCallback((id: string, updates: Partial<Highlight>) => {
     setHighlights(prev =>
       prev.map(h => (h.id === id ? { ...h, ...updates } : h))
     );
-  }, []);
+    markChanged(id);
+  }, [markChanged]);
 
   const removeHighlight = useCallback((id: string) => {
     setHighlights(prev => prev.filter(h => h.id !== id));
     setNotes(prev => prev.filter(n => n.highlightId !== id)); // Remove associated note
-  }, []);
+    markRemoved(id);
+  }, [markRemoved]);
 
   const addOrUpdateNote = useCallback((highlightId: string, noteText: string) => {
     const now = Date.now();
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { ItemStats, SuspiciousItem } from '@/lib/itemAnalysis';
+
+interface ItemAnalysisResponse {
+  error?: string;
+  submissions?: number;
+  items?: ItemStats[];
+}
+
+interface SuspiciousItemsResponse {
+  error?: string;
+  items?: SuspiciousItem[];
+}
+
+/**
+ * Per-question statistics for a published Reading / Listening test, keyed
+ * by question number. Computed by the item-analysis edge function from all
+ * stored submissions.
+ */
+export function useItemAnalysis(module: 'reading' | 'listening', testId: string | undefined) {
+  const [stats, setStats] = useState<Record<number, ItemStats>>({});
+  const [submissions, setSubmissions] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!testId) {
+      setStats({});
+      setSubmissions(0);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    supabase.functions
+      .invoke<ItemAnalysisResponse>('item-analysis', { body: { module, testId } })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error || data?.error) {
+          console.error('Failed to load item analysis:', error || data?.error);
+          return;
+        }
+        setStats(Object.fromEntries((data?.items || []).map(item => [item.questionNumber, item])));
+        setSubmissions(data?.submissions || 0);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [module, testId]);
+
+  return { stats, submissions, loading };
+}
+
+/** Flagged questions across all published tests, most severe first */
+export function useSuspiciousItems() {
+  const [items, setItems] = useState<SuspiciousItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase.functions
+      .invoke<SuspiciousItemsResponse>('item-analysis', { body: { action: 'suspicious' } })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error || data?.error) {
+          console.error('Failed to load suspicious items:', error || data?.error);
+          return;
+        }
+        setItems(data?.items || []);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { items, loading };
+}
@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { combineWritingTaskBands } from '@/lib/bandConversion';
+import {
+  MockSection,
+  MockSectionResults,
+  MockSessionState,
+  SectionSubmission,
+  buildReport,
+  orderSections,
+  recordSubmission,
+  setSectionBand,
+  startSection,
+} from '@/lib/mockTestSession';
+
+export type MockTestSessionRow = Tables<'mock_test_sessions'>;
+
+export interface NewMockTestSession {
+  book_name: string | null;
+  test_number: number | null;
+  test_variant?: string;
+  listening_test_id?: string | null;
+  reading_test_id?: string | null;
+  writing_test_id?: string | null;
+  speaking_test_id?: string | null;
+}
+
+function rowToState(row: MockTestSessionRow): MockSessionState {
+  return {
+    sections: orderSections({
+      listening: row.listening_test_id,
+      reading: row.reading_test_id,
+      writing: row.writing_test_id,
+      speaking: row.speaking_test_id,
+    }),
+    current_section: row.current_section as MockSection | null,
+    section_results: (row.section_results ?? {}) as unknown as MockSectionResults,
+    break_until: row.break_until,
+  };
+}
+
+// Bands and completion are re-derived from the submissions by the
+// verify_mock_test_session_bands trigger; these are the client's view of them
+function stateToUpdate(state: MockSessionState) {
+  const completed = buildReport(state).isComplete;
+  return {
+    current_section: state.current_section,
+    section_results: state.section_results as unknown as Json,
+    break_until: state.break_until,
+    ...(completed ? { status: 'completed', completed_at: new Date().toISOString() } : {}),
+  };
+}
+
+export function getSectionTestId(row: MockTestSessionRow, section: MockSection): string | null {
+  switch (section) {
+    case 'listening': return row.listening_test_id;
+    case 'reading': return row.reading_test_id;
+    case 'writing': return row.writing_test_id;
+    case 'speaking': return row.speaking_test_id;
+  }
+}
+
+export async function createMockTestSession(userId: string, session: NewMockTestSession): Promise<string> {
+  const { data, error } = await supabase
+    .from('mock_test_sessions')
+    .insert({ ...session, user_id: userId })
+    .select('id')
+    .single();
+  if (error) throw error;
+  return data.id;
+}
+
+/** Called by a test page after a successful submission made inside a mock session */
+export async function recordMockSectionSubmission(
+  sessionId: string,
+  section: MockSection,
+  submission: SectionSubmission
+): Promise<void> {
+  const { data: row, error } = await supabase
+    .from('mock_test_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .single();
+  if (error) throw error;
+
+  const next = recordSubmission(rowToState(row), section, submission);
+  const { error: updateError } = await supabase
+    .from('mock_test_sessions')
+    .update(stateToUpdate(next))
+    .eq('id', sessionId);
+  if (updateError) throw updateError;
+}
+
+/**
+ * Bands for Writing / Speaking arrive after AI evaluation. Look them up for
+ * any submitted section that still has none.
+ */
+async function fetchEvaluatedBands(state: MockSessionState): Promise<Partial<Record<MockSection, number>>> {
+  const bands: Partial<Record<MockSection, number>> = {};
+
+  const writing = state.section_results.writing;
+  if (writing?.status === 'submitted' && writing.band == null && writing.submission_ids?.length) {
+    const { data } = await supabase
+      .from('writing_submissions')
+      .select('overall_band, writing_tasks(task_type)')
+      .in('id', writing.submission_ids);
+    // Wait until every task has been evaluated
+    if (data && data.length === writing.submission_ids.length && data.every(s => s.overall_band !== null)) {
+      const bandFor = (taskType: string) => data.find(s => s.writing_tasks?.task_type === taskType)?.overall_band ?? null;
+      const band = combineWritingTaskBands(bandFor('task1'), bandFor('task2'));
+      if (band !== null) bands.writing = band;
+    }
+  }
+
+  const speaking = state.section_results.speaking;
+  if (speaking?.status === 'submitted' && speaking.band == null && speaking.submission_ids?.length) {
+    const { data } = await supabase
+      .from('speaking_submissions')
+      .select('overall_band')
+      .eq('id', speaking.submission_ids[0])
+      .maybeSingle();
+    if (data?.overall_band != null) bands.speaking = data.overall_band;
+  }
+
+  return bands;
+}
+
+export function useMockTestSession(sessionId: string | undefined) {
+  const [session, setSession] = useState<MockTestSessionRow | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const state = useMemo(() => (session ? rowToState(session) : null), [session]);
+  const report = useMemo(() => (state ? buildReport(state) : null), [state]);
+
+  const persist = useCallback(async (next: MockSessionState) => {
+    if (!sessionId) return;
+    const { data, error } = await supabase
+      .from('mock_test_sessions')
+      .update(stateToUpdate(next))
+      .eq('id', sessionId)
+      .select('*')
+      .single();
+    if (error) throw error;
+    setSession(data);
+  }, [sessionId]);
+
+  const load = useCallback(async () => {
+    if (!sessionId) {
+      setLoading(false);
+      return;
+    }
+    try {
+      const { data, error } = await supabase
+        .from('mock_test_sessions')
+        .select('*')
+        .eq('id', sessionId)
+        .maybeSingle();
+      if (error) throw error;
+      setSession(data);
+
+      if (data && data.status === 'in_progress') {
+        let current = rowToState(data);
+        const bands = await fetchEvaluatedBands(current);
+        const evaluated = Object.entries(bands) as [MockSection, number][];
+        if (evaluated.length > 0) {
+          for (const [section, band] of evaluated) current = setSectionBand(current, section, band);
+          await persist(current);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading mock test session:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, persist]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const start = useCallback(async (section: MockSection) => {
+    if (!state) return;
+    await persist(startSection(state, section));
+  }, [state, persist]);
+
+  const abandon = useCallback(async () => {
+    if (!sessionId) return;
+    const { data, error } = await supabase
+      .from('mock_test_sessions')
+      .update({ status: 'abandoned' })
+      .eq('id', sessionId)
+      .select('*')
+      .single();
+    if (error) throw error;
+    setSession(data);
+  }, [sessionId]);
+
+  return { session, state, report, loading, start, abandon, refresh: load };
+}
@@ -0,0 +1,205 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import {
+  OFFLINE_QUEUE_CHANGED_EVENT,
+  QueuedSubmission,
+  hasExhaustedRetries,
+  listQueuedSubmissions,
+  nextReplayAt,
+  removeQueuedSubmission,
+  updateQueuedSubmission,
+} from '@/lib/offlineQueue';
+import { submitTestForScoring } from '@/lib/testSubmission';
+import type { SectionSubmission } from '@/lib/mockTestSession';
+import { recordMockSectionSubmission } from './useMockTestSession';
+
+export type OfflineSyncStatus = 'offline' | 'pending' | 'failed' | 'syncing' | 'synced' | 'idle';
+
+/** How long the "all synced" confirmation stays visible */
+const SYNCED_NOTICE_MS = 5000;
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+/** Send one queued submission; throws if it should stay in the queue */
+async function replaySubmission(submission: QueuedSubmission): Promise<SectionSubmission> {
+  switch (submission.kind) {
+    case 'reading':
+    case 'listening': {
+      // Requests carry their client-generated submission id, so a retry is only saved once
+      const result = await submitTestForScoring(submission.request);
+      return { submissionIds: [result.submissionId], band: result.bandScore };
+    }
+    case 'writing': {
+      const { error } = await supabase.from('writing_submissions').upsert(submission.rows);
+      if (error) throw error;
+      for (const row of submission.rows) {
+        if (!row.id) continue;
+        const { error: evaluationError } = await supabase.functions.invoke('evaluate-writing-submission', {
+          body: { submissionId: row.id },
+        });
+        if (evaluationError) console.error('Queued writing evaluation failed:', evaluationError);
+      }
+      return { submissionIds: submission.rows.map(row => row.id).filter((id): id is string => !!id), band: null };
+    }
+    case 'speaking': {
+      const { error } = await supabase.from('speaking_submissions').upsert(submission.row);
+      if (error) throw error;
+      const audioData: Record<string, string> = {};
+      for (const [key, blob] of Object.entries(submission.audio)) {
+        audioData[key] = await blobToBase64(blob);
+      }
+      const { error: evaluationError } = await supabase.functions.invoke('evaluate-speaking-submission', {
+        body: { submissionId: submission.row.id, audioData },
+      });
+      if (evaluationError) console.error('Queued speaking evaluation failed:', evaluationError);
+      return { submissionIds: submission.row.id ? [submission.row.id] : [], band: null };
+    }
+  }
+}
+
+/** The autosaved attempt outlives a queued submission, so it goes once the submission is saved */
+async function clearSavedAttempt(submission: QueuedSubmission) {
+  if (submission.kind === 'speaking') return;
+  const { error } = await supabase
+    .from('test_attempts')
+    .delete()
+    .eq('user_id', submission.userId)
+    .eq('source', 'test')
+    .eq('test_id', submission.testId);
+  if (error) console.error('Error clearing saved test attempt:', error);
+}
+
+/**
+ * Tracks connectivity and the offline submission queue, replaying queued
+ * submissions whenever the browser comes back online. Failed replays back
+ * off (see nextReplayAt); retryNow also retries those that gave up.
+ */
+export function useOfflineSync() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [pending, setPending] = useState<QueuedSubmission[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+  const syncingRef = useRef(false);
+
+  const refreshQueue = useCallback(async () => {
+    if (!userId) {
+      setPending([]);
+      return;
+    }
+    try {
+      setPending(await listQueuedSubmissions(userId));
+    } catch (error) {
+      console.error('Error reading offline queue:', error);
+    }
+  }, [userId]);
+
+  const syncNow = useCallback(async (includeFailed = false) => {
+    if (!userId || !navigator.onLine || syncingRef.current) return;
+    let queued: QueuedSubmission[];
+    try {
+      const now = Date.now();
+      queued = (await listQueuedSubmissions(userId)).filter(submission => {
+        const dueAt = nextReplayAt(submission);
+        return includeFailed || (dueAt !== null && dueAt <= now);
+      });
+    } catch (error) {
+      console.error('Error reading offline queue:', error);
+      return;
+    }
+    if (queued.length === 0) return;
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+    let synced = 0;
+    try {
+      for (const submission of queued) {
+        try {
+          const sectionSubmission = await replaySubmission(submission);
+          await removeQueuedSubmission(submission.id);
+          synced++;
+          await clearSavedAttempt(submission);
+          // A section taken inside a full mock only counts once the session records it
+          if (submission.mockSessionId) {
+            try {
+              await recordMockSectionSubmission(submission.mockSessionId, submission.kind, sectionSubmission);
+            } catch (err) {
+              console.error('Error recording mock test section:', err);
+            }
+          }
+        } catch (error) {
+          console.error('Error replaying queued submission:', error);
+          await updateQueuedSubmission({
+            ...submission,
+            attempts: submission.attempts + 1,
+            lastAttemptAt: new Date().toISOString(),
+            lastError: error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error),
+          });
+        }
+      }
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      if (synced > 0) setLastSyncedAt(new Date());
+      refreshQueue();
+    }
+  }, [userId, refreshQueue]);
+
+  const retryNow = useCallback(() => syncNow(true), [syncNow]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleQueueChanged = () => refreshQueue();
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener(OFFLINE_QUEUE_CHANGED_EVENT, handleQueueChanged);
+
+    refreshQueue();
+    syncNow();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener(OFFLINE_QUEUE_CHANGED_EVENT, handleQueueChanged);
+    };
+  }, [refreshQueue, syncNow]);
+
+  // Wake up for the next submission that is backing off
+  useEffect(() => {
+    if (!isOnline) return;
+    const dueTimes = pending.map(nextReplayAt).filter((dueAt): dueAt is number => dueAt !== null);
+    if (dueTimes.length === 0) return;
+    const timeout = setTimeout(() => syncNow(), Math.max(0, Math.min(...dueTimes) - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [isOnline, pending, syncNow]);
+
+  useEffect(() => {
+    if (!lastSyncedAt) return;
+    const timeout = setTimeout(() => setLastSyncedAt(null), SYNCED_NOTICE_MS);
+    return () => clearTimeout(timeout);
+  }, [lastSyncedAt]);
+
+  const failedCount = pending.filter(hasExhaustedRetries).length;
+
+  let status: OfflineSyncStatus = 'idle';
+  if (!isOnline) status = 'offline';
+  else if (isSyncing) status = 'syncing';
+  else if (failedCount > 0) status = 'failed';
+  else if (pending.length > 0) status = 'pending';
+  else if (lastSyncedAt) status = 'synced';
+
+  return { status, isOnline, pendingCount: pending.length, failedCount, isSyncing, lastSyncedAt, syncNow, retryNow };
+}
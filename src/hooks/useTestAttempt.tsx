@@ -0,0 +1,152 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+import {
+  AUTOSAVE_DEBOUNCE_MS,
+  AUTOSAVE_INTERVAL_MS,
+  TestAttemptModule,
+  TestAttemptSnapshot,
+  TestAttemptSource,
+  getClientId,
+  hasProgress,
+  snapshotContentKey,
+} from '@/lib/testAttempts';
+
+export interface SavedTestAttempt {
+  snapshot: TestAttemptSnapshot;
+  savedAt: string;
+  fromOtherDevice: boolean;
+}
+
+interface UseTestAttemptOptions {
+  module: TestAttemptModule;
+  testId: string | undefined;
+  source?: TestAttemptSource;
+  snapshot: TestAttemptSnapshot;
+  /** Autosave only runs while the candidate is actually taking the test */
+  enabled: boolean;
+}
+
+/**
+ * Loads any autosaved attempt for this test and keeps the server copy up
+ * to date while the test runs. Autosave is held back until the saved
+ * attempt has been resolved, so an empty new attempt never overwrites it.
+ */
+export function useTestAttempt({ module, testId, source = 'test', snapshot, enabled }: UseTestAttemptOptions) {
+  const { user } = useAuth();
+  // Keyed on the id so a token refresh does not reload and re-offer the attempt
+  const userId = user?.id;
+  const [savedAttempt, setSavedAttempt] = useState<SavedTestAttempt | null>(null);
+  const [checked, setChecked] = useState(false);
+  const snapshotRef = useRef(snapshot);
+  const clearedRef = useRef(false);
+
+  snapshotRef.current = snapshot;
+
+  useEffect(() => {
+    setSavedAttempt(null);
+    setChecked(false);
+    clearedRef.current = false;
+    if (!userId || !testId) return;
+
+    let cancelled = false;
+    supabase
+      .from('test_attempts')
+      .select('state, time_left, client_id, updated_at')
+      .eq('user_id', userId)
+      .eq('source', source)
+      .eq('test_id', testId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error('Error loading saved test attempt:', error);
+        const saved = data?.state as TestAttemptSnapshot | undefined;
+        if (data && saved && hasProgress(saved)) {
+          setSavedAttempt({
+            snapshot: { ...saved, timeLeft: data.time_left ?? undefined },
+            savedAt: data.updated_at,
+            fromOtherDevice: data.client_id !== getClientId(),
+          });
+        }
+        setChecked(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, testId, source]);
+
+  const save = useCallback(async () => {
+    if (!userId || !testId || clearedRef.current) return;
+    const { timeLeft, ...state } = snapshotRef.current;
+    if (!hasProgress(state)) return;
+
+    const { error } = await supabase.from('test_attempts').upsert(
+      {
+        user_id: userId,
+        module,
+        source,
+        test_id: testId,
+        state: state as unknown as Json,
+        time_left: timeLeft ?? null,
+        client_id: getClientId(),
+      },
+      { onConflict: 'user_id,source,test_id' }
+    );
+    if (error) console.error('Error autosaving test attempt:', error);
+  }, [userId, testId, module, source]);
+
+  const canSave = enabled && checked && !savedAttempt;
+  const contentKey = snapshotContentKey(snapshot);
+
+  // Debounced save when answers change
+  useEffect(() => {
+    if (!canSave) return;
+    const timeout = setTimeout(save, AUTOSAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [canSave, contentKey, save]);
+
+  // Periodic save so the remaining time stays current, plus one when the tab is hidden
+  useEffect(() => {
+    if (!canSave) return;
+    const interval = setInterval(save, AUTOSAVE_INTERVAL_MS);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') save();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [canSave, save]);
+
+  const deleteAttempt = useCallback(async () => {
+    if (!userId || !testId) return;
+    const { error } = await supabase
+      .from('test_attempts')
+      .delete()
+      .eq('user_id', userId)
+      .eq('source', source)
+      .eq('test_id', testId);
+    if (error) console.error('Error deleting test attempt:', error);
+  }, [userId, testId, source]);
+
+  /** Call once the saved attempt has been restored into the page */
+  const resolveSavedAttempt = useCallback(() => setSavedAttempt(null), []);
+
+  /** The candidate chose to start over instead of resuming */
+  const discardSavedAttempt = useCallback(async () => {
+    setSavedAttempt(null);
+    await deleteAttempt();
+  }, [deleteAttempt]);
+
+  /** Remove the server copy after the test is submitted */
+  const clearAttempt = useCallback(async () => {
+    clearedRef.current = true;
+    setSavedAttempt(null);
+    await deleteAttempt();
+  }, [deleteAttempt]);
+
+  return { savedAttempt, resolveSavedAttempt, discardSavedAttempt, clearAttempt };
+}
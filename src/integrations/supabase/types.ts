@@ -48,6 +48,7 @@ export type Database = {
           created_at: string
           id: string
           module: string
+          prompt_version: string | null
           question_results: Json
           score: number
           test_id: string
@@ -62,6 +63,7 @@ export type Database = {
           created_at?: string
           id?: string
           module: string
+          prompt_version?: string | null
           question_results?: Json
           score?: number
           test_id: string
@@ -76,6 +78,7 @@ export type Database = {
           created_at?: string
           id?: string
           module?: string
+          prompt_version?: string | null
           question_results?: Json
           score?: number
           test_id?: string
@@ -104,8 +107,10 @@ export type Database = {
           module: string
           payload: Json
           preset_id: string | null
+          prompt_version: string | null
           question_type: string
           sample_rate: number | null
+          test_variant: string
           time_minutes: number
           topic: string
           total_questions: number
@@ -121,8 +126,10 @@ export type Database = {
           module: string
           payload?: Json
           preset_id?: string | null
+          prompt_version?: string | null
           question_type: string
           sample_rate?: number | null
+          test_variant?: string
           time_minutes: number
           topic: string
           total_questions: number
@@ -138,8 +145,10 @@ export type Database = {
           module?: string
           payload?: Json
           preset_id?: string | null
+          prompt_version?: string | null
           question_type?: string
           sample_rate?: number | null
+          test_variant?: string
           time_minutes?: number
           topic?: string
           total_questions?: number
@@ -177,6 +186,66 @@ export type Database = {
         }
         Relationships: []
       }
+      answer_disputes: {
+        Row: {
+          admin_note: string | null
+          correct_answer: string
+          created_at: string
+          id: string
+          module: string
+          question_number: number
+          question_text: string | null
+          reason: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          source: string
+          status: string
+          submission_id: string | null
+          test_id: string
+          updated_at: string
+          user_answer: string
+          user_id: string
+        }
+        Insert: {
+          admin_note?: string | null
+          correct_answer: string
+          created_at?: string
+          id?: string
+          module: string
+          question_number: number
+          question_text?: string | null
+          reason?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          source?: string
+          status?: string
+          submission_id?: string | null
+          test_id: string
+          updated_at?: string
+          user_answer: string
+          user_id: string
+        }
+        Update: {
+          admin_note?: string | null
+          correct_answer?: string
+          created_at?: string
+          id?: string
+          module?: string
+          question_number?: number
+          question_text?: string | null
+          reason?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          source?: string
+          status?: string
+          submission_id?: string | null
+          test_id?: string
+          updated_at?: string
+          user_answer?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       api_keys: {
         Row: {
           created_at: string
@@ -264,15 +333,180 @@ export type Database = {
         }
         Relationships: []
       }
+      calibration_runs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          dataset: string
+          evaluator: string
+          failed_count: number
+          id: string
+          model: string | null
+          module: string
+          prompt_version: string | null
+          results: Json
+          script_count: number
+          summary: Json
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          dataset: string
+          evaluator: string
+          failed_count?: number
+          id?: string
+          model?: string | null
+          module: string
+          prompt_version?: string | null
+          results?: Json
+          script_count: number
+          summary: Json
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          dataset?: string
+          evaluator?: string
+          failed_count?: number
+          id?: string
+          model?: string | null
+          module?: string
+          prompt_version?: string | null
+          results?: Json
+          script_count?: number
+          summary?: Json
+        }
+        Relationships: []
+      }
+      calibration_scripts: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          dataset: string
+          id: string
+          instruction: string
+          module: string
+          official_bands: Json
+          official_overall: number
+          script: string
+          source: string | null
+          task_type: string | null
+          visual_description: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          dataset: string
+          id?: string
+          instruction: string
+          module: string
+          official_bands: Json
+          official_overall: number
+          script: string
+          source?: string | null
+          task_type?: string | null
+          visual_description?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          dataset?: string
+          id?: string
+          instruction?: string
+          module?: string
+          official_bands?: Json
+          official_overall?: number
+          script?: string
+          source?: string | null
+          task_type?: string | null
+          visual_description?: string | null
+        }
+        Relationships: []
+      }
+      credit_transactions: {
+        Row: {
+          amount: number
+          bonus_amount: number
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: string
+          note: string | null
+          operation: string | null
+          reference: string | null
+          reservation_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          bonus_amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind: string
+          note?: string | null
+          operation?: string | null
+          reference?: string | null
+          reservation_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          bonus_amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          note?: string | null
+          operation?: string | null
+          reference?: string | null
+          reservation_id?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      entitlement_usage: {
+        Row: {
+          amount: number
+          created_at: string
+          entitlement: string
+          id: string
+          reference: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          entitlement: string
+          id?: string
+          reference?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          entitlement?: string
+          id?: string
+          reference?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       flashcard_cards: {
         Row: {
           correct_count: number
           created_at: string
           deck_id: string
+          due_at: string | null
+          ease_factor: number
           example: string | null
           id: string
+          interval_days: number
+          lapses: number
+          last_reviewed_at: string | null
           meaning: string
           next_review_at: string | null
+          repetitions: number
           review_count: number
           status: string
           translation: string | null
@@ -284,10 +518,16 @@ export type Database = {
           correct_count?: number
           created_at?: string
           deck_id: string
+          due_at?: string | null
+          ease_factor?: number
           example?: string | null
           id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
           meaning: string
           next_review_at?: string | null
+          repetitions?: number
           review_count?: number
           status?: string
           translation?: string | null
@@ -299,10 +539,16 @@ export type Database = {
           correct_count?: number
           created_at?: string
           deck_id?: string
+          due_at?: string | null
+          ease_factor?: number
           example?: string | null
           id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
           meaning?: string
           next_review_at?: string | null
+          repetitions?: number
           review_count?: number
           status?: string
           translation?: string | null
@@ -390,6 +636,7 @@ export type Database = {
           job_id: string | null
           last_used_at: string | null
           module: string
+          prompt_version: string | null
           question_type: string | null
           sample_audio_url: string | null
           status: string
@@ -411,6 +658,7 @@ export type Database = {
           job_id?: string | null
           last_used_at?: string | null
           module: string
+          prompt_version?: string | null
           question_type?: string | null
           sample_audio_url?: string | null
           status?: string
@@ -432,6 +680,7 @@ export type Database = {
           job_id?: string | null
           last_used_at?: string | null
           module?: string
+          prompt_version?: string | null
           question_type?: string | null
           sample_audio_url?: string | null
           status?: string
@@ -453,12 +702,15 @@ export type Database = {
       }
       listening_question_groups: {
         Row: {
+          answer_matching: Json | null
           created_at: string | null
           end_question: number
           group_heading: string | null
           group_heading_alignment: string | null
           id: string
           instruction: string | null
+          max_numbers: number | null
+          max_words: number | null
           options: Json | null
           question_type: string
           start_question: number
@@ -466,12 +718,15 @@ export type Database = {
           test_id: string
         }
         Insert: {
+          answer_matching?: Json | null
           created_at?: string | null
           end_question: number
           group_heading?: string | null
           group_heading_alignment?: string | null
           id?: string
           instruction?: string | null
+          max_numbers?: number | null
+          max_words?: number | null
           options?: Json | null
           question_type: string
           start_question: number
@@ -479,12 +734,15 @@ export type Database = {
           test_id: string
         }
         Update: {
+          answer_matching?: Json | null
           created_at?: string | null
           end_question?: number
           group_heading?: string | null
           group_heading_alignment?: string | null
           id?: string
           instruction?: string | null
+          max_numbers?: number | null
+          max_words?: number | null
           options?: Json | null
           question_type?: string
           start_question?: number
@@ -597,6 +855,7 @@ export type Database = {
       }
       listening_tests: {
         Row: {
+          answer_matching: Json | null
           audio_url: string | null
           audio_url_part1: string | null
           audio_url_part2: string | null
@@ -618,6 +877,7 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          answer_matching?: Json | null
           audio_url?: string | null
           audio_url_part1?: string | null
           audio_url_part2?: string | null
@@ -639,6 +899,7 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          answer_matching?: Json | null
           audio_url?: string | null
           audio_url_part1?: string | null
           audio_url_part2?: string | null
@@ -661,39 +922,255 @@ export type Database = {
         }
         Relationships: []
       }
+      mock_test_sessions: {
+        Row: {
+          book_name: string | null
+          break_until: string | null
+          completed_at: string | null
+          created_at: string
+          current_section: string | null
+          id: string
+          listening_test_id: string | null
+          reading_test_id: string | null
+          section_results: Json
+          speaking_test_id: string | null
+          started_at: string
+          status: string
+          test_number: number | null
+          test_variant: string
+          updated_at: string
+          user_id: string
+          writing_test_id: string | null
+        }
+        Insert: {
+          book_name?: string | null
+          break_until?: string | null
+          completed_at?: string | null
+          created_at?: string
+          current_section?: string | null
+          id?: string
+          listening_test_id?: string | null
+          reading_test_id?: string | null
+          section_results?: Json
+          speaking_test_id?: string | null
+          started_at?: string
+          status?: string
+          test_number?: number | null
+          test_variant?: string
+          updated_at?: string
+          user_id: string
+          writing_test_id?: string | null
+        }
+        Update: {
+          book_name?: string | null
+          break_until?: string | null
+          completed_at?: string | null
+          created_at?: string
+          current_section?: string | null
+          id?: string
+          listening_test_id?: string | null
+          reading_test_id?: string | null
+          section_results?: Json
+          speaking_test_id?: string | null
+          started_at?: string
+          status?: string
+          test_number?: number | null
+          test_variant?: string
+          updated_at?: string
+          user_id?: string
+          writing_test_id?: string | null
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string
-          daily_credits_used: number
           email: string | null
           full_name: string | null
           id: string
-          last_reset_date: string
           updated_at: string
         }
         Insert: {
           avatar_url?: string | null
           created_at?: string
-          daily_credits_used?: number
           email?: string | null
           full_name?: string | null
           id: string
-          last_reset_date?: string
           updated_at?: string
         }
         Update: {
           avatar_url?: string | null
           created_at?: string
-          daily_credits_used?: number
           email?: string | null
           full_name?: string | null
           id?: string
-          last_reset_date?: string
           updated_at?: string
         }
         Relationships: []
       }
+      promotion_campaigns: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          ends_at: string | null
+          id: string
+          is_active: boolean
+          max_redemptions: number | null
+          name: string
+          per_user_limit: number
+          reward_amount: number
+          reward_plan_id: string | null
+          reward_type: string
+          starts_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          name: string
+          per_user_limit?: number
+          reward_amount: number
+          reward_plan_id?: string | null
+          reward_type: string
+          starts_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          name?: string
+          per_user_limit?: number
+          reward_amount?: number
+          reward_plan_id?: string | null
+          reward_type?: string
+          starts_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotion_campaigns_reward_plan_id_fkey"
+            columns: ["reward_plan_id"]
+            isOneToOne: false
+            referencedRelation: "subscription_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotion_codes: {
+        Row: {
+          campaign_id: string
+          code: string
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          max_redemptions: number | null
+        }
+        Insert: {
+          campaign_id: string
+          code: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          max_redemptions?: number | null
+        }
+        Update: {
+          campaign_id?: string
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          max_redemptions?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotion_codes_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "promotion_campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotion_redemptions: {
+        Row: {
+          campaign_id: string
+          code_id: string
+          created_at: string
+          credit_transaction_id: string | null
+          id: string
+          reward_amount: number
+          reward_type: string
+          subscription_id: string | null
+          user_id: string
+        }
+        Insert: {
+          campaign_id: string
+          code_id: string
+          created_at?: string
+          credit_transaction_id?: string | null
+          id?: string
+          reward_amount: number
+          reward_type: string
+          subscription_id?: string | null
+          user_id: string
+        }
+        Update: {
+          campaign_id?: string
+          code_id?: string
+          created_at?: string
+          credit_transaction_id?: string | null
+          id?: string
+          reward_amount?: number
+          reward_type?: string
+          subscription_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotion_redemptions_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "promotion_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotion_redemptions_code_id_fkey"
+            columns: ["code_id"]
+            isOneToOne: false
+            referencedRelation: "promotion_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotion_redemptions_credit_transaction_id_fkey"
+            columns: ["credit_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "credit_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotion_redemptions_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       promotions: {
         Row: {
           created_at: string
@@ -768,6 +1245,7 @@ export type Database = {
           created_at: string
           id: string
           passage_number: number
+          section_number: number | null
           show_labels: boolean
           test_id: string
           title: string
@@ -777,6 +1255,7 @@ export type Database = {
           created_at?: string
           id?: string
           passage_number: number
+          section_number?: number | null
           show_labels?: boolean
           test_id: string
           title: string
@@ -786,6 +1265,7 @@ export type Database = {
           created_at?: string
           id?: string
           passage_number?: number
+          section_number?: number | null
           show_labels?: boolean
           test_id?: string
           title?: string
@@ -802,11 +1282,14 @@ export type Database = {
       }
       reading_question_groups: {
         Row: {
+          answer_matching: Json | null
           created_at: string
           display_as_paragraph: boolean | null
           end_question: number
           id: string
           instruction: string | null
+          max_numbers: number | null
+          max_words: number | null
           options: Json | null
           passage_id: string
           question_type: string
@@ -816,11 +1299,14 @@ export type Database = {
           use_dropdown: boolean | null
         }
         Insert: {
+          answer_matching?: Json | null
           created_at?: string
           display_as_paragraph?: boolean | null
           end_question: number
           id?: string
           instruction?: string | null
+          max_numbers?: number | null
+          max_words?: number | null
           options?: Json | null
           passage_id: string
           question_type: string
@@ -830,11 +1316,14 @@ export type Database = {
           use_dropdown?: boolean | null
         }
         Update: {
+          answer_matching?: Json | null
           created_at?: string
           display_as_paragraph?: boolean | null
           end_question?: number
           id?: string
           instruction?: string | null
+          max_numbers?: number | null
+          max_words?: number | null
           options?: Json | null
           passage_id?: string
           question_type?: string
@@ -955,6 +1444,7 @@ export type Database = {
       }
       reading_tests: {
         Row: {
+          answer_matching: Json | null
           book_name: string
           created_at: string
           id: string
@@ -967,6 +1457,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          answer_matching?: Json | null
           book_name: string
           created_at?: string
           id?: string
@@ -979,6 +1470,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          answer_matching?: Json | null
           book_name?: string
           created_at?: string
           id?: string
@@ -992,6 +1484,57 @@ export type Database = {
         }
         Relationships: []
       }
+      score_adjustments: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          dispute_id: string | null
+          id: string
+          module: string
+          new_band_score: number | null
+          new_score: number
+          note: string
+          old_band_score: number | null
+          old_score: number
+          source: string
+          submission_id: string
+          test_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          dispute_id?: string | null
+          id?: string
+          module: string
+          new_band_score?: number | null
+          new_score: number
+          note: string
+          old_band_score?: number | null
+          old_score: number
+          source: string
+          submission_id: string
+          test_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          dispute_id?: string | null
+          id?: string
+          module?: string
+          new_band_score?: number | null
+          new_score?: number
+          note?: string
+          old_band_score?: number | null
+          old_score?: number
+          source?: string
+          submission_id?: string
+          test_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       speaking_question_groups: {
         Row: {
           created_at: string | null
@@ -1101,6 +1644,7 @@ export type Database = {
           evaluation_report: Json | null
           id: string
           overall_band: number | null
+          prompt_version: string | null
           submitted_at: string | null
           test_id: string
           transcript_part1: string | null
@@ -1117,6 +1661,7 @@ export type Database = {
           evaluation_report?: Json | null
           id?: string
           overall_band?: number | null
+          prompt_version?: string | null
           submitted_at?: string | null
           test_id: string
           transcript_part1?: string | null
@@ -1133,6 +1678,7 @@ export type Database = {
           evaluation_report?: Json | null
           id?: string
           overall_band?: number | null
+          prompt_version?: string | null
           submitted_at?: string | null
           test_id?: string
           transcript_part1?: string | null
@@ -1181,13 +1727,59 @@ export type Database = {
         }
         Relationships: []
       }
+      subscription_plans: {
+        Row: {
+          created_at: string
+          description: string | null
+          entitlements: Json
+          id: string
+          is_active: boolean
+          is_default: boolean
+          name: string
+          price_monthly: number
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          entitlements: Json
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name: string
+          price_monthly?: number
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          entitlements?: Json
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name?: string
+          price_monthly?: number
+          slug?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       subscriptions: {
         Row: {
           created_at: string
           end_date: string
           id: string
+          payment_provider: string | null
+          payment_reference: string | null
+          plan_id: string
           plan_name: string
           price: number
+          refund_reference: string | null
           start_date: string
           status: Database["public"]["Enums"]["subscription_status"]
           updated_at: string
@@ -1197,8 +1789,12 @@ export type Database = {
           created_at?: string
           end_date: string
           id?: string
+          payment_provider?: string | null
+          payment_reference?: string | null
+          plan_id: string
           plan_name: string
           price: number
+          refund_reference?: string | null
           start_date?: string
           status?: Database["public"]["Enums"]["subscription_status"]
           updated_at?: string
@@ -1208,14 +1804,25 @@ export type Database = {
           created_at?: string
           end_date?: string
           id?: string
+          payment_provider?: string | null
+          payment_reference?: string | null
+          plan_id?: string
           plan_name?: string
           price?: number
+          refund_reference?: string | null
           start_date?: string
           status?: Database["public"]["Enums"]["subscription_status"]
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "subscriptions_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "subscription_plans"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "subscriptions_user_id_fkey"
             columns: ["user_id"]
@@ -1225,6 +1832,105 @@ export type Database = {
           },
         ]
       }
+      test_annotations: {
+        Row: {
+          color: string
+          content_id: string
+          created_at: string
+          end_offset: number
+          highlighted_text: string
+          id: string
+          is_note: boolean
+          module: string
+          note_created_at: string | null
+          note_id: string | null
+          note_text: string | null
+          note_updated_at: string | null
+          source: string
+          start_offset: number
+          test_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          content_id: string
+          created_at?: string
+          end_offset: number
+          highlighted_text: string
+          id: string
+          is_note?: boolean
+          module: string
+          note_created_at?: string | null
+          note_id?: string | null
+          note_text?: string | null
+          note_updated_at?: string | null
+          source?: string
+          start_offset: number
+          test_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          content_id?: string
+          created_at?: string
+          end_offset?: number
+          highlighted_text?: string
+          id?: string
+          is_note?: boolean
+          module?: string
+          note_created_at?: string | null
+          note_id?: string | null
+          note_text?: string | null
+          note_updated_at?: string | null
+          source?: string
+          start_offset?: number
+          test_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      test_attempts: {
+        Row: {
+          client_id: string | null
+          created_at: string
+          id: string
+          module: string
+          source: string
+          state: Json
+          test_id: string
+          time_left: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string
+          id?: string
+          module: string
+          source?: string
+          state?: Json
+          test_id: string
+          time_left?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string
+          id?: string
+          module?: string
+          source?: string
+          state?: Json
+          test_id?: string
+          time_left?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       test_presets: {
         Row: {
           created_at: string
@@ -1385,14 +2091,53 @@ export type Database = {
           },
         ]
       }
+      writing_model_rewrites: {
+        Row: {
+          created_at: string
+          id: string
+          prompt_version: string | null
+          rewrite: Json
+          source_id: string
+          source_type: string
+          target_band: number
+          task_type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          prompt_version?: string | null
+          rewrite: Json
+          source_id: string
+          source_type: string
+          target_band: number
+          task_type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          prompt_version?: string | null
+          rewrite?: Json
+          source_id?: string
+          source_type?: string
+          target_band?: number
+          task_type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       writing_submissions: {
         Row: {
           evaluation_report: Json | null
           id: string
           overall_band: number | null
+          prompt_version: string | null
+          revised_from_id: string | null
           submission_text: string
           submitted_at: string | null
           task_id: string
+          text_metrics: Json | null
           user_id: string
           word_count: number
         }
@@ -1400,9 +2145,12 @@ export type Database = {
           evaluation_report?: Json | null
           id?: string
           overall_band?: number | null
+          prompt_version?: string | null
+          revised_from_id?: string | null
           submission_text: string
           submitted_at?: string | null
           task_id: string
+          text_metrics?: Json | null
           user_id: string
           word_count: number
         }
@@ -1410,13 +2158,23 @@ export type Database = {
           evaluation_report?: Json | null
           id?: string
           overall_band?: number | null
+          prompt_version?: string | null
+          revised_from_id?: string | null
           submission_text?: string
           submitted_at?: string | null
           task_id?: string
+          text_metrics?: Json | null
           user_id?: string
           word_count?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "writing_submissions_revised_from_id_fkey"
+            columns: ["revised_from_id"]
+            isOneToOne: false
+            referencedRelation: "writing_submissions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "writing_submissions_task_id_fkey"
             columns: ["task_id"]
@@ -1485,6 +2243,7 @@ export type Database = {
           description: string | null
           id: string
           is_published: boolean
+          test_type: string
           time_limit: number
           title: string
           updated_at: string
@@ -1494,6 +2253,7 @@ export type Database = {
           description?: string | null
           id?: string
           is_published?: boolean
+          test_type?: string
           time_limit?: number
           title: string
           updated_at?: string
@@ -1503,6 +2263,7 @@ export type Database = {
           description?: string | null
           id?: string
           is_published?: boolean
+          test_type?: string
           time_limit?: number
           title?: string
           updated_at?: string
@@ -1515,12 +2276,73 @@ export type Database = {
     }
     Functions: {
       can_user_submit: { Args: { p_user_id: string }; Returns: boolean }
-      check_and_reserve_credits: {
-        Args: { p_cost: number; p_user_id: string }
+      cleanup_old_data: { Args: never; Returns: Json }
+      commit_credits: {
+        Args: { p_reference?: string; p_reservation_id: string }
+        Returns: boolean
+      }
+      consume_entitlement: {
+        Args: {
+          p_amount?: number
+          p_key: string
+          p_reference?: string
+          p_user_id: string
+        }
         Returns: Json
       }
-      cleanup_old_data: { Args: never; Returns: Json }
+      credit_balance: {
+        Args: { p_user_id: string }
+        Returns: Record<string, unknown>
+      }
+      daily_credit_limit: { Args: { p_user_id: string }; Returns: number }
+      entitlement_period: {
+        Args: { p_user_id: string }
+        Returns: Record<string, unknown>
+      }
+      get_admin_listening_questions: {
+        Args: { p_group_ids: string[] }
+        Returns: {
+          correct_answer: string
+          created_at: string | null
+          group_id: string
+          heading: string | null
+          id: string
+          is_given: boolean
+          option_format: string | null
+          options: Json | null
+          question_number: number
+          question_text: string
+          table_data: Json | null
+        }[]
+      }
+      get_admin_reading_questions: {
+        Args: { p_passage_ids: string[] }
+        Returns: {
+          correct_answer: string
+          created_at: string
+          heading: string | null
+          id: string
+          instruction: string | null
+          option_format: string | null
+          options: Json | null
+          passage_id: string
+          question_group_id: string | null
+          question_number: number
+          question_text: string
+          question_type: string
+          table_data: Json | null
+        }[]
+      }
       get_credit_status: { Args: { p_user_id: string }; Returns: Json }
+      get_entitlements: { Args: { p_user_id: string }; Returns: Json }
+      get_listening_example_answers: {
+        Args: { p_question_ids: string[] }
+        Returns: { correct_answer: string; id: string }[]
+      }
+      grant_credits: {
+        Args: { p_amount: number; p_email: string; p_note: string }
+        Returns: Json
+      }
       has_active_subscription: { Args: { p_user_id: string }; Returns: boolean }
       increment_topic_completion: {
         Args: { p_module: string; p_topic: string; p_user_id: string }
@@ -1528,9 +2350,20 @@ export type Database = {
       }
       is_admin: { Args: { check_user_id: string }; Returns: boolean }
       is_promotion_active: { Args: never; Returns: boolean }
+      redeem_promotion_code: { Args: { p_code: string }; Returns: Json }
       refund_credits: {
-        Args: { p_cost: number; p_user_id: string }
-        Returns: undefined
+        Args: { p_note?: string; p_reservation_id: string }
+        Returns: boolean
+      }
+      release_entitlement: { Args: { p_usage_id: string }; Returns: undefined }
+      reserve_credits: {
+        Args: {
+          p_cost: number
+          p_operation: string
+          p_reference?: string
+          p_user_id: string
+        }
+        Returns: Json
       }
     }
     Enums: {
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aiSpeakingPartEvaluationSchema,
+  bandSchema,
+  generatedTestSchema,
+  listeningGenerationSchema,
+  readingGenerationSchema,
+  speakingGenerationSchema,
+  writingSubmissionEvaluationSchema,
+  zodValidator,
+} from '../aiSchemas';
+
+const criterion = (band: unknown) => ({
+  band,
+  strengths: 'Clear overview',
+  weaknesses: ['Some repetition', 'Few linking words'],
+  suggestions_for_improvement: 'Vary your linking words',
+});
+
+const writingReport = (overrides: Record<string, unknown> = {}) => ({
+  overall_band: 6.5,
+  evaluation_report: {
+    task_achievement_response: criterion(7),
+    coherence_and_cohesion: criterion('6.5'),
+    lexical_resource: criterion(6),
+    grammatical_range_and_accuracy: criterion(6.5),
+    overall_suggestions: 'Plan before you write.',
+    ...overrides,
+  },
+});
+
+describe('bandSchema', () => {
+  it('accepts numeric strings and snaps to half bands', () => {
+    expect(bandSchema.parse('6.5')).toBe(6.5);
+    expect(bandSchema.parse(6.3)).toBe(6.5);
+    expect(bandSchema.parse(7.2)).toBe(7);
+  });
+
+  it('rejects bands outside 0-9', () => {
+    expect(bandSchema.safeParse(10).success).toBe(false);
+    expect(bandSchema.safeParse('Band 7').success).toBe(false);
+  });
+});
+
+describe('writingSubmissionEvaluationSchema', () => {
+  it('normalises the report and drops keys the page would render as criteria', () => {
+    const parsed = writingSubmissionEvaluationSchema.parse(writingReport({ debug_notes: 'x' }));
+
+    expect(parsed.evaluation_report.coherence_and_cohesion.band).toBe(6.5);
+    expect(parsed.evaluation_report.lexical_resource.weaknesses).toBe('Some repetition\nFew linking words');
+    expect(parsed.evaluation_report).not.toHaveProperty('debug_notes');
+  });
+
+  it('reports missing criteria with their paths', () => {
+    const { lexical_resource: _omit, ...report } = writingReport().evaluation_report;
+    const result = zodValidator(writingSubmissionEvaluationSchema)({ overall_band: 6, evaluation_report: report });
+
+    expect(result.ok).toBe(false);
+    expect(result.ok === false && result.issues.map(i => i.path)).toEqual(['evaluation_report.lexical_resource']);
+  });
+});
+
+describe('aiSpeakingPartEvaluationSchema', () => {
+  it('fills optional lists and transcripts', () => {
+    const parsed = aiSpeakingPartEvaluationSchema.parse({
+      fluencyCoherence: { score: 6, feedback: 'ok' },
+      lexicalResource: { score: 6.5, feedback: 'ok' },
+      grammaticalRange: { score: '6', feedback: 'ok' },
+      pronunciation: { score: 7, feedback: 'ok' },
+    });
+
+    expect(parsed.grammaticalRange.score).toBe(6);
+    expect(parsed.modelAnswers).toEqual([]);
+    expect(parsed.transcripts).toEqual({});
+  });
+});
+
+describe('generation schemas', () => {
+  const question = { question_number: 1, question_text: 'The museum opened in 1990.', correct_answer: 'TRUE' };
+
+  it('requires a passage and answer keys for reading', () => {
+    const schema = readingGenerationSchema('TRUE_FALSE_NOT_GIVEN');
+
+    expect(schema.safeParse({ passage: { title: 'T', content: 'Text' }, questions: [question] }).success).toBe(true);
+    const result = zodValidator(schema)({ passage: { content: '' }, questions: [{ ...question, correct_answer: '' }] });
+    expect(result.ok === false && result.issues.map(i => i.path)).toEqual(['passage.content', 'questions.0.correct_answer']);
+  });
+
+  it('joins multi-answer keys and checks MCMA options for listening', () => {
+    const dialogue = 'Speaker1: Welcome to the museum, today we will look at the new wing.';
+    const mcq = { ...question, correct_answer: ['A', 'C', 'E'], options: ['A', 'B', 'C'] };
+    const result = zodValidator(listeningGenerationSchema('MULTIPLE_CHOICE_MULTIPLE'))({
+      dialogue,
+      instruction: 'Choose THREE letters.',
+      questions: [mcq, mcq, mcq],
+    });
+
+    expect(result.ok === false && result.issues.map(i => i.path)).toEqual(['questions.0.options']);
+    const parsed = listeningGenerationSchema('MULTIPLE_CHOICE').parse({ dialogue, instruction: 'Choose.', questions: [mcq] });
+    expect(parsed.questions[0].correct_answer).toBe('A,C,E');
+  });
+
+  it('needs a cue card for speaking part 2', () => {
+    const result = zodValidator(speakingGenerationSchema)({
+      parts: [{ part_number: 2, questions: [] }],
+    });
+
+    expect(result.ok === false && result.issues[0]).toEqual({ path: 'parts.0', message: 'Part 2 needs a cue_card_topic' });
+  });
+});
+
+describe('generatedTestSchema', () => {
+  const group = {
+    id: 'g1',
+    instruction: 'Questions 1-2',
+    question_type: 'TRUE_FALSE_NOT_GIVEN',
+    start_question: 1,
+    end_question: 2,
+    questions: [
+      { id: 'q1', question_number: 1, question_text: 'A', correct_answer: 'TRUE' },
+      { id: 'q2', question_number: 2, question_text: 'B', correct_answer: 'FALSE' },
+    ],
+  };
+  const readingTest = {
+    id: 't1',
+    module: 'reading',
+    topic: 'Museums',
+    passage: { id: 'p1', title: 'Museums', content: 'Text', passage_number: 1 },
+    questionGroups: [group],
+  };
+
+  it('accepts a complete reading test', () => {
+    expect(generatedTestSchema.safeParse(readingTest).success).toBe(true);
+  });
+
+  it('rejects tests missing their module content', () => {
+    const result = zodValidator(generatedTestSchema)({ ...readingTest, passage: undefined, questionGroups: [] });
+
+    expect(result.ok === false && result.issues.map(i => i.path)).toEqual(['passage', 'questionGroups']);
+  });
+
+  it('rejects question groups with an empty answer key', () => {
+    const broken = { ...group, questions: [{ ...group.questions[0], correct_answer: ' ' }] };
+    const result = zodValidator(generatedTestSchema)({ ...readingTest, questionGroups: [broken] });
+
+    expect(result.ok === false && result.issues[0].path).toBe('questionGroups.0.questions.0.correct_answer');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import type { Highlight, Note } from '@/hooks/useHighlightNotes';
+import {
+  AnnotationRow,
+  annotationToRow,
+  emptySyncState,
+  getAnnotationPath,
+  markDeleted,
+  markDirty,
+  markPushed,
+  reconcileAnnotations,
+  rowToAnnotation,
+} from '../annotations';
+
+const TEST_ID = '11111111-1111-1111-1111-111111111111';
+const scope = { testId: TEST_ID, module: 'reading' as const, source: 'test' as const };
+
+const highlight = (id: string, overrides: Partial<Highlight> = {}): Highlight => ({
+  id,
+  testId: TEST_ID,
+  contentId: 'para-1',
+  text: 'urban heat',
+  color: 'yellow',
+  startOffset: 10,
+  endOffset: 20,
+  isNote: false,
+  ...overrides,
+});
+
+const note = (highlightId: string, text: string): Note => ({
+  id: `note-${highlightId}`,
+  highlightId,
+  text,
+  createdAt: Date.UTC(2026, 0, 1),
+  updatedAt: Date.UTC(2026, 0, 2),
+});
+
+const row = (h: Highlight, n?: Note): AnnotationRow => ({
+  ...(annotationToRow('user-1', scope, h, n) as AnnotationRow),
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-02T00:00:00.000Z',
+});
+
+describe('row mapping', () => {
+  it('round-trips a highlight and its note', () => {
+    const h = highlight('a', { color: 'red', isNote: true });
+    const n = note('a', 'Paraphrase of Q3');
+    expect(rowToAnnotation(row(h, n))).toEqual({ highlight: h, note: n });
+  });
+
+  it('leaves the note out when the row has none', () => {
+    expect(rowToAnnotation(row(highlight('a')))).toEqual({ highlight: highlight('a') });
+  });
+});
+
+describe('sync state', () => {
+  it('moves ids between dirty and deleted', () => {
+    let state = markDirty(emptySyncState(), 'a');
+    expect(state.dirtyIds).toEqual(['a']);
+    state = markDeleted(state, 'a');
+    expect(state).toEqual({ syncedIds: [], dirtyIds: [], deletedIds: ['a'] });
+  });
+
+  it('keeps changes made while a push was in flight', () => {
+    const state = { syncedIds: ['x'], dirtyIds: ['a', 'b'], deletedIds: ['x'] };
+    expect(markPushed(state, ['a'], ['x'])).toEqual({ syncedIds: ['a'], dirtyIds: ['b'], deletedIds: [] });
+  });
+});
+
+describe('reconcileAnnotations', () => {
+  it('takes the server copy of unchanged highlights', () => {
+    const local = { highlights: [highlight('a')], notes: [] };
+    const remote = [row(highlight('a', { color: 'red', isNote: true }), note('a', 'From phone'))];
+    const result = reconcileAnnotations(local, remote, { ...emptySyncState(), syncedIds: ['a'] });
+    expect(result.highlights[0].isNote).toBe(true);
+    expect(result.notes.map(n => n.text)).toEqual(['From phone']);
+    expect(result.upsertIds).toEqual([]);
+  });
+
+  it('keeps unpushed local edits and uploads them', () => {
+    const local = { highlights: [highlight('a', { color: 'red', isNote: true })], notes: [note('a', 'Offline note')] };
+    const remote = [row(highlight('a'))];
+    const result = reconcileAnnotations(local, remote, { syncedIds: ['a'], dirtyIds: ['a'], deletedIds: [] });
+    expect(result.notes.map(n => n.text)).toEqual(['Offline note']);
+    expect(result.upsertIds).toEqual(['a']);
+  });
+
+  it('deletes rows removed locally while offline', () => {
+    const result = reconcileAnnotations(
+      { highlights: [], notes: [] },
+      [row(highlight('a'))],
+      { syncedIds: ['a'], dirtyIds: [], deletedIds: ['a'] }
+    );
+    expect(result.highlights).toEqual([]);
+    expect(result.deleteIds).toEqual(['a']);
+  });
+
+  it('uploads local highlights the server never had', () => {
+    const result = reconcileAnnotations({ highlights: [highlight('new')], notes: [] }, [], emptySyncState());
+    expect(result.highlights.map(h => h.id)).toEqual(['new']);
+    expect(result.upsertIds).toEqual(['new']);
+  });
+
+  it('drops synced highlights deleted on another device', () => {
+    const result = reconcileAnnotations(
+      { highlights: [highlight('gone')], notes: [note('gone', 'Old')] },
+      [],
+      { ...emptySyncState(), syncedIds: ['gone'] }
+    );
+    expect(result.highlights).toEqual([]);
+    expect(result.notes).toEqual([]);
+    expect(result.upsertIds).toEqual([]);
+  });
+});
+
+describe('getAnnotationPath', () => {
+  it('opens reading annotations in study mode at the highlight', () => {
+    expect(getAnnotationPath(row(highlight('a')))).toBe(`/reading/study/${TEST_ID}?content=para-1&offset=10&end=20`);
+  });
+
+  it('opens other modules on their test page', () => {
+    const listening = { ...row(highlight('a')), module: 'listening' };
+    expect(getAnnotationPath(listening)).toBe(`/listening/test/${TEST_ID}`);
+    expect(getAnnotationPath({ ...listening, source: 'ai_practice' })).toBe(`/ai-practice/listening/${TEST_ID}`);
+  });
+});
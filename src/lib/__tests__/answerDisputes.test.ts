@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendAlternateAnswer,
+  canDisputeAnswer,
+  groupDisputesByQuestion,
+  remarkPracticeQuestion,
+  type AnswerDisputeRow,
+} from '../answerDisputes';
+
+const TEST_ID = '22222222-2222-2222-2222-222222222222';
+
+const dispute = (id: string, overrides: Partial<AnswerDisputeRow> = {}): AnswerDisputeRow => ({
+  id,
+  user_id: `user-${id}`,
+  module: 'listening',
+  source: 'test',
+  test_id: TEST_ID,
+  submission_id: null,
+  question_number: 4,
+  question_text: 'The walls were painted a bright ____',
+  user_answer: 'color',
+  correct_answer: 'colour',
+  reason: null,
+  status: 'pending',
+  admin_note: null,
+  created_at: `2026-01-0${id.length}T00:00:00.000Z`,
+  ...overrides,
+});
+
+describe('appendAlternateAnswer', () => {
+  it('appends with the "/" alternates syntax', () => {
+    expect(appendAlternateAnswer('colour', 'color')).toBe('colour / color');
+    expect(appendAlternateAnswer('colour / colours', ' Color ')).toBe('colour / colours / Color');
+  });
+
+  it('skips answers already in the key', () => {
+    expect(appendAlternateAnswer('colour / color', 'COLOR')).toBe('colour / color');
+  });
+
+  it('adds several alternatives at once', () => {
+    expect(appendAlternateAnswer('5 cm', '5 centimetres / 5cm')).toBe('5 cm / 5 centimetres / 5cm');
+  });
+});
+
+describe('canDisputeAnswer', () => {
+  it('only allows wrong, answered free-text questions', () => {
+    expect(canDisputeAnswer({ isCorrect: false, userAnswer: 'color', questionType: 'SENTENCE_COMPLETION' })).toBe(true);
+    expect(canDisputeAnswer({ isCorrect: true, userAnswer: 'colour', questionType: 'SENTENCE_COMPLETION' })).toBe(false);
+    expect(canDisputeAnswer({ isCorrect: false, userAnswer: '', questionType: 'SENTENCE_COMPLETION' })).toBe(false);
+    expect(canDisputeAnswer({ isCorrect: false, userAnswer: 'B', questionType: 'MULTIPLE_CHOICE_SINGLE' })).toBe(false);
+    expect(canDisputeAnswer({ isCorrect: false, userAnswer: 'A,C', questionType: 'MULTIPLE_CHOICE_MULTIPLE' })).toBe(false);
+  });
+});
+
+describe('groupDisputesByQuestion', () => {
+  it('groups by question and counts disputed answers', () => {
+    const groups = groupDisputesByQuestion([
+      dispute('a'),
+      dispute('bb', { user_answer: 'Color ' }),
+      dispute('ccc', { user_answer: 'colours', status: 'rejected' }),
+      dispute('dddd', { question_number: 9, user_answer: 'harbour' }),
+    ]);
+
+    expect(groups.map(g => [g.questionNumber, g.pendingCount])).toEqual([[4, 2], [9, 1]]);
+    expect(groups[0].answers).toEqual([{ answer: 'color', count: 2 }, { answer: 'colours', count: 1 }]);
+  });
+
+  it('keeps the same question number of different tests apart', () => {
+    const groups = groupDisputesByQuestion([dispute('a'), dispute('b', { source: 'ai_practice' })]);
+    expect(groups).toHaveLength(2);
+  });
+});
+
+describe('remarkPracticeQuestion', () => {
+  it('re-marks the disputed question and recounts the score', () => {
+    const results = [
+      { questionNumber: 1, userAnswer: 'river', correctAnswer: 'river', isCorrect: true, questionType: 'SENTENCE_COMPLETION' },
+      { questionNumber: 4, userAnswer: 'color', correctAnswer: 'colour', isCorrect: false, questionType: 'SENTENCE_COMPLETION' },
+    ];
+
+    const remarked = remarkPracticeQuestion(results, 4, 'colour / color');
+
+    expect(remarked.changed).toBe(true);
+    expect(remarked.score).toBe(2);
+    expect(remarked.total).toBe(2);
+    expect(remarked.questionResults[1]).toMatchObject({ isCorrect: true, correctAnswer: 'colour / color' });
+  });
+
+  it('reports no change when the new key does not accept the answer', () => {
+    const results = [{ questionNumber: 4, userAnswer: 'blue', correctAnswer: 'colour', isCorrect: false }];
+    expect(remarkPracticeQuestion(results, 4, 'colour / color').changed).toBe(false);
+  });
+});
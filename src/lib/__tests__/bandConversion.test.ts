@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  rawScoreToBand,
+  scaleRawScore,
+  roundOverallBand,
+  calculateOverallBand,
+  combineWritingTaskBands,
+  toTestVariant,
+} from '../bandConversion';
+
+describe('rawScoreToBand', () => {
+  it('converts full 40-question papers', () => {
+    expect(rawScoreToBand(40, { module: 'listening' })).toBe(9);
+    expect(rawScoreToBand(30, { module: 'listening' })).toBe(7);
+    expect(rawScoreToBand(30, { module: 'reading' })).toBe(7);
+    expect(rawScoreToBand(0, { module: 'reading' })).toBe(0);
+  });
+
+  it('uses the General Training reading table', () => {
+    expect(rawScoreToBand(30, { module: 'reading', variant: 'general' })).toBe(6);
+    expect(rawScoreToBand(34, { module: 'reading', variant: 'general' })).toBe(7);
+  });
+
+  it('uses one listening table for both variants', () => {
+    expect(rawScoreToBand(30, { module: 'listening', variant: 'general' })).toBe(7);
+  });
+
+  it('scales shorter practice tests onto the 40-question table', () => {
+    expect(scaleRawScore(4, 5)).toBe(32);
+    expect(rawScoreToBand(4, { module: 'listening', totalQuestions: 5 })).toBe(7.5);
+    expect(rawScoreToBand(4, { module: 'reading', totalQuestions: 5 })).toBe(7);
+  });
+
+  it('clamps out-of-range scores', () => {
+    expect(scaleRawScore(12, 10)).toBe(40);
+    expect(scaleRawScore(-1, 10)).toBe(0);
+    expect(scaleRawScore(3, 0)).toBe(0);
+  });
+});
+
+describe('toTestVariant', () => {
+  it('treats anything other than general as academic', () => {
+    expect(toTestVariant('general')).toBe('general');
+    expect(toTestVariant('model')).toBe('academic');
+    expect(toTestVariant(null)).toBe('academic');
+  });
+});
+
+describe('overall band rounding', () => {
+  it('rounds quarter bands up and eighths to the nearest half', () => {
+    expect(roundOverallBand(6.25)).toBe(6.5);
+    expect(roundOverallBand(6.75)).toBe(7);
+    expect(roundOverallBand(6.125)).toBe(6);
+  });
+
+  it('averages the available module bands', () => {
+    expect(calculateOverallBand([6.5, 6.5, 5, 7])).toBe(6.5);
+    expect(calculateOverallBand([7, 7, null, undefined])).toBe(7);
+    expect(calculateOverallBand([])).toBeNull();
+  });
+
+  it('weights writing Task 2 twice as much as Task 1', () => {
+    expect(combineWritingTaskBands(6, 7)).toBe(6.5);
+    expect(combineWritingTaskBands(7, 5)).toBe(5.5);
+    expect(combineWritingTaskBands(null, 6)).toBe(6);
+    expect(combineWritingTaskBands(null, null)).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { addBillingMonth, createFakePaymentProvider, planSubscriptionChange } from '../billing';
+
+const plus = { id: 'plus', price: 10, isDefault: false };
+const pro = { id: 'pro', price: 20, isDefault: false };
+const free = { id: 'free', price: 0, isDefault: true };
+
+const onPlus = {
+  planId: 'plus',
+  price: 10,
+  start: new Date('2026-01-01T00:00:00Z'),
+  end: new Date('2026-01-31T00:00:00Z'),
+};
+
+describe('addBillingMonth', () => {
+  it('keeps the day of month, clamped to shorter months', () => {
+    expect(addBillingMonth(new Date('2026-01-15T10:00:00Z')).toISOString()).toBe('2026-02-15T10:00:00.000Z');
+    expect(addBillingMonth(new Date('2026-01-31T10:00:00Z')).toISOString()).toBe('2026-02-28T10:00:00.000Z');
+    expect(addBillingMonth(new Date('2026-12-31T00:00:00Z')).toISOString()).toBe('2027-01-31T00:00:00.000Z');
+  });
+});
+
+describe('planSubscriptionChange', () => {
+  const now = new Date('2026-01-16T00:00:00Z');
+
+  it('starts a paid plan now and charges it in full', () => {
+    expect(planSubscriptionChange(null, plus, now)).toMatchObject({
+      kind: 'new',
+      charge: 10,
+      credit: 0,
+      startsAt: now,
+      endsAt: new Date('2026-02-16T00:00:00Z'),
+    });
+  });
+
+  it('credits the unused part of the current period on upgrade', () => {
+    // Half of a 30-day period is left
+    const change = planSubscriptionChange(onPlus, pro, now);
+    expect(change).toMatchObject({ kind: 'upgrade', credit: 5, charge: 15, startsAt: now });
+  });
+
+  it('starts a downgrade when the current period ends', () => {
+    const change = planSubscriptionChange({ ...onPlus, planId: 'pro', price: 20 }, plus, now);
+    expect(change).toMatchObject({ kind: 'downgrade', charge: 10, startsAt: onPlus.end });
+  });
+
+  it('cancels when moving to the default plan, and ignores no-ops', () => {
+    expect(planSubscriptionChange(onPlus, free, now).kind).toBe('cancel');
+    expect(planSubscriptionChange(onPlus, plus, now).kind).toBe('unchanged');
+    expect(planSubscriptionChange(null, free, now).kind).toBe('unchanged');
+    // An expired subscription is the same as none
+    expect(planSubscriptionChange(onPlus, plus, new Date('2026-02-01T00:00:00Z')).kind).toBe('new');
+  });
+});
+
+describe('createFakePaymentProvider', () => {
+  it('records charges and declines listed users', async () => {
+    const provider = createFakePaymentProvider({ declineUserIds: ['u2'] });
+    const request = { planId: 'plus', amount: 10, currency: 'usd', description: 'Plus plan' };
+
+    expect(await provider.charge({ ...request, userId: 'u1' })).toEqual({ ok: true, reference: 'fake_1' });
+    expect((await provider.charge({ ...request, userId: 'u2' })).ok).toBe(false);
+    expect(provider.charges.map(c => c.userId)).toEqual(['u1']);
+  });
+
+  it('refunds a charge at most once', async () => {
+    const provider = createFakePaymentProvider();
+    await provider.charge({ userId: 'u1', planId: 'plus', amount: 10, currency: 'usd', description: 'Plus plan' });
+    const refund = { chargeReference: 'fake_1', amount: 10, currency: 'usd' };
+
+    expect(await provider.refund(refund)).toEqual({ ok: true, reference: 'fake_refund_1' });
+    expect((await provider.refund(refund)).ok).toBe(false);
+    expect((await provider.refund({ ...refund, chargeReference: 'ch_123' })).ok).toBe(false);
+  });
+});
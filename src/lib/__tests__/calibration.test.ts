@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  agreementStats,
+  calibrationDatasetSchema,
+  calibrationScriptRows,
+  compareCalibrationRuns,
+  summarizeCalibration,
+  type CalibrationScriptResult,
+} from '../calibration';
+
+const writingScript = {
+  module: 'writing',
+  task_type: 'task2',
+  instruction: 'Some people think that university education should be free. Discuss both views.',
+  script: 'Many people argue that university should be free...',
+  official_overall: '6.5',
+  official_bands: { task_response: 6, coherence_cohesion: 7, lexical_resource: 6.5, grammatical_range_accuracy: 6.5 },
+};
+
+const result = (
+  scriptId: string,
+  official: [number, number, number, number, number],
+  ai: [number, number, number, number, number] | null,
+): CalibrationScriptResult => ({
+  scriptId,
+  officialOverall: official[0],
+  officialBands: {
+    task_response: official[1],
+    coherence_cohesion: official[2],
+    lexical_resource: official[3],
+    grammatical_range_accuracy: official[4],
+  },
+  aiOverall: ai ? ai[0] : null,
+  aiBands: ai
+    ? { task_response: ai[1], coherence_cohesion: ai[2], lexical_resource: ai[3], grammatical_range_accuracy: ai[4] }
+    : {},
+  error: ai ? undefined : 'timed out',
+});
+
+describe('calibrationDatasetSchema', () => {
+  it('accepts writing and speaking scripts and snaps bands', () => {
+    const parsed = calibrationDatasetSchema.parse({
+      dataset: 'Cambridge 18',
+      scripts: [
+        writingScript,
+        {
+          module: 'speaking',
+          instruction: 'Part 1: Where do you live?',
+          script: 'I live in a small flat near the river.',
+          official_overall: 7,
+          official_bands: { fluency_coherence: 7, lexical_resource: 7, grammatical_range_accuracy: 6.5, pronunciation: 7 },
+        },
+      ],
+    });
+
+    expect(parsed.scripts[0].official_overall).toBe(6.5);
+    expect(calibrationScriptRows(parsed).map(r => [r.module, r.task_type])).toEqual([['writing', 'task2'], ['speaking', null]]);
+  });
+
+  it('requires every compared criterion', () => {
+    const { lexical_resource: _omit, ...bands } = writingScript.official_bands;
+    const parsed = calibrationDatasetSchema.safeParse({ dataset: 'x', scripts: [{ ...writingScript, official_bands: bands }] });
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.success === false && parsed.error.issues[0].path.join('.')).toBe('scripts.0.official_bands.lexical_resource');
+  });
+});
+
+describe('agreementStats', () => {
+  it('computes exact/adjacent agreement, MAE and bias', () => {
+    expect(agreementStats([[6, 6], [7, 6.5], [5, 6], [6.5, 6.5]])).toEqual({
+      count: 4,
+      exactRate: 0.5,
+      adjacentRate: 0.75,
+      meanAbsoluteError: 0.375,
+      bias: -0.125,
+    });
+    expect(agreementStats([])).toBeNull();
+  });
+});
+
+describe('summarizeCalibration', () => {
+  it('skips failed scripts and reports bias per criterion', () => {
+    const summary = summarizeCalibration('writing', [
+      result('a', [6.5, 6, 7, 6.5, 6.5], [7, 7, 7, 7, 6.5]),
+      result('b', [5.5, 5, 6, 5.5, 5.5], [6, 6, 6, 5.5, 6]),
+      result('c', [7, 7, 7, 7, 7], null),
+    ]);
+
+    expect(summary.scripts).toBe(3);
+    expect(summary.failed).toBe(1);
+    expect(summary.overall).toMatchObject({ count: 2, exactRate: 0, adjacentRate: 1, bias: 0.5 });
+    expect(summary.criteria.task_response).toMatchObject({ meanAbsoluteError: 1, bias: 1 });
+    expect(summary.criteria.coherence_cohesion).toMatchObject({ exactRate: 1, bias: 0 });
+  });
+});
+
+describe('compareCalibrationRuns', () => {
+  const summaryWith = (mae: number, exactRate: number, bias: number) => ({
+    scripts: 10,
+    failed: 0,
+    overall: { count: 10, exactRate, adjacentRate: 0.9, meanAbsoluteError: mae, bias },
+    criteria: { lexical_resource: { count: 10, exactRate, adjacentRate: 0.9, meanAbsoluteError: mae, bias } },
+  });
+
+  it('flags worse agreement and ignores noise', () => {
+    const previous = summaryWith(0.4, 0.5, 0.1);
+
+    expect(compareCalibrationRuns(summaryWith(0.45, 0.48, 0.2), previous)).toEqual([]);
+    expect(compareCalibrationRuns(summaryWith(0.5, 0.4, 0.4), previous)).toEqual([
+      { criterion: 'overall', metric: 'meanAbsoluteError', previous: 0.4, current: 0.5 },
+      { criterion: 'overall', metric: 'exactRate', previous: 0.5, current: 0.4 },
+      { criterion: 'overall', metric: 'bias', previous: 0.1, current: 0.4 },
+      { criterion: 'lexical_resource', metric: 'meanAbsoluteError', previous: 0.4, current: 0.5 },
+      { criterion: 'lexical_resource', metric: 'exactRate', previous: 0.5, current: 0.4 },
+      { criterion: 'lexical_resource', metric: 'bias', previous: 0.1, current: 0.4 },
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { creditOperationLabel, summarizeCreditHistory, type CreditTransaction } from '../credits';
+
+const tx = (overrides: Partial<CreditTransaction> & Pick<CreditTransaction, 'id' | 'kind' | 'amount' | 'created_at'>): CreditTransaction => ({
+  bonus_amount: 0,
+  operation: null,
+  reference: null,
+  reservation_id: null,
+  note: null,
+  ...overrides,
+});
+
+describe('summarizeCreditHistory', () => {
+  it('folds commits and refunds into their reservation, newest first', () => {
+    const activity = summarizeCreditHistory([
+      tx({ id: 'r1', kind: 'reserve', amount: -20, operation: 'generate_reading', created_at: '2026-01-15T09:00:00Z' }),
+      tx({ id: 'c1', kind: 'commit', amount: 0, reservation_id: 'r1', reference: 'test-1', created_at: '2026-01-15T09:00:30Z' }),
+      tx({ id: 'r2', kind: 'reserve', amount: -10, operation: 'evaluate_writing', created_at: '2026-01-15T10:00:00Z' }),
+      tx({ id: 'f2', kind: 'refund', amount: 10, reservation_id: 'r2', note: 'The evaluation failed', created_at: '2026-01-15T10:00:20Z' }),
+      tx({ id: 'r3', kind: 'reserve', amount: -15, operation: 'evaluate_speaking', created_at: '2026-01-15T11:00:00Z' }),
+      tx({ id: 'g1', kind: 'grant', amount: 50, bonus_amount: 50, note: 'Support', created_at: '2026-01-15T08:00:00Z' }),
+    ]);
+
+    expect(activity.map(a => [a.id, a.status, a.amount])).toEqual([
+      ['r3', 'pending', -15],
+      ['r2', 'refunded', 0],
+      ['r1', 'charged', -20],
+      ['g1', 'credited', 50],
+    ]);
+    expect(activity[1]).toMatchObject({ label: 'Writing evaluation', reserved: 10, note: 'The evaluation failed' });
+    expect(activity[2]).toMatchObject({ reference: 'test-1', settledAt: '2026-01-15T09:00:30Z' });
+  });
+
+  it('drops settlements whose reservation is outside the page', () => {
+    const activity = summarizeCreditHistory([
+      tx({ id: 'c0', kind: 'commit', amount: 0, reservation_id: 'older', created_at: '2026-01-15T09:00:00Z' }),
+      tx({ id: 'p1', kind: 'promo', amount: 30, bonus_amount: 30, reference: 'WELCOME30', created_at: '2026-01-15T08:00:00Z' }),
+    ]);
+
+    expect(activity).toHaveLength(1);
+    expect(activity[0]).toMatchObject({ kind: 'promo', label: 'Promotion code', reference: 'WELCOME30' });
+  });
+});
+
+describe('creditOperationLabel', () => {
+  it('falls back to the raw operation name', () => {
+    expect(creditOperationLabel('explain_answer')).toBe('Answer explanation');
+    expect(creditOperationLabel('rewrite_essay')).toBe('rewrite essay');
+    expect(creditOperationLabel(null)).toBe('Credits');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  entitlementAllows,
+  formatEntitlementLimit,
+  planEntitlementsSchema,
+  speakingMinutes,
+  type EntitlementStatus,
+} from '../entitlements';
+
+const status = (entitlements: Partial<EntitlementStatus['entitlements']>): EntitlementStatus => ({
+  plan: { id: 'p', slug: 'free', name: 'Free', price_monthly: 0, is_default: true },
+  subscription: null,
+  period_start: '2026-01-01T00:00:00Z',
+  period_end: '2026-02-01T00:00:00Z',
+  entitlements: {
+    daily_credits: { limit: 100, used: 0, remaining: 100 },
+    ai_evaluations: { limit: 30, used: 0, remaining: 30 },
+    full_mocks: { limit: 2, used: 0, remaining: 2 },
+    speaking_minutes: { limit: 60, used: 0, remaining: 60 },
+    ...entitlements,
+  },
+});
+
+describe('entitlementAllows', () => {
+  it('compares the amount with what remains, and treats null limits as unlimited', () => {
+    const s = status({
+      full_mocks: { limit: 2, used: 2, remaining: 0 },
+      speaking_minutes: { limit: 60, used: 55, remaining: 5 },
+      ai_evaluations: { limit: null, used: 400, remaining: null },
+    });
+    expect(entitlementAllows(s, 'full_mocks')).toBe(false);
+    expect(entitlementAllows(s, 'speaking_minutes', 5)).toBe(true);
+    expect(entitlementAllows(s, 'speaking_minutes', 6)).toBe(false);
+    expect(entitlementAllows(s, 'ai_evaluations', 1000)).toBe(true);
+    expect(entitlementAllows(null, 'ai_evaluations')).toBe(false);
+  });
+});
+
+describe('plan entitlements', () => {
+  it('requires a daily credit number but allows unlimited monthly limits', () => {
+    const valid = { daily_credits: 300, ai_evaluations: null, full_mocks: 10, speaking_minutes: null };
+    expect(planEntitlementsSchema.safeParse(valid).success).toBe(true);
+    expect(planEntitlementsSchema.safeParse({ ...valid, daily_credits: null }).success).toBe(false);
+    expect(planEntitlementsSchema.safeParse({ ...valid, full_mocks: 1.5 }).success).toBe(false);
+    expect(planEntitlementsSchema.safeParse({ ...valid, full_mocks: -1 }).success).toBe(false);
+  });
+
+  it('formats limits with their unit and period', () => {
+    expect(formatEntitlementLimit('full_mocks', 2)).toBe('2 mocks / month');
+    expect(formatEntitlementLimit('daily_credits', 100)).toBe('100 credits / day');
+    expect(formatEntitlementLimit('ai_evaluations', null)).toBe('Unlimited evaluations');
+  });
+});
+
+describe('speakingMinutes', () => {
+  it('rounds the total recorded time up to whole minutes', () => {
+    expect(speakingMinutes([30, 45, 50])).toBe(3);
+    expect(speakingMinutes([60, null, undefined, -5])).toBe(1);
+    expect(speakingMinutes([])).toBe(0);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { academicHeadword, analyzeEssay, mtld } from '../essayMetrics';
+import { ACADEMIC_WORD_LIST } from '../academicWordList';
+
+const essay = [
+  'Many people believe that technology has a significant impact on society. However, others argue that its benefits are overstated.',
+  'Firstly, technology enables individuals to access information. For example, students can research topics online. Moreover, technology creates jobs. However, it also causes problems.',
+  'In conclusion, technology is beneficial. However, we must use technology wisely and technology should be regulated.',
+].join('\n\n');
+
+describe('analyzeEssay', () => {
+  const metrics = analyzeEssay(essay, 'task2');
+
+  it('counts words against the task minimum', () => {
+    expect(metrics.wordCount).toBe(58);
+    expect(metrics.minimumWords).toBe(250);
+    expect(metrics.meetsMinimum).toBe(false);
+    expect(analyzeEssay(essay, 'task1').minimumWords).toBe(150);
+  });
+
+  it('splits paragraphs and sentences', () => {
+    expect(metrics.paragraphs).toEqual({ count: 3, wordCounts: [19, 23, 16] });
+    expect(metrics.sentences.count).toBe(8);
+    expect(metrics.sentences.longest).toBe(11);
+    expect(metrics.sentences.distribution).toEqual({ short: 6, medium: 2, long: 0, very_long: 0 });
+  });
+
+  it('flags repeated content words and counts cohesive devices by function', () => {
+    expect(metrics.repeatedWords).toEqual([{ word: 'technology', count: 6 }]);
+    expect(metrics.cohesiveDevices.byFunction.contrast).toBe(3);
+    expect(metrics.cohesiveDevices.used[0]).toEqual({ device: 'however', count: 3 });
+    expect(metrics.cohesiveDevices.overused).toEqual([]);
+  });
+
+  it('reports academic word families', () => {
+    expect(metrics.academicWords.families).toEqual(expect.arrayContaining(['technology', 'benefit', 'individual', 'regulate']));
+    expect(metrics.academicWords.families[0]).toBe('technology');
+  });
+
+  it('handles an empty answer', () => {
+    const empty = analyzeEssay('', 'task1');
+    expect(empty.wordCount).toBe(0);
+    expect(empty.sentences.averageLength).toBe(0);
+    expect(empty.lexicalDiversity).toEqual({ typeTokenRatio: 0, mtld: null });
+  });
+});
+
+describe('academicHeadword', () => {
+  it('matches family members to their headword', () => {
+    expect(['analysis', 'economies', 'environmental', 'significantly', 'committed', 'analyze'].map(academicHeadword))
+      .toEqual(['analyse', 'economy', 'environment', 'significant', 'commit', 'analyse']);
+    expect(academicHeadword('students')).toBeNull();
+  });
+
+  it('covers all 570 headwords once', () => {
+    expect(new Set(ACADEMIC_WORD_LIST).size).toBe(570);
+    expect(ACADEMIC_WORD_LIST).toHaveLength(570);
+  });
+});
+
+describe('mtld', () => {
+  it('needs enough text and rewards varied vocabulary', () => {
+    expect(mtld(Array(20).fill('word'))).toBeNull();
+    const repetitive = Array.from({ length: 60 }, (_, i) => ['the', 'cat', 'sat'][i % 3]);
+    const varied = Array.from({ length: 60 }, (_, i) => `word${i}`);
+    expect(mtld(varied)!).toBeGreaterThan(mtld(repetitive)!);
+  });
+});
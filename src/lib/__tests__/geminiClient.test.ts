@@ -0,0 +1,217 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  classifyGeminiError,
+  createFakeProvider,
+  createGeminiProvider,
+  createLlmClient,
+  extractJson,
+  geminiModelsFor,
+  LlmError,
+  LlmValidationError,
+  shouldTryNextModel,
+  validateModelOutput,
+  type Validator,
+} from '../geminiClient';
+
+const usage = (promptTokens: number, outputTokens: number) => ({
+  promptTokens,
+  outputTokens,
+  totalTokens: promptTokens + outputTokens,
+});
+
+describe('geminiModelsFor', () => {
+  it('starts at the requested tier and keeps the shared order', () => {
+    const models = geminiModelsFor({ startTier: 'flash' });
+    expect(models[0]).toBe('gemini-2.5-flash');
+    expect(models).not.toContain('gemini-2.5-pro');
+    expect(models.indexOf('gemini-2.0-flash')).toBeLessThan(models.indexOf('gemini-2.5-flash-lite'));
+  });
+
+  it('drops text-only models for audio and image input', () => {
+    expect(geminiModelsFor().some(m => m.startsWith('gemma'))).toBe(true);
+    expect(geminiModelsFor({ multimodal: true }).some(m => m.startsWith('gemma'))).toBe(false);
+  });
+});
+
+describe('classifyGeminiError', () => {
+  it('maps Gemini failures onto ApiErrorKind', () => {
+    expect(classifyGeminiError(400, '{"error":{"status":"INVALID_ARGUMENT","details":[{"reason":"API_KEY_INVALID"}]}}')).toBe('invalid_key');
+    expect(classifyGeminiError(403, 'Permission denied: Consumer has been suspended. CONSUMER_SUSPENDED')).toBe('key_suspended');
+    expect(classifyGeminiError(403, 'PERMISSION_DENIED')).toBe('permission_denied');
+    expect(classifyGeminiError(429, 'Quota exceeded for quotaMetric GenerateRequestsPerMinutePerProjectPerModel')).toBe('rate_limited');
+    expect(classifyGeminiError(429, 'You exceeded your current quota, please check your plan and billing details')).toBe('quota');
+    expect(classifyGeminiError(503, 'The model is overloaded')).toBe('network');
+    expect(classifyGeminiError(404, 'models/gemini-x is not found')).toBe('unknown');
+  });
+
+  it('only stops the fallback for key-level failures', () => {
+    expect(shouldTryNextModel('rate_limited')).toBe(true);
+    expect(shouldTryNextModel('permission_denied')).toBe(true);
+    expect(shouldTryNextModel('invalid_key')).toBe(false);
+    expect(shouldTryNextModel('key_suspended')).toBe(false);
+  });
+});
+
+describe('extractJson', () => {
+  it('reads fenced, bare and prose-wrapped JSON', () => {
+    expect(extractJson('```json\n{"band": 7}\n```')).toEqual({ band: 7 });
+    expect(extractJson('{"band": 6.5}')).toEqual({ band: 6.5 });
+    expect(extractJson('Here is the result: {"band": 5} Hope it helps')).toEqual({ band: 5 });
+    expect(extractJson('[1, 2]')).toEqual([1, 2]);
+  });
+
+  it('returns null when nothing parses', () => {
+    expect(extractJson('no json here')).toBeNull();
+    expect(extractJson('{"band": ')).toBeNull();
+  });
+});
+
+describe('createLlmClient', () => {
+  it('falls back to the next model on a rate limit', async () => {
+    const provider = createFakeProvider([
+      new LlmError('rate_limited', 'slow down'),
+      { text: 'hello', usage: usage(10, 5) },
+    ]);
+    const client = createLlmClient({ provider, models: ['a', 'b', 'c'] });
+
+    const result = await client.generateText({ contents: 'hi' });
+
+    expect(result.text).toBe('hello');
+    expect(result.model).toBe('b');
+    expect(result.attempts).toEqual([{ model: 'a', kind: 'rate_limited', message: 'slow down' }, { model: 'b' }]);
+    expect(provider.calls.map(c => c.model)).toEqual(['a', 'b']);
+    expect(provider.calls[0].contents).toEqual([{ role: 'user', parts: [{ text: 'hi' }] }]);
+  });
+
+  it('stops at a key-level error and rethrows it', async () => {
+    const provider = createFakeProvider([new LlmError('invalid_key', 'bad key')]);
+    const client = createLlmClient({ provider, models: ['a', 'b'] });
+
+    await expect(client.generateText({ contents: 'hi' })).rejects.toMatchObject({ kind: 'invalid_key' });
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it('treats unparseable output as a failed attempt in generateJson', async () => {
+    const provider = createFakeProvider(['not json', '{"overall_band": 7}']);
+    const client = createLlmClient({ provider, models: ['a', 'b'] });
+
+    const result = await client.generateJson<{ overall_band: number }>({ contents: 'grade this' });
+
+    expect(result.data.overall_band).toBe(7);
+    expect(result.model).toBe('b');
+  });
+
+  it('keeps a running token total across calls', async () => {
+    const provider = createFakeProvider([{ text: 'one', usage: usage(100, 20) }, { text: 'two', usage: usage(50, 10) }]);
+    const client = createLlmClient({ provider, models: ['a'] });
+
+    await client.generateText({ contents: '1' });
+    await client.generateText({ contents: '2' });
+
+    expect(client.usage).toEqual({ promptTokens: 150, outputTokens: 30, totalTokens: 180 });
+  });
+
+  it('reports a timeout as a network error', async () => {
+    vi.useFakeTimers();
+    const provider = {
+      generate: ({ signal }: { signal?: AbortSignal }) =>
+        new Promise<never>((_, reject) => signal?.addEventListener('abort', () => reject(new Error('aborted')))),
+    };
+    const client = createLlmClient({ provider, models: ['a'], timeoutMs: 1000 });
+
+    const pending = client.generateText({ contents: 'hi' });
+    const assertion = expect(pending).rejects.toMatchObject({ kind: 'network', message: 'a timed out after 1000ms' });
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+    vi.useRealTimers();
+  });
+});
+
+describe('generateValidated', () => {
+  const hasBand: Validator<{ overall_band: number }> = value => {
+    const band = (value as { overall_band?: unknown })?.overall_band;
+    return typeof band === 'number'
+      ? { ok: true, value: { overall_band: band } }
+      : { ok: false, issues: [{ path: 'overall_band', message: 'Expected number' }] };
+  };
+
+  it('reports non-JSON output as a root issue', () => {
+    expect(validateModelOutput('Overall Band Score: 6', hasBand)).toEqual({
+      ok: false,
+      issues: [{ path: '', message: 'Response is not valid JSON' }],
+    });
+  });
+
+  it('returns valid output without a repair turn', async () => {
+    const provider = createFakeProvider(['{"overall_band": 6.5}']);
+    const client = createLlmClient({ provider, models: ['a'] });
+
+    const result = await client.generateValidated({ contents: 'grade' }, hasBand);
+
+    expect(result).toMatchObject({ data: { overall_band: 6.5 }, repaired: false });
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it('sends the issues back to the answering model and accepts the repair', async () => {
+    const provider = createFakeProvider([
+      new LlmError('rate_limited', 'busy'),
+      { text: '{"overall_band": "six"}', usage: usage(100, 10) },
+      { text: '{"overall_band": 6}', usage: usage(120, 8) },
+    ]);
+    const client = createLlmClient({ provider, models: ['a', 'b', 'c'] });
+
+    const result = await client.generateValidated({ contents: [{ parts: [{ text: 'grade' }] }] }, hasBand);
+
+    expect(result).toMatchObject({ data: { overall_band: 6 }, model: 'b', repaired: true });
+    expect(result.usage).toEqual(usage(220, 18));
+    const repairCall = provider.calls[2];
+    expect(repairCall.model).toBe('b');
+    expect(repairCall.contents.map(c => c.role)).toEqual(['user', 'model', 'user']);
+    expect(repairCall.contents[1].parts[0].text).toBe('{"overall_band": "six"}');
+    expect(repairCall.contents[2].parts[0].text).toContain('- overall_band: Expected number');
+  });
+
+  it('throws LlmValidationError with the issues when the repair also fails', async () => {
+    const provider = createFakeProvider(['{"band": 6}']);
+    const client = createLlmClient({ provider, models: ['a'] });
+
+    const error = await client.generateValidated({ contents: 'grade' }, hasBand).catch(e => e);
+
+    expect(error).toBeInstanceOf(LlmValidationError);
+    expect(error.kind).toBe('unknown');
+    expect(error.toFailure()).toEqual({
+      message: 'a returned output that does not match the expected schema',
+      model: 'a',
+      issues: [{ path: 'overall_band', message: 'Expected number' }],
+      raw_response: '{"band": 6}',
+    });
+    expect(provider.calls).toHaveLength(2);
+  });
+});
+
+describe('createGeminiProvider', () => {
+  it('joins text parts and reads usageMetadata', async () => {
+    const fetchImpl = vi.fn(async (_url: string, _init: RequestInit) => new Response(JSON.stringify({
+      candidates: [{ content: { parts: [{ text: 'part one' }, { text: 'part two' }] } }],
+      usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 8, totalTokenCount: 20 },
+    })));
+    const provider = createGeminiProvider('secret key', fetchImpl);
+
+    const response = await provider.generate({ model: 'gemini-2.5-flash', contents: [{ parts: [{ text: 'hi' }] }] });
+
+    expect(response).toEqual({ text: 'part one\npart two', usage: usage(12, 8) });
+    expect(fetchImpl.mock.calls[0][0]).toContain('models/gemini-2.5-flash:generateContent?key=secret%20key');
+  });
+
+  it('throws a classified LlmError for HTTP failures', async () => {
+    const fetchImpl = async () => new Response('API key not valid. Please pass a valid API key.', { status: 400 });
+    const provider = createGeminiProvider('key', fetchImpl);
+
+    await expect(provider.generate({ model: 'm', contents: [] })).rejects.toMatchObject({
+      name: 'LlmError',
+      kind: 'invalid_key',
+      status: 400,
+      model: 'm',
+    });
+  });
+});
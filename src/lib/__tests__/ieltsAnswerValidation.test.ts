@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchIeltsAnswer,
+  matchAnswer,
+  checkIeltsAnswer,
+  resolveAnswerMatchingConfig,
+  parseAnswerMatchingConfig,
+  STRICT_SPELLING_DISABLED_RULES,
+  parseWordLimit,
+  resolveWordLimit,
+  checkWordLimit,
+  describeWordLimit,
+  scoreMultipleChoiceMultiple,
+  multiAnswerRange,
+  totalMarks,
+} from '../ieltsAnswerValidation';
+
+describe('matchIeltsAnswer', () => {
+  it('reports the exact rule for identical answers', () => {
+    const result = matchIeltsAnswer('Library', 'library');
+    expect(result.isCorrect).toBe(true);
+    expect(result.ruleId).toBe('exact');
+  });
+
+  it('accepts British/American spelling variants by default', () => {
+    const result = matchIeltsAnswer('color', 'colour');
+    expect(result.isCorrect).toBe(true);
+    expect(result.ruleId).toBe('spelling_variant');
+    expect(result.explanation).toBeTruthy();
+  });
+
+  it('rejects spelling variants under the strict spelling preset', () => {
+    const config = { disabledRules: STRICT_SPELLING_DISABLED_RULES };
+    expect(checkIeltsAnswer('color', 'colour', config)).toBe(false);
+    expect(checkIeltsAnswer('colour', 'colour', config)).toBe(true);
+  });
+
+  it('accepts terms from a custom equivalence table', () => {
+    const config = { customEquivalences: [{ name: 'Buildings', entries: [['cinema', 'movie theatre']] }] };
+    expect(checkIeltsAnswer('movie theatre', 'cinema')).toBe(false);
+    const result = matchIeltsAnswer('movie theatre', 'cinema', config);
+    expect(result.isCorrect).toBe(true);
+    expect(result.ruleId).toBe('custom_equivalence');
+  });
+
+  it('returns no rule for wrong answers', () => {
+    const result = matchIeltsAnswer('bridge', 'tunnel');
+    expect(result.isCorrect).toBe(false);
+    expect(result.ruleId).toBeNull();
+  });
+});
+
+describe('resolveAnswerMatchingConfig', () => {
+  it('lets the group override disabled rules and accumulates tables', () => {
+    const test = parseAnswerMatchingConfig({
+      disabledRules: ['spelling_variant'],
+      customEquivalences: [{ name: 'A', entries: [['lift', 'elevator']] }],
+    });
+    const group = parseAnswerMatchingConfig({
+      disabledRules: [],
+      customEquivalences: [{ name: 'B', entries: [['flat', 'apartment']] }],
+    });
+    const resolved = resolveAnswerMatchingConfig(test, group);
+    expect(resolved.disabledRules).toEqual([]);
+    expect(resolved.customEquivalences).toHaveLength(2);
+  });
+
+  it('falls back to the test config when the group inherits', () => {
+    const test = parseAnswerMatchingConfig({ disabledRules: ['spelling_variant'] });
+    const resolved = resolveAnswerMatchingConfig(test, parseAnswerMatchingConfig(null));
+    expect(resolved.disabledRules).toEqual(['spelling_variant']);
+  });
+});
+
+describe('matchAnswer', () => {
+  it('compares option ids case-insensitively for matching questions', () => {
+    const result = matchAnswer('c', 'C', 'MATCHING_HEADINGS');
+    expect(result.isCorrect).toBe(true);
+  });
+});
+
+describe('word limits', () => {
+  it('parses common IELTS instructions', () => {
+    expect(parseWordLimit('Write NO MORE THAN TWO WORDS AND/OR A NUMBER for each answer.'))
+      .toEqual({ maxWords: 2, maxNumbers: 1 });
+    expect(parseWordLimit('Choose **ONE WORD ONLY** from the passage')).toEqual({ maxWords: 1, maxNumbers: 0 });
+    expect(parseWordLimit('Write A NUMBER for each answer.')).toEqual({ maxWords: 0, maxNumbers: 1 });
+    expect(parseWordLimit('Choose the correct letter, A, B or C.')).toBeNull();
+    expect(parseWordLimit('The passage has a number of paragraphs, A-F.')).toBeNull();
+  });
+
+  it('prefers structured limits over the instruction', () => {
+    const group = { max_words: 3, max_numbers: null, instruction: 'Write ONE WORD ONLY' };
+    expect(resolveWordLimit(group)).toEqual({ maxWords: 3, maxNumbers: 0 });
+    expect(resolveWordLimit({ instruction: null }, 'NO MORE THAN THREE WORDS')).toEqual({ maxWords: 3, maxNumbers: 0 });
+  });
+
+  it('counts numbers separately only when the instruction allows a number', () => {
+    const twoAndNumber = { maxWords: 2, maxNumbers: 1 };
+    expect(checkWordLimit('15 green apples', twoAndNumber).valid).toBe(true);
+    expect(checkWordLimit('three green apples', twoAndNumber).valid).toBe(false);
+
+    const oneWord = { maxWords: 1, maxNumbers: 0 };
+    expect(checkWordLimit('15 apples', oneWord).valid).toBe(false);
+    expect(checkWordLimit('apples', oneWord).reason).toBeNull();
+  });
+
+  it('describes limits in IELTS wording', () => {
+    expect(describeWordLimit({ maxWords: 2, maxNumbers: 1 })).toBe('NO MORE THAN TWO WORDS AND/OR A NUMBER');
+    expect(describeWordLimit({ maxWords: 1, maxNumbers: 0 })).toBe('ONE WORD ONLY');
+  });
+
+  it('marks over-limit answers wrong with a reason', () => {
+    const limit = { maxWords: 2, maxNumbers: 0 };
+    const result = matchAnswer('the public library', 'public library', 'SENTENCE_COMPLETION', null, limit);
+    expect(result.isCorrect).toBe(false);
+    expect(result.wordLimitExceeded).toBe(true);
+    expect(result.explanation).toContain('NO MORE THAN TWO WORDS');
+    expect(matchAnswer('public library', 'public library', 'SENTENCE_COMPLETION', null, limit).isCorrect).toBe(true);
+  });
+
+  it('ignores limits for option-id question types', () => {
+    expect(matchAnswer('B', 'B', 'MULTIPLE_CHOICE', null, { maxWords: 0, maxNumbers: 1 }).isCorrect).toBe(true);
+  });
+});
+
+describe('scoreMultipleChoiceMultiple', () => {
+  it('awards one mark per correct letter in any order', () => {
+    const result = scoreMultipleChoiceMultiple('C, A', 'A,C', [21, 22]);
+    expect(result.score).toBe(2);
+    expect(result.isFullyCorrect).toBe(true);
+    expect(result.marks.map(m => m.questionNumber)).toEqual([21, 22]);
+  });
+
+  it('gives partial credit for one correct letter', () => {
+    const result = scoreMultipleChoiceMultiple('A,D', 'A,C', [21, 22]);
+    expect(result.score).toBe(1);
+    expect(result.maxScore).toBe(2);
+    expect(result.marks).toEqual([
+      { questionNumber: 21, userAnswer: 'A', isCorrect: true },
+      { questionNumber: 22, userAnswer: 'D', isCorrect: false },
+    ]);
+  });
+
+  it('cancels a mark for each extra letter selected', () => {
+    expect(scoreMultipleChoiceMultiple('A,B,C', 'A,C', [21, 22]).score).toBe(1);
+    expect(scoreMultipleChoiceMultiple('A,B,C,D,E', 'A,C', [21, 22]).score).toBe(0);
+  });
+
+  it('uses the sub-group range when present', () => {
+    expect(multiAnswerRange({ question_number: 23, sub_group_start: 23, sub_group_end: 24 }, { start_question: 21, end_question: 24 }))
+      .toEqual([23, 24]);
+    expect(multiAnswerRange({ question_number: 21 }, { start_question: 21, end_question: 23 })).toEqual([21, 22, 23]);
+  });
+
+  it('totals grouped and single results in marks', () => {
+    expect(totalMarks([
+      { isCorrect: false, partialScore: 1, maxScore: 2 },
+      { isCorrect: true },
+      { isCorrect: false },
+    ])).toEqual({ score: 2, total: 4 });
+  });
+});
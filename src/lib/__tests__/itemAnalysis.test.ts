@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeItems,
+  compareSuspiciousItems,
+  getItemFlags,
+  isSuspiciousItem,
+  type ItemStats,
+  type MarkedItem,
+  type SuspiciousItem,
+} from '../itemAnalysis';
+
+// One submission: question number → answer, correct when it matches the key
+const KEY: Record<number, string> = { 1: 'river', 2: 'bridge', 3: 'tower', 4: 'gate' };
+const submission = (answers: Record<number, string>): { questionResults: MarkedItem[] } => ({
+  questionResults: Object.entries(KEY).map(([n, correct]) => ({
+    questionNumber: Number(n),
+    correctAnswer: correct,
+    userAnswer: answers[Number(n)] ?? '',
+    isCorrect: answers[Number(n)] === correct,
+  })),
+});
+
+const stats = (overrides: Partial<ItemStats>): ItemStats => ({
+  questionNumber: 1,
+  questionText: '',
+  correctAnswer: 'river',
+  attempts: 40,
+  facility: 0.6,
+  discrimination: 0.4,
+  blankRate: 0,
+  commonWrongAnswers: [],
+  ...overrides,
+});
+
+describe('analyzeItems', () => {
+  const submissions = [
+    submission({ 1: 'river', 2: 'bridge', 3: 'castle', 4: 'gate' }),
+    submission({ 1: 'river', 2: 'bridge', 3: 'castle', 4: 'gate' }),
+    submission({ 1: 'river', 2: 'road', 3: 'tower', 4: 'door' }),
+    submission({ 1: 'lake', 2: '', 3: 'tower', 4: 'door' }),
+  ];
+  const [q1, q2, q3] = analyzeItems(submissions);
+
+  it('computes facility, blank rate and common wrong answers', () => {
+    expect(q1).toMatchObject({ questionNumber: 1, attempts: 4, facility: 0.75, blankRate: 0 });
+    expect(q1.commonWrongAnswers).toEqual([{ answer: 'lake', count: 1 }]);
+    expect(q2.blankRate).toBe(0.25);
+    expect(q3.commonWrongAnswers).toEqual([{ answer: 'castle', count: 2 }]);
+  });
+
+  it('gives items that strong candidates miss a negative discrimination', () => {
+    expect(q2.discrimination).toBeGreaterThan(0);
+    expect(q3.discrimination).toBeLessThan(0);
+  });
+
+  it('has no discrimination when everyone got the same mark', () => {
+    const [item] = analyzeItems([submission({ 1: 'river' }), submission({ 1: 'river' })]);
+    expect(item.discrimination).toBeNull();
+  });
+});
+
+describe('getItemFlags', () => {
+  it('does not flag items with too few attempts', () => {
+    expect(getItemFlags(stats({ attempts: 3, facility: 0 }))).toEqual([]);
+  });
+
+  it('flags broken items before merely easy ones', () => {
+    expect(getItemFlags(stats({ discrimination: -0.3, facility: 0.1 }))).toEqual(['negative_discrimination', 'too_hard']);
+    expect(getItemFlags(stats({ facility: 0.98, discrimination: 0.1 }))).toEqual(['low_discrimination', 'too_easy']);
+    expect(getItemFlags(stats({ blankRate: 0.5 }))).toEqual(['high_blank_rate']);
+  });
+
+  it('treats only broken-looking items as suspicious', () => {
+    expect(isSuspiciousItem(['too_easy', 'low_discrimination'])).toBe(false);
+    expect(isSuspiciousItem(['high_blank_rate'])).toBe(true);
+  });
+});
+
+describe('compareSuspiciousItems', () => {
+  it('orders by the most severe flag', () => {
+    const item = (flags: SuspiciousItem['flags'], discrimination: number): SuspiciousItem => ({
+      ...stats({ discrimination }),
+      module: 'reading',
+      testId: 't',
+      testTitle: 'Test',
+      flags,
+    });
+    const sorted = [item(['too_hard'], 0.3), item(['negative_discrimination'], -0.1), item(['negative_discrimination'], -0.5)]
+      .sort(compareSuspiciousItems);
+    expect(sorted.map(i => i.discrimination)).toEqual([-0.5, -0.1, 0.3]);
+  });
+});
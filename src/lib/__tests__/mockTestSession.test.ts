@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  orderSections,
+  createSessionState,
+  totalMinutes,
+  getNextSection,
+  startSection,
+  recordSubmission,
+  setSectionBand,
+  breakRemainingSeconds,
+  buildReport,
+  getSectionTestPath,
+} from '../mockTestSession';
+
+const now = new Date('2026-01-08T09:00:00Z');
+const allSections = orderSections({ speaking: 's', writing: 'w', reading: 'r', listening: 'l' });
+
+describe('session sequencing', () => {
+  it('orders available sections in exam order', () => {
+    expect(allSections).toEqual(['listening', 'reading', 'writing', 'speaking']);
+    expect(orderSections({ writing: 'w', listening: 'l', reading: null })).toEqual(['listening', 'writing']);
+    expect(totalMinutes(allSections)).toBe(164);
+  });
+
+  it('resumes the section in progress after a refresh', () => {
+    let state = createSessionState(allSections);
+    expect(getNextSection(state)).toBe('listening');
+
+    state = recordSubmission(startSection(state, 'listening', now), 'listening', { submissionIds: ['a'], band: 7 }, now);
+    state = startSection(state, 'reading', now);
+    // Persisted state is plain JSON
+    const restored = JSON.parse(JSON.stringify(state));
+    expect(getNextSection(restored)).toBe('reading');
+
+    const resumed = startSection(restored, 'reading', new Date('2026-01-08T09:40:00Z'));
+    expect(resumed.section_results.reading?.started_at).toBe(now.toISOString());
+  });
+
+  it('starts the break after writing only', () => {
+    let state = createSessionState(allSections);
+    state = recordSubmission(state, 'listening', { submissionIds: ['a'], band: 7 }, now);
+    expect(state.break_until).toBeNull();
+
+    state = recordSubmission(state, 'writing', { submissionIds: ['b', 'c'] }, now);
+    expect(breakRemainingSeconds(state, now)).toBe(600);
+    expect(breakRemainingSeconds(state, new Date('2026-01-08T09:15:00Z'))).toBe(0);
+
+    expect(startSection(state, 'reading', now).break_until).toBeNull();
+  });
+
+  it('skips the break when writing is the last section', () => {
+    const state = recordSubmission(createSessionState(['writing']), 'writing', { submissionIds: ['b'] }, now);
+    expect(state.break_until).toBeNull();
+    expect(getNextSection(state)).toBeNull();
+  });
+});
+
+describe('buildReport', () => {
+  it('waits for every band before giving an overall band', () => {
+    let state = createSessionState(allSections);
+    state = recordSubmission(state, 'listening', { submissionIds: ['a'], band: 6.5 }, now);
+    state = recordSubmission(state, 'reading', { submissionIds: ['b'], band: 6.5 }, now);
+    state = recordSubmission(state, 'writing', { submissionIds: ['c', 'd'] }, now);
+    state = recordSubmission(state, 'speaking', { submissionIds: ['e'] }, now);
+
+    let report = buildReport(state);
+    expect(report.awaitingEvaluation).toEqual(['writing', 'speaking']);
+    expect(report.overallBand).toBeNull();
+
+    state = setSectionBand(setSectionBand(state, 'writing', 5), 'speaking', 7);
+    report = buildReport(state);
+    expect(report.isComplete).toBe(true);
+    expect(report.overallBand).toBe(6.5);
+  });
+
+  it('ignores bands for sections never submitted', () => {
+    const state = setSectionBand(createSessionState(allSections), 'speaking', 7);
+    expect(state.section_results.speaking).toBeUndefined();
+  });
+});
+
+describe('getSectionTestPath', () => {
+  it('links the test page back to the session', () => {
+    expect(getSectionTestPath('reading', 'r1', 's1')).toBe('/reading/test/r1?mockSession=s1');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { MAX_REPLAY_ATTEMPTS, hasExhaustedRetries, nextReplayAt, shouldQueueOffline } from '../offlineQueue';
+
+describe('shouldQueueOffline', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('queues network failures', () => {
+    expect(shouldQueueOffline({ message: 'TypeError: Failed to fetch' })).toBe(true);
+    expect(shouldQueueOffline(new Error('NetworkError when attempting to fetch resource.'))).toBe(true);
+    expect(shouldQueueOffline({ name: 'FunctionsFetchError', message: 'Failed to send a request to the Edge Function' })).toBe(true);
+  });
+
+  it('reports other errors normally', () => {
+    expect(shouldQueueOffline({ message: 'duplicate key value violates unique constraint' })).toBe(false);
+    expect(shouldQueueOffline(null)).toBe(false);
+  });
+
+  it('queues anything while the browser is offline', () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    expect(shouldQueueOffline(null)).toBe(true);
+  });
+});
+
+describe('nextReplayAt', () => {
+  const lastAttemptAt = '2026-01-15T09:00:00.000Z';
+  const last = new Date(lastAttemptAt).getTime();
+
+  it('replays new submissions straight away', () => {
+    expect(nextReplayAt({ attempts: 0 })).toBe(0);
+  });
+
+  it('backs off exponentially after each failure, up to a cap', () => {
+    expect(nextReplayAt({ attempts: 1, lastAttemptAt })).toBe(last + 30_000);
+    expect(nextReplayAt({ attempts: 3, lastAttemptAt })).toBe(last + 120_000);
+    expect(nextReplayAt({ attempts: MAX_REPLAY_ATTEMPTS - 1, lastAttemptAt })).toBeLessThanOrEqual(last + 30 * 60_000);
+  });
+
+  it('stops retrying automatically after too many failures', () => {
+    expect(hasExhaustedRetries({ attempts: MAX_REPLAY_ATTEMPTS - 1 })).toBe(false);
+    expect(hasExhaustedRetries({ attempts: MAX_REPLAY_ATTEMPTS })).toBe(true);
+    expect(nextReplayAt({ attempts: MAX_REPLAY_ATTEMPTS, lastAttemptAt })).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  campaignStatus,
+  describePromotionReward,
+  generatePromotionCode,
+  normalizePromotionCode,
+  promotionPlanStart,
+  redemptionsToCsv,
+} from '../promotions';
+
+const campaign = {
+  is_active: true,
+  starts_at: '2026-01-01T00:00:00Z',
+  ends_at: '2026-02-01T00:00:00Z',
+  max_redemptions: 100,
+};
+
+describe('campaignStatus', () => {
+  const now = new Date('2026-01-15T00:00:00Z');
+
+  it('follows the validity window and the redemption cap', () => {
+    expect(campaignStatus(campaign, 10, now)).toBe('active');
+    expect(campaignStatus(campaign, 100, now)).toBe('exhausted');
+    expect(campaignStatus(campaign, 0, new Date('2025-12-31T00:00:00Z'))).toBe('scheduled');
+    expect(campaignStatus(campaign, 0, new Date('2026-02-01T00:00:00Z'))).toBe('ended');
+    expect(campaignStatus({ ...campaign, is_active: false }, 0, now)).toBe('paused');
+  });
+
+  it('treats open dates and a missing cap as unlimited', () => {
+    expect(campaignStatus({ is_active: true, starts_at: null, ends_at: null, max_redemptions: null }, 5000, now)).toBe('active');
+  });
+});
+
+describe('promotion codes', () => {
+  it('generates prefixed codes without easily confused characters', () => {
+    const code = generatePromotionCode('IELTS', 8);
+    expect(code).toMatch(/^IELTS-[A-HJ-NP-Z2-9]{8}$/);
+    expect(generatePromotionCode('', 4, length => new Uint8Array(length))).toBe('AAAA');
+  });
+
+  it('normalizes what users type', () => {
+    expect(normalizePromotionCode('  spring30 ')).toBe('SPRING30');
+  });
+
+  it('describes rewards', () => {
+    expect(describePromotionReward({ reward_type: 'credits', reward_amount: 50 })).toBe('50 bonus credits');
+    expect(describePromotionReward({ reward_type: 'plan_days', reward_amount: 30 }, 'Pro')).toBe('30 days of Pro');
+    expect(describePromotionReward({ reward_type: 'plan_days', reward_amount: 1 })).toBe('1 day of plan access');
+  });
+});
+
+describe('promotionPlanStart', () => {
+  const now = new Date('2026-01-15T00:00:00Z');
+  const bookedUntil = new Date('2026-02-10T00:00:00Z');
+  const plus = { id: 'plus', price_monthly: 9 };
+  const pro = { id: 'pro', price_monthly: 19 };
+
+  it('applies a pricier plan from now', () => {
+    expect(promotionPlanStart(pro, plus, bookedUntil, now)).toEqual(now);
+    expect(promotionPlanStart(plus, null, null, now)).toEqual(now);
+  });
+
+  it('queues the same or a cheaper plan behind the paid period', () => {
+    expect(promotionPlanStart(plus, plus, bookedUntil, now)).toEqual(bookedUntil);
+    expect(promotionPlanStart(plus, pro, bookedUntil, now)).toEqual(bookedUntil);
+    expect(promotionPlanStart({ id: 'basic', price_monthly: 9 }, plus, bookedUntil, now)).toEqual(bookedUntil);
+  });
+});
+
+describe('redemptionsToCsv', () => {
+  it('writes a header and quotes fields that need it', () => {
+    const csv = redemptionsToCsv([
+      { redeemedAt: '2026-01-15T09:00:00Z', code: 'IELTS-ABCD2345', email: 'a@example.com', userId: 'u1', reward: '30 days of Pro' },
+      { redeemedAt: '2026-01-15T10:00:00Z', code: 'SPRING30', email: null, userId: 'u2', reward: 'Say "hi", then go' },
+    ]);
+    expect(csv.split('\r\n')).toEqual([
+      'Redeemed At,Code,Email,User ID,Reward',
+      '2026-01-15T09:00:00Z,IELTS-ABCD2345,a@example.com,u1,30 days of Pro',
+      '2026-01-15T10:00:00Z,SPRING30,,u2,"Say ""hi"", then go"',
+    ]);
+  });
+});
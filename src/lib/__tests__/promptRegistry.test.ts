@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { zodValidator } from '../aiSchemas';
+import { recordPromptFixture, replayPromptFixture } from '../promptHarness';
+import {
+  combinePromptVersions,
+  createPromptRegistry,
+  definePrompt,
+  promptFingerprint,
+  renderPrompt,
+  type AnyPromptTemplate,
+} from '../promptRegistry';
+import { promptRegistry } from '../prompts';
+
+const greeting = (version: number, wording = 'Write a greeting for') => definePrompt({
+  id: 'test.greeting',
+  version,
+  description: 'Test prompt',
+  system: 'Reply with JSON only.',
+  render: (v: { name: string }) => `${wording} ${v.name}. Respond with {"greeting": string}.`,
+  validator: () => zodValidator(z.object({ greeting: z.string().min(1) })),
+});
+
+const registryOf = (template: ReturnType<typeof greeting>) => createPromptRegistry([template as AnyPromptTemplate]);
+
+describe('promptRegistry', () => {
+  it('renders the text, system message and id@version', () => {
+    expect(renderPrompt(greeting(2), { name: 'Ana' })).toEqual({
+      text: 'Write a greeting for Ana. Respond with {"greeting": string}.',
+      system: 'Reply with JSON only.',
+      version: 'test.greeting@2',
+    });
+  });
+
+  it('rejects malformed ids, versions and duplicates', () => {
+    expect(() => definePrompt({ ...greeting(1), id: 'Test Greeting' })).toThrow('Invalid prompt id');
+    expect(() => definePrompt({ ...greeting(1), version: 0 })).toThrow('positive integer version');
+    expect(() => createPromptRegistry([greeting(1), greeting(2)] as AnyPromptTemplate[])).toThrow('registered twice');
+  });
+
+  it('registers every app prompt under a unique id', () => {
+    const ids = promptRegistry.list().map(t => t.id);
+    expect(ids).toContain('practice.reading');
+    expect(ids).toContain('evaluation.writing-submission');
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('fingerprints the rendered text and system message', () => {
+    const base = promptFingerprint({ text: 'Grade this', system: 'Be strict' });
+    expect(base).toMatch(/^[0-9a-f]{8}$/);
+    expect(promptFingerprint({ text: 'Grade this', system: 'Be strict' })).toBe(base);
+    expect(promptFingerprint({ text: 'Grade this.', system: 'Be strict' })).not.toBe(base);
+    expect(promptFingerprint({ text: 'Grade this' })).not.toBe(base);
+  });
+
+  it('combines versions without duplicates', () => {
+    expect(combinePromptVersions(['a@1', 'b@1', 'a@1', undefined])).toBe('a@1,b@1');
+    expect(combinePromptVersions([null])).toBeNull();
+  });
+});
+
+describe('replayPromptFixture', () => {
+  const fixture = recordPromptFixture(greeting(1), 'greeting', { name: 'Ana' }, ['{"greeting": "Hello Ana"}']);
+
+  it('passes a fixture recorded against the current template', async () => {
+    expect(await replayPromptFixture(registryOf(greeting(1)), fixture)).toEqual({
+      name: 'greeting',
+      ok: true,
+      problems: [],
+      repaired: false,
+    });
+  });
+
+  it('flags wording changes that kept the old version', async () => {
+    const result = await replayPromptFixture(registryOf(greeting(1, 'Write a short greeting for')), fixture);
+
+    expect(result.ok).toBe(false);
+    expect(result.problems[0]).toContain('Prompt text changed without a version bump');
+    expect(result.problems[0]).toContain('bump test.greeting to version 2');
+  });
+
+  it('asks for a re-record after a version bump', async () => {
+    const result = await replayPromptFixture(registryOf(greeting(2, 'Write a short greeting for')), fixture);
+
+    expect(result.problems).toEqual([
+      'Recorded against test.greeting@1 but the registry has @2; re-record this fixture',
+    ]);
+  });
+
+  it('replays the repair turn and reports replies that still fail', async () => {
+    const repaired = await replayPromptFixture(registryOf(greeting(1)), {
+      ...fixture,
+      responses: ['{"greeting": ""}', '{"greeting": "Hi Ana"}'],
+    });
+    expect(repaired).toMatchObject({ ok: true, repaired: true });
+
+    const broken = await replayPromptFixture(registryOf(greeting(1)), { ...fixture, responses: ['Hello Ana'] });
+    expect(broken.problems).toEqual(['Recorded response fails validation: (root): Response is not valid JSON']);
+  });
+
+  it('reports unknown prompts', async () => {
+    const result = await replayPromptFixture(registryOf(greeting(1)), { ...fixture, prompt: 'test.missing' });
+
+    expect(result.problems).toEqual(['Prompt test.missing is not registered']);
+  });
+});
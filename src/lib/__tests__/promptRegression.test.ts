@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { promptRegistry } from '../prompts';
+import { replayPromptFixture, type PromptFixture } from '../promptHarness';
+
+// Recorded model replies per prompt; re-record with recordPromptFixture after bumping a template version
+const fixtures = Object.values(
+  import.meta.glob<PromptFixture>('./fixtures/prompts/*.json', { eager: true, import: 'default' }),
+);
+
+describe('prompt regression fixtures', () => {
+  it('covers at least one generation and one evaluation prompt', () => {
+    expect(fixtures.some(f => f.prompt.startsWith('practice.'))).toBe(true);
+    expect(fixtures.some(f => f.prompt.startsWith('evaluation.'))).toBe(true);
+  });
+
+  it.each(fixtures.map(f => [f.name, f] as const))('%s', async (_name, fixture) => {
+    const result = await replayPromptFixture(promptRegistry, fixture);
+
+    expect(result.problems).toEqual([]);
+  });
+});
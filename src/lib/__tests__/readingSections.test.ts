@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPassageLabel,
+  validateGtSectionLayout,
+  DEFAULT_GT_SECTION_LAYOUT,
+} from '../readingSections';
+
+const gtPassages = DEFAULT_GT_SECTION_LAYOUT.map((section, i) => ({
+  passage_number: i + 1,
+  section_number: section,
+}));
+
+describe('getPassageLabel', () => {
+  it('uses parts for Academic tests', () => {
+    expect(getPassageLabel(gtPassages[1], gtPassages, 'academic')).toBe('Part 2');
+  });
+
+  it('labels GT texts within a section', () => {
+    expect(getPassageLabel(gtPassages[0], gtPassages, 'general')).toBe('Section 1 · Text A');
+    expect(getPassageLabel(gtPassages[3], gtPassages, 'general')).toBe('Section 2 · Text B');
+    expect(getPassageLabel(gtPassages[4], gtPassages, 'general')).toBe('Section 3');
+  });
+
+  it('falls back to parts for GT passages without a section', () => {
+    const legacy = [{ passage_number: 1, section_number: null }];
+    expect(getPassageLabel(legacy[0], legacy, 'general')).toBe('Part 1');
+  });
+});
+
+describe('validateGtSectionLayout', () => {
+  it('accepts the default 2 + 2 + 1 layout', () => {
+    expect(validateGtSectionLayout(gtPassages)).toEqual([]);
+  });
+
+  it('accepts three texts in Section 1', () => {
+    const layout = [1, 1, 1, 2, 2, 3].map((section, i) => ({ passage_number: i + 1, section_number: section }));
+    expect(validateGtSectionLayout(layout)).toEqual([]);
+  });
+
+  it('reports missing sections and unassigned texts', () => {
+    const problems = validateGtSectionLayout([
+      { passage_number: 1, section_number: 1 },
+      { passage_number: 2, section_number: null },
+    ]);
+    expect(problems).toContain('1 text(s) not assigned to a section');
+    expect(problems).toContain('Section 1 should have 2-3 text(s), found 1');
+    expect(problems).toContain('Section 3 should have 1 text(s), found 0');
+  });
+
+  it('reports sections out of order', () => {
+    const layout = [1, 1, 3, 2, 2].map((section, i) => ({ passage_number: i + 1, section_number: section }));
+    expect(validateGtSectionLayout(layout)).toEqual(['Texts must be ordered by section']);
+  });
+});
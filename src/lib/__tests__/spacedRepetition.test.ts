@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  scheduleReview,
+  nextIntervalDays,
+  isDue,
+  sortByDue,
+  DEFAULT_EASE_FACTOR,
+  MIN_EASE_FACTOR,
+  type SchedulingState,
+} from '../spacedRepetition';
+
+const NOW = new Date('2026-01-10T09:00:00Z');
+
+const newCard = (): SchedulingState => ({
+  ease_factor: DEFAULT_EASE_FACTOR,
+  interval_days: 0,
+  repetitions: 0,
+  lapses: 0,
+  review_count: 0,
+  correct_count: 0,
+  due_at: null,
+});
+
+describe('spacedRepetition', () => {
+  describe('scheduleReview', () => {
+    it('should grow the interval on consecutive "good" reviews', () => {
+      const first = scheduleReview(newCard(), 'good', NOW);
+      const second = scheduleReview(first, 'good', NOW);
+      const third = scheduleReview(second, 'good', NOW);
+
+      expect(first.interval_days).toBe(1);
+      expect(second.interval_days).toBe(6);
+      expect(third.interval_days).toBe(15);
+      expect(third.status).toBe('reviewing');
+      expect(third.correct_count).toBe(3);
+    });
+
+    it('should mark a card mastered once the interval reaches three weeks', () => {
+      let state = scheduleReview(newCard(), 'good', NOW);
+      for (let i = 0; i < 3; i++) state = scheduleReview(state, 'good', NOW);
+
+      expect(state.interval_days).toBeGreaterThanOrEqual(21);
+      expect(state.status).toBe('mastered');
+      // Mastered cards still get a due date so they resurface
+      expect(new Date(state.due_at).getTime()).toBeGreaterThan(NOW.getTime());
+    });
+
+    it('should send a lapsed card back to learning and lower its ease', () => {
+      const mastered: SchedulingState = { ...newCard(), interval_days: 30, repetitions: 4, review_count: 4, correct_count: 4 };
+      const result = scheduleReview(mastered, 'again', NOW);
+
+      expect(result.status).toBe('learning');
+      expect(result.repetitions).toBe(0);
+      expect(result.lapses).toBe(1);
+      expect(result.ease_factor).toBe(2.3);
+      expect(result.correct_count).toBe(4);
+      expect(result.review_count).toBe(5);
+      expect(new Date(result.due_at).getTime() - NOW.getTime()).toBe(10 * 60 * 1000);
+    });
+
+    it('should never drop the ease factor below the minimum', () => {
+      let state: SchedulingState = { ...newCard(), ease_factor: MIN_EASE_FACTOR };
+      state = scheduleReview(state, 'again', NOW);
+      state = scheduleReview(state, 'hard', NOW);
+
+      expect(state.ease_factor).toBe(MIN_EASE_FACTOR);
+    });
+  });
+
+  describe('nextIntervalDays', () => {
+    it('should order grades again < hard < good < easy for a reviewed card', () => {
+      const state = { ease_factor: 2.5, interval_days: 10, repetitions: 3 };
+      const intervals = (['again', 'hard', 'good', 'easy'] as const).map(g => nextIntervalDays(state, g));
+
+      expect(intervals).toEqual([...intervals].sort((a, b) => a - b));
+      expect(new Set(intervals).size).toBe(4);
+    });
+  });
+
+  describe('due queue', () => {
+    it('should treat new cards and cards due later today as due', () => {
+      expect(isDue({ due_at: null }, NOW)).toBe(true);
+      expect(isDue({ due_at: new Date(NOW.getTime() + 60 * 60 * 1000).toISOString() }, NOW)).toBe(true);
+      expect(isDue({ due_at: new Date(NOW.getTime() + 3 * 24 * 60 * 60 * 1000).toISOString() }, NOW)).toBe(false);
+    });
+
+    it('should sort the most overdue cards first and new cards last', () => {
+      const cards = [
+        { id: 'new', due_at: null },
+        { id: 'today', due_at: '2026-01-10T08:00:00Z' },
+        { id: 'overdue', due_at: '2026-01-01T08:00:00Z' },
+      ];
+
+      expect(sortByDue(cards).map(c => c.id)).toEqual(['overdue', 'today', 'new']);
+    });
+  });
+});
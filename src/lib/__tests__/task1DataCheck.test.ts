@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { chartDataPoints, checkTask1Data, extractFigures } from '../task1DataCheck';
+import type { IELTSChartData } from '../ieltsChartData';
+
+const lineGraph: IELTSChartData = {
+  type: 'LINE_GRAPH',
+  title: 'Car ownership, 2000-2020 (millions)',
+  series: [
+    { name: 'France', data: [{ x: '2000', y: 20 }, { x: '2010', y: 30 }, { x: '2020', y: 40 }] },
+    { name: 'Germany', data: [{ x: '2000', y: 35 }, { x: '2010', y: 38 }, { x: '2020', y: 42 }] },
+    { name: 'Spain', data: [{ x: '2000', y: 15 }, { x: '2010', y: 12 }, { x: '2020', y: 10 }] },
+  ],
+};
+
+const report = [
+  'The graph shows car ownership in three countries between 2000 and 2020.',
+  'Overall, ownership rose in France and Germany. France grew from 20 million in 2000 to 40 million in 2020, an increase of 20 million.',
+  'Germany had 50 million in 2010. Spain had the lowest figures, falling to 10 million in 2020. In 1995 numbers were low.',
+].join('\n');
+
+describe('extractFigures', () => {
+  it('reads percentages, multipliers and grouped digits but skips years', () => {
+    expect(extractFigures('In 2010, 45% owned a car, about 3.5 million people, up from 1,200 in 1990s.').map(f => f.scaled))
+      .toEqual([45, 3_500_000, 1200]);
+  });
+});
+
+describe('chartDataPoints', () => {
+  it('labels table cells by row and column and skips non-numeric cells', () => {
+    const table: IELTSChartData = {
+      type: 'TABLE',
+      title: 'Spending',
+      headers: ['Country', 'Food', 'Housing'],
+      rows: [[{ value: 'Japan' }, { value: '30%' }, { value: 'n/a' }]],
+    };
+    expect(chartDataPoints(table)).toEqual([{ labels: ['Japan', 'Food'], value: 30 }]);
+  });
+
+  it('has nothing to check for processes and maps', () => {
+    expect(checkTask1Data('The process has five stages.', { type: 'PROCESS_DIAGRAM', title: 'Paper', steps: [] }).applicable).toBe(false);
+  });
+});
+
+describe('checkTask1Data', () => {
+  const check = checkTask1Data(report, lineGraph);
+
+  it('verifies figures against the points a sentence names, including differences', () => {
+    expect(check.figures).toEqual({ checked: 5, verified: 4 });
+  });
+
+  it('flags misreported figures with the value the chart shows', () => {
+    expect(check.misreported).toHaveLength(1);
+    expect(check.misreported[0]).toMatchObject({
+      quoted: '50 million',
+      expected: [{ labels: ['Germany', '2010'], value: 38 }],
+    });
+  });
+
+  it('reports years outside the chart', () => {
+    expect(check.unknownYears).toEqual(['1995']);
+  });
+
+  it('checks the overview, extremes and overall trend', () => {
+    const covered = Object.fromEntries(check.keyFeatures.map(f => [f.feature, f.covered]));
+    expect(covered).toEqual({ overview: true, highest: false, lowest: true, trend: true });
+    expect(check.keyFeatures.find(f => f.feature === 'highest')?.expected).toBe('Germany has the highest value (42 in 2020)');
+  });
+});
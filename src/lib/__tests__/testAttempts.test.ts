@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { snapshotContentKey, countAnswered, hasProgress } from '../testAttempts';
+
+describe('snapshotContentKey', () => {
+  it('ignores the timer so ticking does not trigger a save', () => {
+    const base = { answers: { 1: 'A' }, currentQuestion: 1 };
+    expect(snapshotContentKey({ ...base, timeLeft: 600 })).toBe(snapshotContentKey({ ...base, timeLeft: 599 }));
+  });
+
+  it('changes when an answer changes', () => {
+    expect(snapshotContentKey({ answers: { 1: 'A' } })).not.toBe(snapshotContentKey({ answers: { 1: 'B' } }));
+  });
+});
+
+describe('countAnswered', () => {
+  it('counts non-blank answers and writing tasks', () => {
+    expect(countAnswered({ answers: { 1: 'A', 2: ' ', 3: 'true' } })).toBe(2);
+    expect(countAnswered({ submissionText1: 'Dear Sir', submissionText2: '' })).toBe(1);
+  });
+
+  it('treats an empty attempt as having no progress', () => {
+    expect(hasProgress({ answers: {}, timeLeft: 3600 })).toBe(false);
+    expect(hasProgress({ submissionText2: 'Some people believe' })).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeListeningQuestionType, scoreSubmission, type AnswerKeyQuestion } from '../testScoring';
+
+const question = (overrides: Partial<AnswerKeyQuestion> & { question_number: number }): AnswerKeyQuestion => ({
+  question_type: 'SENTENCE_COMPLETION',
+  question_text: `Question ${overrides.question_number}`,
+  correct_answer: 'river',
+  ...overrides,
+});
+
+describe('scoreSubmission', () => {
+  it('marks answers against the key and converts to a band', () => {
+    const questions = Array.from({ length: 40 }, (_, i) => question({ question_number: i + 1 }));
+    const answers = Object.fromEntries(questions.slice(0, 30).map(q => [String(q.question_number), 'River']));
+
+    const result = scoreSubmission({ module: 'reading', questions, groups: [], answers });
+
+    expect(result.score).toBe(30);
+    expect(result.total).toBe(40);
+    expect(result.percentage).toBe(75);
+    expect(result.bandScore).toBe(7);
+    expect(result.questionResults[0]).toMatchObject({ questionNumber: 1, userAnswer: 'River', isCorrect: true });
+    expect(result.questionResults[39]).toMatchObject({ questionNumber: 40, userAnswer: '', isCorrect: false });
+  });
+
+  it('gives a "Choose TWO letters" question one result per mark', () => {
+    const result = scoreSubmission({
+      module: 'listening',
+      questions: [
+        question({ question_number: 21, question_type: 'MULTIPLE_CHOICE_MULTIPLE', correct_answer: 'B,D', group_id: 'g1' }),
+        question({ question_number: 22, question_type: 'MULTIPLE_CHOICE_MULTIPLE', correct_answer: 'B,D', group_id: 'g1' }),
+      ],
+      groups: [{ id: 'g1', start_question: 21, end_question: 22 }],
+      answers: { 21: 'D,A' },
+    });
+
+    expect(result.questionResults.map(r => [r.questionNumber, r.isCorrect])).toEqual([[21, true], [22, false]]);
+    expect(result.score).toBe(1);
+  });
+
+  it('reads sub-group ranges from reading option objects', () => {
+    const result = scoreSubmission({
+      module: 'reading',
+      questions: [
+        question({
+          question_number: 14,
+          question_type: 'MULTIPLE_CHOICE_MULTIPLE',
+          correct_answer: 'A,C',
+          options: { options: ['A', 'B', 'C', 'D'], sub_group_start: 14, sub_group_end: 15 },
+        }),
+      ],
+      groups: [],
+      answers: { 14: 'A,C' },
+    });
+
+    expect(result.questionResults.map(r => r.questionNumber)).toEqual([14, 15]);
+    expect(result.questionResults[0].options).toEqual(['A', 'B', 'C', 'D']);
+    expect(result.score).toBe(2);
+  });
+
+  it('marks answers over the group word limit wrong', () => {
+    const result = scoreSubmission({
+      module: 'listening',
+      questions: [question({ question_number: 1, correct_answer: 'river bank', group_id: 'g1' })],
+      groups: [{ id: 'g1', start_question: 1, end_question: 1, max_words: 1 }],
+      answers: { 1: 'river bank' },
+    });
+
+    expect(result.questionResults[0].isCorrect).toBe(false);
+    expect(result.questionResults[0].wordLimitReason).toBeTruthy();
+  });
+});
+
+describe('normalizeListeningQuestionType', () => {
+  it('maps legacy names onto the current types', () => {
+    expect(normalizeListeningQuestionType('multiple_choice')).toBe('MULTIPLE_CHOICE_SINGLE');
+    expect(normalizeListeningQuestionType('MAP_LABELLING')).toBe('MAP_LABELING');
+    expect(normalizeListeningQuestionType('drag_and_drop')).toBe('DRAG_AND_DROP_OPTIONS');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countErrorsByCategory,
+  countErrorsByCriterion,
+  resolveErrorAnnotations,
+  segmentEssay,
+  type RawWritingErrorAnnotation,
+} from '../writingAnnotations';
+import { writingSubmissionEvaluationSchema } from '../aiSchemas';
+
+const essay = 'People thinks that goverment should pay. People thinks that it is fair.\nHowever  i disagree.';
+
+const raw = (quote: string, category: RawWritingErrorAnnotation['category'], start?: number): RawWritingErrorAnnotation => ({
+  quote,
+  category,
+  correction: 'fix',
+  explanation: 'why',
+  start,
+});
+
+describe('resolveErrorAnnotations', () => {
+  it('places quotes by searching the essay and tags the criterion', () => {
+    const [span] = resolveErrorAnnotations(essay, [raw('goverment', 'spelling')]);
+
+    expect(essay.slice(span.start, span.end)).toBe('goverment');
+    expect(span.criterion).toBe('LR');
+  });
+
+  it('takes repeated phrases in reading order, or nearest the hinted offset', () => {
+    const inOrder = resolveErrorAnnotations(essay, [raw('People thinks', 'grammar'), raw('People thinks', 'grammar')]);
+    expect(inOrder.map(a => a.start)).toEqual([0, essay.lastIndexOf('People thinks')]);
+
+    const hinted = resolveErrorAnnotations(essay, [raw('People thinks', 'grammar', 45)]);
+    expect(hinted[0].start).toBe(essay.lastIndexOf('People thinks'));
+  });
+
+  it('matches across whitespace and case differences, keeping the essay text', () => {
+    const [span] = resolveErrorAnnotations(essay, [raw('however i', 'cohesion')]);
+
+    expect(span.text).toBe('However  i');
+    expect(span.criterion).toBe('CC');
+  });
+
+  it('drops quotes that are not in the essay and spans that overlap', () => {
+    const spans = resolveErrorAnnotations(essay, [
+      raw('the government should', 'grammar'),
+      raw('thinks that goverment', 'grammar'),
+      raw('goverment', 'spelling'),
+      raw('  ', 'lexical'),
+    ]);
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0].text).toBe('thinks that goverment');
+  });
+});
+
+describe('segmentEssay', () => {
+  it('splits the essay into plain and annotated runs that rebuild the text', () => {
+    const spans = resolveErrorAnnotations(essay, [raw('goverment', 'spelling'), raw('i disagree', 'grammar')]);
+    const segments = segmentEssay(essay, spans);
+
+    expect(segments.map(s => s.text).join('')).toBe(essay);
+    expect(segments.filter(s => s.annotation).map(s => s.text)).toEqual(['goverment', 'i disagree']);
+  });
+
+  it('leaves out annotations that no longer match the text', () => {
+    const spans = resolveErrorAnnotations(essay, [raw('goverment', 'spelling')]);
+
+    expect(segmentEssay('People think that government should pay.', spans)).toEqual([
+      { text: 'People think that government should pay.' },
+    ]);
+  });
+});
+
+describe('error counts', () => {
+  it('counts by category and by band criterion', () => {
+    const spans = resolveErrorAnnotations(essay, [
+      raw('goverment', 'spelling'),
+      raw('fair', 'lexical'),
+      raw('People thinks', 'grammar'),
+    ]);
+
+    expect(countErrorsByCategory(spans)).toMatchObject({ spelling: 1, lexical: 1, grammar: 1, cohesion: 0 });
+    expect(countErrorsByCriterion(spans)).toEqual({ TR: 0, CC: 0, LR: 2, GRA: 1 });
+  });
+});
+
+describe('error_annotations in examiner reports', () => {
+  const criterion = { band: 6, strengths: 'a', weaknesses: 'b', suggestions_for_improvement: 'c' };
+  const report = {
+    task_achievement_response: criterion,
+    coherence_and_cohesion: criterion,
+    lexical_resource: criterion,
+    grammatical_range_and_accuracy: criterion,
+    overall_suggestions: 'd',
+  };
+
+  it('keeps usable spans, normalises categories and drops the rest', () => {
+    const parsed = writingSubmissionEvaluationSchema.parse({
+      overall_band: 6,
+      evaluation_report: {
+        ...report,
+        error_annotations: [
+          { quote: 'goverment', category: 'Spelling', correction: 'government', start: '20' },
+          { quote: 'fair', category: 'Task Response' },
+          { quote: 'x', category: 'style' },
+          'not an object',
+        ],
+      },
+    });
+
+    expect(parsed.evaluation_report.error_annotations).toEqual([
+      { quote: 'goverment', category: 'spelling', correction: 'government', explanation: '', start: 20 },
+      { quote: 'fair', category: 'task_response', correction: '', explanation: '' },
+    ]);
+  });
+
+  it('defaults to no spans when the model leaves them out', () => {
+    const parsed = writingSubmissionEvaluationSchema.parse({ overall_band: 6, evaluation_report: report });
+
+    expect(parsed.evaluation_report.error_annotations).toEqual([]);
+  });
+});
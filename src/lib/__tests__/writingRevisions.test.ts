@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bandDeltas,
+  bandTrend,
+  defaultComparisonBase,
+  diffStats,
+  diffWords,
+  formatBandDelta,
+  splitDiff,
+  type RevisionSubmission,
+} from '../writingRevisions';
+
+const criterion = (band: number) => ({ band, strengths: '', weaknesses: '', suggestions_for_improvement: '' });
+
+const submission = (id: string, submittedAt: string, band: number | null, extra: Partial<RevisionSubmission> = {}): RevisionSubmission => ({
+  id,
+  submitted_at: submittedAt,
+  overall_band: band,
+  evaluation_report: band === null ? null : {
+    task_achievement_response: criterion(band),
+    coherence_and_cohesion: criterion(band),
+    lexical_resource: criterion(band + 0.5),
+    grammatical_range_and_accuracy: criterion(band - 0.5),
+  },
+  ...extra,
+});
+
+describe('diffWords', () => {
+  const before = 'Many people thinks that cars is bad.\nThey pollute.';
+  const after = 'Many people think that cars are harmful.\nThey pollute the air.';
+
+  it('marks changed words and rebuilds both texts from the columns', () => {
+    const diff = diffWords(before, after);
+    const { before: left, after: right } = splitDiff(diff);
+
+    expect(left.map(s => s.text).join('')).toBe(before);
+    expect(right.map(s => s.text).join('')).toBe(after);
+    expect(diff.filter(s => s.type === 'removed').map(s => s.text.trim())).toContain('thinks');
+    expect(diff.filter(s => s.type === 'added').map(s => s.text.trim())).toContain('think');
+  });
+
+  it('counts added and removed words', () => {
+    expect(diffStats(diffWords('a b c', 'a c d e'))).toEqual({ added: 2, removed: 1 });
+    expect(diffWords('same text', 'same text')).toEqual([{ type: 'equal', text: 'same text' }]);
+  });
+});
+
+describe('band comparison', () => {
+  const first = submission('s1', '2026-01-01T10:00:00Z', 5.5);
+  const second = submission('s2', '2026-01-08T10:00:00Z', null);
+  const third = submission('s3', '2026-01-15T10:00:00Z', 6.5);
+
+  it('reports per-criterion and overall deltas', () => {
+    const deltas = bandDeltas(first, third);
+
+    expect(deltas.find(d => d.key === 'lexical_resource')).toMatchObject({ before: 6, after: 7, delta: 1 });
+    expect(deltas.find(d => d.key === 'overall_band')).toMatchObject({ before: 5.5, after: 6.5, delta: 1 });
+    expect(bandDeltas(first, second).every(d => d.delta === null)).toBe(true);
+  });
+
+  it('orders the trend oldest first and skips unevaluated attempts for deltas', () => {
+    const trend = bandTrend([third, first, second]);
+
+    expect(trend.map(p => p.submissionId)).toEqual(['s1', 's2', 's3']);
+    expect(trend.map(p => p.delta)).toEqual([null, null, 1]);
+  });
+
+  it('compares against the revised attempt, falling back to the previous one', () => {
+    const revision = submission('s4', '2026-01-20T10:00:00Z', 7, { revised_from_id: 's1' });
+
+    expect(defaultComparisonBase([first, third, revision], revision)?.id).toBe('s1');
+    expect(defaultComparisonBase([first, third], third)?.id).toBe('s1');
+    expect(defaultComparisonBase([first, third], first)).toBeNull();
+  });
+
+  it('formats deltas with a sign', () => {
+    expect([formatBandDelta(0.5), formatBandDelta(-1), formatBandDelta(0), formatBandDelta(null)]).toEqual(['+0.5', '-1.0', '±0', '–']);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alignParagraphs,
+  countUpgradesByKind,
+  rewriteTargetBands,
+  segmentRewrite,
+  type ModelRewrite,
+  type RewriteUpgrade,
+} from '../writingRewrite';
+import { modelRewriteSchema } from '../aiSchemas';
+
+const essay = 'Some people think cars are bad.\n\nCars make pollution and noise.\n\nIn conclusion cars are bad.';
+
+const upgrade = (kind: RewriteUpgrade['kind'], upgraded: string, original = ''): RewriteUpgrade =>
+  ({ kind, original, upgraded, explanation: 'Better.' });
+
+const rewrite: ModelRewrite = {
+  summary: 'More precise vocabulary.',
+  paragraphs: [
+    { index: 2, text: 'Vehicles generate considerable pollution.', upgrades: [upgrade('vocabulary', 'considerable pollution', 'pollution')] },
+    { index: 1, text: 'It is widely argued that cars are harmful.', upgrades: [upgrade('structure', 'It is widely argued')] },
+    { index: 4, text: 'Governments should therefore act.', upgrades: [upgrade('cohesion', 'therefore')] },
+  ],
+};
+
+describe('rewriteTargetBands', () => {
+  it('offers only bands above the current one, and every band without one', () => {
+    expect(rewriteTargetBands(6.5)).toEqual([7, 7.5, 8, 8.5, 9]);
+    expect(rewriteTargetBands(null)).toEqual([6, 6.5, 7, 7.5, 8, 8.5, 9]);
+    expect(rewriteTargetBands(9)).toEqual([9]);
+  });
+});
+
+describe('alignParagraphs', () => {
+  it('pairs rewrites by index, keeps skipped paragraphs and appends added ones', () => {
+    const aligned = alignParagraphs(essay, rewrite);
+    expect(aligned.map(p => [p.original, p.rewritten])).toEqual([
+      ['Some people think cars are bad.', 'It is widely argued that cars are harmful.'],
+      ['Cars make pollution and noise.', 'Vehicles generate considerable pollution.'],
+      ['In conclusion cars are bad.', 'In conclusion cars are bad.'],
+      ['', 'Governments should therefore act.'],
+    ]);
+    expect(aligned[2].upgrades).toEqual([]);
+  });
+});
+
+describe('segmentRewrite', () => {
+  it('marks upgraded phrases case-insensitively and drops overlapping or missing ones', () => {
+    const segments = segmentRewrite('Vehicles generate considerable pollution today.', [
+      upgrade('vocabulary', 'Considerable pollution'),
+      upgrade('vocabulary', 'pollution'),
+      upgrade('structure', 'not in the text'),
+    ]);
+    expect(segments.map(s => [s.text, s.upgrade?.upgraded ?? null])).toEqual([
+      ['Vehicles generate ', null],
+      ['considerable pollution', 'Considerable pollution'],
+      [' today.', null],
+    ]);
+  });
+});
+
+describe('countUpgradesByKind', () => {
+  it('counts every kind, including ones with no upgrades', () => {
+    expect(countUpgradesByKind({ ...rewrite, paragraphs: rewrite.paragraphs.slice(0, 2) }))
+      .toEqual({ vocabulary: 1, structure: 1, cohesion: 0 });
+  });
+});
+
+describe('modelRewriteSchema', () => {
+  it('maps kind aliases and drops upgrades it cannot place', () => {
+    const parsed = modelRewriteSchema.parse({
+      summary: 'x',
+      paragraphs: [{ index: '1', text: 'A better paragraph.', upgrades: [
+        { kind: 'lexical resource', original: 'good', upgraded: 'better', explanation: 'More precise.' },
+        { kind: 'grammar', upgraded: '', explanation: 'Nothing quoted.' },
+      ] }],
+    });
+    expect(parsed.paragraphs[0].index).toBe(1);
+    expect(parsed.paragraphs[0].upgrades.map(u => u.kind)).toEqual(['vocabulary']);
+  });
+});
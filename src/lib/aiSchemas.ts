@@ -0,0 +1,410 @@
+/**
+ * AI Output Schemas
+ *
+ * zod schemas for every JSON document we ask Gemini to produce: generated
+ * practice content (and the GeneratedTest / GeneratedQuestionGroup shapes
+ * built from it), examiner reports for writing and speaking submissions, and
+ * the AI practice evaluations. Edge functions pass zodValidator(schema) to
+ * client.generateValidated in geminiClient.ts, which gives the model one
+ * repair turn before the failure is persisted as an AiValidationFailure.
+ *
+ * Schemas are lenient where models are routinely inconsistent (numbers sent
+ * as strings, a list where prose was asked for) and strict where the app
+ * would otherwise render nonsense (bands outside 0-9, empty answers).
+ */
+
+import { z } from 'zod';
+import type { ValidationIssue, Validator } from './geminiClient.ts';
+import { WRITING_ERROR_CATEGORIES, type RawWritingErrorAnnotation } from './writingAnnotations.ts';
+import { REWRITE_UPGRADE_KINDS, type ModelRewrite, type RewriteUpgrade } from './writingRewrite.ts';
+
+// ─── Validator adapter ───────────────────────────────────────────────────────
+
+export function zodIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+export function zodValidator<S extends z.ZodTypeAny>(schema: S): Validator<z.output<S>> {
+  return value => {
+    const result = schema.safeParse(value);
+    return result.success
+      ? { ok: true, value: result.data }
+      : { ok: false, issues: zodIssues(result.error) };
+  };
+}
+
+// ─── Primitives ──────────────────────────────────────────────────────────────
+
+const toNumber = (value: unknown) =>
+  typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value)) ? Number(value) : value;
+
+const numeric = z.preprocess(toNumber, z.number());
+
+/** An IELTS band, snapped to the nearest half band. */
+export const bandSchema = z
+  .preprocess(toNumber, z.number().min(0, 'band must be between 0 and 9').max(9, 'band must be between 0 and 9'))
+  .transform(band => Math.round(band * 2) / 2);
+
+/** Free text; a list of strings is joined one item per line. */
+const prose = z.preprocess(
+  value => (Array.isArray(value) ? value.filter(item => typeof item === 'string').join('\n') : value),
+  z.string(),
+);
+
+/** A list of strings; a single string becomes a one-item list. */
+const stringList = z.preprocess(
+  value => (typeof value === 'string' ? [value] : value),
+  z.array(z.string()),
+);
+
+/** Answer keys are strings; multi-answer keys are comma separated ("A,C,E"). */
+const answerKey = z.preprocess(
+  value => {
+    if (typeof value === 'number') return String(value);
+    if (Array.isArray(value)) return value.map(String).join(',');
+    return value;
+  },
+  z.string().trim().min(1, 'correct_answer is empty'),
+);
+
+// ─── Generated content (model output) ────────────────────────────────────────
+// Each question type adds its own fields (headings, table_data, word_bank...),
+// so extra keys are kept and typed loosely for the generators to pick apart.
+
+/** One question as the generation prompts ask for it. */
+export const modelQuestionSchema = z.object({
+  question_number: numeric.optional(),
+  question_text: z.string().default(''),
+  correct_answer: answerKey,
+  explanation: prose.optional(),
+  options: z.array(z.any()).nullish(),
+  heading: z.string().nullish(),
+  max_answers: numeric.optional(),
+}).catchall(z.any());
+
+function requireMultipleChoiceMultiple(
+  questionType: string,
+  data: { questions?: Array<{ options?: unknown[] | null }> },
+  ctx: z.RefinementCtx,
+) {
+  if (questionType !== 'MULTIPLE_CHOICE_MULTIPLE') return;
+  const questions = data.questions ?? [];
+  if ((questions[0]?.options?.length ?? 0) < 5) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['questions', 0, 'options'], message: 'MULTIPLE_CHOICE_MULTIPLE needs at least 5 options (A-E or A-F)' });
+  }
+  if (questions.length < 3) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['questions'], message: 'MULTIPLE_CHOICE_MULTIPLE needs exactly 3 question objects' });
+  }
+}
+
+export function readingGenerationSchema(questionType: string) {
+  return z.object({
+    passage: z.object({
+      title: z.string().optional(),
+      content: z.string().trim().min(1, 'passage content is empty'),
+    }).catchall(z.any()),
+    instruction: z.string().optional(),
+    questions: z.array(modelQuestionSchema).min(1, 'questions must not be empty'),
+  }).catchall(z.any()).superRefine((data, ctx) => requireMultipleChoiceMultiple(questionType, data, ctx));
+}
+
+export function listeningGenerationSchema(questionType: string) {
+  return z.object({
+    dialogue: z.string().trim().min(50, 'dialogue is missing or shorter than 50 characters'),
+    instruction: z.string().min(1, 'instruction is required'),
+    questions: z.array(modelQuestionSchema).min(1, 'questions must not be empty'),
+  }).catchall(z.any()).superRefine((data, ctx) => requireMultipleChoiceMultiple(questionType, data, ctx));
+}
+
+/** A writing task from either generator; only the instruction is shared by every variant. */
+export const writingTaskGenerationSchema = z.object({
+  instruction: z.string().trim().min(1, 'instruction is required'),
+}).catchall(z.any());
+
+export const speakingGenerationSchema = z.object({
+  parts: z.array(z.object({
+    part_number: numeric.optional(),
+    instruction: z.string().optional(),
+    questions: z.array(z.object({
+      question_number: numeric.optional(),
+      question_text: z.string().trim().min(1, 'question_text is empty'),
+      sample_answer: prose.optional(),
+    }).catchall(z.any())).default([]),
+    cue_card_topic: z.string().optional(),
+    cue_card_content: prose.optional(),
+  }).catchall(z.any()).superRefine((part, ctx) => {
+    if (part.part_number === 2 ? !part.cue_card_topic : part.questions.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: part.part_number === 2 ? 'Part 2 needs a cue_card_topic' : 'Parts 1 and 3 need at least one question',
+      });
+    }
+  })).min(1, 'parts must not be empty'),
+}).catchall(z.any());
+
+/** Bulk generator speaking output: one object per requested part. */
+export const speakingPartsByKeySchema = z.object({
+  part1: z.object({ questions: z.array(z.string()).min(1) }).catchall(z.any()).optional(),
+  part2: z.object({ cue_card: z.string().trim().min(1) }).catchall(z.any()).optional(),
+  part3: z.object({ questions: z.array(z.string()).min(1) }).catchall(z.any()).optional(),
+}).catchall(z.any()).refine(data => data.part1 || data.part2 || data.part3, 'at least one of part1, part2, part3 is required');
+
+// ─── Generated tests (client shapes) ─────────────────────────────────────────
+
+/** GeneratedQuestion in src/types/aiPractice.ts, as the generator actually fills it. */
+export const generatedQuestionSchema = z.object({
+  id: z.string().min(1),
+  question_number: z.number().int().positive(),
+  question_text: z.string(),
+  question_type: z.string().optional(),
+  correct_answer: z.string().trim().min(1, 'correct_answer is empty'),
+  explanation: z.string().nullish(),
+  options: z.array(z.any()).nullish(),
+  heading: z.string().nullish(),
+}).passthrough();
+
+export const generatedQuestionGroupSchema = z.object({
+  id: z.string().min(1),
+  instruction: z.string(),
+  question_type: z.string().min(1),
+  start_question: z.number().int().positive(),
+  end_question: z.number().int().positive(),
+  options: z.record(z.any()).nullish(),
+  questions: z.array(generatedQuestionSchema).min(1, 'question group has no questions'),
+}).passthrough().refine(group => group.end_question >= group.start_question, {
+  message: 'end_question is before start_question',
+  path: ['end_question'],
+});
+
+const writingSingleTaskSchema = z.object({
+  task_type: z.enum(['task1', 'task2']),
+  instruction: z.string().trim().min(1, 'instruction is required'),
+}).passthrough();
+
+export const generatedTestSchema = z.object({
+  id: z.string().min(1),
+  module: z.enum(['reading', 'listening', 'writing', 'speaking']),
+  topic: z.string(),
+  passage: z.object({ content: z.string().trim().min(1, 'passage content is empty') }).passthrough().optional(),
+  questionGroups: z.array(generatedQuestionGroupSchema).optional(),
+  writingTask: z.union([
+    z.object({ test_type: z.literal('full_test'), task1: writingSingleTaskSchema, task2: writingSingleTaskSchema }).passthrough(),
+    writingSingleTaskSchema,
+  ]).optional(),
+  speakingParts: z.array(z.object({
+    part_number: z.number().int().min(1).max(3),
+    questions: z.array(z.object({ question_text: z.string() }).passthrough()),
+  }).passthrough()).optional(),
+}).passthrough().superRefine((test, ctx) => {
+  const missing = (path: string, message: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+  if (test.module === 'reading' && !test.passage) missing('passage', 'reading tests need a passage');
+  if ((test.module === 'reading' || test.module === 'listening') && !test.questionGroups?.length) {
+    missing('questionGroups', `${test.module} tests need at least one question group`);
+  }
+  if (test.module === 'writing' && !test.writingTask) missing('writingTask', 'writing tests need a task');
+  if (test.module === 'speaking' && !test.speakingParts?.length) missing('speakingParts', 'speaking tests need at least one part');
+});
+
+// ─── Writing error spans ─────────────────────────────────────────────────────
+
+const errorAnnotationSchema = z.object({
+  quote: z.string(),
+  category: z.preprocess(
+    value => (typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s-]+/g, '_') : value),
+    z.enum(WRITING_ERROR_CATEGORIES),
+  ),
+  correction: prose.default(''),
+  explanation: prose.default(''),
+  start: numeric.optional(),
+});
+
+/**
+ * Error spans quoted from the essay (see writingAnnotations.ts). A span the
+ * app can't use is dropped on its own instead of failing the whole report.
+ */
+const errorAnnotationList = z.array(z.unknown()).catch([]).transform(items =>
+  items.flatMap((item): RawWritingErrorAnnotation[] => {
+    const result = errorAnnotationSchema.safeParse(item);
+    return result.success ? [result.data as RawWritingErrorAnnotation] : [];
+  }),
+);
+
+// ─── Examiner reports (writing_submissions / speaking_submissions) ───────────
+
+const examinerCriterionSchema = z.object({
+  band: bandSchema,
+  strengths: prose,
+  weaknesses: prose,
+  suggestions_for_improvement: prose,
+});
+
+/** evaluate-writing-submission. Unknown keys are dropped: the report page renders every key as a criterion. */
+export const writingSubmissionEvaluationSchema = z.object({
+  overall_band: bandSchema,
+  evaluation_report: z.object({
+    task_achievement_response: examinerCriterionSchema,
+    coherence_and_cohesion: examinerCriterionSchema,
+    lexical_resource: examinerCriterionSchema,
+    grammatical_range_and_accuracy: examinerCriterionSchema,
+    overall_suggestions: prose,
+    error_annotations: errorAnnotationList,
+  }),
+});
+
+export type WritingSubmissionEvaluation = z.output<typeof writingSubmissionEvaluationSchema>;
+
+/** evaluate-speaking-submission. */
+export const speakingSubmissionEvaluationSchema = z.object({
+  overall_band: bandSchema,
+  evaluation_report: z.object({
+    fluency_coherence: examinerCriterionSchema,
+    lexical_resource: examinerCriterionSchema,
+    grammatical_range_accuracy: examinerCriterionSchema,
+    pronunciation: examinerCriterionSchema,
+    part_by_part_analysis: z.object({
+      part1: z.object({ summary: prose, strengths: prose, weaknesses: prose }).partial().optional(),
+      part2: z.object({ topic_coverage: prose, organization_quality: prose, cue_card_fulfillment: prose }).partial().optional(),
+      part3: z.object({ depth_of_discussion: prose, question_notes: prose }).partial().optional(),
+    }).optional(),
+    improvement_recommendations: stringList.default([]),
+    strengths_to_maintain: stringList.default([]),
+    examiner_notes: prose.optional(),
+    transcripts: z.record(prose).default({}),
+  }),
+});
+
+export type SpeakingSubmissionEvaluation = z.output<typeof speakingSubmissionEvaluationSchema>;
+
+// ─── AI practice evaluations ─────────────────────────────────────────────────
+
+const practiceWritingCriterionSchema = z.object({
+  band: bandSchema,
+  feedback: prose.default(''),
+  strengths: stringList.default([]),
+  weaknesses: stringList.default([]),
+  examples: stringList.optional(),
+}).passthrough();
+
+function practiceWritingTaskSchema(isTask1: boolean) {
+  const taskCriterion = isTask1 ? 'task_achievement' : 'task_response';
+  return z.object({
+    [taskCriterion]: practiceWritingCriterionSchema,
+    coherence_cohesion: practiceWritingCriterionSchema,
+    lexical_resource: practiceWritingCriterionSchema,
+    grammatical_accuracy: practiceWritingCriterionSchema,
+    overall_feedback: prose.default(''),
+    key_strengths: stringList.default([]),
+    priority_improvements: stringList.default([]),
+    error_annotations: errorAnnotationList,
+  }).passthrough();
+}
+
+/** evaluate-ai-practice-writing, one task. */
+export function practiceWritingEvaluationSchema(isTask1: boolean) {
+  return z.object({
+    overall_band: bandSchema,
+    evaluation_report: practiceWritingTaskSchema(isTask1),
+  }).passthrough();
+}
+
+/** evaluate-ai-practice-writing, Task 1 + Task 2 in one call. */
+export const practiceWritingFullTestEvaluationSchema = z.object({
+  overall_band: bandSchema,
+  task1_band: bandSchema,
+  task2_band: bandSchema,
+  task1_evaluation: practiceWritingTaskSchema(true),
+  task2_evaluation: practiceWritingTaskSchema(false),
+  combined_feedback: z.object({}).passthrough().optional(),
+}).passthrough();
+
+// ─── Model answer rewrites ───────────────────────────────────────────────────
+
+// Models name the upgrade after the criterion as often as after the change
+const UPGRADE_KIND_ALIASES: Record<string, string> = {
+  lexical: 'vocabulary',
+  lexical_resource: 'vocabulary',
+  vocab: 'vocabulary',
+  grammar: 'structure',
+  complex_structure: 'structure',
+  sentence_structure: 'structure',
+  coherence: 'cohesion',
+  coherence_and_cohesion: 'cohesion',
+};
+
+const rewriteUpgradeSchema = z.object({
+  kind: z.preprocess(value => {
+    if (typeof value !== 'string') return value;
+    const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    return UPGRADE_KIND_ALIASES[key] ?? key;
+  }, z.enum(REWRITE_UPGRADE_KINDS)),
+  original: prose.default(''),
+  upgraded: z.string().min(1),
+  explanation: prose,
+});
+
+/** Like error spans, an upgrade the app can't show is dropped on its own. */
+const rewriteUpgradeList = z.array(z.unknown()).catch([]).transform(items =>
+  items.flatMap((item): RewriteUpgrade[] => {
+    const result = rewriteUpgradeSchema.safeParse(item);
+    return result.success ? [result.data as RewriteUpgrade] : [];
+  }),
+);
+
+/** rewrite-writing-answer. */
+export const modelRewriteSchema = z.object({
+  paragraphs: z.array(z.object({
+    index: numeric.transform(Math.round),
+    text: z.string().min(1, 'rewritten paragraphs cannot be empty'),
+    upgrades: rewriteUpgradeList,
+  })).min(1, 'the rewrite needs at least one paragraph'),
+  summary: prose.default(''),
+}).transform(rewrite => rewrite as ModelRewrite);
+
+const speakingCriterionSchema = z.object({
+  score: bandSchema,
+  feedback: prose.default(''),
+  examples: stringList.optional(),
+}).passthrough();
+
+const speakingModelAnswerSchema = z.object({
+  partNumber: numeric.optional(),
+  questionNumber: numeric.optional(),
+  question: z.string().default(''),
+  candidateResponse: prose.default(''),
+  modelAnswer: prose,
+  keyFeatures: stringList.default([]),
+}).passthrough();
+
+/** evaluate-ai-speaking (full test; camelCase as the prompt requests). */
+export const aiSpeakingEvaluationSchema = z.object({
+  overallBand: bandSchema,
+  fluencyCoherence: speakingCriterionSchema,
+  lexicalResource: speakingCriterionSchema,
+  grammaticalRange: speakingCriterionSchema,
+  pronunciation: speakingCriterionSchema,
+  partAnalysis: z.array(z.object({
+    partNumber: numeric.optional(),
+    strengths: stringList.default([]),
+    improvements: stringList.default([]),
+  }).passthrough()).default([]),
+  modelAnswers: z.array(speakingModelAnswerSchema).default([]),
+  summary: prose.optional(),
+  keyStrengths: stringList.optional(),
+  priorityImprovements: stringList.optional(),
+  transcripts: z.record(prose).default({}),
+}).passthrough();
+
+/** evaluate-ai-speaking-part (one part). */
+export const aiSpeakingPartEvaluationSchema = z.object({
+  fluencyCoherence: speakingCriterionSchema,
+  lexicalResource: speakingCriterionSchema,
+  grammaticalRange: speakingCriterionSchema,
+  pronunciation: speakingCriterionSchema,
+  strengths: stringList.default([]),
+  improvements: stringList.default([]),
+  partFeedback: prose.default(''),
+  modelAnswers: z.array(speakingModelAnswerSchema).default([]),
+  transcripts: z.record(prose).default({}),
+}).passthrough();
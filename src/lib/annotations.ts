@@ -0,0 +1,234 @@
+/**
+ * Test Annotation Sync
+ *
+ * Highlights and notes are cached in localStorage per test and synced to
+ * test_annotations for signed-in users. Changes made offline are tracked
+ * as dirty/deleted ids and pushed on the next successful sync, so the
+ * local copy always works as a fallback.
+ */
+
+import type { Highlight, Note } from '@/hooks/useHighlightNotes';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { TestAttemptSource } from './testAttempts';
+import { safeLocalStorageGetItem, safeLocalStorageSetItem } from './storage';
+
+export type AnnotationModule = 'reading' | 'listening' | 'writing' | 'speaking';
+
+export type AnnotationRow = Tables<'test_annotations'>;
+
+export interface AnnotationScope {
+  testId: string;
+  module: AnnotationModule;
+  source: TestAttemptSource;
+}
+
+/** Push local changes this long after the last edit */
+export const ANNOTATION_SYNC_DEBOUNCE_MS = 1000;
+
+export interface AnnotationSyncState {
+  /** Ids the server had at the last successful sync */
+  syncedIds: string[];
+  /** Ids changed locally that the server has not seen yet */
+  dirtyIds: string[];
+  /** Ids removed locally that still need deleting on the server */
+  deletedIds: string[];
+}
+
+export const emptySyncState = (): AnnotationSyncState => ({ syncedIds: [], dirtyIds: [], deletedIds: [] });
+
+const syncStateKey = (testId: string) => `ieltsai-annotations-sync-${testId}`;
+
+export function loadSyncState(testId: string): AnnotationSyncState {
+  try {
+    const saved = safeLocalStorageGetItem(syncStateKey(testId));
+    return saved ? { ...emptySyncState(), ...JSON.parse(saved) } : emptySyncState();
+  } catch {
+    return emptySyncState();
+  }
+}
+
+export function saveSyncState(testId: string, state: AnnotationSyncState) {
+  safeLocalStorageSetItem(syncStateKey(testId), JSON.stringify(state));
+}
+
+export function markDirty(state: AnnotationSyncState, id: string): AnnotationSyncState {
+  return {
+    ...state,
+    dirtyIds: state.dirtyIds.includes(id) ? state.dirtyIds : [...state.dirtyIds, id],
+    deletedIds: state.deletedIds.filter(d => d !== id),
+  };
+}
+
+export function markDeleted(state: AnnotationSyncState, id: string): AnnotationSyncState {
+  return {
+    ...state,
+    dirtyIds: state.dirtyIds.filter(d => d !== id),
+    deletedIds: state.deletedIds.includes(id) ? state.deletedIds : [...state.deletedIds, id],
+  };
+}
+
+/** Record a successful push; ids changed again while it was in flight stay pending */
+export function markPushed(
+  state: AnnotationSyncState,
+  upserted: string[],
+  deleted: string[]
+): AnnotationSyncState {
+  const synced = new Set(state.syncedIds);
+  upserted.forEach(id => synced.add(id));
+  deleted.forEach(id => synced.delete(id));
+  return {
+    syncedIds: [...synced],
+    dirtyIds: state.dirtyIds.filter(id => !upserted.includes(id)),
+    deletedIds: state.deletedIds.filter(id => !deleted.includes(id)),
+  };
+}
+
+// ============================================================================
+// ROW MAPPING
+// ============================================================================
+
+const toIso = (ms: number | undefined) => (ms != null ? new Date(ms).toISOString() : null);
+const toMs = (iso: string | null) => (iso ? new Date(iso).getTime() : Date.now());
+
+export function annotationToRow(
+  userId: string,
+  scope: AnnotationScope,
+  highlight: Highlight,
+  note: Note | undefined
+): TablesInsert<'test_annotations'> {
+  return {
+    id: highlight.id,
+    user_id: userId,
+    module: scope.module,
+    source: scope.source,
+    test_id: scope.testId,
+    content_id: highlight.contentId,
+    highlighted_text: highlight.text,
+    color: highlight.color,
+    start_offset: highlight.startOffset,
+    end_offset: highlight.endOffset,
+    is_note: highlight.isNote,
+    note_id: note?.id ?? null,
+    note_text: note?.text ?? null,
+    note_created_at: toIso(note?.createdAt),
+    note_updated_at: toIso(note?.updatedAt),
+  };
+}
+
+export function rowToAnnotation(row: AnnotationRow): { highlight: Highlight; note?: Note } {
+  const highlight: Highlight = {
+    id: row.id,
+    testId: row.test_id,
+    contentId: row.content_id,
+    text: row.highlighted_text,
+    color: row.color === 'red' ? 'red' : 'yellow',
+    startOffset: row.start_offset,
+    endOffset: row.end_offset,
+    isNote: row.is_note,
+  };
+  if (row.note_text == null) return { highlight };
+  return {
+    highlight,
+    note: {
+      id: row.note_id ?? crypto.randomUUID(),
+      highlightId: row.id,
+      text: row.note_text,
+      createdAt: toMs(row.note_created_at),
+      updatedAt: toMs(row.note_updated_at),
+    },
+  };
+}
+
+// ============================================================================
+// RECONCILE
+// ============================================================================
+
+export interface ReconciledAnnotations {
+  highlights: Highlight[];
+  notes: Note[];
+  /** Local ids the server is missing or has an older copy of */
+  upsertIds: string[];
+  /** Ids deleted locally that the server still has */
+  deleteIds: string[];
+}
+
+/**
+ * Merge the cached annotations with the server copy.
+ * - Local edits not yet pushed win over the server row.
+ * - Local deletions not yet pushed remove the server row.
+ * - A local highlight the server never had (made offline, or before
+ *   syncing existed) is kept and uploaded.
+ * - A synced highlight missing from the server was deleted on another
+ *   device, so it is dropped locally.
+ */
+export function reconcileAnnotations(
+  local: { highlights: Highlight[]; notes: Note[] },
+  remoteRows: AnnotationRow[],
+  state: AnnotationSyncState
+): ReconciledAnnotations {
+  const dirty = new Set(state.dirtyIds);
+  const deleted = new Set(state.deletedIds);
+  const synced = new Set(state.syncedIds);
+  const localById = new Map(local.highlights.map(h => [h.id, h]));
+  const localNote = (id: string) => local.notes.find(n => n.highlightId === id);
+  const remoteIds = new Set(remoteRows.map(r => r.id));
+
+  const highlights: Highlight[] = [];
+  const notes: Note[] = [];
+  const upsertIds: string[] = [];
+  const deleteIds: string[] = [];
+
+  const keepLocal = (highlight: Highlight) => {
+    highlights.push(highlight);
+    const note = localNote(highlight.id);
+    if (note) notes.push(note);
+  };
+
+  for (const row of remoteRows) {
+    if (deleted.has(row.id)) {
+      deleteIds.push(row.id);
+      continue;
+    }
+    const localHighlight = localById.get(row.id);
+    if (localHighlight && dirty.has(row.id)) {
+      keepLocal(localHighlight);
+      upsertIds.push(row.id);
+      continue;
+    }
+    const { highlight, note } = rowToAnnotation(row);
+    highlights.push(highlight);
+    if (note) notes.push(note);
+  }
+
+  for (const highlight of local.highlights) {
+    if (remoteIds.has(highlight.id)) continue;
+    if (dirty.has(highlight.id) || !synced.has(highlight.id)) {
+      keepLocal(highlight);
+      upsertIds.push(highlight.id);
+    }
+  }
+
+  return { highlights, notes, upsertIds, deleteIds };
+}
+
+// ============================================================================
+// LINKS
+// ============================================================================
+
+export const ANNOTATION_CONTENT_PARAM = 'content';
+export const ANNOTATION_OFFSET_PARAM = 'offset';
+export const ANNOTATION_END_PARAM = 'end';
+
+/** Where to reopen an annotation: reading passages open in study mode at the highlight */
+export function getAnnotationPath(
+  row: Pick<AnnotationRow, 'module' | 'source' | 'test_id' | 'content_id' | 'start_offset' | 'end_offset'>
+): string {
+  if (row.source === 'ai_practice') return `/ai-practice/${row.module}/${row.test_id}`;
+  if (row.module !== 'reading') return `/${row.module}/test/${row.test_id}`;
+  const params = new URLSearchParams({
+    [ANNOTATION_CONTENT_PARAM]: row.content_id,
+    [ANNOTATION_OFFSET_PARAM]: String(row.start_offset),
+    [ANNOTATION_END_PARAM]: String(row.end_offset),
+  });
+  return `/reading/study/${row.test_id}?${params.toString()}`;
+}
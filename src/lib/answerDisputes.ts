@@ -0,0 +1,157 @@
+/**
+ * Answer Disputes
+ *
+ * A student can dispute a free-text answer that was marked wrong (e.g. an
+ * unlisted synonym). Admins review disputes grouped by question; approving
+ * one appends the answer to the key using the "/" alternates syntax and
+ * re-scores past submissions. Imports carry explicit .ts extensions so the
+ * resolve-answer-dispute edge function can import this module under Deno.
+ */
+
+import { checkAnswer, isOptionIdQuestionType, totalMarks } from './ieltsAnswerValidation.ts';
+
+export type DisputeSource = 'test' | 'ai_practice';
+export type DisputeStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AnswerDisputeRow {
+  id: string;
+  user_id: string;
+  module: string;
+  source: string;
+  test_id: string;
+  submission_id: string | null;
+  question_number: number;
+  question_text: string | null;
+  user_answer: string;
+  correct_answer: string;
+  reason: string | null;
+  status: string;
+  admin_note: string | null;
+  created_at: string;
+}
+
+export interface DisputedAnswer {
+  answer: string;
+  count: number;
+}
+
+/** All disputes raised against one question of one test */
+export interface DisputeQuestionGroup {
+  key: string;
+  source: DisputeSource;
+  module: string;
+  testId: string;
+  questionNumber: number;
+  questionText: string | null;
+  correctAnswer: string;
+  disputes: AnswerDisputeRow[];
+  /** Distinct disputed answers, most frequent first */
+  answers: DisputedAnswer[];
+  pendingCount: number;
+}
+
+const normalizeAlternative = (answer: string) => answer.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Only free-text answers can be disputed: option letters are either right
+ * or wrong, and unanswered questions have nothing to accept.
+ */
+export function canDisputeAnswer(result: { isCorrect: boolean; userAnswer: string; questionType?: string }): boolean {
+  return !result.isCorrect && !!result.userAnswer?.trim() && !isOptionIdQuestionType(result.questionType);
+}
+
+/**
+ * Add an accepted alternative to an answer key ("colour" → "colour / color").
+ * Alternatives already in the key (ignoring case and spacing) are skipped;
+ * several can be added at once by separating them with "/".
+ */
+export function appendAlternateAnswer(correctAnswer: string, alternative: string): string {
+  const existing = (correctAnswer || '').split('/').map(a => a.trim()).filter(Boolean);
+  const seen = new Set(existing.map(normalizeAlternative));
+  const additions: string[] = [];
+
+  for (const part of alternative.split('/')) {
+    const answer = part.trim().replace(/\s+/g, ' ');
+    if (!answer || seen.has(normalizeAlternative(answer))) continue;
+    seen.add(normalizeAlternative(answer));
+    additions.push(answer);
+  }
+
+  return [...existing, ...additions].join(' / ');
+}
+
+export const disputeQuestionKey = (row: Pick<AnswerDisputeRow, 'source' | 'test_id' | 'question_number'>) =>
+  `${row.source}:${row.test_id}:${row.question_number}`;
+
+/** Group disputes by question, questions with the most pending disputes first */
+export function groupDisputesByQuestion(rows: AnswerDisputeRow[]): DisputeQuestionGroup[] {
+  const groups = new Map<string, DisputeQuestionGroup>();
+
+  for (const row of rows) {
+    const key = disputeQuestionKey(row);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        source: row.source === 'ai_practice' ? 'ai_practice' : 'test',
+        module: row.module,
+        testId: row.test_id,
+        questionNumber: row.question_number,
+        questionText: row.question_text,
+        correctAnswer: row.correct_answer,
+        disputes: [],
+        answers: [],
+        pendingCount: 0,
+      };
+      groups.set(key, group);
+    }
+    group.disputes.push(row);
+    if (row.status === 'pending') group.pendingCount += 1;
+  }
+
+  for (const group of groups.values()) {
+    const counts = new Map<string, DisputedAnswer>();
+    for (const dispute of group.disputes) {
+      const normalized = normalizeAlternative(dispute.user_answer);
+      const entry = counts.get(normalized);
+      if (entry) entry.count += 1;
+      else counts.set(normalized, { answer: dispute.user_answer.trim(), count: 1 });
+    }
+    group.answers = [...counts.values()].sort((a, b) => b.count - a.count);
+    group.disputes.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  return [...groups.values()].sort(
+    (a, b) => b.pendingCount - a.pendingCount || a.disputes[0].created_at.localeCompare(b.disputes[0].created_at)
+  );
+}
+
+interface PracticeQuestionResult {
+  questionNumber: number;
+  userAnswer: string;
+  correctAnswer: string;
+  isCorrect: boolean;
+  partialScore?: number;
+  maxScore?: number;
+  questionType?: string;
+}
+
+/**
+ * Re-mark one question of a stored AI practice result against an updated
+ * answer key. Returns the new results and score; `changed` is false when
+ * no mark moved.
+ */
+export function remarkPracticeQuestion<T extends PracticeQuestionResult>(
+  questionResults: T[],
+  questionNumber: number,
+  correctAnswer: string
+): { questionResults: T[]; score: number; total: number; changed: boolean } {
+  let changed = false;
+  const remarked = questionResults.map(result => {
+    if (result.questionNumber !== questionNumber || result.maxScore !== undefined) return result;
+    const isCorrect = checkAnswer(result.userAnswer, correctAnswer, result.questionType);
+    if (isCorrect !== result.isCorrect) changed = true;
+    return { ...result, correctAnswer, isCorrect };
+  });
+  return { questionResults: remarked, ...totalMarks(remarked), changed };
+}
@@ -9,6 +9,18 @@ export type ApiErrorKind =
   | "unauthorized"
   | "unknown";
 
+const API_ERROR_KINDS: ApiErrorKind[] = [
+  "quota",
+  "rate_limited",
+  "credits",
+  "invalid_key",
+  "key_suspended",
+  "permission_denied",
+  "network",
+  "unauthorized",
+  "unknown",
+];
+
 export interface ApiErrorAction {
   label: string;
   href: string;
@@ -93,6 +105,8 @@ function inferKind(rawLower: string, jsonLower: string): ApiErrorKind {
     combined.includes("failed to fetch") ||
     combined.includes("networkerror") ||
     combined.includes("network error") ||
+    // supabase.functions.invoke when the request never reached the function
+    combined.includes("failed to send a request") ||
     combined.includes("typeerror")
   ) {
     return "network";
@@ -192,7 +206,11 @@ export function describeApiError(err: unknown): ApiErrorDescriptor {
   const edgeFunctionStr = edgeFunctionData ? safeString(edgeFunctionData) : "";
   const fullCombined = `${combinedForDetect}\n${edgeFunctionStr}`;
 
-  const kind = inferKind(fullCombined.toLowerCase(), safeString(embedded).toLowerCase());
+  // Edge functions built on _shared/gemini.ts report the kind directly
+  const reportedKind = edgeFunctionData?.errorKind ?? (embedded as { errorKind?: unknown } | undefined)?.errorKind;
+  const kind: ApiErrorKind = API_ERROR_KINDS.includes(reportedKind)
+    ? reportedKind
+    : inferKind(fullCombined.toLowerCase(), safeString(embedded).toLowerCase());
 
   // Extract custom message from edge function if available
   let customMessage: string | undefined;
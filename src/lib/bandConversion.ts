@@ -0,0 +1,157 @@
+/**
+ * IELTS Band Conversion
+ *
+ * Raw score → band tables for Listening, Academic Reading and General Training
+ * Reading (40-question papers), scaling for shorter AI practice tests, and the
+ * official overall-band rounding rules.
+ */
+
+export type BandModule = 'reading' | 'listening';
+
+export type TestVariant = 'academic' | 'general';
+
+/** Full IELTS Reading / Listening papers have 40 questions */
+export const OFFICIAL_QUESTION_COUNT = 40;
+
+/** [minimum raw score out of 40, band], highest band first */
+export type BandTable = ReadonlyArray<readonly [number, number]>;
+
+// ============================================================================
+// CONVERSION TABLES
+// ============================================================================
+
+export const LISTENING_BAND_TABLE: BandTable = [
+  [39, 9],
+  [37, 8.5],
+  [35, 8],
+  [32, 7.5],
+  [30, 7],
+  [26, 6.5],
+  [23, 6],
+  [18, 5.5],
+  [16, 5],
+  [13, 4.5],
+  [10, 4],
+  [8, 3.5],
+  [6, 3],
+  [4, 2.5],
+  [2, 2],
+  [1, 1],
+];
+
+export const ACADEMIC_READING_BAND_TABLE: BandTable = [
+  [39, 9],
+  [37, 8.5],
+  [35, 8],
+  [33, 7.5],
+  [30, 7],
+  [27, 6.5],
+  [23, 6],
+  [19, 5.5],
+  [15, 5],
+  [13, 4.5],
+  [10, 4],
+  [8, 3.5],
+  [6, 3],
+  [4, 2.5],
+  [2, 2],
+  [1, 1],
+];
+
+export const GENERAL_READING_BAND_TABLE: BandTable = [
+  [40, 9],
+  [39, 8.5],
+  [37, 8],
+  [36, 7.5],
+  [34, 7],
+  [32, 6.5],
+  [30, 6],
+  [27, 5.5],
+  [23, 5],
+  [19, 4.5],
+  [15, 4],
+  [12, 3.5],
+  [9, 3],
+  [6, 2.5],
+  [3, 2],
+  [1, 1],
+];
+
+/** Listening uses the same table for Academic and General Training */
+export function getBandTable(module: BandModule, variant: TestVariant = 'academic'): BandTable {
+  if (module === 'listening') return LISTENING_BAND_TABLE;
+  return variant === 'general' ? GENERAL_READING_BAND_TABLE : ACADEMIC_READING_BAND_TABLE;
+}
+
+/** Anything that isn't 'general' (e.g. listening 'model' / 'other' tests) uses the Academic table */
+export function toTestVariant(value: string | null | undefined): TestVariant {
+  return value === 'general' ? 'general' : 'academic';
+}
+
+// ============================================================================
+// RAW SCORE → BAND
+// ============================================================================
+
+/**
+ * Scale a raw score from a shorter test onto the 40-question scale,
+ * e.g. 4 / 5 correct → 32 / 40
+ */
+export function scaleRawScore(rawScore: number, totalQuestions: number): number {
+  if (totalQuestions <= 0) return 0;
+  const clamped = Math.min(Math.max(rawScore, 0), totalQuestions);
+  if (totalQuestions === OFFICIAL_QUESTION_COUNT) return clamped;
+  return Math.round((clamped / totalQuestions) * OFFICIAL_QUESTION_COUNT);
+}
+
+export interface RawScoreOptions {
+  module: BandModule;
+  variant?: TestVariant;
+  /** Questions (marks) in the test taken – defaults to a full 40-question paper */
+  totalQuestions?: number;
+}
+
+/**
+ * Convert a raw Reading / Listening score to a band. Tests with fewer than
+ * 40 questions (AI practice sets) are scaled onto the 40-question table.
+ */
+export function rawScoreToBand(
+  rawScore: number,
+  { module, variant = 'academic', totalQuestions = OFFICIAL_QUESTION_COUNT }: RawScoreOptions
+): number {
+  const scaled = scaleRawScore(rawScore, totalQuestions);
+  const row = getBandTable(module, variant).find(([minScore]) => scaled >= minScore);
+  return row ? row[1] : 0;
+}
+
+// ============================================================================
+// OVERALL BAND
+// ============================================================================
+
+/**
+ * Round an averaged band the IELTS way: averages ending in .25 go up to the
+ * next half band, .75 up to the next whole band (6.25 → 6.5, 6.75 → 7,
+ * 6.125 → 6).
+ */
+export function roundOverallBand(average: number): number {
+  // Small epsilon so 6.25 isn't rounded down by floating-point error
+  return Math.floor(average * 2 + 0.5 + 1e-9) / 2;
+}
+
+/**
+ * Overall band from the module bands available (normally all four).
+ * Returns null when no band is available.
+ */
+export function calculateOverallBand(bands: Array<number | null | undefined>): number | null {
+  const valid = bands.filter((b): b is number => typeof b === 'number' && Number.isFinite(b));
+  if (valid.length === 0) return null;
+  const average = valid.reduce((sum, b) => sum + b, 0) / valid.length;
+  return roundOverallBand(average);
+}
+
+/** Writing band: Task 2 counts twice as much as Task 1 */
+export function combineWritingTaskBands(task1Band: number | null | undefined, task2Band: number | null | undefined): number | null {
+  if (task1Band == null && task2Band == null) return null;
+  if (task1Band == null) return task2Band ?? null;
+  if (task2Band == null) return task1Band;
+  return roundOverallBand((task1Band + task2Band * 2) / 3);
+}
@@ -0,0 +1,161 @@
+/**
+ * Subscription Billing
+ *
+ * Subscriptions are prepaid one month at a time (a subscriptions row with a
+ * start and end date); the plan in effect is the one whose period covers
+ * now. planSubscriptionChange() decides what moving to another plan means:
+ *
+ * - from the default plan to a paid one starts a month now, charged in full,
+ * - to a dearer plan upgrades now, charged the price less the unused part
+ *   of the current period,
+ * - to a cheaper paid plan is bought now and starts when the current
+ *   period ends,
+ * - to the default plan drops any plan scheduled to follow the current one.
+ *
+ * Nothing renews: a period simply ends, and the user is back on the default
+ * plan unless a scheduled plan follows. A scheduled plan that is replaced or
+ * cancelled before it starts is refunded in full.
+ *
+ * Charges and refunds go through a PaymentProvider. Only the fake provider
+ * exists so far; it lets plan changes be exercised locally and in tests.
+ */
+
+export type SubscriptionChangeKind = 'new' | 'upgrade' | 'downgrade' | 'cancel' | 'unchanged';
+
+export interface CurrentSubscription {
+  planId: string;
+  price: number;
+  start: Date;
+  end: Date;
+}
+
+export interface TargetPlan {
+  id: string;
+  price: number;
+  isDefault: boolean;
+}
+
+export interface SubscriptionChange {
+  kind: SubscriptionChangeKind;
+  /** Charged now, in the plan currency, rounded to cents */
+  charge: number;
+  /** Unused value of the current period taken off an upgrade */
+  credit: number;
+  /** Period of the new subscription; null when none is created */
+  startsAt: Date | null;
+  endsAt: Date | null;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/** One billing month later; the 31st rolls back to the last day of shorter months */
+export function addBillingMonth(date: Date): Date {
+  const next = new Date(date);
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + 1);
+  const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return next;
+}
+
+export function planSubscriptionChange(
+  current: CurrentSubscription | null,
+  target: TargetPlan,
+  now: Date,
+): SubscriptionChange {
+  const none = { charge: 0, credit: 0, startsAt: null, endsAt: null };
+  const active = current && current.end > now ? current : null;
+
+  if (!active) {
+    if (target.isDefault) return { kind: 'unchanged', ...none };
+    return { kind: 'new', charge: roundCents(target.price), credit: 0, startsAt: now, endsAt: addBillingMonth(now) };
+  }
+  if (active.planId === target.id) return { kind: 'unchanged', ...none };
+  if (target.isDefault) return { kind: 'cancel', ...none };
+
+  if (target.price > active.price) {
+    const period = active.end.getTime() - active.start.getTime();
+    const unused = period > 0 ? Math.max(0, active.end.getTime() - now.getTime()) / period : 0;
+    const credit = roundCents(active.price * unused);
+    return {
+      kind: 'upgrade',
+      charge: roundCents(Math.max(0, target.price - credit)),
+      credit,
+      startsAt: now,
+      endsAt: addBillingMonth(now),
+    };
+  }
+
+  return {
+    kind: 'downgrade',
+    charge: roundCents(target.price),
+    credit: 0,
+    startsAt: active.end,
+    endsAt: addBillingMonth(active.end),
+  };
+}
+
+// ─── Payment providers ───────────────────────────────────────────────────────
+
+export interface ChargeRequest {
+  userId: string;
+  planId: string;
+  amount: number;
+  currency: string;
+  description: string;
+}
+
+export type ChargeResult = { ok: true; reference: string } | { ok: false; error: string };
+
+export interface RefundRequest {
+  /** Reference of the charge being refunded */
+  chargeReference: string;
+  amount: number;
+  currency: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+  refund(request: RefundRequest): Promise<ChargeResult>;
+}
+
+export interface FakePaymentProvider extends PaymentProvider {
+  /** Successful charges, oldest first */
+  charges: Array<ChargeRequest & { reference: string }>;
+  /** Successful refunds, oldest first */
+  refunds: Array<RefundRequest & { reference: string }>;
+}
+
+/**
+ * Accepts every charge and remembers it, except for users listed in
+ * `declineUserIds` (to test the failure path). References are "fake_<n>";
+ * refunds of those charges are "fake_refund_<n>".
+ */
+export function createFakePaymentProvider(options: { declineUserIds?: string[] } = {}): FakePaymentProvider {
+  const declined = new Set(options.declineUserIds ?? []);
+  const charges: FakePaymentProvider['charges'] = [];
+  const refunds: FakePaymentProvider['refunds'] = [];
+  return {
+    name: 'fake',
+    charges,
+    refunds,
+    async charge(request) {
+      if (declined.has(request.userId)) {
+        return { ok: false, error: 'Card declined (fake provider)' };
+      }
+      const reference = `fake_${charges.length + 1}`;
+      charges.push({ ...request, reference });
+      return { ok: true, reference };
+    },
+    // The edge function makes a new provider per request, so any fake charge can be refunded, once
+    async refund(request) {
+      if (!request.chargeReference.startsWith('fake_') || refunds.some(r => r.chargeReference === request.chargeReference)) {
+        return { ok: false, error: 'Nothing to refund for this charge (fake provider)' };
+      }
+      const reference = `fake_refund_${refunds.length + 1}`;
+      refunds.push({ ...request, reference });
+      return { ok: true, reference };
+    },
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * AI Examiner Calibration
+ *
+ * Measures how closely the AI writing and speaking examiners agree with
+ * human examiners. A calibration dataset is a set of scripts (an essay, or a
+ * speaking transcript) each carrying the official band per criterion. The
+ * admin calibration page runs the current evaluator prompt over a dataset
+ * through the run-calibration edge function, summarises agreement here and
+ * stores the run, so a prompt or model change that drifts from human marking
+ * shows up against the previous run.
+ */
+
+import { z } from 'zod';
+import { bandSchema } from './aiSchemas.ts';
+
+export type CalibrationModule = 'writing' | 'speaking';
+
+/**
+ * Criteria compared per module. Speaking leaves out pronunciation: calibration
+ * scripts are transcripts, so the evaluator has nothing to judge it from.
+ */
+export const CALIBRATION_CRITERIA = {
+  writing: ['task_response', 'coherence_cohesion', 'lexical_resource', 'grammatical_range_accuracy'],
+  speaking: ['fluency_coherence', 'lexical_resource', 'grammatical_range_accuracy'],
+} as const;
+
+export type CalibrationCriterion = typeof CALIBRATION_CRITERIA[CalibrationModule][number];
+
+export const CALIBRATION_CRITERION_LABELS: Record<CalibrationCriterion, string> = {
+  task_response: 'Task Achievement / Response',
+  coherence_cohesion: 'Coherence & Cohesion',
+  fluency_coherence: 'Fluency & Coherence',
+  lexical_resource: 'Lexical Resource',
+  grammatical_range_accuracy: 'Grammatical Range & Accuracy',
+};
+
+/** Bands within this distance of the official band count as adjacent agreement */
+export const ADJACENT_TOLERANCE = 0.5;
+
+// ─── Dataset format ──────────────────────────────────────────────────────────
+
+const writingBandsSchema = z.object({
+  task_response: bandSchema,
+  coherence_cohesion: bandSchema,
+  lexical_resource: bandSchema,
+  grammatical_range_accuracy: bandSchema,
+});
+
+const speakingBandsSchema = z.object({
+  fluency_coherence: bandSchema,
+  lexical_resource: bandSchema,
+  grammatical_range_accuracy: bandSchema,
+  // Kept for reference; not compared (see CALIBRATION_CRITERIA)
+  pronunciation: bandSchema.optional(),
+});
+
+const scriptFields = {
+  /** The task question, or the speaking questions in the order they were asked */
+  instruction: z.string().trim().min(1, 'instruction is required'),
+  /** The candidate's essay, or the transcript of their answers */
+  script: z.string().trim().min(1, 'script is required'),
+  official_overall: bandSchema,
+  /** Where the official marks come from, e.g. "Cambridge 18, Test 2" */
+  source: z.string().trim().optional(),
+};
+
+export const calibrationScriptSchema = z.discriminatedUnion('module', [
+  z.object({
+    module: z.literal('writing'),
+    task_type: z.enum(['task1', 'task2']),
+    /** Task 1 only: the chart or diagram described in words */
+    visual_description: z.string().trim().optional(),
+    official_bands: writingBandsSchema,
+    ...scriptFields,
+  }),
+  z.object({
+    module: z.literal('speaking'),
+    official_bands: speakingBandsSchema,
+    ...scriptFields,
+  }),
+]);
+
+export type CalibrationScriptInput = z.output<typeof calibrationScriptSchema>;
+
+/** The JSON an admin imports: a named dataset of human-scored scripts */
+export const calibrationDatasetSchema = z.object({
+  dataset: z.string().trim().min(1, 'dataset name is required'),
+  scripts: z.array(calibrationScriptSchema).min(1, 'scripts must not be empty'),
+});
+
+export type CalibrationDataset = z.output<typeof calibrationDatasetSchema>;
+
+/** A stored script (calibration_scripts row) */
+export interface CalibrationScriptRow {
+  id: string;
+  dataset: string;
+  module: CalibrationModule;
+  task_type: 'task1' | 'task2' | null;
+  instruction: string;
+  script: string;
+  visual_description: string | null;
+  official_bands: Partial<Record<CalibrationCriterion | 'pronunciation', number>>;
+  official_overall: number;
+  source: string | null;
+}
+
+/** calibration_scripts insert rows for an imported dataset */
+export function calibrationScriptRows(dataset: CalibrationDataset): Omit<CalibrationScriptRow, 'id'>[] {
+  return dataset.scripts.map(script => ({
+    dataset: dataset.dataset,
+    module: script.module,
+    task_type: script.module === 'writing' ? script.task_type : null,
+    instruction: script.instruction,
+    script: script.script,
+    visual_description: script.module === 'writing' ? script.visual_description ?? null : null,
+    official_bands: script.official_bands,
+    official_overall: script.official_overall,
+    source: script.source ?? null,
+  }));
+}
+
+// ─── Agreement ───────────────────────────────────────────────────────────────
+
+/** One script scored by the evaluator; bands are null when the run failed */
+export interface CalibrationScriptResult {
+  scriptId: string;
+  officialOverall: number;
+  officialBands: Partial<Record<CalibrationCriterion, number>>;
+  aiOverall: number | null;
+  aiBands: Partial<Record<CalibrationCriterion, number>>;
+  promptVersion?: string;
+  model?: string;
+  error?: string;
+}
+
+export interface AgreementStats {
+  count: number;
+  /** Share of AI bands equal to the official band (0–1) */
+  exactRate: number;
+  /** Share within ADJACENT_TOLERANCE of the official band (0–1) */
+  adjacentRate: number;
+  meanAbsoluteError: number;
+  /** Mean of AI minus official; positive means the AI marks too generously */
+  bias: number;
+}
+
+export interface CalibrationSummary {
+  scripts: number;
+  failed: number;
+  overall: AgreementStats | null;
+  criteria: Partial<Record<CalibrationCriterion, AgreementStats>>;
+}
+
+const round = (value: number, places = 3) => Math.round(value * 10 ** places) / 10 ** places;
+
+/** Agreement over [ai, official] band pairs; null when there are none */
+export function agreementStats(pairs: Array<[number, number]>): AgreementStats | null {
+  if (pairs.length === 0) return null;
+  const diffs = pairs.map(([ai, official]) => ai - official);
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  return {
+    count: pairs.length,
+    exactRate: round(diffs.filter(d => d === 0).length / diffs.length),
+    adjacentRate: round(diffs.filter(d => Math.abs(d) <= ADJACENT_TOLERANCE).length / diffs.length),
+    meanAbsoluteError: round(mean(diffs.map(Math.abs))),
+    bias: round(mean(diffs)),
+  };
+}
+
+export function summarizeCalibration(module: CalibrationModule, results: CalibrationScriptResult[]): CalibrationSummary {
+  const scored = results.filter(r => !r.error && r.aiOverall !== null);
+  const criteria: CalibrationSummary['criteria'] = {};
+
+  for (const criterion of CALIBRATION_CRITERIA[module]) {
+    const pairs: Array<[number, number]> = [];
+    for (const result of scored) {
+      const ai = result.aiBands[criterion];
+      const official = result.officialBands[criterion];
+      if (typeof ai === 'number' && typeof official === 'number') pairs.push([ai, official]);
+    }
+    const stats = agreementStats(pairs);
+    if (stats) criteria[criterion] = stats;
+  }
+
+  return {
+    scripts: results.length,
+    failed: results.length - scored.length,
+    overall: agreementStats(scored.map(r => [r.aiOverall as number, r.officialOverall])),
+    criteria,
+  };
+}
+
+// ─── Run comparison ──────────────────────────────────────────────────────────
+
+export interface CalibrationRegression {
+  criterion: CalibrationCriterion | 'overall';
+  metric: 'meanAbsoluteError' | 'exactRate' | 'bias';
+  previous: number;
+  current: number;
+}
+
+/** Changes smaller than these are treated as run-to-run noise */
+const MAE_REGRESSION = 0.1;
+const EXACT_RATE_REGRESSION = 0.05;
+const BIAS_REGRESSION = 0.25;
+
+/** Where the current run agrees with the official bands noticeably less than the previous one */
+export function compareCalibrationRuns(current: CalibrationSummary, previous: CalibrationSummary): CalibrationRegression[] {
+  const regressions: CalibrationRegression[] = [];
+  const check = (criterion: CalibrationRegression['criterion'], now?: AgreementStats | null, before?: AgreementStats | null) => {
+    if (!now || !before) return;
+    if (round(now.meanAbsoluteError - before.meanAbsoluteError) >= MAE_REGRESSION) {
+      regressions.push({ criterion, metric: 'meanAbsoluteError', previous: before.meanAbsoluteError, current: now.meanAbsoluteError });
+    }
+    if (round(before.exactRate - now.exactRate) >= EXACT_RATE_REGRESSION) {
+      regressions.push({ criterion, metric: 'exactRate', previous: before.exactRate, current: now.exactRate });
+    }
+    if (round(Math.abs(now.bias) - Math.abs(before.bias)) >= BIAS_REGRESSION) {
+      regressions.push({ criterion, metric: 'bias', previous: before.bias, current: now.bias });
+    }
+  };
+
+  check('overall', current.overall, previous.overall);
+  for (const criterion of Object.keys(current.criteria) as CalibrationCriterion[]) {
+    check(criterion, current.criteria[criterion], previous.criteria[criterion]);
+  }
+  return regressions;
+}
@@ -0,0 +1,159 @@
+/**
+ * Credit Ledger
+ *
+ * AI operations on the system key pool are paid for with credits. Every
+ * movement is a row in the append-only credit_transactions table, written
+ * only by the SQL functions in the credit ledger migration:
+ *
+ * - reserve: taken before the model is called (negative amount)
+ * - commit:  the operation succeeded; the reservation stands (amount 0)
+ * - refund:  the operation failed; the reservation is returned
+ * - grant:   credits added by an admin
+ * - promo:   credits added by redeeming a promotion code
+ *
+ * Users get DAILY_CREDIT_LIMIT credits a day. Grants and promos are bonus
+ * credits that don't expire and are only drawn on once the daily allowance
+ * is spent; bonus_amount records how much of each row touched them.
+ *
+ * Costs live here so the edge functions and the UI agree on them.
+ */
+
+export const CREDIT_COSTS = {
+  generate_speaking: 5,
+  generate_writing: 5,
+  generate_listening: 20,
+  generate_reading: 20,
+  evaluate_speaking: 15,
+  evaluate_writing: 10,
+  evaluate_reading: 0,
+  evaluate_listening: 0,
+  explain_answer: 2,
+  rewrite_writing: 5,
+} as const;
+
+export type CreditOperation = keyof typeof CREDIT_COSTS;
+
+export const DAILY_CREDIT_LIMIT = 100;
+
+export const CREDIT_OPERATION_LABELS: Record<CreditOperation, string> = {
+  generate_speaking: 'Speaking test generation',
+  generate_writing: 'Writing task generation',
+  generate_listening: 'Listening test generation',
+  generate_reading: 'Reading test generation',
+  evaluate_speaking: 'Speaking evaluation',
+  evaluate_writing: 'Writing evaluation',
+  evaluate_reading: 'Reading evaluation',
+  evaluate_listening: 'Listening evaluation',
+  explain_answer: 'Answer explanation',
+  rewrite_writing: 'Model answer rewrite',
+};
+
+export type CreditTransactionKind = 'reserve' | 'commit' | 'refund' | 'grant' | 'promo';
+
+/** A credit_transactions row */
+export interface CreditTransaction {
+  id: string;
+  kind: CreditTransactionKind;
+  /** Signed: reserves are negative, refunds, grants and promos positive, commits 0 */
+  amount: number;
+  /** The part of amount drawn from or added to bonus credits */
+  bonus_amount: number;
+  operation: string | null;
+  /** What the credits were spent on or came from: a test, submission or promotion code */
+  reference: string | null;
+  /** Set on commit and refund rows: the reserve row they settle */
+  reservation_id: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+/** get_credit_status() */
+export interface CreditStatus {
+  credits_used: number;
+  credits_remaining: number;
+  limit: number;
+  bonus_credits: number;
+}
+
+export function creditCost(operation: CreditOperation): number {
+  return CREDIT_COSTS[operation] ?? 0;
+}
+
+export function creditOperationLabel(operation: string | null): string {
+  if (!operation) return 'Credits';
+  return CREDIT_OPERATION_LABELS[operation as CreditOperation] ?? operation.replace(/_/g, ' ');
+}
+
+// ─── History ─────────────────────────────────────────────────────────────────
+
+/**
+ * pending:  reserved, operation still running (or it ended without settling)
+ * charged:  reserved and committed
+ * refunded: reserved and returned
+ * credited: a grant or promo
+ */
+export type CreditActivityStatus = 'pending' | 'charged' | 'refunded' | 'credited';
+
+/** One line of a user's credit history: a reservation folded together with its settlement */
+export interface CreditActivity {
+  id: string;
+  kind: 'charge' | 'grant' | 'promo';
+  operation: string | null;
+  label: string;
+  /** Net effect on the user's credits; 0 once a charge is refunded */
+  amount: number;
+  /** What the reservation took, shown struck through when refunded */
+  reserved: number;
+  status: CreditActivityStatus;
+  reference: string | null;
+  note: string | null;
+  createdAt: string;
+  settledAt: string | null;
+}
+
+/** Newest first. Settlements whose reservation isn't in `transactions` are dropped. */
+export function summarizeCreditHistory(transactions: CreditTransaction[]): CreditActivity[] {
+  const settlements = new Map<string, CreditTransaction>();
+  for (const tx of transactions) {
+    if ((tx.kind === 'commit' || tx.kind === 'refund') && tx.reservation_id) {
+      settlements.set(tx.reservation_id, tx);
+    }
+  }
+
+  const activity: CreditActivity[] = [];
+  for (const tx of transactions) {
+    if (tx.kind === 'reserve') {
+      const settlement = settlements.get(tx.id);
+      const refunded = settlement?.kind === 'refund';
+      activity.push({
+        id: tx.id,
+        kind: 'charge',
+        operation: tx.operation,
+        label: creditOperationLabel(tx.operation),
+        amount: refunded ? tx.amount + settlement.amount : tx.amount,
+        reserved: -tx.amount,
+        status: !settlement ? 'pending' : refunded ? 'refunded' : 'charged',
+        reference: settlement?.reference ?? tx.reference,
+        note: settlement?.note ?? tx.note,
+        createdAt: tx.created_at,
+        settledAt: settlement?.created_at ?? null,
+      });
+    } else if (tx.kind === 'grant' || tx.kind === 'promo') {
+      activity.push({
+        id: tx.id,
+        kind: tx.kind,
+        operation: tx.operation,
+        label: tx.kind === 'grant' ? 'Credits granted' : 'Promotion code',
+        amount: tx.amount,
+        reserved: 0,
+        status: 'credited',
+        reference: tx.reference,
+        note: tx.note,
+        createdAt: tx.created_at,
+        settledAt: null,
+      });
+    }
+  }
+
+  return activity.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -0,0 +1,136 @@
+/**
+ * Plans and Entitlements
+ *
+ * A subscription plan grants a set of entitlements: how much of each metered
+ * feature a user gets per period. Users without an active subscription are
+ * on the default plan. The database is the enforcement point:
+ *
+ * - get_entitlements(user) returns the plan, billing period and, per
+ *   entitlement, the limit, what has been used and what remains,
+ * - consume_entitlement(user, key, amount) records usage, or refuses once the
+ *   limit is reached; edge functions call it before doing metered work and
+ *   release_entitlement() when the work fails.
+ *
+ * daily_credits is the exception: it is the plan's daily credit allowance,
+ * metered by the credit ledger (see credits.ts) rather than consumed here.
+ *
+ * This module is shared by the UI gates, the plan admin screen and the edge
+ * functions, so the keys, labels and plan format are defined once.
+ */
+
+import { z } from 'zod';
+
+export const ENTITLEMENT_KEYS = ['daily_credits', 'ai_evaluations', 'full_mocks', 'speaking_minutes'] as const;
+
+export type EntitlementKey = typeof ENTITLEMENT_KEYS[number];
+
+export interface EntitlementDefinition {
+  label: string;
+  /** Unit shown after a number, e.g. "5 evaluations" */
+  unit: string;
+  period: 'day' | 'month';
+  description: string;
+}
+
+export const ENTITLEMENTS: Record<EntitlementKey, EntitlementDefinition> = {
+  daily_credits: {
+    label: 'AI credits',
+    unit: 'credits',
+    period: 'day',
+    description: 'Daily allowance for AI generation and evaluation on the shared keys',
+  },
+  ai_evaluations: {
+    label: 'AI evaluations',
+    unit: 'evaluations',
+    period: 'month',
+    description: 'Writing and speaking submissions marked by the AI examiner',
+  },
+  full_mocks: {
+    label: 'Full mock tests',
+    unit: 'mocks',
+    period: 'month',
+    description: 'Four-section mock tests started',
+  },
+  speaking_minutes: {
+    label: 'Speaking practice',
+    unit: 'minutes',
+    period: 'month',
+    description: 'Recorded minutes sent for AI speaking evaluation',
+  },
+};
+
+// ─── Plan format ─────────────────────────────────────────────────────────────
+
+const limitSchema = z.number().int('must be a whole number').min(0, 'must not be negative');
+
+/**
+ * subscription_plans.entitlements. null means unlimited; the daily credit
+ * allowance always needs a number because the credit ledger meters it.
+ */
+export const planEntitlementsSchema = z.object({
+  daily_credits: limitSchema,
+  ai_evaluations: limitSchema.nullable(),
+  full_mocks: limitSchema.nullable(),
+  speaking_minutes: limitSchema.nullable(),
+});
+
+export type PlanEntitlements = z.output<typeof planEntitlementsSchema>;
+
+export const planSchema = z.object({
+  slug: z.string().trim().regex(/^[a-z0-9-]+$/, 'use lowercase letters, digits and dashes'),
+  name: z.string().trim().min(1, 'name is required'),
+  description: z.string().trim().nullable(),
+  price_monthly: z.number().min(0, 'price must not be negative'),
+  entitlements: planEntitlementsSchema,
+  is_active: z.boolean(),
+  is_default: z.boolean(),
+  sort_order: z.number().int(),
+});
+
+export type PlanInput = z.output<typeof planSchema>;
+
+/** A subscription_plans row */
+export interface SubscriptionPlan extends PlanInput {
+  id: string;
+}
+
+// ─── Status ──────────────────────────────────────────────────────────────────
+
+export interface EntitlementUsage {
+  /** null when unlimited */
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+/** get_entitlements() */
+export interface EntitlementStatus {
+  plan: Pick<SubscriptionPlan, 'id' | 'slug' | 'name' | 'price_monthly' | 'is_default'>;
+  subscription: {
+    id: string;
+    start_date: string;
+    end_date: string;
+  } | null;
+  /** Monthly entitlements reset at period_end */
+  period_start: string;
+  period_end: string;
+  entitlements: Record<EntitlementKey, EntitlementUsage>;
+}
+
+/** Whether `amount` more of an entitlement fits in what remains */
+export function entitlementAllows(status: EntitlementStatus | null, key: EntitlementKey, amount = 1): boolean {
+  const usage = status?.entitlements[key];
+  if (!usage) return false;
+  return usage.remaining === null || usage.remaining >= amount;
+}
+
+export function formatEntitlementLimit(key: EntitlementKey, limit: number | null): string {
+  const { unit, period } = ENTITLEMENTS[key];
+  return limit === null ? `Unlimited ${unit}` : `${limit} ${unit} / ${period}`;
+}
+
+/** Used by the speaking evaluators: recorded seconds, rounded up to whole minutes */
+export function speakingMinutes(durationsInSeconds: Array<number | null | undefined>): number {
+  const seconds = durationsInSeconds.reduce<number>((sum, s) => sum + (Number(s) > 0 ? Number(s) : 0), 0);
+  return Math.ceil(seconds / 60);
+}
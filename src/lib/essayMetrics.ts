@@ -0,0 +1,281 @@
+/**
+ * Essay Metrics
+ *
+ * Deterministic text analysis for IELTS writing, computed without a model:
+ * length against the task minimum, paragraphing, sentence lengths, lexical
+ * diversity, Academic Word List coverage, over-repeated words and cohesive
+ * devices. WritingInputPanel shows them live while a student writes, and
+ * the writing evaluators store them next to each AI evaluation as objective
+ * evidence for the band.
+ *
+ * These are indicators, not scores. Word families and cohesive devices are
+ * matched by form, so "found" (from find) counts as AWL and "while" counts
+ * as a contrast device even when it means "during".
+ */
+
+import { ACADEMIC_WORD_LIST } from './academicWordList.ts';
+
+/** Bump when a metric is computed differently, so stored metrics can be told apart */
+export const ESSAY_METRICS_VERSION = 1;
+
+export const MINIMUM_WORDS: Record<'task1' | 'task2', number> = { task1: 150, task2: 250 };
+
+/** McCarthy & Jarvis' default type-token ratio threshold for one MTLD factor */
+const MTLD_THRESHOLD = 0.72;
+/** MTLD is unstable on very short texts */
+const MTLD_MIN_TOKENS = 50;
+
+export const SENTENCE_LENGTH_BUCKETS = [
+  { key: 'short', label: '1–10 words', max: 10 },
+  { key: 'medium', label: '11–20 words', max: 20 },
+  { key: 'long', label: '21–30 words', max: 30 },
+  { key: 'very_long', label: '31+ words', max: Infinity },
+] as const;
+
+export type SentenceLengthBucket = typeof SENTENCE_LENGTH_BUCKETS[number]['key'];
+
+export type CohesiveFunction = 'addition' | 'contrast' | 'cause_effect' | 'example' | 'sequence' | 'conclusion';
+
+export const COHESIVE_DEVICES: Record<CohesiveFunction, { label: string; devices: string[] }> = {
+  addition: { label: 'Addition', devices: ['furthermore', 'moreover', 'in addition', 'additionally', 'besides', 'also', 'as well as'] },
+  contrast: {
+    label: 'Contrast',
+    devices: ['however', 'nevertheless', 'nonetheless', 'on the other hand', 'in contrast', 'conversely', 'whereas', 'while', 'although', 'even though', 'despite', 'in spite of'],
+  },
+  cause_effect: {
+    label: 'Cause & effect',
+    devices: ['therefore', 'thus', 'consequently', 'as a result', 'hence', 'because', 'since', 'due to', 'owing to', 'as a consequence'],
+  },
+  example: { label: 'Example', devices: ['for example', 'for instance', 'such as', 'namely', 'to illustrate'] },
+  sequence: { label: 'Sequence', devices: ['firstly', 'secondly', 'thirdly', 'first of all', 'finally', 'lastly', 'subsequently', 'meanwhile'] },
+  conclusion: { label: 'Conclusion', devices: ['in conclusion', 'to sum up', 'to conclude', 'in summary', 'overall', 'all in all'] },
+};
+
+/** A single linker used this often reads as mechanical */
+const COHESIVE_OVERUSE = 4;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does',
+  'doing', 'down', 'during', 'each', 'even', 'few', 'for', 'from', 'further', 'had', 'has', 'have', 'having', 'he',
+  'her', 'here', 'hers', 'him', 'his', 'how', 'however', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself',
+  'just', 'many', 'may', 'me', 'might', 'more', 'most', 'much', 'must', 'my', 'no', 'nor', 'not', 'now', 'of',
+  'off', 'on', 'once', 'one', 'only', 'or', 'other', 'our', 'ours', 'out', 'over', 'own', 'same', 'she', 'should',
+  'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'then', 'there', 'these', 'they', 'this',
+  'those', 'through', 'to', 'too', 'under', 'until', 'up', 'us', 'very', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours',
+]);
+
+export interface EssayMetrics {
+  version: number;
+  wordCount: number;
+  minimumWords: number;
+  meetsMinimum: boolean;
+  paragraphs: { count: number; wordCounts: number[] };
+  sentences: {
+    count: number;
+    averageLength: number;
+    longest: number;
+    distribution: Record<SentenceLengthBucket, number>;
+  };
+  lexicalDiversity: {
+    typeTokenRatio: number;
+    /** Measure of textual lexical diversity; null below MTLD_MIN_TOKENS words */
+    mtld: number | null;
+  };
+  academicWords: {
+    /** Share of word tokens from AWL families, 0-1 */
+    coverage: number;
+    count: number;
+    /** Headwords used, most frequent first */
+    families: string[];
+  };
+  repeatedWords: Array<{ word: string; count: number }>;
+  cohesiveDevices: {
+    total: number;
+    /** Devices per 100 words */
+    perHundredWords: number;
+    byFunction: Record<CohesiveFunction, number>;
+    used: Array<{ device: string; count: number }>;
+    overused: string[];
+  };
+}
+
+// ─── Tokens ──────────────────────────────────────────────────────────────────
+
+/** Same count as the writing test's word counter */
+export const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const wordTokens = (text: string) => text.toLowerCase().replace(/’/g, "'").match(/[a-z]+(?:['-][a-z]+)*/g) ?? [];
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(s => /[a-z]/i.test(s));
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+// ─── Lexical diversity ───────────────────────────────────────────────────────
+
+function mtldPass(tokens: string[]): number {
+  let factors = 0;
+  let types = new Set<string>();
+  let count = 0;
+  for (const token of tokens) {
+    types.add(token);
+    count++;
+    if (types.size / count <= MTLD_THRESHOLD) {
+      factors++;
+      types = new Set();
+      count = 0;
+    }
+  }
+  // The unfinished segment counts as the fraction of a factor it got through
+  if (count > 0) factors += (1 - types.size / count) / (1 - MTLD_THRESHOLD);
+  return factors > 0 ? tokens.length / factors : tokens.length;
+}
+
+/** Average of a forward and a backward pass */
+export function mtld(tokens: string[]): number | null {
+  if (tokens.length < MTLD_MIN_TOKENS) return null;
+  return (mtldPass(tokens) + mtldPass([...tokens].reverse())) / 2;
+}
+
+// ─── Academic Word List ──────────────────────────────────────────────────────
+
+const AWL = new Set(ACADEMIC_WORD_LIST);
+
+const SUFFIXES = [
+  'ibility', 'ability', 'ations', 'ically', 'ation', 'ities', 'ively', 'ments', 'ical', 'ions', 'ings', 'ment',
+  'ness', 'ious', 'able', 'ible', 'ally', 'ance', 'ence', 'ists', 'ity', 'ive', 'ing', 'ion', 'ers', 'ors', 'ism',
+  'ist', 'ous', 'ure', 'ant', 'ent', 'ies', 'ied', 'es', 'ed', 'er', 'or', 'ly', 'al', 'ic', 'is', 's',
+];
+
+/** Headword candidates for a stem: as is, with a final e or y restored, or with a doubled consonant undone */
+function stemCandidates(stem: string, suffix: string): string[] {
+  if (suffix === 'ies' || suffix === 'ied') return [`${stem}y`];
+  const candidates = [stem, `${stem}e`, `${stem}y`];
+  if (/([bdgklmnprt])\1$/.test(stem)) candidates.push(stem.slice(0, -1));
+  return candidates;
+}
+
+function findHeadword(word: string, depth = 0): string | null {
+  if (AWL.has(word)) return word;
+  if (depth === 2) return null;
+  for (const suffix of SUFFIXES) {
+    if (!word.endsWith(suffix) || word.length - suffix.length < 3) continue;
+    const stem = word.slice(0, -suffix.length);
+    for (const candidate of stemCandidates(stem, suffix)) {
+      if (AWL.has(candidate)) return candidate;
+    }
+    const deeper = findHeadword(stem, depth + 1);
+    if (deeper) return deeper;
+  }
+  return null;
+}
+
+/** The AWL headword whose family the word belongs to, if any. Accepts -ize and -yze spellings. */
+export function academicHeadword(word: string): string | null {
+  const normalized = word.toLowerCase().replace(/([iy])z(?=e|a|i)/g, '$1s');
+  return findHeadword(normalized);
+}
+
+// ─── Cohesive devices ────────────────────────────────────────────────────────
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function countPhrase(text: string, phrase: string): number {
+  const pattern = new RegExp(`\\b${phrase.split(' ').map(escapeRegExp).join('\\s+')}\\b`, 'gi');
+  return text.match(pattern)?.length ?? 0;
+}
+
+// ─── Analysis ────────────────────────────────────────────────────────────────
+
+export function analyzeEssay(text: string, taskType: 'task1' | 'task2'): EssayMetrics {
+  const wordCount = countWords(text);
+  const tokens = wordTokens(text);
+
+  const paragraphs = text.split(/\n\s*\n|\n/).map(p => p.trim()).filter(Boolean);
+
+  const sentenceLengths = splitSentences(text).map(countWords);
+  const distribution = Object.fromEntries(SENTENCE_LENGTH_BUCKETS.map(b => [b.key, 0])) as Record<SentenceLengthBucket, number>;
+  for (const length of sentenceLengths) {
+    distribution[SENTENCE_LENGTH_BUCKETS.find(b => length <= b.max)!.key]++;
+  }
+
+  const frequencies = new Map<string, number>();
+  const families = new Map<string, number>();
+  let academicCount = 0;
+  for (const token of tokens) {
+    frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    const headword = academicHeadword(token);
+    if (headword) {
+      academicCount++;
+      families.set(headword, (families.get(headword) ?? 0) + 1);
+    }
+  }
+
+  // Repetition scales with length: 4 uses in a short answer, more in a long one
+  const repeatThreshold = Math.max(4, Math.ceil(tokens.length / 60));
+  const repeatedWords = [...frequencies]
+    .filter(([word, count]) => count >= repeatThreshold && word.length > 2 && !STOPWORDS.has(word))
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 10)
+    .map(([word, count]) => ({ word, count }));
+
+  const byFunction = Object.fromEntries(Object.keys(COHESIVE_DEVICES).map(f => [f, 0])) as Record<CohesiveFunction, number>;
+  const used: Array<{ device: string; count: number }> = [];
+  for (const [fn, { devices }] of Object.entries(COHESIVE_DEVICES) as Array<[CohesiveFunction, { devices: string[] }]>) {
+    for (const device of devices) {
+      const count = countPhrase(text, device);
+      if (count === 0) continue;
+      byFunction[fn] += count;
+      used.push({ device, count });
+    }
+  }
+  used.sort((a, b) => b.count - a.count || a.device.localeCompare(b.device));
+  const cohesiveTotal = used.reduce((sum, d) => sum + d.count, 0);
+
+  return {
+    version: ESSAY_METRICS_VERSION,
+    wordCount,
+    minimumWords: MINIMUM_WORDS[taskType],
+    meetsMinimum: wordCount >= MINIMUM_WORDS[taskType],
+    paragraphs: { count: paragraphs.length, wordCounts: paragraphs.map(countWords) },
+    sentences: {
+      count: sentenceLengths.length,
+      averageLength: sentenceLengths.length ? round(sentenceLengths.reduce((a, b) => a + b, 0) / sentenceLengths.length, 1) : 0,
+      longest: sentenceLengths.length ? Math.max(...sentenceLengths) : 0,
+      distribution,
+    },
+    lexicalDiversity: {
+      typeTokenRatio: tokens.length ? round(frequencies.size / tokens.length) : 0,
+      mtld: (() => {
+        const value = mtld(tokens);
+        return value === null ? null : round(value, 1);
+      })(),
+    },
+    academicWords: {
+      coverage: tokens.length ? round(academicCount / tokens.length, 3) : 0,
+      count: academicCount,
+      families: [...families].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([word]) => word),
+    },
+    repeatedWords,
+    cohesiveDevices: {
+      total: cohesiveTotal,
+      perHundredWords: wordCount ? round((cohesiveTotal / wordCount) * 100, 1) : 0,
+      byFunction,
+      used,
+      overused: used.filter(d => d.count >= COHESIVE_OVERUSE).map(d => d.device),
+    },
+  };
+}
+
+/** Metrics read back from a stored report or column, or null when absent or from an unknown version */
+export function readEssayMetrics(value: unknown): EssayMetrics | null {
+  if (!value || typeof value !== 'object') return null;
+  const metrics = value as Partial<EssayMetrics>;
+  return metrics.version === ESSAY_METRICS_VERSION && typeof metrics.wordCount === 'number' ? (metrics as EssayMetrics) : null;
+}
@@ -0,0 +1,540 @@
+/**
+ * Gemini Client
+ *
+ * The one place edge functions talk to Gemini: a single model-fallback
+ * policy, error classification onto the ApiErrorKind values the frontend
+ * already renders (see apiErrors.ts), per-call and running token totals,
+ * and JSON extraction from model output with schema validation and one
+ * repair turn (schemas live in aiSchemas.ts). The transport is a pluggable
+ * provider so functions can be exercised offline with createFakeProvider.
+ * Imports carry explicit .ts extensions so the edge functions can import
+ * this module under Deno (via supabase/functions/_shared/gemini.ts).
+ */
+
+import type { ApiErrorKind } from './apiErrors.ts';
+
+// ─── Model policy ────────────────────────────────────────────────────────────
+
+export type GeminiModelTier = 'pro' | 'flash' | 'lite' | 'gemma';
+
+export interface GeminiModelInfo {
+  name: string;
+  tier: GeminiModelTier;
+  /** Accepts inline audio / image parts (Gemma models are text only). */
+  multimodal: boolean;
+}
+
+/**
+ * Every model we are willing to call, best first. Callers pick where in the
+ * list to start (by tier) rather than keeping their own lists. Older names
+ * (gemini-1.5-*, gemini-exp-*) 404 on v1beta and are deliberately absent.
+ */
+export const GEMINI_MODELS: readonly GeminiModelInfo[] = [
+  { name: 'gemini-2.5-pro', tier: 'pro', multimodal: true },
+  { name: 'gemini-pro-latest', tier: 'pro', multimodal: true },
+  { name: 'gemini-3-pro-preview', tier: 'pro', multimodal: true },
+  { name: 'gemini-2.5-flash', tier: 'flash', multimodal: true },
+  { name: 'gemini-flash-latest', tier: 'flash', multimodal: true },
+  { name: 'gemini-2.0-flash', tier: 'flash', multimodal: true },
+  { name: 'gemini-2.0-flash-001', tier: 'flash', multimodal: true },
+  { name: 'gemini-2.5-flash-lite', tier: 'lite', multimodal: true },
+  { name: 'gemini-flash-lite-latest', tier: 'lite', multimodal: true },
+  { name: 'gemini-2.0-flash-lite-001', tier: 'lite', multimodal: true },
+  { name: 'gemini-2.0-flash-lite', tier: 'lite', multimodal: true },
+  { name: 'gemma-3-27b-it', tier: 'gemma', multimodal: false },
+  { name: 'gemma-3-12b-it', tier: 'gemma', multimodal: false },
+  { name: 'gemma-3-4b-it', tier: 'gemma', multimodal: false },
+];
+
+export const GEMINI_MODEL_FALLBACK_ORDER: readonly string[] = GEMINI_MODELS.map(m => m.name);
+
+const TIER_ORDER: GeminiModelTier[] = ['pro', 'flash', 'lite', 'gemma'];
+
+export interface ModelPolicyOptions {
+  /** Skip every tier above this one. Defaults to 'pro'. */
+  startTier?: GeminiModelTier;
+  /** Only models that accept audio / image parts. */
+  multimodal?: boolean;
+}
+
+/** Fallback order for one call, derived from GEMINI_MODELS. */
+export function geminiModelsFor(options: ModelPolicyOptions = {}): string[] {
+  const start = TIER_ORDER.indexOf(options.startTier ?? 'pro');
+  return GEMINI_MODELS
+    .filter(m => TIER_ORDER.indexOf(m.tier) >= start)
+    .filter(m => !options.multimodal || m.multimodal)
+    .map(m => m.name);
+}
+
+// ─── Errors ──────────────────────────────────────────────────────────────────
+
+export class LlmError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly model?: string;
+
+  constructor(kind: ApiErrorKind, message: string, options: { status?: number; model?: string } = {}) {
+    super(message);
+    this.name = 'LlmError';
+    this.kind = kind;
+    this.status = options.status;
+    this.model = options.model;
+  }
+}
+
+export interface ValidationIssue {
+  /** Dotted path into the model's JSON, '' for the root. */
+  path: string;
+  message: string;
+}
+
+/**
+ * Stored in place of a report when the model's output never matched the
+ * schema, so pages can show what went wrong instead of a half-parsed report.
+ */
+export interface AiValidationFailure {
+  message: string;
+  model?: string;
+  issues: ValidationIssue[];
+  raw_response?: string;
+}
+
+/** The model answered, but not with JSON matching the expected schema (even after a repair attempt). */
+export class LlmValidationError extends LlmError {
+  readonly issues: ValidationIssue[];
+  readonly rawText: string;
+
+  constructor(message: string, issues: ValidationIssue[], rawText: string, model?: string) {
+    super('unknown', message, { model });
+    this.name = 'LlmValidationError';
+    this.issues = issues;
+    this.rawText = rawText;
+  }
+
+  toFailure(): AiValidationFailure {
+    return { message: this.message, model: this.model, issues: this.issues, raw_response: this.rawText };
+  }
+}
+
+/** Maps a Gemini HTTP failure to the ApiErrorKind the frontend understands. */
+export function classifyGeminiError(status: number, body = ''): ApiErrorKind {
+  const text = body.toLowerCase();
+
+  if (text.includes('api_key_invalid') || text.includes('api key not valid') || text.includes('api key expired')) {
+    return 'invalid_key';
+  }
+  if (text.includes('consumer_suspended') || text.includes('suspended')) {
+    return 'key_suspended';
+  }
+
+  if (status === 429) {
+    return text.includes('quota') && !/per ?minute/.test(text) ? 'quota' : 'rate_limited';
+  }
+  if (status === 401) return 'unauthorized';
+  if (status === 402) return 'credits';
+  if (status === 403) return 'permission_denied';
+  if (status >= 500) return 'network';
+  return 'unknown';
+}
+
+/**
+ * Whether another model on the same key could succeed. Key-level failures
+ * (bad, suspended or unauthorised key, exhausted credits) end the fallback.
+ */
+export function shouldTryNextModel(kind: ApiErrorKind): boolean {
+  return kind !== 'invalid_key' && kind !== 'key_suspended' && kind !== 'unauthorized' && kind !== 'credits';
+}
+
+/** HTTP status an edge function should answer with for an LlmError. */
+export function httpStatusForLlmError(kind: ApiErrorKind): number {
+  switch (kind) {
+    case 'quota':
+    case 'rate_limited':
+      return 429;
+    case 'credits':
+      return 402;
+    case 'invalid_key':
+    case 'key_suspended':
+    case 'permission_denied':
+      return 403;
+    case 'unauthorized':
+      return 401;
+    case 'network':
+      return 503;
+    default:
+      return 500;
+  }
+}
+
+// ─── Token accounting ────────────────────────────────────────────────────────
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+/** Reads Gemini's usageMetadata block; missing counts are treated as 0. */
+export function usageFromGemini(metadata: unknown): TokenUsage {
+  const m = (metadata ?? {}) as Record<string, unknown>;
+  const promptTokens = Number(m.promptTokenCount) || 0;
+  const outputTokens = Number(m.candidatesTokenCount) || 0;
+  const totalTokens = Number(m.totalTokenCount) || promptTokens + outputTokens;
+  return { promptTokens, outputTokens, totalTokens };
+}
+
+// ─── Providers ───────────────────────────────────────────────────────────────
+
+export interface GeminiPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  inline_data?: { mime_type: string; data: string };
+}
+
+export interface GeminiContent {
+  role?: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+export interface GeminiGenerationConfig {
+  temperature?: number;
+  maxOutputTokens?: number;
+  responseMimeType?: string;
+  [key: string]: unknown;
+}
+
+export interface ProviderRequest {
+  model: string;
+  contents: GeminiContent[];
+  systemInstruction?: string;
+  generationConfig?: GeminiGenerationConfig;
+  signal?: AbortSignal;
+}
+
+export interface ProviderResponse {
+  text: string;
+  usage: TokenUsage;
+}
+
+/** Sends one request to one model. Failures must be thrown as LlmError. */
+export interface LlmProvider {
+  generate(request: ProviderRequest): Promise<ProviderResponse>;
+}
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+
+type FetchLike = (input: string, init: RequestInit) => Promise<Response>;
+
+export function createGeminiProvider(apiKey: string, fetchImpl: FetchLike = fetch): LlmProvider {
+  return {
+    async generate({ model, contents, systemInstruction, generationConfig, signal }) {
+      const url = `${GEMINI_API_BASE}/models/${model}:generateContent?key=${encodeURIComponent(apiKey)}`;
+      const body: Record<string, unknown> = { contents };
+      if (systemInstruction) body.systemInstruction = { parts: [{ text: systemInstruction }] };
+      if (generationConfig) body.generationConfig = generationConfig;
+
+      const response = await fetchImpl(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        throw new LlmError(
+          classifyGeminiError(response.status, errorText),
+          `${model} returned ${response.status}: ${errorText.slice(0, 300)}`,
+          { status: response.status, model },
+        );
+      }
+
+      const data = await response.json();
+      const text = (data?.candidates?.[0]?.content?.parts ?? [])
+        .map((p: GeminiPart) => p?.text)
+        .filter(Boolean)
+        .join('\n');
+      if (!text) {
+        const reason = data?.candidates?.[0]?.finishReason ?? data?.promptFeedback?.blockReason ?? 'no content';
+        throw new LlmError('unknown', `${model} returned an empty response (${reason})`, { model });
+      }
+      return { text, usage: usageFromGemini(data?.usageMetadata) };
+    },
+  };
+}
+
+export type FakeReply = string | ProviderResponse | LlmError;
+
+export interface FakeProvider extends LlmProvider {
+  /** Every request the fake received, in order. */
+  calls: ProviderRequest[];
+}
+
+/**
+ * Offline provider for tests. Replies are either consumed in order from a
+ * list (the last one repeats) or computed per request.
+ */
+export function createFakeProvider(replies: FakeReply[] | ((request: ProviderRequest) => FakeReply)): FakeProvider {
+  const calls: ProviderRequest[] = [];
+  return {
+    calls,
+    async generate(request) {
+      calls.push(request);
+      const reply = typeof replies === 'function'
+        ? replies(request)
+        : replies[Math.min(calls.length - 1, replies.length - 1)];
+      if (reply instanceof LlmError) throw reply;
+      if (typeof reply === 'string') {
+        return { text: reply, usage: EMPTY_USAGE };
+      }
+      return reply;
+    },
+  };
+}
+
+// ─── JSON extraction ─────────────────────────────────────────────────────────
+
+/**
+ * Pulls the JSON value out of model output that may be wrapped in a
+ * markdown fence or surrounded by prose. Returns null when nothing parses.
+ */
+export function extractJson<T = unknown>(text: string): T | null {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidates = [fenced?.[1], trimmed];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate) as T;
+    } catch {
+      // fall through to bracket slicing
+    }
+    const start = candidate.search(/[{[]/);
+    if (start === -1) continue;
+    const close = candidate[start] === '{' ? '}' : ']';
+    const end = candidate.lastIndexOf(close);
+    if (end <= start) continue;
+    try {
+      return JSON.parse(candidate.slice(start, end + 1)) as T;
+    } catch {
+      // try the next candidate
+    }
+  }
+  return null;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+// Compare `ok` with === true / === false: the app tsconfig is not strict, and
+// without strictNullChecks a plain truthiness check does not narrow the union.
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+/** Checks parsed model JSON against a schema; see zodValidator in aiSchemas.ts. */
+export type Validator<T> = (value: unknown) => ValidationResult<T>;
+
+/** Extracts the JSON from model output and runs it through a validator. */
+export function validateModelOutput<T>(text: string, validate: Validator<T>): ValidationResult<T> {
+  const parsed = extractJson(text);
+  if (parsed === null) {
+    return { ok: false, issues: [{ path: '', message: 'Response is not valid JSON' }] };
+  }
+  return validate(parsed);
+}
+
+const MAX_REPAIR_ISSUES = 20;
+
+/** Follow-up turn asking the model to fix its previous answer. */
+export function buildRepairPrompt(issues: ValidationIssue[]): string {
+  const listed = issues
+    .slice(0, MAX_REPAIR_ISSUES)
+    .map(issue => `- ${issue.path || '(root)'}: ${issue.message}`)
+    .join('\n');
+  const more = issues.length > MAX_REPAIR_ISSUES ? `\n- ...and ${issues.length - MAX_REPAIR_ISSUES} more` : '';
+  return `Your previous response did not match the required JSON structure:
+${listed}${more}
+
+Return the complete corrected JSON object only. Keep every field that was already valid, fix the fields listed above, and do not add any text outside the JSON.`;
+}
+
+// ─── Client ──────────────────────────────────────────────────────────────────
+
+export interface LlmRequest {
+  /** A bare string is sent as a single user turn. */
+  contents: GeminiContent[] | string;
+  systemInstruction?: string;
+  generationConfig?: GeminiGenerationConfig;
+  /** Overrides the client's fallback order for this call. */
+  models?: readonly string[];
+  timeoutMs?: number;
+}
+
+export interface LlmAttempt {
+  model: string;
+  kind?: ApiErrorKind;
+  message?: string;
+}
+
+export interface LlmResult {
+  text: string;
+  model: string;
+  usage: TokenUsage;
+  attempts: LlmAttempt[];
+}
+
+export interface LlmJsonResult<T> extends Omit<LlmResult, 'text'> {
+  data: T;
+  text: string;
+}
+
+export interface LlmValidatedResult<T> extends LlmJsonResult<T> {
+  /** True when the first answer failed validation and the repair turn fixed it. */
+  repaired: boolean;
+}
+
+export interface LlmClientOptions {
+  provider: LlmProvider;
+  models?: readonly string[];
+  timeoutMs?: number;
+  /** Prefix for console logs, e.g. '[evaluate-ai-speaking]'. */
+  logPrefix?: string;
+}
+
+export interface LlmClient {
+  generateText(request: LlmRequest): Promise<LlmResult>;
+  /** Like generateText, but a model whose output is not JSON counts as a failed attempt. */
+  generateJson<T = unknown>(request: LlmRequest): Promise<LlmJsonResult<T>>;
+  /**
+   * Generates JSON and checks it with `validate`. On failure the model that
+   * answered is sent its own output plus the issues for one repair turn; if
+   * that still fails an LlmValidationError is thrown.
+   */
+  generateValidated<T>(request: LlmRequest, validate: Validator<T>): Promise<LlmValidatedResult<T>>;
+  /** Tokens used by every successful call made through this client. */
+  readonly usage: TokenUsage;
+}
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+export function createLlmClient(options: LlmClientOptions): LlmClient {
+  const { provider, logPrefix = '[gemini]' } = options;
+  let totals: TokenUsage = EMPTY_USAGE;
+
+  async function run<R>(request: LlmRequest, accept: (text: string) => R | null): Promise<{ value: R; result: LlmResult }> {
+    const models = request.models ?? options.models ?? GEMINI_MODEL_FALLBACK_ORDER;
+    const timeoutMs = request.timeoutMs ?? options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const contents = typeof request.contents === 'string'
+      ? [{ role: 'user' as const, parts: [{ text: request.contents }] }]
+      : request.contents;
+    const attempts: LlmAttempt[] = [];
+    let lastError: LlmError | null = null;
+
+    for (const model of models) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await provider.generate({
+          model,
+          contents,
+          systemInstruction: request.systemInstruction,
+          generationConfig: request.generationConfig,
+          signal: controller.signal,
+        });
+        totals = addUsage(totals, response.usage);
+
+        const value = accept(response.text);
+        if (value === null) {
+          throw new LlmError('unknown', `${model} did not return valid JSON`, { model });
+        }
+
+        attempts.push({ model });
+        console.log(`${logPrefix} ${model} ok (${response.usage.totalTokens} tokens)`);
+        return { value, result: { text: response.text, model, usage: response.usage, attempts } };
+      } catch (err) {
+        const error = toLlmError(err, model, controller.signal.aborted, timeoutMs);
+        attempts.push({ model, kind: error.kind, message: error.message });
+        console.warn(`${logPrefix} ${model} failed (${error.kind}): ${error.message}`);
+        lastError = error;
+        if (!shouldTryNextModel(error.kind)) break;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    throw lastError ?? new LlmError('unknown', 'No models configured');
+  }
+
+  return {
+    async generateText(request) {
+      const { result } = await run(request, text => text);
+      return result;
+    },
+    async generateJson<T>(request: LlmRequest) {
+      const { value, result } = await run(request, text => extractJson<T>(text));
+      return { ...result, data: value };
+    },
+    async generateValidated<T>(request: LlmRequest, validate: Validator<T>) {
+      const { result: first } = await run(request, text => text);
+      const checked = validateModelOutput(first.text, validate);
+      if (checked.ok === true) {
+        return { ...first, data: checked.value, repaired: false };
+      }
+
+      console.warn(`${logPrefix} ${first.model} output failed validation (${checked.issues.length} issues), asking for a repair`);
+      const models = request.models ?? options.models ?? GEMINI_MODEL_FALLBACK_ORDER;
+      // The repair is a multi-turn conversation, so every original turn needs a role
+      const contents: GeminiContent[] = typeof request.contents === 'string'
+        ? [{ role: 'user', parts: [{ text: request.contents }] }]
+        : request.contents.map(content => ({ ...content, role: content.role ?? 'user' }));
+      const { result: second } = await run({
+        ...request,
+        contents: [
+          ...contents,
+          { role: 'model', parts: [{ text: first.text }] },
+          { role: 'user', parts: [{ text: buildRepairPrompt(checked.issues) }] },
+        ],
+        models: models.slice(Math.max(0, models.indexOf(first.model))),
+      }, text => text);
+
+      const repaired = validateModelOutput(second.text, validate);
+      const attempts = [...first.attempts, ...second.attempts];
+      if (repaired.ok === false) {
+        throw new LlmValidationError(
+          `${second.model} returned output that does not match the expected schema`,
+          repaired.issues,
+          second.text,
+          second.model,
+        );
+      }
+      return {
+        ...second,
+        usage: addUsage(first.usage, second.usage),
+        attempts,
+        data: repaired.value,
+        repaired: true,
+      };
+    },
+    get usage() {
+      return totals;
+    },
+  };
+}
+
+function toLlmError(err: unknown, model: string, aborted: boolean, timeoutMs: number): LlmError {
+  if (err instanceof LlmError) return err;
+  if (aborted) return new LlmError('network', `${model} timed out after ${timeoutMs}ms`, { model });
+  const message = err instanceof Error ? err.message : String(err);
+  return new LlmError('network', message, { model });
+}
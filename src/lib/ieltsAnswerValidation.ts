@@ -7,6 +7,7 @@
  * - Valid alternative formats (dates, times, measurements, currency, spelling)
  * - Grammatical & case sensitivity rules
  * - Alphanumeric code handling
+ * - Pluggable matching rules, configurable per test / question group
  */
 
 // ============================================================================
@@ -857,18 +858,305 @@ function matchWithHyphens(userAnswer: string, correctAnswer: string): boolean {
   return user === correct;
 }
 
+// ============================================================================
+// CUSTOM EQUIVALENCE TABLES (admin-defined)
+// ============================================================================
+
+/**
+ * Admin-defined equivalence table. Each entry is a set of words/phrases that
+ * should be accepted interchangeably, e.g. [["cinema", "movie theatre"]].
+ */
+export interface CustomEquivalenceTable {
+  name: string;
+  entries: string[][];
+}
+
+function areCustomEquivalent(a: string, b: string, tables: CustomEquivalenceTable[]): string | null {
+  for (const table of tables) {
+    for (const entry of table.entries) {
+      const normalized = entry.map(e => normalizeString(e));
+      if (normalized.includes(a) && normalized.includes(b)) return table.name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Match whole phrases first, then word-by-word substitution
+ */
+function matchCustomEquivalence(user: string, correct: string, tables: CustomEquivalenceTable[]): string | null {
+  if (tables.length === 0) return null;
+
+  const phraseMatch = areCustomEquivalent(user, correct, tables);
+  if (phraseMatch) return phraseMatch;
+
+  const userWords = user.split(/\s+/);
+  const correctWords = correct.split(/\s+/);
+  if (userWords.length !== correctWords.length) return null;
+
+  let matchedTable: string | null = null;
+  for (let i = 0; i < userWords.length; i++) {
+    if (userWords[i] === correctWords[i]) continue;
+    const table = areCustomEquivalent(userWords[i], correctWords[i], tables);
+    if (!table) return null;
+    matchedTable = table;
+  }
+  return matchedTable;
+}
+
+// ============================================================================
+// ANSWER MATCHING RULE REGISTRY
+// ============================================================================
+
+export type AnswerMatchRuleId =
+  | 'exact'
+  | 'ignore_spaces'
+  | 'spelling_variant'
+  | 'custom_equivalence'
+  | 'date_format'
+  | 'time_format'
+  | 'number_format'
+  | 'number_with_text'
+  | 'measurement'
+  | 'currency'
+  | 'phone_number'
+  | 'alphanumeric_code'
+  | 'hyphenation'
+  | 'article'
+  | 'option_id';
+
+/**
+ * Per-test / per-question-group matching configuration.
+ * Stored as JSON in the `answer_matching` column of tests and question groups.
+ */
+export interface AnswerMatchingConfig {
+  /** Rules that must not be applied (the exact match rule is always applied) */
+  disabledRules?: AnswerMatchRuleId[];
+  /** Extra equivalence tables added from the admin editor */
+  customEquivalences?: CustomEquivalenceTable[];
+}
+
+export interface AnswerMatchContext {
+  customEquivalences: CustomEquivalenceTable[];
+}
+
+export interface AnswerMatchRule {
+  id: AnswerMatchRuleId;
+  label: string;
+  /** Shown on results pages, e.g. "Accepted as British/American spelling variant" */
+  explanation: string;
+  /** Rules that cannot be switched off from the editor */
+  locked?: boolean;
+  /** Returns true, or a string detail (e.g. equivalence table name), when the answers match */
+  match: (user: string, correct: string, ctx: AnswerMatchContext) => boolean | string | null;
+}
+
+export interface AnswerMatchResult {
+  isCorrect: boolean;
+  /** The rule that accepted the answer (null when incorrect) */
+  ruleId: AnswerMatchRuleId | null;
+  /** Human-readable reason the answer was accepted (or rejected, for word-limit failures) */
+  explanation: string | null;
+  /** The alternative from the answer key that matched */
+  matchedAnswer: string | null;
+  /** True when the answer was marked wrong for exceeding the instruction's word limit */
+  wordLimitExceeded?: boolean;
+}
+
+const withoutArticle = (s: string) => s.replace(/^(the|a|an)\s+/, '');
+
+/**
+ * Built-in rules, applied in order. Order matters: the first matching rule is
+ * reported, so the most literal rules come first.
+ */
+const ANSWER_MATCH_RULES: AnswerMatchRule[] = [
+  {
+    id: 'exact',
+    label: 'Exact match (case-insensitive)',
+    explanation: 'Exact match',
+    locked: true,
+    match: (user, correct) => user === correct,
+  },
+  {
+    id: 'ignore_spaces',
+    label: 'Ignore spacing',
+    explanation: 'Accepted ignoring spacing differences',
+    match: (user, correct) => removeAllSpaces(user) === removeAllSpaces(correct),
+  },
+  {
+    id: 'spelling_variant',
+    label: 'British/American spelling',
+    explanation: 'Accepted as British/American spelling variant',
+    match: (user, correct) => matchWithSpellingVariations(user, correct),
+  },
+  {
+    id: 'custom_equivalence',
+    label: 'Custom equivalence tables',
+    explanation: 'Accepted as an equivalent term',
+    match: (user, correct, ctx) => matchCustomEquivalence(user, correct, ctx.customEquivalences),
+  },
+  {
+    id: 'date_format',
+    label: 'Date formats',
+    explanation: 'Accepted as alternative date format',
+    match: (user, correct) => matchDate(user, correct),
+  },
+  {
+    id: 'time_format',
+    label: 'Time formats',
+    explanation: 'Accepted as alternative time format',
+    match: (user, correct) => matchTime(user, correct),
+  },
+  {
+    id: 'number_format',
+    label: 'Numbers as digits or words',
+    explanation: 'Accepted as equivalent number',
+    match: (user, correct) => matchNumber(user, correct),
+  },
+  {
+    id: 'number_with_text',
+    label: 'Numbers followed by text',
+    explanation: 'Accepted with number written as digits or words',
+    match: (user, correct) => matchNumberWithText(user, correct),
+  },
+  {
+    id: 'measurement',
+    label: 'Units of measurement',
+    explanation: 'Accepted as equivalent measurement unit',
+    match: (user, correct) => matchMeasurement(user, correct),
+  },
+  {
+    id: 'currency',
+    label: 'Currency formats',
+    explanation: 'Accepted as equivalent currency format',
+    match: (user, correct) => matchCurrency(user, correct),
+  },
+  {
+    id: 'phone_number',
+    label: 'Phone numbers',
+    explanation: 'Accepted as equivalent phone number format',
+    match: (user, correct) => matchPhoneNumber(user, correct),
+  },
+  {
+    id: 'alphanumeric_code',
+    label: 'Codes (postcodes, flight numbers)',
+    explanation: 'Accepted as equivalent code (spacing / O vs 0 ignored)',
+    match: (user, correct) => matchAlphanumericCode(user, correct),
+  },
+  {
+    id: 'hyphenation',
+    label: 'Hyphen / space variations',
+    explanation: 'Accepted with hyphen/space variation',
+    match: (user, correct) => matchWithHyphens(user, correct),
+  },
+  {
+    id: 'article',
+    label: 'Optional articles (the, a, an)',
+    explanation: 'Accepted without article',
+    match: (user, correct) => withoutArticle(user) === withoutArticle(correct),
+  },
+];
+
+/** Rules disabled by the "strict spelling" preset (e.g. Listening Part 1 spelling questions) */
+export const STRICT_SPELLING_DISABLED_RULES: AnswerMatchRuleId[] = [
+  'ignore_spaces',
+  'spelling_variant',
+  'custom_equivalence',
+  'hyphenation',
+];
+
+/**
+ * Register an additional matching rule. Rules with an existing id replace the built-in one.
+ */
+export function registerAnswerMatchRule(rule: AnswerMatchRule): void {
+  const existing = ANSWER_MATCH_RULES.findIndex(r => r.id === rule.id);
+  if (existing !== -1) {
+    ANSWER_MATCH_RULES[existing] = rule;
+  } else {
+    ANSWER_MATCH_RULES.push(rule);
+  }
+}
+
+export function getAnswerMatchRules(): readonly AnswerMatchRule[] {
+  return ANSWER_MATCH_RULES;
+}
+
+const OPTION_ID_RULE_EXPLANATION = 'Matched by option letter';
+
+export function getAnswerMatchExplanation(ruleId: AnswerMatchRuleId | null | undefined): string | null {
+  if (!ruleId) return null;
+  if (ruleId === 'option_id') return OPTION_ID_RULE_EXPLANATION;
+  return ANSWER_MATCH_RULES.find(r => r.id === ruleId)?.explanation ?? null;
+}
+
+/**
+ * Parse a stored `answer_matching` JSON value, dropping anything malformed
+ */
+export function parseAnswerMatchingConfig(value: unknown): AnswerMatchingConfig | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+  const config: AnswerMatchingConfig = {};
+
+  if (Array.isArray(raw.disabledRules)) {
+    config.disabledRules = raw.disabledRules.filter((r): r is AnswerMatchRuleId => typeof r === 'string');
+  }
+
+  if (Array.isArray(raw.customEquivalences)) {
+    config.customEquivalences = raw.customEquivalences
+      .filter((t): t is { name?: unknown; entries?: unknown } => !!t && typeof t === 'object')
+      .map((t, idx) => ({
+        name: typeof t.name === 'string' && t.name.trim() ? t.name : `Table ${idx + 1}`,
+        entries: Array.isArray(t.entries)
+          ? t.entries
+              .filter((e): e is unknown[] => Array.isArray(e))
+              .map(e => e.filter((w): w is string => typeof w === 'string' && w.trim() !== ''))
+              .filter(e => e.length >= 2)
+          : [],
+      }));
+  }
+
+  return config;
+}
+
+/**
+ * Merge configs from least to most specific (test → question group).
+ * The most specific layer that sets `disabledRules` wins; equivalence tables accumulate.
+ */
+export function resolveAnswerMatchingConfig(
+  ...layers: (AnswerMatchingConfig | null | undefined)[]
+): AnswerMatchingConfig {
+  const resolved: AnswerMatchingConfig = { disabledRules: [], customEquivalences: [] };
+  for (const layer of layers) {
+    if (!layer) continue;
+    if (layer.disabledRules) resolved.disabledRules = layer.disabledRules;
+    if (layer.customEquivalences) {
+      resolved.customEquivalences = [...(resolved.customEquivalences || []), ...layer.customEquivalences];
+    }
+  }
+  return resolved;
+}
+
 // ============================================================================
 // MAIN VALIDATION FUNCTIONS
 // ============================================================================
 
+const NO_MATCH: AnswerMatchResult = { isCorrect: false, ruleId: null, explanation: null, matchedAnswer: null };
+
 /**
- * Main answer checking function - checks if user answer matches correct answer
- * with IELTS Unified Marking Protocol
+ * Check a free-text answer against the answer key using the enabled rules,
+ * reporting which rule accepted it
  */
-export function checkIeltsAnswer(userAnswer: string, correctAnswers: string): boolean {
-  if (!userAnswer || !correctAnswers) return false;
+export function matchIeltsAnswer(
+  userAnswer: string,
+  correctAnswers: string,
+  config?: AnswerMatchingConfig | null
+): AnswerMatchResult {
+  if (!userAnswer || !correctAnswers) return NO_MATCH;
 
   const user = normalizeString(userAnswer);
+  const disabled = new Set(config?.disabledRules || []);
+  const rules = ANSWER_MATCH_RULES.filter(r => r.locked || !disabled.has(r.id));
+  const ctx: AnswerMatchContext = { customEquivalences: config?.customEquivalences || [] };
   
   // Split correct answers by "/" for alternative answers
   const rawAnswers = correctAnswers.split('/').map(a => a.trim());
@@ -880,49 +1168,33 @@ export function checkIeltsAnswer(userAnswer: string, correctAnswers: string): bo
     for (const correct of allVariations) {
       const normalizedCorrect = normalizeString(correct);
       
-      // 1. EXACT MATCH (case-insensitive)
-      if (user === normalizedCorrect) return true;
-
-      // 2. MATCH WITHOUT SPACES
-      if (removeAllSpaces(user) === removeAllSpaces(normalizedCorrect)) return true;
-
-      // 3. SPELLING VARIATIONS (British/American)
-      if (matchWithSpellingVariations(user, normalizedCorrect)) return true;
-
-      // 4. DATE FORMAT VARIATIONS
-      if (matchDate(user, normalizedCorrect)) return true;
-
-      // 5. TIME FORMAT VARIATIONS
-      if (matchTime(user, normalizedCorrect)) return true;
-
-      // 6. NUMBER FORMAT VARIATIONS
-      if (matchNumber(user, normalizedCorrect)) return true;
-
-      // 6b. NUMBER + TEXT VARIATIONS (e.g., "1 degree Celsius" = "one degree Celsius")
-      if (matchNumberWithText(user, normalizedCorrect)) return true;
-
-      // 7. MEASUREMENT VARIATIONS
-      if (matchMeasurement(user, normalizedCorrect)) return true;
-
-      // 8. CURRENCY VARIATIONS
-      if (matchCurrency(user, normalizedCorrect)) return true;
-
-      // 9. PHONE NUMBER VARIATIONS
-      if (matchPhoneNumber(user, normalizedCorrect)) return true;
-
-      // 10. ALPHANUMERIC CODE VARIATIONS
-      if (matchAlphanumericCode(user, normalizedCorrect)) return true;
-
-      // 11. HYPHEN/SPACE VARIATIONS
-      if (matchWithHyphens(user, normalizedCorrect)) return true;
-
-      // 12. ARTICLE VARIATIONS ("the", "a", "an")
-      const withoutArticle = (s: string) => s.replace(/^(the|a|an)\s+/, '');
-      if (withoutArticle(user) === withoutArticle(normalizedCorrect)) return true;
+      for (const rule of rules) {
+        const matched = rule.match(user, normalizedCorrect, ctx);
+        if (!matched) continue;
+
+        return {
+          isCorrect: true,
+          ruleId: rule.id,
+          explanation: typeof matched === 'string' ? `${rule.explanation} (${matched})` : rule.explanation,
+          matchedAnswer: rawCorrect,
+        };
+      }
     }
   }
 
-  return false;
+  return NO_MATCH;
+}
+
+/**
+ * Main answer checking function - checks if user answer matches correct answer
+ * with IELTS Unified Marking Protocol
+ */
+export function checkIeltsAnswer(
+  userAnswer: string,
+  correctAnswers: string,
+  config?: AnswerMatchingConfig | null
+): boolean {
+  return matchIeltsAnswer(userAnswer, correctAnswers, config).isCorrect;
 }
 
 /**
@@ -947,55 +1219,192 @@ export function checkMultipleChoiceMultiple(userAnswer: string, correctAnswer: s
          [...correctOptions].every(opt => userOptions.has(opt));
 }
 
+// For option-id based question types, compare by option id only.
+// This prevents "A/B/C/D" style strings from making every option appear correct.
+const OPTION_ID_TYPES = new Set([
+  'MULTIPLE_CHOICE',
+  'MULTIPLE_CHOICE_SINGLE',
+  'MATCHING_HEADINGS',
+  'MATCHING_INFORMATION',
+  'MATCHING_FEATURES',
+  'MATCHING_CORRECT_LETTER',
+  'DRAG_AND_DROP_OPTIONS',
+  // Matching Sentence Endings: compare by option id (A/B/C...), not full text.
+  'MATCHING_SENTENCE_ENDINGS',
+]);
+
+/** Whether answers to this type are option letters / ids rather than free text */
+export function isOptionIdQuestionType(questionType: string | null | undefined): boolean {
+  return !!questionType && (OPTION_ID_TYPES.has(questionType) || questionType === 'MULTIPLE_CHOICE_MULTIPLE');
+}
+
+const normalizeOptionId = (s: string) => {
+  const trimmed = (s ?? '').trim();
+  const m = trimmed.match(/^([A-Z]|\d+|[ivxlcdm]+)\b/i);
+  return (m?.[1] ?? trimmed).toUpperCase();
+};
+
+// ============================================================================
+// MULTI-MARK SCORING (Choose TWO/THREE letters)
+// ============================================================================
+
+/** One mark of a multi-answer question, e.g. Q21 of "Questions 21–22" */
+export interface MarkResult {
+  questionNumber: number;
+  /** Letter credited to this mark ('' when not enough letters were chosen) */
+  userAnswer: string;
+  isCorrect: boolean;
+}
+
+export interface MultiAnswerScore {
+  marks: MarkResult[];
+  score: number;
+  maxScore: number;
+  isFullyCorrect: boolean;
+  /** Normalized, comma-separated selections */
+  userAnswer: string;
+  correctAnswer: string;
+}
+
+const splitOptionIds = (value: string) =>
+  [...new Set((value || '').split(',').map(normalizeOptionId).filter(Boolean))];
+
 /**
- * Smart answer checker that determines the question type and applies appropriate logic
+ * Score a MULTIPLE_CHOICE_MULTIPLE answer the way IELTS does: each correct
+ * letter earns one mark, in any order. Selecting more letters than there are
+ * marks cancels one correct mark per extra letter, so choosing every option
+ * never pays off.
  */
-export function checkAnswer(
+export function scoreMultipleChoiceMultiple(
   userAnswer: string,
   correctAnswer: string,
-  questionType?: string
-): boolean {
+  questionNumbers: number[]
+): MultiAnswerScore {
+  const userLetters = splitOptionIds(userAnswer);
+  const correctLetters = splitOptionIds(correctAnswer);
+  const maxScore = questionNumbers.length || correctLetters.length;
+
+  const chosenCorrect = userLetters.filter(l => correctLetters.includes(l));
+  const chosenWrong = userLetters.filter(l => !correctLetters.includes(l));
+  const extraSelections = Math.max(0, userLetters.length - maxScore);
+  const score = Math.min(maxScore, Math.max(0, chosenCorrect.length - extraSelections));
+
+  // Credit correct letters to the first marks, then show the wrong picks
+  const ordered = [...chosenCorrect, ...chosenWrong];
+  const numbers = questionNumbers.length
+    ? questionNumbers
+    : correctLetters.map((_, i) => i + 1);
+
+  const marks = numbers.map((questionNumber, i) => ({
+    questionNumber,
+    userAnswer: ordered[i] || '',
+    isCorrect: i < score,
+  }));
+
+  return {
+    marks,
+    score,
+    maxScore,
+    isFullyCorrect: score === maxScore && maxScore > 0,
+    userAnswer: userLetters.join(','),
+    correctAnswer: correctLetters.join(','),
+  };
+}
+
+/** Question numbers covered by a group, e.g. 21–22 -> [21, 22] */
+export function questionRange(startQuestion: number, endQuestion: number): number[] {
+  const numbers: number[] = [];
+  for (let n = startQuestion; n <= endQuestion; n++) numbers.push(n);
+  return numbers;
+}
+
+/**
+ * Question numbers a MULTIPLE_CHOICE_MULTIPLE question row is worth: its own
+ * sub-group range when set, otherwise the whole group's range.
+ */
+export function multiAnswerRange(
+  question: { question_number: number; sub_group_start?: number | null; sub_group_end?: number | null },
+  group?: { start_question: number; end_question: number } | null
+): number[] {
+  if (question.sub_group_start && question.sub_group_end) {
+    return questionRange(question.sub_group_start, question.sub_group_end);
+  }
+  if (group && group.start_question === question.question_number) {
+    return questionRange(group.start_question, group.end_question);
+  }
+  return [question.question_number];
+}
+
+/**
+ * Total marks for a list of results: grouped multi-answer results contribute
+ * their partial score out of maxScore, everything else 1 mark each.
+ */
+export function totalMarks(results: { isCorrect: boolean; partialScore?: number; maxScore?: number }[]): {
+  score: number;
+  total: number;
+} {
+  let score = 0;
+  let total = 0;
+  for (const r of results) {
+    if (r.maxScore !== undefined) {
+      score += r.partialScore || 0;
+      total += r.maxScore;
+    } else {
+      if (r.isCorrect) score += 1;
+      total += 1;
+    }
+  }
+  return { score, total };
+}
+
+/**
+ * Smart answer matcher that determines the question type and applies appropriate logic,
+ * reporting which rule accepted the answer. Free-text answers over the word limit
+ * are marked wrong regardless of content.
+ */
+export function matchAnswer(
+  userAnswer: string,
+  correctAnswer: string,
+  questionType?: string,
+  config?: AnswerMatchingConfig | null,
+  wordLimit?: WordLimit | null
+): AnswerMatchResult {
   // Handle multiple choice multiple answers
   if (questionType === 'MULTIPLE_CHOICE_MULTIPLE') {
-    return checkMultipleChoiceMultiple(userAnswer, correctAnswer);
+    return checkMultipleChoiceMultiple(userAnswer, correctAnswer)
+      ? { isCorrect: true, ruleId: 'option_id', explanation: OPTION_ID_RULE_EXPLANATION, matchedAnswer: correctAnswer }
+      : NO_MATCH;
   }
 
-  // For option-id based question types, compare by option id only.
-  // This prevents "A/B/C/D" style strings from making every option appear correct.
-  const optionIdTypes = new Set([
-    'MULTIPLE_CHOICE',
-    'MULTIPLE_CHOICE_SINGLE',
-    'MATCHING_HEADINGS',
-    'MATCHING_INFORMATION',
-    'MATCHING_FEATURES',
-    'MATCHING_CORRECT_LETTER',
-    'DRAG_AND_DROP_OPTIONS',
-  ]);
-
-  const normalizeOptionId = (s: string) => {
-    const trimmed = (s ?? '').trim();
-    const m = trimmed.match(/^([A-Z]|\d+|[ivxlcdm]+)\b/i);
-    return (m?.[1] ?? trimmed).toUpperCase();
-  };
-
-  if (questionType && optionIdTypes.has(questionType)) {
-    if (!userAnswer || !correctAnswer) return false;
-    return normalizeOptionId(userAnswer) === normalizeOptionId(correctAnswer);
+  if (questionType && OPTION_ID_TYPES.has(questionType)) {
+    if (!userAnswer || !correctAnswer) return NO_MATCH;
+    return normalizeOptionId(userAnswer) === normalizeOptionId(correctAnswer)
+      ? { isCorrect: true, ruleId: 'option_id', explanation: OPTION_ID_RULE_EXPLANATION, matchedAnswer: correctAnswer }
+      : NO_MATCH;
   }
 
-  // Matching Sentence Endings: compare by option id (A/B/C...), not full text.
-  if (questionType === 'MATCHING_SENTENCE_ENDINGS') {
-    const extractId = (s: string) => {
-      const trimmed = (s ?? '').trim();
-      const m = trimmed.match(/^([A-Z]|\d+|[ivxlcdm]+)\b/i);
-      return (m?.[1] ?? trimmed).toUpperCase();
-    };
-    if (!userAnswer || !correctAnswer) return false;
-    return extractId(userAnswer) === extractId(correctAnswer);
+  if (wordLimit && userAnswer && (!questionType || isWordLimitedQuestionType(questionType))) {
+    const check = checkWordLimit(userAnswer, wordLimit);
+    if (!check.valid) {
+      return { ...NO_MATCH, explanation: check.reason, wordLimitExceeded: true };
+    }
   }
 
   // Use IELTS-aware validation for other types
-  return checkIeltsAnswer(userAnswer, correctAnswer);
+  return matchIeltsAnswer(userAnswer, correctAnswer, config);
+}
+
+/**
+ * Smart answer checker that determines the question type and applies appropriate logic
+ */
+export function checkAnswer(
+  userAnswer: string,
+  correctAnswer: string,
+  questionType?: string,
+  config?: AnswerMatchingConfig | null,
+  wordLimit?: WordLimit | null
+): boolean {
+  return matchAnswer(userAnswer, correctAnswer, questionType, config, wordLimit).isCorrect;
 }
 
 
@@ -1051,3 +1460,137 @@ export function validateWordLimit(
     numberCount: numbers
   };
 }
+
+// ============================================================================
+// WORD LIMITS FROM INSTRUCTIONS
+// ============================================================================
+
+/**
+ * Maximum words / numbers allowed in an answer.
+ * maxNumbers = 0 means the instruction allows no separate number, so digits
+ * count toward the word limit ("ONE WORD ONLY").
+ */
+export interface WordLimit {
+  maxWords: number;
+  maxNumbers: number;
+}
+
+export interface WordLimitCheck {
+  valid: boolean;
+  wordCount: number;
+  numberCount: number;
+  /** Why the answer is over the limit (null when valid) */
+  reason: string | null;
+}
+
+const LIMIT_NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+};
+
+const LIMIT_COUNT_WORDS = ['ZERO', 'ONE', 'TWO', 'THREE', 'FOUR', 'FIVE', 'SIX'];
+
+const parseLimitCount = (token: string): number | null => {
+  const lower = token.toLowerCase();
+  if (lower in LIMIT_NUMBER_WORDS) return LIMIT_NUMBER_WORDS[lower];
+  const n = parseInt(lower, 10);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+const LIMIT_TOKEN = '(a|an|one|two|three|four|five|six|\\d+)';
+
+/**
+ * Parse the word limit from instruction text, e.g.
+ * "Write NO MORE THAN TWO WORDS AND/OR A NUMBER" -> { maxWords: 2, maxNumbers: 1 }
+ * "Write ONE WORD ONLY" -> { maxWords: 1, maxNumbers: 0 }
+ * "Write A NUMBER" -> { maxWords: 0, maxNumbers: 1 }
+ */
+export function parseWordLimit(instruction: string | null | undefined): WordLimit | null {
+  if (!instruction) return null;
+
+  // Drop markdown emphasis and HTML tags used to highlight the limit
+  const text = instruction.replace(/<[^>]+>/g, ' ').replace(/\*+/g, '').replace(/\s+/g, ' ');
+
+  const wordsMatch = text.match(new RegExp(`\\b${LIMIT_TOKEN}\\s+words?\\b`, 'i'));
+  // "a number of ..." is prose, not a limit
+  const numbersMatch = text.match(new RegExp(`\\b${LIMIT_TOKEN}\\s+numbers?\\b(?!\\s+of\\b)`, 'i'));
+
+  const maxWords = wordsMatch ? parseLimitCount(wordsMatch[1]) : null;
+  const maxNumbers = numbersMatch ? parseLimitCount(numbersMatch[1]) : null;
+
+  if (maxWords === null && maxNumbers === null) return null;
+  return { maxWords: maxWords ?? 0, maxNumbers: maxNumbers ?? 0 };
+}
+
+// Free-text question types whose answers are subject to the instruction's word limit
+const WORD_LIMITED_TYPES = new Set([
+  'FILL_IN_BLANK',
+  'SENTENCE_COMPLETION',
+  'NOTE_COMPLETION',
+  'SUMMARY_COMPLETION',
+  'TABLE_COMPLETION',
+  'FLOWCHART_COMPLETION',
+  'SHORT_ANSWER',
+  'DIAGRAM_LABELING',
+  'DIAGRAM_LABELLING',
+]);
+
+export function isWordLimitedQuestionType(questionType: string): boolean {
+  return WORD_LIMITED_TYPES.has(questionType);
+}
+
+/**
+ * Resolve the word limit for a question group: structured max_words / max_numbers
+ * take precedence over the limit parsed from the instruction text.
+ */
+export function resolveWordLimit(
+  group: { max_words?: number | null; max_numbers?: number | null; instruction?: string | null } | null | undefined,
+  fallbackInstruction?: string | null
+): WordLimit | null {
+  if (group?.max_words || group?.max_numbers) {
+    return { maxWords: group.max_words ?? 0, maxNumbers: group.max_numbers ?? 0 };
+  }
+  return parseWordLimit(group?.instruction) || parseWordLimit(fallbackInstruction);
+}
+
+/** Format a limit the way IELTS instructions do, e.g. "NO MORE THAN TWO WORDS AND/OR A NUMBER" */
+export function describeWordLimit(limit: WordLimit): string {
+  const count = (n: number) => LIMIT_COUNT_WORDS[n] ?? String(n);
+  if (limit.maxWords === 0) {
+    return limit.maxNumbers === 1 ? 'A NUMBER' : `NO MORE THAN ${count(limit.maxNumbers)} NUMBERS`;
+  }
+  const words = limit.maxWords === 1
+    ? (limit.maxNumbers > 0 ? 'ONE WORD' : 'ONE WORD ONLY')
+    : `NO MORE THAN ${count(limit.maxWords)} WORDS`;
+  if (limit.maxNumbers === 0) return words;
+  return `${words} AND/OR ${limit.maxNumbers === 1 ? 'A NUMBER' : `${count(limit.maxNumbers)} NUMBERS`}`;
+}
+
+/**
+ * Check an answer against a word limit, reporting a specific reason when over
+ */
+export function checkWordLimit(text: string, limit: WordLimit): WordLimitCheck {
+  const { words, numbers } = countWords(text);
+  const describe = describeWordLimit(limit);
+  const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 ? '' : 's'}`;
+
+  let reason: string | null = null;
+  if (limit.maxNumbers === 0) {
+    // No separate number allowance: every token counts toward the word limit
+    const tokens = text.replace(/[$£€¥%@#&*]/g, '').trim().split(/\s+/).filter(Boolean).length;
+    if (tokens > limit.maxWords) {
+      reason = `Over the word limit: ${plural(tokens, 'word')} used (${describe})`;
+    }
+  } else if (words > limit.maxWords) {
+    reason = `Over the word limit: ${plural(words, 'word')} used (${describe})`;
+  } else if (numbers > limit.maxNumbers) {
+    reason = `Over the word limit: ${plural(numbers, 'number')} used (${describe})`;
+  }
+
+  return { valid: reason === null, wordCount: words, numberCount: numbers, reason };
+}
+
+/** True when a non-empty answer breaks the word limit (used for live warnings) */
+export function isOverWordLimit(answer: string | null | undefined, limit: WordLimit | null | undefined): boolean {
+  if (!answer?.trim() || !limit) return false;
+  return !checkWordLimit(answer, limit).valid;
+}
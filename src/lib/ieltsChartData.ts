@@ -0,0 +1,61 @@
+/**
+ * IELTS Chart Data
+ *
+ * The structured form of an AI-generated Task 1 visual. IELTSVisualRenderer
+ * draws it, and the Task 1 data check reads the figures out of it.
+ */
+
+export interface ChartDataItem {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+export interface LineDataPoint {
+  x: string | number;
+  y: number;
+}
+
+export interface LineSeriesData {
+  name: string;
+  data: LineDataPoint[];
+  color?: string;
+}
+
+export interface TableCell {
+  value: string | number;
+  isHeader?: boolean;
+}
+
+export interface ProcessStep {
+  label: string;
+  description?: string;
+}
+
+export interface MapFeature {
+  label: string;
+  type: 'building' | 'road' | 'park' | 'water' | 'other';
+  position?: string;
+}
+
+export interface MapData {
+  before?: { year: string; features: MapFeature[] };
+  after?: { year: string; features: MapFeature[] };
+  features?: MapFeature[];
+}
+
+// Main chart data interface
+export interface IELTSChartData {
+  type: 'BAR_CHART' | 'LINE_GRAPH' | 'PIE_CHART' | 'TABLE' | 'PROCESS_DIAGRAM' | 'MAP' | 'MIXED_CHARTS';
+  title: string;
+  subtitle?: string;
+  xAxisLabel?: string;
+  yAxisLabel?: string;
+  data?: ChartDataItem[];
+  series?: LineSeriesData[];
+  rows?: TableCell[][];
+  headers?: string[];
+  steps?: ProcessStep[];
+  mapData?: MapData;
+  charts?: IELTSChartData[]; // For mixed charts
+}
@@ -65,6 +65,22 @@ export const WRITING_TASK1_TOPICS = [
   'Natural Phenomena',
 ] as const;
 
+// General Training Task 1 letters
+export const WRITING_TASK1_GT_TOPICS = [
+  'Complaints',
+  'Requests for Information',
+  'Job Applications',
+  'Apologies',
+  'Invitations',
+  'Thank-you Letters',
+  'Neighbour Issues',
+  'Accommodation Problems',
+  'Travel & Holiday Plans',
+  'Workplace Suggestions',
+  'Lost Property',
+  'Community Events',
+] as const;
+
 export const WRITING_TASK2_TOPICS = [
   'Education System',
   'Technology in Society',
@@ -186,7 +202,9 @@ export function getTopicsForModule(
     case 'listening':
       return LISTENING_TOPICS;
     case 'writing':
-      return subtype === 'TASK_1' ? WRITING_TASK1_TOPICS : WRITING_TASK2_TOPICS;
+      if (subtype === 'TASK_1') return WRITING_TASK1_TOPICS;
+      if (subtype === 'TASK_1_GT') return WRITING_TASK1_GT_TOPICS;
+      return WRITING_TASK2_TOPICS;
     case 'speaking':
       switch (subtype) {
         case 'PART_1': return SPEAKING_TOPICS_PART1;
@@ -0,0 +1,164 @@
+/**
+ * Item Analysis
+ *
+ * Classical test statistics per question, computed from marked Reading /
+ * Listening submissions so admins can spot questions that are too hard,
+ * too easy or likely broken (e.g. a wrong answer key). Used by the
+ * item-analysis edge function, which marks submissions with the service
+ * role.
+ */
+
+export interface MarkedItem {
+  questionNumber: number;
+  questionText?: string;
+  correctAnswer?: string;
+  userAnswer: string;
+  isCorrect: boolean;
+}
+
+export interface WrongAnswerCount {
+  answer: string;
+  count: number;
+}
+
+export interface ItemStats {
+  questionNumber: number;
+  questionText: string;
+  correctAnswer: string;
+  attempts: number;
+  /** Share of candidates who got it right (0–1) */
+  facility: number;
+  /**
+   * Correlation between getting this item right and the score on the rest
+   * of the test (corrected point-biserial, -1–1). Null when everyone got
+   * the same mark on either side.
+   */
+  discrimination: number | null;
+  /** Share of candidates who left it blank (0–1) */
+  blankRate: number;
+  commonWrongAnswers: WrongAnswerCount[];
+}
+
+export type ItemFlag = 'negative_discrimination' | 'too_hard' | 'high_blank_rate' | 'low_discrimination' | 'too_easy';
+
+/** A flagged question of a published test */
+export interface SuspiciousItem extends ItemStats {
+  module: 'reading' | 'listening';
+  testId: string;
+  testTitle: string;
+  flags: ItemFlag[];
+}
+
+/** Fewer submissions than this give statistics too noisy to flag */
+export const ITEM_ANALYSIS_MIN_ATTEMPTS = 10;
+
+const TOO_HARD_FACILITY = 0.2;
+const TOO_EASY_FACILITY = 0.95;
+const LOW_DISCRIMINATION = 0.2;
+const HIGH_BLANK_RATE = 0.3;
+const MAX_WRONG_ANSWERS = 3;
+
+/** Flags in order of severity, with the admin-facing explanation */
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  negative_discrimination: 'Strong candidates get this wrong more often than weak ones — check the answer key',
+  too_hard: 'Very few candidates get this right',
+  high_blank_rate: 'Many candidates leave this blank',
+  low_discrimination: 'Barely separates strong and weak candidates',
+  too_easy: 'Almost every candidate gets this right',
+};
+
+/** Flags that suggest the item is broken rather than just easy or hard to discriminate */
+export const SUSPICIOUS_ITEM_FLAGS: ItemFlag[] = ['negative_discrimination', 'too_hard', 'high_blank_rate'];
+
+function correlation(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 2) return null;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+const round = (value: number, places = 3) => Math.round(value * 10 ** places) / 10 ** places;
+
+/** Per-question statistics across submissions, one entry per question number */
+export function analyzeItems(submissions: { questionResults: MarkedItem[] }[]): ItemStats[] {
+  const totals = submissions.map(s => s.questionResults.filter(r => r.isCorrect).length);
+  const byQuestion = new Map<number, { item: MarkedItem; total: number }[]>();
+
+  submissions.forEach((submission, index) => {
+    for (const item of submission.questionResults) {
+      const entries = byQuestion.get(item.questionNumber) || [];
+      entries.push({ item, total: totals[index] });
+      byQuestion.set(item.questionNumber, entries);
+    }
+  });
+
+  return [...byQuestion.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([questionNumber, entries]) => {
+      const marks = entries.map((e): number => (e.item.isCorrect ? 1 : 0));
+      const restScores = entries.map((e, i) => e.total - marks[i]);
+      const wrongAnswers = new Map<string, WrongAnswerCount>();
+      let blanks = 0;
+
+      for (const { item } of entries) {
+        const answer = item.userAnswer.trim();
+        if (!answer) {
+          blanks++;
+          continue;
+        }
+        if (item.isCorrect) continue;
+        const key = answer.toLowerCase().replace(/\s+/g, ' ');
+        const entry = wrongAnswers.get(key);
+        if (entry) entry.count++;
+        else wrongAnswers.set(key, { answer, count: 1 });
+      }
+
+      const discrimination = correlation(marks, restScores);
+      const first = entries[0].item;
+      return {
+        questionNumber,
+        questionText: first.questionText || '',
+        correctAnswer: first.correctAnswer || '',
+        attempts: entries.length,
+        facility: round(marks.reduce((a, b) => a + b, 0) / entries.length),
+        discrimination: discrimination === null ? null : round(discrimination),
+        blankRate: round(blanks / entries.length),
+        commonWrongAnswers: [...wrongAnswers.values()]
+          .sort((a, b) => b.count - a.count)
+          .slice(0, MAX_WRONG_ANSWERS),
+      };
+    });
+}
+
+/** Problems worth an admin's attention, most severe first */
+export function getItemFlags(stats: ItemStats, minAttempts = ITEM_ANALYSIS_MIN_ATTEMPTS): ItemFlag[] {
+  if (stats.attempts < minAttempts) return [];
+  const flags: ItemFlag[] = [];
+  if (stats.discrimination !== null && stats.discrimination < 0) flags.push('negative_discrimination');
+  if (stats.facility < TOO_HARD_FACILITY) flags.push('too_hard');
+  if (stats.blankRate > HIGH_BLANK_RATE) flags.push('high_blank_rate');
+  if (stats.discrimination !== null && stats.discrimination >= 0 && stats.discrimination < LOW_DISCRIMINATION) {
+    flags.push('low_discrimination');
+  }
+  if (stats.facility > TOO_EASY_FACILITY) flags.push('too_easy');
+  return flags;
+}
+
+export const isSuspiciousItem = (flags: ItemFlag[]) => flags.some(f => SUSPICIOUS_ITEM_FLAGS.includes(f));
+
+/** Most severe first: by worst flag, then by lowest discrimination */
+export function compareSuspiciousItems(a: SuspiciousItem, b: SuspiciousItem): number {
+  const severity = (item: SuspiciousItem) =>
+    Math.min(...item.flags.map(f => SUSPICIOUS_ITEM_FLAGS.indexOf(f)).filter(i => i >= 0));
+  return severity(a) - severity(b) || (a.discrimination ?? 0) - (b.discrimination ?? 0);
+}
@@ -0,0 +1,203 @@
+/**
+ * Full Mock Test Session
+ *
+ * Sequences the four IELTS papers in exam order (Listening → Reading →
+ * Writing, then Speaking) with official timings and the break before
+ * Speaking. The session state is plain JSON so it can be persisted in
+ * mock_test_sessions and resumed after a refresh.
+ */
+
+import { calculateOverallBand } from './bandConversion';
+
+export type MockSection = 'listening' | 'reading' | 'writing' | 'speaking';
+
+export type MockSessionStatus = 'in_progress' | 'completed' | 'abandoned';
+
+export type MockSectionStatus = 'pending' | 'in_progress' | 'submitted';
+
+export interface MockSectionSpec {
+  section: MockSection;
+  label: string;
+  /** Official paper length in minutes */
+  minutes: number;
+  /** Break before the next paper (0 = straight on, as in the exam) */
+  breakAfterMinutes: number;
+}
+
+// Listening, Reading and Writing are taken back to back; Speaking follows
+// after a break (it can even be on a different day in the real exam)
+export const MOCK_TEST_SECTIONS: MockSectionSpec[] = [
+  { section: 'listening', label: 'Listening', minutes: 30, breakAfterMinutes: 0 },
+  { section: 'reading', label: 'Reading', minutes: 60, breakAfterMinutes: 0 },
+  { section: 'writing', label: 'Writing', minutes: 60, breakAfterMinutes: 10 },
+  { section: 'speaking', label: 'Speaking', minutes: 14, breakAfterMinutes: 0 },
+];
+
+export interface MockSectionResult {
+  status: MockSectionStatus;
+  started_at?: string;
+  submitted_at?: string;
+  /** Writing has one submission per task */
+  submission_ids?: string[];
+  /** Known at once for Listening / Reading; filled in after AI evaluation for Writing / Speaking */
+  band?: number | null;
+}
+
+export type MockSectionResults = Partial<Record<MockSection, MockSectionResult>>;
+
+export interface MockSessionState {
+  sections: MockSection[];
+  current_section: MockSection | null;
+  section_results: MockSectionResults;
+  break_until: string | null;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export function getSectionSpec(section: MockSection): MockSectionSpec {
+  return MOCK_TEST_SECTIONS.find(s => s.section === section)!;
+}
+
+/** Sections with a test available, in exam order */
+export function orderSections(available: Partial<Record<MockSection, string | null | undefined>>): MockSection[] {
+  return MOCK_TEST_SECTIONS.map(s => s.section).filter(section => !!available[section]);
+}
+
+export function createSessionState(sections: MockSection[]): MockSessionState {
+  return { sections, current_section: null, section_results: {}, break_until: null };
+}
+
+/** Total exam time for the sections in the session, excluding breaks */
+export function totalMinutes(sections: MockSection[]): number {
+  return sections.reduce((sum, section) => sum + getSectionSpec(section).minutes, 0);
+}
+
+export function getSectionStatus(state: MockSessionState, section: MockSection): MockSectionStatus {
+  return state.section_results[section]?.status ?? 'pending';
+}
+
+/**
+ * The section the candidate should be on: the one already in progress
+ * (so a refresh resumes it), otherwise the first not yet submitted.
+ */
+export function getNextSection(state: MockSessionState): MockSection | null {
+  if (state.current_section && getSectionStatus(state, state.current_section) === 'in_progress') {
+    return state.current_section;
+  }
+  return state.sections.find(section => getSectionStatus(state, section) !== 'submitted') ?? null;
+}
+
+export function breakRemainingSeconds(state: MockSessionState, now: Date = new Date()): number {
+  if (!state.break_until) return 0;
+  return Math.max(0, Math.ceil((new Date(state.break_until).getTime() - now.getTime()) / 1000));
+}
+
+export function startSection(state: MockSessionState, section: MockSection, now: Date = new Date()): MockSessionState {
+  const existing = state.section_results[section];
+  return {
+    ...state,
+    current_section: section,
+    break_until: null,
+    section_results: {
+      ...state.section_results,
+      [section]: {
+        ...existing,
+        status: 'in_progress',
+        // Keep the original start time when resuming
+        started_at: existing?.started_at ?? now.toISOString(),
+      },
+    },
+  };
+}
+
+export interface SectionSubmission {
+  submissionIds: string[];
+  band?: number | null;
+}
+
+/** Mark a section submitted, then move on (starting the break if one follows) */
+export function recordSubmission(
+  state: MockSessionState,
+  section: MockSection,
+  submission: SectionSubmission,
+  now: Date = new Date()
+): MockSessionState {
+  const results: MockSectionResults = {
+    ...state.section_results,
+    [section]: {
+      ...state.section_results[section],
+      status: 'submitted',
+      submitted_at: now.toISOString(),
+      submission_ids: submission.submissionIds,
+      band: submission.band ?? null,
+    },
+  };
+  const next: MockSessionState = { ...state, current_section: null, section_results: results };
+
+  const breakMinutes = getSectionSpec(section).breakAfterMinutes;
+  const hasNext = getNextSection(next) !== null;
+  return {
+    ...next,
+    break_until: breakMinutes > 0 && hasNext ? new Date(now.getTime() + breakMinutes * MS_PER_MINUTE).toISOString() : null,
+  };
+}
+
+/** Store an evaluated band for a submitted Writing / Speaking section */
+export function setSectionBand(state: MockSessionState, section: MockSection, band: number): MockSessionState {
+  const existing = state.section_results[section];
+  if (!existing) return state;
+  return {
+    ...state,
+    section_results: { ...state.section_results, [section]: { ...existing, band } },
+  };
+}
+
+// ============================================================================
+// COMBINED REPORT
+// ============================================================================
+
+export interface MockTestReport {
+  bands: Partial<Record<MockSection, number | null>>;
+  /** Submitted sections still waiting for an AI band */
+  awaitingEvaluation: MockSection[];
+  /** Only set once every section in the session has a band */
+  overallBand: number | null;
+  isComplete: boolean;
+}
+
+export function buildReport(state: MockSessionState): MockTestReport {
+  const bands: Partial<Record<MockSection, number | null>> = {};
+  const awaitingEvaluation: MockSection[] = [];
+
+  for (const section of state.sections) {
+    const result = state.section_results[section];
+    const band = result?.band ?? null;
+    bands[section] = band;
+    if (result?.status === 'submitted' && band === null) awaitingEvaluation.push(section);
+  }
+
+  const allBands = state.sections.map(section => bands[section] ?? null);
+  const isComplete = state.sections.length > 0 && allBands.every(b => b !== null);
+
+  return {
+    bands,
+    awaitingEvaluation,
+    overallBand: isComplete ? calculateOverallBand(allBands) : null,
+    isComplete,
+  };
+}
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+/** Query parameter that links a test page back to its mock session */
+export const MOCK_SESSION_PARAM = 'mockSession';
+
+export function getSectionTestPath(section: MockSection, testId: string, sessionId: string): string {
+  return `/${section}/test/${testId}?${MOCK_SESSION_PARAM}=${sessionId}`;
+}
+
+export function getSessionPath(sessionId: string): string {
+  return `/full-mock-test/session/${sessionId}`;
+}
@@ -0,0 +1,144 @@
+/**
+ * Offline Submission Queue
+ *
+ * Submissions made while the connection is down are stored in IndexedDB
+ * and replayed by useOfflineSync once the browser is back online.
+ * IndexedDB holds Blobs natively and has a far larger quota than
+ * localStorage, so speaking audio can be queued without base64 encoding.
+ *
+ * A submission that fails to replay waits longer before each retry, and
+ * after MAX_REPLAY_ATTEMPTS failures it is only retried on request.
+ */
+
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { describeApiError } from './apiErrors';
+import type { ScoreTestRequest } from './testSubmission';
+
+const DB_NAME = 'ielts-offline';
+const DB_VERSION = 1;
+const SUBMISSIONS_STORE = 'submissions';
+
+export const OFFLINE_QUEUE_CHANGED_EVENT = 'offline-queue-changed';
+
+/** Failed replays before a submission stops being retried automatically */
+export const MAX_REPLAY_ATTEMPTS = 5;
+
+const REPLAY_BACKOFF_BASE_MS = 30 * 1000;
+const REPLAY_BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+interface QueuedSubmissionBase {
+  id: string;
+  userId: string;
+  testId: string;
+  /** Full mock session the section was taken in; the section is the submission's kind */
+  mockSessionId?: string | null;
+  createdAt: string;
+  attempts: number;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+export type QueuedSubmission = QueuedSubmissionBase & (
+  | { kind: 'reading'; request: ScoreTestRequest }
+  | { kind: 'listening'; request: ScoreTestRequest }
+  | { kind: 'writing'; rows: TablesInsert<'writing_submissions'>[] }
+  | { kind: 'speaking'; row: TablesInsert<'speaking_submissions'>; audio: Record<string, Blob> }
+);
+
+export type QueuedSubmissionKind = QueuedSubmission['kind'];
+
+// Distributes Omit over the union so each variant keeps its own payload
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type NewQueuedSubmission = DistributiveOmit<QueuedSubmission, 'id' | 'createdAt' | 'attempts' | 'lastAttemptAt' | 'lastError'>;
+
+/** Whether a failed request should be queued rather than reported as an error */
+export function shouldQueueOffline(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return error != null && describeApiError(error).kind === 'network';
+}
+
+export function hasExhaustedRetries(submission: Pick<QueuedSubmission, 'attempts'>): boolean {
+  return submission.attempts >= MAX_REPLAY_ATTEMPTS;
+}
+
+/**
+ * When an automatic replay is next due: straight away for a new submission,
+ * then doubling from 30 seconds after each failure (capped at 30 minutes).
+ * Null once retries are exhausted.
+ */
+export function nextReplayAt(submission: Pick<QueuedSubmission, 'attempts' | 'lastAttemptAt'>): number | null {
+  if (hasExhaustedRetries(submission)) return null;
+  if (submission.attempts === 0 || !submission.lastAttemptAt) return 0;
+  const delay = Math.min(REPLAY_BACKOFF_BASE_MS * 2 ** (submission.attempts - 1), REPLAY_BACKOFF_MAX_MS);
+  return new Date(submission.lastAttemptAt).getTime() + delay;
+}
+
+// ============================================================================
+// INDEXEDDB
+// ============================================================================
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SUBMISSIONS_STORE)) {
+        db.createObjectStore(SUBMISSIONS_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(SUBMISSIONS_STORE, mode);
+      const request = run(tx.objectStore(SUBMISSIONS_STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function notifyQueueChanged() {
+  window.dispatchEvent(new Event(OFFLINE_QUEUE_CHANGED_EVENT));
+}
+
+export async function enqueueSubmission(submission: NewQueuedSubmission): Promise<QueuedSubmission> {
+  const queued = {
+    ...submission,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  } as QueuedSubmission;
+  await withStore('readwrite', store => store.put(queued));
+  notifyQueueChanged();
+  return queued;
+}
+
+export async function listQueuedSubmissions(userId?: string): Promise<QueuedSubmission[]> {
+  const all = await withStore<QueuedSubmission[]>('readonly', store => store.getAll());
+  return all
+    .filter(s => !userId || s.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function updateQueuedSubmission(submission: QueuedSubmission): Promise<void> {
+  await withStore('readwrite', store => store.put(submission));
+  notifyQueueChanged();
+}
+
+export async function removeQueuedSubmission(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  notifyQueueChanged();
+}
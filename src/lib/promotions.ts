@@ -0,0 +1,147 @@
+/**
+ * Promotion Campaigns
+ *
+ * Codes belong to a campaign, and the campaign defines what redeeming one
+ * grants: days on a subscription plan, or bonus credits on the credit
+ * ledger (a 'promo' transaction, see credits.ts). Limits are checked by
+ * redeem_promotion_code() in the database, which is the only way codes are
+ * redeemed:
+ *
+ * - the campaign's validity window (starts_at / ends_at) and the code's
+ *   own expiry,
+ * - max_redemptions across the campaign, and per code,
+ * - per_user_limit redemptions of the campaign by one user.
+ *
+ * This module holds the shared types plus the pieces the admin screen and
+ * its tests need: code generation, campaign status and the CSV export.
+ */
+
+export type PromotionRewardType = 'plan_days' | 'credits';
+
+export const PROMOTION_REWARD_LABELS: Record<PromotionRewardType, string> = {
+  plan_days: 'Plan access',
+  credits: 'Bonus credits',
+};
+
+export interface PromotionCampaign {
+  id: string;
+  name: string;
+  description: string | null;
+  reward_type: PromotionRewardType;
+  /** Plan granted by plan_days rewards */
+  reward_plan_id: string | null;
+  /** Days of plan access, or credits */
+  reward_amount: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  /** Across all the campaign's codes; null for no cap */
+  max_redemptions: number | null;
+  per_user_limit: number;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface PromotionCode {
+  id: string;
+  campaign_id: string;
+  code: string;
+  /** Per-code cap; single-use codes have 1, shared codes null */
+  max_redemptions: number | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+/** redeem_promotion_code() */
+export interface PromotionRedemptionResult {
+  ok: boolean;
+  error?: string;
+  reward_type?: PromotionRewardType;
+  reward_amount?: number;
+  plan_name?: string | null;
+  /** Start of the granted plan access; later than now when it queues behind the current plan */
+  starts_at?: string | null;
+  /** End of the granted plan access */
+  ends_at?: string | null;
+}
+
+export function describePromotionReward(
+  campaign: Pick<PromotionCampaign, 'reward_type' | 'reward_amount'>,
+  planName?: string | null,
+): string {
+  if (campaign.reward_type === 'credits') return `${campaign.reward_amount} bonus credits`;
+  const days = campaign.reward_amount === 1 ? '1 day' : `${campaign.reward_amount} days`;
+  return `${days} of ${planName ?? 'plan access'}`;
+}
+
+interface PricedPlan {
+  id: string;
+  price_monthly: number;
+}
+
+/**
+ * When plan days from a promotion begin, as redeem_promotion_code() decides
+ * it: a pricier plan than the current one applies from now, while the same
+ * or a cheaper plan queues behind the access already booked (bookedUntil, the
+ * last end date of the user's active subscriptions).
+ */
+export function promotionPlanStart(
+  rewardPlan: PricedPlan,
+  currentPlan: PricedPlan | null,
+  bookedUntil: Date | null,
+  now: Date = new Date(),
+): Date {
+  if (!currentPlan || rewardPlan.price_monthly > currentPlan.price_monthly) return now;
+  return bookedUntil && bookedUntil > now ? bookedUntil : now;
+}
+
+// Without 0/O and 1/I, which are easy to misread on a voucher. 32 letters
+// divide 256 evenly, so each random byte picks one without bias.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+/** Codes grant paid access, so they come from the platform's secure random source */
+export function generatePromotionCode(prefix = 'IELTS', length = 8, random: (length: number) => Uint8Array = randomBytes): string {
+  const code = Array.from(random(length), byte => CODE_ALPHABET.charAt(byte % CODE_ALPHABET.length)).join('');
+  return prefix ? `${prefix}-${code}` : code;
+}
+
+/** Codes are matched case-insensitively and without surrounding spaces */
+export function normalizePromotionCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export type CampaignStatus = 'paused' | 'scheduled' | 'active' | 'ended' | 'exhausted';
+
+export function campaignStatus(
+  campaign: Pick<PromotionCampaign, 'is_active' | 'starts_at' | 'ends_at' | 'max_redemptions'>,
+  redemptions: number,
+  now: Date = new Date(),
+): CampaignStatus {
+  if (!campaign.is_active) return 'paused';
+  if (campaign.ends_at && new Date(campaign.ends_at) <= now) return 'ended';
+  if (campaign.max_redemptions !== null && redemptions >= campaign.max_redemptions) return 'exhausted';
+  if (campaign.starts_at && new Date(campaign.starts_at) > now) return 'scheduled';
+  return 'active';
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+export interface RedemptionExportRow {
+  redeemedAt: string;
+  code: string;
+  email: string | null;
+  userId: string;
+  reward: string;
+}
+
+function csvField(value: string | null): string {
+  const text = value ?? '';
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function redemptionsToCsv(rows: RedemptionExportRow[]): string {
+  const header = ['Redeemed At', 'Code', 'Email', 'User ID', 'Reward'];
+  const lines = rows.map(r => [r.redeemedAt, r.code, r.email, r.userId, r.reward].map(csvField).join(','));
+  return [header.join(','), ...lines].join('\r\n');
+}
@@ -0,0 +1,114 @@
+/**
+ * Prompt Regression Harness
+ *
+ * Replays recorded model output against the prompt registry without calling
+ * a model. A fixture pins a template version, the variables it was rendered
+ * with, a fingerprint of the rendered text, and the replies the model gave.
+ * Replaying checks three things:
+ *
+ * - the template still exists at the recorded version (a version bump means
+ *   the fixture has to be re-recorded against the new wording),
+ * - the rendered text still matches the fingerprint (a wording change
+ *   without a version bump is the mistake this harness exists to catch),
+ * - the recorded replies still pass the template's validator, through the
+ *   same repair round-trip the edge functions use.
+ */
+
+import { createFakeProvider, createLlmClient, LlmValidationError } from './geminiClient.ts';
+import {
+  promptFingerprint,
+  renderPrompt,
+  type AnyPromptTemplate,
+  type PromptRegistry,
+} from './promptRegistry.ts';
+
+export interface PromptFixture {
+  name: string;
+  /** Template id, e.g. "practice.reading". */
+  prompt: string;
+  version: number;
+  vars: unknown;
+  fingerprint: string;
+  /** Model replies in order; a second reply answers the repair turn. */
+  responses: string[];
+}
+
+export interface PromptReplayResult {
+  name: string;
+  ok: boolean;
+  problems: string[];
+  /** True when the first recorded reply needed the repair turn. */
+  repaired: boolean;
+}
+
+/** Builds a fixture for the template's current version from a real model run. */
+export function recordPromptFixture(
+  template: AnyPromptTemplate,
+  name: string,
+  vars: unknown,
+  responses: string[],
+): PromptFixture {
+  const rendered = renderPrompt(template, vars as never);
+  return {
+    name,
+    prompt: template.id,
+    version: template.version,
+    vars,
+    fingerprint: promptFingerprint(rendered),
+    responses,
+  };
+}
+
+export async function replayPromptFixture(registry: PromptRegistry, fixture: PromptFixture): Promise<PromptReplayResult> {
+  const problems: string[] = [];
+  const result = (repaired = false): PromptReplayResult => ({ name: fixture.name, ok: problems.length === 0, problems, repaired });
+
+  const template = registry.get(fixture.prompt);
+  if (!template) {
+    problems.push(`Prompt ${fixture.prompt} is not registered`);
+    return result();
+  }
+  if (template.version !== fixture.version) {
+    problems.push(
+      `Recorded against ${fixture.prompt}@${fixture.version} but the registry has @${template.version}; re-record this fixture`,
+    );
+    return result();
+  }
+
+  const vars = fixture.vars as never;
+  const rendered = renderPrompt(template, vars);
+  const fingerprint = promptFingerprint(rendered);
+  if (fingerprint !== fixture.fingerprint) {
+    problems.push(
+      `Prompt text changed without a version bump (fingerprint ${fingerprint}, recorded ${fixture.fingerprint}); ` +
+      `bump ${fixture.prompt} to version ${template.version + 1} and re-record`,
+    );
+  }
+
+  if (!template.validator) return result();
+  if (fixture.responses.length === 0) {
+    problems.push('Fixture has no recorded responses');
+    return result();
+  }
+
+  // With a single recorded reply the repair turn gets the same reply, so its issues are reported as-is
+  const llm = createLlmClient({
+    provider: createFakeProvider(fixture.responses),
+    models: ['fixture'],
+    logPrefix: `[prompt-harness:${fixture.name}]`,
+  });
+
+  try {
+    const { repaired } = await llm.generateValidated(
+      { contents: rendered.text, systemInstruction: rendered.system },
+      template.validator(vars),
+    );
+    return result(repaired);
+  } catch (error) {
+    if (!(error instanceof LlmValidationError)) throw error;
+    problems.push(
+      `Recorded response fails validation: ${error.issues.map(i => `${i.path || '(root)'}: ${i.message}`).join('; ')}`,
+    );
+    return result(true);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Prompt Registry
+ *
+ * Every prompt we send to a model is a named, versioned template (see
+ * src/lib/prompts/). Edge functions render a template instead of building
+ * strings inline, and record the template's version ("practice.reading@2")
+ * on the test or evaluation row it produced, so results can be traced back
+ * to the exact prompt that made them.
+ *
+ * Templates are pure functions of their variables. That keeps rendering
+ * deterministic, which is what lets promptHarness.ts replay recorded model
+ * output against a fingerprint of the rendered text: editing a template's
+ * wording without bumping its version fails the regression run.
+ */
+
+import type { Validator } from './geminiClient.ts';
+
+export interface PromptTemplate<V, T = unknown> {
+  /** Stable dotted name, e.g. "practice.reading". */
+  id: string;
+  /** Bump whenever the rendered text changes. */
+  version: number;
+  description: string;
+  /** Sent as the system message by callers that support one. */
+  system?: string;
+  render: (vars: V) => string;
+  /** What the model's reply must satisfy; omitted for plain-text prompts. */
+  validator?: (vars: V) => Validator<T>;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  system?: string;
+  /** "<id>@<version>", stored in the prompt_version column. */
+  version: string;
+}
+
+export function definePrompt<V, T = unknown>(template: PromptTemplate<V, T>): PromptTemplate<V, T> {
+  if (!/^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(template.id)) {
+    throw new Error(`Invalid prompt id "${template.id}"`);
+  }
+  if (!Number.isInteger(template.version) || template.version < 1) {
+    throw new Error(`Prompt ${template.id} needs a positive integer version`);
+  }
+  return template;
+}
+
+export function promptVersion(template: Pick<PromptTemplate<never>, 'id' | 'version'>): string {
+  return `${template.id}@${template.version}`;
+}
+
+export function renderPrompt<V>(template: PromptTemplate<V, unknown>, vars: V): RenderedPrompt {
+  return { text: template.render(vars), system: template.system, version: promptVersion(template) };
+}
+
+/**
+ * One prompt_version value for output built from several prompts (a full
+ * writing test generates Task 1 and Task 2 separately).
+ */
+export function combinePromptVersions(versions: Array<string | null | undefined>): string | null {
+  const unique = [...new Set(versions.filter((v): v is string => !!v))];
+  return unique.length > 0 ? unique.join(',') : null;
+}
+
+/**
+ * Short, stable hash of a rendered prompt (FNV-1a, 32-bit). Not for
+ * security: it only has to change when the text does.
+ */
+export function promptFingerprint(rendered: Pick<RenderedPrompt, 'text' | 'system'>): string {
+  const input = rendered.system ? `${rendered.system}\n\n${rendered.text}` : rendered.text;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+/** Any template, whatever its variables; callers render with vars they loaded themselves. */
+export type AnyPromptTemplate = PromptTemplate<never, unknown>;
+
+export interface PromptRegistry {
+  get(id: string): AnyPromptTemplate | undefined;
+  list(): AnyPromptTemplate[];
+}
+
+export function createPromptRegistry(templates: AnyPromptTemplate[]): PromptRegistry {
+  const byId = new Map<string, AnyPromptTemplate>();
+  for (const template of templates) {
+    if (byId.has(template.id)) {
+      throw new Error(`Prompt ${template.id} is registered twice`);
+    }
+    byId.set(template.id, template);
+  }
+  return {
+    get: id => byId.get(id),
+    list: () => [...byId.values()],
+  };
+}
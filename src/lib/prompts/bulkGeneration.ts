@@ -0,0 +1,615 @@
+/**
+ * Bulk Generation Prompts
+ *
+ * Templates for the bulk-generate-tests edge function, which fills the
+ * admin test bank through the AI gateway (chat messages, so each template
+ * carries a system message). Kept separate from practiceGeneration.ts: the
+ * bank uses its own difficulty bands, fixed question counts and payload
+ * shapes (speaking parts keyed part1/part2/part3).
+ */
+
+import { definePrompt } from '../promptRegistry.ts';
+import {
+  listeningGenerationSchema,
+  readingGenerationSchema,
+  speakingPartsByKeySchema,
+  writingTaskGenerationSchema,
+  zodValidator,
+} from '../aiSchemas.ts';
+
+const BULK_SYSTEM_PROMPT =
+  "You are an expert IELTS test creator. Generate high-quality, authentic exam content. Always respond with valid JSON only, no markdown code blocks.";
+
+function describeDifficulty(difficulty: string): string {
+  return difficulty === "easy" ? "Band 5.5-6.5" : difficulty === "medium" ? "Band 7-8" : "Band 8.5-9";
+}
+
+// MCMA uses 3 questions (user selects 3 answers), all other types use 7
+function questionCountFor(questionType: string): number {
+  return questionType === "MULTIPLE_CHOICE_MULTIPLE" ? 3 : 7;
+}
+
+function getReadingPrompt(topic: string, difficulty: string, questionType: string, questionCount: number, paragraphCount: number): string {
+  const paragraphLabels = Array.from({ length: paragraphCount }, (_, i) => 
+    String.fromCharCode(65 + i)
+  ).map(l => `[${l}]`).join(", ");
+
+  const basePrompt = `Generate an IELTS Academic Reading test with:
+Topic: ${topic}
+Difficulty: ${difficulty}
+
+Create a reading passage with:
+- ${paragraphCount} paragraphs labeled ${paragraphLabels}
+- Each paragraph 80-150 words
+- Academic tone, well-structured
+- Contains specific testable information
+
+`;
+
+  switch (questionType) {
+    case "TRUE_FALSE_NOT_GIVEN":
+    case "YES_NO_NOT_GIVEN":
+      return basePrompt + `Create ${questionCount} ${questionType === "YES_NO_NOT_GIVEN" ? "Yes/No/Not Given" : "True/False/Not Given"} questions.
+
+Return ONLY valid JSON:
+{
+  "passage": {"title": "Title", "content": "Full passage with [A], [B], etc."},
+  "instruction": "Do the following statements agree with the information given?",
+  "questions": [
+    {"question_number": 1, "question_text": "Statement", "correct_answer": "${questionType === "YES_NO_NOT_GIVEN" ? "YES" : "TRUE"}", "explanation": "Why"}
+  ]
+}`;
+
+    case "MULTIPLE_CHOICE_SINGLE":
+      return basePrompt + `Create ${questionCount} multiple choice questions (single answer).
+
+Return ONLY valid JSON:
+{
+  "passage": {"title": "Title", "content": "Full passage"},
+  "instruction": "Choose the correct letter, A, B, C or D.",
+  "questions": [
+    {"question_number": 1, "question_text": "Question?", "options": ["A Option", "B Option", "C Option", "D Option"], "correct_answer": "A", "explanation": "Why"}
+  ]
+}`;
+
+    case "MULTIPLE_CHOICE_MULTIPLE":
+      // For MCMA: Generate 1 question set spanning question numbers 1-3
+      // User selects 3 correct answers from 6 options (A-F)
+      return basePrompt + `Create a multiple choice question set where the test-taker must choose THREE correct answers from six options (A-F).
+
+CRITICAL REQUIREMENTS:
+- This question set spans Questions 1 to 3 (3 question numbers)
+- Generate exactly 6 options (A through F)
+- Generate exactly 3 correct answer letters (e.g., "A,C,E")
+- Return exactly 3 question objects with question_number 1, 2, and 3
+- ALL 3 question objects must have IDENTICAL content (same question_text, same options, same correct_answer)
+- The correct_answer is a comma-separated list of 3 letters (e.g., "A,C,E")
+- DO NOT always use A,C,E - randomize which 3 options are correct
+
+Return ONLY valid JSON:
+{
+  "passage": {"title": "Title", "content": "Full passage with paragraph labels [A], [B], etc."},
+  "instruction": "Questions 1-3. Choose THREE letters, A-F.",
+  "max_answers": 3,
+  "questions": [
+    {
+      "question_number": 1,
+      "question_text": "Which THREE of the following statements are true according to the passage?",
+      "options": ["A First statement", "B Second statement", "C Third statement", "D Fourth statement", "E Fifth statement", "F Sixth statement"],
+      "correct_answer": "A,C,E",
+      "max_answers": 3,
+      "explanation": "A is correct because..., C is correct because..., E is correct because..."
+    },
+    {
+      "question_number": 2,
+      "question_text": "Which THREE of the following statements are true according to the passage?",
+      "options": ["A First statement", "B Second statement", "C Third statement", "D Fourth statement", "E Fifth statement", "F Sixth statement"],
+      "correct_answer": "A,C,E",
+      "max_answers": 3,
+      "explanation": "A is correct because..., C is correct because..., E is correct because..."
+    },
+    {
+      "question_number": 3,
+      "question_text": "Which THREE of the following statements are true according to the passage?",
+      "options": ["A First statement", "B Second statement", "C Third statement", "D Fourth statement", "E Fifth statement", "F Sixth statement"],
+      "correct_answer": "A,C,E",
+      "max_answers": 3,
+      "explanation": "A is correct because..., C is correct because..., E is correct because..."
+    }
+  ]
+}`;
+
+    case "MATCHING_HEADINGS":
+      return basePrompt + `Create a matching headings task with ${questionCount} paragraphs needing headings.
+
+Return ONLY valid JSON:
+{
+  "passage": {"title": "Title", "content": "Full passage with [A], [B], etc."},
+  "instruction": "Choose the correct heading for each paragraph.",
+  "headings": ["i Heading 1", "ii Heading 2", "iii Heading 3", "iv Heading 4", "v Heading 5", "vi Heading 6", "vii Heading 7", "viii Extra heading"],
+  "questions": [
+    {"question_number": 1, "question_text": "Paragraph A", "correct_answer": "ii", "explanation": "Why"}
+  ]
+}`;
+
+    case "SENTENCE_COMPLETION":
+      return basePrompt + `Create ${questionCount} sentence completion questions.
+
+Return ONLY valid JSON:
+{
+  "passage": {"title": "Title", "content": "Full passage"},
+  "instruction": "Complete the sentences. Write NO MORE THAN THREE WORDS.",
+  "questions": [
+    {"question_number": 1, "question_text": "The main advantage is _____.", "correct_answer": "increased efficiency", "explanation": "Why"}
+  ]
+}`;
+
+    case "SUMMARY_COMPLETION":
+    case "SUMMARY_WORD_BANK":
+      return basePrompt + `Create a summary completion task with a word bank.
+The summary_text should have gaps marked with {{1}}, {{2}}, {{3}} etc.
+Create 4-6 questions where each correct_answer is a letter (A-H) from the word_bank.
+
+Return ONLY valid JSON:
+{
+  "passage": {"title": "Title", "content": "Full passage with paragraph labels [A], [B], etc."},
+  "instruction": "Complete the summary using the list of words, A-H, below.",
+  "summary_text": "The passage discusses how {{1}} affects modern society. Scientists have found that {{2}} plays a crucial role. Furthermore, {{3}} has been identified as key, while {{4}} remains a concern.",
+  "word_bank": [
+    {"id": "A", "text": "technology"},
+    {"id": "B", "text": "environment"},
+    {"id": "C", "text": "research"},
+    {"id": "D", "text": "education"},
+    {"id": "E", "text": "climate"},
+    {"id": "F", "text": "innovation"},
+    {"id": "G", "text": "development"},
+    {"id": "H", "text": "resources"}
+  ],
+  "questions": [
+    {"question_number": 1, "question_text": "Gap 1", "correct_answer": "A", "explanation": "Technology is discussed as affecting society"},
+    {"question_number": 2, "question_text": "Gap 2", "correct_answer": "C", "explanation": "Research is mentioned as crucial"},
+    {"question_number": 3, "question_text": "Gap 3", "correct_answer": "E", "explanation": "Climate is identified as key factor"},
+    {"question_number": 4, "question_text": "Gap 4", "correct_answer": "B", "explanation": "Environment remains a concern"}
+  ]
+}`;
+
+    case "TABLE_COMPLETION":
+      return basePrompt + `Create a table completion task with ${questionCount} blanks to fill.
+
+CRITICAL RULES - FOLLOW EXACTLY:
+1. WORD LIMIT: Maximum THREE words per answer. STRICTLY ENFORCED.
+   - Every answer MUST be 1, 2, or 3 words maximum
+   - NEVER use 4+ word answers - this violates IELTS standards
+   - Vary the lengths naturally: mix of 1-word, 2-word, and 3-word answers
+   - Example valid answers: "pollution" (1 word), "water supply" (2 words), "clean water supply" (3 words)
+   - Example INVALID: "the clean water supply" (4 words - NEVER DO THIS)
+2. Tables MUST have EXACTLY 3 COLUMNS (no more, no less).
+3. Use inline blanks with __ (double underscores) within cell content, NOT separate cells for blanks.
+   - Example: "Clean air and water, pollination of crops, and __" where __ is the blank
+4. DISTRIBUTE blanks across BOTH column 2 AND column 3. Do NOT put all blanks only in column 2.
+   - Alternate between putting blanks in the 2nd column and the 3rd column
+   - At least 1/3 of blanks MUST be in the 3rd column
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {"title": "Title", "content": "Full passage with paragraph labels [A], [B], etc."},
+  "instruction": "Complete the table below. Choose NO MORE THAN THREE WORDS from the passage for each answer.",
+  "table_data": [
+    [{"content": "Category", "is_header": true}, {"content": "Details", "is_header": true}, {"content": "Impact/Challenge", "is_header": true}],
+    [{"content": "First item"}, {"content": "Description text and __", "has_question": true, "question_number": 1}, {"content": "Positive effect"}],
+    [{"content": "Second item"}, {"content": "More text here"}, {"content": "Results in __", "has_question": true, "question_number": 2}],
+    [{"content": "Third item"}, {"content": "Additional info about __", "has_question": true, "question_number": 3}, {"content": "Significant"}],
+    [{"content": "Fourth item"}, {"content": "Details here"}, {"content": "Has __", "has_question": true, "question_number": 4}],
+    [{"content": "Fifth item"}, {"content": "Uses __ method", "has_question": true, "question_number": 5}, {"content": "Effective"}]
+  ],
+  "questions": [
+    {"question_number": 1, "question_text": "Fill in blank 1", "correct_answer": "resources", "explanation": "Found in paragraph B"},
+    {"question_number": 2, "question_text": "Fill in blank 2", "correct_answer": "water scarcity", "explanation": "Found in paragraph C"},
+    {"question_number": 3, "question_text": "Fill in blank 3", "correct_answer": "deforestation", "explanation": "Found in paragraph D"},
+    {"question_number": 4, "question_text": "Fill in blank 4", "correct_answer": "limitations", "explanation": "Found in paragraph E"},
+    {"question_number": 5, "question_text": "Fill in blank 5", "correct_answer": "solar", "explanation": "Found in paragraph A"}
+  ]
+}`;
+
+    case "SHORT_ANSWER":
+      return basePrompt + `Create ${questionCount} short answer questions.
+
+Return ONLY valid JSON:
+{
+  "passage": {"title": "Title", "content": "Full passage"},
+  "instruction": "Answer the questions. Write NO MORE THAN THREE WORDS.",
+  "questions": [
+    {"question_number": 1, "question_text": "What was the main finding?", "correct_answer": "carbon emissions", "explanation": "Why"}
+  ]
+}`;
+
+    default:
+      return basePrompt + `Create ${questionCount} True/False/Not Given questions.
+
+Return ONLY valid JSON:
+{
+  "passage": {"title": "Title", "content": "Full passage"},
+  "instruction": "Do the following statements agree with the information given?",
+  "questions": [
+    {"question_number": 1, "question_text": "Statement", "correct_answer": "TRUE", "explanation": "Why"}
+  ]
+}`;
+  }
+}
+
+function getListeningPrompt(topic: string, difficulty: string, questionType: string, questionCount: number, monologue: boolean, genderConstraint: string): string {
+  // TEMPORARY: 1 minute audio for testing (revert to 300-500 words / 4 minutes for production)
+  
+  const speakerInstructions = monologue
+    ? `Create a monologue (single speaker) script that is:
+- 100-150 words (approximately 1 minute when spoken)
+- Use "Speaker1:" prefix for all lines
+- Include speaker_names: {"Speaker1": "Role/Name"}`
+    : `Create a dialogue between two people that is:
+- 100-150 words (approximately 1 minute when spoken)
+- Use "Speaker1:" and "Speaker2:" prefixes
+- Include speaker_names: {"Speaker1": "Name", "Speaker2": "Name"}`;
+
+  // NATURAL GAP POSITIONING INSTRUCTION
+  const gapPositionInstruction = `
+CRITICAL - NATURAL GAP/BLANK POSITIONING:
+For fill-in-the-blank questions, you MUST randomize the position of the missing word (represented by _____):
+- 30% of questions: Blank should be near the START of the sentence (e.g., "_____ is the main attraction.")
+- 40% of questions: Blank should be in the MIDDLE of the sentence (e.g., "The event starts at _____ on Saturday.")
+- 30% of questions: Blank should be at the END of the sentence (e.g., "Visitors should bring _____.")
+- Ensure the sentence context makes the missing word deducible from the audio.
+- NEVER put all blanks at the same position - vary them naturally across questions.`;
+
+  const basePrompt = `Generate an IELTS Listening test section:
+Topic: ${topic}
+Difficulty: ${difficulty}
+${genderConstraint}
+
+${speakerInstructions}
+- Natural conversation with realistic names/roles
+- Contains specific details (names, numbers, dates, locations)
+- Use natural, short pauses: <break time='500ms'/> between sentences. NEVER use pauses longer than 1 second.
+
+`;
+
+  switch (questionType) {
+    case "FILL_IN_BLANK":
+      return basePrompt + `Create ${questionCount} fill-in-the-blank questions.
+${gapPositionInstruction}
+
+CRITICAL NEGATIVE CONSTRAINT: You are PROHIBITED from placing the blank at the very end of the sentence more than 30% of the time. Vary positions naturally.
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: Welcome to the museum.<break time='500ms'/>\\nSpeaker2: Thank you for having me...",
+  "speaker_names": {"Speaker1": "Guide", "Speaker2": "Visitor"},
+  "instruction": "Complete the notes. Write NO MORE THAN THREE WORDS.",
+  "questions": [
+    {"question_number": 1, "question_text": "_____ is located near the entrance.", "correct_answer": "The gift shop", "explanation": "Speaker mentions location (START gap)"},
+    {"question_number": 2, "question_text": "The tour starts at _____ each morning.", "correct_answer": "9:30 AM", "explanation": "Speaker mentions time (MIDDLE gap)"},
+    {"question_number": 3, "question_text": "Visitors should bring _____.", "correct_answer": "comfortable shoes", "explanation": "Speaker recommends footwear (END gap)"}
+  ]
+}`;
+
+    case "MULTIPLE_CHOICE_SINGLE":
+      return basePrompt + `Create ${questionCount} multiple choice questions (single answer).
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: Let me explain...<break time='500ms'/>",
+  "speaker_names": {"Speaker1": "Instructor"},
+  "instruction": "Choose the correct letter, A, B or C.",
+  "questions": [
+    {"question_number": 1, "question_text": "What is the main topic?", "options": ["A First", "B Second", "C Third"], "correct_answer": "A", "explanation": "Why"}
+  ]
+}`;
+
+    case "MULTIPLE_CHOICE_MULTIPLE":
+      // MCMA for Listening presets must be the same UX as Reading MCMA:
+      // Questions 1-3 are a SINGLE checkbox task (select 3 answers from A-F).
+      // We duplicate the same question object 3 times so the UI can label the range consistently.
+      return basePrompt + `Create ONE multiple choice question set where the test-taker must choose THREE correct answers from six options (A-F).
+
+CRITICAL REQUIREMENTS:
+- This question set spans Questions 1 to 3 (3 question numbers)
+- Return EXACTLY 3 question objects with question_number 1, 2, and 3
+- ALL 3 question objects must have IDENTICAL content (same question_text, same options, same correct_answer)
+- Provide exactly 6 options labeled A-F
+- correct_answer MUST be a comma-separated list of exactly 3 letters (e.g., "A,C,E")
+- Set max_answers to 3
+- The statements MUST be clearly supported by the dialogue (so answers are objectively checkable)
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: ...<break time='500ms'/>\nSpeaker2: ...",
+  "speaker_names": {"Speaker1": "Name", "Speaker2": "Name"},
+  "instruction": "Questions 1-3. Choose THREE letters, A-F.",
+  "max_answers": 3,
+  "questions": [
+    {
+      "question_number": 1,
+      "question_text": "Which THREE of the following statements are correct?",
+      "options": ["A ...", "B ...", "C ...", "D ...", "E ...", "F ..."],
+      "correct_answer": "A,C,E",
+      "max_answers": 3,
+      "explanation": "A is correct because... C is correct because... E is correct because..."
+    },
+    {
+      "question_number": 2,
+      "question_text": "Which THREE of the following statements are correct?",
+      "options": ["A ...", "B ...", "C ...", "D ...", "E ...", "F ..."],
+      "correct_answer": "A,C,E",
+      "max_answers": 3,
+      "explanation": "A is correct because... C is correct because... E is correct because..."
+    },
+    {
+      "question_number": 3,
+      "question_text": "Which THREE of the following statements are correct?",
+      "options": ["A ...", "B ...", "C ...", "D ...", "E ...", "F ..."],
+      "correct_answer": "A,C,E",
+      "max_answers": 3,
+      "explanation": "A is correct because... C is correct because... E is correct because..."
+    }
+  ]
+}`;
+
+    case "TABLE_COMPLETION":
+      return basePrompt + `Create a table completion task with ${questionCount} blanks.
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: Here's the schedule...<break time='500ms'/>",
+  "speaker_names": {"Speaker1": "Coordinator"},
+  "instruction": "Complete the table below.",
+  "table_data": {
+    "headers": ["Event", "Time", "Location"],
+    "rows": [
+      [{"text": "Opening"}, {"text": "9:00 AM"}, {"isBlank": true, "questionNumber": 1}]
+    ]
+  },
+  "questions": [
+    {"question_number": 1, "question_text": "Location", "correct_answer": "Main Hall", "explanation": "Why"}
+  ]
+}`;
+
+    case "NOTE_COMPLETION":
+      return basePrompt + `Create a note completion task with ${questionCount} blanks.
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: The key points are...<break time='500ms'/>",
+  "speaker_names": {"Speaker1": "Lecturer"},
+  "instruction": "Complete the notes below.",
+  "note_sections": [
+    {"title": "Main Topic", "items": [{"text_before": "Focus is on", "question_number": 1, "text_after": ""}]}
+  ],
+  "questions": [
+    {"question_number": 1, "question_text": "Note 1", "correct_answer": "research methods", "explanation": "Why"}
+  ]
+}`;
+
+    case "MATCHING_CORRECT_LETTER":
+      return basePrompt + `Create ${questionCount} matching questions.
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: Each department has...<break time='500ms'/>",
+  "speaker_names": {"Speaker1": "Manager"},
+  "instruction": "Match each person to their department.",
+  "options": [{"letter": "A", "text": "Marketing"}, {"letter": "B", "text": "Finance"}, {"letter": "C", "text": "HR"}],
+  "questions": [
+    {"question_number": 1, "question_text": "John works in", "correct_answer": "A", "explanation": "Why"}
+  ]
+}`;
+
+    default:
+      return basePrompt + `Create ${questionCount} fill-in-the-blank questions.
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: dialogue...<break time='500ms'/>\\nSpeaker2: response...",
+  "speaker_names": {"Speaker1": "Host", "Speaker2": "Guest"},
+  "instruction": "Complete the notes below.",
+  "questions": [
+    {"question_number": 1, "question_text": "The event is in _____.", "correct_answer": "main garden", "explanation": "Why"}
+  ]
+}`;
+  }
+}
+
+function getWritingPrompt(topic: string, difficulty: string, taskType: string): string {
+  if (taskType === "TASK_1") {
+    return `Generate an IELTS Academic Writing Task 1:
+Topic: ${topic}
+Difficulty: ${difficulty}
+
+Return ONLY valid JSON:
+{
+  "task_type": "TASK_1",
+  "instruction": "The chart below shows...",
+  "chart_description": "Description of the data visualization",
+  "chart_data": {
+    "type": "bar|line|pie",
+    "title": "Chart title",
+    "labels": ["Label1", "Label2"],
+    "datasets": [{"label": "Series1", "data": [10, 20, 30]}]
+  },
+  "model_answer": "A band 8-9 sample answer (150+ words)...",
+  "word_limit_min": 150,
+  "key_features": ["Feature 1", "Feature 2", "Feature 3"]
+}`;
+  } else {
+    return `Generate an IELTS Writing Task 2:
+Topic: ${topic}
+Difficulty: ${difficulty}
+
+Return ONLY valid JSON:
+{
+  "task_type": "TASK_2",
+  "instruction": "Some people believe that... To what extent do you agree or disagree?",
+  "essay_type": "opinion|discussion|problem_solution|two_part",
+  "model_answer": "A band 8-9 sample essay (250+ words)...",
+  "word_limit_min": 250,
+  "key_points": ["Point 1", "Point 2", "Point 3"],
+  "vocabulary_suggestions": ["word1", "word2", "word3"]
+}`;
+  }
+}
+
+function getSpeakingPrompt(topic: string, difficulty: string, questionType: string): string {
+  // Generate only the requested part(s) based on questionType
+  if (questionType === "PART_1") {
+    return `Generate an IELTS Speaking Part 1 test (Introduction & Interview):
+Topic: ${topic}
+Difficulty: ${difficulty}
+
+Part 1 focuses on familiar topics about the candidate's life, interests, and opinions.
+Generate 4 questions related to the topic.
+
+Return ONLY valid JSON:
+{
+  "part1": {
+    "instruction": "I'd like to ask you some questions about yourself.",
+    "questions": ["Question 1?", "Question 2?", "Question 3?", "Question 4?"],
+    "sample_answers": ["Sample answer 1 (2-3 sentences)", "Sample answer 2", "Sample answer 3", "Sample answer 4"]
+  }
+}`;
+  }
+
+  if (questionType === "PART_2") {
+    return `Generate an IELTS Speaking Part 2 test (Individual Long Turn):
+Topic: ${topic}
+Difficulty: ${difficulty}
+
+Part 2 gives candidates a cue card with a topic to speak about for 1-2 minutes after 1 minute preparation.
+Create a cue card with the main topic and 3-4 bullet points to cover.
+
+Return ONLY valid JSON:
+{
+  "part2": {
+    "instruction": "Now I'm going to give you a topic.",
+    "cue_card": "Describe a [specific topic related to ${topic}].\\nYou should say:\\n- point 1\\n- point 2\\n- point 3\\nAnd explain why this is important/memorable to you.",
+    "preparation_time": 60,
+    "speaking_time": 120,
+    "sample_answer": "Model answer demonstrating Band 8-9 language (200-250 words)..."
+  }
+}`;
+  }
+
+  if (questionType === "PART_3") {
+    return `Generate an IELTS Speaking Part 3 test (Discussion):
+Topic: ${topic}
+Difficulty: ${difficulty}
+
+Part 3 involves abstract discussion questions related to the Part 2 topic.
+Generate 3-4 deeper discussion questions that require analysis and opinion.
+
+Return ONLY valid JSON:
+{
+  "part3": {
+    "instruction": "Let's discuss some more general questions related to this topic.",
+    "questions": ["Discussion Q1?", "Discussion Q2?", "Discussion Q3?"],
+    "sample_answers": ["Sample analytical answer 1", "Sample answer 2", "Sample answer 3"]
+  }
+}`;
+  }
+
+  // FULL_TEST - all three parts
+  return `Generate an IELTS Speaking test with all three parts:
+Topic: ${topic}
+Difficulty: ${difficulty}
+
+Return ONLY valid JSON:
+{
+  "part1": {
+    "instruction": "I'd like to ask you some questions about yourself.",
+    "questions": ["Question 1?", "Question 2?", "Question 3?", "Question 4?"],
+    "sample_answers": ["Sample 1", "Sample 2", "Sample 3", "Sample 4"]
+  },
+  "part2": {
+    "instruction": "Now I'm going to give you a topic.",
+    "cue_card": "Describe a [topic]...\\nYou should say:\\n- point 1\\n- point 2\\n- point 3\\nAnd explain why...",
+    "preparation_time": 60,
+    "speaking_time": 120,
+    "sample_answer": "Model answer (200-250 words)..."
+  },
+  "part3": {
+    "instruction": "Let's discuss some more general questions.",
+    "questions": ["Discussion Q1?", "Discussion Q2?", "Discussion Q3?"],
+    "sample_answers": ["Sample 1", "Sample 2", "Sample 3"]
+  }
+}`;
+}
+
+function getMonologueRewritePrompt(dialogue: string): string {
+  return `Rewrite the following dialogue as a detailed monologue or narration. 
+Remove all speaker labels (e.g., "Speaker1:", "Speaker2:", names followed by colons). 
+Convert the conversation into a flowing narrative that a single narrator would read aloud.
+Keep ALL factual information, numbers, dates, names, and details that would be needed to answer test questions.
+Return ONLY the raw monologue text, no JSON wrapper.
+
+DIALOGUE TO CONVERT:
+${dialogue}`;
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+export interface BulkGenerationVars {
+  topic: string;
+  /** easy | medium | hard */
+  difficulty: string;
+  questionType: string;
+}
+
+export const bulkReadingPrompt = definePrompt({
+  id: 'bulk.reading',
+  version: 1,
+  description: 'Test bank reading passage (4 paragraphs) and questions',
+  system: BULK_SYSTEM_PROMPT,
+  render: (v: BulkGenerationVars) =>
+    getReadingPrompt(v.topic, describeDifficulty(v.difficulty), v.questionType, questionCountFor(v.questionType), 4),
+  validator: v => zodValidator(readingGenerationSchema(v.questionType)),
+});
+
+export interface BulkListeningVars extends BulkGenerationVars {
+  monologue: boolean;
+  /** Voice-gender rules for the chosen TTS voice; empty when no voice is set. */
+  genderConstraint: string;
+}
+
+export const bulkListeningPrompt = definePrompt({
+  id: 'bulk.listening',
+  version: 1,
+  description: 'Test bank listening script and questions',
+  system: BULK_SYSTEM_PROMPT,
+  render: (v: BulkListeningVars) =>
+    getListeningPrompt(v.topic, describeDifficulty(v.difficulty), v.questionType, questionCountFor(v.questionType), v.monologue, v.genderConstraint),
+  validator: v => zodValidator(listeningGenerationSchema(v.questionType)),
+});
+
+export const bulkWritingPrompt = definePrompt({
+  id: 'bulk.writing',
+  version: 1,
+  description: 'Test bank writing task with a model answer',
+  system: BULK_SYSTEM_PROMPT,
+  render: (v: BulkGenerationVars) => getWritingPrompt(v.topic, describeDifficulty(v.difficulty), v.questionType),
+  validator: () => zodValidator(writingTaskGenerationSchema),
+});
+
+export const bulkSpeakingPrompt = definePrompt({
+  id: 'bulk.speaking',
+  version: 1,
+  description: 'Test bank speaking parts keyed part1/part2/part3',
+  system: BULK_SYSTEM_PROMPT,
+  render: (v: BulkGenerationVars) => getSpeakingPrompt(v.topic, describeDifficulty(v.difficulty), v.questionType),
+  validator: () => zodValidator(speakingPartsByKeySchema),
+});
+
+export const bulkMonologuePrompt = definePrompt({
+  id: 'bulk.listening-monologue',
+  version: 1,
+  description: 'Rewrites a test bank dialogue as narration when TTS fails',
+  render: (v: { dialogue: string }) => getMonologueRewritePrompt(v.dialogue),
+});
@@ -0,0 +1,56 @@
+/**
+ * Every model prompt the app sends, keyed by id. The regression harness
+ * replays recorded fixtures against this registry; edge functions import
+ * the individual templates directly.
+ */
+
+import { createPromptRegistry, type AnyPromptTemplate } from '../promptRegistry.ts';
+import {
+  bulkListeningPrompt,
+  bulkMonologuePrompt,
+  bulkReadingPrompt,
+  bulkSpeakingPrompt,
+  bulkWritingPrompt,
+} from './bulkGeneration.ts';
+import {
+  listeningMonologuePrompt,
+  practiceEssayTaskPrompt,
+  practiceLetterTaskPrompt,
+  practiceListeningPrompt,
+  practiceReadingPrompt,
+  practiceSpeakingPrompt,
+  practiceVisualTaskPrompt,
+} from './practiceGeneration.ts';
+import {
+  aiSpeakingEvaluationPrompt,
+  aiSpeakingPartEvaluationPrompt,
+  speakingSubmissionEvaluationPrompt,
+} from './speakingEvaluation.ts';
+import {
+  practiceWritingEvaluationPrompt,
+  practiceWritingFullTestPrompt,
+  writingSubmissionEvaluationPrompt,
+} from './writingEvaluation.ts';
+import { writingRewritePrompt } from './writingRewrite.ts';
+
+export const promptRegistry = createPromptRegistry([
+  practiceReadingPrompt,
+  practiceListeningPrompt,
+  listeningMonologuePrompt,
+  practiceLetterTaskPrompt,
+  practiceVisualTaskPrompt,
+  practiceEssayTaskPrompt,
+  practiceSpeakingPrompt,
+  bulkReadingPrompt,
+  bulkListeningPrompt,
+  bulkMonologuePrompt,
+  bulkWritingPrompt,
+  bulkSpeakingPrompt,
+  practiceWritingEvaluationPrompt,
+  practiceWritingFullTestPrompt,
+  writingSubmissionEvaluationPrompt,
+  writingRewritePrompt,
+  aiSpeakingEvaluationPrompt,
+  aiSpeakingPartEvaluationPrompt,
+  speakingSubmissionEvaluationPrompt,
+] as AnyPromptTemplate[]);
@@ -0,0 +1,1352 @@
+/**
+ * Practice Generation Prompts
+ *
+ * Templates for the generate-ai-practice edge function: one per module
+ * (writing has one per task kind) plus the dialogue-to-monologue rewrite
+ * used when listening audio fails. Anything random (topic, scenario,
+ * letter/visual/essay type) is picked by the caller and passed in, so a
+ * template always renders the same text for the same variables.
+ */
+
+import { definePrompt } from '../promptRegistry.ts';
+import {
+  listeningGenerationSchema,
+  readingGenerationSchema,
+  speakingGenerationSchema,
+  writingTaskGenerationSchema,
+  zodValidator,
+} from '../aiSchemas.ts';
+
+export interface ListeningScenario {
+  type: string;
+  description: string;
+}
+
+/** Genders of the TTS voices, upper-cased for the prompt text. */
+export interface SpeakerGenders {
+  speaker1: 'MALE' | 'FEMALE';
+  speaker2: 'MALE' | 'FEMALE';
+}
+
+export const LETTER_TYPES = ['FORMAL', 'SEMI_FORMAL', 'INFORMAL'] as const;
+export type LetterType = typeof LETTER_TYPES[number];
+
+export const TASK1_VISUAL_TYPES = ['BAR_CHART', 'LINE_GRAPH', 'PIE_CHART', 'TABLE', 'PROCESS_DIAGRAM', 'MAP'] as const;
+
+export const TASK2_ESSAY_TYPES = ['OPINION', 'DISCUSSION', 'PROBLEM_SOLUTION', 'ADVANTAGES_DISADVANTAGES', 'TWO_PART_QUESTION'] as const;
+
+/** Display variations for reading fill-in-the-blank; the caller picks one at random. */
+export const READING_FILL_VARIATIONS = ['standard', 'paragraph', 'bullets', 'headings', 'note_style'] as const;
+
+export interface ReadingFillLayout {
+  variation: typeof READING_FILL_VARIATIONS[number];
+  /** 1, 2 or 3 words per answer. */
+  wordLimit: number;
+}
+
+// Reading configuration interface
+export interface ReadingConfig {
+  passagePreset?: string;
+  paragraphCount?: number;
+  wordCount?: number;
+  useWordCountMode?: boolean;
+  testVariant?: 'academic' | 'general';
+}
+
+// Listening configuration interface
+// Gemini free tier limits: ~15 min audio/day, keep each request to max ~2 min (70% of capacity)
+// ~150 words per minute of speech at normal pace
+export interface SpellingModeConfig {
+  enabled: boolean;
+  testScenario: 'phone_call' | 'hotel_booking' | 'job_inquiry';
+  spellingDifficulty: 'low' | 'high';
+  numberFormat: 'phone_number' | 'date' | 'postcode';
+}
+
+export interface SpeakerVoiceConfig {
+  gender: 'male' | 'female';
+  accent: string;
+  voiceName: string;
+}
+
+export interface SpeakerConfigInput {
+  speaker1: SpeakerVoiceConfig;
+  speaker2?: SpeakerVoiceConfig;
+  useTwoSpeakers: boolean;
+}
+
+export interface ListeningConfig {
+  transcriptPreset?: string;
+  durationSeconds?: number;
+  wordCount?: number;
+  useWordCountMode?: boolean;
+  speakerConfig?: SpeakerConfigInput;
+  spellingMode?: SpellingModeConfig;
+  monologueMode?: boolean; // Single speaker mode like IELTS Part 4
+}
+
+// Reading question type prompts - generate structured data matching DB schema
+function getReadingPrompt(
+  questionType: string, 
+  topic: string, 
+  difficulty: string, 
+  questionCount: number,
+  readingConfig?: ReadingConfig,
+  fillLayout: ReadingFillLayout = { variation: 'standard', wordLimit: 2 }
+): string {
+  const difficultyDesc = difficulty === 'easy' ? 'Band 5-5.5' : difficulty === 'medium' ? 'Band 6-6.5' : difficulty === 'hard' ? 'Band 7-7.5' : 'Band 8-9 (Expert level - extremely challenging, requires near-native comprehension, subtle inferences, and mastery of nuanced vocabulary)';
+  
+  // Determine passage specifications based on config
+  let paragraphCount = readingConfig?.paragraphCount || 6;
+  let wordCount = readingConfig?.wordCount || 750;
+  
+  // If using word count mode, estimate paragraphs (avg ~100-120 words per paragraph)
+  if (readingConfig?.useWordCountMode && readingConfig.wordCount) {
+    paragraphCount = Math.max(3, Math.min(10, Math.ceil(wordCount / 110)));
+  } else if (!readingConfig?.useWordCountMode && readingConfig?.paragraphCount) {
+    // If using paragraph mode, estimate word count
+    wordCount = paragraphCount * 110;
+  }
+
+  // Generate paragraph labels
+  const paragraphLabels = Array.from({ length: paragraphCount }, (_, i) => 
+    String.fromCharCode(65 + i) // A, B, C, ...
+  );
+  const labelList = paragraphLabels.map(l => `[${l}]`).join(', ');
+  
+  // General Training texts are everyday / workplace documents rather than academic articles
+  const isGeneralTraining = readingConfig?.testVariant === 'general';
+  const styleRequirement = isGeneralTraining
+    ? 'An everyday or workplace text (e.g. notice, advertisement, staff handbook extract, job description, guide) in a plain, practical style'
+    : 'Academic in tone and style';
+
+  const basePrompt = `Generate an IELTS ${isGeneralTraining ? 'General Training' : 'Academic'} Reading test with the following specifications:
+
+Topic: ${topic}
+Difficulty: ${difficulty} (${difficultyDesc})
+
+Requirements:
+1. Create a reading passage with these specifications:
+   - Total word count: approximately ${wordCount} words (strict: between ${wordCount - 50} and ${wordCount + 100} words)
+   - Number of paragraphs: ${paragraphCount} paragraphs, labeled ${labelList}
+   - Each paragraph should be 80-150 words (official IELTS standard)
+   - ${styleRequirement}
+   - Well-structured with clear paragraph labels [A], [B], etc.
+   - Contains specific information that can be tested
+   - Appropriate for the ${difficulty} difficulty level
+
+`;
+
+  switch (questionType) {
+    case 'TRUE_FALSE_NOT_GIVEN':
+    case 'YES_NO_NOT_GIVEN':
+      return basePrompt + `2. Create ${questionCount} ${questionType === 'YES_NO_NOT_GIVEN' ? 'Yes/No/Not Given' : 'True/False/Not Given'} questions based on the passage.
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The title of the passage",
+    "content": "The full passage text with paragraph labels like [A], [B], etc."
+  },
+  "instruction": "Do the following statements agree with the information given in the passage? Write ${questionType === 'YES_NO_NOT_GIVEN' ? 'YES, NO, or NOT GIVEN' : 'TRUE, FALSE, or NOT GIVEN'}.",
+  "questions": [
+    {
+      "question_number": 1,
+      "question_text": "Statement about the passage",
+      "correct_answer": "${questionType === 'YES_NO_NOT_GIVEN' ? 'YES' : 'TRUE'}",
+      "explanation": "Why this is the correct answer"
+    }
+  ]
+}`;
+
+    case 'MULTIPLE_CHOICE':
+    case 'MULTIPLE_CHOICE_SINGLE':
+      return basePrompt + `2. Create ${questionCount} multiple choice questions (single answer) based on the passage.
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The title of the passage",
+    "content": "The full passage text with paragraph labels like [A], [B], etc."
+  },
+  "instruction": "Choose the correct letter, A, B, C or D.",
+  "questions": [
+    {
+      "question_number": 1,
+      "question_text": "The question about the passage?",
+      "options": ["A First option", "B Second option", "C Third option", "D Fourth option"],
+      "correct_answer": "A",
+      "explanation": "Why A is correct"
+    }
+  ]
+}`;
+
+    case 'MULTIPLE_CHOICE_MULTIPLE':
+      // For MCQ Multiple, we create ONE question "set" where test-takers must pick 3 answers.
+      // The question group spans 3 question numbers (Questions 1-3) with 6 options (A-F).
+      // This is the standardized MCMA format for AI practice.
+
+      return basePrompt + `2. Create ONE multiple choice question set where test-takers must select THREE correct answers from six options (A-F).
+
+CRITICAL REQUIREMENTS:
+- The question set spans Questions 1 to 3 (3 question numbers)
+- Return EXACTLY 3 question objects with question_number 1, 2, and 3
+- ALL 3 question objects must have IDENTICAL content (same question_text, same options, same correct_answer, same explanation)
+- Generate exactly 6 options (A through F)
+- The correct_answer must be a comma-separated list of 3 letters (e.g., "A,C,E" or "B,D,F")
+- DO NOT always use the same letters - randomize which 3 options are correct
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The title of the passage",
+    "content": "The full passage text with paragraph labels like [A], [B], etc."
+  },
+  "instruction": "Questions 1-3. Choose THREE letters, A-F.",
+  "max_answers": 3,
+  "questions": [
+    {
+      "question_number": 1,
+      "question_text": "Which THREE of the following statements are true according to the passage?",
+      "options": ["A First option", "B Second option", "C Third option", "D Fourth option", "E Fifth option", "F Sixth option"],
+      "correct_answer": "A,C,E",
+      "explanation": "A is correct because... C is correct because... E is correct because...",
+      "max_answers": 3
+    },
+    {
+      "question_number": 2,
+      "question_text": "Which THREE of the following statements are true according to the passage?",
+      "options": ["A First option", "B Second option", "C Third option", "D Fourth option", "E Fifth option", "F Sixth option"],
+      "correct_answer": "A,C,E",
+      "explanation": "A is correct because... C is correct because... E is correct because...",
+      "max_answers": 3
+    },
+    {
+      "question_number": 3,
+      "question_text": "Which THREE of the following statements are true according to the passage?",
+      "options": ["A First option", "B Second option", "C Third option", "D Fourth option", "E Fifth option", "F Sixth option"],
+      "correct_answer": "A,C,E",
+      "explanation": "A is correct because... C is correct because... E is correct because...",
+      "max_answers": 3
+    }
+  ]
+}`;
+
+    case 'MATCHING_HEADINGS':
+      return basePrompt + `2. Create a matching headings question where test-takers match paragraphs to headings.
+   - Provide MORE headings than paragraphs (at least 2-3 extra distractors)
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The title of the passage",
+    "content": "The full passage text with paragraph labels like [A], [B], [C], [D], [E]"
+  },
+  "instruction": "The passage has five paragraphs, A-E. Choose the correct heading for each paragraph from the list of headings below.",
+  "headings": [
+    {"id": "i", "text": "First heading option"},
+    {"id": "ii", "text": "Second heading option"},
+    {"id": "iii", "text": "Third heading option"},
+    {"id": "iv", "text": "Fourth heading option"},
+    {"id": "v", "text": "Fifth heading option"},
+    {"id": "vi", "text": "Sixth heading (distractor)"},
+    {"id": "vii", "text": "Seventh heading (distractor)"}
+  ],
+  "questions": [
+    {"question_number": 1, "question_text": "Paragraph A", "correct_answer": "ii", "explanation": "Why ii matches A"},
+    {"question_number": 2, "question_text": "Paragraph B", "correct_answer": "v", "explanation": "Why v matches B"},
+    {"question_number": 3, "question_text": "Paragraph C", "correct_answer": "i", "explanation": "Why i matches C"},
+    {"question_number": 4, "question_text": "Paragraph D", "correct_answer": "iv", "explanation": "Why iv matches D"},
+    {"question_number": 5, "question_text": "Paragraph E", "correct_answer": "iii", "explanation": "Why iii matches E"}
+  ]
+}`;
+
+    case 'MATCHING_INFORMATION':
+      return basePrompt + `2. Create ${questionCount} matching information questions where test-takers match statements to paragraphs.
+   - The passage has multiple paragraphs labeled A, B, C, D, E
+   - Each question asks which paragraph contains specific information
+   - Provide paragraph options with descriptions (not just letters)
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The title of the passage",
+    "content": "The full passage text with paragraph labels like [A], [B], [C], [D], [E]"
+  },
+  "instruction": "Which paragraph contains the following information? Write the correct letter, A-E.",
+  "options": [
+    {"letter": "A", "text": "Introduction and background"},
+    {"letter": "B", "text": "Historical development"},
+    {"letter": "C", "text": "Current applications"},
+    {"letter": "D", "text": "Future implications"},
+    {"letter": "E", "text": "Conclusion and summary"}
+  ],
+  "questions": [
+    {
+      "question_number": 1,
+      "question_text": "A description of the early origins of the subject",
+      "correct_answer": "B",
+      "explanation": "This information is found in paragraph B where the historical development is discussed..."
+    }
+  ]
+}`;
+
+    case 'FILL_IN_BLANK':
+    case 'SHORT_ANSWER': {
+      // Display variation and word limit are picked by the caller (see READING_FILL_VARIATIONS)
+      const selectedVariation = fillLayout.variation;
+      const selectedWordLimit = fillLayout.wordLimit;
+      const wordLimitText = selectedWordLimit === 1 ? 'ONE WORD ONLY' : 
+                            selectedWordLimit === 2 ? 'NO MORE THAN TWO WORDS' : 
+                            'NO MORE THAN THREE WORDS';
+      
+      let variationInstructions = '';
+      let variationFormat = '';
+      
+      if (selectedVariation === 'paragraph') {
+        variationInstructions = `
+   - Format the questions as a flowing paragraph with blanks numbered in parentheses
+   - The paragraph should be a coherent summary of part of the passage`;
+        variationFormat = `
+  "display_options": {
+    "display_as_paragraph": true,
+    "paragraph_text": "The study found that (1) _____ was the primary factor, which led to (2) _____ in the region. Researchers concluded that (3) _____ would be necessary..."
+  },`;
+      } else if (selectedVariation === 'bullets') {
+        variationInstructions = `
+   - Format each question as a bullet point item`;
+        variationFormat = `
+  "display_options": {
+    "show_bullets": true
+  },`;
+      } else if (selectedVariation === 'headings') {
+        variationInstructions = `
+   - Group questions under 2-3 thematic headings based on the passage content
+   - Each question should have a "heading" field indicating which heading it belongs to`;
+        variationFormat = `
+  "display_options": {
+    "show_headings": true,
+    "group_title": "Summary of Key Points"
+  },`;
+      } else if (selectedVariation === 'note_style') {
+        variationInstructions = `
+   - Format as note-taking style with categories
+   - Group questions into 2-3 note categories
+   - Each category has a title and list of items with blanks`;
+        variationFormat = `
+  "display_options": {
+    "note_style_enabled": true,
+    "note_categories": [
+      {
+        "title": "Main Findings",
+        "items": [
+          {"text_before": "Primary cause:", "question_number": 1, "text_after": ""},
+          {"text_before": "Effect on population:", "question_number": 2, "text_after": ""}
+        ]
+      }
+    ]
+  },`;
+      } else {
+        variationFormat = `
+  "display_options": {},`;
+      }
+      
+      return basePrompt + `2. Create ${questionCount} fill-in-the-blank/sentence completion questions.
+
+CRITICAL WORD LIMIT RULE - STRICTLY ENFORCED:
+- Maximum word limit: ${selectedWordLimit} word(s) per answer
+- Every answer MUST be ${selectedWordLimit === 1 ? 'exactly 1 word' : selectedWordLimit === 2 ? '1 or 2 words (never 3+)' : '1, 2, or 3 words (never 4+)'}
+- NEVER exceed the word limit - this violates IELTS standards
+- If word limit is 3, vary lengths naturally: some 1-word, some 2-word, some 3-word answers
+- If word limit is 2, use mix of 1-word and 2-word answers
+- If word limit is 1, ALL answers must be exactly 1 word${variationInstructions}
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The title of the passage",
+    "content": "The full passage text with paragraph labels like [A], [B], etc."
+  },
+  "instruction": "Complete the sentences below. Choose ${wordLimitText} from the passage for each answer.",${variationFormat}
+  "questions": [
+    {
+      "question_number": 1,
+      "question_text": "According to the passage, the main cause of _____ is pollution.",
+      "correct_answer": "${selectedWordLimit === 1 ? 'pollution' : selectedWordLimit === 2 ? 'climate change' : 'global climate change'}",
+      "explanation": "Found in paragraph A: 'the main cause of climate change is pollution'"${selectedVariation === 'headings' ? ',\n      "heading": "Environmental Impact"' : ''}
+    }
+  ]
+}`;
+    }
+
+    case 'SENTENCE_COMPLETION':
+      return basePrompt + `2. Create ${questionCount} sentence completion questions with a word bank.
+   - Provide a list of words/phrases (options A-H) that test-takers must choose from
+   - Each question is a sentence with a blank that must be completed using one of the given words
+   - Provide more options than questions as distractors
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The title of the passage",
+    "content": "The full passage text with paragraph labels like [A], [B], etc."
+  },
+  "instruction": "Complete the sentences below. Choose the correct letter, A-H, from the list of words below.",
+  "word_bank": [
+    {"id": "A", "text": "technology"},
+    {"id": "B", "text": "environment"},
+    {"id": "C", "text": "research"},
+    {"id": "D", "text": "education"},
+    {"id": "E", "text": "climate"},
+    {"id": "F", "text": "innovation"},
+    {"id": "G", "text": "development"},
+    {"id": "H", "text": "sustainability"}
+  ],
+  "questions": [
+    {
+      "question_number": 1,
+      "question_text": "The main focus of the study was on _____.",
+      "correct_answer": "A",
+      "explanation": "The passage mentions technology as the main focus in paragraph B"
+    },
+    {
+      "question_number": 2,
+      "question_text": "Scientists emphasized the importance of _____ in modern society.",
+      "correct_answer": "F",
+      "explanation": "Innovation is discussed as crucial in paragraph C"
+    }
+  ]
+}`;
+
+    case 'TABLE_COMPLETION':
+      return basePrompt + `2. Create a table completion task with ${questionCount} blanks to fill.
+
+CRITICAL RULES - FOLLOW EXACTLY:
+1. WORD LIMIT: Maximum TWO words per answer. STRICTLY ENFORCED.
+   - Every answer MUST be 1 or 2 words maximum
+   - NEVER use 3+ word answers - this violates IELTS standards
+   - Vary the lengths naturally: mix of 1-word and 2-word answers
+   - Example valid answers: "pollution" (1 word), "water supply" (2 words)
+   - Example INVALID: "clean water supply" (3 words - NEVER DO THIS)
+2. Tables MUST have EXACTLY 3 COLUMNS (no more, no less).
+3. Use inline blanks with __ (double underscores) within cell content, NOT separate cells for blanks.
+   - Example: "Clean air and water, pollination of crops, and __" where __ is the blank
+4. DISTRIBUTE blanks across BOTH column 2 AND column 3. Do NOT put all blanks only in column 2.
+   - Alternate between putting blanks in the 2nd column and the 3rd column
+   - At least 1/3 of blanks MUST be in the 3rd column
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The title of the passage",
+    "content": "The full passage text with paragraph labels like [A], [B], etc."
+  },
+  "instruction": "Complete the table below. Choose NO MORE THAN TWO WORDS from the passage for each answer.",
+  "table_data": [
+    [{"content": "Category", "is_header": true}, {"content": "Details", "is_header": true}, {"content": "Impact", "is_header": true}],
+    [{"content": "First item"}, {"content": "Description text and __", "has_question": true, "question_number": 1}, {"content": "Positive effect"}],
+    [{"content": "Second item"}, {"content": "More text here"}, {"content": "Results in __", "has_question": true, "question_number": 2}],
+    [{"content": "Third item"}, {"content": "Additional info about __", "has_question": true, "question_number": 3}, {"content": "Significant"}]
+  ],
+  "questions": [
+    {"question_number": 1, "question_text": "Fill in blank 1", "correct_answer": "resources", "explanation": "Found in paragraph B"},
+    {"question_number": 2, "question_text": "Fill in blank 2", "correct_answer": "water scarcity", "explanation": "Found in paragraph C"},
+    {"question_number": 3, "question_text": "Fill in blank 3", "correct_answer": "deforestation", "explanation": "Found in paragraph D"}
+  ]
+}`;
+
+    case 'FLOWCHART_COMPLETION':
+      return basePrompt + `2. Create a flowchart completion task describing a process with ${questionCount} blanks.
+
+CRITICAL INSTRUCTION RULES:
+- The instruction displayed to the user MUST be exactly: "Choose NO MORE THAN THREE WORDS AND/OR A NUMBER from the passage for each answer."
+- The answers you select from the text MUST respect this limit (max 3 words).
+- Do not artificially limit it to 2 words if a 3-word answer is better.
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The title of the passage",
+    "content": "The full passage text describing a process with paragraph labels like [A], [B], etc."
+  },
+  "instruction": "Choose NO MORE THAN THREE WORDS AND/OR A NUMBER from the passage for each answer.",
+  "flowchart_title": "Process of...",
+  "flowchart_steps": [
+    {"id": "step1", "label": "First step: gathering materials", "isBlank": false},
+    {"id": "step2", "label": "", "isBlank": true, "questionNumber": 1},
+    {"id": "step3", "label": "Third step: processing", "isBlank": false},
+    {"id": "step4", "label": "", "isBlank": true, "questionNumber": 2},
+    {"id": "step5", "label": "Final step: completion", "isBlank": false}
+  ],
+  "questions": [
+    {"question_number": 1, "question_text": "Step 2", "correct_answer": "mixing ingredients", "explanation": "Found in paragraph B"},
+    {"question_number": 2, "question_text": "Step 4", "correct_answer": "quality testing", "explanation": "Found in paragraph D"}
+  ]
+}`;
+
+    case 'SUMMARY_COMPLETION':
+    case 'SUMMARY_WORD_BANK':
+      return basePrompt + `2. Create a summary completion task with a word bank.
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The title of the passage",
+    "content": "The full passage text with paragraph labels like [A], [B], etc."
+  },
+  "instruction": "Complete the summary using the list of words, A-H, below.",
+  "summary_text": "The passage discusses how {{1}} affects modern society. Scientists have found that {{2}} plays a crucial role in this process. Furthermore, {{3}} has been identified as a key factor.",
+  "word_bank": [
+    {"id": "A", "text": "technology"},
+    {"id": "B", "text": "environment"},
+    {"id": "C", "text": "research"},
+    {"id": "D", "text": "education"},
+    {"id": "E", "text": "climate"},
+    {"id": "F", "text": "innovation"}
+  ],
+  "questions": [
+    {"question_number": 1, "question_text": "Gap 1", "correct_answer": "A", "explanation": "Technology is discussed as affecting society"},
+    {"question_number": 2, "question_text": "Gap 2", "correct_answer": "C", "explanation": "Research is mentioned as crucial"},
+    {"question_number": 3, "question_text": "Gap 3", "correct_answer": "E", "explanation": "Climate is identified as key factor"}
+  ]
+}`;
+
+    case 'MATCHING_SENTENCE_ENDINGS':
+      return basePrompt + `2. Create ${questionCount} matching sentence endings questions.
+   - Provide more endings than questions as distractors
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The title of the passage",
+    "content": "The full passage text with paragraph labels like [A], [B], etc."
+  },
+  "instruction": "Complete each sentence with the correct ending, A-G, below.",
+  "sentence_beginnings": [
+    {"number": 1, "text": "Scientists discovered that"},
+    {"number": 2, "text": "The research team found that"},
+    {"number": 3, "text": "Experts believe that"}
+  ],
+  "sentence_endings": [
+    {"id": "A", "text": "pollution has increased significantly."},
+    {"id": "B", "text": "new methods are needed."},
+    {"id": "C", "text": "the results were unexpected."},
+    {"id": "D", "text": "further study is required."},
+    {"id": "E", "text": "improvements can be made."}
+  ],
+  "questions": [
+    {"question_number": 1, "question_text": "Scientists discovered that", "correct_answer": "C", "explanation": "The passage states..."},
+    {"question_number": 2, "question_text": "The research team found that", "correct_answer": "A", "explanation": "Found in paragraph B..."}
+  ]
+}`;
+
+    case 'MAP_LABELING':
+      return basePrompt + `2. Create a map/diagram labeling task with ${questionCount} labels to identify.
+
+OFFICIAL IELTS FORMAT - CRITICAL RULES:
+- The MAP shows: (1) Letter circles A-H marking UNKNOWN locations, and (2) LABELED landmarks for navigation
+- The PASSAGE describes where things are using DIRECTIONS and LANDMARKS (e.g., "opposite the main entrance", "north of the café")
+- QUESTIONS show the PLACE NAME the test taker must locate (e.g., "Library", "Gift Shop")
+- The correct_answer is the LETTER (A, B, C, etc.) where that place is located
+
+MAP STRUCTURE:
+- map_labels: Answer positions A-H with x,y coordinates (0-100 percentage). The "text" field stores what the letter represents (for answer checking) but this text is NOT shown on the map - only the letter circle appears!
+- landmarks: Reference points with x,y coordinates that ARE labeled on the map (streets, known buildings like "Main Entrance", "Café", "Park")
+
+PASSAGE STYLE:
+- Describe locations using RELATIVE POSITIONS: "The gift shop is directly opposite the main entrance" or "Located to the north of the café"
+- NEVER say "The gift shop is at position B" - test takers must figure this out!
+- Use directional words: north, south, east, west, opposite, adjacent, between, corner of, next to, behind
+
+CRITICAL: Answers must NOT be sequential! Randomize: Q1=D, Q2=A, Q3=F, Q4=B (NOT Q1=A, Q2=B, Q3=C)
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The New Community Center",
+    "content": "The new community center opened last month. The main entrance faces Oak Street. Immediately to the left of the entrance is the reception desk. The children's play area is located in the northeast corner, directly behind the café. The library occupies the western wing, opposite the sports hall. Meeting rooms can be found on the second floor, accessible via the staircase next to the reception."
+  },
+  "instruction": "Label the map below. Choose the correct letter, A-H.",
+  "map_description": "A floor plan showing Oak Street at the bottom with main entrance. The building has various rooms arranged around a central corridor.",
+  "map_labels": [
+    {"id": "A", "text": "Reception", "x": 25, "y": 70},
+    {"id": "B", "text": "Children's Play Area", "x": 75, "y": 20},
+    {"id": "C", "text": "Library", "x": 15, "y": 40},
+    {"id": "D", "text": "Sports Hall", "x": 75, "y": 40},
+    {"id": "E", "text": "Meeting Rooms", "x": 50, "y": 15},
+    {"id": "F", "text": "Storage", "x": 85, "y": 70},
+    {"id": "G", "text": "Staff Room", "x": 15, "y": 20},
+    {"id": "H", "text": "Toilets", "x": 85, "y": 15}
+  ],
+  "landmarks": [
+    {"id": "L1", "text": "Oak Street", "x": 50, "y": 95},
+    {"id": "L2", "text": "Main Entrance", "x": 50, "y": 85},
+    {"id": "L3", "text": "Café", "x": 60, "y": 30},
+    {"id": "L4", "text": "Staircase", "x": 35, "y": 70}
+  ],
+  "map_type": "floor_plan",
+  "questions": [
+    {"question_number": 1, "question_text": "Children's Play Area", "correct_answer": "B", "explanation": "Passage says it's in the northeast corner, behind the café"},
+    {"question_number": 2, "question_text": "Library", "correct_answer": "C", "explanation": "Passage says it occupies the western wing, opposite the sports hall"},
+    {"question_number": 3, "question_text": "Reception", "correct_answer": "A", "explanation": "Passage says it's immediately left of the main entrance"},
+    {"question_number": 4, "question_text": "Sports Hall", "correct_answer": "D", "explanation": "Passage says the library is opposite it"}
+  ]
+}`;
+
+    case 'NOTE_COMPLETION':
+      return basePrompt + `2. Create a note completion task with ${questionCount} blanks.
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The title of the passage",
+    "content": "The full passage text with paragraph labels like [A], [B], etc."
+  },
+  "instruction": "Complete the notes below. Choose NO MORE THAN TWO WORDS from the passage for each answer.",
+  "note_sections": [
+    {
+      "title": "Main Topic",
+      "items": [
+        {"text_before": "The primary cause is", "question_number": 1, "text_after": ""},
+        {"text_before": "This leads to", "question_number": 2, "text_after": "in urban areas"}
+      ]
+    }
+  ],
+  "questions": [
+    {"question_number": 1, "question_text": "Note 1", "correct_answer": "pollution", "explanation": "Found in paragraph A"},
+    {"question_number": 2, "question_text": "Note 2", "correct_answer": "health problems", "explanation": "Found in paragraph B"}
+  ]
+}`;
+
+    default:
+      return basePrompt + `2. Create ${questionCount} fill-in-the-blank questions based on the passage.
+
+Return ONLY valid JSON in this exact format:
+{
+  "passage": {
+    "title": "The title of the passage",
+    "content": "The full passage text with paragraph labels like [A], [B], etc."
+  },
+  "instruction": "Complete the sentences below using words from the passage.",
+  "questions": [
+    {
+      "question_number": 1,
+      "question_text": "Complete this sentence: _____",
+      "correct_answer": "the answer",
+      "explanation": "Why this is correct"
+    }
+  ]
+}`;
+  }
+}
+
+// Listening question type prompts
+// TEMPORARY: 1 minute audio for testing (revert to 4/600 for production)
+const LISTENING_AUDIO_LENGTH_MINUTES = 1; // TESTING: was 4
+export const LISTENING_QUESTION_COUNT = 7;
+const LISTENING_WORD_COUNT = 150; // TESTING: was 600 (1 min * 150 words/min)
+
+function getListeningPrompt(
+  questionType: string, 
+  topic: string, 
+  difficulty: string, 
+  scenario: ListeningScenario,
+  speakerGenders: SpeakerGenders,
+  listeningConfig?: ListeningConfig
+): string {
+  const difficultyDesc = difficulty === 'easy' ? 'Band 5-5.5' : difficulty === 'medium' ? 'Band 6-6.5' : difficulty === 'hard' ? 'Band 7-7.5' : 'Band 8-9 (Expert level - extremely challenging, requires near-native comprehension, subtle inferences, and mastery of nuanced vocabulary)';
+  
+  // HARDCODED per Architect spec: 4 minutes audio, 7 questions
+  const targetWordCount = LISTENING_WORD_COUNT;
+  const targetDurationSeconds = LISTENING_AUDIO_LENGTH_MINUTES * 60; // 240 seconds
+  const effectiveQuestionCount = LISTENING_QUESTION_COUNT;
+  
+  const wordRange = `${targetWordCount - 50}-${targetWordCount + 50}`;
+
+  // Determine if we use 1 or 2 speakers based on config
+  const useTwoSpeakers = listeningConfig?.speakerConfig?.useTwoSpeakers !== false;
+
+  // SSML pause instructions - Use natural, short pauses
+  const ssmlInstructions = `
+   CRITICAL AUDIO PACING - NATURAL PAUSES ONLY:
+   - You MUST use SSML tags for pauses in the dialogue
+   - Insert <break time='500ms'/> between sentences and speaker turns
+   - Insert <break time='300ms'/> for natural pauses within speech
+   - NEVER use pauses longer than 1 second - keep the audio flowing naturally
+   - Example: "Speaker1: Welcome to the museum tour.<break time='500ms'/> Let me start by explaining the layout."
+   - Avoid long silences - test takers can pause the audio if needed`;
+
+  // FIX 1: Genders come from the actual TTS voices (resolved by the caller) to prevent name/voice mismatch
+  const s1Gender = speakerGenders.speaker1;
+  const s2Gender = speakerGenders.speaker2;
+  
+  const maleNames = 'Mark, David, John, Michael, James';
+  const femaleNames = 'Sarah, Emma, Lisa, Rachel, Kate';
+
+  // Build prompt for realistic character names with SSML instructions
+  const characterInstructions = useTwoSpeakers
+    ? `1. Create a dialogue script between two characters that is:
+   - ${wordRange} words total (approximately ${targetDurationSeconds} seconds / ${LISTENING_AUDIO_LENGTH_MINUTES} minutes when spoken)
+   
+   CRITICAL GENDER & NAME RULES (VOICE-SYNCHRONIZED):
+   - Speaker1 voice is ${s1Gender}. You MUST assign Speaker1 a ${s1Gender} name (e.g., ${s1Gender === 'MALE' ? maleNames : femaleNames}).
+   - Speaker2 voice is ${s2Gender}. You MUST assign Speaker2 a ${s2Gender} name (e.g., ${s2Gender === 'MALE' ? maleNames : femaleNames}).
+   - DO NOT use self-referential phrases that contradict these genders.
+   - DO NOT assign a male name to a female voice or vice versa.
+   
+   - In the output JSON dialogue field, you MUST use "Speaker1:" and "Speaker2:" prefixes for TTS processing
+   - ALSO include a "speaker_names" object in your JSON that maps Speaker1/Speaker2 to their real names
+   - Contains specific details (names, numbers, dates, locations)
+   ${ssmlInstructions}
+   
+   CRITICAL OUTPUT FORMAT:
+   - dialogue: Use "Speaker1:" and "Speaker2:" prefixes (required for audio generation)
+   - speaker_names: {"Speaker1": "${s1Gender === 'MALE' ? 'Mark' : 'Sarah'}", "Speaker2": "${s2Gender === 'MALE' ? 'David' : 'Emma'}"}`
+    : `1. Create a monologue script by a single speaker that is:
+   - ${wordRange} words total (approximately ${targetDurationSeconds} seconds / ${LISTENING_AUDIO_LENGTH_MINUTES} minutes when spoken)
+   - Clear and informative, like a tour guide, lecturer, or announcer
+   - Use "Speaker1:" prefix for all lines (required for TTS)
+   - ALSO include a "speaker_names" object: {"Speaker1": "Appropriate Role/Title"}
+   - Example: speaker_names: {"Speaker1": "Tour Guide"} or {"Speaker1": "${s1Gender === 'MALE' ? 'Professor Williams' : 'Dr. Thompson'}"}
+   - Contains specific details (names, numbers, dates, locations)
+   ${ssmlInstructions}`;
+
+  const basePrompt = `Generate an IELTS Listening test section with the following specifications:
+
+Topic: ${topic}
+Scenario: ${scenario.description}
+Difficulty: ${difficulty} (${difficultyDesc})
+FIXED PARAMETERS: ${LISTENING_AUDIO_LENGTH_MINUTES} minutes audio, ${effectiveQuestionCount} questions
+
+Requirements:
+${characterInstructions}
+`;
+
+  // Handle FILL_IN_BLANK with optional Spelling Mode or Monologue Mode
+  if (questionType === 'FILL_IN_BLANK') {
+    const isMonologue = listeningConfig?.monologueMode === true;
+    
+    // NATURAL GAP POSITIONING INSTRUCTION - randomizes blank positions
+    const gapPositionInstruction = `
+CRITICAL - NATURAL GAP/BLANK POSITIONING:
+For fill-in-the-blank questions, you MUST randomize the position of the missing word (represented by _____):
+- 30% of questions: Blank should be near the START of the sentence (e.g., "_____ is the main attraction.")
+- 40% of questions: Blank should be in the MIDDLE of the sentence (e.g., "The event starts at _____ on Saturday.")
+- 30% of questions: Blank should be at the END of the sentence (e.g., "Visitors should bring _____.")
+- Ensure the sentence context makes the missing word deducible from the audio.
+- NEVER put all blanks at the same position - vary them naturally across questions.`;
+    
+    // Monologue mode (IELTS Part 4 style)
+    if (isMonologue) {
+      return basePrompt + `2. Create ${effectiveQuestionCount} fill-in-the-blank questions in IELTS Part 4 monologue style.
+
+CRITICAL RULES FOR MONOLOGUE MODE:
+- This is a SINGLE SPEAKER monologue (like a lecture, tour guide, or presentation)
+- Use "Speaker1:" prefix for ALL lines (required for TTS)
+- Blanks should contain common nouns, dates, numbers, or descriptive phrases
+${gapPositionInstruction}
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: Welcome to today's lecture...<break time='500ms'/> Let me explain...",
+  "speaker_names": {"Speaker1": "Professor Williams"},
+  "instruction": "Complete the notes below. Write NO MORE THAN THREE WORDS AND/OR A NUMBER for each answer.",
+  "questions": [
+    {"question_number": 1, "question_text": "_____ was the primary building material used.", "correct_answer": "Limestone", "explanation": "Speaker mentions limestone (START gap)"},
+    {"question_number": 2, "question_text": "The museum opens at _____ on weekdays.", "correct_answer": "9 AM", "explanation": "Speaker states opening time (MIDDLE gap)"},
+    {"question_number": 3, "question_text": "Visitors should register at _____.", "correct_answer": "the front desk", "explanation": "Speaker mentions registration location (END gap)"}
+  ]
+}`;
+    }
+    
+    // Standard Fill-in-Blank
+    return basePrompt + `2. Create ${effectiveQuestionCount} fill-in-the-blank questions.
+${gapPositionInstruction}
+
+CRITICAL NEGATIVE CONSTRAINT: You are PROHIBITED from placing the blank at the very end of the sentence more than 30% of the time.
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: Hello, welcome to the museum...<break time='500ms'/>\\nSpeaker2: Thank you...",
+  "speaker_names": {"Speaker1": "Tour Guide", "Speaker2": "Visitor"},
+  "instruction": "Complete the notes below. Write NO MORE THAN THREE WORDS AND/OR A NUMBER for each answer.",
+  "questions": [
+    {"question_number": 1, "question_text": "_____ is located on the second floor.", "correct_answer": "The gift shop", "explanation": "Speaker mentions gift shop location (START gap)"},
+    {"question_number": 2, "question_text": "The tour lasts approximately _____.", "correct_answer": "45 minutes", "explanation": "Speaker mentions tour duration (MIDDLE gap)"},
+    {"question_number": 3, "question_text": "Photography is not allowed in _____.", "correct_answer": "the main gallery", "explanation": "Speaker mentions photography restriction (END gap)"}
+  ]
+}`;
+  }
+
+  switch (questionType) {
+    case 'MULTIPLE_CHOICE':
+    case 'MULTIPLE_CHOICE_SINGLE':
+      return basePrompt + `2. Create ${effectiveQuestionCount} multiple choice questions (single answer).
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: Let me explain...<break time='500ms'/>\\nSpeaker2: I see...",
+  "speaker_names": {"Speaker1": "Instructor", "Speaker2": "Student"},
+  "instruction": "Choose the correct letter, A, B or C.",
+  "questions": [
+    {"question_number": 1, "question_text": "What is the main topic?", "options": ["A First option", "B Second option", "C Third option"], "correct_answer": "A", "explanation": "The speaker mentions..."}
+  ]
+}`;
+
+    case 'MULTIPLE_CHOICE_MULTIPLE':
+      // For MCQ Multiple, we create ONE question "set" where test-takers must pick 3 answers.
+      // The question group spans 3 question numbers (Questions 1-3) with 6 options (A-F).
+      // This mirrors the reading MCMA format exactly.
+      return basePrompt + `2. Create ONE multiple choice question set where test-takers must select THREE correct answers from six options (A-F).
+
+CRITICAL REQUIREMENTS:
+- The question set spans Questions 1 to 3 (3 question numbers)
+- Return EXACTLY 3 question objects with question_number 1, 2, and 3
+- ALL 3 question objects must have IDENTICAL content (same question_text, same options, same correct_answer, same explanation)
+- Generate exactly 6 options (A through F) with full descriptive text
+- The correct_answer must be a comma-separated list of 3 letters (e.g., "A,C,E" or "B,D,F")
+- DO NOT always use the same letters - randomize which 3 options are correct
+- Each option must be in format "A Full description of option A" (letter followed by space then text)
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: There are several key benefits to this approach...<break time='500ms'/> First, it improves efficiency...<break time='300ms'/> Additionally, it reduces costs...",
+  "speaker_names": {"Speaker1": "Expert"},
+  "instruction": "Questions 1-3. Choose THREE letters, A-F.",
+  "max_answers": 3,
+  "questions": [
+    {"question_number": 1, "question_text": "Which THREE benefits are mentioned by the speaker?", "options": ["A Improved efficiency in operations", "B Better customer satisfaction", "C Reduced overall costs", "D Enhanced employee morale", "E Faster processing times", "F Greater market reach"], "correct_answer": "A,C,E", "explanation": "A is correct because efficiency is mentioned. C is correct because cost reduction is discussed. E is correct because faster processing is highlighted.", "max_answers": 3},
+    {"question_number": 2, "question_text": "Which THREE benefits are mentioned by the speaker?", "options": ["A Improved efficiency in operations", "B Better customer satisfaction", "C Reduced overall costs", "D Enhanced employee morale", "E Faster processing times", "F Greater market reach"], "correct_answer": "A,C,E", "explanation": "A is correct because efficiency is mentioned. C is correct because cost reduction is discussed. E is correct because faster processing is highlighted.", "max_answers": 3},
+    {"question_number": 3, "question_text": "Which THREE benefits are mentioned by the speaker?", "options": ["A Improved efficiency in operations", "B Better customer satisfaction", "C Reduced overall costs", "D Enhanced employee morale", "E Faster processing times", "F Greater market reach"], "correct_answer": "A,C,E", "explanation": "A is correct because efficiency is mentioned. C is correct because cost reduction is discussed. E is correct because faster processing is highlighted.", "max_answers": 3}
+  ]
+}`;
+    case 'MATCHING_CORRECT_LETTER':
+    case 'DRAG_AND_DROP_OPTIONS': {
+      // UNIFIED PROMPT for both question types - they are functionally identical
+      // Calculate number of distractor options (2-3 more than number of questions)
+      const numDistractorsDND = Math.min(3, Math.max(2, Math.ceil(effectiveQuestionCount * 0.4)));
+      const totalOptionsDND = effectiveQuestionCount + numDistractorsDND;
+      const lastLetterDND = String.fromCharCode(64 + totalOptionsDND);
+      
+      return basePrompt + `2. Create ${effectiveQuestionCount} drag-and-drop questions with a word bank.
+
+CRITICAL - DRAG & DROP FORMAT WITH DISTRACTORS:
+This is a WORD BANK question type where test-takers drag options to fill blanks.
+You MUST generate MORE options than questions - the extras are DISTRACTORS.
+
+REQUIREMENTS:
+1. Generate EXACTLY ${totalOptionsDND} options in the "drag_options" array (letters A-${lastLetterDND})
+2. Only ${effectiveQuestionCount} are correct answers; ${numDistractorsDND} are PLAUSIBLE DISTRACTORS
+3. DISTRACTORS must be thematically relevant but WRONG based on the dialogue
+   - If answers are names, distractors should be other plausible names NOT mentioned
+   - If answers are dates/times, distractors should be other dates/times NOT mentioned
+   - If answers are places, distractors should be other plausible places NOT mentioned
+4. Each question_text MUST contain a blank using underscores: ________
+5. Each correct_answer MUST be a SINGLE LETTER (A, B, C, etc.)
+6. Letter mapping: A = drag_options[0], B = drag_options[1], etc.
+
+EXAMPLE: If dialogue mentions "October 12th" and "Central Park":
+- drag_options: ["October 12th", "Central Park", "November 5th", "Riverside Park"]
+- Question about date → correct_answer: "A"
+- "November 5th" and "Riverside Park" are distractors (plausible but not mentioned)
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: The wellness fair is on October 12th at Central Park Pavilion...<break time='500ms'/> Sarah Jenkins leads the yoga session at 10 AM...",
+  "speaker_names": {"Speaker1": "Event Coordinator"},
+  "instruction": "Complete the notes below by dragging the correct option to each blank.",
+  "drag_options": ["October 12th", "Central Park", "Sarah Jenkins", "10 AM", "November 5th", "Riverside Park", "Michael Brown", "2 PM"],
+  "questions": [
+    {"question_number": 1, "question_text": "Event date: ________", "correct_answer": "A", "explanation": "Speaker mentions 'October 12th' as the date."},
+    {"question_number": 2, "question_text": "Location: ________ Pavilion", "correct_answer": "B", "explanation": "Speaker says 'Central Park Pavilion'."},
+    {"question_number": 3, "question_text": "Yoga instructor: ________", "correct_answer": "C", "explanation": "Sarah Jenkins leads the yoga session."},
+    {"question_number": 4, "question_text": "Yoga session time: ________", "correct_answer": "D", "explanation": "Yoga is at 10 AM."}
+  ]
+}`;
+    }
+
+    case 'TABLE_COMPLETION':
+      return basePrompt + `2. Create a table completion task with ${effectiveQuestionCount} blanks.
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: Let me give you the schedule...<break time='500ms'/>",
+  "speaker_names": {"Speaker1": "Coordinator"},
+  "instruction": "Complete the table below.",
+  "table_data": {
+    "headers": ["Event", "Time", "Location"],
+    "rows": [
+      [{"text": "Opening ceremony"}, {"text": "9:00 AM"}, {"isBlank": true, "questionNumber": 1}],
+      [{"text": "Workshop"}, {"isBlank": true, "questionNumber": 2}, {"text": "Room 101"}]
+    ]
+  },
+  "questions": [
+    {"question_number": 1, "question_text": "Location of opening ceremony", "correct_answer": "Main Hall", "explanation": "Speaker says Main Hall"}
+  ]
+}`;
+
+    case 'FLOWCHART_COMPLETION':
+      return basePrompt + `2. Create a flowchart completion task with ${effectiveQuestionCount} blanks.
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: Let me explain the process...<break time='500ms'/>",
+  "speaker_names": {"Speaker1": "HR Manager"},
+  "instruction": "Complete the flow chart below.",
+  "flowchart_title": "Application Process",
+  "flowchart_steps": [
+    {"id": "step1", "text": "Submit application", "hasBlank": false},
+    {"id": "step2", "text": "Receive __1__", "hasBlank": true, "blankNumber": 1},
+    {"id": "step3", "text": "Attend __2__", "hasBlank": true, "blankNumber": 2}
+  ],
+  "distractor_options": ["schedule", "discount"],
+  "questions": [
+    {"question_number": 1, "question_text": "Step 2", "correct_answer": "confirmation", "explanation": "System sends confirmation"}
+  ]
+}`;
+
+    case 'MAP_LABELING':
+      return basePrompt + `2. Create a map labeling task with ${effectiveQuestionCount} locations.
+
+CRITICAL: Use directional language, NEVER say "at position B".
+Include x,y coordinates (0-100 percentage) for each label and landmark for map rendering.
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: Welcome to Historic Fairview. Let me show you around...<break time='500ms'/> The quilt shop is on the west side of Main Street, just past the welcome center.<break time='500ms'/> If you walk north along Main Street, you'll find the handicrafts museum on your right, directly across from the bank...",
+  "speaker_names": {"Speaker1": "Tour Guide"},
+  "instruction": "Label the map. Choose the correct letter, A-H.",
+  "map_description": "A street map showing the intersection of Oak Street and Main Street. Buildings are arranged along both streets.",
+  "map_type": "street_map",
+  "map_labels": [
+    {"id": "A", "text": "Art Gallery", "x": 20, "y": 25},
+    {"id": "B", "text": "Bookshop", "x": 40, "y": 35},
+    {"id": "C", "text": "Museum", "x": 70, "y": 25},
+    {"id": "D", "text": "Quilt Shop", "x": 25, "y": 55},
+    {"id": "E", "text": "School House", "x": 75, "y": 55},
+    {"id": "F", "text": "Gift Shop", "x": 50, "y": 65},
+    {"id": "G", "text": "Café", "x": 80, "y": 35},
+    {"id": "H", "text": "Post Office", "x": 15, "y": 75}
+  ],
+  "landmarks": [
+    {"id": "L1", "text": "Bank", "x": 55, "y": 25},
+    {"id": "L2", "text": "Welcome Center", "x": 30, "y": 45},
+    {"id": "L3", "text": "Oak Street", "x": 50, "y": 10},
+    {"id": "L4", "text": "Main Street", "x": 10, "y": 50},
+    {"id": "L5", "text": "Elm Street", "x": 50, "y": 90}
+  ],
+  "questions": [
+    {"question_number": 1, "question_text": "Quilt Shop", "correct_answer": "D", "explanation": "Guide says it's on west side of Main Street, past welcome center"},
+    {"question_number": 2, "question_text": "Museum", "correct_answer": "C", "explanation": "Guide says it's north on Main Street, across from the bank"},
+    {"question_number": 3, "question_text": "School House", "correct_answer": "E", "explanation": "Guide says it's on the east side, south of the café"}
+  ]
+}`;
+
+    case 'NOTE_COMPLETION':
+      return basePrompt + `2. Create a note completion task with ${effectiveQuestionCount} blanks.
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: Let me explain the key points...<break time='500ms'/>",
+  "speaker_names": {"Speaker1": "Lecturer"},
+  "instruction": "Complete the notes below.",
+  "note_sections": [
+    {
+      "title": "Main Topic",
+      "items": [
+        {"text_before": "The primary focus is", "question_number": 1, "text_after": ""}
+      ]
+    }
+  ],
+  "questions": [
+    {"question_number": 1, "question_text": "Note 1", "correct_answer": "research methods", "explanation": "Speaker mentions research methods"}
+  ]
+}`;
+
+    // DRAG_AND_DROP_OPTIONS is handled above with MATCHING_CORRECT_LETTER (same prompt)
+
+
+    default:
+      return basePrompt + `2. Create ${effectiveQuestionCount} fill-in-the-blank questions.
+
+Return ONLY valid JSON:
+{
+  "dialogue": "Speaker1: dialogue...<break time='500ms'/>\\nSpeaker2: response...",
+  "speaker_names": {"Speaker1": "Host", "Speaker2": "Guest"},
+  "instruction": "Complete the notes below.",
+  "questions": [
+    {"question_number": 1, "question_text": "The event takes place in _____.", "correct_answer": "the main garden", "explanation": "Speaker mentions the main garden"}
+  ]
+}`;
+  }
+}
+
+// Writing task prompts (letterType / visualType / essayType are already resolved)
+function getLetterTaskPrompt(topic: string, difficulty: string, letterType: LetterType): string {
+  const letterGuide = {
+    'FORMAL': { recipient: 'someone the candidate does not know (e.g. a manager, company or official)', salutation: 'Dear Sir or Madam,' },
+    'SEMI_FORMAL': { recipient: 'someone the candidate knows but not closely (e.g. a landlord, neighbour or colleague)', salutation: 'Dear Mr/Ms [surname],' },
+    'INFORMAL': { recipient: 'a friend or family member', salutation: 'Dear [first name],' },
+  }[letterType];
+
+  return `Generate an IELTS General Training Writing Task 1 (letter).
+
+Topic: ${topic}
+Difficulty: ${difficulty}
+Letter Type: ${letterType}
+
+CRITICAL INSTRUCTIONS:
+1. Describe a realistic everyday situation in 1-2 sentences; the letter is written to ${letterGuide.recipient}.
+2. Follow with "Write a letter to [recipient]. In your letter" and exactly 3 bullet points the candidate must cover.
+3. End with: "Write at least 150 words. You do NOT need to write any addresses."
+4. The salutation must be "${letterGuide.salutation}" (fill in a realistic name where shown in brackets).
+
+Return this EXACT JSON structure:
+{
+  "task_type": "task1",
+  "instruction": "[Situation]. Write a letter to [recipient]. In your letter Write at least 150 words. You do NOT need to write any addresses.",
+  "bullet_points": ["first point to cover", "second point to cover", "third point to cover"],
+  "salutation": "${letterGuide.salutation}",
+  "letter_type": "${letterType}"
+}`;
+}
+
+function getVisualTaskPrompt(topic: string, difficulty: string, visualType: string): string {
+  // Build type-specific visualData examples based on visual type
+  let visualDataExample: string;
+  let typeSpecificInstructions: string;
+  
+  switch (visualType) {
+    case 'PROCESS_DIAGRAM':
+      visualDataExample = `{
+    "type": "PROCESS_DIAGRAM",
+    "title": "Process Title",
+    "steps": [
+      { "label": "Step 1: Raw materials collected", "description": "Optional detail" },
+      { "label": "Step 2: Materials processed", "description": "Optional detail" },
+      { "label": "Step 3: Quality check", "description": "Optional detail" },
+      { "label": "Step 4: Final product", "description": "Optional detail" }
+    ]
+  }`;
+      typeSpecificInstructions = `Create a process/cycle diagram with 4-8 steps. Each step must have a clear "label" field. The "description" field is optional but helpful.`;
+      break;
+    case 'MAP':
+      visualDataExample = `{
+    "type": "MAP",
+    "title": "Town Centre Development",
+    "subtitle": "Changes between 1990 and 2020",
+    "mapData": {
+      "before": {
+        "year": "1990",
+        "features": [
+          { "label": "Town Hall", "type": "building", "position": "center" },
+          { "label": "Main Street", "type": "road", "position": "north-south" },
+          { "label": "Old Park", "type": "park", "position": "east" }
+        ]
+      },
+      "after": {
+        "year": "2020",
+        "features": [
+          { "label": "Town Hall", "type": "building", "position": "center" },
+          { "label": "Main Street", "type": "road", "position": "north-south" },
+          { "label": "Shopping Mall", "type": "building", "position": "east" },
+          { "label": "New Car Park", "type": "other", "position": "south" }
+        ]
+      }
+    }
+  }`;
+      typeSpecificInstructions = `Create a map comparison showing changes over time. Include "before" and "after" sections with features (buildings, roads, parks, water bodies). Use position words like "north", "south", "center", "east", "west", "north-east" etc.`;
+      break;
+    case 'TABLE':
+      visualDataExample = `{
+    "type": "TABLE",
+    "title": "Table Title",
+    "headers": ["Category", "2010", "2015", "2020"],
+    "rows": [
+      [{ "value": "Item A" }, { "value": 25 }, { "value": 30 }, { "value": 35 }],
+      [{ "value": "Item B" }, { "value": 40 }, { "value": 38 }, { "value": 42 }],
+      [{ "value": "Item C" }, { "value": 15 }, { "value": 20 }, { "value": 28 }]
+    ]
+  }`;
+      typeSpecificInstructions = `Create a data table with 3-5 rows and 3-5 columns of numeric data showing trends or comparisons.`;
+      break;
+    case 'LINE_GRAPH':
+      visualDataExample = `{
+    "type": "LINE_GRAPH",
+    "title": "Graph Title",
+    "xAxisLabel": "Year",
+    "yAxisLabel": "Percentage (%)",
+    "series": [
+      { "name": "Category A", "data": [{ "x": "2000", "y": 20 }, { "x": "2005", "y": 35 }, { "x": "2010", "y": 45 }] },
+      { "name": "Category B", "data": [{ "x": "2000", "y": 40 }, { "x": "2005", "y": 38 }, { "x": "2010", "y": 50 }] }
+    ]
+  }`;
+      typeSpecificInstructions = `Create a line graph with 2-4 series showing trends over 4-6 time points. Use percentages (0-100) or realistic numbers.`;
+      break;
+    case 'PIE_CHART':
+      visualDataExample = `{
+    "type": "PIE_CHART",
+    "title": "Pie Chart Title",
+    "data": [
+      { "label": "Category A", "value": 35 },
+      { "label": "Category B", "value": 25 },
+      { "label": "Category C", "value": 20 },
+      { "label": "Category D", "value": 15 },
+      { "label": "Other", "value": 5 }
+    ]
+  }`;
+      typeSpecificInstructions = `Create a pie chart with 4-6 segments. Values must add up to 100 (percentages).`;
+      break;
+    case 'BAR_CHART':
+    default:
+      visualDataExample = `{
+    "type": "BAR_CHART",
+    "title": "Chart Title",
+    "xAxisLabel": "Categories",
+    "yAxisLabel": "Percentage (%)",
+    "data": [
+      { "label": "Category A", "value": 45 },
+      { "label": "Category B", "value": 32 },
+      { "label": "Category C", "value": 28 },
+      { "label": "Category D", "value": 55 }
+    ]
+  }`;
+      typeSpecificInstructions = `Create a bar chart with 4-8 bars. Use percentages (0-100) or realistic whole numbers.`;
+      break;
+  }
+    
+  return `You are a data analyst. Generate an IELTS Academic Writing Task 1 with BOTH the essay question AND the chart/diagram data.
+
+Topic: ${topic}
+Difficulty: ${difficulty}
+Visual Type: ${visualType}
+
+CRITICAL INSTRUCTIONS:
+1. ${typeSpecificInstructions}
+2. The instruction must start with "The ${visualType.replace(/_/g, ' ').toLowerCase()} below shows..."
+3. Include: "Summarise the information by selecting and reporting the main features, and make comparisons where relevant."
+4. End with: "Write at least 150 words."
+
+Return this EXACT JSON structure:
+{
+  "task_type": "task1",
+  "instruction": "The ${visualType.replace(/_/g, ' ').toLowerCase()} below shows [specific description]. Summarise the information by selecting and reporting the main features, and make comparisons where relevant. Write at least 150 words.",
+  "visual_type": "${visualType}",
+  "visualData": ${visualDataExample}
+}
+
+IMPORTANT: Use whole numbers. Keep all labels under 15 characters. Ensure visualData matches the exact structure shown above.`;
+}
+
+function getEssayTaskPrompt(topic: string, difficulty: string, essayType: string, isGeneralTraining: boolean): string {
+  const essayFormatGuide = {
+    'OPINION': 'To what extent do you agree or disagree?',
+    'DISCUSSION': 'Discuss both views and give your own opinion.',
+    'PROBLEM_SOLUTION': 'What are the causes of this problem and what solutions can you suggest?',
+    'ADVANTAGES_DISADVANTAGES': 'What are the advantages and disadvantages of this?',
+    'TWO_PART_QUESTION': 'Include two related questions that the student must address.'
+  };
+  
+  return `Generate an IELTS ${isGeneralTraining ? 'General Training' : 'Academic'} Writing Task 2.${isGeneralTraining ? '\nUse an everyday topic accessible to a general audience (no specialist academic knowledge required).' : ''}
+Topic: ${topic}
+Difficulty: ${difficulty}
+Essay Type: ${essayType}
+
+IMPORTANT: The instruction must follow official IELTS format exactly:
+- Start with a statement or context about a topic
+- Present the main question/argument
+- End with the appropriate question format for ${essayType}: "${essayFormatGuide[essayType as keyof typeof essayFormatGuide] || ''}"
+- Include: "Give reasons for your answer and include any relevant examples from your own knowledge or experience."
+- End with: "Write at least 250 words."
+
+Return this EXACT JSON structure:
+{
+  "task_type": "task2",
+  "instruction": "[Context statement about the topic]. [Main argument or question]. ${essayFormatGuide[essayType as keyof typeof essayFormatGuide] || ''} Give reasons for your answer and include any relevant examples from your own knowledge or experience. Write at least 250 words.",
+  "essay_type": "${essayType}"
+}`;
+}
+
+// Speaking test prompt with official IELTS examiner phrases
+function getSpeakingPrompt(
+  topic: string,
+  difficulty: string,
+  includePart1: boolean,
+  includePart2: boolean,
+  includePart3: boolean,
+): string {
+  return `Generate an official IELTS Speaking test with proper examiner phrases.
+
+TOPIC: ${topic}
+DIFFICULTY: ${difficulty}
+PARTS TO INCLUDE: ${[includePart1 && 'Part 1', includePart2 && 'Part 2', includePart3 && 'Part 3'].filter(Boolean).join(', ')}
+
+OFFICIAL IELTS SPEAKING TEST FORMAT:
+
+PART 1 (Introduction & Interview) - 4-5 minutes:
+- Examiner intro: "Now, in this first part, I'd like to ask you some questions about yourself."
+- Then: "Let's talk about [topic]..." followed by 4-5 simple questions
+- Questions should be personal/familiar topics (home, work, studies, hobbies, etc.)
+- Each question expects 20-30 seconds answer
+
+PART 2 (Individual Long Turn) - 3-4 minutes:
+- Examiner intro: "Now, I'm going to give you a topic and I'd like you to talk about it for one to two minutes. Before you talk, you'll have one minute to think about what you're going to say. You can make some notes if you wish."
+- Provide a cue card with: "Describe [topic]" followed by bullet points "You should say:" with 3-4 prompts
+- After 2 minutes: "Thank you."
+- One optional rounding-off question
+
+PART 3 (Two-way Discussion) - 4-5 minutes:
+- Examiner intro: "We've been talking about [Part 2 topic] and I'd like to discuss one or two more general questions related to this."
+- 4-5 abstract/analytical questions that extend from Part 2 topic
+- Questions should require opinion, analysis, speculation
+- Each question expects 45-60 seconds answer
+
+Return ONLY valid JSON:
+{
+  "topic": "${topic}",
+  "parts": [
+    ${includePart1 ? `{
+      "part_number": 1,
+      "instruction": "Now, in this first part, I'd like to ask you some questions about yourself. Let's talk about [specific topic]...",
+      "questions": [
+        { "question_number": 1, "question_text": "First question about the topic?" },
+        { "question_number": 2, "question_text": "Second question?" },
+        { "question_number": 3, "question_text": "Third question?" },
+        { "question_number": 4, "question_text": "Fourth question?" }
+      ],
+      "time_limit_seconds": 300
+    }${includePart2 || includePart3 ? ',' : ''}` : ''}
+    ${includePart2 ? `{
+      "part_number": 2,
+      "instruction": "Now, I'm going to give you a topic and I'd like you to talk about it for one to two minutes. Before you talk, you'll have one minute to think about what you're going to say. You can make some notes if you wish.",
+      "cue_card_topic": "Describe [something related to topic]",
+      "cue_card_content": "You should say:\\n• first bullet point\\n• second bullet point\\n• third bullet point\\n• and explain why...",
+      "questions": [
+        { "question_number": 1, "question_text": "Optional rounding-off question after 2-minute speech" }
+      ],
+      "preparation_time_seconds": 60,
+      "speaking_time_seconds": 120
+    }${includePart3 ? ',' : ''}` : ''}
+    ${includePart3 ? `{
+      "part_number": 3,
+      "instruction": "We've been talking about [Part 2 topic] and I'd like to discuss one or two more general questions related to this.",
+      "questions": [
+        { "question_number": 1, "question_text": "First analytical/abstract question?" },
+        { "question_number": 2, "question_text": "Second question requiring opinion?" },
+        { "question_number": 3, "question_text": "Third question about implications?" },
+        { "question_number": 4, "question_text": "Fourth speculative question?" }
+      ],
+      "time_limit_seconds": 300
+    }` : ''}
+  ]
+}
+
+Generate realistic, ${difficulty}-level questions appropriate for IELTS. Make questions coherent and thematically connected.`;
+}
+
+// FIX 3: Clean monologue rescue script - explicitly strip SSML tags for browser TTS
+function getMonologueRewritePrompt(dialogue: string): string {
+  return `Rewrite the following dialogue as a detailed monologue or narration. 
+Remove all speaker labels (e.g., "Speaker1:", "Speaker2:", names followed by colons). 
+Convert the conversation into a flowing narrative that a single narrator would read aloud.
+Keep ALL factual information, numbers, dates, names, and details that would be needed to answer test questions.
+
+CRITICAL: REMOVE ALL SSML TAGS like <break time='500ms'/>.
+Output ONLY plain text. Do not include any XML, angle brackets, or SSML markup.
+Use punctuation (periods, commas, ellipses) for natural pauses instead.
+Return ONLY the raw monologue text, no JSON wrapper.
+
+DIALOGUE TO CONVERT:
+${dialogue}`;
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+export interface PracticeReadingVars {
+  questionType: string;
+  topic: string;
+  difficulty: string;
+  questionCount: number;
+  readingConfig?: ReadingConfig;
+  /** Only read for FILL_IN_BLANK and SHORT_ANSWER. */
+  fillLayout?: ReadingFillLayout;
+}
+
+export const practiceReadingPrompt = definePrompt({
+  id: 'practice.reading',
+  version: 1,
+  description: 'AI practice reading passage and one question group',
+  render: (v: PracticeReadingVars) => getReadingPrompt(v.questionType, v.topic, v.difficulty, v.questionCount, v.readingConfig, v.fillLayout),
+  validator: v => zodValidator(readingGenerationSchema(v.questionType)),
+});
+
+export interface PracticeListeningVars {
+  questionType: string;
+  topic: string;
+  difficulty: string;
+  scenario: ListeningScenario;
+  speakerGenders: SpeakerGenders;
+  listeningConfig?: ListeningConfig;
+}
+
+export const practiceListeningPrompt = definePrompt({
+  id: 'practice.listening',
+  version: 1,
+  description: 'AI practice listening script and one question group',
+  render: (v: PracticeListeningVars) =>
+    getListeningPrompt(v.questionType, v.topic, v.difficulty, v.scenario, v.speakerGenders, v.listeningConfig),
+  validator: v => zodValidator(listeningGenerationSchema(v.questionType)),
+});
+
+export const listeningMonologuePrompt = definePrompt({
+  id: 'practice.listening-monologue',
+  version: 1,
+  description: 'Rewrites a listening dialogue as plain narration for browser TTS',
+  render: (v: { dialogue: string }) => getMonologueRewritePrompt(v.dialogue),
+});
+
+export const practiceLetterTaskPrompt = definePrompt({
+  id: 'practice.writing-letter',
+  version: 1,
+  description: 'General Training Writing Task 1 letter',
+  render: (v: { topic: string; difficulty: string; letterType: LetterType }) =>
+    getLetterTaskPrompt(v.topic, v.difficulty, v.letterType),
+  validator: () => zodValidator(writingTaskGenerationSchema),
+});
+
+export const practiceVisualTaskPrompt = definePrompt({
+  id: 'practice.writing-task1',
+  version: 1,
+  description: 'Academic Writing Task 1 question with chart/diagram data',
+  render: (v: { topic: string; difficulty: string; visualType: string }) =>
+    getVisualTaskPrompt(v.topic, v.difficulty, v.visualType),
+  validator: () => zodValidator(writingTaskGenerationSchema),
+});
+
+export const practiceEssayTaskPrompt = definePrompt({
+  id: 'practice.writing-task2',
+  version: 1,
+  description: 'Writing Task 2 essay question',
+  render: (v: { topic: string; difficulty: string; essayType: string; isGeneralTraining: boolean }) =>
+    getEssayTaskPrompt(v.topic, v.difficulty, v.essayType, v.isGeneralTraining),
+  validator: () => zodValidator(writingTaskGenerationSchema),
+});
+
+export interface PracticeSpeakingVars {
+  topic: string;
+  difficulty: string;
+  includePart1: boolean;
+  includePart2: boolean;
+  includePart3: boolean;
+}
+
+export const practiceSpeakingPrompt = definePrompt({
+  id: 'practice.speaking',
+  version: 1,
+  description: 'AI practice speaking parts with examiner phrases',
+  render: (v: PracticeSpeakingVars) =>
+    getSpeakingPrompt(v.topic, v.difficulty, v.includePart1, v.includePart2, v.includePart3),
+  validator: () => zodValidator(speakingGenerationSchema),
+});
@@ -0,0 +1,489 @@
+/**
+ * Writing Evaluation Prompts
+ *
+ * Examiner prompts for the two writing graders: evaluate-ai-practice-writing
+ * (AI practice tests, single task or full test) and evaluate-writing-submission
+ * (admin-authored tests, feedback written as a teacher to the student). The
+ * chart image, when there is one, is attached by the caller after the text.
+ */
+
+import { definePrompt } from '../promptRegistry.ts';
+import {
+  practiceWritingEvaluationSchema,
+  practiceWritingFullTestEvaluationSchema,
+  writingSubmissionEvaluationSchema,
+  zodValidator,
+} from '../aiSchemas.ts';
+import { KEY_FEATURE_LABELS, type Task1DataCheck } from '../task1DataCheck.ts';
+
+// GT Task 1 is assessed on purpose, tone and bullet-point coverage instead of data reporting
+const GT_LETTER_TASK_ACHIEVEMENT = `TASK ACHIEVEMENT (General Training letter – assess purpose, tone and coverage of the bullet points):
+- Band 9: Fully satisfies all requirements; all bullet points fully and appropriately extended; purpose and tone perfectly consistent
+- Band 8: Covers all requirements sufficiently; presents, highlights and illustrates all bullet points clearly and appropriately
+- Band 7: Covers all requirements; purpose is clear; tone is consistent and appropriate; bullet points are clearly presented and highlighted, though could be more fully extended
+- Band 6: Addresses all requirements; purpose is generally clear; there may be inconsistencies in tone; bullet points are covered but some may be more fully extended than others
+- Band 5: Generally addresses the task; purpose may be unclear at times; tone may be variable and sometimes inappropriate; bullet points are presented but inadequately covered
+- Band 4: Attempts to address the task but does not cover all bullet points; purpose may be confused; tone may be inappropriate
+- Band 3: Fails to address the task; purpose is unclear; largely irrelevant content`;
+
+// Offsets are worked out from the quotes by resolveErrorAnnotations, so the quote has to be verbatim
+const ERROR_ANNOTATION_GUIDANCE = `ERROR ANNOTATIONS:
+List the specific errors in the candidate's text as "error_annotations". For each one:
+- "quote": the erroneous words copied EXACTLY as written, including the mistake (keep it short: the smallest phrase that shows the error)
+- "category": one of "grammar", "lexical" (word choice, collocation, word form, register), "spelling", "cohesion" (linking words, referencing, paragraphing) or "task_response" (irrelevant, unsupported or inaccurate content)
+- "correction": the corrected wording, or a short fix for cohesion and task response issues
+- "explanation": one sentence explaining the error, addressed to the candidate
+- "start": the approximate character position of the quote in the text
+Annotate every grammar, spelling and word choice error, up to 40 in total. Do not annotate correct text.`;
+
+const ERROR_ANNOTATION_EXAMPLE = `[
+      {"quote": "exact words from the text", "category": "grammar", "correction": "corrected words", "explanation": "why it is wrong", "start": 0}
+    ]`;
+
+function describeLetterTask(letterType?: string, bulletPoints?: string[]): string {
+  const register = letterType ? letterType.replace(/_/g, '-').toLowerCase() : 'appropriate';
+  const points = bulletPoints?.length ? `\nBULLET POINTS TO COVER:\n${bulletPoints.map(p => `- ${p}`).join('\n')}` : '';
+  return `\nLETTER TYPE: ${register} (check the tone, salutation and sign-off match this register)${points}\n\nIMPORTANT: This is a General Training letter, not a report. Evaluate whether the purpose is clear, every bullet point is covered and extended, and the tone is consistent.`;
+}
+
+// Findings from checkTask1Data, which compared the report's figures with the chart's data
+function describeDataCheck(check?: Task1DataCheck): string {
+  if (!check?.applicable) return '';
+  const misreported = check.misreported.map(m => {
+    const expected = m.expected.map(p => `${p.labels.join(', ')}: ${p.value}`).join('; ');
+    return `- "${m.quoted}" in "${m.sentence}" does not match the chart (${expected})`;
+  });
+  const years = check.unknownYears.length ? [`- Years not covered by the chart: ${check.unknownYears.join(', ')}`] : [];
+  const features = check.keyFeatures.map(f => `- ${KEY_FEATURE_LABELS[f.feature]}: ${f.covered ? 'covered' : 'MISSING'} (${f.expected})`);
+  return `\n\nDATA ACCURACY CHECK (computed from the chart data; treat these as facts):
+- ${check.figures.verified} of ${check.figures.checked} checked figures match the chart
+${[...misreported, ...years, ...features].join('\n')}
+Reflect these findings in the Task Achievement band and feedback: name each misreported figure with the correct value, and any missing key feature.`;
+}
+
+export function getWritingEvaluationPrompt(
+  taskType: 'task1' | 'task2',
+  instruction: string,
+  submissionText: string,
+  wordCount: number,
+  imageDescription?: string,
+  visualType?: string,
+  letter?: { letterType?: string; bulletPoints?: string[] },
+  dataCheck?: Task1DataCheck
+): string {
+  const isTask1 = taskType === 'task1';
+  const isLetter = isTask1 && !!letter;
+  
+  const academicTask1Criteria = `
+TASK 1 SPECIFIC BAND DESCRIPTORS:
+
+TASK ACHIEVEMENT (assess how well the task requirements are fulfilled):
+- Band 9: Fully satisfies all requirements; clearly presents a fully developed response with relevant, extended and well-supported ideas
+- Band 8: Sufficiently addresses all parts of the task; presents a well-developed response with relevant, extended and supported ideas
+- Band 7: Addresses all parts of the task; presents a clear overview with appropriately highlighted key features/bullet points
+- Band 6: Addresses the requirements of the task; presents an overview with some key features highlighted
+- Band 5: Generally addresses the task; format may be inappropriate in places; recounts detail mechanically
+- Band 4: Attempts to address the task but does not cover all key features; format may be inappropriate
+- Band 3: Does not adequately address the task; no clear overview; key features largely irrelevant
+
+COHERENCE AND COHESION (assess organization and logical flow):
+- Band 9: Uses cohesion in such a way that it attracts no attention; skilfully manages paragraphing
+- Band 8: Sequences information and ideas logically; manages all aspects of cohesion well; uses paragraphing sufficiently and appropriately
+- Band 7: Logically organises information and ideas; clear progression throughout; uses a range of cohesive devices appropriately
+- Band 6: Arranges information and ideas coherently; uses cohesive devices effectively, but cohesion within sentences may be faulty
+- Band 5: Presents information with some organisation but no overall progression; inadequate or overused cohesive devices
+- Band 4: Presents information and ideas but not arranged coherently; uses some basic cohesive devices
+- Band 3: Does not organise ideas logically; very limited use of cohesive devices
+
+LEXICAL RESOURCE (assess vocabulary range and accuracy):
+- Band 9: Uses a wide range of vocabulary with very natural and sophisticated control of lexical features
+- Band 8: Uses a wide range of vocabulary fluently and flexibly; skilfully uses uncommon lexical items
+- Band 7: Uses a sufficient range of vocabulary to allow some flexibility and precision; uses less common lexical items with some awareness of style
+- Band 6: Uses an adequate range of vocabulary for the task; attempts to use less common vocabulary with some inaccuracy
+- Band 5: Uses a limited range of vocabulary; may make noticeable errors in spelling and word formation
+- Band 4: Uses only basic vocabulary; makes numerous errors in spelling and word formation
+- Band 3: Uses only a very limited range of words and expressions; errors in word formation are frequent
+
+GRAMMATICAL RANGE AND ACCURACY (assess sentence structures and error frequency):
+- Band 9: Uses a wide range of structures with full flexibility and accuracy; rare minor errors occur only as slips
+- Band 8: Uses a wide range of structures; the majority of sentences are error-free; makes only very occasional errors
+- Band 7: Uses a variety of complex structures; produces frequent error-free sentences; has good control of grammar and punctuation
+- Band 6: Uses a mix of simple and complex sentence forms; makes some errors in grammar and punctuation
+- Band 5: Uses only a limited range of structures; attempts complex sentences but with limited accuracy
+- Band 4: Uses only a very limited range of structures; rare use of subordinate clauses; errors predominate
+- Band 3: Attempts sentence forms but errors in grammar and punctuation predominate`;
+
+  // Same descriptors for the other three criteria, with the letter-specific Task Achievement
+  const task1Criteria = isLetter
+    ? academicTask1Criteria.replace(/TASK ACHIEVEMENT[\s\S]*?(?=\n\nCOHERENCE AND COHESION)/, GT_LETTER_TASK_ACHIEVEMENT)
+    : academicTask1Criteria;
+
+  const task2Criteria = `
+TASK 2 SPECIFIC BAND DESCRIPTORS:
+
+TASK RESPONSE (assess how well the essay addresses the task):
+- Band 9: Fully addresses all parts of the task; presents a fully developed position with relevant, fully extended and well-supported ideas
+- Band 8: Sufficiently addresses all parts of the task; presents a well-developed response with relevant, extended and supported ideas
+- Band 7: Addresses all parts of the task; presents a clear position throughout the response; presents, extends and supports main ideas
+- Band 6: Addresses all parts of the task although some parts may be more fully covered than others; presents a relevant position
+- Band 5: Addresses the task only partially; the format may be inappropriate in places; expresses a position but development is not always clear
+- Band 4: Responds to the task only in a minimal way; the format may be inappropriate; position may be unclear
+- Band 3: Does not adequately address any part of the task; does not express a clear position
+
+COHERENCE AND COHESION (assess organization and logical flow):
+- Band 9: Uses cohesion in such a way that it attracts no attention; skilfully manages paragraphing
+- Band 8: Sequences information and ideas logically; manages all aspects of cohesion well; uses paragraphing sufficiently and appropriately
+- Band 7: Logically organises information and ideas; clear progression throughout; uses a range of cohesive devices appropriately
+- Band 6: Arranges information and ideas coherently; uses cohesive devices effectively, but cohesion within sentences may be faulty
+- Band 5: Presents information with some organisation but no overall progression; inadequate or overused cohesive devices
+- Band 4: Presents information and ideas but not arranged coherently; uses some basic cohesive devices
+- Band 3: Does not organise ideas logically; very limited use of cohesive devices
+
+LEXICAL RESOURCE (assess vocabulary range and accuracy):
+- Band 9: Uses a wide range of vocabulary with very natural and sophisticated control of lexical features
+- Band 8: Uses a wide range of vocabulary fluently and flexibly; skilfully uses uncommon lexical items with occasional inaccuracies
+- Band 7: Uses a sufficient range of vocabulary to allow some flexibility and precision; uses less common lexical items with awareness of style
+- Band 6: Uses an adequate range of vocabulary for the task; attempts to use less common vocabulary with some inaccuracy
+- Band 5: Uses a limited range of vocabulary; may make noticeable errors in spelling and word formation
+- Band 4: Uses only basic vocabulary; control of word formation and spelling is weak
+- Band 3: Uses only a very limited range of words and expressions; errors in word formation are common
+
+GRAMMATICAL RANGE AND ACCURACY (assess sentence structures and error frequency):
+- Band 9: Uses a wide range of structures with full flexibility and accuracy; rare minor errors occur only as slips
+- Band 8: Uses a wide range of structures; the majority of sentences are error-free; makes only very occasional errors
+- Band 7: Uses a variety of complex structures; produces frequent error-free sentences; has good control of grammar and punctuation
+- Band 6: Uses a mix of simple and complex sentence forms; makes some errors in grammar and punctuation
+- Band 5: Uses only a limited range of structures; attempts complex sentences but with limited accuracy
+- Band 4: Uses only a very limited range of structures; subordinate clauses are rare; errors predominate
+- Band 3: Attempts sentence forms but errors in grammar and punctuation predominate`;
+
+  const wordCountGuidance = isTask1 
+    ? `Word count requirement: Minimum 150 words. Candidate wrote ${wordCount} words.${wordCount < 150 ? ' PENALTY: Under word count will affect Task Achievement score.' : ''}`
+    : `Word count requirement: Minimum 250 words. Candidate wrote ${wordCount} words.${wordCount < 250 ? ' PENALTY: Under word count will affect Task Response score.' : ''}`;
+
+  const visualContext = isLetter
+    ? describeLetterTask(letter?.letterType, letter?.bulletPoints)
+    : isTask1 && visualType 
+    ? `\nVISUAL TYPE: ${visualType}${imageDescription ? `\nIMAGE DESCRIPTION: ${imageDescription}` : ''}\n\nIMPORTANT: Evaluate how accurately and completely the candidate has described the data/visual elements. For ${visualType}, check for:\n- Accurate data interpretation\n- Key trends and comparisons\n- Appropriate overview\n- Relevant details selected${describeDataCheck(dataCheck)}`
+    : '';
+
+  return `You are an expert IELTS Writing examiner (2025 standards). Evaluate this ${isLetter ? 'General Training Task 1 Letter' : isTask1 ? 'Task 1 Report' : 'Task 2 Essay'} submission with professional rigor.
+
+TASK INSTRUCTIONS: "${instruction}"
+${visualContext}
+${wordCountGuidance}
+
+CANDIDATE'S SUBMISSION:
+"""
+${submissionText}
+"""
+
+${isTask1 ? task1Criteria : task2Criteria}
+
+CRITICAL SCORING GUIDELINES:
+1. Score each criterion INDEPENDENTLY based on the specific evidence you observe
+2. Each criterion measures DIFFERENT skills - a candidate may excel in vocabulary but struggle with grammar
+3. Use half-band scores (5.5, 6.5, 7.5) when performance falls between bands
+4. Justify each score with specific examples from the text
+5. Calculate overall band as the arithmetic mean of all four criteria (rounded to nearest 0.5)
+6. Be strict but fair - real IELTS examiners rarely give 8+ bands
+7. Address the candidate directly using "you" and "your" in feedback
+
+IMPORTANT DIFFERENTIATION:
+- A candidate with excellent vocabulary but poor grammar should show DIFFERENT scores for those criteria
+- A well-organized essay with limited vocabulary should score HIGH on coherence but LOWER on lexical resource
+- Consider each criterion in isolation based ONLY on evidence relevant to that skill
+
+${ERROR_ANNOTATION_GUIDANCE}
+
+Respond with ONLY valid JSON in this exact format:
+{
+  "overall_band": number,
+  "evaluation_report": {
+    "${isTask1 ? 'task_achievement' : 'task_response'}": {
+      "band": number,
+      "feedback": "Detailed feedback addressing the candidate directly...",
+      "strengths": ["specific strength 1", "specific strength 2"],
+      "weaknesses": ["specific weakness 1", "specific weakness 2"],
+      "examples": ["quote from text demonstrating assessment"]
+    },
+    "coherence_cohesion": {
+      "band": number,
+      "feedback": "Detailed feedback on organization...",
+      "strengths": ["specific strength"],
+      "weaknesses": ["specific weakness"],
+      "examples": ["example from text"]
+    },
+    "lexical_resource": {
+      "band": number,
+      "feedback": "Detailed feedback on vocabulary...",
+      "strengths": ["specific strength"],
+      "weaknesses": ["specific weakness"],
+      "examples": ["vocabulary examples from text"],
+      "vocabulary_upgrades": [
+        {"original": "word used", "suggested": "better alternative", "context": "sentence context"}
+      ]
+    },
+    "grammatical_accuracy": {
+      "band": number,
+      "feedback": "Detailed feedback on grammar...",
+      "strengths": ["specific strength"],
+      "weaknesses": ["specific weakness"],
+      "examples": ["grammar examples from text"],
+      "error_corrections": [
+        {"error": "incorrect phrase", "correction": "corrected version", "explanation": "brief explanation"}
+      ]
+    },
+    "overall_feedback": "Comprehensive summary addressing the candidate directly...",
+    "key_strengths": ["main strength 1", "main strength 2", "main strength 3"],
+    "priority_improvements": ["most important improvement 1", "improvement 2", "improvement 3"],
+    "model_paragraph": "A sample paragraph demonstrating ideal writing for this task...",
+    "error_annotations": ${ERROR_ANNOTATION_EXAMPLE}
+  }
+}`;
+}
+
+export function getFullTestEvaluationPrompt(
+  task1Instruction: string,
+  task1Text: string,
+  task1WordCount: number,
+  task2Instruction: string,
+  task2Text: string,
+  task2WordCount: number,
+  task1VisualType?: string,
+  task1ImageDescription?: string,
+  task1Letter?: { letterType?: string; bulletPoints?: string[] },
+  task1DataCheck?: Task1DataCheck
+): string {
+  const task1Context = task1Letter
+    ? `${describeLetterTask(task1Letter.letterType, task1Letter.bulletPoints)}\n\n${GT_LETTER_TASK_ACHIEVEMENT}`
+    : `${task1VisualType ? `Visual Type: ${task1VisualType}` : ''}
+${task1ImageDescription ? `Image Description: ${task1ImageDescription}` : ''}${describeDataCheck(task1DataCheck)}`;
+
+  return `You are an expert IELTS Writing examiner (2025 standards). Evaluate this FULL ${task1Letter ? 'GENERAL TRAINING ' : ''}WRITING TEST with both Task 1 and Task 2.
+
+=== TASK 1 (${task1Letter ? 'Letter' : 'Report'}) ===
+Instructions: "${task1Instruction}"
+${task1Context}
+Word Count: ${task1WordCount} words (minimum 150 required)
+
+Candidate's Task 1 Response:
+"""
+${task1Text}
+"""
+
+=== TASK 2 (Essay) ===
+Instructions: "${task2Instruction}"
+Word Count: ${task2WordCount} words (minimum 250 required)
+
+Candidate's Task 2 Response:
+"""
+${task2Text}
+"""
+
+SCORING GUIDELINES:
+- Task 1 contributes 1/3 to overall score
+- Task 2 contributes 2/3 to overall score
+- Score each task independently on all four criteria
+- Use half-band scores when appropriate
+- Address the candidate directly using "you" and "your"
+
+${ERROR_ANNOTATION_GUIDANCE}
+Annotate each task separately; quotes and positions refer to that task's response.
+
+Respond with ONLY valid JSON:
+{
+  "overall_band": number,
+  "task1_band": number,
+  "task2_band": number,
+  "task1_evaluation": {
+    "task_achievement": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "examples": [] },
+    "coherence_cohesion": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "examples": [] },
+    "lexical_resource": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "vocabulary_upgrades": [] },
+    "grammatical_accuracy": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "error_corrections": [] },
+    "overall_feedback": string,
+    "key_strengths": [],
+    "priority_improvements": [],
+    "error_annotations": [{ "quote": string, "category": string, "correction": string, "explanation": string, "start": number }]
+  },
+  "task2_evaluation": {
+    "task_response": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "examples": [] },
+    "coherence_cohesion": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "examples": [] },
+    "lexical_resource": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "vocabulary_upgrades": [] },
+    "grammatical_accuracy": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "error_corrections": [] },
+    "overall_feedback": string,
+    "key_strengths": [],
+    "priority_improvements": [],
+    "error_annotations": [{ "quote": string, "category": string, "correction": string, "explanation": string, "start": number }]
+  },
+  "combined_feedback": {
+    "overall_assessment": string,
+    "writing_style_notes": string,
+    "time_management_tips": string,
+    "next_steps": []
+  }
+}`;
+}
+
+export interface WritingSubmissionPromptVars {
+  taskType: 'task1' | 'task2';
+  isLetterTask: boolean;
+  /** Whether the task's chart is attached to the request. */
+  hasImage: boolean;
+  instruction: string;
+  textContent: string | null;
+  submissionText: string;
+  wordLimitMin: number;
+  wordLimitMax: number | null;
+}
+
+function getWritingSubmissionPrompt(v: WritingSubmissionPromptVars): string {
+  return `You are an expert IELTS writing examiner and a supportive English teacher. Please provide a detailed evaluation of your student's IELTS ${v.isLetterTask ? 'General Training Task 1 Letter' : v.taskType === 'task1' ? 'Task 1 Report' : 'Task 2 Essay'} submission. Focus on offering constructive feedback and an overall band score, speaking directly to the student as their teacher would.
+
+IMPORTANT: Write your feedback as a teacher speaking directly to the student. Use "you" and "your" when addressing them. Do NOT use technical terms like "prompt" - instead say "the question", "the task", or "what was asked". Make the feedback feel like a one-on-one tutoring session.
+
+      ${v.isLetterTask ? `This is an IELTS General Training Task 1 Letter. Assess Task Achievement on whether the purpose of the letter is clear, every bullet point in the task is covered and extended, and the tone (formal, semi-formal or informal) suits the recipient and is used consistently, including the opening and closing.
+
+      Task 1 Instructions:
+      "${v.instruction}"
+      ${v.textContent ? `Additional Task Content: "${v.textContent}"` : ''}` : v.taskType === 'task1' ? `This is an IELTS Task 1 Report. The student's submission should describe a visual (e.g., chart, graph, diagram, map, or process). ${v.hasImage ? 'I have provided the actual image/diagram that the student was asked to describe. Please carefully analyze this visual and evaluate how accurately and comprehensively the student has described it.' : 'Please note that you are NOT provided with the actual image, but the textual instructions and any accompanying text content for the task are given below.'} Evaluate the report based on how well it addresses these requirements.
+
+      Task 1 Instructions:
+      "${v.instruction}"
+      ${v.textContent ? `Additional Task Content: "${v.textContent}"` : ''}` : `This is an IELTS Task 2 Essay. The student's submission should be a response to the essay question provided below.
+
+      Essay Question:
+      "${v.instruction}"
+      ${v.textContent ? `Essay Topic: "${v.textContent}"` : ''}`}
+
+    Student's Submission:
+    "${v.submissionText}"
+
+    Word Count: ${v.submissionText.split(/\s+/).filter(Boolean).length}
+    Minimum Word Limit: ${v.wordLimitMin}
+    ${v.wordLimitMax ? `Maximum Word Limit: ${v.wordLimitMax}` : ''}
+
+    Provide your evaluation focusing on the following IELTS criteria. For each criterion, give a band score (from 0 to 9, in 0.5 increments), identify strengths, point out weaknesses, and offer specific suggestions for improvement. Address the student directly using "you" and "your".
+    
+    **When providing strengths, weaknesses, and suggestions, use markdown for emphasis:**
+    -   Wrap **important words or phrases** in double asterisks for bolding (e.g., **strong vocabulary**).
+    -   Wrap ==key terms or examples== in double equals signs for highlighting (e.g., ==cohesive devices==).
+
+    1.  **Task Achievement/Response**:
+        -   **Band**: [0-9, in 0.5 increments]
+        -   **Strengths**: What you did well in addressing the task, presenting an overview, and supporting main features.
+        -   **Weaknesses**: Areas where you could improve in fully addressing the task requirements.
+        -   **Suggestions for Improvement**: Actionable advice to enhance your task achievement.
+    2.  **Coherence and Cohesion**:
+        -   **Band**: [0-9, in 0.5 increments]
+        -   **Strengths**: What you did well in organizing your response, logical flow, and use of cohesive devices.
+        -   **Weaknesses**: Areas where your organization, paragraphing, or connection between ideas could be clearer.
+        -   **Suggestions for Improvement**: Advice to improve the clarity and connection of your ideas.
+    3.  **Lexical Resource**:
+        -   **Band**: [0-9, in 0.5 increments]
+        -   **Strengths**: What you did well in using a range of vocabulary accurately and appropriately.
+        -   **Weaknesses**: Areas where your vocabulary could be more varied, precise, or natural.
+        -   **Suggestions for Improvement**: Advice on expanding your vocabulary and using less common lexical items effectively.
+    4.  **Grammatical Range and Accuracy**:
+        -   **Band**: [0-9, in 0.5 increments]
+        -   **Strengths**: What you did well in using a variety of grammatical structures accurately.
+        -   **Weaknesses**: Common errors or areas where your grammatical control could be improved.
+        -   **Suggestions for Improvement**: Advice to enhance your grammatical range and accuracy.
+    5.  **Overall Suggestions for Improvement**: Offer general actionable advice and strategies you can use to improve your writing for future IELTS tests.
+
+    Also, provide an **Overall Band Score** (from 0 to 9, in 0.5 increments).
+
+    ${ERROR_ANNOTATION_GUIDANCE}
+    
+    Format your response as a JSON object with the following structure:
+    {
+      "overall_band": number,
+      "evaluation_report": {
+        "task_achievement_response": {
+          "band": number,
+          "strengths": string,
+          "weaknesses": string,
+          "suggestions_for_improvement": string
+        },
+        "coherence_and_cohesion": {
+          "band": number,
+          "strengths": string,
+          "weaknesses": string,
+          "suggestions_for_improvement": string
+        },
+        "lexical_resource": {
+          "band": number,
+          "strengths": string,
+          "weaknesses": string,
+          "suggestions_for_improvement": string
+        },
+        "grammatical_range_and_accuracy": {
+          "band": number,
+          "strengths": string,
+          "weaknesses": string,
+          "suggestions_for_improvement": string
+        },
+        "overall_suggestions": string,
+        "error_annotations": ${ERROR_ANNOTATION_EXAMPLE}
+      }
+    }
+    
+    Ensure your response is ONLY the JSON object, with no additional text or markdown formatting outside of the JSON itself.`;
+}
+
+// ─── Templates ───────────────────────────────────────────────────────────────
+
+export interface PracticeWritingEvaluationVars {
+  taskType: 'task1' | 'task2';
+  instruction: string;
+  submissionText: string;
+  wordCount: number;
+  imageDescription?: string;
+  visualType?: string;
+  letter?: { letterType?: string; bulletPoints?: string[] };
+  /** Academic Task 1 only, when the chart was rendered from data */
+  dataCheck?: Task1DataCheck;
+}
+
+export const practiceWritingEvaluationPrompt = definePrompt({
+  id: 'evaluation.practice-writing',
+  version: 3,
+  description: 'Examiner report for one AI practice writing task',
+  render: (v: PracticeWritingEvaluationVars) => getWritingEvaluationPrompt(
+    v.taskType, v.instruction, v.submissionText, v.wordCount, v.imageDescription, v.visualType, v.letter, v.dataCheck,
+  ),
+  validator: v => zodValidator(practiceWritingEvaluationSchema(v.taskType === 'task1')),
+});
+
+export interface PracticeWritingFullTestVars {
+  task1Instruction: string;
+  task1Text: string;
+  task1WordCount: number;
+  task2Instruction: string;
+  task2Text: string;
+  task2WordCount: number;
+  task1VisualType?: string;
+  task1ImageDescription?: string;
+  task1Letter?: { letterType?: string; bulletPoints?: string[] };
+  task1DataCheck?: Task1DataCheck;
+}
+
+export const practiceWritingFullTestPrompt = definePrompt({
+  id: 'evaluation.practice-writing-full',
+  version: 3,
+  description: 'Examiner report for a full AI practice writing test (both tasks)',
+  render: (v: PracticeWritingFullTestVars) => getFullTestEvaluationPrompt(
+    v.task1Instruction, v.task1Text, v.task1WordCount,
+    v.task2Instruction, v.task2Text, v.task2WordCount,
+    v.task1VisualType, v.task1ImageDescription, v.task1Letter, v.task1DataCheck,
+  ),
+  validator: () => zodValidator(practiceWritingFullTestEvaluationSchema),
+});
+
+export const writingSubmissionEvaluationPrompt = definePrompt({
+  id: 'evaluation.writing-submission',
+  version: 2,
+  description: 'Teacher-voice evaluation of a writing test submission',
+  render: getWritingSubmissionPrompt,
+  validator: () => zodValidator(writingSubmissionEvaluationSchema),
+});
@@ -0,0 +1,74 @@
+/**
+ * Writing Rewrite Prompt
+ *
+ * Asks for the student's own essay rewritten at a target band, paragraph by
+ * paragraph, for rewrite-writing-answer. The student's paragraphs are
+ * numbered so the reply can be lined up with them (see writingRewrite.ts).
+ */
+
+import { definePrompt } from '../promptRegistry.ts';
+import { modelRewriteSchema, zodValidator } from '../aiSchemas.ts';
+import { splitParagraphs } from '../writingRewrite.ts';
+
+export interface WritingRewriteVars {
+  taskType: 'task1' | 'task2';
+  isLetter?: boolean;
+  instruction: string;
+  essay: string;
+  currentBand?: number | null;
+  targetBand: number;
+  /** The examiner's main improvement points from the evaluation, if any */
+  feedback?: string;
+}
+
+function getWritingRewritePrompt(v: WritingRewriteVars): string {
+  const taskName = v.isLetter ? 'General Training Task 1 letter' : v.taskType === 'task1' ? 'Academic Task 1 report' : 'Task 2 essay';
+  const paragraphs = splitParagraphs(v.essay).map((p, i) => `[${i + 1}] ${p}`).join('\n\n');
+  const bandLine = v.currentBand != null
+    ? `The candidate's answer was marked at Band ${v.currentBand.toFixed(1)}.`
+    : 'The candidate\'s answer has not been given a band yet.';
+
+  return `You are an expert IELTS Writing teacher. Rewrite the candidate's ${taskName} so that it would be marked at Band ${v.targetBand.toFixed(1)}.
+
+TASK INSTRUCTIONS: "${v.instruction}"
+${bandLine}
+${v.feedback ? `\nEXAMINER FEEDBACK ON THE ORIGINAL:\n${v.feedback}\n` : ''}
+CANDIDATE'S ANSWER (paragraphs numbered):
+"""
+${paragraphs}
+"""
+
+RULES:
+- Keep the candidate's ideas, position, examples and data. Do not add new arguments or figures; develop the ones that are there.
+- Rewrite paragraph by paragraph, in the same order. Return one rewritten paragraph for every numbered paragraph, with the same "index".
+- Only add a paragraph (with the next index) if Band ${v.targetBand.toFixed(1)} needs one the answer lacks, such as an overview or conclusion.
+- Write at Band ${v.targetBand.toFixed(1)}, not above it: the vocabulary, sentence structures and linking should be what a Band ${v.targetBand.toFixed(1)} candidate would produce.
+- List the upgrades you made in each paragraph. For each one:
+  - "kind": "vocabulary" (more precise or less common words, collocations), "structure" (complex sentences, clauses, passives, conditionals) or "cohesion" (linking, referencing, paragraph organisation)
+  - "original": the candidate's words it replaces, copied exactly, or "" if nothing was replaced
+  - "upgraded": the new words, copied EXACTLY from your rewritten paragraph
+  - "explanation": one sentence, addressed to the candidate, on why this is a Band ${v.targetBand.toFixed(1)} choice
+- Give 2-6 upgrades per paragraph, choosing the ones that matter most for the band.
+
+Return ONLY this JSON:
+{
+  "paragraphs": [
+    {
+      "index": 1,
+      "text": "the rewritten paragraph",
+      "upgrades": [
+        {"kind": "vocabulary", "original": "candidate's words", "upgraded": "words from the rewrite", "explanation": "why it is better"}
+      ]
+    }
+  ],
+  "summary": "2-3 sentences on what most separates the rewrite from the original"
+}`;
+}
+
+export const writingRewritePrompt = definePrompt({
+  id: 'rewrite.writing-model-answer',
+  version: 1,
+  description: "The student's essay rewritten at a target band, with the upgrades explained",
+  render: getWritingRewritePrompt,
+  validator: () => zodValidator(modelRewriteSchema),
+});
@@ -0,0 +1,82 @@
+/**
+ * Reading Section Structure
+ *
+ * Academic Reading has three long passages (Parts 1-3). General Training
+ * Reading has three sections, the first two made up of several short texts:
+ *   Section 1 – 2-3 short factual texts (social survival)
+ *   Section 2 – 2 short texts (workplace survival)
+ *   Section 3 – 1 longer text (general reading)
+ * Each text is stored as its own reading_passages row with a section_number.
+ */
+
+import type { TestVariant } from './bandConversion';
+
+export interface ReadingSectionSpec {
+  section: number;
+  title: string;
+  description: string;
+  minTexts: number;
+  maxTexts: number;
+}
+
+export const GT_READING_SECTIONS: ReadingSectionSpec[] = [
+  { section: 1, title: 'Section 1', description: 'Social survival – short factual texts (notices, adverts, timetables)', minTexts: 2, maxTexts: 3 },
+  { section: 2, title: 'Section 2', description: 'Workplace survival – job descriptions, staff policies, training materials', minTexts: 2, maxTexts: 2 },
+  { section: 3, title: 'Section 3', description: 'General reading – one longer, more complex text', minTexts: 1, maxTexts: 1 },
+];
+
+/** Section for each text in the default GT layout: 2 + 2 + 1 texts */
+export const DEFAULT_GT_SECTION_LAYOUT = [1, 1, 2, 2, 3];
+
+export interface SectionedPassage {
+  passage_number: number;
+  section_number?: number | null;
+}
+
+/**
+ * Display label for a passage – "Part 2" for Academic, "Section 1 · Text B"
+ * for GT sections with more than one text.
+ */
+export function getPassageLabel<T extends SectionedPassage>(passage: T, passages: T[], variant: TestVariant): string {
+  if (variant !== 'general' || !passage.section_number) return `Part ${passage.passage_number}`;
+
+  const sectionTexts = passages
+    .filter(p => p.section_number === passage.section_number)
+    .sort((a, b) => a.passage_number - b.passage_number);
+  if (sectionTexts.length <= 1) return `Section ${passage.section_number}`;
+
+  const textIndex = sectionTexts.indexOf(passage);
+  return `Section ${passage.section_number} · Text ${String.fromCharCode(65 + Math.max(textIndex, 0))}`;
+}
+
+/**
+ * Check a GT test against the official section structure. Returns one
+ * message per problem; an empty list means the layout is valid.
+ */
+export function validateGtSectionLayout(passages: SectionedPassage[]): string[] {
+  const problems: string[] = [];
+
+  const unassigned = passages.filter(p => !p.section_number).length;
+  if (unassigned > 0) problems.push(`${unassigned} text(s) not assigned to a section`);
+
+  for (const spec of GT_READING_SECTIONS) {
+    const count = passages.filter(p => p.section_number === spec.section).length;
+    if (count < spec.minTexts || count > spec.maxTexts) {
+      const expected = spec.minTexts === spec.maxTexts ? `${spec.minTexts}` : `${spec.minTexts}-${spec.maxTexts}`;
+      problems.push(`${spec.title} should have ${expected} text(s), found ${count}`);
+    }
+  }
+
+  // Sections must run in order: all Section 1 texts before Section 2, etc.
+  const ordered = [...passages].sort((a, b) => a.passage_number - b.passage_number);
+  for (let i = 1; i < ordered.length; i++) {
+    const prev = ordered[i - 1].section_number;
+    const curr = ordered[i].section_number;
+    if (prev && curr && curr < prev) {
+      problems.push('Texts must be ordered by section');
+      break;
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,30 @@
+/**
+ * Service worker registration and test media pre-caching (see public/sw.js).
+ */
+
+export function registerServiceWorker() {
+  // Only in production builds - the dev server serves unhashed modules
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+}
+
+/**
+ * Ask the service worker to cache a test's audio and images so the test
+ * keeps working if the connection drops. Safe to call repeatedly.
+ */
+export function precacheTestAssets(urls: (string | null | undefined)[]) {
+  if (!('serviceWorker' in navigator)) return;
+  const media = [...new Set(urls.filter((url): url is string => !!url && /^https?:\/\//.test(url)))];
+  if (media.length === 0) return;
+
+  navigator.serviceWorker.ready
+    .then((registration) => registration.active?.postMessage({ type: 'PRECACHE_TEST_MEDIA', urls: media }))
+    .catch(() => {
+      // No service worker (e.g. dev build) - nothing to pre-cache into
+    });
+}
@@ -0,0 +1,149 @@
+/**
+ * Spaced Repetition Scheduler (SM-2 variant)
+ *
+ * Schedules flashcard reviews from a 4-grade response (again/hard/good/easy).
+ * Each card carries its own ease factor, interval and due date so that
+ * "mastered" words keep resurfacing at growing intervals instead of
+ * disappearing from practice.
+ */
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export type FlashcardStatus = 'learning' | 'reviewing' | 'mastered';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+/** Cards whose interval reaches this many days are considered mastered */
+export const MASTERED_INTERVAL_DAYS = 21;
+
+/** Minutes until a lapsed ("again") card is shown again */
+const RELEARN_DELAY_MINUTES = 10;
+
+const HARD_INTERVAL_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+const MAX_INTERVAL_DAYS = 365;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+export interface SchedulingState {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  review_count: number;
+  correct_count: number;
+  due_at: string | null;
+}
+
+export interface ReviewResult extends SchedulingState {
+  status: FlashcardStatus;
+  due_at: string;
+  last_reviewed_at: string;
+}
+
+function clampInterval(days: number): number {
+  return Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(days)));
+}
+
+export function statusForInterval(intervalDays: number, repetitions: number): FlashcardStatus {
+  if (repetitions === 0) return 'learning';
+  if (intervalDays >= MASTERED_INTERVAL_DAYS) return 'mastered';
+  return 'reviewing';
+}
+
+/**
+ * Compute the next interval (in days) for a grade without touching the card.
+ * "again" returns 0 – the card is relearned within the same session.
+ */
+export function nextIntervalDays(state: Pick<SchedulingState, 'ease_factor' | 'interval_days' | 'repetitions'>, grade: ReviewGrade): number {
+  const ease = state.ease_factor || DEFAULT_EASE_FACTOR;
+  const previous = state.interval_days || 0;
+
+  switch (grade) {
+    case 'again':
+      return 0;
+    case 'hard':
+      if (state.repetitions === 0) return 1;
+      return clampInterval(Math.max(previous + 1, previous * HARD_INTERVAL_MULTIPLIER));
+    case 'good':
+      if (state.repetitions === 0) return 1;
+      if (state.repetitions === 1) return clampInterval(Math.max(previous + 1, 6));
+      return clampInterval(Math.max(previous + 1, previous * ease));
+    case 'easy':
+      if (state.repetitions === 0) return 4;
+      return clampInterval(Math.max(previous + 2, previous * ease * EASY_BONUS));
+  }
+}
+
+/**
+ * Apply a review grade to a card's scheduling state.
+ */
+export function scheduleReview(state: SchedulingState, grade: ReviewGrade, now: Date = new Date()): ReviewResult {
+  const ease = state.ease_factor || DEFAULT_EASE_FACTOR;
+  const interval = nextIntervalDays(state, grade);
+
+  let easeFactor = ease;
+  let repetitions = state.repetitions;
+  let lapses = state.lapses;
+  let dueAt: Date;
+
+  if (grade === 'again') {
+    easeFactor = Math.max(MIN_EASE_FACTOR, ease - 0.2);
+    repetitions = 0;
+    lapses += 1;
+    dueAt = new Date(now.getTime() + RELEARN_DELAY_MINUTES * MS_PER_MINUTE);
+  } else {
+    if (grade === 'hard') easeFactor = Math.max(MIN_EASE_FACTOR, ease - 0.15);
+    if (grade === 'easy') easeFactor = ease + 0.15;
+    repetitions += 1;
+    dueAt = new Date(now.getTime() + interval * MS_PER_DAY);
+  }
+
+  return {
+    ease_factor: Math.round(easeFactor * 100) / 100,
+    interval_days: interval,
+    repetitions,
+    lapses,
+    review_count: state.review_count + 1,
+    correct_count: grade === 'again' ? state.correct_count : state.correct_count + 1,
+    status: statusForInterval(interval, repetitions),
+    due_at: dueAt.toISOString(),
+    last_reviewed_at: now.toISOString(),
+  };
+}
+
+/** End of the user's local day – used for the "due today" queue */
+export function endOfToday(now: Date = new Date()): Date {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+/** New cards (no due date yet) are always due */
+export function isDue(card: Pick<SchedulingState, 'due_at'>, now: Date = new Date()): boolean {
+  if (!card.due_at) return true;
+  return new Date(card.due_at).getTime() <= endOfToday(now).getTime();
+}
+
+/** Order cards by due date, oldest (most overdue) first, new cards last */
+export function sortByDue<T extends Pick<SchedulingState, 'due_at'>>(cards: T[]): T[] {
+  return [...cards].sort((a, b) => {
+    if (!a.due_at && !b.due_at) return 0;
+    if (!a.due_at) return 1;
+    if (!b.due_at) return -1;
+    return new Date(a.due_at).getTime() - new Date(b.due_at).getTime();
+  });
+}
+
+/** Human-readable interval for grade buttons, e.g. "10m", "1d", "3w" */
+export function formatInterval(days: number): string {
+  if (days <= 0) return `${RELEARN_DELAY_MINUTES}m`;
+  if (days < 7) return `${days}d`;
+  if (days < 30) return `${Math.round(days / 7)}w`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round(days / 365)}y`;
+}
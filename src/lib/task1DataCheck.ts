@@ -0,0 +1,307 @@
+/**
+ * Task 1 Data Check
+ *
+ * Cross-checks an Academic Task 1 report against the chart data it was
+ * written about. Figures quoted in a sentence are compared with the data
+ * points of the categories and years that sentence names, so "France
+ * reached 40% in 2010" is checked against France's 2010 value; the report
+ * is also checked for an overview, the highest and lowest categories and,
+ * for data over time, the overall trend. The findings are given to the
+ * examiner prompt as fact and shown under Task Achievement.
+ */
+
+import type { IELTSChartData } from './ieltsChartData.ts';
+
+/** Bump when findings are worked out differently, so stored checks can be told apart */
+export const TASK1_DATA_CHECK_VERSION = 1;
+
+/** Rounding the student may do: "just under 30%" for 28.7 */
+const RELATIVE_TOLERANCE = 0.05;
+const ABSOLUTE_TOLERANCE = 0.5;
+/** Pairwise differences are only tried among this many candidate points */
+const MAX_DIFFERENCE_CANDIDATES = 30;
+
+const MULTIPLIERS: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9 };
+
+export interface ChartDataPoint {
+  /** The category first, then the series, column or x value */
+  labels: string[];
+  value: number;
+}
+
+export interface QuotedFigure {
+  text: string;
+  value: number;
+  /** Value with "thousand", "million" or "billion" applied */
+  scaled: number;
+}
+
+export interface MisreportedFigure {
+  quoted: string;
+  sentence: string;
+  /** The nearest chart values for what the sentence names */
+  expected: ChartDataPoint[];
+}
+
+export type KeyFeature = 'overview' | 'highest' | 'lowest' | 'trend';
+
+export interface KeyFeatureCheck {
+  feature: KeyFeature;
+  covered: boolean;
+  /** What the chart shows, e.g. "Germany has the highest value (42)" */
+  expected: string;
+}
+
+export interface Task1DataCheck {
+  version: number;
+  /** False for processes and maps, which have no figures to check */
+  applicable: boolean;
+  figures: { checked: number; verified: number };
+  misreported: MisreportedFigure[];
+  /** Years the report mentions that the chart does not cover */
+  unknownYears: string[];
+  keyFeatures: KeyFeatureCheck[];
+}
+
+export const KEY_FEATURE_LABELS: Record<KeyFeature, string> = {
+  overview: 'Overview',
+  highest: 'Highest value',
+  lowest: 'Lowest value',
+  trend: 'Overall trend',
+};
+
+const OVERVIEW_PATTERN = /\b(overall|in general|generally|it is (clear|evident|noticeable|apparent)|at a glance|in summary|to summari[sz]e)\b/i;
+const HIGH_PATTERN = /\b(highest|largest|greatest|biggest|most|maximum|peak(ed)?|top|leading|majority|dominant)\b/i;
+const LOW_PATTERN = /\b(lowest|smallest|least|fewest|minimum|bottom|minority)\b/i;
+const UP_PATTERN = /\b(increas\w*|ris(e|es|ing)|rose|risen|gr[eo]w\w*|climb\w*|soar\w*|surg\w*|upward)\b/i;
+const DOWN_PATTERN = /\b(decreas\w*|declin\w*|f[ae]ll\w*|fallen|drop\w*|dipp?\w*|plummet\w*|plung\w*|downward)\b/i;
+const FLAT_PATTERN = /\b(remain\w*|stable|steady|unchanged|constant|level(l?ed)? off|plateau\w*|stabili[sz]\w*)\b/i;
+
+// ─── Chart data ──────────────────────────────────────────────────────────────
+
+const parseCellNumber = (value: string | number): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const match = value.replace(/,/g, '').match(/^\s*[£$€]?\s*(-?\d+(?:\.\d+)?)\s*%?\s*$/);
+  return match ? Number(match[1]) : null;
+};
+
+/** Every numeric point in the chart, labelled by category first */
+export function chartDataPoints(chart: IELTSChartData): ChartDataPoint[] {
+  switch (chart.type) {
+    case 'BAR_CHART':
+    case 'PIE_CHART':
+      return (chart.data ?? [])
+        .filter(item => item?.label && typeof item.value === 'number')
+        .map(item => ({ labels: [item.label], value: item.value }));
+    case 'LINE_GRAPH':
+      return (chart.series ?? []).flatMap(series =>
+        (series.data ?? [])
+          .filter(point => typeof point?.y === 'number')
+          .map(point => ({ labels: [series.name, String(point.x)], value: point.y })),
+      );
+    case 'TABLE': {
+      const headers = chart.headers ?? [];
+      return (chart.rows ?? []).flatMap(row => {
+        const category = row[0] ? String(row[0].value) : '';
+        return row.slice(1).flatMap((cell, i) => {
+          const value = parseCellNumber(cell.value);
+          if (value === null) return [];
+          const column = headers[i + 1];
+          return [{ labels: column ? [category, column] : [category], value }];
+        });
+      });
+    }
+    case 'MIXED_CHARTS':
+      return (chart.charts ?? []).flatMap(chartDataPoints);
+    default:
+      return [];
+  }
+}
+
+const YEAR_PATTERN = /\b(1[89]\d\d|20\d\d)\b/g;
+
+function chartYears(chart: IELTSChartData, points: ChartDataPoint[]): Set<string> {
+  const sources = [chart.title, chart.subtitle, chart.xAxisLabel, ...(chart.headers ?? []), ...points.flatMap(p => p.labels)];
+  for (const sub of chart.charts ?? []) sources.push(sub.title, sub.subtitle, ...(sub.headers ?? []));
+  return new Set(sources.filter(Boolean).flatMap(source => String(source).match(YEAR_PATTERN) ?? []));
+}
+
+/** Whether values run over time: line graphs, and tables or series labelled by year */
+function isTimeBased(chart: IELTSChartData, points: ChartDataPoint[]): boolean {
+  if (chart.type === 'LINE_GRAPH') return true;
+  const secondary = points.map(p => p.labels[1]).filter(Boolean);
+  return secondary.length > 0 && secondary.every(label => /^\s*(1[89]|20)\d\d\s*$/.test(label));
+}
+
+// ─── Response text ───────────────────────────────────────────────────────────
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+const FIGURE_PATTERN = /(?<![\w.])(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)(?:\s*(%|per\s?cent)|\s+(thousand|million|billion)s?)?(?!\w)/gi;
+
+/** Numbers quoted in a sentence, leaving out years */
+export function extractFigures(sentence: string): QuotedFigure[] {
+  const figures: QuotedFigure[] = [];
+  for (const match of sentence.matchAll(FIGURE_PATTERN)) {
+    const [text, digits, percent, multiplier] = match;
+    const value = Number(digits.replace(/,/g, ''));
+    const isYear = !percent && !multiplier && /^(1[89]|20)\d\d$/.test(digits);
+    if (isYear) continue;
+    figures.push({ text: text.trim(), value, scaled: value * (multiplier ? MULTIPLIERS[multiplier.toLowerCase()] : 1) });
+  }
+  return figures;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (sentence: string, label: string) => {
+  const phrase = label.trim();
+  if (phrase.length < 2) return false;
+  const start = /^\w/.test(phrase) ? '\\b' : '';
+  const end = /\w$/.test(phrase) ? '\\b' : '';
+  return new RegExp(`${start}${escapeRegExp(phrase).replace(/\s+/g, '\\s+')}${end}`, 'i').test(sentence);
+};
+
+// ─── Matching ────────────────────────────────────────────────────────────────
+
+const isClose = (quoted: number, actual: number) =>
+  Math.abs(quoted - actual) <= Math.max(ABSOLUTE_TOLERANCE, Math.abs(actual) * RELATIVE_TOLERANCE);
+
+const figureMatches = (figure: QuotedFigure, value: number) => isClose(figure.value, value) || isClose(figure.scaled, value);
+
+/** A figure can be a chart value or, as in "rose by 15%", the gap between two of them */
+function matchesAny(figure: QuotedFigure, points: ChartDataPoint[]): boolean {
+  if (points.some(p => figureMatches(figure, p.value))) return true;
+  const candidates = points.slice(0, MAX_DIFFERENCE_CANDIDATES);
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      if (figureMatches(figure, Math.abs(candidates[i].value - candidates[j].value))) return true;
+    }
+  }
+  return false;
+}
+
+function nearest(figure: QuotedFigure, points: ChartDataPoint[], count = 3): ChartDataPoint[] {
+  return [...points]
+    .sort((a, b) => Math.abs(a.value - figure.scaled) - Math.abs(b.value - figure.scaled))
+    .slice(0, count);
+}
+
+// ─── Key features ────────────────────────────────────────────────────────────
+
+const formatValue = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+function extremeFeature(
+  feature: 'highest' | 'lowest',
+  points: ChartDataPoint[],
+  sentences: string[],
+): KeyFeatureCheck | null {
+  const categories = new Set(points.map(p => p.labels[0]));
+  if (categories.size < 2) return null;
+  const extreme = points.reduce((best, p) => (feature === 'highest' ? p.value > best.value : p.value < best.value) ? p : best);
+  const category = extreme.labels[0];
+  const pattern = feature === 'highest' ? HIGH_PATTERN : LOW_PATTERN;
+  const where = extreme.labels.length > 1 ? ` in ${extreme.labels.slice(1).join(', ')}` : '';
+  return {
+    feature,
+    covered: sentences.some(s => pattern.test(s) && mentions(s, category)),
+    expected: `${category} has the ${feature} value (${formatValue(extreme.value)}${where})`,
+  };
+}
+
+function trendFeature(points: ChartDataPoint[], text: string): KeyFeatureCheck {
+  // Each category's change from its first to its last point
+  const byCategory = new Map<string, ChartDataPoint[]>();
+  for (const point of points) byCategory.set(point.labels[0], [...(byCategory.get(point.labels[0]) ?? []), point]);
+  const directions = [...byCategory.values()]
+    .filter(series => series.length > 1)
+    .map(series => {
+      const first = series[0].value;
+      const last = series[series.length - 1].value;
+      return isClose(last, first) ? 'flat' : last > first ? 'up' : 'down';
+    });
+  const tally = { up: 0, down: 0, flat: 0 };
+  for (const direction of directions) tally[direction]++;
+  const dominant = (Object.keys(tally) as Array<keyof typeof tally>).reduce((a, b) => (tally[b] > tally[a] ? b : a));
+  const pattern = { up: UP_PATTERN, down: DOWN_PATTERN, flat: FLAT_PATTERN }[dominant];
+  const wording = { up: 'rose', down: 'fell', flat: 'stayed roughly the same' }[dominant];
+  return {
+    feature: 'trend',
+    covered: pattern.test(text),
+    expected: `${tally[dominant]} of ${directions.length} categories ${wording} over the period`,
+  };
+}
+
+// ─── Check ───────────────────────────────────────────────────────────────────
+
+export function checkTask1Data(text: string, chart: IELTSChartData): Task1DataCheck {
+  const points = chartDataPoints(chart);
+  if (points.length === 0) {
+    return { version: TASK1_DATA_CHECK_VERSION, applicable: false, figures: { checked: 0, verified: 0 }, misreported: [], unknownYears: [], keyFeatures: [] };
+  }
+
+  const sentences = splitSentences(text);
+  const misreported: MisreportedFigure[] = [];
+  let checked = 0;
+  let verified = 0;
+
+  for (const sentence of sentences) {
+    const figures = extractFigures(sentence);
+    if (figures.length === 0) continue;
+    const named = points.map(p => ({ point: p, hits: p.labels.filter(label => mentions(sentence, label)).length }));
+    // Points the sentence pins down exactly, then points it names in part
+    const exact = named.filter(n => n.hits === n.point.labels.length).map(n => n.point);
+    const partial = named.filter(n => n.hits > 0).map(n => n.point);
+
+    for (const figure of figures) {
+      if (exact.length > 0) {
+        checked++;
+        if (matchesAny(figure, exact)) verified++;
+        else misreported.push({ quoted: figure.text, sentence, expected: nearest(figure, exact) });
+      } else if (partial.length > 0) {
+        checked++;
+        if (matchesAny(figure, partial) || matchesAny(figure, points)) verified++;
+        else misreported.push({ quoted: figure.text, sentence, expected: nearest(figure, partial) });
+      } else if (points.some(p => figureMatches(figure, p.value))) {
+        // Nothing named, so a figure can only be confirmed, never flagged
+        checked++;
+        verified++;
+      }
+    }
+  }
+
+  const years = chartYears(chart, points);
+  const unknownYears = years.size === 0
+    ? []
+    : [...new Set(text.match(YEAR_PATTERN) ?? [])].filter(year => !years.has(year));
+
+  const keyFeatures: KeyFeatureCheck[] = [
+    { feature: 'overview', covered: OVERVIEW_PATTERN.test(text), expected: 'A sentence summarising the main features' },
+  ];
+  for (const feature of ['highest', 'lowest'] as const) {
+    const check = extremeFeature(feature, points, sentences);
+    if (check) keyFeatures.push(check);
+  }
+  if (isTimeBased(chart, points)) keyFeatures.push(trendFeature(points, text));
+
+  return {
+    version: TASK1_DATA_CHECK_VERSION,
+    applicable: true,
+    figures: { checked, verified },
+    misreported,
+    unknownYears,
+    keyFeatures,
+  };
+}
+
+/** A check read back from a stored report, or null when absent or from an unknown version */
+export function readTask1DataCheck(value: unknown): Task1DataCheck | null {
+  if (!value || typeof value !== 'object') return null;
+  const check = value as Partial<Task1DataCheck>;
+  return check.version === TASK1_DATA_CHECK_VERSION && Array.isArray(check.keyFeatures) ? (check as Task1DataCheck) : null;
+}
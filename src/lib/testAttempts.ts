@@ -0,0 +1,58 @@
+/**
+ * Test Attempt Autosave
+ *
+ * Snapshot of an in-progress test that is autosaved to test_attempts so
+ * the attempt can be resumed after a crash or on another device.
+ * Answers are saved shortly after they change; the remaining time is
+ * saved on a fixed interval so the timer ticking does not cause a write
+ * every second.
+ */
+
+import { safeLocalStorageGetItem, safeLocalStorageSetItem } from './storage';
+
+export type TestAttemptModule = 'reading' | 'listening' | 'writing';
+
+export type TestAttemptSource = 'test' | 'ai_practice';
+
+export interface TestAttemptSnapshot {
+  answers?: Record<number, string>;
+  currentQuestion?: number;
+  currentPassageIndex?: number;
+  submissionText1?: string;
+  submissionText2?: string;
+  timeLeft?: number;
+}
+
+/** Save this long after the last answer change */
+export const AUTOSAVE_DEBOUNCE_MS = 2000;
+
+/** Save at least this often while the test is running (keeps timeLeft fresh) */
+export const AUTOSAVE_INTERVAL_MS = 30000;
+
+const CLIENT_ID_KEY = 'testAttemptClientId';
+
+/** Stable id for this browser, used to tell whether an attempt was saved elsewhere */
+export function getClientId(): string {
+  const existing = safeLocalStorageGetItem(CLIENT_ID_KEY);
+  if (existing) return existing;
+  const id = crypto.randomUUID();
+  safeLocalStorageSetItem(CLIENT_ID_KEY, id);
+  return id;
+}
+
+/** Key that changes whenever anything other than the timer changes */
+export function snapshotContentKey(snapshot: TestAttemptSnapshot): string {
+  const { timeLeft: _timeLeft, ...content } = snapshot;
+  return JSON.stringify(content);
+}
+
+export function countAnswered(snapshot: TestAttemptSnapshot): number {
+  const answered = Object.values(snapshot.answers ?? {}).filter(a => a?.trim()).length;
+  const texts = [snapshot.submissionText1, snapshot.submissionText2].filter(t => t?.trim()).length;
+  return answered + texts;
+}
+
+/** Whether the snapshot is worth offering to resume */
+export function hasProgress(snapshot: TestAttemptSnapshot): boolean {
+  return countAnswered(snapshot) > 0;
+}
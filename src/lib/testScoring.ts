@@ -0,0 +1,163 @@
+/**
+ * Reading / Listening Submission Scoring
+ *
+ * Marks a submission against the answer key. Used by the
+ * score-test-submission edge function, which is the only place a score is
+ * written, and by the results page when re-marking a stored submission.
+ * Imports carry explicit .ts extensions so the edge function can import
+ * this module under Deno.
+ */
+
+import {
+  matchAnswer,
+  multiAnswerRange,
+  parseAnswerMatchingConfig,
+  resolveAnswerMatchingConfig,
+  resolveWordLimit,
+  scoreMultipleChoiceMultiple,
+  type AnswerMatchRuleId,
+} from './ieltsAnswerValidation.ts';
+import { rawScoreToBand, type BandModule, type TestVariant } from './bandConversion.ts';
+
+/** Question row as stored, including the answer key */
+export interface AnswerKeyQuestion {
+  question_number: number;
+  question_type: string;
+  question_text: string;
+  correct_answer: string | null;
+  instruction?: string | null;
+  /** Reading MCQ Multiple rows store { options, sub_group_start, sub_group_end } here */
+  options?: unknown;
+  group_id?: string | null;
+}
+
+export interface AnswerKeyGroup {
+  id: string;
+  options?: unknown;
+  start_question: number;
+  end_question: number;
+  instruction?: string | null;
+  max_words?: number | null;
+  max_numbers?: number | null;
+  answer_matching?: unknown;
+}
+
+export interface ScoredQuestion {
+  questionNumber: number;
+  questionText: string;
+  userAnswer: string;
+  correctAnswer: string;
+  isCorrect: boolean;
+  options?: unknown;
+  questionType?: string;
+  /** Matching rule that accepted the answer (e.g. spelling_variant) */
+  matchedRule: AnswerMatchRuleId | null;
+  /** Set when the answer was marked wrong for exceeding the word limit */
+  wordLimitReason?: string | null;
+}
+
+export interface ScoredSubmission {
+  score: number;
+  total: number;
+  percentage: number;
+  bandScore: number;
+  questionResults: ScoredQuestion[];
+}
+
+export interface ScoreSubmissionInput {
+  module: BandModule;
+  variant?: TestVariant;
+  questions: AnswerKeyQuestion[];
+  groups: AnswerKeyGroup[];
+  /** answer_matching of the test, overridden per group */
+  testAnswerMatching?: unknown;
+  answers: Record<string, string | undefined>;
+}
+
+/** Map historical and imported Listening question types onto the current names */
+export function normalizeListeningQuestionType(rawType: string): string {
+  const upper = (rawType || '').trim().toUpperCase();
+  if (upper === 'MULTIPLE_CHOICE') return 'MULTIPLE_CHOICE_SINGLE';
+  if (upper === 'DRAG_AND_DROP') return 'DRAG_AND_DROP_OPTIONS';
+  if (upper === 'MAP_LABELLING') return 'MAP_LABELING';
+  return upper;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Mark every question: one result per mark, so "Choose TWO letters"
+ * questions produce a result for each question number they cover.
+ */
+export function scoreSubmission({
+  module,
+  variant = 'academic',
+  questions,
+  groups,
+  testAnswerMatching,
+  answers,
+}: ScoreSubmissionInput): ScoredSubmission {
+  const testMatching = parseAnswerMatchingConfig(testAnswerMatching);
+  const groupsById = new Map(groups.map(g => [g.id, g]));
+  const markedNumbers = new Set<number>();
+  const sorted = [...questions].sort((a, b) => a.question_number - b.question_number);
+
+  const questionResults = sorted.flatMap((q): ScoredQuestion[] => {
+    if (markedNumbers.has(q.question_number)) return [];
+    const userAnswer = answers[String(q.question_number)]?.trim() || '';
+    const correctAnswer = (q.correct_answer || '').trim();
+    const group = q.group_id ? groupsById.get(q.group_id) : undefined;
+    const subGroup = isPlainObject(q.options) ? q.options : null;
+    const options = subGroup ? subGroup.options ?? null : q.options ?? null;
+    const displayOptions = options || (group?.options ?? null);
+
+    if (q.question_type === 'MULTIPLE_CHOICE_MULTIPLE') {
+      const markNumbers = multiAnswerRange(
+        {
+          question_number: q.question_number,
+          sub_group_start: subGroup?.sub_group_start as number | undefined,
+          sub_group_end: subGroup?.sub_group_end as number | undefined,
+        },
+        group
+      );
+      markNumbers.forEach(n => markedNumbers.add(n));
+      const { marks } = scoreMultipleChoiceMultiple(userAnswer, correctAnswer, markNumbers);
+      return marks.map(mark => ({
+        questionNumber: mark.questionNumber,
+        questionText: q.question_text,
+        userAnswer: mark.userAnswer,
+        correctAnswer,
+        isCorrect: mark.isCorrect,
+        options: displayOptions,
+        questionType: q.question_type,
+        matchedRule: mark.isCorrect ? 'option_id' : null,
+      }));
+    }
+
+    const matchingConfig = resolveAnswerMatchingConfig(testMatching, parseAnswerMatchingConfig(group?.answer_matching));
+    const match = matchAnswer(userAnswer, correctAnswer, q.question_type, matchingConfig, resolveWordLimit(group, q.instruction));
+
+    return [{
+      questionNumber: q.question_number,
+      questionText: q.question_text,
+      userAnswer,
+      correctAnswer,
+      isCorrect: match.isCorrect,
+      options: displayOptions,
+      questionType: q.question_type,
+      matchedRule: match.ruleId,
+      wordLimitReason: match.wordLimitExceeded ? match.explanation : null,
+    }];
+  }).sort((a, b) => a.questionNumber - b.questionNumber);
+
+  const score = questionResults.filter(r => r.isCorrect).length;
+  const total = questionResults.length;
+  return {
+    score,
+    total,
+    percentage: total > 0 ? Math.round((score / total) * 100) : 0,
+    bandScore: rawScoreToBand(score, { module, variant, totalQuestions: total }),
+    questionResults,
+  };
+}
@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ScoredSubmission } from './testScoring';
+
+export type ScoredTestModule = 'reading' | 'listening';
+
+export interface ScoreTestRequest {
+  module: ScoredTestModule;
+  testId: string;
+  /** Generated by the caller so a retried or queued submission is only saved once */
+  submissionId: string;
+  answers: Record<number, string>;
+}
+
+export interface ScoredTestResult extends ScoredSubmission {
+  submissionId: string;
+  testId: string;
+  completedAt: string;
+}
+
+async function invokeScoring(body: Record<string, unknown>): Promise<ScoredTestResult> {
+  const { data, error } = await supabase.functions.invoke('score-test-submission', { body });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as ScoredTestResult;
+}
+
+/**
+ * Submit Reading / Listening answers. The score-test-submission edge
+ * function marks them against the answer key (which never reaches the
+ * browser before submission), saves the submission and returns the
+ * per-question results.
+ */
+export function submitTestForScoring(request: ScoreTestRequest): Promise<ScoredTestResult> {
+  return invokeScoring({ action: 'submit', ...request });
+}
+
+/**
+ * One of the user's saved submissions, e.g. for the results page: its
+ * stored score and band, with per-question marks against the current key.
+ */
+export function fetchScoredSubmission(module: ScoredTestModule, submissionId: string): Promise<ScoredTestResult> {
+  return invokeScoring({ action: 'results', module, submissionId });
+}
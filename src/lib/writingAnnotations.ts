@@ -0,0 +1,138 @@
+/**
+ * Writing Error Annotations
+ *
+ * The writing evaluators return error spans alongside the per-criterion
+ * prose: the exact words quoted from the essay, a category, a correction and
+ * a short explanation. Models are unreliable at counting characters, so the
+ * quote is authoritative and offsets are worked out here, on the server, by
+ * finding the quote in the essay. A start offset from the model is only a
+ * hint for picking between repeated phrases. Spans that can't be found, or
+ * that overlap one already placed, are dropped rather than shown in the
+ * wrong place.
+ *
+ * Every category belongs to one band criterion, so the report can count
+ * errors against the GRA / LR / CC / TR band the examiner gave.
+ */
+
+export const WRITING_ERROR_CATEGORIES = ['grammar', 'lexical', 'spelling', 'cohesion', 'task_response'] as const;
+
+export type WritingErrorCategory = typeof WRITING_ERROR_CATEGORIES[number];
+
+/** Task Achievement (Task 1) and Task Response (Task 2) share the TR tag */
+export type WritingCriterionTag = 'TR' | 'CC' | 'LR' | 'GRA';
+
+export const WRITING_ERROR_CATEGORY_META: Record<WritingErrorCategory, { label: string; criterion: WritingCriterionTag }> = {
+  grammar: { label: 'Grammar', criterion: 'GRA' },
+  lexical: { label: 'Word choice', criterion: 'LR' },
+  spelling: { label: 'Spelling', criterion: 'LR' },
+  cohesion: { label: 'Cohesion', criterion: 'CC' },
+  task_response: { label: 'Task response', criterion: 'TR' },
+};
+
+/** An error span as the model reports it */
+export interface RawWritingErrorAnnotation {
+  quote: string;
+  category: WritingErrorCategory;
+  correction: string;
+  explanation: string;
+  /** Approximate character offset of the quote, used to choose between repeats */
+  start?: number;
+}
+
+/** An error span placed in the essay: essay.slice(start, end) === text */
+export interface WritingErrorAnnotation {
+  start: number;
+  end: number;
+  text: string;
+  category: WritingErrorCategory;
+  criterion: WritingCriterionTag;
+  correction: string;
+  explanation: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Every place the quote occurs, exactly, then ignoring whitespace and case differences */
+function findQuote(essay: string, quote: string): Array<{ start: number; end: number }> {
+  const matches: Array<{ start: number; end: number }> = [];
+  for (let i = essay.indexOf(quote); i !== -1; i = essay.indexOf(quote, i + 1)) {
+    matches.push({ start: i, end: i + quote.length });
+  }
+  if (matches.length > 0) return matches;
+
+  const pattern = new RegExp(quote.split(/\s+/).map(escapeRegExp).join('\\s+'), 'gi');
+  for (const match of essay.matchAll(pattern)) {
+    matches.push({ start: match.index!, end: match.index! + match[0].length });
+  }
+  return matches;
+}
+
+export function resolveErrorAnnotations(essay: string, raw: RawWritingErrorAnnotation[]): WritingErrorAnnotation[] {
+  const placed: WritingErrorAnnotation[] = [];
+  const overlaps = (start: number, end: number) => placed.some(a => start < a.end && a.start < end);
+
+  for (const annotation of raw) {
+    const quote = annotation.quote.trim();
+    if (!quote) continue;
+
+    const candidates = findQuote(essay, quote).filter(m => !overlaps(m.start, m.end));
+    if (candidates.length === 0) continue;
+
+    // Without a hint, repeats of the same mistake are taken in reading order
+    const hint = annotation.start;
+    const match = hint === undefined
+      ? candidates[0]
+      : candidates.reduce((best, m) => (Math.abs(m.start - hint) < Math.abs(best.start - hint) ? m : best));
+
+    placed.push({
+      start: match.start,
+      end: match.end,
+      text: essay.slice(match.start, match.end),
+      category: annotation.category,
+      criterion: WRITING_ERROR_CATEGORY_META[annotation.category].criterion,
+      correction: annotation.correction,
+      explanation: annotation.explanation,
+    });
+  }
+
+  return placed.sort((a, b) => a.start - b.start);
+}
+
+// ─── Display ─────────────────────────────────────────────────────────────────
+
+export interface EssaySegment {
+  text: string;
+  annotation?: WritingErrorAnnotation;
+}
+
+/**
+ * Splits the essay into plain and annotated runs. Annotations that no longer
+ * line up with the text (an edited submission, a hand-written report) are
+ * left out, as are overlapping ones.
+ */
+export function segmentEssay(essay: string, annotations: WritingErrorAnnotation[]): EssaySegment[] {
+  const segments: EssaySegment[] = [];
+  let cursor = 0;
+
+  for (const annotation of [...annotations].sort((a, b) => a.start - b.start)) {
+    if (annotation.start < cursor || essay.slice(annotation.start, annotation.end) !== annotation.text) continue;
+    if (annotation.start > cursor) segments.push({ text: essay.slice(cursor, annotation.start) });
+    segments.push({ text: annotation.text, annotation });
+    cursor = annotation.end;
+  }
+  if (cursor < essay.length) segments.push({ text: essay.slice(cursor) });
+
+  return segments;
+}
+
+export function countErrorsByCategory(annotations: WritingErrorAnnotation[]): Record<WritingErrorCategory, number> {
+  const counts = Object.fromEntries(WRITING_ERROR_CATEGORIES.map(c => [c, 0])) as Record<WritingErrorCategory, number>;
+  for (const annotation of annotations) counts[annotation.category]++;
+  return counts;
+}
+
+export function countErrorsByCriterion(annotations: WritingErrorAnnotation[]): Record<WritingCriterionTag, number> {
+  const counts: Record<WritingCriterionTag, number> = { TR: 0, CC: 0, LR: 0, GRA: 0 };
+  for (const annotation of annotations) counts[annotation.criterion]++;
+  return counts;
+}
@@ -0,0 +1,170 @@
+/**
+ * Writing Revisions
+ *
+ * Students resubmit a writing test to improve on earlier feedback, either
+ * from scratch or by revising a previous attempt (revised_from_id on the new
+ * writing_submissions rows points at the row it was revised from, per task).
+ * This module compares two submissions of the same task: a word-level diff
+ * of the text, per-criterion band changes, and the band trend across every
+ * attempt at the task.
+ */
+
+// ─── Text diff ───────────────────────────────────────────────────────────────
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+/** Words and the whitespace between them, so the diff rebuilds both texts exactly */
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+function pushSegment(segments: DiffSegment[], type: DiffSegmentType, text: string) {
+  const last = segments[segments.length - 1];
+  if (last?.type === type) last.text += text;
+  else segments.push({ type, text });
+}
+
+/**
+ * Word-level diff from the longest common subsequence of tokens. Essays are
+ * a few hundred words, so the quadratic table stays small.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lcs[i][j]: common tokens between a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, 'removed', a[i++]);
+    } else {
+      pushSegment(segments, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'removed', a[i++]);
+  while (j < b.length) pushSegment(segments, 'added', b[j++]);
+
+  return segments;
+}
+
+/** The two columns of a side-by-side view: the earlier text with removals, the later one with additions */
+export function splitDiff(segments: DiffSegment[]): { before: DiffSegment[]; after: DiffSegment[] } {
+  return {
+    before: segments.filter(s => s.type !== 'added'),
+    after: segments.filter(s => s.type !== 'removed'),
+  };
+}
+
+export function diffStats(segments: DiffSegment[]): { added: number; removed: number } {
+  const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  return {
+    added: segments.filter(s => s.type === 'added').reduce((sum, s) => sum + words(s.text), 0),
+    removed: segments.filter(s => s.type === 'removed').reduce((sum, s) => sum + words(s.text), 0),
+  };
+}
+
+// ─── Bands ───────────────────────────────────────────────────────────────────
+
+/** The criteria of an evaluate-writing-submission report, in display order */
+export const WRITING_REPORT_CRITERIA = [
+  { key: 'task_achievement_response', label: 'Task Achievement / Response' },
+  { key: 'coherence_and_cohesion', label: 'Coherence & Cohesion' },
+  { key: 'lexical_resource', label: 'Lexical Resource' },
+  { key: 'grammatical_range_and_accuracy', label: 'Grammatical Range & Accuracy' },
+] as const;
+
+export interface RevisionSubmission {
+  id: string;
+  submitted_at: string | null;
+  overall_band: number | null;
+  evaluation_report: unknown;
+  revised_from_id?: string | null;
+}
+
+export interface BandDelta {
+  key: string;
+  label: string;
+  before: number | null;
+  after: number | null;
+  /** after - before, or null when either attempt has no band */
+  delta: number | null;
+}
+
+function criterionBand(report: unknown, key: string): number | null {
+  const band = (report as Record<string, { band?: unknown } | undefined> | null)?.[key]?.band;
+  return typeof band === 'number' ? band : null;
+}
+
+const delta = (before: number | null, after: number | null) => (before === null || after === null ? null : after - before);
+
+export function bandDeltas(before: RevisionSubmission, after: RevisionSubmission): BandDelta[] {
+  const rows: BandDelta[] = WRITING_REPORT_CRITERIA.map(({ key, label }) => {
+    const b = criterionBand(before.evaluation_report, key);
+    const a = criterionBand(after.evaluation_report, key);
+    return { key, label, before: b, after: a, delta: delta(b, a) };
+  });
+  rows.push({
+    key: 'overall_band',
+    label: 'Overall',
+    before: before.overall_band,
+    after: after.overall_band,
+    delta: delta(before.overall_band, after.overall_band),
+  });
+  return rows;
+}
+
+export function formatBandDelta(value: number | null): string {
+  if (value === null) return '–';
+  if (value === 0) return '±0';
+  return value > 0 ? `+${value.toFixed(1)}` : value.toFixed(1);
+}
+
+export interface BandTrendPoint {
+  submissionId: string;
+  submittedAt: string | null;
+  band: number | null;
+  /** Change from the previous evaluated attempt */
+  delta: number | null;
+}
+
+/** One task's attempts, oldest first */
+export function bandTrend(submissions: RevisionSubmission[]): BandTrendPoint[] {
+  const sorted = [...submissions].sort(
+    (x, y) => new Date(x.submitted_at ?? 0).getTime() - new Date(y.submitted_at ?? 0).getTime(),
+  );
+  let previous: number | null = null;
+  return sorted.map(s => {
+    const point = { submissionId: s.id, submittedAt: s.submitted_at, band: s.overall_band, delta: delta(previous, s.overall_band) };
+    if (s.overall_band !== null) previous = s.overall_band;
+    return point;
+  });
+}
+
+/**
+ * The attempt to compare a submission against by default: the one it was
+ * revised from when that still exists, otherwise the previous attempt.
+ */
+export function defaultComparisonBase(submissions: RevisionSubmission[], after: RevisionSubmission): RevisionSubmission | null {
+  const revisedFrom = after.revised_from_id ? submissions.find(s => s.id === after.revised_from_id) : undefined;
+  if (revisedFrom) return revisedFrom;
+
+  const trend = bandTrend(submissions);
+  const index = trend.findIndex(p => p.submissionId === after.id);
+  return index > 0 ? submissions.find(s => s.id === trend[index - 1].submissionId) ?? null : null;
+}
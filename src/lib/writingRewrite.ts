@@ -0,0 +1,119 @@
+/**
+ * Writing Rewrites
+ *
+ * A model answer written by rewriting the student's own essay at a target
+ * band, keeping their ideas and paragraphing. The model rewrites each of the
+ * student's paragraphs in turn and lists the upgrades it made; the
+ * comparison view pairs each original paragraph with its rewrite and marks
+ * the upgraded phrases. Rewrites are generated by rewrite-writing-answer and
+ * cached in writing_model_rewrites, one per answer and target band.
+ */
+
+export const REWRITE_TARGET_BANDS = [6, 6.5, 7, 7.5, 8, 8.5, 9] as const;
+
+export const REWRITE_UPGRADE_KINDS = ['vocabulary', 'structure', 'cohesion'] as const;
+
+export type RewriteUpgradeKind = typeof REWRITE_UPGRADE_KINDS[number];
+
+export const REWRITE_UPGRADE_LABELS: Record<RewriteUpgradeKind, string> = {
+  vocabulary: 'Vocabulary',
+  structure: 'Complex structure',
+  cohesion: 'Cohesion',
+};
+
+/** Where the answer being rewritten is stored */
+export type RewriteSource = 'writing_submission' | 'ai_practice_result';
+
+export interface RewriteUpgrade {
+  kind: RewriteUpgradeKind;
+  /** The student's wording, when the upgrade replaces something */
+  original: string;
+  /** The new wording, quoted from the rewritten paragraph */
+  upgraded: string;
+  explanation: string;
+}
+
+export interface RewrittenParagraph {
+  /** 1-based position of the student's paragraph this rewrites */
+  index: number;
+  text: string;
+  upgrades: RewriteUpgrade[];
+}
+
+/** writing_model_rewrites.rewrite */
+export interface ModelRewrite {
+  paragraphs: RewrittenParagraph[];
+  /** What separates the rewrite from the student's band, in a few sentences */
+  summary: string;
+}
+
+export interface AlignedParagraph {
+  /** Empty when the rewrite adds a paragraph the student didn't write */
+  original: string;
+  rewritten: string;
+  upgrades: RewriteUpgrade[];
+}
+
+export const splitParagraphs = (text: string) => text.split(/\n+/).map(p => p.trim()).filter(Boolean);
+
+/** Target bands worth asking for: above the student's band, or all of them when there isn't one */
+export function rewriteTargetBands(currentBand: number | null | undefined): number[] {
+  const above = REWRITE_TARGET_BANDS.filter(band => currentBand == null || band > currentBand);
+  return above.length > 0 ? above : [9];
+}
+
+/**
+ * Pairs the student's paragraphs with their rewrites by index. Paragraphs
+ * the model skipped are shown unchanged; extra rewritten paragraphs come last.
+ */
+export function alignParagraphs(originalText: string, rewrite: ModelRewrite): AlignedParagraph[] {
+  const originals = splitParagraphs(originalText);
+  const byIndex = new Map<number, RewrittenParagraph>();
+  for (const paragraph of rewrite.paragraphs) {
+    if (!byIndex.has(paragraph.index)) byIndex.set(paragraph.index, paragraph);
+  }
+
+  const aligned: AlignedParagraph[] = originals.map((original, i) => {
+    const rewritten = byIndex.get(i + 1);
+    return { original, rewritten: rewritten?.text ?? original, upgrades: rewritten?.upgrades ?? [] };
+  });
+  const extra = [...byIndex.values()]
+    .filter(p => p.index < 1 || p.index > originals.length)
+    .sort((a, b) => a.index - b.index);
+  for (const paragraph of extra) aligned.push({ original: '', rewritten: paragraph.text, upgrades: paragraph.upgrades });
+  return aligned;
+}
+
+export interface RewriteSegment {
+  text: string;
+  upgrade?: RewriteUpgrade;
+}
+
+/** Splits a rewritten paragraph around the upgraded phrases it contains, first occurrence each, without overlaps */
+export function segmentRewrite(text: string, upgrades: RewriteUpgrade[]): RewriteSegment[] {
+  const lower = text.toLowerCase();
+  const spans = upgrades
+    .map(upgrade => ({ upgrade, start: upgrade.upgraded ? lower.indexOf(upgrade.upgraded.toLowerCase()) : -1 }))
+    .filter(span => span.start >= 0)
+    .map(span => ({ ...span, end: span.start + span.upgrade.upgraded.length }))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const segments: RewriteSegment[] = [];
+  let cursor = 0;
+  for (const span of spans) {
+    if (span.start < cursor) continue;
+    if (span.start > cursor) segments.push({ text: text.slice(cursor, span.start) });
+    segments.push({ text: text.slice(span.start, span.end), upgrade: span.upgrade });
+    cursor = span.end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+  return segments;
+}
+
+export function countUpgradesByKind(rewrite: ModelRewrite): Record<RewriteUpgradeKind, number> {
+  const counts = Object.fromEntries(REWRITE_UPGRADE_KINDS.map(kind => [kind, 0])) as Record<RewriteUpgradeKind, number>;
+  for (const paragraph of rewrite.paragraphs) {
+    for (const upgrade of paragraph.upgrades) counts[upgrade.kind]++;
+  }
+  return counts;
+}
@@ -17,6 +17,7 @@ import { CreditDisplay } from '@/components/common/CreditDisplay';
 import { SelectableCard } from '@/components/common/SelectableCard';
 import { useToast } from '@/hooks/use-toast';
 import { describeApiError } from '@/lib/apiErrors';
+import { generatedTestSchema, zodIssues } from '@/lib/aiSchemas';
 import { useAuth } from '@/hooks/useAuth';
 import { useTopicCompletions } from '@/hooks/useTopicCompletions';
 import { useSmartTopicCycle } from '@/hooks/useSmartTopicCycle';
@@ -26,6 +27,7 @@ import {
   READING_TOPICS, 
   LISTENING_TOPICS, 
   WRITING_TASK1_TOPICS, 
+  WRITING_TASK1_GT_TOPICS,
   WRITING_TASK2_TOPICS,
   SPEAKING_TOPICS_PART1,
   SPEAKING_TOPICS_PART2,
@@ -51,6 +53,7 @@ import {
   ReadingQuestionType, 
   ListeningQuestionType,
   WritingTaskType,
+  WritingTask1LetterType,
   SpeakingPartType,
   QUESTION_COUNTS,
   getDefaultTime,
@@ -59,6 +62,7 @@ import {
   GeneratedTest
 } from '@/types/aiPractice';
 import { Link } from 'react-router-dom';
+import type { TestVariant } from '@/lib/bandConversion';
 
 // Question type options - ALL IELTS QUESTION TYPES
 const READING_QUESTION_TYPES: { value: ReadingQuestionType; label: string; description: string }[] = [
@@ -93,6 +97,20 @@ const WRITING_TASK_TYPES: { value: WritingTaskType; label: string; description:
   { value: 'TASK_2', label: 'Task 2 (Essay)', description: 'Write an essay on a given topic', defaultTime: 40 },
 ];
 
+// Academic / General Training – applies to Reading and Writing only
+const TEST_VARIANT_OPTIONS: { value: TestVariant; label: string; description: string }[] = [
+  { value: 'academic', label: 'Academic', description: 'University and professional registration' },
+  { value: 'general', label: 'General Training', description: 'Work, migration and everyday contexts' },
+];
+
+// General Training Task 1 letter types for dropdown
+const WRITING_TASK1_LETTER_TYPES: { value: WritingTask1LetterType; label: string; description: string }[] = [
+  { value: 'RANDOM', label: 'Random', description: 'Any letter type' },
+  { value: 'FORMAL', label: 'Formal', description: 'To a company, manager or official' },
+  { value: 'SEMI_FORMAL', label: 'Semi-formal', description: 'To a landlord, neighbour or colleague' },
+  { value: 'INFORMAL', label: 'Informal', description: 'To a friend or relative' },
+];
+
 // Task 1 visual types for dropdown
 const WRITING_TASK1_VISUAL_TYPES = [
   { value: 'RANDOM', label: 'Random', description: 'Any visual type' },
@@ -162,6 +180,8 @@ export default function AIPractice() {
   const [listeningQuestionType, setListeningQuestionType] = useState<ListeningQuestionType>('FILL_IN_BLANK');
   const [writingTaskType, setWritingTaskType] = useState<WritingTaskType>('TASK_1');
   const [writingTask1VisualType, setWritingTask1VisualType] = useState('RANDOM');
+  const [writingTask1LetterType, setWritingTask1LetterType] = useState<WritingTask1LetterType>('RANDOM');
+  const [testVariant, setTestVariant] = useState<TestVariant>('academic');
   const [writingTask2EssayType, setWritingTask2EssayType] = useState('RANDOM');
   const [writingTimeMinutes, setWritingTimeMinutes] = useState(20);
   const [speakingPartType, setSpeakingPartType] = useState<SpeakingPartType>('FULL_TEST');
@@ -188,8 +208,12 @@ export default function AIPractice() {
   // These hooks implement the balanced round-robin algorithm
   const readingSmartCycle = useSmartTopicCycle('reading');
   const listeningSmartCycle = useSmartTopicCycle('listening');
-  // Writing needs subtype for correct topic list
-  const writingSubtype = writingTaskType === 'TASK_1' ? 'TASK_1' : 'TASK_2';
+  // Listening and Speaking are the same for both variants
+  const effectiveVariant: TestVariant = activeModule === 'reading' || activeModule === 'writing' ? testVariant : 'academic';
+  const isGeneralWriting = testVariant === 'general';
+
+  // Writing needs subtype for correct topic list (GT Task 1 letters have their own topics)
+  const writingSubtype = writingTaskType === 'TASK_1' ? (isGeneralWriting ? 'TASK_1_GT' : 'TASK_1') : 'TASK_2';
   const writingSmartCycle = useSmartTopicCycle('writing', writingSubtype);
   // Speaking needs subtype for correct topic list  
   const speakingSubtype = speakingPartType === 'PART_1' ? 'PART_1' 
@@ -217,7 +241,8 @@ export default function AIPractice() {
       case 'listening':
         return LISTENING_TOPICS;
       case 'writing':
-        return writingTaskType === 'TASK_1' ? WRITING_TASK1_TOPICS : WRITING_TASK2_TOPICS;
+        if (writingTaskType !== 'TASK_1') return WRITING_TASK2_TOPICS;
+        return isGeneralWriting ? WRITING_TASK1_GT_TOPICS : WRITING_TASK1_TOPICS;
       case 'speaking':
         switch (speakingPartType) {
           case 'PART_1': return SPEAKING_TOPICS_PART1;
@@ -228,7 +253,7 @@ export default function AIPractice() {
       default:
         return [];
     }
-  }, [activeModule, writingTaskType, speakingPartType]);
+  }, [activeModule, writingTaskType, isGeneralWriting, speakingPartType]);
 
   // Get the completion hook for current module
   const currentCompletions = useMemo(() => {
@@ -330,9 +355,27 @@ export default function AIPractice() {
     : activeModule === 'listening'
     ? ['Analyzing topic', 'Generating dialogue', 'Creating audio', 'Generating questions', 'Finalizing']
     : activeModule === 'writing'
-    ? ['Analyzing topic', 'Creating prompt', writingTaskType === 'TASK_1' ? 'Generating chart/graph' : 'Preparing task', 'Finalizing']
+    ? ['Analyzing topic', 'Creating prompt', writingTaskType === 'TASK_1' ? (isGeneralWriting ? 'Drafting letter situation' : 'Generating chart/graph') : 'Preparing task', 'Finalizing']
     : ['Analyzing topic', 'Creating questions', 'Generating audio prompts', 'Preparing cue card', 'Finalizing'];
 
+  const variantSelector = (
+    <div className="space-y-3">
+      <Label className="text-base font-medium">Test Variant</Label>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {TEST_VARIANT_OPTIONS.map((option) => (
+          <SelectableCard
+            key={option.value}
+            isSelected={testVariant === option.value}
+            onClick={() => setTestVariant(option.value)}
+          >
+            <div className="font-medium pr-6">{option.label}</div>
+            <div className="text-sm text-muted-foreground">{option.description}</div>
+          </SelectableCard>
+        ))}
+      </div>
+    </div>
+  );
+
   const handleGenerate = async () => {
     if (!user) {
       toast({
@@ -374,7 +417,8 @@ export default function AIPractice() {
 
     // OPTIMIZATION: Check DB cache BEFORE calling edge function (saves quota + bandwidth)
     // Only for reading and listening modules which have presets in generated_test_audio
-    if (activeModule === 'reading' || activeModule === 'listening') {
+    // (presets are all Academic, so General Training reading always generates)
+    if ((activeModule === 'reading' && effectiveVariant === 'academic') || activeModule === 'listening') {
       try {
         console.log('[cache] Checking DB cache for pre-generated test...');
         
@@ -490,6 +534,7 @@ export default function AIPractice() {
                       difficulty,
                       topic: cachedTest.topic,
                       timeMinutes: timeMinutes,
+                      testVariant: 'academic',
                       passage: (payload as any).passage,
                       audioUrl: cachedTest.audio_url || undefined,
                       audioBase64: undefined,
@@ -501,6 +546,7 @@ export default function AIPractice() {
                       speakingParts: (payload as any).speakingParts,
                       isPreset: true,
                       presetId: cachedTest.id,
+                      promptVersion: cachedTest.prompt_version ?? undefined,
                       totalQuestions: (questionGroups as any[]).reduce((acc, g) => acc + (g.questions?.length || 0), 0),
                       generatedAt: new Date().toISOString(),
                     };
@@ -551,6 +597,7 @@ export default function AIPractice() {
       const readingConfig = activeModule === 'reading' ? {
         passagePreset: 'medium',
         paragraphCount: READING_PASSAGE_PARAGRAPHS,
+        testVariant: effectiveVariant,
       } : undefined;
 
       // Build listening-specific configuration with speaker settings
@@ -580,7 +627,9 @@ export default function AIPractice() {
       const writingConfig = activeModule === 'writing' ? {
         taskType: writingTaskType,
         task1VisualType: writingTask1VisualType,
+        task1LetterType: writingTask1LetterType,
         task2EssayType: writingTask2EssayType,
+        testVariant: effectiveVariant,
         timeMinutes: writingTimeMinutes,
       } : undefined;
 
@@ -668,6 +717,7 @@ export default function AIPractice() {
         difficulty,
         topic: data.topic || topicPreference || 'Random Topic',
         timeMinutes: finalTimeMinutes,
+        testVariant: effectiveVariant,
         passage: data.passage,
         // Audio fields - ensure both camelCase and snake_case are captured for R2 URLs
         audioUrl: data.audioUrl || data.audio_url || null,
@@ -680,6 +730,7 @@ export default function AIPractice() {
         speakingParts: data.speakingParts,
         isPreset: Boolean(data?.isPreset),
         presetId: data?.presetId,
+        promptVersion: data?.promptVersion ?? undefined,
         totalQuestions: activeModule === 'writing' ? 1 : 
           activeModule === 'speaking' ? (data.speakingParts?.reduce((acc: number, p: any) => acc + (p.questions?.length || 0), 0) || 0) : 
           // For MCMA, totalQuestions is always 3 (standardized)
@@ -687,6 +738,13 @@ export default function AIPractice() {
         generatedAt: new Date().toISOString(),
       };
 
+      // Never save a test the renderers cannot display
+      const testCheck = generatedTestSchema.safeParse(generatedTest);
+      if (!testCheck.success) {
+        console.error('Generated test failed validation:', zodIssues(testCheck.error));
+        throw new Error('The generated test was incomplete. Please try again.');
+      }
+
       // Save to memory cache and persist to Supabase
       setCurrentTest(generatedTest);
       await saveGeneratedTestAsync(generatedTest, user.id);
@@ -932,6 +990,8 @@ export default function AIPractice() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  {variantSelector}
+
                   {/* Question Type Selection */}
                   <div className="space-y-3">
                     <Label className="text-base font-medium">Question Type</Label>
@@ -1153,6 +1213,8 @@ export default function AIPractice() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  {variantSelector}
+
                   {/* Task Type Selection */}
                   <div className="space-y-3">
                     <Label className="text-base font-medium">Task Type</Label>
@@ -1164,8 +1226,12 @@ export default function AIPractice() {
                           onClick={() => setWritingTaskType(type.value)}
                           autoScrollOnSelect
                         >
-                          <div className="font-medium pr-6">{type.label}</div>
-                          <div className="text-sm text-muted-foreground">{type.description}</div>
+                          <div className="font-medium pr-6">
+                            {type.value === 'TASK_1' && isGeneralWriting ? 'Task 1 (Letter)' : type.label}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {type.value === 'TASK_1' && isGeneralWriting ? 'Write a letter covering three bullet points' : type.description}
+                          </div>
                           <Badge variant="secondary" className="mt-2">
                             {type.value === 'FULL_TEST' ? '400+ words' : type.value === 'TASK_1' ? '150+ words' : '250+ words'}
                           </Badge>
@@ -1178,8 +1244,35 @@ export default function AIPractice() {
                   <div className="space-y-4 border-t pt-6">
                     <Label className="text-base font-medium">Question Type</Label>
                     
+                    {/* Task 1 Letter Type (General Training) */}
+                    {isGeneralWriting && (writingTaskType === 'FULL_TEST' || writingTaskType === 'TASK_1') && (
+                      <div className="space-y-2">
+                        <Label className="text-sm text-muted-foreground">
+                          {writingTaskType === 'FULL_TEST' ? 'Task 1 Letter Type' : 'Letter Type'}
+                        </Label>
+                        <Select
+                          value={writingTask1LetterType}
+                          onValueChange={(value) => setWritingTask1LetterType(value as WritingTask1LetterType)}
+                        >
+                          <SelectTrigger className="max-w-md">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {WRITING_TASK1_LETTER_TYPES.map((type) => (
+                              <SelectItem key={type.value} value={type.value}>
+                                <div className="flex flex-col">
+                                  <span>{type.label}</span>
+                                  <span className="text-xs text-muted-foreground">{type.description}</span>
+                                </div>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
                     {/* Task 1 Visual Type (for Full Test or Task 1) */}
-                    {(writingTaskType === 'FULL_TEST' || writingTaskType === 'TASK_1') && (
+                    {!isGeneralWriting && (writingTaskType === 'FULL_TEST' || writingTaskType === 'TASK_1') && (
                       <div className="space-y-2">
                         <Label className="text-sm text-muted-foreground">
                           {writingTaskType === 'FULL_TEST' ? 'Task 1 Visual Type' : 'Visual Type'}
@@ -25,6 +25,10 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { useAuth } from '@/hooks/useAuth';
 import { useTopicCompletions } from '@/hooks/useTopicCompletions';
+import { SavedTestAttempt, useTestAttempt } from '@/hooks/useTestAttempt';
+import { RestoreTestStateDialog } from '@/components/common/RestoreTestStateDialog';
+import { scoreMultipleChoiceMultiple, questionRange } from '@/lib/ieltsAnswerValidation';
+import { rawScoreToBand } from '@/lib/bandConversion';
 
 import { 
   loadGeneratedTest,
@@ -609,6 +613,36 @@ export default function AIPracticeListeningTest() {
     }
   };
 
+  // Server-side autosave so the attempt survives a crash or a device switch
+  const [resumedAttempt, setResumedAttempt] = useState<SavedTestAttempt | null>(null);
+  const { savedAttempt, resolveSavedAttempt, discardSavedAttempt, clearAttempt } = useTestAttempt({
+    module: 'listening',
+    testId,
+    source: 'ai_practice',
+    snapshot: { answers, currentQuestion, timeLeft },
+    enabled: testStarted && !!test,
+  });
+
+  // Restore an autosaved attempt once the test has loaded; the dialog shows after Start
+  useEffect(() => {
+    if (!savedAttempt || loading) return;
+    resolveSavedAttempt();
+
+    const { snapshot } = savedAttempt;
+    if (snapshot.answers) setAnswers(snapshot.answers);
+    if (snapshot.currentQuestion) setCurrentQuestion(snapshot.currentQuestion);
+    if (snapshot.timeLeft !== undefined) setTimeLeft(snapshot.timeLeft);
+    setResumedAttempt(savedAttempt);
+  }, [savedAttempt, loading, resolveSavedAttempt]);
+
+  const handleStartOver = useCallback(() => {
+    setAnswers({});
+    setCurrentQuestion(1);
+    if (test) setTimeLeft(test.timeMinutes * 60);
+    setResumedAttempt(null);
+    discardSavedAttempt();
+  }, [test, discardSavedAttempt]);
+
   const handleSubmit = async () => {
     if (!test) return;
 
@@ -632,51 +666,31 @@ export default function AIPracticeListeningTest() {
       // Process MCMA groups first (one result per group with partial scoring)
       for (const group of questionGroups) {
         if (group.question_type === 'MULTIPLE_CHOICE_MULTIPLE') {
-          const rangeNumbers: number[] = [];
-          for (let n = group.start_question; n <= group.end_question; n++) {
-            rangeNumbers.push(n);
-            processedQuestionNumbers.add(n);
-          }
-          
-          // User's answer is stored on start_question only
-          const userAnswerRaw = answers[group.start_question]?.trim() || '';
-          const userLetters = userAnswerRaw
-            .split(',')
-            .map(s => s.trim().toUpperCase())
-            .filter(Boolean);
-          
-          // Get correct answers from the original test payload
-          const firstQFromTest = test.questionGroups?.flatMap(g => g.questions).find(
-            (oq) => oq.question_number === group.start_question
-          );
-          const correctAnswerRaw = firstQFromTest?.correct_answer || '';
-          const correctLetters = correctAnswerRaw
-            .split(',')
-            .map(s => s.trim().toUpperCase())
-            .filter(Boolean);
+          const rangeNumbers = questionRange(group.start_question, group.end_question);
+          rangeNumbers.forEach(n => processedQuestionNumbers.add(n));
           
-          // Partial scoring: count how many user selections are correct
-          const correctSelections = userLetters.filter(l => correctLetters.includes(l));
-          const partialScore = correctSelections.length;
-          const maxScore = correctLetters.length;
-          const isFullyCorrect = partialScore === maxScore && userLetters.length === maxScore;
-          
-          // Add partial score to total
-          correctCount += partialScore;
-          
-          // Get explanation from original test data
+          // User's answer is stored on start_question only; correct answers come from the original test payload
           const originalQ = test.questionGroups?.flatMap(g => g.questions).find(
             oq => oq.question_number === group.start_question
           );
+          const mcma = scoreMultipleChoiceMultiple(
+            answers[group.start_question] || '',
+            originalQ?.correct_answer || '',
+            rangeNumbers
+          );
+          
+          // Each correct letter is a separate mark
+          correctCount += mcma.score;
           
           questionResults.push({
             questionNumber: group.start_question,
             questionNumbers: rangeNumbers,
-            userAnswer: userLetters.join(','),
-            correctAnswer: correctLetters.join(','),
-            isCorrect: isFullyCorrect,
-            partialScore,
-            maxScore,
+            userAnswer: mcma.userAnswer,
+            correctAnswer: mcma.correctAnswer,
+            isCorrect: mcma.isFullyCorrect,
+            partialScore: mcma.score,
+            maxScore: mcma.maxScore,
+            marks: mcma.marks,
             explanation: originalQ?.explanation || '',
             questionType: 'MULTIPLE_CHOICE_MULTIPLE',
           });
@@ -719,18 +733,8 @@ export default function AIPracticeListeningTest() {
         totalQuestions += qr.maxScore || 1;
       }
 
-      // 2. Calculate Band Score (IELTS Listening Table)
-      let bandScore = 0;
-      if (correctCount >= 39) bandScore = 9;
-      else if (correctCount >= 37) bandScore = 8.5;
-      else if (correctCount >= 35) bandScore = 8;
-      else if (correctCount >= 32) bandScore = 7.5;
-      else if (correctCount >= 30) bandScore = 7;
-      else if (correctCount >= 26) bandScore = 6.5;
-      else if (correctCount >= 23) bandScore = 6;
-      else if (correctCount >= 18) bandScore = 5.5;
-      else if (correctCount >= 16) bandScore = 5;
-      else bandScore = 4;
+      // 2. Calculate Band Score (IELTS Listening table, scaled to the practice length)
+      const bandScore = rawScoreToBand(correctCount, { module: 'listening', totalQuestions });
 
       const result: PracticeResult = {
         testId: test.id,
@@ -745,6 +749,7 @@ export default function AIPracticeListeningTest() {
 
       if (user) {
         await savePracticeResultAsync(result, user.id, 'listening');
+        await clearAttempt();
         // Track topic completion
         if (test.topic) {
           incrementCompletion(test.topic);
@@ -895,7 +900,7 @@ export default function AIPracticeListeningTest() {
   }
 
   return (
-    <HighlightNoteProvider testId={testId!}>
+    <HighlightNoteProvider testId={testId!} module="listening" source="ai_practice">
       <div className={cn("h-screen flex flex-col overflow-hidden", getThemeClasses(), "ielts-test-content")}>
         <div className="flex-1 flex flex-col overflow-hidden">
           {/* Top Header - IELTS Official Style with AI Practice badge */}
@@ -1204,6 +1209,23 @@ export default function AIPracticeListeningTest() {
         totalCount={submitStats.totalCount}
         contrastMode={contrastMode}
       />
+      <RestoreTestStateDialog
+        open={resumedAttempt !== null}
+        timeLeft={resumedAttempt?.snapshot.timeLeft ?? timeLeft}
+        answeredCount={submitStats.answeredCount}
+        totalQuestions={submitStats.totalCount}
+        savedAt={resumedAttempt?.savedAt}
+        fromOtherDevice={resumedAttempt?.fromOtherDevice}
+        onStartOver={handleStartOver}
+        onContinue={() => {
+          setResumedAttempt(null);
+          toast.success('Test resumed. Good luck!');
+        }}
+        onSubmit={async () => {
+          setResumedAttempt(null);
+          await handleSubmit();
+        }}
+      />
     </HighlightNoteProvider>
   );
 }
@@ -15,13 +15,22 @@ import {
   ResizablePanelGroup,
 } from "@/components/ui/resizable";
 import { cn } from '@/lib/utils';
-import { checkAnswer } from '@/lib/ieltsAnswerValidation';
+import {
+  checkAnswer,
+  resolveWordLimit,
+  scoreMultipleChoiceMultiple,
+  questionRange,
+  totalMarks,
+} from '@/lib/ieltsAnswerValidation';
+import { rawScoreToBand } from '@/lib/bandConversion';
 import { HighlightNoteProvider } from '@/hooks/useHighlightNotes';
 import { NoteSidebar } from '@/components/common/NoteSidebar';
 import { SubmitConfirmDialog } from '@/components/common/SubmitConfirmDialog';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/hooks/useAuth';
 import { useTopicCompletions } from '@/hooks/useTopicCompletions';
+import { SavedTestAttempt, useTestAttempt } from '@/hooks/useTestAttempt';
+import { RestoreTestStateDialog } from '@/components/common/RestoreTestStateDialog';
 import { 
   loadGeneratedTest,
   loadGeneratedTestAsync,
@@ -360,6 +369,38 @@ export default function AIPracticeReadingTest() {
     setAnswers(prev => ({ ...prev, [questionNumber]: answer }));
   };
 
+  // Server-side autosave so the attempt survives a crash or a device switch
+  const [resumedAttempt, setResumedAttempt] = useState<SavedTestAttempt | null>(null);
+  const { savedAttempt, resolveSavedAttempt, discardSavedAttempt, clearAttempt } = useTestAttempt({
+    module: 'reading',
+    testId,
+    source: 'ai_practice',
+    snapshot: { answers, currentQuestion, currentPassageIndex, timeLeft },
+    enabled: testStarted && !!test,
+  });
+
+  // Restore an autosaved attempt once the test has loaded; the dialog shows after Start
+  useEffect(() => {
+    if (!savedAttempt || loading) return;
+    resolveSavedAttempt();
+
+    const { snapshot } = savedAttempt;
+    if (snapshot.answers) setAnswers(snapshot.answers);
+    if (snapshot.currentQuestion) setCurrentQuestion(snapshot.currentQuestion);
+    if (snapshot.currentPassageIndex !== undefined) setCurrentPassageIndex(snapshot.currentPassageIndex);
+    if (snapshot.timeLeft !== undefined) setTimeLeft(snapshot.timeLeft);
+    setResumedAttempt(savedAttempt);
+  }, [savedAttempt, loading, resolveSavedAttempt]);
+
+  const handleStartOver = useCallback(() => {
+    setAnswers({});
+    setCurrentQuestion(1);
+    setCurrentPassageIndex(0);
+    if (test) setTimeLeft(test.timeMinutes * 60);
+    setResumedAttempt(null);
+    discardSavedAttempt();
+  }, [test, discardSavedAttempt]);
+
   const handleSubmit = async () => {
     if (!test) return;
 
@@ -372,48 +413,29 @@ export default function AIPracticeReadingTest() {
     // Process MCMA groups first (one result per group with partial scoring)
     for (const group of questionGroups) {
       if (group.question_type === 'MULTIPLE_CHOICE_MULTIPLE') {
-        const rangeNumbers: number[] = [];
-        for (let n = group.start_question; n <= group.end_question; n++) {
-          rangeNumbers.push(n);
-          processedQuestionNumbers.add(n);
-        }
-        
-        // User's answer is stored on start_question only
-        const userAnswerRaw = answers[group.start_question]?.trim() || '';
-        const userLetters = userAnswerRaw
-          .split(',')
-          .map(s => s.trim().toUpperCase())
-          .filter(Boolean);
+        const rangeNumbers = questionRange(group.start_question, group.end_question);
+        rangeNumbers.forEach(n => processedQuestionNumbers.add(n));
         
         // Always read correct answers from the saved ai_practice_tests payload (never from user input)
-        const firstQFromTest = test.questionGroups?.flatMap(g => g.questions).find(
-          (oq) => oq.question_number === group.start_question
-        );
-        const correctAnswerRaw = firstQFromTest?.correct_answer || '';
-        const correctLetters = correctAnswerRaw
-          .split(',')
-          .map(s => s.trim().toUpperCase())
-          .filter(Boolean);
-        
-        // Partial scoring: count how many user selections are correct
-        const correctSelections = userLetters.filter(l => correctLetters.includes(l));
-        const partialScore = correctSelections.length;
-        const maxScore = correctLetters.length;
-        const isFullyCorrect = partialScore === maxScore && userLetters.length === maxScore;
-        
-        // Get explanation from original test data
+        // User's answer is stored on start_question only
         const originalQ = test.questionGroups?.flatMap(g => g.questions).find(
           oq => oq.question_number === group.start_question
         );
+        const mcma = scoreMultipleChoiceMultiple(
+          answers[group.start_question] || '',
+          originalQ?.correct_answer || '',
+          rangeNumbers
+        );
         
         questionResults.push({
           questionNumber: group.start_question,
           questionNumbers: rangeNumbers,
-          userAnswer: userLetters.join(','),
-          correctAnswer: correctLetters.join(','),
-          isCorrect: isFullyCorrect,
-          partialScore,
-          maxScore,
+          userAnswer: mcma.userAnswer,
+          correctAnswer: mcma.correctAnswer,
+          isCorrect: mcma.isFullyCorrect,
+          partialScore: mcma.score,
+          maxScore: mcma.maxScore,
+          marks: mcma.marks,
           explanation: originalQ?.explanation || '',
           questionType: 'MULTIPLE_CHOICE_MULTIPLE',
         });
@@ -430,12 +452,12 @@ export default function AIPracticeReadingTest() {
           (oq) => oq.question_number === q.question_number
         )?.correct_answer ?? q.correct_answer;
 
-      const questionType = q.question_type || 
-        test.questionGroups?.find(g => 
-          g.questions.some(gq => gq.question_number === q.question_number)
-        )?.question_type;
+      const sourceGroup = test.questionGroups?.find(g =>
+        g.questions.some(gq => gq.question_number === q.question_number)
+      );
+      const questionType = q.question_type || sourceGroup?.question_type;
 
-      const isCorrect = checkAnswer(userAnswer, correctAnswer, questionType);
+      const isCorrect = checkAnswer(userAnswer, correctAnswer, questionType, null, resolveWordLimit(sourceGroup));
       
       const originalQ = test.questionGroups?.flatMap(g => g.questions).find(
         oq => oq.question_number === q.question_number
@@ -454,39 +476,10 @@ export default function AIPracticeReadingTest() {
     // Sort by question number
     questionResults.sort((a, b) => a.questionNumber - b.questionNumber);
 
-    // Calculate score: sum partial scores for MCMA, 1 for correct others
-    let score = 0;
-    let total = 0;
-    for (const r of questionResults) {
-      if (r.questionType === 'MULTIPLE_CHOICE_MULTIPLE' && r.maxScore !== undefined) {
-        score += r.partialScore || 0;
-        total += r.maxScore;
-      } else {
-        if (r.isCorrect) score += 1;
-        total += 1;
-      }
-    }
+    // Calculate score: each MCMA letter is a separate mark
+    const { score, total } = totalMarks(questionResults);
     
-    const percentage = total > 0 ? Math.round((score / total) * 100) : 0;
-    
-    const calculateBandScore = (pct: number): number => {
-      if (pct >= 93) return 9;
-      if (pct >= 85) return 8.5;
-      if (pct >= 78) return 8;
-      if (pct >= 70) return 7.5;
-      if (pct >= 63) return 7;
-      if (pct >= 55) return 6.5;
-      if (pct >= 48) return 6;
-      if (pct >= 40) return 5.5;
-      if (pct >= 33) return 5;
-      if (pct >= 25) return 4.5;
-      if (pct >= 18) return 4;
-      if (pct >= 13) return 3.5;
-      if (pct >= 8) return 3;
-      return 2.5;
-    };
-
-    const bandScore = calculateBandScore(percentage);
+    const bandScore = rawScoreToBand(score, { module: 'reading', variant: test.testVariant, totalQuestions: total });
 
     const result: PracticeResult = {
       testId: test.id,
@@ -502,6 +495,7 @@ export default function AIPracticeReadingTest() {
     // Save result to Supabase
     if (user) {
       await savePracticeResultAsync(result, user.id, 'reading');
+      await clearAttempt();
       // Track topic completion
       if (test.topic) {
         incrementCompletion(test.topic);
@@ -697,7 +691,7 @@ export default function AIPracticeReadingTest() {
   }
 
   return (
-    <HighlightNoteProvider testId={testId!}>
+    <HighlightNoteProvider testId={testId!} module="reading" source="ai_practice">
       <div className={cn("h-screen flex flex-col overflow-hidden", getThemeClasses(), "ielts-test-content")}>
         <div className="flex-1 flex flex-col overflow-hidden">
           {/* Top Header - IELTS Official Style with AI Practice badge */}
@@ -995,6 +989,23 @@ export default function AIPracticeReadingTest() {
         totalCount={submitStats.totalCount}
         contrastMode={contrastMode}
       />
+      <RestoreTestStateDialog
+        open={resumedAttempt !== null}
+        timeLeft={resumedAttempt?.snapshot.timeLeft ?? timeLeft}
+        answeredCount={submitStats.answeredCount}
+        totalQuestions={submitStats.totalCount}
+        savedAt={resumedAttempt?.savedAt}
+        fromOtherDevice={resumedAttempt?.fromOtherDevice}
+        onStartOver={handleStartOver}
+        onContinue={() => {
+          setResumedAttempt(null);
+          toast.success('Test resumed. Good luck!');
+        }}
+        onSubmit={async () => {
+          setResumedAttempt(null);
+          await handleSubmit();
+        }}
+      />
     </HighlightNoteProvider>
   );
 }
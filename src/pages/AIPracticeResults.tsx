@@ -34,6 +34,9 @@ import {
   User,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { rawScoreToBand } from '@/lib/bandConversion';
+import { canDisputeAnswer, type DisputeStatus } from '@/lib/answerDisputes';
+import { DisputeMarkButton } from '@/components/common/DisputeMarkButton';
 
 function extractOptionId(option: string): string {
   const trimmed = (option ?? '').trim();
@@ -69,6 +72,7 @@ export default function AIPracticeResults() {
   const [test, setTest] = useState<GeneratedTest | null>(null);
   const [result, setResult] = useState<PracticeResult | null>(null);
   const [expandedQuestions, setExpandedQuestions] = useState<Set<number>>(new Set());
+  const [disputeStatuses, setDisputeStatuses] = useState<Record<number, DisputeStatus>>({});
   
   // Chat state per question
   const [questionChats, setQuestionChats] = useState<Record<number, QuestionChatState>>({});
@@ -133,6 +137,15 @@ export default function AIPracticeResults() {
           .map(q => q.questionNumber)
       );
       setExpandedQuestions(incorrectSet);
+
+      const { data: disputes } = await supabase
+        .from('answer_disputes')
+        .select('question_number, status')
+        .eq('user_id', user.id)
+        .eq('source', 'ai_practice')
+        .eq('test_id', testId);
+      if (cancelled) return;
+      setDisputeStatuses(Object.fromEntries((disputes || []).map(d => [d.question_number, d.status as DisputeStatus])));
     };
 
     run();
@@ -355,6 +368,11 @@ export default function AIPracticeResults() {
 
   const percentage = Math.round((result.score / result.totalQuestions) * 100);
 
+  // Re-derive objective bands from the raw score so older results use the current tables
+  const bandScore = test.module === 'reading' || test.module === 'listening'
+    ? rawScoreToBand(result.score, { module: test.module, variant: test.testVariant, totalQuestions: result.totalQuestions })
+    : result.bandScore;
+
   return (
     <div className="min-h-screen flex flex-col bg-background overflow-y-auto">
       <Navbar />
@@ -397,8 +415,8 @@ export default function AIPracticeResults() {
 
                 {/* Band Score */}
                 <div>
-                  <Badge className={cn("text-2xl md:text-3xl font-bold px-4 py-2", getBandColor(result.bandScore))}>
-                    {result.bandScore}
+                  <Badge className={cn("text-2xl md:text-3xl font-bold px-4 py-2", getBandColor(bandScore))}>
+                    {bandScore}
                   </Badge>
                   <p className="text-sm text-muted-foreground mt-2">Est. Band</p>
                 </div>
@@ -628,6 +646,29 @@ export default function AIPracticeResults() {
                                 </div>
                               </div>
                               
+                              {/* Per-mark breakdown: each question number is a separate mark */}
+                              {qResult.marks && qResult.marks.length > 0 && (
+                                <div>
+                                  <p className="text-sm font-medium text-muted-foreground mb-2">Marks</p>
+                                  <div className="flex flex-wrap gap-2">
+                                    {qResult.marks.map((mark) => (
+                                      <Badge
+                                        key={mark.questionNumber}
+                                        variant="outline"
+                                        className={cn(
+                                          "px-3 py-1 text-sm font-medium",
+                                          mark.isCorrect
+                                            ? "bg-success/20 text-success border-success/50"
+                                            : "bg-destructive/20 text-destructive border-destructive/50"
+                                        )}
+                                      >
+                                        Q{mark.questionNumber}: {mark.userAnswer || '—'} {mark.isCorrect ? '✓' : '✗'}
+                                      </Badge>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+
                               {/* Score summary */}
                               <div className="bg-muted/30 rounded-lg p-3">
                                 <p className="text-sm">
@@ -699,6 +740,25 @@ export default function AIPracticeResults() {
                             })()
                           )}
 
+                          {(test.module === 'reading' || test.module === 'listening') &&
+                            (disputeStatuses[qResult.questionNumber] || canDisputeAnswer(qResult)) && (
+                            <div className="flex justify-end">
+                              <DisputeMarkButton
+                                module={test.module}
+                                source="ai_practice"
+                                testId={test.id}
+                                questionNumber={qResult.questionNumber}
+                                questionText={question?.question_text}
+                                userAnswer={qResult.userAnswer}
+                                correctAnswer={qResult.correctAnswer}
+                                status={disputeStatuses[qResult.questionNumber]}
+                                onSubmitted={(questionNumber) =>
+                                  setDisputeStatuses(prev => ({ ...prev, [questionNumber]: 'pending' }))
+                                }
+                              />
+                            </div>
+                          )}
+
                           <div className="bg-muted/50 rounded-lg p-4">
                             <p className="text-sm font-medium text-muted-foreground mb-1">Explanation</p>
                             <p className="text-sm">{qResult.explanation}</p>
@@ -24,6 +24,7 @@ import {
   AlertCircle
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { rawScoreToBand } from '@/lib/bandConversion';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
@@ -224,17 +225,11 @@ export default function AIPracticeTest() {
     const score = questionResults.filter(r => r.isCorrect).length;
     const totalQuestions = test.totalQuestions;
     
-    // Calculate band score (approximate)
-    const percentage = (score / totalQuestions) * 100;
-    let bandScore = 5;
-    if (percentage >= 90) bandScore = 9;
-    else if (percentage >= 80) bandScore = 8;
-    else if (percentage >= 70) bandScore = 7;
-    else if (percentage >= 60) bandScore = 6.5;
-    else if (percentage >= 50) bandScore = 6;
-    else if (percentage >= 40) bandScore = 5.5;
-    else if (percentage >= 30) bandScore = 5;
-    else bandScore = 4.5;
+    const bandScore = rawScoreToBand(score, {
+      module: test.module === 'listening' ? 'listening' : 'reading',
+      variant: test.testVariant,
+      totalQuestions
+    });
 
     const result: PracticeResult = {
       testId: test.id,
@@ -8,16 +8,20 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 import { 
   loadGeneratedTest, 
+  loadGeneratedTestAsync,
   savePracticeResult, 
   savePracticeResultAsync,
   GeneratedTest, 
   PracticeResult,
   GeneratedWritingSingleTask,
-  isWritingFullTest 
+  isWritingFullTest,
+  isLetterTask,
 } from '@/types/aiPractice';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { useTopicCompletions } from '@/hooks/useTopicCompletions';
+import { SavedTestAttempt, useTestAttempt } from '@/hooks/useTestAttempt';
+import { RestoreTestStateDialog } from '@/components/common/RestoreTestStateDialog';
 import { supabase } from '@/integrations/supabase/client';
 import { describeApiError } from '@/lib/apiErrors';
 import { AILoadingScreen } from '@/components/common/AILoadingScreen';
@@ -63,17 +67,59 @@ export default function AIPracticeWritingTest() {
 
   useEffect(() => {
     if (!testId) { navigate('/ai-practice'); return; }
-    const loadedTest = loadGeneratedTest(testId);
-    if (!loadedTest || !loadedTest.writingTask) {
-      toast({ title: 'Test Not Found', variant: 'destructive' });
-      navigate('/ai-practice');
+    const initializeTest = (loadedTest: GeneratedTest) => {
+      setTest(loadedTest);
+      setTimeLeft(loadedTest.timeMinutes * 60);
+      startTimeRef.current = Date.now();
+    };
+
+    const cachedTest = loadGeneratedTest(testId);
+    if (cachedTest?.writingTask) {
+      initializeTest(cachedTest);
       return;
     }
-    setTest(loadedTest);
-    setTimeLeft(loadedTest.timeMinutes * 60);
-    startTimeRef.current = Date.now();
+
+    // Fallback: load from Supabase (after a refresh or on another device)
+    loadGeneratedTestAsync(testId).then((loadedTest) => {
+      if (!loadedTest || !loadedTest.writingTask) {
+        toast({ title: 'Test Not Found', variant: 'destructive' });
+        navigate('/ai-practice');
+        return;
+      }
+      initializeTest(loadedTest);
+    });
   }, [testId, navigate, toast]);
 
+  // Server-side autosave so the attempt survives a crash or a device switch
+  const [resumedAttempt, setResumedAttempt] = useState<SavedTestAttempt | null>(null);
+  const { savedAttempt, resolveSavedAttempt, discardSavedAttempt, clearAttempt } = useTestAttempt({
+    module: 'writing',
+    testId,
+    source: 'ai_practice',
+    snapshot: { submissionText1, submissionText2, timeLeft },
+    enabled: testStarted && !!test && !isSubmitting,
+  });
+
+  // Restore an autosaved attempt once the test has loaded; the dialog shows after Start
+  useEffect(() => {
+    if (!savedAttempt || !test) return;
+    resolveSavedAttempt();
+
+    const { snapshot } = savedAttempt;
+    if (snapshot.submissionText1 !== undefined) setSubmissionText1(snapshot.submissionText1);
+    if (snapshot.submissionText2 !== undefined) setSubmissionText2(snapshot.submissionText2);
+    if (snapshot.timeLeft !== undefined) setTimeLeft(snapshot.timeLeft);
+    setResumedAttempt(savedAttempt);
+  }, [savedAttempt, test, resolveSavedAttempt]);
+
+  const handleStartOver = useCallback(() => {
+    setSubmissionText1('');
+    setSubmissionText2('');
+    if (test) setTimeLeft(test.timeMinutes * 60);
+    setResumedAttempt(null);
+    discardSavedAttempt();
+  }, [test, discardSavedAttempt]);
+
   useEffect(() => {
     if (isPaused || !test || !testStarted) return;
     const timer = setInterval(() => {
@@ -109,12 +155,20 @@ export default function AIPracticeWritingTest() {
           task2Instruction: isFullTest ? task2?.instruction : undefined,
           task1ImageBase64: isFullTest ? task1?.image_base64 : undefined,
           task1VisualType: isFullTest ? task1?.visual_type : undefined,
+          task1ChartData: isFullTest ? task1?.chartData : undefined,
           // Single task parameters
           taskType: isFullTest ? 'full_test' : task1?.task_type,
           instruction: isFullTest ? undefined : task1?.instruction,
           imageDescription: task1?.image_description,
           imageBase64: isFullTest ? undefined : task1?.image_base64,
           visualType: isFullTest ? undefined : task1?.visual_type,
+          chartData: isFullTest ? undefined : task1?.chartData,
+          // General Training letters
+          testVariant: test?.testVariant ?? 'academic',
+          letterType: isFullTest ? undefined : task1?.letter_type,
+          bulletPoints: isFullTest ? undefined : task1?.bullet_points,
+          task1LetterType: isFullTest ? task1?.letter_type : undefined,
+          task1BulletPoints: isFullTest ? task1?.bullet_points : undefined,
         },
       });
 
@@ -133,13 +187,16 @@ export default function AIPracticeWritingTest() {
           userAnswer: isFullTest ? `Task 1: ${submissionText1}\n\nTask 2: ${submissionText2}` : submissionText1,
           correctAnswer: 'N/A',
           isCorrect: true,
-          explanation: JSON.stringify(data?.evaluation_report || {}),
+          // The whole report, so the results page gets both tasks of a full test
+          explanation: JSON.stringify(data || {}),
         }],
+        promptVersion: data?.promptVersion,
       };
 
       savePracticeResult(result);
       if (user) {
         await savePracticeResultAsync(result, user.id, 'writing');
+        await clearAttempt();
       }
       // Track topic completion
       if (test?.topic) {
@@ -165,6 +222,7 @@ export default function AIPracticeWritingTest() {
       savePracticeResult(result);
       if (user) {
         await savePracticeResultAsync(result, user.id, 'writing');
+        await clearAttempt();
       }
       navigate(`/ai-practice/writing/results/${test!.id}`);
     }
@@ -207,7 +265,7 @@ export default function AIPracticeWritingTest() {
   if (showStartOverlay) {
     const testTitle = isFullTest 
       ? 'AI Practice: Full Writing Test (Task 1 + Task 2)'
-      : `AI Practice: ${task1?.task_type === 'task1' ? 'Task 1 (Report)' : 'Task 2 (Essay)'}`;
+      : `AI Practice: ${task1?.task_type === 'task1' ? (isLetterTask(task1) ? 'Task 1 (Letter)' : 'Task 1 (Report)') : 'Task 2 (Essay)'}`;
     
     return (
       <TestStartOverlay
@@ -263,6 +321,25 @@ export default function AIPracticeWritingTest() {
     );
   };
 
+  // GT Task 1: bullet points to cover and the salutation to begin with
+  const renderLetterPrompt = (task: GeneratedWritingSingleTask) => {
+    if (!isLetterTask(task)) return null;
+    return (
+      <div className="space-y-3" style={{ fontSize }}>
+        {task.bullet_points && task.bullet_points.length > 0 && (
+          <ul className="list-disc pl-6 space-y-1">
+            {task.bullet_points.map((point, idx) => <li key={idx}>{point}</li>)}
+          </ul>
+        )}
+        {task.salutation && (
+          <p>
+            Begin your letter as follows: <strong>{task.salutation}</strong>
+          </p>
+        )}
+      </div>
+    );
+  };
+
   // Render single task UI with IELTS-style formatting and resizable panels
   const renderSingleTask = (task: GeneratedWritingSingleTask, submission: string, setSubmission: (s: string) => void, wordCount: number) => {
     // Mobile view: stacked layout
@@ -282,7 +359,7 @@ export default function AIPracticeWritingTest() {
               </div>
               
               {/* Task 1: Show visual first (as in real IELTS). Always render a diagram container so failure shows a professional placeholder. */}
-              {task.task_type === 'task1' && (
+              {task.task_type === 'task1' && !isLetterTask(task) && (
                 <div className="flex justify-center py-4 border rounded-lg bg-muted/20">
                   {task.chartData ? (
                     <IELTSVisualRenderer
@@ -304,6 +381,7 @@ export default function AIPracticeWritingTest() {
               
               {/* Instruction with IELTS formatting */}
               {formatIELTSInstruction(task.instruction, task.task_type as 'task1' | 'task2')}
+              {renderLetterPrompt(task)}
             </CardContent>
           </Card>
 
@@ -351,7 +429,7 @@ export default function AIPracticeWritingTest() {
             </div>
             
             {/* Task 1: Show visual first (as in real IELTS). Always render a diagram container so failure shows a professional placeholder. */}
-            {task.task_type === 'task1' && (
+            {task.task_type === 'task1' && !isLetterTask(task) && (
               <div className="flex justify-center py-4 border rounded-lg bg-muted/20">
                 {task.chartData ? (
                   <IELTSVisualRenderer
@@ -373,6 +451,7 @@ export default function AIPracticeWritingTest() {
             
             {/* Instruction with IELTS formatting */}
             {formatIELTSInstruction(task.instruction, task.task_type as 'task1' | 'task2')}
+            {renderLetterPrompt(task)}
           </div>
         </ResizablePanel>
 
@@ -405,6 +484,24 @@ export default function AIPracticeWritingTest() {
 
   return (
     <div className="min-h-screen bg-background flex flex-col">
+      <RestoreTestStateDialog
+        open={resumedAttempt !== null}
+        timeLeft={resumedAttempt?.snapshot.timeLeft ?? timeLeft}
+        answeredCount={[submissionText1, submissionText2].filter(t => t.trim()).length}
+        totalQuestions={isFullTest ? 2 : 1}
+        progressLabel="Tasks started:"
+        savedAt={resumedAttempt?.savedAt}
+        fromOtherDevice={resumedAttempt?.fromOtherDevice}
+        onStartOver={handleStartOver}
+        onContinue={() => {
+          setResumedAttempt(null);
+          toast({ title: 'Test resumed. Good luck!' });
+        }}
+        onSubmit={async () => {
+          setResumedAttempt(null);
+          await handleSubmit();
+        }}
+      />
       <header className="sticky top-0 z-50 bg-background border-b border-border px-4 py-3">
         <div className="container max-w-6xl mx-auto flex items-center justify-between gap-4">
           <div className="flex items-center gap-3">
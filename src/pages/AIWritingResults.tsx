@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, type ReactNode } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
@@ -25,6 +25,13 @@ import {
   Image as ImageIcon,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { WritingErrorAnnotation } from '@/lib/writingAnnotations';
+import { AnnotatedEssay } from '@/components/writing/AnnotatedEssay';
+import { EssayMetricsSummary } from '@/components/writing/EssayMetricsSummary';
+import { readEssayMetrics, type EssayMetrics } from '@/lib/essayMetrics';
+import { Task1DataCheckPanel } from '@/components/writing/Task1DataCheckPanel';
+import { readTask1DataCheck, type Task1DataCheck } from '@/lib/task1DataCheck';
+import { ModelAnswerRewrite } from '@/components/writing/ModelAnswerRewrite';
 
 interface CriterionScore {
   band: number;
@@ -46,6 +53,9 @@ interface TaskEvaluation {
   key_strengths: string[];
   priority_improvements: string[];
   model_paragraph?: string;
+  error_annotations: WritingErrorAnnotation[];
+  text_metrics: EssayMetrics | null;
+  data_check: Task1DataCheck | null; // Figures checked against the Task 1 chart data
 }
 
 interface WritingEvaluationReport {
@@ -73,9 +83,22 @@ interface WritingResult {
   task1_image_base64?: string;
   task1_chart_data?: object; // JSON chart data for Task 1 visual
   task1_visual_type?: string;
+  single_task_type?: 'task1' | 'task2'; // Which task a single-task test was
   created_at: string;
 }
 
+// The report is saved as JSON in the result's single question; older results kept only evaluation_report
+function readStoredEvaluation(questionResults: unknown): unknown {
+  const explanation = Array.isArray(questionResults) ? questionResults[0]?.explanation : undefined;
+  if (typeof explanation !== 'string') return questionResults;
+  try {
+    const parsed = JSON.parse(explanation);
+    return parsed?.evaluation_report || parsed?.task1_evaluation ? parsed : { evaluation_report: parsed };
+  } catch {
+    return null;
+  }
+}
+
 function normalizeEvaluationReport(raw: any): WritingEvaluationReport {
   if (!raw) return { overall_band: 0 };
 
@@ -112,6 +135,9 @@ function normalizeEvaluationReport(raw: any): WritingEvaluationReport {
       key_strengths: asArray<string>(t.key_strengths),
       priority_improvements: asArray<string>(t.priority_improvements),
       model_paragraph: t.model_paragraph,
+      error_annotations: asArray<WritingErrorAnnotation>(t.error_annotations),
+      text_metrics: readEssayMetrics(t.text_metrics),
+      data_check: readTask1DataCheck(t.data_check),
     };
   };
 
@@ -164,6 +190,7 @@ export default function AIWritingResults() {
       const task1ImageBase64 = payload?.writingTask?.task1?.image_base64 || payload?.writingTask?.image_base64;
       const task1ChartData = payload?.writingTask?.task1?.chartData || payload?.writingTask?.chartData;
       const task1VisualType = payload?.writingTask?.task1?.visual_type || payload?.writingTask?.visual_type;
+      const singleTaskType = payload?.writingTask?.task1 ? undefined : payload?.writingTask?.task_type === 'task1' ? 'task1' : 'task2';
 
       // Load the result
       const { data, error } = await supabase
@@ -190,7 +217,7 @@ export default function AIWritingResults() {
       }
 
       const answers = data.answers as any;
-      const report = normalizeEvaluationReport(data.question_results);
+      const report = normalizeEvaluationReport(readStoredEvaluation(data.question_results));
 
       setResult({
         id: data.id,
@@ -202,6 +229,7 @@ export default function AIWritingResults() {
         task1_image_base64: task1ImageBase64,
         task1_chart_data: task1ChartData,
         task1_visual_type: task1VisualType,
+        single_task_type: singleTaskType,
         created_at: data.completed_at,
       });
       setLoading(false);
@@ -252,7 +280,7 @@ export default function AIWritingResults() {
     ].filter(c => c.data);
   };
 
-  const renderCriteriaCard = (criterion: { key: string; label: string; data: CriterionScore | undefined }) => {
+  const renderCriteriaCard = (criterion: { key: string; label: string; data: CriterionScore | undefined }, evidence?: ReactNode) => {
     if (!criterion.data) return null;
     const data = criterion.data;
 
@@ -336,6 +364,8 @@ export default function AIWritingResults() {
               </div>
             </div>
           )}
+
+          {evidence}
         </CardContent>
       </Card>
     );
@@ -345,6 +375,9 @@ export default function AIWritingResults() {
     if (!taskEval) return null;
     const isTask1 = taskNumber === 1;
     const criteria = getCriteria(taskEval, isTask1);
+    const responseText = taskNumber === 1 ? result.task1_text : result.task2_text;
+    const rewriteTaskType = result.single_task_type ?? (isTask1 ? 'task1' : 'task2');
+    const rewriteBand = taskBand ?? (result.overall_band || null);
 
     return (
       <div className="space-y-4">
@@ -390,8 +423,36 @@ export default function AIWritingResults() {
           </Card>
         )}
 
+        {/* Response with the examiner's error spans */}
+        {responseText && (
+          <Card className="mb-4">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <FileText className="w-4 h-4" />
+                Your Response
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AnnotatedEssay
+                text={responseText}
+                annotations={taskEval.error_annotations}
+                bands={{ GRA: taskEval.grammatical_accuracy.band, LR: taskEval.lexical_resource.band }}
+              />
+              {taskEval.text_metrics && (
+                <div className="mt-4 border-t pt-4">
+                  <p className="text-sm font-medium mb-3">Text analysis</p>
+                  <EssayMetricsSummary metrics={taskEval.text_metrics} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Criteria Breakdown */}
-        {criteria.map(c => renderCriteriaCard(c))}
+        {criteria.map(c => renderCriteriaCard(
+          c,
+          c.key === 'task_achievement' && taskEval.data_check ? <Task1DataCheckPanel check={taskEval.data_check} /> : undefined,
+        ))}
 
         {/* Overall Feedback */}
         {taskEval.overall_feedback && (
@@ -463,6 +524,30 @@ export default function AIWritingResults() {
             </CardContent>
           </Card>
         )}
+
+        {/* The student's own answer rewritten at a band they choose */}
+        {responseText && (rewriteBand === null || rewriteBand < 9) && (
+          <Card className="border-primary/30">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2 text-primary">
+                <Sparkles className="w-4 h-4" />
+                Your Answer, Rewritten
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                See your own answer at a higher band, with your ideas kept. Select a highlighted phrase to see why it was upgraded.
+              </p>
+            </CardHeader>
+            <CardContent>
+              <ModelAnswerRewrite
+                source="ai_practice_result"
+                sourceId={result.id}
+                taskType={rewriteTaskType}
+                originalText={responseText}
+                currentBand={rewriteBand}
+              />
+            </CardContent>
+          </Card>
+        )}
       </div>
     );
   };
@@ -29,6 +29,7 @@ import {
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { describeApiError } from '@/lib/apiErrors';
+import { rawScoreToBand, toTestVariant, calculateOverallBand } from '@/lib/bandConversion';
 import { AILoadingScreen } from '@/components/common/AILoadingScreen';
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
@@ -62,6 +63,26 @@ interface AnalyticsData {
   areasToImprove: string[];
 }
 
+interface SubmissionBandSource {
+  score?: number;
+  total_questions?: number;
+  overall_band?: number | null;
+  reading_tests?: { test_type?: string | null } | null;
+}
+
+/** Bands measured from the user's own submissions (not the AI estimate) */
+function measuredModuleBand(module: ModuleAnalytics['module'], submissions: SubmissionBandSource[]): number | null {
+  const bands = submissions.map(s => {
+    if (module === 'writing' || module === 'speaking') return s.overall_band;
+    return rawScoreToBand(s.score || 0, {
+      module,
+      variant: toTestVariant(s.reading_tests?.test_type),
+      totalQuestions: s.total_questions || undefined,
+    });
+  });
+  return calculateOverallBand(bands);
+}
+
 const moduleIcons = {
   reading: BookOpen,
   listening: Headphones,
@@ -226,7 +247,7 @@ export default function Analytics() {
       const [readingData, listeningData, writingData, speakingData] = await Promise.all([
         supabase
           .from('reading_test_submissions')
-          .select('*, reading_tests(title, book_name)')
+          .select('*, reading_tests(title, book_name, test_type)')
           .eq('user_id', user.id)
           .order('completed_at', { ascending: false })
           .limit(5),
@@ -280,8 +301,10 @@ export default function Analytics() {
       // Always use real resources
       newAnalytics.modules = newAnalytics.modules.map((mod: ModuleAnalytics) => ({
         ...mod,
+        bandScore: measuredModuleBand(mod.module, testData[mod.module]) ?? mod.bandScore,
         resources: realResources[mod.module] || mod.resources
       }));
+      newAnalytics.overallBand = calculateOverallBand(newAnalytics.modules.map(m => m.bandScore)) ?? newAnalytics.overallBand;
 
       localStorage.setItem(`analytics_${user.id}`, JSON.stringify(newAnalytics));
       setAnalytics(newAnalytics);
@@ -24,13 +24,23 @@ import {
   FolderPlus,
   Layers,
   Check,
-  X,
   RotateCcw,
   Brain,
   Zap,
-  Target
+  Target,
+  CalendarClock
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import {
+  scheduleReview,
+  nextIntervalDays,
+  formatInterval,
+  isDue,
+  sortByDue,
+  endOfToday,
+  DEFAULT_EASE_FACTOR,
+  type ReviewGrade,
+} from '@/lib/spacedRepetition';
 import { toast } from '@/hooks/use-toast';
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
@@ -45,6 +55,12 @@ interface Flashcard {
   status: 'learning' | 'reviewing' | 'mastered';
   review_count: number;
   correct_count: number;
+  // Spaced repetition scheduling
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string | null;
 }
 
 interface Deck {
@@ -57,6 +73,7 @@ interface Deck {
   learning_count: number;
   reviewing_count: number;
   mastered_count: number;
+  due_count: number;
 }
 
 interface DeckStats {
@@ -68,6 +85,16 @@ interface DeckStats {
 
 type PracticeMode = 'progressive' | 'static';
 
+// Synthetic deck id for the cross-deck "due today" review queue
+const DUE_QUEUE_ID = '__due_today__';
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'border-rose-500 text-rose-600 hover:bg-rose-50' },
+  { grade: 'hard', label: 'Hard', className: 'border-amber-500 text-amber-600 hover:bg-amber-50' },
+  { grade: 'good', label: 'Good', className: 'border-blue-500 text-blue-600 hover:bg-blue-50' },
+  { grade: 'easy', label: 'Easy', className: 'border-emerald-500 text-emerald-600 hover:bg-emerald-50' },
+];
+
 export default function Flashcards() {
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
@@ -124,13 +151,14 @@ export default function Flashcards() {
       const decksWithCounts = await Promise.all((data || []).map(async (deck) => {
         const { data: cards } = await supabase
           .from('flashcard_cards')
-          .select('status')
+          .select('status, due_at')
           .eq('deck_id', deck.id);
         
         const cardsList = cards || [];
         const learning_count = cardsList.filter(c => c.status === 'learning').length;
         const reviewing_count = cardsList.filter(c => c.status === 'reviewing').length;
         const mastered_count = cardsList.filter(c => c.status === 'mastered').length;
+        const due_count = cardsList.filter(c => isDue(c)).length;
         
         return { 
           ...deck, 
@@ -138,6 +166,7 @@ export default function Flashcards() {
           learning_count,
           reviewing_count,
           mastered_count,
+          due_count,
         };
       }));
 
@@ -154,18 +183,24 @@ export default function Flashcards() {
     if (!user) return;
     
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('flashcard_cards')
         .select('*')
-        .eq('deck_id', deckId)
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: true });
+        .eq('user_id', user.id);
+
+      // The due queue spans every deck: cards due before the end of today plus new cards
+      query = deckId === DUE_QUEUE_ID
+        ? query.or(`due_at.is.null,due_at.lte.${endOfToday().toISOString()}`)
+        : query.eq('deck_id', deckId);
+
+      const { data, error } = await query.order('created_at', { ascending: true });
 
       if (error) throw error;
 
       const loadedCards = (data || []).map(c => ({
         ...c,
-        status: c.status as 'learning' | 'reviewing' | 'mastered'
+        status: c.status as 'learning' | 'reviewing' | 'mastered',
+        ease_factor: Number(c.ease_factor),
       }));
       
       setCards(loadedCards);
@@ -193,25 +228,9 @@ export default function Flashcards() {
     setIsReviewingAll(includeAll);
     
     if (practiceMode === 'progressive' && !includeAll) {
-      // Progressive mode: prioritize cards user doesn't know well
-      // Cards with lower correct_count and higher review_count should appear more often
-      const learningCards = cardList.filter(c => c.status === 'learning');
-      const reviewingCards = cardList.filter(c => c.status === 'reviewing');
-      
-      // Weight cards by their difficulty (lower correct ratio = higher priority)
-      const weightedSort = (cards: Flashcard[]) => {
-        return cards.sort((a, b) => {
-          const ratioA = a.review_count > 0 ? a.correct_count / a.review_count : 0;
-          const ratioB = b.review_count > 0 ? b.correct_count / b.review_count : 0;
-          // Lower ratio (more difficult) comes first
-          return ratioA - ratioB;
-        });
-      };
-      
-      // Sort learning cards by difficulty (harder ones first)
-      const sortedLearning = weightedSort([...learningCards]);
-      // Sort reviewing cards by difficulty
-      const sortedReviewing = weightedSort([...reviewingCards]);
+      // Progressive mode: only cards the scheduler says are due (any status, so
+      // mastered words resurface), most overdue first and new cards last
+      const dueCards = sortByDue(cardList.filter(c => isDue(c)));
       
       // Add some randomization while maintaining priority
       const shuffleWithPriority = (cards: Flashcard[]) => {
@@ -225,12 +244,7 @@ export default function Flashcards() {
         return result;
       };
       
-      const combinedCards = [
-        ...shuffleWithPriority(sortedLearning),
-        ...shuffleWithPriority(sortedReviewing)
-      ];
-      
-      setPracticeCards(combinedCards);
+      setPracticeCards(shuffleWithPriority(dueCards));
     } else {
       // Static mode OR includeAll (Review All): all cards shuffled including mastered
       setPracticeCards([...cardList].sort(() => Math.random() - 0.5));
@@ -256,7 +270,7 @@ export default function Flashcards() {
 
       if (error) throw error;
 
-      setDecks([{ ...data, card_count: 0, learning_count: 0, reviewing_count: 0, mastered_count: 0 }, ...decks]);
+      setDecks([{ ...data, card_count: 0, learning_count: 0, reviewing_count: 0, mastered_count: 0, due_count: 0 }, ...decks]);
       setNewDeckName('');
       setNewDeckDescription('');
       setShowAddDeck(false);
@@ -290,6 +304,21 @@ export default function Flashcards() {
     }
   };
 
+  const selectDueQueue = () => {
+    const dueTotal = decks.reduce((sum, d) => sum + d.due_count, 0);
+    selectDeck({
+      id: DUE_QUEUE_ID,
+      name: 'Due Today',
+      description: 'Cards due for review across all decks',
+      card_count: dueTotal,
+      created_at: new Date().toISOString(),
+      learning_count: 0,
+      reviewing_count: 0,
+      mastered_count: 0,
+      due_count: dueTotal,
+    });
+  };
+
   const selectDeck = (deck: Deck) => {
     setCurrentDeck(deck);
     setCurrentCardIndex(0);
@@ -345,7 +374,8 @@ export default function Flashcards() {
 
       const newFlashcard: Flashcard = { 
         ...data, 
-        status: data.status as 'learning' | 'reviewing' | 'mastered' 
+        status: data.status as 'learning' | 'reviewing' | 'mastered',
+        ease_factor: Number(data.ease_factor),
       };
       const updatedCards = [...cards, newFlashcard];
       setCards(updatedCards);
@@ -354,7 +384,7 @@ export default function Flashcards() {
       
       // Update deck card count
       setDecks(decks.map(d => 
-        d.id === currentDeck.id ? { ...d, card_count: d.card_count + 1 } : d
+        d.id === currentDeck.id ? { ...d, card_count: d.card_count + 1, due_count: d.due_count + 1 } : d
       ));
 
       setNewCard({ word: '', meaning: '', example: '' });
@@ -398,54 +428,37 @@ export default function Flashcards() {
     }
   };
 
-  const handleCardResponse = async (knewIt: boolean) => {
+  const handleCardResponse = async (grade: ReviewGrade) => {
     // Allow response handling in progressive mode OR when reviewing all cards
     if (practiceMode !== 'progressive' || practiceCards.length === 0) return;
     
     const currentCard = practiceCards[currentCardIndex];
     if (!currentCard) return;
 
-    // Update card status based on response
-    let newStatus: 'learning' | 'reviewing' | 'mastered' = currentCard.status;
-    const newReviewCount = currentCard.review_count + 1;
-    const newCorrectCount = knewIt ? currentCard.correct_count + 1 : currentCard.correct_count;
-
-    if (knewIt) {
-      if (currentCard.status === 'learning') {
-        newStatus = 'reviewing';
-      } else if (currentCard.status === 'reviewing' && newCorrectCount >= 3) {
-        newStatus = 'mastered';
-      }
-    } else {
-      // If wrong, move back to learning
-      if (currentCard.status === 'mastered' || currentCard.status === 'reviewing') {
-        newStatus = 'learning';
-      }
-    }
+    const result = scheduleReview(currentCard, grade);
 
     try {
       const { error } = await supabase
         .from('flashcard_cards')
-        .update({
-          status: newStatus,
-          review_count: newReviewCount,
-          correct_count: newCorrectCount
-        })
+        .update(result)
         .eq('id', currentCard.id);
 
       if (error) throw error;
 
       // Update local state
-      const updatedCards = cards.map(c => 
-        c.id === currentCard.id 
-          ? { ...c, status: newStatus, review_count: newReviewCount, correct_count: newCorrectCount }
-          : c
-      );
+      const updatedCard: Flashcard = { ...currentCard, ...result };
+      const updatedCards = cards.map(c => c.id === currentCard.id ? updatedCard : c);
       setCards(updatedCards);
       updateDeckStats(updatedCards);
 
+      // "Again" cards are relearned later in the same session
+      const sessionCards = grade === 'again'
+        ? [...practiceCards, updatedCard]
+        : practiceCards;
+      if (grade === 'again') setPracticeCards(sessionCards);
+
       // Move to next card
-      if (currentCardIndex < practiceCards.length - 1) {
+      if (currentCardIndex < sessionCards.length - 1) {
         setCurrentCardIndex(currentCardIndex + 1);
         setIsFlipped(false);
       } else {
@@ -484,27 +497,29 @@ export default function Flashcards() {
     if (!confirm('Are you sure you want to reset all progress for this deck? All cards will go back to "Learning" status.')) {
       return;
     }
+
+    const resetState = {
+      status: 'learning' as const,
+      review_count: 0,
+      correct_count: 0,
+      ease_factor: DEFAULT_EASE_FACTOR,
+      interval_days: 0,
+      repetitions: 0,
+      lapses: 0,
+      due_at: null,
+    };
     
     try {
       const { error } = await supabase
         .from('flashcard_cards')
-        .update({
-          status: 'learning',
-          review_count: 0,
-          correct_count: 0
-        })
+        .update({ ...resetState, last_reviewed_at: null })
         .eq('deck_id', currentDeck.id)
         .eq('user_id', user.id);
 
       if (error) throw error;
 
       // Update local state
-      const resetCards = cards.map(c => ({
-        ...c,
-        status: 'learning' as const,
-        review_count: 0,
-        correct_count: 0
-      }));
+      const resetCards = cards.map(c => ({ ...c, ...resetState }));
       setCards(resetCards);
       updateDeckStats(resetCards);
       preparePracticeCards(resetCards);
@@ -530,6 +545,8 @@ export default function Flashcards() {
   }
 
   const currentCard = practiceCards[currentCardIndex];
+  const isDueQueue = currentDeck?.id === DUE_QUEUE_ID;
+  const nextDueCard = sortByDue(cards.filter(c => !isDue(c)))[0];
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-accent/5 flex flex-col">
@@ -539,7 +556,16 @@ export default function Flashcards() {
       {currentDeck && (
         <header className="border-b border-border/50 bg-background/80 backdrop-blur-sm">
           <div className="container mx-auto px-4 py-3 flex items-center">
-            <Button variant="ghost" onClick={() => setCurrentDeck(null)} className="gap-2" size="sm">
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setCurrentDeck(null);
+                // Refresh due counts after a review session
+                loadDecks();
+              }}
+              className="gap-2"
+              size="sm"
+            >
               <ArrowLeft size={16} />
               Back to Decks
             </Button>
@@ -556,6 +582,17 @@ export default function Flashcards() {
                 <h2 className="text-2xl font-bold">Your Decks</h2>
                 <p className="text-muted-foreground">Create and manage vocabulary flashcards</p>
               </div>
+              <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={selectDueQueue}
+                disabled={decks.every(d => d.due_count === 0)}
+              >
+                <CalendarClock size={18} />
+                Due Today
+                <Badge variant="secondary">{decks.reduce((sum, d) => sum + d.due_count, 0)}</Badge>
+              </Button>
               <Dialog open={showAddDeck} onOpenChange={setShowAddDeck}>
                 <DialogTrigger asChild>
                   <Button className="gap-2">
@@ -591,6 +628,7 @@ export default function Flashcards() {
                   </DialogFooter>
                 </DialogContent>
               </Dialog>
+              </div>
             </div>
 
             {decks.length === 0 ? (
@@ -664,7 +702,15 @@ export default function Flashcards() {
                         )}
                         
                         <div className="flex items-center justify-between pt-1">
-                          <Badge variant="secondary">{deck.card_count} cards</Badge>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="secondary">{deck.card_count} cards</Badge>
+                            {deck.due_count > 0 && (
+                              <Badge variant="outline" className="gap-1 border-primary/40 text-primary">
+                                <CalendarClock size={12} />
+                                {deck.due_count} due
+                              </Badge>
+                            )}
+                          </div>
                           <span className="text-xs text-muted-foreground">
                             {new Date(deck.created_at).toLocaleDateString()}
                           </span>
@@ -685,12 +731,15 @@ export default function Flashcards() {
                 <p className="text-muted-foreground">{cards.length} cards</p>
               </div>
               <div className="flex gap-2">
-                <Button variant="outline" onClick={resetDeckProgress} disabled={cards.length === 0} title="Reset deck progress">
-                  <RotateCcw size={18} />
-                </Button>
+                {!isDueQueue && (
+                  <Button variant="outline" onClick={resetDeckProgress} disabled={cards.length === 0} title="Reset deck progress">
+                    <RotateCcw size={18} />
+                  </Button>
+                )}
                 <Button variant="outline" onClick={shuffleCards} disabled={cards.length < 2}>
                   <Shuffle size={18} />
                 </Button>
+                {!isDueQueue && (
                 <Dialog open={showAddCard} onOpenChange={setShowAddCard}>
                   <DialogTrigger asChild>
                     <Button className="gap-2">
@@ -752,6 +801,7 @@ export default function Flashcards() {
                     </DialogFooter>
                   </DialogContent>
                 </Dialog>
+                )}
               </div>
             </div>
 
@@ -853,9 +903,12 @@ export default function Flashcards() {
                     <Card className="text-center py-12 max-w-md mx-auto">
                       <CardContent>
                         <Check className="w-16 h-16 mx-auto text-emerald-500 mb-4" />
-                        <h3 className="text-xl font-bold mb-2">All Mastered!</h3>
+                        <h3 className="text-xl font-bold mb-2">Nothing Due!</h3>
                         <p className="text-muted-foreground mb-4">
-                          You've mastered all cards in this deck. Keep it up!
+                          You're up to date with this deck.
+                          {nextDueCard?.due_at && (
+                            <> Next review on {new Date(nextDueCard.due_at).toLocaleDateString()}.</>
+                          )}
                         </p>
                         <Button onClick={() => restartSession(true)} variant="outline" className="gap-2">
                           <RotateCcw size={18} />
@@ -924,24 +977,22 @@ export default function Flashcards() {
 
                       {/* Navigation / Response Buttons */}
                       {practiceMode === 'progressive' ? (
-                        <div className="flex items-center justify-center gap-4 mt-6">
-                          <Button 
-                            variant="outline"
-                            size="lg"
-                            onClick={() => handleCardResponse(false)}
-                            className="gap-2 border-rose-500 text-rose-600 hover:bg-rose-50"
-                          >
-                            <X size={20} />
-                            I didn't know
-                          </Button>
-                          <Button 
-                            size="lg"
-                            onClick={() => handleCardResponse(true)}
-                            className="gap-2 bg-emerald-600 hover:bg-emerald-700"
-                          >
-                            <Check size={20} />
-                            I knew this
-                          </Button>
+                        <div className="grid grid-cols-4 gap-2 mt-6">
+                          {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                            <Button
+                              key={grade}
+                              variant="outline"
+                              onClick={() => handleCardResponse(grade)}
+                              className={cn("flex-col h-auto py-2 gap-0.5", className)}
+                            >
+                              <span className="font-semibold">{label}</span>
+                              {currentCard && (
+                                <span className="text-[10px] opacity-75">
+                                  {formatInterval(nextIntervalDays(currentCard, grade))}
+                                </span>
+                              )}
+                            </Button>
+                          ))}
                         </div>
                       ) : (
                         <div className="flex items-center justify-between mt-6">
@@ -997,6 +1048,11 @@ export default function Flashcards() {
                                 >
                                   {card.status}
                                 </Badge>
+                                {card.due_at && (
+                                  <span className="text-[10px] text-muted-foreground">
+                                    {isDue(card) ? 'Due today' : `Due ${new Date(card.due_at).toLocaleDateString()}`}
+                                  </span>
+                                )}
                               </div>
                               <p className="text-sm text-muted-foreground">{card.meaning}</p>
                               {card.example && (
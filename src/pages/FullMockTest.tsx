@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useAccessControl } from '@/hooks/useAccessControl';
+import { createMockTestSession } from '@/hooks/useMockTestSession';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -15,9 +18,18 @@ import {
   PenLine, 
   Mic,
   Play,
-  Brain
+  Brain,
+  Timer
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import {
+  rawScoreToBand,
+  toTestVariant,
+  calculateOverallBand,
+  combineWritingTaskBands,
+} from '@/lib/bandConversion';
+import { getSessionPath, orderSections, totalMinutes } from '@/lib/mockTestSession';
 
 interface CambridgeBook {
   name: string;
@@ -29,16 +41,102 @@ interface CambridgeBook {
   };
 }
 
+interface LatestResults {
+  // Raw scores - converted with the test's own variant table when rendering
+  reading: Record<string, { score: number; total: number }>;
+  listening: Record<string, { score: number; total: number }>;
+  // Bands keyed by writing / speaking test id
+  writing: Record<string, number>;
+  speaking: Record<string, number>;
+}
+
+const EMPTY_RESULTS: LatestResults = { reading: {}, listening: {}, writing: {}, speaking: {} };
+
 export default function FullMockTest() {
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const { allows } = useAccessControl();
   const [books, setBooks] = useState<Record<string, CambridgeBook>>({});
   const [selectedBook, setSelectedBook] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [latestResults, setLatestResults] = useState<LatestResults>(EMPTY_RESULTS);
+  // In-progress mock session ids keyed by `${book_name}#${test_number}`
+  const [activeSessions, setActiveSessions] = useState<Record<string, string>>({});
+  const [creatingSession, setCreatingSession] = useState<number | null>(null);
 
   useEffect(() => {
     fetchAllTests();
   }, []);
 
+  useEffect(() => {
+    if (user) {
+      fetchLatestResults(user.id);
+      fetchActiveSessions(user.id);
+    } else {
+      setLatestResults(EMPTY_RESULTS);
+      setActiveSessions({});
+    }
+  }, [user]);
+
+  const fetchActiveSessions = async (userId: string) => {
+    const { data, error } = await supabase
+      .from('mock_test_sessions')
+      .select('id, book_name, test_number')
+      .eq('user_id', userId)
+      .eq('status', 'in_progress')
+      .order('created_at', { ascending: false });
+    if (error) {
+      console.error('Error fetching mock test sessions:', error);
+      return;
+    }
+    const sessions: Record<string, string> = {};
+    data?.forEach(s => {
+      sessions[`${s.book_name}#${s.test_number}`] ??= s.id;
+    });
+    setActiveSessions(sessions);
+  };
+
+  const fetchLatestResults = async (userId: string) => {
+    try {
+      const [readingRes, listeningRes, writingRes, speakingRes] = await Promise.all([
+        supabase.from('reading_test_submissions').select('test_id, score, total_questions').eq('user_id', userId).order('completed_at', { ascending: false }),
+        supabase.from('listening_test_submissions').select('test_id, score, total_questions').eq('user_id', userId).order('completed_at', { ascending: false }),
+        supabase.from('writing_submissions').select('overall_band, writing_tasks(task_type, writing_test_id)').eq('user_id', userId).order('submitted_at', { ascending: false }),
+        supabase.from('speaking_submissions').select('test_id, overall_band').eq('user_id', userId).order('submitted_at', { ascending: false }),
+      ]);
+
+      const results: LatestResults = { reading: {}, listening: {}, writing: {}, speaking: {} };
+
+      // Rows are newest first, so the first row per test wins
+      readingRes.data?.forEach(s => {
+        results.reading[s.test_id] ??= { score: s.score, total: s.total_questions };
+      });
+      listeningRes.data?.forEach(s => {
+        results.listening[s.test_id] ??= { score: s.score, total: s.total_questions };
+      });
+      speakingRes.data?.forEach(s => {
+        if (s.overall_band != null) results.speaking[s.test_id] ??= s.overall_band;
+      });
+
+      const writingTasks: Record<string, { task1?: number; task2?: number }> = {};
+      writingRes.data?.forEach(s => {
+        const testId = s.writing_tasks?.writing_test_id;
+        if (!testId || s.overall_band == null) return;
+        const tasks = (writingTasks[testId] ??= {});
+        if (s.writing_tasks?.task_type === 'task1') tasks.task1 ??= s.overall_band;
+        else tasks.task2 ??= s.overall_band;
+      });
+      for (const [testId, tasks] of Object.entries(writingTasks)) {
+        const band = combineWritingTaskBands(tasks.task1, tasks.task2);
+        if (band !== null) results.writing[testId] = band;
+      }
+
+      setLatestResults(results);
+    } catch (error) {
+      console.error('Error fetching latest results:', error);
+    }
+  };
+
   const fetchAllTests = async () => {
     try {
       // Fetch all test types
@@ -132,6 +230,47 @@ export default function FullMockTest() {
     }
   };
 
+  const startMockSession = async (
+    testNumber: number,
+    tests: Partial<Record<'reading' | 'listening' | 'writing' | 'speaking', { id: string; test_type?: string | null }>>
+  ) => {
+    if (!user) {
+      toast.error('Please log in to take a full mock test');
+      navigate('/auth');
+      return;
+    }
+    const showPlanLimit = (message: string) => {
+      toast.error(message, { action: { label: 'View plans', onClick: () => navigate('/settings') } });
+    };
+    if (!allows('full_mocks')) {
+      showPlanLimit("You've used all the full mock tests included in your plan this month.");
+      return;
+    }
+    setCreatingSession(testNumber);
+    try {
+      const sessionId = await createMockTestSession(user.id, {
+        book_name: selectedBook,
+        test_number: testNumber,
+        test_variant: toTestVariant(tests.reading?.test_type),
+        listening_test_id: tests.listening?.id ?? null,
+        reading_test_id: tests.reading?.id ?? null,
+        writing_test_id: tests.writing?.id ?? null,
+        speaking_test_id: tests.speaking?.id ?? null,
+      });
+      navigate(getSessionPath(sessionId));
+    } catch (error) {
+      console.error('Error creating mock test session:', error);
+      // Raised by the session insert trigger when the allowance ran out meanwhile
+      if ((error as { hint?: string })?.hint === 'ENTITLEMENT_EXCEEDED') {
+        showPlanLimit((error as { message: string }).message);
+        return;
+      }
+      toast.error('Failed to start mock test. Please try again.');
+    } finally {
+      setCreatingSession(null);
+    }
+  };
+
   // Sort books by Cambridge number
   const sortedBookNames = Object.keys(books).sort((a, b) => {
     const numA = parseInt(a.match(/\d+/)?.[0] || '0');
@@ -285,6 +424,33 @@ export default function FullMockTest() {
                 const writingTest = selectedBookData?.tests.writing[0]; // Use first writing test
                 const speakingTest = selectedBookData?.tests.speaking[0]; // Use first speaking test
 
+                // Latest band per module, and the overall band once all four are taken
+                const readingResult = readingTest ? latestResults.reading[readingTest.id] : undefined;
+                const listeningResult = listeningTest ? latestResults.listening[listeningTest.id] : undefined;
+                const bands: Record<string, number | null> = {
+                  reading: readingResult
+                    ? rawScoreToBand(readingResult.score, {
+                        module: 'reading',
+                        variant: toTestVariant(readingTest?.test_type),
+                        totalQuestions: readingResult.total,
+                      })
+                    : null,
+                  listening: listeningResult
+                    ? rawScoreToBand(listeningResult.score, { module: 'listening', totalQuestions: listeningResult.total })
+                    : null,
+                  writing: writingTest ? latestResults.writing[writingTest.id] ?? null : null,
+                  speaking: speakingTest ? latestResults.speaking[speakingTest.id] ?? null : null,
+                };
+                const moduleBands = Object.values(bands);
+                const overallBand = moduleBands.every(b => b !== null) ? calculateOverallBand(moduleBands) : null;
+                const sessionSections = orderSections({
+                  listening: listeningTest?.id,
+                  reading: readingTest?.id,
+                  writing: writingTest?.id,
+                  speaking: speakingTest?.id,
+                });
+                const activeSessionId = activeSessions[`${selectedBook}#${testNumber}`];
+
                 return (
                   <Card key={testNumber} className="overflow-hidden border border-border/50 hover:border-primary/50 transition-all duration-300">
                     <CardHeader className="bg-gradient-to-r from-primary/10 to-accent/10">
@@ -293,6 +459,9 @@ export default function FullMockTest() {
                           {testNumber}
                         </div>
                         Test {testNumber}
+                        {overallBand !== null && (
+                          <Badge className="ml-auto">Overall Band {overallBand}</Badge>
+                        )}
                       </CardTitle>
                     </CardHeader>
                     <CardContent className="p-6">
@@ -315,10 +484,13 @@ export default function FullMockTest() {
                                 </p>
                               </div>
                             </div>
-                            <Button size="sm" variant="outline" className="gap-1">
-                              <Play className="w-4 h-4" />
-                              Start
-                            </Button>
+                            <div className="flex items-center gap-2">
+                              {bands.reading !== null && <Badge variant="secondary">Band {bands.reading}</Badge>}
+                              <Button size="sm" variant="outline" className="gap-1">
+                                <Play className="w-4 h-4" />
+                                Start
+                              </Button>
+                            </div>
                           </div>
                         )}
 
@@ -340,10 +512,13 @@ export default function FullMockTest() {
                                 </p>
                               </div>
                             </div>
-                            <Button size="sm" variant="outline" className="gap-1">
-                              <Play className="w-4 h-4" />
-                              Start
-                            </Button>
+                            <div className="flex items-center gap-2">
+                              {bands.listening !== null && <Badge variant="secondary">Band {bands.listening}</Badge>}
+                              <Button size="sm" variant="outline" className="gap-1">
+                                <Play className="w-4 h-4" />
+                                Start
+                              </Button>
+                            </div>
                           </div>
                         )}
 
@@ -365,10 +540,13 @@ export default function FullMockTest() {
                                 </p>
                               </div>
                             </div>
-                            <Button size="sm" variant="outline" className="gap-1">
-                              <Play className="w-4 h-4" />
-                              Start
-                            </Button>
+                            <div className="flex items-center gap-2">
+                              {bands.writing !== null && <Badge variant="secondary">Band {bands.writing}</Badge>}
+                              <Button size="sm" variant="outline" className="gap-1">
+                                <Play className="w-4 h-4" />
+                                Start
+                              </Button>
+                            </div>
                           </div>
                         )}
 
@@ -390,13 +568,45 @@ export default function FullMockTest() {
                                 </p>
                               </div>
                             </div>
-                            <Button size="sm" variant="outline" className="gap-1">
-                              <Play className="w-4 h-4" />
-                              Start
-                            </Button>
+                            <div className="flex items-center gap-2">
+                              {bands.speaking !== null && <Badge variant="secondary">Band {bands.speaking}</Badge>}
+                              <Button size="sm" variant="outline" className="gap-1">
+                                <Play className="w-4 h-4" />
+                                Start
+                              </Button>
+                            </div>
                           </div>
                         )}
                       </div>
+
+                      {sessionSections.length > 0 && (
+                        <div className="mt-4 pt-4 border-t border-border/50 flex items-center justify-between gap-3">
+                          <p className="text-sm text-muted-foreground">
+                            <Timer className="w-3 h-3 inline mr-1" />
+                            Timed session • about {totalMinutes(sessionSections)} mins
+                          </p>
+                          {activeSessionId ? (
+                            <Button className="gap-1" onClick={() => navigate(getSessionPath(activeSessionId))}>
+                              <Play className="w-4 h-4" />
+                              Resume Mock Test
+                            </Button>
+                          ) : (
+                            <Button
+                              className="gap-1"
+                              disabled={creatingSession !== null}
+                              onClick={() => startMockSession(testNumber, {
+                                reading: readingTest,
+                                listening: listeningTest,
+                                writing: writingTest,
+                                speaking: speakingTest,
+                              })}
+                            >
+                              <Play className="w-4 h-4" />
+                              {creatingSession === testNumber ? 'Starting...' : 'Start Full Mock Test'}
+                            </Button>
+                          )}
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 );
@@ -24,9 +24,16 @@ import { RestoreTestStateDialog } from '@/components/common/RestoreTestStateDial
 import { PullToRefreshIndicator } from '@/components/common/PullToRefreshIndicator';
 import { Badge } from '@/components/ui/badge';
 import { useFullscreenTest } from '@/hooks/useFullscreenTest';
+import { SavedTestAttempt, useTestAttempt } from '@/hooks/useTestAttempt';
 import { useSwipeGesture } from '@/hooks/useSwipeGesture';
 import { usePullToRefresh } from '@/hooks/usePullToRefresh';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { MOCK_SESSION_PARAM, getSessionPath } from '@/lib/mockTestSession';
+import { enqueueSubmission, shouldQueueOffline } from '@/lib/offlineQueue';
+import { ScoreTestRequest, ScoredTestResult, submitTestForScoring } from '@/lib/testSubmission';
+import { normalizeListeningQuestionType } from '@/lib/testScoring';
+import { precacheTestAssets } from '@/lib/serviceWorker';
+import { recordMockSectionSubmission } from '@/hooks/useMockTestSession';
 
 
 interface Question {
@@ -55,6 +62,9 @@ interface QuestionGroup {
   num_sub_questions?: number;
   questions: Question[];
   start_timestamp_seconds?: number | null;
+  max_words?: number | null;
+  max_numbers?: number | null;
+  answer_matching?: unknown;
 }
 
 interface Test {
@@ -69,6 +79,7 @@ interface Test {
   audio_url_part2?: string | null;
   audio_url_part3?: string | null;
   audio_url_part4?: string | null;
+  answer_matching?: unknown;
 }
 
 // Define question ranges for each part of the listening test
@@ -269,6 +280,42 @@ export default function ListeningTest() {
     return { initialStartTime: 0, initialPart: undefined };
   }, [questionGroups, filterType, filterPart]);
 
+  // Server-side autosave so the attempt survives a crash or a device switch
+  const [resumedAttempt, setResumedAttempt] = useState<SavedTestAttempt | null>(null);
+  const { savedAttempt, resolveSavedAttempt, discardSavedAttempt, clearAttempt } = useTestAttempt({
+    module: 'listening',
+    testId,
+    snapshot: { answers, currentQuestion, timeLeft },
+    enabled: testStarted && !loading,
+  });
+
+  // Offer to resume an autosaved attempt once the test has loaded
+  useEffect(() => {
+    if (!savedAttempt || loading) return;
+    resolveSavedAttempt();
+    // The login-redirect restore takes priority
+    if (showRestoreDialog) return;
+
+    const { snapshot } = savedAttempt;
+    if (snapshot.answers) setAnswers(snapshot.answers);
+    if (snapshot.currentQuestion) setCurrentQuestion(snapshot.currentQuestion);
+    if (snapshot.timeLeft !== undefined) {
+      setTimeLeft(snapshot.timeLeft);
+      setRestoredTimeLeft(snapshot.timeLeft);
+    }
+    setResumedAttempt(savedAttempt);
+    setShowRestoreDialog(true);
+  }, [savedAttempt, loading, showRestoreDialog, resolveSavedAttempt]);
+
+  const handleStartOver = useCallback(() => {
+    setAnswers({});
+    setCurrentQuestion(1);
+    if (test) setTimeLeft(test.time_limit * 60);
+    setResumedAttempt(null);
+    setShowRestoreDialog(false);
+    discardSavedAttempt();
+  }, [test, discardSavedAttempt]);
+
   // Restore pending submission state after login
   useEffect(() => {
     if (!testId) return;
@@ -367,24 +414,6 @@ export default function ListeningTest() {
     try {
       if (!testId) return;
 
-      const normalizeQuestionType = (rawType: string): string => {
-        const t = (rawType || '').trim();
-        if (!t) return t;
-        const upper = t.toUpperCase();
-
-        // Historical / import compatibility
-        if (upper === 'MULTIPLE_CHOICE') return 'MULTIPLE_CHOICE_SINGLE';
-        if (upper === 'MULTIPLE_CHOICE_SINGLE') return 'MULTIPLE_CHOICE_SINGLE';
-
-        // Some imports may store short/slug forms
-        if (upper === 'DRAG_AND_DROP') return 'DRAG_AND_DROP_OPTIONS';
-
-        // British spelling / legacy naming
-        if (upper === 'MAP_LABELLING') return 'MAP_LABELING';
-
-        return upper;
-      };
-
       const { data: testData, error: testError } = await supabase
         .from('listening_tests')
         .select('*')
@@ -393,19 +422,37 @@ export default function ListeningTest() {
 
       if (testError) throw testError;
       setTest(testData);
+      // Keep the audio available if the connection drops mid-test
+      precacheTestAssets([
+        testData.audio_url,
+        testData.audio_url_part1,
+        testData.audio_url_part2,
+        testData.audio_url_part3,
+        testData.audio_url_part4,
+      ]);
       setTimeLeft(testData.time_limit * 60);
       setCustomTime(testData.time_limit);
 
+      // The answer key stays on the server - submissions are marked by score-test-submission
       const { data: groupsData, error: groupsError } = await supabase
         .from('listening_question_groups')
-        .select('*, listening_questions(*)')
+        .select('*, listening_questions(id, question_number, question_text, group_id, is_given, heading, table_data, options, option_format)')
         .eq('test_id', testId)
         .order('start_question');
 
       if (groupsError) throw groupsError;
 
+      // Worked examples are printed on the paper, so their answers are shown
+      const givenIds = (groupsData || []).flatMap(g => g.listening_questions.filter(q => q.is_given).map(q => q.id));
+      const givenAnswers: Record<string, string> = {};
+      if (givenIds.length > 0) {
+        const { data: givenData } = await supabase
+          .rpc('get_listening_example_answers', { p_question_ids: givenIds });
+        givenData?.forEach(q => (givenAnswers[q.id] = q.correct_answer));
+      }
+
       const fetchedGroups: QuestionGroup[] = (groupsData || []).map((g) => {
-        const normalizedType = normalizeQuestionType(g.question_type);
+        const normalizedType = normalizeListeningQuestionType(g.question_type);
 
         let groupOptions: any = g.options;
         if (
@@ -431,7 +478,7 @@ export default function ListeningTest() {
               question_number: q.question_number,
               question_type: normalizedType,
               question_text: q.question_text,
-              correct_answer: q.correct_answer,
+              correct_answer: givenAnswers[q.id] ?? '',
               instruction: g.instruction,
               group_id: q.group_id,
               is_given: q.is_given,
@@ -486,100 +533,74 @@ export default function ListeningTest() {
       return;
     }
 
-    const questionResults = questions.map(q => {
-      const userAnswer = answers[q.question_number]?.trim() || '';
-      const dbCorrectAnswer = q.correct_answer || '';
-      
-      let isCorrect = false;
-      if (dbCorrectAnswer) {
-        if (q.question_type === 'MULTIPLE_CHOICE_MULTIPLE') {
-          const correctOptions = new Set(dbCorrectAnswer.split(',').map(opt => opt.trim().toLowerCase()).filter(Boolean));
-          const userSelectedOptions = new Set(userAnswer.split(',').map(opt => opt.trim().toLowerCase()).filter(Boolean));
-          isCorrect = [...correctOptions].every(opt => userSelectedOptions.has(opt)) && 
-                      [...userSelectedOptions].every(opt => correctOptions.has(opt));
-        } else {
-          const normalizedUserAnswer = userAnswer.toLowerCase().trim();
-          const acceptableCorrectAnswers = dbCorrectAnswer.split('/').map(a => a.trim().toLowerCase());
-          isCorrect = acceptableCorrectAnswers.some(opt => opt === normalizedUserAnswer);
-        }
-      }
-      
-      return {
-        questionNumber: q.question_number,
-        questionText: q.question_text,
-        userAnswer,
-        correctAnswer: dbCorrectAnswer,
-        isCorrect
-      };
-    });
-
-    const score = questionResults.filter(r => r.isCorrect).length;
-    const total = questionResults.length;
-    const percentage = total > 0 ? Math.round((score / total) * 100) : 0;
-    
-    const calculateBandScore = (pct: number): number => {
-      if (pct >= 93) return 9;
-      if (pct >= 85) return 8.5;
-      if (pct >= 78) return 8;
-      if (pct >= 70) return 7.5;
-      if (pct >= 63) return 7;
-      if (pct >= 55) return 6.5;
-      if (pct >= 48) return 6;
-      if (pct >= 40) return 5.5;
-      if (pct >= 33) return 5;
-      if (pct >= 25) return 4.5;
-      if (pct >= 18) return 4;
-      if (pct >= 13) return 3.5;
-      if (pct >= 8) return 3;
-      return 2.5;
-    };
-
-    const bandScore = calculateBandScore(percentage);
-    
-    let submissionId = crypto.randomUUID() as `${string}-${string}-${string}-${string}-${string}`;
-    
     if (!testId) {
       console.error('No test ID available');
       return;
     }
-    
-    const { data: submission, error } = await supabase
-      .from('listening_test_submissions')
-      .insert([{
-        user_id: user.id,
-        test_id: testId,
-        answers: answers,
-        score,
-        total_questions: total,
-        band_score: bandScore
-      }])
-      .select()
-      .single();
-    
-    if (!error && submission) {
-      submissionId = submission.id as `${string}-${string}-${string}-${string}-${string}`;
-    } else {
-      console.error('Error saving submission:', error);
+
+    const mockSessionId = searchParams.get(MOCK_SESSION_PARAM);
+    // Client-generated id so a retried or queued offline submission is only saved once
+    const request: ScoreTestRequest = {
+      module: 'listening',
+      testId,
+      submissionId: crypto.randomUUID(),
+      answers,
+    };
+
+    let result: ScoredTestResult;
+    try {
+      result = await submitTestForScoring(request);
+    } catch (error) {
+      if (shouldQueueOffline(error)) {
+        try {
+          await enqueueSubmission({ kind: 'listening', userId: user.id, testId, mockSessionId, request });
+        } catch (queueError) {
+          console.error('Error queueing offline submission:', queueError);
+          toast.error("You're offline and your answers could not be saved on this device. Stay on this page and submit again once you're back online.");
+          return;
+        }
+        await clearAttempt();
+        localStorage.removeItem('pendingTestSubmission');
+        toast.info("You're offline. Your answers are saved and will be marked when you're back online.");
+        navigate(mockSessionId ? getSessionPath(mockSessionId) : '/listening/cambridge-ielts-a');
+      } else {
+        console.error('Error submitting test:', error);
+        toast.error('Failed to submit your answers. Please try again.');
+      }
+      return;
     }
+
+    await clearAttempt();
     
     localStorage.removeItem('pendingTestSubmission');
     
     const resultData = {
-      id: submissionId,
-      score,
-      total,
-      percentage,
-      bandScore,
+      id: result.submissionId,
+      score: result.score,
+      total: result.total,
+      percentage: result.percentage,
+      bandScore: result.bandScore,
       testTitle: test?.title || 'Listening Test',
       bookName: test?.book_name || '',
       testNumber: test?.test_number || 1,
-      completedAt: new Date().toISOString(),
-      questionResults
+      completedAt: result.completedAt,
+      questionResults: result.questionResults
     };
     
-    sessionStorage.setItem(`test_result_${submissionId}`, JSON.stringify(resultData));
+    sessionStorage.setItem(`test_result_${result.submissionId}`, JSON.stringify(resultData));
     
-    navigate(`/results/${submissionId}?type=listening&testId=${testId}`);
+    // Inside a full mock test, go back to the session instead of the results
+    if (mockSessionId) {
+      try {
+        await recordMockSectionSubmission(mockSessionId, 'listening', { submissionIds: [result.submissionId], band: result.bandScore });
+      } catch (err) {
+        console.error('Error recording mock test section:', err);
+      }
+      navigate(getSessionPath(mockSessionId));
+      return;
+    }
+
+    navigate(`/results/${result.submissionId}?type=listening&testId=${testId}`);
   };
 
 
@@ -688,7 +709,7 @@ export default function ListeningTest() {
   // Allow tests without audio for practice mode
 
   return (
-    <HighlightNoteProvider testId={testId!}>
+    <HighlightNoteProvider testId={testId!} module="listening">
       <div className={cn("h-screen flex flex-col overflow-hidden", getThemeClasses(), "ielts-test-content")}>
         {/* Fixed Container for Header and Content */}
         <div className="flex-1 flex flex-col overflow-hidden">
@@ -980,6 +1001,9 @@ export default function ListeningTest() {
         timeLeft={restoredTimeLeft ?? 0}
         answeredCount={submitStats.answeredCount}
         totalQuestions={submitStats.totalCount}
+        savedAt={resumedAttempt?.savedAt}
+        fromOtherDevice={resumedAttempt?.fromOtherDevice}
+        onStartOver={resumedAttempt ? handleStartOver : undefined}
         onContinue={() => {
           localStorage.removeItem('pendingTestSubmission');
           setShowRestoreDialog(false);
@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import {
+  BookText,
+  CheckCircle2,
+  ChevronRight,
+  Clock,
+  Coffee,
+  Headphones,
+  Loader2,
+  Mic,
+  PenLine,
+  Play,
+  RefreshCw,
+  Trophy,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { getSectionTestId, useMockTestSession } from '@/hooks/useMockTestSession';
+import {
+  MockSection,
+  breakRemainingSeconds,
+  getNextSection,
+  getSectionSpec,
+  getSectionStatus,
+  getSectionTestPath,
+  totalMinutes,
+} from '@/lib/mockTestSession';
+
+const SECTION_ICONS: Record<MockSection, typeof BookText> = {
+  listening: Headphones,
+  reading: BookText,
+  writing: PenLine,
+  speaking: Mic,
+};
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export default function MockTestSession() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const { session, state, report, loading, start, abandon, refresh } = useMockTestSession(sessionId);
+  const [breakSeconds, setBreakSeconds] = useState(0);
+  const [starting, setStarting] = useState(false);
+
+  // Tick the break countdown
+  useEffect(() => {
+    if (!state) return;
+    setBreakSeconds(breakRemainingSeconds(state));
+    if (!state.break_until) return;
+    const interval = setInterval(() => setBreakSeconds(breakRemainingSeconds(state)), 1000);
+    return () => clearInterval(interval);
+  }, [state]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading mock test...</div>
+      </div>
+    );
+  }
+
+  if (!session || !state || !report) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">Mock test session not found.</p>
+        <Button variant="outline" onClick={() => navigate('/full-mock-test')}>Back to Full Mock Tests</Button>
+      </div>
+    );
+  }
+
+  const nextSection = session.status === 'in_progress' ? getNextSection(state) : null;
+  const resuming = nextSection !== null && getSectionStatus(state, nextSection) === 'in_progress';
+
+  const handleStart = async (section: MockSection) => {
+    const testId = getSectionTestId(session, section);
+    if (!testId) return;
+    setStarting(true);
+    try {
+      await start(section);
+      navigate(getSectionTestPath(section, testId, session.id));
+    } catch (error) {
+      console.error('Error starting mock test section:', error);
+      toast.error(`Failed to start ${getSectionSpec(section).label}. Please try again.`);
+      setStarting(false);
+    }
+  };
+
+  const handleAbandon = async () => {
+    try {
+      await abandon();
+      toast.success('Mock test ended');
+    } catch (error) {
+      console.error('Error ending mock test session:', error);
+      toast.error('Failed to end mock test. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-accent/5 flex flex-col">
+      <Navbar />
+
+      <main className="flex-1 container mx-auto px-4 py-8 max-w-3xl">
+        <Button variant="ghost" onClick={() => navigate('/full-mock-test')} className="mb-6 gap-2">
+          <ChevronRight className="w-4 h-4 rotate-180" />
+          Back to Full Mock Tests
+        </Button>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">
+            {session.book_name ?? 'Full Mock Test'}
+            {session.test_number != null && ` – Test ${session.test_number}`}
+          </h1>
+          <p className="text-muted-foreground">
+            <Clock className="w-4 h-4 inline mr-1" />
+            {totalMinutes(state.sections)} mins of exam time
+            {session.test_variant === 'general' && ' • General Training'}
+          </p>
+        </div>
+
+        {/* Break between papers */}
+        {nextSection && breakSeconds > 0 && (
+          <Card className="mb-6 border-primary/30 bg-primary/5">
+            <CardContent className="p-6 flex items-center gap-4">
+              <Coffee className="w-8 h-8 text-primary" />
+              <div className="flex-1">
+                <p className="font-semibold">Break before {getSectionSpec(nextSection).label}</p>
+                <p className="text-sm text-muted-foreground">You can start early if you are ready.</p>
+              </div>
+              <span className="text-3xl font-mono font-bold text-primary">{formatCountdown(breakSeconds)}</span>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Section stepper */}
+        <Card className="mb-6">
+          <CardContent className="p-6 space-y-3">
+            {state.sections.map((section, index) => {
+              const spec = getSectionSpec(section);
+              const status = getSectionStatus(state, section);
+              const band = report.bands[section] ?? null;
+              const Icon = SECTION_ICONS[section];
+              const isNext = section === nextSection;
+
+              return (
+                <div
+                  key={section}
+                  className={cn(
+                    'flex items-center justify-between p-3 rounded-lg border',
+                    isNext ? 'border-primary/50 bg-primary/5' : 'border-border/50'
+                  )}
+                >
+                  <div className="flex items-center gap-3">
+                    <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center text-sm font-bold">
+                      {status === 'submitted' ? <CheckCircle2 className="w-5 h-5 text-success" /> : index + 1}
+                    </div>
+                    <Icon className="w-5 h-5 text-muted-foreground" />
+                    <div>
+                      <p className="font-medium">{spec.label}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {spec.minutes} mins
+                        {spec.breakAfterMinutes > 0 && index < state.sections.length - 1 && ` • ${spec.breakAfterMinutes} min break after`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {band !== null && <Badge variant="secondary">Band {band}</Badge>}
+                    {status === 'submitted' && band === null && (
+                      <Badge variant="outline">Awaiting evaluation</Badge>
+                    )}
+                    {isNext && (
+                      <Button size="sm" className="gap-1" disabled={starting} onClick={() => handleStart(section)}>
+                        {starting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                        {resuming ? 'Resume' : 'Start'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        {/* Combined report */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="w-5 h-5 text-primary" />
+              Mock Test Report
+              {report.overallBand !== null && (
+                <Badge className="ml-auto text-base">Overall Band {report.overallBand}</Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {state.sections.map(section => (
+                <div key={section} className="p-3 rounded-lg bg-muted/50 text-center">
+                  <p className="text-sm text-muted-foreground">{getSectionSpec(section).label}</p>
+                  <p className="text-2xl font-bold">{report.bands[section] ?? '–'}</p>
+                </div>
+              ))}
+            </div>
+
+            {report.awaitingEvaluation.length > 0 && (
+              <div className="flex items-center justify-between gap-3 text-sm text-muted-foreground">
+                <span>
+                  Waiting for {report.awaitingEvaluation.map(s => getSectionSpec(s).label).join(' and ')} evaluation.
+                  The overall band appears once every paper has a band.
+                </span>
+                <Button size="sm" variant="outline" className="gap-1" onClick={refresh}>
+                  <RefreshCw className="w-4 h-4" />
+                  Refresh
+                </Button>
+              </div>
+            )}
+
+            {session.status === 'in_progress' && nextSection && (
+              <div className="flex justify-end">
+                <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={handleAbandon}>
+                  End mock test
+                </Button>
+              </div>
+            )}
+            {session.status === 'abandoned' && (
+              <p className="text-sm text-muted-foreground">This mock test was ended before all papers were taken.</p>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { BookOpen, Headphones, PenTool, Mic, StickyNote, Search, ExternalLink, Trash2, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { AnnotationRow, getAnnotationPath } from '@/lib/annotations';
+
+const MODULE_ICONS: Record<string, typeof BookOpen> = {
+  reading: BookOpen,
+  listening: Headphones,
+  writing: PenTool,
+  speaking: Mic,
+};
+
+interface AnnotatedTest {
+  key: string;
+  title: string;
+  module: string;
+  notes: AnnotationRow[];
+}
+
+const testKey = (row: Pick<AnnotationRow, 'source' | 'test_id'>) => `${row.source}#${row.test_id}`;
+
+/** Look up display titles for every test that has annotations */
+async function fetchTestTitles(rows: AnnotationRow[]): Promise<Record<string, string>> {
+  const idsFor = (module: string, source = 'test') =>
+    [...new Set(rows.filter(r => r.module === module && r.source === source).map(r => r.test_id))];
+  const titles: Record<string, string> = {};
+
+  const tables = [
+    { module: 'reading', table: 'reading_tests' },
+    { module: 'listening', table: 'listening_tests' },
+    { module: 'writing', table: 'writing_tests' },
+  ] as const;
+  for (const { module, table } of tables) {
+    const ids = idsFor(module);
+    if (ids.length === 0) continue;
+    const { data } = await supabase.from(table).select('id, title').in('id', ids);
+    data?.forEach(t => (titles[`test#${t.id}`] = t.title));
+  }
+
+  const speakingIds = idsFor('speaking');
+  if (speakingIds.length > 0) {
+    const { data } = await supabase.from('speaking_tests').select('id, name').in('id', speakingIds);
+    data?.forEach(t => (titles[`test#${t.id}`] = t.name));
+  }
+
+  const aiIds = [...new Set(rows.filter(r => r.source === 'ai_practice').map(r => r.test_id))];
+  if (aiIds.length > 0) {
+    const { data } = await supabase.from('ai_practice_tests').select('id, topic').in('id', aiIds);
+    data?.forEach(t => (titles[`ai_practice#${t.id}`] = `AI Practice: ${t.topic}`));
+  }
+
+  return titles;
+}
+
+export default function MyAnnotations() {
+  const { user, loading: authLoading } = useAuth();
+  const userId = user?.id;
+  const [rows, setRows] = useState<AnnotationRow[]>([]);
+  const [titles, setTitles] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    const load = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('test_annotations')
+          .select('*')
+          .eq('user_id', userId)
+          .not('note_text', 'is', null)
+          .order('updated_at', { ascending: false });
+        if (error) throw error;
+        setRows(data || []);
+        setTitles(await fetchTestTitles(data || []));
+      } catch (error) {
+        console.error('Error loading annotations:', error);
+        toast.error('Failed to load your annotations');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [userId, authLoading]);
+
+  const groups = useMemo<AnnotatedTest[]>(() => {
+    const query = search.trim().toLowerCase();
+    const byTest = new Map<string, AnnotatedTest>();
+    for (const row of rows) {
+      if (query && !`${row.highlighted_text} ${row.note_text}`.toLowerCase().includes(query)) continue;
+      const key = testKey(row);
+      const group = byTest.get(key) ?? {
+        key,
+        title: titles[key] ?? 'Untitled test',
+        module: row.module,
+        notes: [],
+      };
+      group.notes.push(row);
+      byTest.set(key, group);
+    }
+    return [...byTest.values()];
+  }, [rows, titles, search]);
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id);
+    try {
+      const { error } = await supabase.from('test_annotations').delete().eq('id', id);
+      if (error) throw error;
+      setRows(prev => prev.filter(r => r.id !== id));
+      toast.success('Note deleted');
+    } catch (error) {
+      console.error('Error deleting annotation:', error);
+      toast.error('Failed to delete note');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex flex-col bg-background">
+        <Navbar />
+        <main className="flex-1 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex flex-col bg-background">
+        <Navbar />
+        <main className="flex-1 py-8">
+          <div className="container max-w-2xl mx-auto px-4 text-center">
+            <StickyNote className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h1 className="text-2xl font-bold mb-2">Login Required</h1>
+            <p className="text-muted-foreground mb-6">
+              Please log in to view your annotations.
+            </p>
+            <Link to="/auth?returnTo=/annotations">
+              <Button>Log In</Button>
+            </Link>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Navbar />
+
+      <main className="flex-1 py-8">
+        <div className="container max-w-4xl mx-auto px-4">
+          <div className="mb-6">
+            <h1 className="text-2xl md:text-3xl font-bold flex items-center gap-2">
+              <StickyNote className="w-7 h-7 text-primary" />
+              My Annotations
+            </h1>
+            <p className="text-muted-foreground">
+              Every note you have made while taking tests, on any device
+            </p>
+          </div>
+
+          <div className="relative mb-6">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search notes and highlighted text..."
+              className="pl-9"
+            />
+          </div>
+
+          {groups.length === 0 ? (
+            <Card className="text-center py-12">
+              <CardContent>
+                <StickyNote className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium mb-2">
+                  {rows.length === 0 ? 'No notes yet' : 'No notes match your search'}
+                </h3>
+                <p className="text-muted-foreground">
+                  Highlight text during a test and add a note to see it here.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-6">
+              {groups.map((group) => {
+                const Icon = MODULE_ICONS[group.module] || BookOpen;
+                return (
+                  <Card key={group.key}>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        <Icon className="w-5 h-5 text-primary" />
+                        {group.title}
+                        <Badge variant="secondary" className="capitalize ml-auto">
+                          {group.module}
+                        </Badge>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {group.notes.map((row) => (
+                        <div key={row.id} className="rounded-lg border p-3 group">
+                          <blockquote className="border-l-4 border-destructive/50 pl-3 text-sm italic text-muted-foreground">
+                            "{row.highlighted_text}"
+                          </blockquote>
+                          <p className="mt-2 text-sm whitespace-pre-wrap">{row.note_text}</p>
+                          <div className="mt-2 flex items-center justify-between">
+                            <span className="text-xs text-muted-foreground">
+                              {format(new Date(row.note_updated_at ?? row.updated_at), 'MMM d, yyyy')}
+                            </span>
+                            <div className="flex items-center gap-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                                disabled={deletingId === row.id}
+                                onClick={() => handleDelete(row.id)}
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </Button>
+                              <Link to={getAnnotationPath(row)}>
+                                <Button variant="outline" size="sm" className="h-7 gap-1">
+                                  <ExternalLink className="w-3 h-3" />
+                                  {row.module === 'reading' && row.source === 'test' ? 'Open in passage' : 'Open test'}
+                                </Button>
+                              </Link>
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
@@ -16,6 +16,7 @@ import {
 import { toast } from '@/hooks/use-toast';
 import { WordSelectionToolbar } from '@/components/reading/WordSelectionToolbar';
 import { ImportToFlashcardDialog } from '@/components/reading/ImportToFlashcardDialog';
+import { ANNOTATION_CONTENT_PARAM, ANNOTATION_END_PARAM, ANNOTATION_OFFSET_PARAM } from '@/lib/annotations';
 
 interface Passage {
   id: string;
@@ -47,6 +48,7 @@ interface SelectedWord {
 export default function PassageStudy() {
   const { testId } = useParams<{ testId: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { } = useAuth();
   
   const [test, setTest] = useState<Test | null>(null);
@@ -62,6 +64,12 @@ export default function PassageStudy() {
   const [selectionPosition, setSelectionPosition] = useState<{ x: number; y: number } | null>(null);
   const [currentSelection, setCurrentSelection] = useState<string>('');
 
+  // Jump-back target from My Annotations: the highlighted paragraph and character range
+  const targetContentId = searchParams.get(ANNOTATION_CONTENT_PARAM);
+  const targetStart = Number(searchParams.get(ANNOTATION_OFFSET_PARAM));
+  const targetEnd = Number(searchParams.get(ANNOTATION_END_PARAM));
+  const targetRef = useRef<HTMLDivElement>(null);
+
   useEffect(() => {
     if (testId) {
       fetchTestData(testId);
@@ -98,6 +106,21 @@ export default function PassageStudy() {
     return () => document.removeEventListener('mouseup', handleMouseUp);
   }, []);
 
+  // Open the passage holding the annotation once the paragraphs are loaded
+  useEffect(() => {
+    if (!targetContentId || passages.length === 0) return;
+    const index = passages.findIndex(p =>
+      targetContentId.startsWith(p.id) ||
+      targetContentId.startsWith(`passage-${p.id}-`) ||
+      (paragraphs[p.id] || []).some(para => para.id === targetContentId)
+    );
+    if (index !== -1) setCurrentPassageIndex(index);
+  }, [targetContentId, passages, paragraphs]);
+
+  useEffect(() => {
+    targetRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [currentPassageIndex, paragraphs]);
+
   const fetchTestData = async (id: string) => {
     try {
       const { data: testData, error: testError } = await supabase
@@ -135,7 +158,8 @@ export default function PassageStudy() {
           paragraphsMap[passage.id] = contentParagraphs.map((p: string, idx: number) => {
             const match = p.trim().match(/^([A-Z])\s(.*)$/s);
             return {
-              id: `temp-${idx}`,
+              // Same id the test page uses, so annotations on unsplit passages still resolve
+              id: `passage-${passage.id}-paragraph-${idx}`,
               label: match ? match[1] : '',
               content: match ? match[2] : p,
               is_heading: false,
@@ -173,6 +197,21 @@ export default function PassageStudy() {
   const currentPassage = passages[currentPassageIndex];
   const currentParagraphs = currentPassage ? paragraphs[currentPassage.id] || [] : [];
 
+  const renderParagraphContent = (paragraph: Paragraph) => {
+    const isTarget = paragraph.id === targetContentId &&
+      targetStart >= 0 && targetEnd > targetStart && targetEnd <= paragraph.content.length;
+    if (!isTarget) return paragraph.content;
+    return (
+      <>
+        {paragraph.content.slice(0, targetStart)}
+        <mark className="bg-destructive/20 text-foreground rounded px-0.5">
+          {paragraph.content.slice(targetStart, targetEnd)}
+        </mark>
+        {paragraph.content.slice(targetEnd)}
+      </>
+    );
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -255,14 +294,18 @@ export default function PassageStudy() {
                   style={{ fontSize: `${fontSize}px` }}
                 >
                   {currentParagraphs.map((paragraph, index) => (
-                    <div key={paragraph.id || index} className="flex items-start gap-3">
+                    <div
+                      key={paragraph.id || index}
+                      ref={paragraph.id === targetContentId ? targetRef : undefined}
+                      className="flex items-start gap-3"
+                    >
                       {paragraph.label && (
                         <span className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center font-bold text-sm">
                           {paragraph.label}
                         </span>
                       )}
                       <p className="flex-1 leading-relaxed text-foreground/90 select-text">
-                        {paragraph.content}
+                        {renderParagraphContent(paragraph)}
                       </p>
                     </div>
                   ))}
@@ -23,9 +23,16 @@ import { TestEntryOverlay } from '@/components/common/TestEntryOverlay';
 import { PullToRefreshIndicator } from '@/components/common/PullToRefreshIndicator';
 import { Badge } from '@/components/ui/badge';
 import { useFullscreenTest } from '@/hooks/useFullscreenTest';
+import { SavedTestAttempt, useTestAttempt } from '@/hooks/useTestAttempt';
 import { useSwipeGesture } from '@/hooks/useSwipeGesture';
 import { usePullToRefresh } from '@/hooks/usePullToRefresh';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { toTestVariant } from '@/lib/bandConversion';
+import { MOCK_SESSION_PARAM, getSessionPath } from '@/lib/mockTestSession';
+import { enqueueSubmission, shouldQueueOffline } from '@/lib/offlineQueue';
+import { ScoreTestRequest, ScoredTestResult, submitTestForScoring } from '@/lib/testSubmission';
+import { recordMockSectionSubmission } from '@/hooks/useMockTestSession';
+import { getPassageLabel } from '@/lib/readingSections';
 
 
 interface Question {
@@ -50,6 +57,7 @@ interface Passage {
   title: string;
   content: string;
   show_labels?: boolean;
+  section_number?: number | null;
 }
 
 interface Paragraph {
@@ -66,6 +74,10 @@ interface QuestionGroup {
   options: any; // Can be string[] or { headings: string[], paragraph_answers: Record<string, string> }
   start_question: number;
   end_question: number;
+  instruction?: string | null;
+  max_words?: number | null;
+  max_numbers?: number | null;
+  answer_matching?: unknown;
 }
 
 interface Test {
@@ -75,6 +87,8 @@ interface Test {
   test_number: number;
   time_limit: number;
   total_questions: number;
+  test_type?: string;
+  answer_matching?: unknown;
 }
 
 // Import renderRichText from the shared module
@@ -256,6 +270,44 @@ export default function ReadingTest() {
     restorePendingState();
   }, [testId]);
 
+  // Server-side autosave so the attempt survives a crash or a device switch
+  const [resumedAttempt, setResumedAttempt] = useState<SavedTestAttempt | null>(null);
+  const { savedAttempt, resolveSavedAttempt, discardSavedAttempt, clearAttempt } = useTestAttempt({
+    module: 'reading',
+    testId,
+    snapshot: { answers, currentQuestion, currentPassageIndex, timeLeft },
+    enabled: testStarted && !loading,
+  });
+
+  // Offer to resume an autosaved attempt once the test has loaded
+  useEffect(() => {
+    if (!savedAttempt || loading) return;
+    resolveSavedAttempt();
+    // The login-redirect restore takes priority
+    if (showRestoreDialog) return;
+
+    const { snapshot } = savedAttempt;
+    if (snapshot.answers) setAnswers(snapshot.answers);
+    if (snapshot.currentQuestion) setCurrentQuestion(snapshot.currentQuestion);
+    if (snapshot.currentPassageIndex !== undefined) setCurrentPassageIndex(snapshot.currentPassageIndex);
+    if (snapshot.timeLeft !== undefined) {
+      setTimeLeft(snapshot.timeLeft);
+      setRestoredTimeLeft(snapshot.timeLeft);
+    }
+    setResumedAttempt(savedAttempt);
+    setShowRestoreDialog(true);
+  }, [savedAttempt, loading, showRestoreDialog, resolveSavedAttempt]);
+
+  const handleStartOver = useCallback(() => {
+    setAnswers({});
+    setCurrentQuestion(1);
+    setCurrentPassageIndex(0);
+    if (test) setTimeLeft(test.time_limit * 60);
+    setResumedAttempt(null);
+    setShowRestoreDialog(false);
+    discardSavedAttempt();
+  }, [test, discardSavedAttempt]);
+
   // Handler for test entry - enter fullscreen on consent
   const handleEnterTest = useCallback(() => {
     setShowEntryOverlay(false);
@@ -337,9 +389,10 @@ export default function ReadingTest() {
           setQuestionGroups(groupsData);
         }
 
+        // The answer key stays on the server - submissions are marked by score-test-submission
         const { data: questionData, error: questionError } = await supabase
           .from('reading_questions')
-          .select('*')
+          .select('id, question_number, question_type, question_text, options, instruction, passage_id, question_group_id, heading, table_data, option_format')
           .in('passage_id', passageIds)
           .order('question_number');
 
@@ -350,6 +403,7 @@ export default function ReadingTest() {
           const isOptionsObject = qOptions && typeof qOptions === 'object' && !Array.isArray(qOptions);
           return {
             ...q,
+            correct_answer: '',
             options: isOptionsObject ? (qOptions.options || null) : (qOptions as string[] | null),
             sub_group_start: isOptionsObject ? qOptions.sub_group_start : undefined,
             sub_group_end: isOptionsObject ? qOptions.sub_group_end : undefined,
@@ -402,6 +456,9 @@ export default function ReadingTest() {
 
   // Check if current passage has matching headings questions
   const currentPassage = passages[currentPassageIndex];
+  const testVariant = toTestVariant(test?.test_type);
+  const passageLabel = (passage: Passage | undefined, index: number) =>
+    passage ? getPassageLabel(passage, passages, testVariant) : `Part ${index + 1}`;
   const currentPassageQuestions = currentPassage
     ? displayQuestions.filter(q => q.passage_id === currentPassage.id)
     : [];
@@ -565,88 +622,72 @@ export default function ReadingTest() {
       return;
     }
 
-    const questionResults = questions.map(q => {
-      const userAnswer = answers[q.question_number]?.trim() || '';
-      const correctAnswer = q.correct_answer.trim();
-      const correctOptions = correctAnswer.toLowerCase().split('/').map(a => a.trim());
-      const isCorrect = correctOptions.some(opt => opt === userAnswer.toLowerCase());
-      
-      return {
-        questionNumber: q.question_number,
-        questionText: q.question_text,
-        userAnswer,
-        correctAnswer,
-        isCorrect
-      };
-    });
-
-    const score = questionResults.filter(r => r.isCorrect).length;
-    const total = questionResults.length;
-    const percentage = total > 0 ? Math.round((score / total) * 100) : 0;
-    
-    // Calculate band score
-    const calculateBandScore = (pct: number): number => {
-      if (pct >= 93) return 9;
-      if (pct >= 85) return 8.5;
-      if (pct >= 78) return 8;
-      if (pct >= 70) return 7.5;
-      if (pct >= 63) return 7;
-      if (pct >= 55) return 6.5;
-      if (pct >= 48) return 6;
-      if (pct >= 40) return 5.5;
-      if (pct >= 33) return 5;
-      if (pct >= 25) return 4.5;
-      if (pct >= 18) return 4;
-      if (pct >= 13) return 3.5;
-      if (pct >= 8) return 3;
-      return 2.5;
+    const mockSessionId = searchParams.get(MOCK_SESSION_PARAM);
+    // Client-generated id so a retried or queued offline submission is only saved once
+    const request: ScoreTestRequest = {
+      module: 'reading',
+      testId: testId!,
+      submissionId: crypto.randomUUID(),
+      answers,
     };
 
-    const bandScore = calculateBandScore(percentage);
-    
-    let submissionId = crypto.randomUUID();
-    
-    // Save to database
-    const { data: submission, error } = await supabase
-      .from('reading_test_submissions')
-      .insert({
-        user_id: user.id,
-        test_id: testId!,
-        answers: answers,
-        score,
-        total_questions: total,
-        band_score: bandScore
-      })
-      .select()
-      .single();
-    
-    if (!error && submission) {
-      submissionId = submission.id as `${string}-${string}-${string}-${string}-${string}`;
-    } else {
-      console.error('Error saving submission:', error);
+    let result: ScoredTestResult;
+    try {
+      result = await submitTestForScoring(request);
+    } catch (error) {
+      if (shouldQueueOffline(error)) {
+        try {
+          await enqueueSubmission({ kind: 'reading', userId: user.id, testId: testId!, mockSessionId, request });
+        } catch (queueError) {
+          console.error('Error queueing offline submission:', queueError);
+          toast.error("You're offline and your answers could not be saved on this device. Stay on this page and submit again once you're back online.");
+          return;
+        }
+        await clearAttempt();
+        localStorage.removeItem('pendingTestSubmission');
+        toast.info("You're offline. Your answers are saved and will be marked when you're back online.");
+        navigate(mockSessionId ? getSessionPath(mockSessionId) : '/reading/cambridge-ielts-a');
+      } else {
+        console.error('Error submitting test:', error);
+        toast.error('Failed to submit your answers. Please try again.');
+      }
+      return;
     }
+
+    await clearAttempt();
     
     // Clear any pending submission data
     localStorage.removeItem('pendingTestSubmission');
     
     // Store result in sessionStorage for the results page
     const resultData = {
-      id: submissionId,
-      score,
-      total,
-      percentage,
-      bandScore,
+      id: result.submissionId,
+      score: result.score,
+      total: result.total,
+      percentage: result.percentage,
+      bandScore: result.bandScore,
       testTitle: test?.title || 'Reading Test',
       bookName: test?.book_name || '',
       testNumber: test?.test_number || 1,
-      completedAt: new Date().toISOString(),
-      questionResults
+      completedAt: result.completedAt,
+      questionResults: result.questionResults
     };
     
-    sessionStorage.setItem(`test_result_${submissionId}`, JSON.stringify(resultData));
+    sessionStorage.setItem(`test_result_${result.submissionId}`, JSON.stringify(resultData));
     
+    // Inside a full mock test, go back to the session instead of the results
+    if (mockSessionId) {
+      try {
+        await recordMockSectionSubmission(mockSessionId, 'reading', { submissionIds: [result.submissionId], band: result.bandScore });
+      } catch (err) {
+        console.error('Error recording mock test section:', err);
+      }
+      navigate(getSessionPath(mockSessionId));
+      return;
+    }
+
     // Navigate to results page
-    navigate(`/results/${submissionId}?type=reading&testId=${testId}`);
+    navigate(`/results/${result.submissionId}?type=reading&testId=${testId}`);
   };
 
   // Get question range for current passage
@@ -814,7 +855,7 @@ export default function ReadingTest() {
   }
 
   return (
-    <HighlightNoteProvider testId={testId!}>
+    <HighlightNoteProvider testId={testId!} module="reading">
       <div className={cn("h-screen flex flex-col overflow-hidden", getThemeClasses(), "ielts-test-content")}>
         {/* Fixed Container for Header and Content */}
         <div className="flex-1 flex flex-col overflow-hidden">
@@ -901,7 +942,7 @@ export default function ReadingTest() {
                   }
                 }}
               >
-                Part {p.passage_number}
+                {passageLabel(p, idx)}
               </button>
             ))}
             <button
@@ -919,7 +960,7 @@ export default function ReadingTest() {
 
           {/* Part Header - IELTS Official Style with left border */}
           <div className="ielts-part-header">
-            <h2>Part {currentPassageIndex + 1}</h2>
+            <h2>{passageLabel(currentPassage, currentPassageIndex)}</h2>
             <p>Read the text and answer questions {getPassageQuestionRange()}.</p>
           </div>
 
@@ -993,7 +1034,7 @@ export default function ReadingTest() {
                         <div className="mx-auto max-w-xl rounded-lg border border-border bg-card p-6 text-center animate-fade-in">
                           <h3 className="text-base font-semibold text-foreground">This part has no questions yet</h3>
                           <p className="mt-2 text-sm text-muted-foreground">
-                            Part {currentPassageIndex + 1} doesn't have any questions in the database for this test.
+                            {passageLabel(currentPassage, currentPassageIndex)} doesn't have any questions in the database for this test.
                           </p>
                           <div className="mt-4 flex flex-wrap items-center justify-center gap-2">
                             <Button variant="outline" onClick={clearFilter}>Clear filters</Button>
@@ -1134,7 +1175,7 @@ export default function ReadingTest() {
                     <div className="mx-auto max-w-xl rounded-lg border border-border bg-card p-4 text-center animate-fade-in">
                       <h3 className="text-base font-semibold text-foreground">This part has no questions yet</h3>
                       <p className="mt-2 text-sm text-muted-foreground">
-                        Part {currentPassageIndex + 1} doesn't have any questions.
+                        {passageLabel(currentPassage, currentPassageIndex)} doesn't have any questions.
                       </p>
                     </div>
                   ) : (
@@ -1253,6 +1294,9 @@ export default function ReadingTest() {
         timeLeft={restoredTimeLeft ?? 0}
         answeredCount={submitStats.answeredCount}
         totalQuestions={submitStats.totalCount}
+        savedAt={resumedAttempt?.savedAt}
+        fromOtherDevice={resumedAttempt?.fromOtherDevice}
+        onStartOver={resumedAttempt ? handleStartOver : undefined}
         onContinue={() => {
           localStorage.removeItem('pendingTestSubmission');
           setShowRestoreDialog(false);
@@ -4,11 +4,15 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { GeminiApiKeyManager } from '@/components/user/GeminiApiKeyManager';
+import { SubscriptionManager } from '@/components/user/SubscriptionManager';
+import { PromoCodeRedeemer } from '@/components/user/PromoCodeRedeemer';
 import { GeminiQuotaDisplay } from '@/components/common/GeminiQuotaDisplay';
+import { CreditDisplay } from '@/components/common/CreditDisplay';
+import { CreditHistory } from '@/components/common/CreditHistory';
 import { toast } from 'sonner';
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
-import { Globe, Save } from 'lucide-react';
+import { Globe, Save, Zap, CreditCard } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 
 const SUPPORTED_LANGUAGES = [
@@ -186,6 +190,40 @@ export default function Settings() {
               <GeminiQuotaDisplay showCard={false} refreshTrigger={quotaRefreshTrigger} />
             </CardContent>
           </Card>
+
+          {/* Plan */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CreditCard size={20} className="text-primary" />
+                Plan
+              </CardTitle>
+              <CardDescription>
+                Your plan sets your daily credits and monthly evaluations, mock tests and speaking minutes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <SubscriptionManager onPlanChanged={handleApiKeyChanged} refreshTrigger={quotaRefreshTrigger} />
+              <PromoCodeRedeemer onRedeemed={handleApiKeyChanged} />
+            </CardContent>
+          </Card>
+
+          {/* Credits */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Zap size={20} className="text-primary" />
+                Credits
+              </CardTitle>
+              <CardDescription>
+                AI generation and evaluation on our shared keys use credits. Failed requests are refunded automatically.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <CreditDisplay refreshTrigger={quotaRefreshTrigger} />
+              <CreditHistory refreshTrigger={quotaRefreshTrigger} />
+            </CardContent>
+          </Card>
         </div>
       </main>
       <Footer />
@@ -11,6 +11,8 @@ import { Tables } from '@/integrations/supabase/types';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { renderRichText } from '@/components/admin/RichTextEditor';
 import { AddToFlashcardButton } from '@/components/common/AddToFlashcardButton';
+import { AiValidationErrorNotice } from '@/components/common/AiValidationErrorNotice';
+import type { AiValidationFailure } from '@/lib/geminiClient';
 
 
 type SpeakingTest = Tables<'speaking_tests'>;
@@ -54,7 +56,8 @@ interface EvaluationReport {
   strengths_to_maintain: string[];
   examiner_notes?: string;
   raw_response?: string;
-  parse_error?: string;
+  parse_error?: string; // Legacy reports from before schema validation
+  validation_error?: AiValidationFailure;
   transcripts?: Record<string, string>; // NEW: Transcripts field
 }
 
@@ -368,6 +371,7 @@ export default function SpeakingEvaluationReport() {
                       <Star size={18} className="text-gold" />
                       AI Evaluation Report
                     </h3>
+                    {evaluationReport.validation_error && <AiValidationErrorNotice failure={evaluationReport.validation_error} />}
                     {evaluationReport.parse_error && (
                       <div className="bg-destructive/10 text-destructive border border-destructive/30 rounded-md p-3 text-sm">
                         <p className="font-semibold">Error parsing AI response:</p>
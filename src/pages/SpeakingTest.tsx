@@ -17,6 +17,9 @@ import { Badge } from '@/components/ui/badge';
 import { MicrophoneTest } from '@/components/speaking/MicrophoneTest';
 import { AILoadingScreen } from '@/components/common/AILoadingScreen';
 import { useFullscreenTest } from '@/hooks/useFullscreenTest';
+import { recordMockSectionSubmission } from '@/hooks/useMockTestSession';
+import { MOCK_SESSION_PARAM, getSessionPath } from '@/lib/mockTestSession';
+import { enqueueSubmission, shouldQueueOffline } from '@/lib/offlineQueue';
 import { compressAudio } from '@/utils/audioCompressor';
 
 
@@ -101,6 +104,7 @@ export default function SpeakingTest() {
 
 
   const isNewSubmissionRequest = location.pathname.endsWith('/new-submission');
+  const mockSessionId = new URLSearchParams(location.search).get(MOCK_SESSION_PARAM);
 
   // --- Helper Functions ---
   const currentGroup = useMemo(() => questionGroups[currentPartIndex] || null, [questionGroups, currentPartIndex]);
@@ -337,13 +341,47 @@ export default function SpeakingTest() {
       }, delay));
     };
 
+    // One id for the online insert and the offline queue, so a replay after a failed insert is only saved once
+    const submissionId = crypto.randomUUID();
+    const submissionTimestamp = new Date().toISOString();
+
+    // Offline: queue the recordings in IndexedDB; they are submitted and evaluated once back online
+    const queueOffline = async () => {
+      try {
+        await enqueueSubmission({
+          kind: 'speaking',
+          userId: user.id,
+          testId: speakingTest.id!,
+          mockSessionId,
+          row: {
+            id: submissionId,
+            user_id: user.id,
+            test_id: speakingTest.id!,
+            submitted_at: submissionTimestamp,
+          },
+          audio: { ...audioBlobs.current },
+        });
+      } catch (queueError) {
+        console.error('Error queueing offline submission:', queueError);
+        toast.error("You're offline and your recordings could not be saved on this device. Stay on this page and submit again once you're back online.", { id: 'ai-eval-toast' });
+        return;
+      }
+      clearGuestDraft();
+      toast.info("You're offline. Your recordings are saved and will be submitted for evaluation when you're back online.", { id: 'ai-eval-toast', duration: 8000 });
+      navigate(mockSessionId ? getSessionPath(mockSessionId) : '/speaking/cambridge-ielts-a');
+    };
+
     try {
+      if (!navigator.onLine) {
+        await queueOffline();
+        return;
+      }
+
       await simulateProgress(0, 500); // Step 0: Preparing audio
 
-      const submissionTimestamp = new Date().toISOString();
-      
       // Prepare submission data (audio_url_partX and transcript_partX will be NULL)
       const submissionData: TablesInsert<'speaking_submissions'> = {
+        id: submissionId,
         user_id: user.id,
         test_id: speakingTest.id!,
         submitted_at: submissionTimestamp,
@@ -412,15 +450,30 @@ export default function SpeakingTest() {
 
       clearGuestDraft(); // Clear guest draft after successful submission
       toast.success('Speaking test submitted! Evaluation will be available shortly.', { id: 'ai-eval-toast', duration: 5000 }); // Added duration
+
+      if (mockSessionId) {
+        try {
+          await recordMockSectionSubmission(mockSessionId, 'speaking', { submissionIds: [newSubmission.id], band: null });
+        } catch (err) {
+          console.error('Error recording mock test section:', err);
+        }
+        navigate(getSessionPath(mockSessionId));
+        return;
+      }
+
       navigate(`/speaking/evaluation/${testId}/${newSubmission.id}`);
     } catch (error: any) {
       console.error('Error submitting speaking test:', error);
+      if (shouldQueueOffline(error)) {
+        await queueOffline();
+        return;
+      }
       toast.error(`Failed to submit test: ${error.message}`, { id: 'ai-eval-toast' });
     } finally {
       setIsSubmitting(false);
       setShowAILoadingScreen(false); // Hide loading screen
     }
-  }, [user, speakingTest, testId, isRecording, stopRecording, navigate, questionGroups, saveGuestDraft, clearGuestDraft, isSubmitting, saveFailedSubmissionLocally]);
+  }, [user, speakingTest, testId, isRecording, stopRecording, navigate, questionGroups, saveGuestDraft, clearGuestDraft, isSubmitting, saveFailedSubmissionLocally, mockSessionId]);
 
   const handleCurrentTimerEnd = useCallback(async () => { // Make it async
     if (isRecording) {
@@ -772,7 +825,7 @@ export default function SpeakingTest() {
   const hasRecordedForCurrentQuestion = currentQuestion && currentGroup && audioBlobUrls.current[`part${currentGroup.part_number}-q${currentQuestion.id}`];
 
   return (
-    <HighlightNoteProvider testId={testId!}>
+    <HighlightNoteProvider testId={testId!} module="speaking">
       <div className="min-h-screen bg-background flex flex-col overflow-y-auto ielts-test-content">
         {/* Top Header - IELTS Official Style */}
         <header className="bg-card border-b border-border px-4 py-3 flex items-center justify-between flex-shrink-0 ielts-section-header" style={{ fontFamily: 'var(--font-ielts)' }}>
@@ -18,7 +18,8 @@ import {
   Flag,
   Volume2,
   Info,
-  Layers
+  Layers,
+  AlertCircle
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from '@/hooks/use-toast';
@@ -26,6 +27,10 @@ import { describeApiError } from '@/lib/apiErrors';
 import { TranscriptViewer } from '@/components/listening/TranscriptViewer';
 import { AddToFlashcardButton } from '@/components/common/AddToFlashcardButton';
 import { ProgressOverlayFlashcard } from '@/components/common/ProgressOverlayFlashcard';
+import { getAnswerMatchExplanation, type AnswerMatchRuleId } from '@/lib/ieltsAnswerValidation';
+import { fetchScoredSubmission } from '@/lib/testSubmission';
+import { canDisputeAnswer, type DisputeStatus } from '@/lib/answerDisputes';
+import { DisputeMarkButton } from '@/components/common/DisputeMarkButton';
 
 interface QuestionResult {
   questionNumber: number;
@@ -36,8 +41,15 @@ interface QuestionResult {
   explanation?: string;
   options?: any;
   questionType?: string;
+  /** Matching rule that accepted the answer (e.g. spelling_variant) */
+  matchedRule?: AnswerMatchRuleId | null;
+  /** Set when the answer was marked wrong for exceeding the word limit */
+  wordLimitReason?: string | null;
 }
 
+// Rules that need no explanation on the results page
+const SELF_EXPLANATORY_RULES: AnswerMatchRuleId[] = ['exact', 'option_id'];
+
 /**
  * Format correct answer string for display
  * Shows primary answer prominently and alternatives in a friendly way
@@ -67,6 +79,7 @@ interface TopScorer {
 
 interface TestResultData {
   id: string;
+  testId?: string;
   score: number;
   total: number;
   percentage: number;
@@ -104,6 +117,7 @@ export default function TestResults() {
   const [questionPassageMap, setQuestionPassageMap] = useState<Record<number, number>>({});
   const [showOnlyIncorrect, setShowOnlyIncorrect] = useState(false);
   const [showFlashcardReview, setShowFlashcardReview] = useState(false);
+  const [disputeStatuses, setDisputeStatuses] = useState<Record<number, DisputeStatus>>({});
   const autoLoadedRef = useRef(false);
 
   useEffect(() => {
@@ -155,7 +169,6 @@ export default function TestResults() {
         .eq('id', submission.test_id)
         .single();
 
-      let questions: any[] = [];
       if (testType === 'reading') {
         const { data: passageData } = await supabase
           .from('reading_passages')
@@ -175,9 +188,8 @@ export default function TestResults() {
           const passageIds = passageData.map(p => p.id);
           const { data: questionData } = await supabase
             .from('reading_questions')
-            .select('*')
-            .in('passage_id', passageIds)
-            .order('question_number');
+            .select('question_number, passage_id')
+            .in('passage_id', passageIds);
           
           // Create a map of question number to passage number
           const qPassageMap: Record<number, number> = {};
@@ -188,50 +200,18 @@ export default function TestResults() {
             }
           });
           setQuestionPassageMap(qPassageMap);
-          
-          questions = questionData || [];
         }
-      } else {
-        const { data: groups } = await supabase
-          .from('listening_question_groups')
-          .select('*, listening_questions(*)')
-          .eq('test_id', submission.test_id);
-        
-        questions = groups?.flatMap(g => 
-          (g.listening_questions || []).map((lq: any) => ({
-            ...lq,
-            question_type: g.question_type,
-            group_options: g.options
-          }))
-        ) || [];
       }
 
-      const userAnswers = submission.answers as Record<string, string>;
-      const questionResults: QuestionResult[] = questions.map(q => {
-        const userAnswer = userAnswers?.[q.question_number.toString()] || '';
-        const correctAnswer = q.correct_answer || '';
-        const correctOptions = correctAnswer.toLowerCase().split('/').map((a: string) => a.trim());
-        const isCorrect = correctOptions.includes(userAnswer.toLowerCase().trim());
-
-        return {
-          questionNumber: q.question_number,
-          questionText: q.question_text,
-          userAnswer,
-          correctAnswer,
-          isCorrect,
-          options: q.options || q.group_options,
-          questionType: q.question_type
-        };
-      }).sort((a, b) => a.questionNumber - b.questionNumber);
-
-      const score = submission.score || questionResults.filter(r => r.isCorrect).length;
-      const total = submission.total_questions || questionResults.length;
-      const percentage = total > 0 ? Math.round((score / total) * 100) : 0;
-      
-      const bandScore = calculateBandScore(percentage);
+      // Re-marked from the answer key on the server so multi-answer questions earn one mark per letter
+      const { score, total, percentage, bandScore, questionResults } = await fetchScoredSubmission(
+        testType === 'listening' ? 'listening' : 'reading',
+        submission.id
+      );
 
       setResultData({
         id: submission.id,
+        testId: submission.test_id,
         score,
         total,
         percentage,
@@ -243,6 +223,14 @@ export default function TestResults() {
         questionResults
       });
 
+      const { data: disputes } = await supabase
+        .from('answer_disputes')
+        .select('question_number, status')
+        .eq('user_id', submission.user_id)
+        .eq('source', 'test')
+        .eq('test_id', submission.test_id);
+      setDisputeStatuses(Object.fromEntries((disputes || []).map(d => [d.question_number, d.status as DisputeStatus])));
+
       // Set transcripts for listening tests
       if (testType === 'listening' && testInfo) {
         const listeningTestInfo = testInfo as {
@@ -337,23 +325,6 @@ export default function TestResults() {
     }
   };
 
-  const calculateBandScore = (percentage: number): number => {
-    if (percentage >= 93) return 9;
-    if (percentage >= 85) return 8.5;
-    if (percentage >= 78) return 8;
-    if (percentage >= 70) return 7.5;
-    if (percentage >= 63) return 7;
-    if (percentage >= 55) return 6.5;
-    if (percentage >= 48) return 6;
-    if (percentage >= 40) return 5.5;
-    if (percentage >= 33) return 5;
-    if (percentage >= 25) return 4.5;
-    if (percentage >= 18) return 4;
-    if (percentage >= 13) return 3.5;
-    if (percentage >= 8) return 3;
-    return 2.5;
-  };
-
   const getTranscriptContext = (questionNumber: number): string => {
     // Determine which part the question belongs to based on question number
     // Part 1: Q1-10, Part 2: Q11-20, Part 3: Q21-30, Part 4: Q31-40
@@ -686,6 +657,36 @@ Thank you for looking into this.
                         )}>
                           {result.userAnswer || '(No answer)'}
                         </p>
+                        {result.isCorrect && result.matchedRule && !SELF_EXPLANATORY_RULES.includes(result.matchedRule) && (
+                          <p className="text-xs text-emerald-700 mt-1 flex items-center gap-1">
+                            <Info size={12} />
+                            {getAnswerMatchExplanation(result.matchedRule)}
+                          </p>
+                        )}
+                        {result.wordLimitReason && (
+                          <p className="text-xs text-destructive mt-1 flex items-center gap-1">
+                            <AlertCircle size={12} />
+                            {result.wordLimitReason}
+                          </p>
+                        )}
+                        {resultData.testId && (disputeStatuses[result.questionNumber] || canDisputeAnswer(result)) && (
+                          <div className="mt-2 -ml-2">
+                            <DisputeMarkButton
+                              module={testType === 'listening' ? 'listening' : 'reading'}
+                              source="test"
+                              testId={resultData.testId}
+                              submissionId={resultData.id}
+                              questionNumber={result.questionNumber}
+                              questionText={result.questionText}
+                              userAnswer={result.userAnswer}
+                              correctAnswer={result.correctAnswer}
+                              status={disputeStatuses[result.questionNumber]}
+                              onSubmitted={(questionNumber) =>
+                                setDisputeStatuses(prev => ({ ...prev, [questionNumber]: 'pending' }))
+                              }
+                            />
+                          </div>
+                        )}
                       </div>
                       <div className="p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/20">
                         <div className="flex items-center gap-2 mb-1">
@@ -4,13 +4,22 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Star, FileText, MessageSquareText, Lightbulb, CheckCircle2, History, AlertCircle, BookOpen } from 'lucide-react';
+import { ArrowLeft, Star, FileText, MessageSquareText, Lightbulb, CheckCircle2, History, AlertCircle, BookOpen, GitCompare, PenLine, BarChart3, Sparkles } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@/hooks/useAuth';
 import { Tables } from '@/integrations/supabase/types';
 import { renderRichText } from '@/components/admin/RichTextEditor';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AddToFlashcardButton } from '@/components/common/AddToFlashcardButton';
+import { AiValidationErrorNotice } from '@/components/common/AiValidationErrorNotice';
+import type { AiValidationFailure } from '@/lib/geminiClient';
+import type { WritingErrorAnnotation } from '@/lib/writingAnnotations';
+import { AnnotatedEssay } from '@/components/writing/AnnotatedEssay';
+import { EssayMetricsSummary } from '@/components/writing/EssayMetricsSummary';
+import { ModelAnswerRewrite } from '@/components/writing/ModelAnswerRewrite';
+import { readEssayMetrics } from '@/lib/essayMetrics';
+import { SubmissionComparison } from '@/components/writing/SubmissionComparison';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 
 type WritingTest = Tables<'writing_tests'>;
@@ -31,8 +40,10 @@ interface EvaluationReport {
   lexical_resource: CriterionEvaluation;
   grammatical_range_and_accuracy: CriterionEvaluation;
   overall_suggestions: string; // This one is a direct string
+  error_annotations?: WritingErrorAnnotation[]; // Spans over the submission text, absent on older reports
   raw_response?: string;
-  parse_error?: string;
+  parse_error?: string; // Legacy reports from before schema validation
+  validation_error?: AiValidationFailure;
 }
 
 // Helper function to round to nearest 0.5
@@ -173,6 +184,10 @@ export default function WritingEvaluationReport() {
     return new Date(dateB).getTime() - new Date(dateA).getTime();
   });
 
+  // Per-task submission lists for the attempt comparison
+  const task1Submissions = useMemo(() => allSubmissions.filter(s => s.task_id === task1?.id), [allSubmissions, task1]);
+  const task2Submissions = useMemo(() => allSubmissions.filter(s => s.task_id === task2?.id), [allSubmissions, task2]);
+
   // Calculate combined overall band score
   const combinedOverallBand = useMemo(() => {
     const scores: number[] = [];
@@ -207,6 +222,7 @@ export default function WritingEvaluationReport() {
 
     const evaluationReport = submission.evaluation_report as unknown as EvaluationReport | null;
     const overallBand = submission.overall_band;
+    const textMetrics = readEssayMetrics(submission.text_metrics);
     console.log(`Rendering Task ${taskNumber}: Submission ID ${submission.id}, Evaluation Report:`, evaluationReport); // Log 7
     console.log(`Rendering Task ${taskNumber}: Overall Band:`, overallBand); // Log 8
 
@@ -231,19 +247,38 @@ export default function WritingEvaluationReport() {
               Your Submission
             </h3>
             <div className="bg-muted/30 p-4 rounded-md border text-foreground">
-              <p className="whitespace-pre-wrap" style={{ fontSize: '14px' }}>{submission.submission_text}</p>
+              <AnnotatedEssay
+                text={submission.submission_text}
+                annotations={evaluationReport?.error_annotations ?? []}
+                bands={{
+                  GRA: evaluationReport?.grammatical_range_and_accuracy?.band,
+                  LR: evaluationReport?.lexical_resource?.band,
+                }}
+              />
               <p className="text-sm text-muted-foreground mt-2">Word Count: {submission.word_count}</p>
               <p className="text-sm text-muted-foreground">Min. Word Limit: {task.word_limit_min}</p>
               {task.word_limit_max && <p className="text-sm text-muted-foreground">Max. Word Limit: {task.word_limit_max}</p>}
             </div>
           </div>
 
+          {textMetrics && (
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold flex items-center gap-2">
+                <BarChart3 size={18} className="text-primary" />
+                Text Analysis
+              </h3>
+              <p className="text-sm text-muted-foreground">Measured directly from your text, as evidence alongside the examiner bands.</p>
+              <EssayMetricsSummary metrics={textMetrics} />
+            </div>
+          )}
+
           {evaluationReport ? (
             <div className="space-y-4">
               <h3 className="text-lg font-semibold flex items-center gap-2">
                 <Star size={18} className="text-gold" />
                 AI Evaluation Report
               </h3>
+              {evaluationReport.validation_error && <AiValidationErrorNotice failure={evaluationReport.validation_error} />}
               {evaluationReport.parse_error && (
                 <div className="bg-destructive/10 text-destructive border border-destructive/30 rounded-md p-3 text-sm">
                   <p className="font-semibold">Error parsing AI response:</p>
@@ -254,8 +289,8 @@ export default function WritingEvaluationReport() {
               )}
               {/* Iterate over the main criteria */}
               {Object.entries(evaluationReport).map(([key, value]) => {
-                // Skip raw_response, parse_error, and overall_suggestions as they are handled separately
-                if (key === 'raw_response' || key === 'parse_error' || key === 'overall_suggestions') return null;
+                // Skip raw_response, parse_error, validation_error, overall_suggestions and error_annotations as they are handled separately
+                if (key === 'raw_response' || key === 'parse_error' || key === 'validation_error' || key === 'overall_suggestions' || key === 'error_annotations') return null;
 
                 const title = key.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
                 const criterion = value as CriterionEvaluation; // Cast to CriterionEvaluation
@@ -355,6 +390,26 @@ export default function WritingEvaluationReport() {
                   </Card>
                 </div>
               )}
+
+              {/* The student's own answer rewritten at a band they choose */}
+              {overallBand !== null && overallBand < 9 && (
+                <div className="space-y-4 pt-6 border-t border-border/50">
+                  <h3 className="text-xl font-bold text-foreground flex items-center gap-2">
+                    <Sparkles size={20} className="text-primary" />
+                    Your Answer, Rewritten
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    See what your own answer would look like at a higher band. Your ideas are kept; select a highlighted phrase to see why it was upgraded.
+                  </p>
+                  <ModelAnswerRewrite
+                    source="writing_submission"
+                    sourceId={submission.id}
+                    taskType={task.task_type === 'task1' ? 'task1' : 'task2'}
+                    originalText={submission.submission_text}
+                    currentBand={overallBand}
+                  />
+                </div>
+              )}
             </div>
           ) : (
             <div className="bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 rounded-lg p-4 text-sm text-amber-800 dark:text-amber-200">
@@ -429,10 +484,45 @@ export default function WritingEvaluationReport() {
               </CardContent>
             </Card>
           )}
+          {!loading && sortedAttempts.length > 1 && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-xl font-semibold">
+                  <GitCompare size={20} />
+                  Compare Attempts
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="task1">
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="task1">Task 1</TabsTrigger>
+                    <TabsTrigger value="task2">Task 2</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="task1">
+                    <SubmissionComparison submissions={task1Submissions} initialAfterId={currentSubmission1?.id} />
+                  </TabsContent>
+                  <TabsContent value="task2">
+                    <SubmissionComparison submissions={task2Submissions} initialAfterId={currentSubmission2?.id} />
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+          )}
           {loading ? (
             <div className="text-center py-8 text-muted-foreground">Loading evaluation...</div>
           ) : (
             <>
+              {(currentSubmission1 || currentSubmission2) && (
+                <div className="flex justify-end mb-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => navigate(`/writing/test/${testId}/revise/${(currentSubmission1 ?? currentSubmission2)!.id}`)}
+                  >
+                    <PenLine size={16} className="mr-2" />
+                    Revise from Feedback
+                  </Button>
+                </div>
+              )}
               {renderEvaluationSection(currentSubmission1, task1, 1)}
               {renderEvaluationSection(currentSubmission2, task2, 2)}
             </>
@@ -13,6 +13,8 @@ import { WritingTaskDisplay } from '@/components/writing/WritingTaskDisplay';
 import { WritingInputPanel } from '@/components/writing/WritingInputPanel';
 import { WritingTimer } from '@/components/writing/WritingTimer';
 import { WritingTestControls } from '@/components/writing/WritingTestControls';
+import { RevisionFeedbackPanel } from '@/components/writing/RevisionFeedbackPanel';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { HighlightNoteProvider } from '@/hooks/useHighlightNotes';
 import { NoteSidebar } from '@/components/common/NoteSidebar';
 import { useAuth } from '@/hooks/useAuth';
@@ -21,12 +23,18 @@ import { describeApiError } from '@/lib/apiErrors';
 import { Tables, TablesInsert } from '@/integrations/supabase/types';
 import { AILoadingScreen } from '@/components/common/AILoadingScreen';
 import { useFullscreenTest } from '@/hooks/useFullscreenTest';
+import { recordMockSectionSubmission } from '@/hooks/useMockTestSession';
+import { SavedTestAttempt, useTestAttempt } from '@/hooks/useTestAttempt';
+import { RestoreTestStateDialog } from '@/components/common/RestoreTestStateDialog';
+import { MOCK_SESSION_PARAM, getSessionPath } from '@/lib/mockTestSession';
+import { enqueueSubmission, shouldQueueOffline } from '@/lib/offlineQueue';
+import { precacheTestAssets } from '@/lib/serviceWorker';
 
 
 // Define types for the new structure
 type WritingTest = Tables<'writing_tests'>;
 type WritingTask = Tables<'writing_tasks'>;
-// WritingSubmission type available from Tables<'writing_submissions'>
+type WritingSubmission = Tables<'writing_submissions'>;
 
 // Helper to render rich text (markdown-like formatting)
 const renderRichText = (text: string): string => {
@@ -50,7 +58,8 @@ const renderRichText = (text: string): string => {
 };
 
 export default function WritingTest() {
-  const { testId } = useParams<{ testId: string }>();
+  // submissionId: the attempt being revised, on /writing/test/:testId/revise/:submissionId
+  const { testId, submissionId: reviseFromId } = useParams<{ testId: string; submissionId?: string }>();
   const navigate = useNavigate();
   const location = useLocation();
   const { user } = useAuth();
@@ -89,7 +98,44 @@ export default function WritingTest() {
   const [aiProgressSteps, setAiProgressSteps] = useState<string[]>([]);
   const [currentAIStepIndex, setCurrentAIStepIndex] = useState(0);
 
-  const isNewSubmissionRequest = location.pathname.endsWith('/new-submission');
+  // A revision is a new submission that starts from an earlier attempt's text
+  const isRevision = !!reviseFromId;
+  const isNewSubmissionRequest = location.pathname.endsWith('/new-submission') || isRevision;
+  const [revisedFrom, setRevisedFrom] = useState<{ task1: WritingSubmission | null; task2: WritingSubmission | null }>({
+    task1: null,
+    task2: null,
+  });
+  const mockSessionId = new URLSearchParams(location.search).get(MOCK_SESSION_PARAM);
+
+  // Server-side autosave of both tasks and the remaining time, so the attempt
+  // survives a crash or a device switch
+  const [resumedAttempt, setResumedAttempt] = useState<SavedTestAttempt | null>(null);
+  const { savedAttempt, resolveSavedAttempt, discardSavedAttempt, clearAttempt } = useTestAttempt({
+    module: 'writing',
+    testId,
+    snapshot: { submissionText1, submissionText2, timeLeft },
+    enabled: !loading && !isSubmitting,
+  });
+
+  // Offer to resume an autosaved attempt once the test and drafts have loaded
+  useEffect(() => {
+    if (!savedAttempt || loading) return;
+    resolveSavedAttempt();
+
+    const { snapshot } = savedAttempt;
+    if (snapshot.submissionText1 !== undefined) setSubmissionText1(snapshot.submissionText1);
+    if (snapshot.submissionText2 !== undefined) setSubmissionText2(snapshot.submissionText2);
+    if (snapshot.timeLeft !== undefined) setTimeLeft(snapshot.timeLeft);
+    setResumedAttempt(savedAttempt);
+  }, [savedAttempt, loading, resolveSavedAttempt]);
+
+  const handleStartOver = useCallback(() => {
+    setSubmissionText1('');
+    setSubmissionText2('');
+    if (writingTest) setTimeLeft(writingTest.time_limit * 60);
+    setResumedAttempt(null);
+    discardSavedAttempt();
+  }, [writingTest, discardSavedAttempt]);
 
   // --- Start of reordered functions ---
 
@@ -115,6 +161,7 @@ export default function WritingTest() {
         submission_text: submissionText1,
         word_count: wordCount1,
         submitted_at: submissionTimestamp, // Use the consistent timestamp
+        revised_from_id: revisedFrom.task1?.id ?? null,
       };
       if (submissionId1) {
         await supabase.from('writing_submissions').update(submissionData1).eq('id', submissionId1);
@@ -130,6 +177,7 @@ export default function WritingTest() {
         submission_text: submissionText2,
         word_count: wordCount2,
         submitted_at: submissionTimestamp, // Use the consistent timestamp
+        revised_from_id: revisedFrom.task2?.id ?? null,
       };
       if (submissionId2) {
         await supabase.from('writing_submissions').update(submissionData2).eq('id', submissionId2);
@@ -147,7 +195,7 @@ export default function WritingTest() {
     } finally {
       setIsSaving(false);
     }
-  }, [user, writingTest, task1, task2, submissionText1, wordCount1, submissionId1, submissionText2, wordCount2, submissionId2]);
+  }, [user, writingTest, task1, task2, submissionText1, wordCount1, submissionId1, submissionText2, wordCount2, submissionId2, revisedFrom]);
 
   const handleSubmit = useCallback(async () => {
     if (!user) {
@@ -173,6 +221,54 @@ export default function WritingTest() {
       return;
     }
 
+    // Offline: queue both tasks; they are saved and evaluated once back online
+    // New rows get their ids up front, so a submission queued after a partial insert is only saved once
+    const rowId1 = (!isNewSubmissionRequest && submissionId1) || crypto.randomUUID();
+    const rowId2 = (!isNewSubmissionRequest && submissionId2) || crypto.randomUUID();
+
+    const queueOffline = async () => {
+      const submittedAt = new Date().toISOString();
+      const taskRow = (
+        id: string,
+        taskId: string,
+        text: string,
+        words: number,
+        revisedFromId: string | null,
+      ): TablesInsert<'writing_submissions'> => ({
+        id,
+        user_id: user.id,
+        task_id: taskId,
+        submission_text: text,
+        word_count: words,
+        submitted_at: submittedAt,
+        revised_from_id: revisedFromId,
+      });
+      try {
+        await enqueueSubmission({
+          kind: 'writing',
+          userId: user.id,
+          testId: testId!,
+          mockSessionId,
+          rows: [
+            taskRow(rowId1, task1.id, submissionText1, wordCount1, revisedFrom.task1?.id ?? null),
+            taskRow(rowId2, task2.id, submissionText2, wordCount2, revisedFrom.task2?.id ?? null),
+          ],
+        });
+      } catch (queueError) {
+        console.error('Error queueing offline submission:', queueError);
+        toast.error("You're offline and your writing could not be saved on this device. Stay on this page and submit again once you're back online.", { id: 'ai-eval-toast' });
+        return;
+      }
+      await clearAttempt();
+      toast.info("You're offline. Your writing is saved and will be submitted for evaluation when you're back online.", { id: 'ai-eval-toast' });
+      navigate(mockSessionId ? getSessionPath(mockSessionId) : '/writing/cambridge-ielts-a');
+    };
+
+    if (!navigator.onLine) {
+      await queueOffline();
+      return;
+    }
+
     setIsSubmitting(true);
     // Show AI Loading Screen
     setShowAILoadingScreen(true);
@@ -207,10 +303,11 @@ export default function WritingTest() {
         submission_text: submissionText1,
         word_count: wordCount1,
         submitted_at: submissionTimestamp,
+        revised_from_id: revisedFrom.task1?.id ?? null,
       };
       // Always insert a new submission for Task 1 if it's a new submission request or no ID exists
       if (isNewSubmissionRequest || !currentSubmissionId1) {
-        const { data } = await supabase.from('writing_submissions').insert(submissionData1).select().single();
+        const { data } = await supabase.from('writing_submissions').insert({ ...submissionData1, id: rowId1 }).select().single();
         if (data) currentSubmissionId1 = data.id;
         console.log('Task 1 new submission ID:', currentSubmissionId1, 'timestamp:', submissionTimestamp);
       } else {
@@ -225,10 +322,11 @@ export default function WritingTest() {
         submission_text: submissionText2,
         word_count: wordCount2,
         submitted_at: submissionTimestamp,
+        revised_from_id: revisedFrom.task2?.id ?? null,
       };
       // Always insert a new submission for Task 2 if it's a new submission request or no ID exists
       if (isNewSubmissionRequest || !currentSubmissionId2) {
-        const { data } = await supabase.from('writing_submissions').insert(submissionData2).select().single();
+        const { data } = await supabase.from('writing_submissions').insert({ ...submissionData2, id: rowId2 }).select().single();
         if (data) currentSubmissionId2 = data.id;
         console.log('Task 2 new submission ID:', currentSubmissionId2, 'timestamp:', submissionTimestamp);
       } else {
@@ -268,16 +366,34 @@ export default function WritingTest() {
       await simulateProgress(2); // Step 2: Generating feedback
       await simulateProgress(3); // Step 3: Calculating band score
 
+      await clearAttempt();
       toast.success('Writing submitted and AI evaluation triggered!', { id: 'ai-eval-toast' });
+
+      // Inside a full mock test, the band is picked up once evaluation finishes
+      if (mockSessionId) {
+        const submissionIds = [currentSubmissionId1, currentSubmissionId2].filter((id): id is string => !!id);
+        try {
+          await recordMockSectionSubmission(mockSessionId, 'writing', { submissionIds, band: null });
+        } catch (err) {
+          console.error('Error recording mock test section:', err);
+        }
+        navigate(getSessionPath(mockSessionId));
+        return;
+      }
+
       navigate(`/writing/evaluation/${testId}/${currentSubmissionId1}`);
     } catch (error: any) {
       console.error('Error submitting writing:', error);
+      if (shouldQueueOffline(error)) {
+        await queueOffline();
+        return;
+      }
       toast.error(`Failed to submit writing: ${error.message}`, { id: 'ai-eval-toast' });
     } finally {
       setIsSubmitting(false);
       setShowAILoadingScreen(false); // Hide loading screen
     }
-  }, [user, writingTest, task1, task2, submissionText1, wordCount1, submissionId1, submissionText2, wordCount2, submissionId2, navigate, isNewSubmissionRequest]);
+  }, [user, writingTest, task1, task2, submissionText1, wordCount1, submissionId1, submissionText2, wordCount2, submissionId2, navigate, isNewSubmissionRequest, mockSessionId, clearAttempt, revisedFrom]);
 
   const handleTimeEnd = useCallback(() => {
     if (!isSubmitting) {
@@ -324,7 +440,7 @@ export default function WritingTest() {
     if (testId) {
       fetchTestData();
     }
-  }, [testId, isNewSubmissionRequest]);
+  }, [testId, isNewSubmissionRequest, reviseFromId]);
 
   // Handle fullscreen - auto-enter on mount
   useEffect(() => {
@@ -396,6 +512,8 @@ export default function WritingTest() {
         fetchedTask2 = tasksData.find(t => t.task_type === 'task2') || null;
         if (fetchedTask1) setTask1(fetchedTask1);
         if (fetchedTask2) setTask2(fetchedTask2);
+        // Keep task images available if the connection drops mid-test
+        precacheTestAssets(tasksData.map(t => t.image_url));
       } else {
         toast.error('No tasks found for this writing test.');
         navigate('/writing/cambridge-ielts-a');
@@ -435,6 +553,35 @@ export default function WritingTest() {
             toast.info('Loaded your previous drafts.');
           }
         }
+      } else if (isRevision && user && fetchedTask1 && fetchedTask2) {
+        // Start from the attempt being revised: both tasks were submitted together
+        const { data: source } = await supabase
+          .from('writing_submissions')
+          .select('submitted_at')
+          .eq('id', reviseFromId!)
+          .eq('user_id', user.id)
+          .maybeSingle();
+        const { data: attempt } = source
+          ? await supabase
+            .from('writing_submissions')
+            .select('*')
+            .eq('user_id', user.id)
+            .eq('submitted_at', source.submitted_at!)
+            .in('task_id', [fetchedTask1.id, fetchedTask2.id])
+          : { data: null };
+
+        const previous1 = attempt?.find(s => s.task_id === fetchedTask1?.id) ?? null;
+        const previous2 = attempt?.find(s => s.task_id === fetchedTask2?.id) ?? null;
+        setRevisedFrom({ task1: previous1, task2: previous2 });
+        setSubmissionText1(previous1?.submission_text ?? '');
+        setSubmissionText2(previous2?.submission_text ?? '');
+        setSubmissionId1(null);
+        setSubmissionId2(null);
+        if (previous1 || previous2) {
+          toast.info('Revising your previous attempt. Its feedback is in the Feedback tab.');
+        } else {
+          toast.error('That attempt could not be found. Starting a new submission.');
+        }
       } else if (isNewSubmissionRequest) {
         // For new submission requests, clear any existing text and IDs
         setSubmissionText1('');
@@ -462,6 +609,7 @@ export default function WritingTest() {
   }, []);
 
   const currentTaskData = activeTask === 'task1' ? task1 : task2;
+  const currentRevisedFrom = activeTask === 'task1' ? revisedFrom.task1 : revisedFrom.task2;
   const currentSubmissionText = activeTask === 'task1' ? submissionText1 : submissionText2;
   const currentWordCount = activeTask === 'task1' ? wordCount1 : wordCount2;
   const onCurrentSubmissionTextChange = activeTask === 'task1' ? setSubmissionText1 : setSubmissionText2;
@@ -483,7 +631,7 @@ export default function WritingTest() {
 }
 
   return (
-    <HighlightNoteProvider testId={testId!}>
+    <HighlightNoteProvider testId={testId!} module="writing">
       <div className="h-screen bg-background flex flex-col overflow-hidden ielts-test-content">
         {/* Top Header - IELTS Official Style */}
         <header className="bg-card border-b border-border px-4 py-3 flex items-center justify-between ielts-section-header" style={{ fontFamily: 'var(--font-ielts)' }}>
@@ -491,7 +639,9 @@ export default function WritingTest() {
             <div className="w-8 h-8 bg-muted rounded-full flex items-center justify-center border border-border">
               <span className="text-xs font-bold" style={{ fontFamily: 'var(--font-ielts)' }}>WR</span>
             </div>
-            <span className="text-sm font-semibold" style={{ fontFamily: 'var(--font-ielts)' }}>Writing Test: {writingTest.title}</span>
+            <span className="text-sm font-semibold" style={{ fontFamily: 'var(--font-ielts)' }}>
+              {isRevision ? 'Revising' : 'Writing Test'}: {writingTest.title}
+            </span>
           </div>
           
           <WritingTimer timeLeft={timeLeft} setTimeLeft={setTimeLeft} isPaused={isPaused} onTimeEnd={handleTimeEnd} />
@@ -527,7 +677,26 @@ export default function WritingTest() {
                   )}
                   style={{ fontFamily: 'var(--font-ielts)' }}
                 >
-                  {currentTaskData && (
+                  {currentTaskData && (currentRevisedFrom ? (
+                    <Tabs defaultValue="feedback">
+                      <TabsList className="mx-6 mt-4">
+                        <TabsTrigger value="task">Task</TabsTrigger>
+                        <TabsTrigger value="feedback">Feedback</TabsTrigger>
+                      </TabsList>
+                      <TabsContent value="task">
+                        <WritingTaskDisplay
+                          testId={testId!}
+                          writingTest={writingTest}
+                          writingTask={currentTaskData}
+                          fontSize={fontSize}
+                          renderRichText={renderRichText}
+                        />
+                      </TabsContent>
+                      <TabsContent value="feedback">
+                        <RevisionFeedbackPanel submission={currentRevisedFrom} fontSize={fontSize} />
+                      </TabsContent>
+                    </Tabs>
+                  ) : (
                     <WritingTaskDisplay
                       testId={testId!}
                       writingTest={writingTest}
@@ -535,7 +704,7 @@ export default function WritingTest() {
                       fontSize={fontSize}
                       renderRichText={renderRichText}
                     />
-                  )}
+                  ))}
                 </div>
               </div>
             </ResizablePanel>
@@ -567,6 +736,7 @@ export default function WritingTest() {
                       isSaving={isSaving}
                       isSubmitting={isSubmitting}
                       fontSize={fontSize}
+                      taskType={activeTask}
                     />
                   )}
                 </div>
@@ -613,6 +783,24 @@ export default function WritingTest() {
           renderRichText={renderRichText}
         />
       )}
+      <RestoreTestStateDialog
+        open={resumedAttempt !== null}
+        timeLeft={resumedAttempt?.snapshot.timeLeft ?? timeLeft}
+        answeredCount={[submissionText1, submissionText2].filter(t => t.trim()).length}
+        totalQuestions={2}
+        progressLabel="Tasks started:"
+        savedAt={resumedAttempt?.savedAt}
+        fromOtherDevice={resumedAttempt?.fromOtherDevice}
+        onStartOver={handleStartOver}
+        onContinue={() => {
+          setResumedAttempt(null);
+          toast.success('Test resumed. Good luck!');
+        }}
+        onSubmit={async () => {
+          setResumedAttempt(null);
+          await handleSubmit();
+        }}
+      />
       {showAILoadingScreen && (
         <AILoadingScreen
           title="Evaluating Your Writing Performance"
@@ -2,7 +2,10 @@ import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { BookOpen, FileText, TrendingUp, Headphones, PenTool, Mic, Brain, Sparkles, Factory } from 'lucide-react';
+import { BookOpen, FileText, TrendingUp, Headphones, PenTool, Mic, Brain, Sparkles, Factory, AlertTriangle, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useSuspiciousItems } from '@/hooks/useItemAnalysis';
+import { ITEM_FLAG_LABELS, SUSPICIOUS_ITEM_FLAGS } from '@/lib/itemAnalysis';
 
 interface Stats {
   readingTests: number;
@@ -23,6 +26,7 @@ export default function AdminDashboard() {
     totalQuestions: 0,
   });
   const [loading, setLoading] = useState(true);
+  const { items: suspiciousItems, loading: suspiciousLoading } = useSuspiciousItems();
 
   useEffect(() => {
     fetchStats();
@@ -148,6 +152,58 @@ export default function AdminDashboard() {
           </div>
         </CardContent>
       </Card>
+
+      {/* Suspicious Items */}
+      <Card className="border-0 shadow-lg mt-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="text-amber-500" />
+            Suspicious Items
+          </CardTitle>
+          <CardDescription>
+            Published questions whose statistics suggest a wrong answer key or a broken item
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {suspiciousLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : suspiciousItems.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No suspicious items. Questions are flagged once a test has enough submissions.
+            </p>
+          ) : (
+            <div className="divide-y">
+              {suspiciousItems.map((item) => (
+                <Link
+                  key={`${item.module}-${item.testId}-${item.questionNumber}`}
+                  to={`/admin/${item.module}/edit/${item.testId}`}
+                  className="flex flex-wrap items-start justify-between gap-3 py-3 hover:bg-muted/50 rounded-md px-2 transition-colors"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary" className="capitalize">{item.module}</Badge>
+                      <span className="font-medium text-sm">{item.testTitle} · Q{item.questionNumber}</span>
+                    </div>
+                    {item.questionText && (
+                      <p className="text-xs text-muted-foreground line-clamp-1">{item.questionText}</p>
+                    )}
+                    <p className="text-xs text-amber-600">
+                      {item.flags.filter(f => SUSPICIOUS_ITEM_FLAGS.includes(f)).map(f => ITEM_FLAG_LABELS[f]).join(' · ')}
+                    </p>
+                  </div>
+                  <div className="text-right text-xs text-muted-foreground font-mono shrink-0">
+                    <p>{Math.round(item.facility * 100)}% correct</p>
+                    <p>D {item.discrimination === null ? 'n/a' : item.discrimination.toFixed(2)}</p>
+                    <p>{item.attempts} attempts</p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
@@ -14,7 +14,11 @@ import {
   Headphones,
   PenTool,
   Mic,
-  Gift
+  Gift,
+  Scale,
+  Target,
+  Coins,
+  CreditCard
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -25,6 +29,10 @@ const sidebarItems = [
   { label: 'Writing Tests', href: '/admin/writing', icon: PenTool },
   { label: 'Speaking Tests', href: '/admin/speaking', icon: Mic },
   { label: 'Promotion Codes', href: '/admin/promotions', icon: Gift },
+  { label: 'Credits', href: '/admin/credits', icon: Coins },
+  { label: 'Plans', href: '/admin/plans', icon: CreditCard },
+  { label: 'Answer Disputes', href: '/admin/disputes', icon: Scale },
+  { label: 'Examiner Calibration', href: '/admin/calibration', icon: Target },
   { label: 'Test Bank', href: '/admin/testbank', icon: FileText },
   { label: 'Settings', href: '/admin/settings', icon: Menu },
 ];
@@ -0,0 +1,232 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Loader2, Scale, Check, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { groupDisputesByQuestion, type AnswerDisputeRow, type DisputeQuestionGroup } from '@/lib/answerDisputes';
+
+type StatusFilter = 'pending' | 'all';
+
+interface ResolveResponse {
+  error?: string;
+  status?: string;
+  rescoredSubmissions?: number;
+  approvedDisputes?: number;
+}
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'outline'> = {
+  pending: 'outline',
+  approved: 'default',
+  rejected: 'secondary',
+};
+
+export default function AnswerDisputesAdmin() {
+  const [disputes, setDisputes] = useState<AnswerDisputeRow[]>([]);
+  const [testTitles, setTestTitles] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<StatusFilter>('pending');
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadDisputes();
+  }, []);
+
+  const loadDisputes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('answer_disputes')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      const rows = (data || []) as AnswerDisputeRow[];
+      setDisputes(rows);
+      setTestTitles(await loadTestTitles(rows));
+    } catch (error) {
+      console.error('Error loading answer disputes:', error);
+      toast.error('Failed to load answer disputes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const groups = useMemo(() => {
+    const all = groupDisputesByQuestion(disputes);
+    return filter === 'pending' ? all.filter(g => g.pendingCount > 0) : all;
+  }, [disputes, filter]);
+
+  const pendingTotal = disputes.filter(d => d.status === 'pending').length;
+
+  const resolveDispute = async (group: DisputeQuestionGroup, dispute: AnswerDisputeRow, decision: 'approve' | 'reject') => {
+    setResolvingId(dispute.id);
+    try {
+      const { data, error } = await supabase.functions.invoke<ResolveResponse>('resolve-answer-dispute', {
+        body: { disputeId: dispute.id, decision, adminNote: notes[group.key] || undefined },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      if (decision === 'approve') {
+        toast.success(
+          `"${dispute.user_answer}" added to the key for Q${group.questionNumber}. ` +
+          `${data?.rescoredSubmissions ?? 0} submission(s) re-scored.`
+        );
+      } else {
+        toast.success('Dispute rejected');
+      }
+      await loadDisputes();
+    } catch (error) {
+      console.error('Error resolving answer dispute:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve dispute');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Answer Disputes</h1>
+          <p className="text-muted-foreground">
+            Review answers students believe should be accepted. Approving adds the answer to the key and re-scores past submissions.
+          </p>
+        </div>
+        <Badge variant="outline" className="text-sm">{pendingTotal} pending</Badge>
+      </div>
+
+      <Tabs value={filter} onValueChange={(value) => setFilter(value as StatusFilter)}>
+        <TabsList>
+          <TabsTrigger value="pending">Pending</TabsTrigger>
+          <TabsTrigger value="all">All</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {groups.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <Scale className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            {filter === 'pending' ? 'No disputes waiting for review' : 'No disputes yet'}
+          </CardContent>
+        </Card>
+      ) : (
+        groups.map((group) => (
+          <Card key={group.key}>
+            <CardHeader>
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="secondary" className="capitalize">{group.module}</Badge>
+                {group.source === 'ai_practice' && <Badge variant="outline">AI Practice</Badge>}
+                <CardTitle className="text-lg">
+                  {testTitles[group.testId] || 'Untitled test'} · Q{group.questionNumber}
+                </CardTitle>
+              </div>
+              {group.questionText && <CardDescription>{group.questionText}</CardDescription>}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Answer key when disputed:</span>
+                <span className="font-semibold">{group.correctAnswer}</span>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {group.answers.map(({ answer, count }) => (
+                  <Badge key={answer} variant="outline" className="text-sm">
+                    {answer} <span className="ml-1 text-muted-foreground">×{count}</span>
+                  </Badge>
+                ))}
+              </div>
+
+              <div className="divide-y rounded-lg border">
+                {group.disputes
+                  .filter(d => filter === 'all' || d.status === 'pending')
+                  .map((dispute) => (
+                    <div key={dispute.id} className="flex flex-wrap items-start justify-between gap-3 p-3">
+                      <div className="space-y-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{dispute.user_answer}</span>
+                          <Badge variant={STATUS_VARIANTS[dispute.status] || 'outline'} className="capitalize text-xs">
+                            {dispute.status}
+                          </Badge>
+                          <span className="text-xs text-muted-foreground">
+                            {format(new Date(dispute.created_at), 'MMM d, yyyy')}
+                          </span>
+                        </div>
+                        {dispute.reason && <p className="text-sm text-muted-foreground">{dispute.reason}</p>}
+                        {dispute.admin_note && <p className="text-xs text-muted-foreground italic">Note: {dispute.admin_note}</p>}
+                      </div>
+                      {dispute.status === 'pending' && (
+                        <div className="flex gap-2 shrink-0">
+                          <Button
+                            size="sm"
+                            onClick={() => resolveDispute(group, dispute, 'approve')}
+                            disabled={resolvingId !== null}
+                          >
+                            {resolvingId === dispute.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4 mr-1" />}
+                            Accept answer
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => resolveDispute(group, dispute, 'reject')}
+                            disabled={resolvingId !== null}
+                          >
+                            <X className="w-4 h-4 mr-1" />
+                            Reject
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+              </div>
+
+              {group.pendingCount > 0 && (
+                <Textarea
+                  value={notes[group.key] || ''}
+                  onChange={(e) => setNotes(prev => ({ ...prev, [group.key]: e.target.value }))}
+                  placeholder="Note for the audit trail (optional)"
+                  rows={2}
+                />
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
+
+/** Titles of the disputed tests, keyed by test id */
+async function loadTestTitles(rows: AnswerDisputeRow[]): Promise<Record<string, string>> {
+  const idsFor = (source: string, module?: string) => [
+    ...new Set(rows.filter(r => r.source === source && (!module || r.module === module)).map(r => r.test_id)),
+  ];
+  const readingIds = idsFor('test', 'reading');
+  const listeningIds = idsFor('test', 'listening');
+  const practiceIds = idsFor('ai_practice');
+
+  const [reading, listening, practice] = await Promise.all([
+    readingIds.length ? supabase.from('reading_tests').select('id, title').in('id', readingIds) : null,
+    listeningIds.length ? supabase.from('listening_tests').select('id, title').in('id', listeningIds) : null,
+    practiceIds.length ? supabase.from('ai_practice_tests').select('id, topic').in('id', practiceIds) : null,
+  ]);
+
+  return Object.fromEntries([
+    ...(reading?.data || []).map(t => [t.id, t.title]),
+    ...(listening?.data || []).map(t => [t.id, t.title]),
+    ...(practice?.data || []).map(t => [t.id, t.topic]),
+  ]);
+}
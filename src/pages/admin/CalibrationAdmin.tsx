@@ -0,0 +1,378 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Loader2, Target, Play, Upload, TrendingDown } from 'lucide-react';
+import { format } from 'date-fns';
+import { zodIssues } from '@/lib/aiSchemas';
+import { combinePromptVersions } from '@/lib/promptRegistry';
+import {
+  CALIBRATION_CRITERION_LABELS,
+  calibrationDatasetSchema,
+  calibrationScriptRows,
+  compareCalibrationRuns,
+  summarizeCalibration,
+  type AgreementStats,
+  type CalibrationCriterion,
+  type CalibrationModule,
+  type CalibrationRegression,
+  type CalibrationScriptResult,
+  type CalibrationSummary,
+} from '@/lib/calibration';
+
+type CalibrationRun = Tables<'calibration_runs'>;
+
+interface DatasetOption {
+  key: string;
+  dataset: string;
+  module: CalibrationModule;
+  scriptIds: string[];
+}
+
+interface RunCalibrationResponse {
+  error?: string;
+  results?: CalibrationScriptResult[];
+}
+
+/** Edge function whose prompt each module's calibration exercises */
+const EVALUATORS: Record<CalibrationModule, string> = {
+  writing: 'evaluate-ai-practice-writing',
+  speaking: 'evaluate-speaking-submission',
+};
+
+// Matches MAX_SCRIPTS_PER_CALL in the run-calibration edge function
+const BATCH_SIZE = 5;
+
+const METRIC_LABELS: Record<CalibrationRegression['metric'], string> = {
+  meanAbsoluteError: 'MAE',
+  exactRate: 'exact agreement',
+  bias: 'bias',
+};
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+const summaryOf = (run: CalibrationRun) => run.summary as unknown as CalibrationSummary;
+
+export default function CalibrationAdmin() {
+  const { user } = useAuth();
+  const [datasets, setDatasets] = useState<DatasetOption[]>([]);
+  const [runs, setRuns] = useState<CalibrationRun[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string>('');
+  const [loading, setLoading] = useState(true);
+  const [importText, setImportText] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [scriptsRes, runsRes] = await Promise.all([
+        supabase.from('calibration_scripts').select('id, dataset, module').order('created_at', { ascending: true }),
+        supabase.from('calibration_runs').select('*').order('created_at', { ascending: false }),
+      ]);
+      if (scriptsRes.error) throw scriptsRes.error;
+      if (runsRes.error) throw runsRes.error;
+
+      const byKey = new Map<string, DatasetOption>();
+      for (const script of scriptsRes.data || []) {
+        const key = `${script.dataset}|${script.module}`;
+        const option = byKey.get(key) || { key, dataset: script.dataset, module: script.module as CalibrationModule, scriptIds: [] };
+        option.scriptIds.push(script.id);
+        byKey.set(key, option);
+      }
+      const options = [...byKey.values()];
+      setDatasets(options);
+      setRuns(runsRes.data || []);
+      setSelectedKey(current => current || options[0]?.key || '');
+    } catch (error) {
+      console.error('Error loading calibration data:', error);
+      toast.error('Failed to load calibration data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selected = datasets.find(d => d.key === selectedKey);
+  const selectedRuns = useMemo(
+    () => runs.filter(r => selected && r.dataset === selected.dataset && r.module === selected.module),
+    [runs, selected],
+  );
+
+  const importDataset = async () => {
+    let json: unknown;
+    try {
+      json = JSON.parse(importText);
+    } catch {
+      toast.error('Dataset is not valid JSON');
+      return;
+    }
+    const parsed = calibrationDatasetSchema.safeParse(json);
+    if (!parsed.success) {
+      const issues = zodIssues(parsed.error).slice(0, 3).map(i => `${i.path}: ${i.message}`);
+      toast.error(`Dataset rejected — ${issues.join('; ')}`);
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const rows = calibrationScriptRows(parsed.data).map(row => ({ ...row, created_by: user?.id }));
+      const { error } = await supabase.from('calibration_scripts').insert(rows);
+      if (error) throw error;
+      toast.success(`Imported ${rows.length} script(s) into "${parsed.data.dataset}"`);
+      setImportText('');
+      await loadData();
+    } catch (error) {
+      console.error('Error importing calibration dataset:', error);
+      toast.error('Failed to import dataset');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const runCalibration = async () => {
+    if (!selected || !user) return;
+    const { scriptIds, module } = selected;
+    const results: CalibrationScriptResult[] = [];
+    setProgress({ done: 0, total: scriptIds.length });
+
+    try {
+      for (let i = 0; i < scriptIds.length; i += BATCH_SIZE) {
+        const { data, error } = await supabase.functions.invoke<RunCalibrationResponse>('run-calibration', {
+          body: { scriptIds: scriptIds.slice(i, i + BATCH_SIZE) },
+        });
+        if (error) throw error;
+        if (data?.error) throw new Error(data.error);
+        results.push(...(data?.results || []));
+        setProgress({ done: Math.min(i + BATCH_SIZE, scriptIds.length), total: scriptIds.length });
+      }
+
+      const summary = summarizeCalibration(module, results);
+      const { error } = await supabase.from('calibration_runs').insert({
+        dataset: selected.dataset,
+        module,
+        evaluator: EVALUATORS[module],
+        prompt_version: combinePromptVersions(results.map(r => r.promptVersion)),
+        model: [...new Set(results.map(r => r.model).filter(Boolean))].join(',') || null,
+        script_count: results.length,
+        failed_count: summary.failed,
+        summary: summary as unknown as Json,
+        results: results as unknown as Json,
+        created_by: user.id,
+      });
+      if (error) throw error;
+
+      toast.success(summary.failed ? `Run saved (${summary.failed} script(s) failed)` : 'Calibration run saved');
+      await loadData();
+    } catch (error) {
+      console.error('Error running calibration:', error);
+      toast.error(error instanceof Error ? error.message : 'Calibration run failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const [latest, previous] = selectedRuns;
+  const regressions = latest && previous ? compareCalibrationRuns(summaryOf(latest), summaryOf(previous)) : [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Examiner Calibration</h1>
+        <p className="text-muted-foreground">
+          Run the AI examiners over human-scored scripts and track how closely their bands agree with official marking.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Run calibration</CardTitle>
+          <CardDescription>Each run scores every script in the dataset with the current evaluator prompt and model.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {datasets.length === 0 ? (
+            <div className="py-6 text-center text-sm text-muted-foreground">
+              <Target className="w-10 h-10 mx-auto mb-3 opacity-50" />
+              No calibration datasets yet. Import a human-scored dataset below.
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-3">
+              <Select value={selectedKey} onValueChange={setSelectedKey} disabled={progress !== null}>
+                <SelectTrigger className="w-72">
+                  <SelectValue placeholder="Choose a dataset" />
+                </SelectTrigger>
+                <SelectContent>
+                  {datasets.map(d => (
+                    <SelectItem key={d.key} value={d.key}>
+                      {d.dataset} · <span className="capitalize">{d.module}</span> ({d.scriptIds.length})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={runCalibration} disabled={!selected || progress !== null}>
+                {progress ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                Run {selected ? EVALUATORS[selected.module] : 'evaluator'}
+              </Button>
+            </div>
+          )}
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={(progress.done / progress.total) * 100} />
+              <p className="text-xs text-muted-foreground">{progress.done} / {progress.total} scripts scored</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {latest && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center gap-2">
+              <CardTitle className="text-lg">Latest run</CardTitle>
+              <Badge variant="outline">{format(new Date(latest.created_at), 'MMM d, yyyy HH:mm')}</Badge>
+              {latest.prompt_version && <Badge variant="secondary">{latest.prompt_version}</Badge>}
+              {latest.model && <Badge variant="secondary">{latest.model}</Badge>}
+            </div>
+            <CardDescription>
+              {latest.script_count} script(s){latest.failed_count ? `, ${latest.failed_count} failed` : ''}.
+              Adjacent means within half a band; positive bias means the AI marks higher than examiners.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {regressions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {regressions.map(r => (
+                  <Badge key={`${r.criterion}-${r.metric}`} variant="destructive" className="gap-1">
+                    <TrendingDown className="w-3 h-3" />
+                    {r.criterion === 'overall' ? 'Overall' : CALIBRATION_CRITERION_LABELS[r.criterion]} {METRIC_LABELS[r.metric]}:
+                    {' '}{r.metric === 'exactRate' ? `${percent(r.previous)} → ${percent(r.current)}` : `${signed(r.previous)} → ${signed(r.current)}`}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <AgreementTable summary={summaryOf(latest)} />
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedRuns.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Run history</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Prompt</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">Scripts</TableHead>
+                  <TableHead className="text-right">Exact</TableHead>
+                  <TableHead className="text-right">Adjacent</TableHead>
+                  <TableHead className="text-right">MAE</TableHead>
+                  <TableHead className="text-right">Bias</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedRuns.map(run => {
+                  const overall = summaryOf(run).overall;
+                  return (
+                    <TableRow key={run.id}>
+                      <TableCell>{format(new Date(run.created_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                      <TableCell className="font-mono text-xs">{run.prompt_version || '—'}</TableCell>
+                      <TableCell className="text-xs">{run.model || '—'}</TableCell>
+                      <TableCell className="text-right">{run.script_count - run.failed_count}/{run.script_count}</TableCell>
+                      <TableCell className="text-right">{overall ? percent(overall.exactRate) : '—'}</TableCell>
+                      <TableCell className="text-right">{overall ? percent(overall.adjacentRate) : '—'}</TableCell>
+                      <TableCell className="text-right">{overall ? overall.meanAbsoluteError.toFixed(2) : '—'}</TableCell>
+                      <TableCell className="text-right">{overall ? signed(overall.bias) : '—'}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Import dataset</CardTitle>
+          <CardDescription>
+            Paste JSON: {'{ "dataset": "Cambridge 18", "scripts": [{ "module": "writing", "task_type": "task2", "instruction": "…", "script": "…", "official_overall": 6.5, "official_bands": { "task_response": 6, "coherence_cohesion": 7, "lexical_resource": 6.5, "grammatical_range_accuracy": 6.5 } }] }'}.
+            Speaking scripts use a transcript and the bands fluency_coherence, lexical_resource, grammatical_range_accuracy (pronunciation optional).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            placeholder='{ "dataset": "…", "scripts": [ … ] }'
+            rows={8}
+            className="font-mono text-xs"
+          />
+          <Button onClick={importDataset} disabled={!importText.trim() || importing}>
+            {importing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Import scripts
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function AgreementTable({ summary }: { summary: CalibrationSummary }) {
+  const rows: Array<[string, AgreementStats | null | undefined]> = [
+    ['Overall band', summary.overall],
+    ...(Object.keys(summary.criteria) as CalibrationCriterion[]).map(
+      c => [CALIBRATION_CRITERION_LABELS[c], summary.criteria[c]] as [string, AgreementStats | undefined],
+    ),
+  ];
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Criterion</TableHead>
+          <TableHead className="text-right">Scripts</TableHead>
+          <TableHead className="text-right">Exact</TableHead>
+          <TableHead className="text-right">Adjacent</TableHead>
+          <TableHead className="text-right">MAE</TableHead>
+          <TableHead className="text-right">Bias</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(([label, stats]) => (
+          <TableRow key={label}>
+            <TableCell className="font-medium">{label}</TableCell>
+            <TableCell className="text-right">{stats?.count ?? 0}</TableCell>
+            <TableCell className="text-right">{stats ? percent(stats.exactRate) : '—'}</TableCell>
+            <TableCell className="text-right">{stats ? percent(stats.adjacentRate) : '—'}</TableCell>
+            <TableCell className="text-right">{stats ? stats.meanAbsoluteError.toFixed(2) : '—'}</TableCell>
+            <TableCell className="text-right">{stats ? signed(stats.bias) : '—'}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Loader2, Coins, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+
+type CreditTransactionRow = Tables<'credit_transactions'>;
+
+// Large grants are almost always a typo
+const MAX_GRANT = 1000;
+
+export default function CreditsAdmin() {
+  const [grants, setGrants] = useState<CreditTransactionRow[]>([]);
+  const [emails, setEmails] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [granting, setGranting] = useState(false);
+  const [email, setEmail] = useState('');
+  const [amount, setAmount] = useState('50');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    loadGrants();
+  }, []);
+
+  const loadGrants = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('credit_transactions')
+        .select('*')
+        .in('kind', ['grant', 'promo'])
+        .order('created_at', { ascending: false })
+        .limit(100);
+      if (error) throw error;
+
+      const rows = data || [];
+      const userIds = [...new Set(rows.flatMap(r => [r.user_id, r.created_by]).filter((id): id is string => !!id))];
+      if (userIds.length > 0) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from('profiles')
+          .select('id, email')
+          .in('id', userIds);
+        if (profilesError) throw profilesError;
+        setEmails(Object.fromEntries((profiles || []).map(p => [p.id, p.email ?? p.id])));
+      }
+      setGrants(rows);
+    } catch (error) {
+      console.error('Error loading credit grants:', error);
+      toast.error('Failed to load credit grants');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleGrant = async () => {
+    const credits = parseInt(amount, 10);
+    if (!email.trim()) {
+      toast.error('Enter the user\'s email');
+      return;
+    }
+    if (!Number.isInteger(credits) || credits < 1 || credits > MAX_GRANT) {
+      toast.error(`Amount must be between 1 and ${MAX_GRANT}`);
+      return;
+    }
+    if (!note.trim()) {
+      toast.error('Add a note explaining the grant');
+      return;
+    }
+
+    setGranting(true);
+    try {
+      const { error } = await supabase.rpc('grant_credits', {
+        p_email: email.trim(),
+        p_amount: credits,
+        p_note: note.trim(),
+      });
+      if (error) throw error;
+      toast.success(`Granted ${credits} credits to ${email.trim()}`);
+      setEmail('');
+      setNote('');
+      await loadGrants();
+    } catch (error) {
+      console.error('Error granting credits:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to grant credits');
+    } finally {
+      setGranting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Credits</h1>
+        <p className="text-muted-foreground">Grant bonus credits and review credits added outside daily allowances</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="w-5 h-5" />
+            Grant Credits
+          </CardTitle>
+          <CardDescription>
+            Bonus credits don't expire and are used once the user's daily allowance runs out. The note is shown in their credit history.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="grant-email">User Email</Label>
+              <Input
+                id="grant-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="student@example.com"
+                className="w-64"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="grant-amount">Credits</Label>
+              <Input
+                id="grant-amount"
+                type="number"
+                min="1"
+                max={MAX_GRANT}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-24"
+              />
+            </div>
+            <div className="space-y-2 flex-1 min-w-[16rem]">
+              <Label htmlFor="grant-note">Note</Label>
+              <Input
+                id="grant-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="e.g. Compensation for failed evaluations on Jan 12"
+              />
+            </div>
+            <Button onClick={handleGrant} disabled={granting}>
+              {granting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Grant
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Grants and Promotions ({grants.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {grants.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No credits have been granted yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Credits</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead>Granted By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {grants.map((grant) => (
+                  <TableRow key={grant.id}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(grant.created_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                    <TableCell>{emails[grant.user_id] ?? grant.user_id}</TableCell>
+                    <TableCell>
+                      <Badge variant={grant.kind === 'grant' ? 'secondary' : 'outline'}>
+                        {grant.kind === 'grant' ? 'Admin grant' : grant.reference ?? 'Promotion'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">+{grant.amount}</TableCell>
+                    <TableCell className="max-w-xs truncate">{grant.note}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {grant.created_by ? emails[grant.created_by] ?? grant.created_by : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
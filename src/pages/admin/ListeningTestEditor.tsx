@@ -19,6 +19,9 @@ import {
 } from '@/components/admin/ListeningQuestionGroupEditor';
 import { FullListeningTestPreview } from '@/components/admin/FullListeningTestPreview';
 import { Json } from '@/integrations/supabase/types'; // Import Json type
+import { AnswerMatchingRulesEditor } from '@/components/admin/AnswerMatchingRulesEditor';
+import { parseAnswerMatchingConfig, type AnswerMatchingConfig } from '@/lib/ieltsAnswerValidation';
+import { useItemAnalysis } from '@/hooks/useItemAnalysis';
 
 interface PartTimestamp {
   partNumber: number;
@@ -45,6 +48,7 @@ interface TestData {
   transcript_part4?: string | null;
   part_timestamps?: PartTimestamp[];
   test_type?: string;
+  answer_matching?: AnswerMatchingConfig | null;
 }
 
 const TEST_TYPES = [
@@ -71,6 +75,7 @@ export default function ListeningTestEditor() {
   const { testId } = useParams();
   const navigate = useNavigate();
   const isEditing = !!testId;
+  const { stats: itemStats } = useItemAnalysis('listening', testId);
 
   const [saving, setSaving] = useState(false);
   const [autoSaveStatus, setAutoSaveStatus] = useState<'saved' | 'saving' | 'unsaved'>('saved');
@@ -161,17 +166,28 @@ export default function ListeningTestEditor() {
         .single();
 
       if (testError) throw testError;
-      setTestData(test);
+      setTestData({ ...test, answer_matching: parseAnswerMatchingConfig(test.answer_matching) });
 
       // Fetch question groups and questions
       const { data: groupsData, error: groupsError } = await supabase
         .from('listening_question_groups')
-        .select('*, listening_questions(*)')
+        .select('*')
         .eq('test_id', testId!)
         .order('start_question');
 
       if (groupsError) throw groupsError;
 
+      // The answer key isn't readable from the tables; admins load it through an RPC
+      const { data: questionsData, error: questionsError } = await supabase
+        .rpc('get_admin_listening_questions', { p_group_ids: (groupsData || []).map(g => g.id) });
+
+      if (questionsError) throw questionsError;
+
+      const questionsByGroup: Record<string, NonNullable<typeof questionsData>> = {};
+      for (const q of (questionsData || [])) {
+        (questionsByGroup[q.group_id] ||= []).push(q);
+      }
+
       const formattedGroups = (groupsData || []).map(g => {
         let groupOptions: any = g.options;
 
@@ -229,7 +245,7 @@ export default function ListeningTestEditor() {
 
         return {
           ...g,
-          questions: (g.listening_questions || []).map(q => ({
+          questions: (questionsByGroup[g.id] || []).map(q => ({
             id: q.id,
             question_number: q.question_number,
             question_type: g.question_type, // Get from group
@@ -244,6 +260,9 @@ export default function ListeningTestEditor() {
             option_format: q.option_format || 'A',
           })).sort((a, b) => a.question_number - b.question_number),
           options: groupOptions, // Use the parsed groupOptions
+          answer_matching: parseAnswerMatchingConfig(g.answer_matching),
+          max_words: g.max_words,
+          max_numbers: g.max_numbers,
           option_format: (groupOptions as any)?.option_format || 'A', // Extract option_format if present
           num_sub_questions: (groupOptions as any)?.num_sub_questions || 2, // Extract num_sub_questions if present
         };
@@ -262,7 +281,8 @@ export default function ListeningTestEditor() {
       let savedTestId = testId;
 
       // Prepare test data for saving - exclude part_timestamps which doesn't exist in DB
-      const { part_timestamps, ...testDataToSave } = testData;
+      const { part_timestamps, answer_matching, ...testFields } = testData;
+      const testDataToSave = { ...testFields, answer_matching: (answer_matching ?? null) as unknown as Json };
 
       // Save test (audio is optional - can be added later)
       if (isEditing) {
@@ -371,6 +391,9 @@ export default function ListeningTestEditor() {
               start_timestamp_seconds: group.start_timestamp_seconds ?? 0,
               group_heading: group.group_heading || null,
               group_heading_alignment: group.group_heading_alignment || 'center',
+              answer_matching: (group.answer_matching ?? null) as unknown as Json,
+              max_words: group.max_words ?? null,
+              max_numbers: group.max_numbers ?? null,
             })
             .select()
             .single();
@@ -648,6 +671,11 @@ export default function ListeningTestEditor() {
                 />
                 <Label>Published</Label>
               </div>
+
+              <AnswerMatchingRulesEditor
+                value={testData.answer_matching}
+                onChange={(answer_matching) => setTestData({ ...testData, answer_matching })}
+              />
             </CardContent>
           </Card>
         </TabsContent>
@@ -841,6 +869,7 @@ export default function ListeningTestEditor() {
               onUpdateAllGroups={setQuestionGroups} // Update ALL groups
               activePart={activePart}
               partRanges={LISTENING_PART_RANGES}
+              itemStats={itemStats}
             />
           </div>
         </TabsContent>
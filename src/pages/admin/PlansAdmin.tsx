@@ -0,0 +1,328 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Loader2, CreditCard, Plus, Pencil } from 'lucide-react';
+import { zodIssues } from '@/lib/aiSchemas';
+import {
+  ENTITLEMENT_KEYS,
+  ENTITLEMENTS,
+  formatEntitlementLimit,
+  planSchema,
+  type EntitlementKey,
+  type PlanEntitlements,
+  type SubscriptionPlan,
+} from '@/lib/entitlements';
+
+/** Form state: numbers as typed, limits blank for unlimited */
+interface PlanDraft {
+  id: string | null;
+  slug: string;
+  name: string;
+  description: string;
+  price_monthly: string;
+  limits: Record<EntitlementKey, string>;
+  is_active: boolean;
+  is_default: boolean;
+  sort_order: string;
+}
+
+const EMPTY_DRAFT: PlanDraft = {
+  id: null,
+  slug: '',
+  name: '',
+  description: '',
+  price_monthly: '0',
+  limits: { daily_credits: '100', ai_evaluations: '', full_mocks: '', speaking_minutes: '' },
+  is_active: true,
+  is_default: false,
+  sort_order: '0',
+};
+
+const toDraft = (plan: SubscriptionPlan): PlanDraft => ({
+  id: plan.id,
+  slug: plan.slug,
+  name: plan.name,
+  description: plan.description ?? '',
+  price_monthly: String(plan.price_monthly),
+  limits: Object.fromEntries(
+    ENTITLEMENT_KEYS.map(key => [key, plan.entitlements[key] == null ? '' : String(plan.entitlements[key])]),
+  ) as Record<EntitlementKey, string>,
+  is_active: plan.is_active,
+  is_default: plan.is_default,
+  sort_order: String(plan.sort_order),
+});
+
+const fromDraft = (draft: PlanDraft) => ({
+  slug: draft.slug,
+  name: draft.name,
+  description: draft.description.trim() || null,
+  price_monthly: Number(draft.price_monthly),
+  entitlements: Object.fromEntries(
+    ENTITLEMENT_KEYS.map(key => [key, draft.limits[key].trim() === '' ? null : Number(draft.limits[key])]),
+  ),
+  is_active: draft.is_active,
+  is_default: draft.is_default,
+  sort_order: Number(draft.sort_order),
+});
+
+export default function PlansAdmin() {
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<PlanDraft | null>(null);
+
+  useEffect(() => {
+    loadPlans();
+  }, []);
+
+  const loadPlans = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('subscription_plans')
+        .select('*')
+        .order('sort_order');
+      if (error) throw error;
+      setPlans((data || []).map(p => ({
+        ...p,
+        price_monthly: Number(p.price_monthly),
+        entitlements: p.entitlements as unknown as PlanEntitlements,
+      })));
+    } catch (error) {
+      console.error('Error loading plans:', error);
+      toast.error('Failed to load plans');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const parsed = planSchema.safeParse(fromDraft(draft));
+    if (!parsed.success) {
+      const issues = zodIssues(parsed.error).slice(0, 3).map(i => `${i.path}: ${i.message}`);
+      toast.error(`Plan rejected — ${issues.join('; ')}`);
+      return;
+    }
+    const current = plans.find(p => p.id === draft.id);
+    if (current?.is_default && !parsed.data.is_default) {
+      toast.error('Make another plan the default instead');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Only one plan can be the default
+      if (parsed.data.is_default) {
+        const { error } = await supabase
+          .from('subscription_plans')
+          .update({ is_default: false })
+          .eq('is_default', true)
+          .neq('id', draft.id ?? '00000000-0000-0000-0000-000000000000');
+        if (error) throw error;
+      }
+
+      const row = parsed.data as TablesInsert<'subscription_plans'>;
+      const { error } = draft.id
+        ? await supabase.from('subscription_plans').update(row).eq('id', draft.id)
+        : await supabase.from('subscription_plans').insert(row);
+      if (error) throw error;
+
+      toast.success(draft.id ? `Updated ${parsed.data.name}` : `Created ${parsed.data.name}`);
+      setDraft(null);
+      await loadPlans();
+    } catch (error) {
+      console.error('Error saving plan:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to save plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Plans</h1>
+          <p className="text-muted-foreground">Subscription plans and the entitlements each one grants</p>
+        </div>
+        {!draft && (
+          <Button onClick={() => setDraft(EMPTY_DRAFT)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Plan
+          </Button>
+        )}
+      </div>
+
+      {draft && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CreditCard className="w-5 h-5" />
+              {draft.id ? `Edit ${draft.name}` : 'New Plan'}
+            </CardTitle>
+            <CardDescription>
+              Changes apply to everyone on the plan straight away. Leave a monthly limit blank for unlimited.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-4">
+              <div className="space-y-2">
+                <Label htmlFor="plan-name">Name</Label>
+                <Input id="plan-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-slug">Slug</Label>
+                <Input
+                  id="plan-slug"
+                  value={draft.slug}
+                  onChange={(e) => setDraft({ ...draft, slug: e.target.value })}
+                  placeholder="plus"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-price">Price per month ($)</Label>
+                <Input
+                  id="plan-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.price_monthly}
+                  onChange={(e) => setDraft({ ...draft, price_monthly: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-order">Sort order</Label>
+                <Input
+                  id="plan-order"
+                  type="number"
+                  value={draft.sort_order}
+                  onChange={(e) => setDraft({ ...draft, sort_order: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="plan-description">Description</Label>
+              <Input
+                id="plan-description"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              />
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-4">
+              {ENTITLEMENT_KEYS.map(key => (
+                <div key={key} className="space-y-2">
+                  <Label htmlFor={`plan-${key}`}>{ENTITLEMENTS[key].label} / {ENTITLEMENTS[key].period}</Label>
+                  <Input
+                    id={`plan-${key}`}
+                    type="number"
+                    min="0"
+                    value={draft.limits[key]}
+                    onChange={(e) => setDraft({ ...draft, limits: { ...draft.limits, [key]: e.target.value } })}
+                    placeholder={key === 'daily_credits' ? undefined : 'Unlimited'}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="plan-active"
+                  checked={draft.is_active}
+                  onCheckedChange={(checked) => setDraft({ ...draft, is_active: checked })}
+                />
+                <Label htmlFor="plan-active">Offered to users</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="plan-default"
+                  checked={draft.is_default}
+                  onCheckedChange={(checked) => setDraft({ ...draft, is_default: checked, is_active: checked || draft.is_active })}
+                />
+                <Label htmlFor="plan-default">Default plan for users without a subscription</Label>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Plan
+              </Button>
+              <Button variant="outline" onClick={() => setDraft(null)} disabled={saving}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Plans ({plans.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Plan</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                {ENTITLEMENT_KEYS.map(key => (
+                  <TableHead key={key}>{ENTITLEMENTS[key].label}</TableHead>
+                ))}
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plans.map(plan => (
+                <TableRow key={plan.id}>
+                  <TableCell>
+                    <p className="font-medium">{plan.name}</p>
+                    <p className="text-xs text-muted-foreground">{plan.slug}</p>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">${plan.price_monthly.toFixed(2)}</TableCell>
+                  {ENTITLEMENT_KEYS.map(key => (
+                    <TableCell key={key} className="text-sm">
+                      {formatEntitlementLimit(key, plan.entitlements[key] ?? null)}
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    <div className="flex gap-1">
+                      {plan.is_default && <Badge>Default</Badge>}
+                      <Badge variant={plan.is_active ? 'secondary' : 'outline'}>
+                        {plan.is_active ? 'Active' : 'Hidden'}
+                      </Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => setDraft(toDraft(plan))}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
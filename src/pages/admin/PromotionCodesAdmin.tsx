@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,94 +10,277 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
-import { Loader2, Plus, Copy, Trash2, Gift, CheckCircle2 } from 'lucide-react';
+import { Loader2, Plus, Copy, Trash2, Gift, Download, Pause, Play } from 'lucide-react';
 import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import {
+  campaignStatus,
+  describePromotionReward,
+  generatePromotionCode,
+  normalizePromotionCode,
+  redemptionsToCsv,
+  type CampaignStatus,
+  type PromotionCampaign,
+  type PromotionCode,
+  type PromotionRewardType,
+} from '@/lib/promotions';
 
-interface PromotionCode {
-  id: string;
-  code: string;
-  duration_days: number;
-  created_at: string;
-  claimed_by: string | null;
-  claimed_at: string | null;
-  expires_at: string | null;
+type RedemptionRow = Tables<'promotion_redemptions'>;
+type PlanOption = Pick<Tables<'subscription_plans'>, 'id' | 'name'>;
+
+const MAX_CODES_PER_BATCH = 50;
+
+const STATUS_BADGES: Record<CampaignStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-500/10 text-green-600 border-green-500/30' },
+  scheduled: { label: 'Scheduled', className: 'bg-blue-500/10 text-blue-600 border-blue-500/30' },
+  paused: { label: 'Paused', className: 'bg-muted text-muted-foreground' },
+  ended: { label: 'Ended', className: 'bg-muted text-muted-foreground' },
+  exhausted: { label: 'Fully redeemed', className: 'bg-amber-500/10 text-amber-600 border-amber-500/30' },
+};
+
+interface CampaignDraft {
+  name: string;
+  description: string;
+  reward_type: PromotionRewardType;
+  reward_plan_id: string;
+  reward_amount: string;
+  starts_at: string;
+  ends_at: string;
+  max_redemptions: string;
+  per_user_limit: string;
 }
 
-const DURATION_OPTIONS = [
-  { value: '7', label: '1 Week (7 days)' },
-  { value: '30', label: '1 Month (30 days)' },
-  { value: '180', label: '6 Months (180 days)' },
-];
-
-// Generate a random promotion code
-const generateCode = (): string => {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-  let code = 'IELTS-';
-  for (let i = 0; i < 8; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return code;
+const EMPTY_CAMPAIGN: CampaignDraft = {
+  name: '',
+  description: '',
+  reward_type: 'plan_days',
+  reward_plan_id: '',
+  reward_amount: '30',
+  starts_at: '',
+  ends_at: '',
+  max_redemptions: '',
+  per_user_limit: '1',
 };
 
+const optionalInt = (value: string) => (value.trim() === '' ? null : parseInt(value, 10));
+// Date inputs give a local day; campaigns run from the start of starts_at to the end of ends_at
+const startOfDay = (value: string) => (value ? new Date(`${value}T00:00:00`).toISOString() : null);
+const endOfDay = (value: string) => (value ? new Date(`${value}T23:59:59.999`).toISOString() : null);
+const formatDate = (value: string | null) => (value ? format(new Date(value), 'MMM d, yyyy') : '—');
+
 export default function PromotionCodesAdmin() {
   const { user } = useAuth();
-  const [codes, setCodes] = useState<PromotionCode[]>([]);
+  const [campaigns, setCampaigns] = useState<PromotionCampaign[]>([]);
+  const [plans, setPlans] = useState<PlanOption[]>([]);
+  const [redemptionCounts, setRedemptionCounts] = useState<{ campaigns: Record<string, number>; codes: Record<string, number> }>({ campaigns: {}, codes: {} });
   const [loading, setLoading] = useState(true);
+  const [campaignDraft, setCampaignDraft] = useState<CampaignDraft | null>(null);
+  const [savingCampaign, setSavingCampaign] = useState(false);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [codes, setCodes] = useState<PromotionCode[]>([]);
+  const [redemptions, setRedemptions] = useState<RedemptionRow[]>([]);
+  const [emails, setEmails] = useState<Record<string, string>>({});
+  const [loadingDetail, setLoadingDetail] = useState(false);
+
   const [creating, setCreating] = useState(false);
-  const [selectedDuration, setSelectedDuration] = useState('30');
   const [codeCount, setCodeCount] = useState('1');
+  const [sharedCode, setSharedCode] = useState('');
+  const [sharedCodeMax, setSharedCodeMax] = useState('');
+  const [codeExpiry, setCodeExpiry] = useState('');
 
   useEffect(() => {
-    loadCodes();
+    loadCampaigns();
   }, []);
 
-  const loadCodes = async () => {
+  useEffect(() => {
+    if (selectedId) loadCampaignDetail(selectedId);
+  }, [selectedId]);
+
+  const selected = campaigns.find(c => c.id === selectedId) ?? null;
+  const planNames = useMemo(() => Object.fromEntries(plans.map(p => [p.id, p.name])), [plans]);
+  const codeById = useMemo(() => Object.fromEntries(codes.map(c => [c.id, c.code])), [codes]);
+
+  const loadCampaigns = async () => {
     try {
-      const { data, error } = await supabase
-        .from('promotion_codes' as any)
-        .select('*')
-        .order('created_at', { ascending: false });
+      const [campaignsResult, plansResult, redemptionsResult] = await Promise.all([
+        supabase.from('promotion_campaigns').select('*').order('created_at', { ascending: false }),
+        supabase.from('subscription_plans').select('id, name').eq('is_default', false).order('sort_order'),
+        supabase.from('promotion_redemptions').select('campaign_id, code_id'),
+      ]);
+      if (campaignsResult.error) throw campaignsResult.error;
+      if (plansResult.error) throw plansResult.error;
+      if (redemptionsResult.error) throw redemptionsResult.error;
 
-      if (error) throw error;
-      setCodes(((data as unknown) as PromotionCode[]) || []);
+      const counts = { campaigns: {} as Record<string, number>, codes: {} as Record<string, number> };
+      for (const r of redemptionsResult.data || []) {
+        counts.campaigns[r.campaign_id] = (counts.campaigns[r.campaign_id] ?? 0) + 1;
+        counts.codes[r.code_id] = (counts.codes[r.code_id] ?? 0) + 1;
+      }
+      setCampaigns((campaignsResult.data || []) as PromotionCampaign[]);
+      setPlans(plansResult.data || []);
+      setRedemptionCounts(counts);
     } catch (error) {
-      console.error('Error loading codes:', error);
-      toast.error('Failed to load promotion codes');
+      console.error('Error loading campaigns:', error);
+      toast.error('Failed to load promotion campaigns');
     } finally {
       setLoading(false);
     }
   };
 
-  const handleGenerateCodes = async () => {
-    if (!user) return;
+  const loadCampaignDetail = async (campaignId: string) => {
+    setLoadingDetail(true);
+    try {
+      const [codesResult, redemptionsResult] = await Promise.all([
+        supabase.from('promotion_codes').select('*').eq('campaign_id', campaignId).order('created_at', { ascending: false }),
+        supabase.from('promotion_redemptions').select('*').eq('campaign_id', campaignId).order('created_at', { ascending: false }),
+      ]);
+      if (codesResult.error) throw codesResult.error;
+      if (redemptionsResult.error) throw redemptionsResult.error;
 
-    setCreating(true);
+      const rows = redemptionsResult.data || [];
+      const userIds = [...new Set(rows.map(r => r.user_id))];
+      if (userIds.length > 0) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from('profiles')
+          .select('id, email')
+          .in('id', userIds);
+        if (profilesError) throw profilesError;
+        setEmails(prev => ({ ...prev, ...Object.fromEntries((profiles || []).map(p => [p.id, p.email ?? p.id])) }));
+      }
+      setCodes((codesResult.data || []) as PromotionCode[]);
+      setRedemptions(rows);
+    } catch (error) {
+      console.error('Error loading campaign:', error);
+      toast.error('Failed to load campaign codes');
+    } finally {
+      setLoadingDetail(false);
+    }
+  };
+
+  const handleSaveCampaign = async () => {
+    if (!campaignDraft || !user) return;
+    const rewardAmount = parseInt(campaignDraft.reward_amount, 10);
+    const maxRedemptions = optionalInt(campaignDraft.max_redemptions);
+    const perUserLimit = parseInt(campaignDraft.per_user_limit, 10);
+
+    if (!campaignDraft.name.trim()) {
+      toast.error('Give the campaign a name');
+      return;
+    }
+    if (campaignDraft.reward_type === 'plan_days' && !campaignDraft.reward_plan_id) {
+      toast.error('Choose the plan this campaign grants');
+      return;
+    }
+    if (!Number.isInteger(rewardAmount) || rewardAmount < 1) {
+      toast.error('Reward amount must be a positive whole number');
+      return;
+    }
+    if ((maxRedemptions !== null && !(maxRedemptions > 0)) || !(perUserLimit > 0)) {
+      toast.error('Redemption limits must be positive');
+      return;
+    }
+    if (campaignDraft.starts_at && campaignDraft.ends_at && campaignDraft.ends_at < campaignDraft.starts_at) {
+      toast.error('The campaign must end after it starts');
+      return;
+    }
+
+    setSavingCampaign(true);
     try {
-      const count = parseInt(codeCount);
-      const duration = parseInt(selectedDuration);
-      const newCodes = [];
-
-      for (let i = 0; i < count; i++) {
-        newCodes.push({
-          code: generateCode(),
-          duration_days: duration,
+      const { data, error } = await supabase
+        .from('promotion_campaigns')
+        .insert({
+          name: campaignDraft.name.trim(),
+          description: campaignDraft.description.trim() || null,
+          reward_type: campaignDraft.reward_type,
+          reward_plan_id: campaignDraft.reward_type === 'plan_days' ? campaignDraft.reward_plan_id : null,
+          reward_amount: rewardAmount,
+          starts_at: startOfDay(campaignDraft.starts_at),
+          ends_at: endOfDay(campaignDraft.ends_at),
+          max_redemptions: maxRedemptions,
+          per_user_limit: perUserLimit,
           created_by: user.id,
-        });
+        })
+        .select()
+        .single();
+      if (error) throw error;
+
+      setCampaigns([data as PromotionCampaign, ...campaigns]);
+      setCampaignDraft(null);
+      setSelectedId(data.id);
+      toast.success(`Created campaign "${data.name}"`);
+    } catch (error) {
+      console.error('Error creating campaign:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to create campaign');
+    } finally {
+      setSavingCampaign(false);
+    }
+  };
+
+  const handleToggleCampaign = async (campaign: PromotionCampaign) => {
+    try {
+      const { error } = await supabase
+        .from('promotion_campaigns')
+        .update({ is_active: !campaign.is_active })
+        .eq('id', campaign.id);
+      if (error) throw error;
+      setCampaigns(campaigns.map(c => (c.id === campaign.id ? { ...c, is_active: !c.is_active } : c)));
+      toast.success(campaign.is_active ? 'Campaign paused' : 'Campaign resumed');
+    } catch (error) {
+      console.error('Error updating campaign:', error);
+      toast.error('Failed to update campaign');
+    }
+  };
+
+  const handleGenerateCodes = async () => {
+    if (!user || !selected) return;
+
+    let newCodes: Array<{ campaign_id: string; code: string; max_redemptions: number | null; expires_at: string | null; created_by: string }>;
+    const expiresAt = endOfDay(codeExpiry);
+    if (sharedCode.trim()) {
+      // One code anyone can enter, limited by the campaign caps and its own optional cap
+      const code = normalizePromotionCode(sharedCode);
+      if (!/^[A-Z0-9-]{4,32}$/.test(code)) {
+        toast.error('Codes use 4–32 letters, digits and dashes');
+        return;
+      }
+      const maxUses = optionalInt(sharedCodeMax);
+      if (maxUses !== null && !(maxUses > 0)) {
+        toast.error('Maximum uses must be positive');
+        return;
       }
+      newCodes = [{ campaign_id: selected.id, code, max_redemptions: maxUses, expires_at: expiresAt, created_by: user.id }];
+    } else {
+      const count = parseInt(codeCount, 10);
+      if (!Number.isInteger(count) || count < 1 || count > MAX_CODES_PER_BATCH) {
+        toast.error(`Generate between 1 and ${MAX_CODES_PER_BATCH} codes at a time`);
+        return;
+      }
+      newCodes = Array.from({ length: count }, () => ({
+        campaign_id: selected.id,
+        code: generatePromotionCode(),
+        max_redemptions: 1,
+        expires_at: expiresAt,
+        created_by: user.id,
+      }));
+    }
 
+    setCreating(true);
+    try {
       const { data, error } = await supabase
-        .from('promotion_codes' as any)
-        .insert(newCodes as any)
+        .from('promotion_codes')
+        .insert(newCodes)
         .select();
 
       if (error) throw error;
 
-      const inserted = ((data as unknown) as PromotionCode[]) || [];
-      setCodes([...inserted, ...codes]);
-      toast.success(`Generated ${count} promotion code(s)`);
-    } catch (error: any) {
+      setCodes([...((data || []) as PromotionCode[]), ...codes]);
+      setSharedCode('');
+      setSharedCodeMax('');
+      toast.success(`Created ${newCodes.length} code(s)`);
+    } catch (error) {
       console.error('Error generating codes:', error);
-      toast.error(`Failed to generate codes: ${error.message}`);
+      toast.error(`Failed to create codes: ${(error as { message?: string })?.message}`);
     } finally {
       setCreating(false);
     }
@@ -112,7 +296,7 @@ export default function PromotionCodesAdmin() {
 
     try {
       const { error } = await supabase
-        .from('promotion_codes' as any)
+        .from('promotion_codes')
         .delete()
         .eq('id', id);
 
@@ -120,17 +304,31 @@ export default function PromotionCodesAdmin() {
 
       setCodes(codes.filter(c => c.id !== id));
       toast.success('Code deleted');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error deleting code:', error);
-      toast.error(`Failed to delete code: ${error.message}`);
+      toast.error(`Failed to delete code: ${(error as { message?: string })?.message}`);
     }
   };
 
-  const getDurationLabel = (days: number) => {
-    if (days === 7) return '1 Week';
-    if (days === 30) return '1 Month';
-    if (days === 180) return '6 Months';
-    return `${days} days`;
+  const handleExport = () => {
+    if (!selected) return;
+    const csv = redemptionsToCsv(redemptions.map(r => ({
+      redeemedAt: r.created_at,
+      code: codeById[r.code_id] ?? r.code_id,
+      email: emails[r.user_id] ?? null,
+      userId: r.user_id,
+      reward: describePromotionReward(
+        { reward_type: r.reward_type as PromotionRewardType, reward_amount: r.reward_amount },
+        selected.reward_plan_id ? planNames[selected.reward_plan_id] : null,
+      ),
+    })));
+
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${selected.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-redemptions.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   if (loading) {
@@ -146,140 +344,404 @@ export default function PromotionCodesAdmin() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold">Promotion Codes</h1>
-          <p className="text-muted-foreground">Generate and manage promotional access codes</p>
+          <p className="text-muted-foreground">Run promotion campaigns and track who redeemed their codes</p>
         </div>
+        {!campaignDraft && (
+          <Button onClick={() => setCampaignDraft(EMPTY_CAMPAIGN)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Campaign
+          </Button>
+        )}
       </div>
 
-      {/* Generate Codes Card */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Gift className="w-5 h-5" />
-            Generate New Codes
-          </CardTitle>
-          <CardDescription>
-            Create promotion codes that grant users premium access for a specified duration
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="flex flex-wrap gap-4 items-end">
-            <div className="space-y-2">
-              <Label htmlFor="duration">Access Duration</Label>
-              <Select value={selectedDuration} onValueChange={setSelectedDuration}>
-                <SelectTrigger id="duration" className="w-48">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {DURATION_OPTIONS.map((opt) => (
-                    <SelectItem key={opt.value} value={opt.value}>
-                      {opt.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="count">Number of Codes</Label>
-              <Input
-                id="count"
-                type="number"
-                min="1"
-                max="50"
-                value={codeCount}
-                onChange={(e) => setCodeCount(e.target.value)}
-                className="w-24"
-              />
+      {campaignDraft && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Gift className="w-5 h-5" />
+              New Campaign
+            </CardTitle>
+            <CardDescription>
+              Every code in the campaign grants the same reward. Limits and dates are enforced when a code is redeemed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-name">Name</Label>
+                <Input
+                  id="campaign-name"
+                  value={campaignDraft.name}
+                  onChange={(e) => setCampaignDraft({ ...campaignDraft, name: e.target.value })}
+                  placeholder="e.g. Spring 2026 university partners"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-description">Description</Label>
+                <Input
+                  id="campaign-description"
+                  value={campaignDraft.description}
+                  onChange={(e) => setCampaignDraft({ ...campaignDraft, description: e.target.value })}
+                />
+              </div>
             </div>
-            <Button onClick={handleGenerateCodes} disabled={creating}>
-              {creating ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Generating...
-                </>
-              ) : (
-                <>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Generate
-                </>
+            <div className="flex flex-wrap gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-reward">Reward</Label>
+                <Select
+                  value={campaignDraft.reward_type}
+                  onValueChange={(value) => setCampaignDraft({ ...campaignDraft, reward_type: value as PromotionRewardType })}
+                >
+                  <SelectTrigger id="campaign-reward" className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="plan_days">Days on a plan</SelectItem>
+                    <SelectItem value="credits">Bonus credits</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {campaignDraft.reward_type === 'plan_days' && (
+                <div className="space-y-2">
+                  <Label htmlFor="campaign-plan">Plan</Label>
+                  <Select
+                    value={campaignDraft.reward_plan_id}
+                    onValueChange={(value) => setCampaignDraft({ ...campaignDraft, reward_plan_id: value })}
+                  >
+                    <SelectTrigger id="campaign-plan" className="w-40">
+                      <SelectValue placeholder="Choose plan" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {plans.map(plan => (
+                        <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               )}
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-amount">{campaignDraft.reward_type === 'plan_days' ? 'Days' : 'Credits'}</Label>
+                <Input
+                  id="campaign-amount"
+                  type="number"
+                  min="1"
+                  value={campaignDraft.reward_amount}
+                  onChange={(e) => setCampaignDraft({ ...campaignDraft, reward_amount: e.target.value })}
+                  className="w-24"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-starts">Starts</Label>
+                <Input
+                  id="campaign-starts"
+                  type="date"
+                  value={campaignDraft.starts_at}
+                  onChange={(e) => setCampaignDraft({ ...campaignDraft, starts_at: e.target.value })}
+                  className="w-40"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-ends">Ends</Label>
+                <Input
+                  id="campaign-ends"
+                  type="date"
+                  value={campaignDraft.ends_at}
+                  onChange={(e) => setCampaignDraft({ ...campaignDraft, ends_at: e.target.value })}
+                  className="w-40"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-max">Max redemptions</Label>
+                <Input
+                  id="campaign-max"
+                  type="number"
+                  min="1"
+                  value={campaignDraft.max_redemptions}
+                  onChange={(e) => setCampaignDraft({ ...campaignDraft, max_redemptions: e.target.value })}
+                  placeholder="No cap"
+                  className="w-32"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-per-user">Per user</Label>
+                <Input
+                  id="campaign-per-user"
+                  type="number"
+                  min="1"
+                  value={campaignDraft.per_user_limit}
+                  onChange={(e) => setCampaignDraft({ ...campaignDraft, per_user_limit: e.target.value })}
+                  className="w-20"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSaveCampaign} disabled={savingCampaign}>
+                {savingCampaign && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Create Campaign
+              </Button>
+              <Button variant="outline" onClick={() => setCampaignDraft(null)} disabled={savingCampaign}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
-      {/* Codes Table */}
+      {/* Campaigns Table */}
       <Card>
         <CardHeader>
-          <CardTitle>All Promotion Codes ({codes.length})</CardTitle>
+          <CardTitle>Campaigns ({campaigns.length})</CardTitle>
+          <CardDescription>Select a campaign to manage its codes and see redemptions</CardDescription>
         </CardHeader>
         <CardContent>
-          {codes.length === 0 ? (
+          {campaigns.length === 0 ? (
             <p className="text-center text-muted-foreground py-8">
-              No promotion codes generated yet
+              No campaigns yet
             </p>
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Code</TableHead>
-                  <TableHead>Duration</TableHead>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Reward</TableHead>
+                  <TableHead>Runs</TableHead>
+                  <TableHead className="text-right">Redeemed</TableHead>
                   <TableHead>Status</TableHead>
-                  <TableHead>Created</TableHead>
-                  <TableHead>Claimed</TableHead>
-                  <TableHead className="w-24">Actions</TableHead>
+                  <TableHead className="w-16" />
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {codes.map((code) => (
-                  <TableRow key={code.id}>
-                    <TableCell className="font-mono">{code.code}</TableCell>
-                    <TableCell>{getDurationLabel(code.duration_days)}</TableCell>
-                    <TableCell>
-                      {code.claimed_by ? (
-                        <Badge variant="secondary" className="bg-green-500/10 text-green-600">
-                          <CheckCircle2 className="w-3 h-3 mr-1" />
-                          Claimed
-                        </Badge>
-                      ) : (
-                        <Badge variant="outline">Available</Badge>
-                      )}
-                    </TableCell>
-                    <TableCell className="text-muted-foreground text-sm">
-                      {format(new Date(code.created_at), 'MMM d, yyyy')}
-                    </TableCell>
-                    <TableCell className="text-muted-foreground text-sm">
-                      {code.claimed_at 
-                        ? format(new Date(code.claimed_at), 'MMM d, yyyy')
-                        : '-'
-                      }
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex gap-1">
+                {campaigns.map((campaign) => {
+                  const redeemed = redemptionCounts.campaigns[campaign.id] ?? 0;
+                  const badge = STATUS_BADGES[campaignStatus(campaign, redeemed)];
+                  return (
+                    <TableRow
+                      key={campaign.id}
+                      className={cn("cursor-pointer", campaign.id === selectedId && "bg-muted/50")}
+                      onClick={() => setSelectedId(campaign.id)}
+                    >
+                      <TableCell>
+                        <p className="font-medium">{campaign.name}</p>
+                        {campaign.description && <p className="text-xs text-muted-foreground">{campaign.description}</p>}
+                      </TableCell>
+                      <TableCell>
+                        {describePromotionReward(campaign, campaign.reward_plan_id ? planNames[campaign.reward_plan_id] : null)}
+                        {campaign.per_user_limit > 1 && (
+                          <span className="text-xs text-muted-foreground"> · {campaign.per_user_limit} per user</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {formatDate(campaign.starts_at)} – {formatDate(campaign.ends_at)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {redeemed}{campaign.max_redemptions !== null && ` / ${campaign.max_redemptions}`}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={badge.className}>{badge.label}</Badge>
+                      </TableCell>
+                      <TableCell>
                         <Button
                           variant="ghost"
                           size="icon"
-                          onClick={() => handleCopyCode(code.code)}
-                          disabled={!!code.claimed_by}
+                          title={campaign.is_active ? 'Pause' : 'Resume'}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleToggleCampaign(campaign);
+                          }}
                         >
-                          <Copy className="w-4 h-4" />
+                          {campaign.is_active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleDeleteCode(code.id)}
-                          disabled={!!code.claimed_by}
-                        >
-                          <Trash2 className="w-4 h-4 text-destructive" />
-                        </Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ))}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
               </TableBody>
             </Table>
           )}
         </CardContent>
       </Card>
+
+      {selected && (
+        <>
+          {/* Codes */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Codes — {selected.name} ({codes.length})</CardTitle>
+              <CardDescription>
+                Generate single-use codes to hand out, or create one shared code (e.g. for a newsletter) limited by the campaign caps.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex flex-wrap gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="count">Single-use codes</Label>
+                  <Input
+                    id="count"
+                    type="number"
+                    min="1"
+                    max={MAX_CODES_PER_BATCH}
+                    value={codeCount}
+                    onChange={(e) => setCodeCount(e.target.value)}
+                    disabled={!!sharedCode.trim()}
+                    className="w-24"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="shared-code">Or a shared code</Label>
+                  <Input
+                    id="shared-code"
+                    value={sharedCode}
+                    onChange={(e) => setSharedCode(e.target.value)}
+                    placeholder="e.g. SPRING30"
+                    className="w-40 font-mono"
+                  />
+                </div>
+                {sharedCode.trim() && (
+                  <div className="space-y-2">
+                    <Label htmlFor="shared-max">Max uses</Label>
+                    <Input
+                      id="shared-max"
+                      type="number"
+                      min="1"
+                      value={sharedCodeMax}
+                      onChange={(e) => setSharedCodeMax(e.target.value)}
+                      placeholder="Campaign cap"
+                      className="w-32"
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="code-expiry">Code expires</Label>
+                  <Input
+                    id="code-expiry"
+                    type="date"
+                    value={codeExpiry}
+                    onChange={(e) => setCodeExpiry(e.target.value)}
+                    className="w-40"
+                  />
+                </div>
+                <Button onClick={handleGenerateCodes} disabled={creating}>
+                  {creating ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Generating...
+                    </>
+                  ) : (
+                    <>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Generate
+                    </>
+                  )}
+                </Button>
+              </div>
+
+              {loadingDetail ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : codes.length === 0 ? (
+                <p className="text-center text-muted-foreground py-6">
+                  No codes in this campaign yet
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead className="text-right">Uses</TableHead>
+                      <TableHead>Expires</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead className="w-24">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {codes.map((code) => {
+                      const uses = redemptionCounts.codes[code.id] ?? 0;
+                      const usedUp = code.max_redemptions !== null && uses >= code.max_redemptions;
+                      return (
+                        <TableRow key={code.id}>
+                          <TableCell className="font-mono">{code.code}</TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {usedUp && code.max_redemptions === 1 ? (
+                              <Badge variant="secondary" className="bg-green-500/10 text-green-600">Claimed</Badge>
+                            ) : (
+                              <>{uses}{code.max_redemptions !== null && ` / ${code.max_redemptions}`}</>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground text-sm">{formatDate(code.expires_at)}</TableCell>
+                          <TableCell className="text-muted-foreground text-sm">{formatDate(code.created_at)}</TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleCopyCode(code.code)}
+                                disabled={usedUp}
+                              >
+                                <Copy className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDeleteCode(code.id)}
+                                disabled={uses > 0}
+                              >
+                                <Trash2 className="w-4 h-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Redemptions */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Redemptions ({redemptions.length})</CardTitle>
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={redemptions.length === 0}>
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {redemptions.length === 0 ? (
+                <p className="text-center text-muted-foreground py-6">No codes from this campaign have been redeemed yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Redeemed</TableHead>
+                      <TableHead>Code</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>Reward</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {redemptions.map((redemption) => (
+                      <TableRow key={redemption.id}>
+                        <TableCell className="whitespace-nowrap">{format(new Date(redemption.created_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                        <TableCell className="font-mono">{codeById[redemption.code_id] ?? '—'}</TableCell>
+                        <TableCell>{emails[redemption.user_id] ?? redemption.user_id}</TableCell>
+                        <TableCell>
+                          {describePromotionReward(
+                            { reward_type: redemption.reward_type as PromotionRewardType, reward_amount: redemption.reward_amount },
+                            selected.reward_plan_id ? planNames[selected.reward_plan_id] : null,
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
     </div>
   );
 }
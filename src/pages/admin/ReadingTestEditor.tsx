@@ -15,6 +15,16 @@ import { toast } from 'sonner';
 import { PassageEditor } from '@/components/admin/PassageEditor';
 import { QuestionGroupEditor } from '@/components/admin/QuestionGroupEditor';
 import type { ReadingTableEditorData } from '@/components/admin/ReadingTableEditor';
+import { AnswerMatchingRulesEditor } from '@/components/admin/AnswerMatchingRulesEditor';
+import { parseAnswerMatchingConfig, type AnswerMatchingConfig } from '@/lib/ieltsAnswerValidation';
+import { toTestVariant } from '@/lib/bandConversion';
+import { useItemAnalysis } from '@/hooks/useItemAnalysis';
+import {
+  DEFAULT_GT_SECTION_LAYOUT,
+  GT_READING_SECTIONS,
+  getPassageLabel,
+  validateGtSectionLayout,
+} from '@/lib/readingSections';
 
 interface TestData {
   id?: string;
@@ -25,6 +35,7 @@ interface TestData {
   time_limit: number;
   total_questions: number;
   is_published: boolean;
+  answer_matching?: AnswerMatchingConfig | null;
 }
 
 interface Passage {
@@ -33,6 +44,8 @@ interface Passage {
   title: string;
   paragraphs: Paragraph[];
   show_labels?: boolean;
+  // General Training section (1-3); several short texts can share a section
+  section_number?: number | null;
 }
 
 interface Paragraph {
@@ -70,6 +83,11 @@ interface QuestionGroup {
   // Matching Grid options
   use_letter_headings?: boolean;
   options_title?: string;
+  // Answer matching overrides (null = inherit test-level rules)
+  answer_matching?: AnswerMatchingConfig | null;
+  // Structured word limit (null = parse from instruction)
+  max_words?: number | null;
+  max_numbers?: number | null;
   // Map Labeling options
   map_labeling_options?: {
     imageUrl: string | null;
@@ -115,6 +133,7 @@ export default function ReadingTestEditor() {
   const { testId } = useParams();
   const navigate = useNavigate();
   const isEditing = !!testId;
+  const { stats: itemStats } = useItemAnalysis('reading', testId);
 
   const [saving, setSaving] = useState(false);
   const [autoSaveStatus, setAutoSaveStatus] = useState<'saved' | 'saving' | 'unsaved'>('saved');
@@ -140,6 +159,10 @@ export default function ReadingTestEditor() {
     0: []
   });
 
+  const variant = toTestVariant(testData.test_type);
+  const isGeneralTraining = variant === 'general';
+  const gtLayoutProblems = isGeneralTraining ? validateGtSectionLayout(passages) : [];
+
   // Load from localStorage on mount (for draft recovery)
   useEffect(() => {
     if (!isEditing) {
@@ -203,7 +226,7 @@ export default function ReadingTestEditor() {
         .single();
 
       if (testError) throw testError;
-      setTestData(test);
+      setTestData({ ...test, answer_matching: parseAnswerMatchingConfig(test.answer_matching) });
 
       // Fetch passages
       const { data: passagesData, error: passagesError } = await supabase
@@ -231,12 +254,9 @@ export default function ReadingTestEditor() {
           .in('passage_id', passageIds)
           .order('start_question');
         
-        // Fetch all questions in a single query
+        // Fetch all questions in a single query, answer key included (admin-only RPC)
         const { data: allQuestions } = await supabase
-          .from('reading_questions')
-          .select('*')
-          .in('passage_id', passageIds)
-          .order('question_number');
+          .rpc('get_admin_reading_questions', { p_passage_ids: passageIds });
         
         // Group paragraphs by passage_id
         const paragraphsByPassage: Record<string, any[]> = {};
@@ -324,6 +344,9 @@ export default function ReadingTestEditor() {
               note_categories: groupOptions?.note_categories || [],
               use_letter_headings: groupOptions?.use_letter_headings || false,
               options_title: groupOptions?.options_title || '',
+              answer_matching: parseAnswerMatchingConfig(g.answer_matching),
+              max_words: g.max_words,
+              max_numbers: g.max_numbers,
               table_data: tableData,
               // Populate map_labeling_options from saved options for MAP_LABELING type
               map_labeling_options: g.question_type === 'MAP_LABELING' && groupOptions ? {
@@ -360,21 +383,26 @@ export default function ReadingTestEditor() {
   };
 
   const handleSave = async () => {
+    // Drafts may be saved mid-way through building the GT layout, so only warn
+    if (gtLayoutProblems.length > 0) {
+      toast.warning(`General Training layout: ${gtLayoutProblems.join('; ')}`);
+    }
     setSaving(true);
     try {
       let savedTestId = testId;
+      const testRow = { ...testData, answer_matching: (testData.answer_matching ?? null) as unknown as Json };
 
       // Save test
       if (isEditing) {
         const { error } = await supabase
           .from('reading_tests')
-          .update(testData)
+          .update(testRow)
           .eq('id', testId);
         if (error) throw error;
       } else {
         const { data, error } = await supabase
           .from('reading_tests')
-          .insert(testData)
+          .insert(testRow)
           .select()
           .single();
         if (error) throw error;
@@ -395,7 +423,8 @@ export default function ReadingTestEditor() {
           passage_number: passage.passage_number,
           title: passage.title,
           content: content || 'No content',
-          show_labels: passage.show_labels !== false
+          show_labels: passage.show_labels !== false,
+          section_number: isGeneralTraining ? passage.section_number ?? null : null,
         };
 
         if (passage.id) {
@@ -519,7 +548,10 @@ export default function ReadingTestEditor() {
                 display_as_paragraph: group.display_as_paragraph || false,
                 show_bullets: group.show_bullets || false,
                 show_headings: group.show_headings || false,
-                use_dropdown: group.use_dropdown || false
+                use_dropdown: group.use_dropdown || false,
+                answer_matching: (group.answer_matching ?? null) as unknown as Json,
+                max_words: group.max_words ?? null,
+                max_numbers: group.max_numbers ?? null
               })
               .select()
               .single();
@@ -607,7 +639,9 @@ export default function ReadingTestEditor() {
     setPassages([...passages, { 
       passage_number: newPassageNumber, 
       title: '', 
-      paragraphs: [] 
+      paragraphs: [],
+      // New GT texts join the last section
+      section_number: isGeneralTraining ? passages[passages.length - 1]?.section_number ?? 1 : null,
     }]);
     setQuestionGroups({
       ...questionGroups,
@@ -637,6 +671,18 @@ export default function ReadingTestEditor() {
     setQuestionGroups(reindexedGroups);
   };
 
+  // Pad to the 2 + 2 + 1 GT layout and assign each text its section
+  const applyGtSectionLayout = () => {
+    const padded = [...passages];
+    while (padded.length < DEFAULT_GT_SECTION_LAYOUT.length) {
+      padded.push({ passage_number: padded.length + 1, title: '', paragraphs: [] });
+    }
+    setPassages(padded.map((p, i) => ({
+      ...p,
+      section_number: DEFAULT_GT_SECTION_LAYOUT[Math.min(i, DEFAULT_GT_SECTION_LAYOUT.length - 1)],
+    })));
+  };
+
   const updateQuestionGroups = (passageIndex: number, groups: QuestionGroup[]) => {
     setQuestionGroups({
       ...questionGroups,
@@ -781,6 +827,11 @@ export default function ReadingTestEditor() {
                 />
                 <Label>Published</Label>
               </div>
+
+              <AnswerMatchingRulesEditor
+                value={testData.answer_matching}
+                onChange={(answer_matching) => setTestData({ ...testData, answer_matching })}
+              />
             </CardContent>
           </Card>
         </TabsContent>
@@ -789,26 +840,71 @@ export default function ReadingTestEditor() {
         <TabsContent value="passages">
           <div className="space-y-4">
             <div className="flex items-center justify-between">
-              <h3 className="font-semibold">Passages ({passages.length})</h3>
+              <h3 className="font-semibold">{isGeneralTraining ? 'Texts' : 'Passages'} ({passages.length})</h3>
               <Button onClick={addPassage} variant="outline" size="sm">
                 <Plus size={16} className="mr-1" />
-                Add Passage
+                {isGeneralTraining ? 'Add Text' : 'Add Passage'}
               </Button>
             </div>
 
             <div className="flex gap-2 mb-4">
-              {passages.map((_, idx) => (
+              {passages.map((passage, idx) => (
                 <Button
                   key={idx}
                   variant={activePassage === idx ? "default" : "outline"}
                   size="sm"
                   onClick={() => setActivePassage(idx)}
                 >
-                  Passage {idx + 1}
+                  {isGeneralTraining ? getPassageLabel(passage, passages, variant) : `Passage ${idx + 1}`}
                 </Button>
               ))}
             </div>
 
+            {isGeneralTraining && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base">General Training Sections</CardTitle>
+                    <Button onClick={applyGtSectionLayout} variant="outline" size="sm">
+                      Apply 2 + 2 + 1 layout
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <ul className="text-sm text-muted-foreground space-y-1">
+                    {GT_READING_SECTIONS.map(spec => (
+                      <li key={spec.section}>
+                        <span className="font-medium text-foreground">{spec.title}:</span> {spec.description}
+                      </li>
+                    ))}
+                  </ul>
+                  {passages[activePassage] && (
+                    <div className="flex items-center gap-3">
+                      <Label>Section for this text</Label>
+                      <Select
+                        value={passages[activePassage].section_number ? String(passages[activePassage].section_number) : ''}
+                        onValueChange={(value) => updatePassage(activePassage, { section_number: parseInt(value) })}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue placeholder="Choose section" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {GT_READING_SECTIONS.map(spec => (
+                            <SelectItem key={spec.section} value={String(spec.section)}>{spec.title}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {gtLayoutProblems.length > 0 && (
+                    <ul className="text-sm text-destructive list-disc pl-5">
+                      {gtLayoutProblems.map(problem => <li key={problem}>{problem}</li>)}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {passages[activePassage] && (
               <PassageEditor
                 passage={passages[activePassage]}
@@ -824,14 +920,14 @@ export default function ReadingTestEditor() {
         <TabsContent value="questions">
           <div className="space-y-4">
             <div className="flex gap-2 mb-4">
-              {passages.map((_, idx) => (
+              {passages.map((passage, idx) => (
                 <Button
                   key={idx}
                   variant={activePassage === idx ? "default" : "outline"}
                   size="sm"
                   onClick={() => setActivePassage(idx)}
                 >
-                  Passage {idx + 1}
+                  {isGeneralTraining ? getPassageLabel(passage, passages, variant) : `Passage ${idx + 1}`}
                 </Button>
               ))}
             </div>
@@ -844,6 +940,7 @@ export default function ReadingTestEditor() {
               questionGroups={questionGroups[activePassage] || []}
               onUpdate={(groups) => updateQuestionGroups(activePassage, groups)}
               questionTypes={QUESTION_TYPES}
+              itemStats={itemStats}
               globalQuestionOffset={
                 // Calculate total questions from all previous passages
                 Object.entries(questionGroups)
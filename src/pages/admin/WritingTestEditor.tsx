@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Save, ArrowLeft, Cloud, CloudOff, PenTool, Info, Image as ImageIcon } from 'lucide-react';
 import { toast } from 'sonner';
@@ -36,6 +37,7 @@ export default function WritingTestEditor() {
     title: '',
     description: null,
     time_limit: 60, // Default to 60 minutes for the combined test
+    test_type: 'academic',
     is_published: false,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
@@ -174,7 +176,8 @@ export default function WritingTestEditor() {
         setActiveTab('task1');
         return;
       }
-      if (!task1.image_url) {
+      // General Training Task 1 is a letter, so only Academic tests need a visual
+      if (!task1.image_url && !isGeneralTraining) {
         toast.error('Task 1 requires an image. Please upload one.');
         setSaving(false);
         setActiveTab('task1'); // Switch to Task 1 tab
@@ -273,6 +276,8 @@ export default function WritingTestEditor() {
     }
   };
 
+  const isGeneralTraining = writingTest.test_type === 'general';
+
   const handleImageUploadSuccess = (url: string, width: number | null, height: number | null) => {
     setTask1(prev => ({ ...prev, image_url: url, image_width: width, image_height: height }));
     toast.success('Image URL and dimensions updated for Task 1.');
@@ -348,6 +353,22 @@ export default function WritingTestEditor() {
               <CardTitle>Test Information</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Test Type</Label>
+                <Select
+                  value={writingTest.test_type || 'academic'}
+                  onValueChange={(value) => setWritingTest({ ...writingTest, test_type: value })}
+                >
+                  <SelectTrigger className="max-w-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="academic">Academic</SelectItem>
+                    <SelectItem value="general">General Training</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-2">
                 <Label>Test Title</Label>
                 <Input
@@ -420,7 +441,11 @@ export default function WritingTestEditor() {
                 />
               </div>
               <div className="space-y-2">
-                <Label>Main Text Content (Optional, e.g., a brief description of the chart)</Label>
+                <Label>
+                  {isGeneralTraining
+                    ? 'Letter Situation (the scenario and the bullet points the letter must cover)'
+                    : 'Main Text Content (Optional, e.g., a brief description of the chart)'}
+                </Label>
                 <RichTextEditor
                   value={task1.text_content || ''}
                   onChange={(value) => setTask1({ ...task1, text_content: value })}
@@ -472,7 +497,7 @@ export default function WritingTestEditor() {
               <div className="space-y-4">
                 <Label className="text-base font-semibold flex items-center gap-2">
                   <ImageIcon size={20} />
-                  Task 1 Image
+                  Task 1 Image{isGeneralTraining && ' (Optional for General Training)'}
                 </Label>
                 <WritingImageUploader
                   taskId={task1.id || 'new-task1'}
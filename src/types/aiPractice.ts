@@ -3,6 +3,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { uploadToR2 } from '@/lib/r2Upload';
 import { compressAudio } from '@/utils/audioCompressor';
 import type { Json } from '@/integrations/supabase/types';
+import type { MarkResult } from '@/lib/ieltsAnswerValidation';
+import { toTestVariant, type TestVariant } from '@/lib/bandConversion';
 
 export type PracticeModule = 'reading' | 'listening' | 'writing' | 'speaking';
 
@@ -51,6 +53,13 @@ export type WritingTask1VisualType =
   | 'MAP'
   | 'COMPARISON_DIAGRAM';
 
+// General Training Writing Task 1 letter types (register)
+export type WritingTask1LetterType =
+  | 'RANDOM'
+  | 'FORMAL'       // e.g. to a manager or company
+  | 'SEMI_FORMAL'  // e.g. to a neighbour or landlord
+  | 'INFORMAL';    // e.g. to a friend
+
 // Writing Task 2 essay types
 export type WritingTask2EssayType =
   | 'RANDOM'
@@ -125,6 +134,7 @@ export interface PracticeConfig {
   topicPreference?: string;
   timeMinutes: number;
   audioSpeed?: number; // For listening only
+  testVariant?: TestVariant; // Academic (default) or General Training
 }
 
 // Generated question structure
@@ -175,6 +185,9 @@ export interface GeneratedWritingSingleTask {
   chartData?: object; // JSON chart data for frontend rendering (preferred)
   image_description?: string;
   visual_type?: string; // Type of visual for Task 1
+  letter_type?: WritingTask1LetterType; // General Training Task 1 letters only
+  bullet_points?: string[]; // Points the GT letter must cover
+  salutation?: string; // e.g. "Dear Sir or Madam,"
   word_limit_min: number;
   word_limit_max?: number;
 }
@@ -191,6 +204,11 @@ export interface GeneratedWritingFullTest {
 // Backwards compatible: WritingTask can be single or full
 export type GeneratedWritingTask = GeneratedWritingSingleTask | GeneratedWritingFullTest;
 
+// General Training Task 1 is a letter rather than a visual report
+export function isLetterTask(task: GeneratedWritingSingleTask): boolean {
+  return task.task_type === 'task1' && !!task.letter_type;
+}
+
 // Helper to check if it's a full test
 export function isWritingFullTest(task: GeneratedWritingTask): task is GeneratedWritingFullTest {
   return 'test_type' in task && task.test_type === 'full_test';
@@ -225,6 +243,7 @@ export interface GeneratedTest {
   difficulty: DifficultyLevel;
   topic: string;
   timeMinutes: number;
+  testVariant?: TestVariant; // Missing on older tests = Academic
   passage?: GeneratedPassage; // For reading
   audioBase64?: string; // For listening (kept in memory only)
   audioUrl?: string; // Persisted URL for history/retake
@@ -241,6 +260,7 @@ export interface GeneratedTest {
   speakingAudioUrls?: Record<string, string>; // Pre-generated TTS audio URLs for speaking tests (from presets)
   isPreset?: boolean; // Whether this test is from a preset
   presetId?: string; // The preset ID if applicable
+  promptVersion?: string; // Prompt template(s) that generated it, e.g. "practice.reading@1"
 }
 
 // Practice result
@@ -253,6 +273,7 @@ export interface PracticeResult {
   completedAt: string;
   timeSpent: number; // seconds
   questionResults: QuestionResult[];
+  promptVersion?: string; // Evaluation prompt, for AI-marked modules
 }
 
 export interface QuestionResult {
@@ -263,6 +284,7 @@ export interface QuestionResult {
   isCorrect: boolean;
   partialScore?: number; // For partial marks (e.g., 2 out of 3 correct)
   maxScore?: number; // Total possible marks for this result
+  marks?: MarkResult[]; // Per-mark breakdown for MCMA (e.g. Q21 correct, Q22 wrong)
   explanation: string;
   questionType?: string; // To help with rendering
 }
@@ -361,6 +383,7 @@ export async function saveGeneratedTestAsync(test: GeneratedTest, userId: string
     topic: test.topic,
     time_minutes: test.timeMinutes,
     total_questions: test.totalQuestions,
+    test_variant: test.testVariant ?? 'academic',
     generated_at: test.generatedAt,
     payload: strippedTest as unknown as Json,
     // IMPORTANT: presets may already provide a playable audioUrl
@@ -370,6 +393,7 @@ export async function saveGeneratedTestAsync(test: GeneratedTest, userId: string
     // Track if this test came from a preset (for cache deduplication)
     is_preset: test.isPreset ?? null,
     preset_id: test.presetId ?? null,
+    prompt_version: test.promptVersion ?? null,
   }).select('audio_url').single();
 
   if (insertError) {
@@ -450,6 +474,7 @@ export async function loadGeneratedTestsAsync(userId: string): Promise<Generated
       timeMinutes: row.time_minutes,
       totalQuestions: row.total_questions,
       generatedAt: row.generated_at,
+      testVariant: toTestVariant(row.test_variant),
       // Prefer persisted column, but keep payload audioUrl for presets
       audioUrl: ((row as any).audio_url ?? payload.audioUrl) ?? undefined,
       audioFormat: row.audio_format ?? payload.audioFormat ?? undefined,
@@ -525,6 +550,7 @@ export async function loadGeneratedTestAsync(testId: string): Promise<GeneratedT
     timeMinutes: data.time_minutes,
     totalQuestions: data.total_questions,
     generatedAt: data.generated_at,
+    testVariant: toTestVariant(data.test_variant),
     // Use resolved audio URL from chain
     audioUrl: resolvedAudioUrl,
     audioFormat: data.audio_format ?? payload.audioFormat ?? undefined,
@@ -550,6 +576,7 @@ export async function savePracticeResultAsync(result: PracticeResult, userId: st
     time_spent_seconds: result.timeSpent,
     question_results: result.questionResults as unknown as Json,
     completed_at: result.completedAt,
+    prompt_version: result.promptVersion ?? null,
   });
 
   if (error) {
@@ -0,0 +1,105 @@
+// Reading / Listening answer keys, loaded with the service role: API users
+// aren't granted correct_answer (see the 20260111 migration). Shared by
+// score-test-submission and resolve-answer-dispute so both mark submissions
+// the same way.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  normalizeListeningQuestionType,
+  scoreSubmission,
+  type AnswerKeyGroup,
+  type AnswerKeyQuestion,
+} from "../../../src/lib/testScoring.ts";
+import { toTestVariant } from "../../../src/lib/bandConversion.ts";
+
+export type ScoredModule = 'reading' | 'listening';
+
+export const SUBMISSION_TABLES: Record<ScoredModule, string> = {
+  reading: 'reading_test_submissions',
+  listening: 'listening_test_submissions',
+};
+
+interface ListeningGroupRow extends AnswerKeyGroup {
+  question_type: string;
+  listening_questions: Omit<AnswerKeyQuestion, 'question_type' | 'instruction'>[] | null;
+}
+
+export interface AnswerKey {
+  test: { test_type?: string | null; answer_matching?: unknown };
+  questions: AnswerKeyQuestion[];
+  groups: AnswerKeyGroup[];
+}
+
+export async function loadAnswerKey(serviceClient: SupabaseClient, module: ScoredModule, testId: string): Promise<AnswerKey> {
+  if (module === 'reading') {
+    const { data: test, error: testError } = await serviceClient
+      .from('reading_tests')
+      .select('test_type, answer_matching')
+      .eq('id', testId)
+      .single();
+    if (testError || !test) throw new Error('Test not found');
+
+    const { data: passages } = await serviceClient
+      .from('reading_passages')
+      .select('id')
+      .eq('test_id', testId);
+    const passageIds = (passages || []).map((p: { id: string }) => p.id);
+
+    const [{ data: groups }, { data: questions, error: questionError }] = await Promise.all([
+      serviceClient
+        .from('reading_question_groups')
+        .select('id, options, start_question, end_question, instruction, max_words, max_numbers, answer_matching')
+        .in('passage_id', passageIds),
+      serviceClient
+        .from('reading_questions')
+        .select('question_number, question_type, question_text, correct_answer, instruction, options, question_group_id')
+        .in('passage_id', passageIds),
+    ]);
+    if (questionError) throw questionError;
+
+    return {
+      test,
+      groups: groups || [],
+      questions: (questions || []).map((q: AnswerKeyQuestion & { question_group_id: string | null }) => ({
+        ...q,
+        group_id: q.question_group_id,
+      })),
+    };
+  }
+
+  const { data: test, error: testError } = await serviceClient
+    .from('listening_tests')
+    .select('answer_matching')
+    .eq('id', testId)
+    .single();
+  if (testError || !test) throw new Error('Test not found');
+
+  const { data: groups, error: groupError } = await serviceClient
+    .from('listening_question_groups')
+    .select('id, question_type, options, start_question, end_question, instruction, max_words, max_numbers, answer_matching, listening_questions(question_number, question_text, correct_answer, options, group_id)')
+    .eq('test_id', testId);
+  if (groupError) throw groupError;
+
+  return {
+    test,
+    groups: groups || [],
+    questions: ((groups || []) as ListeningGroupRow[]).flatMap(g =>
+      (g.listening_questions || []).map(q => ({
+        ...q,
+        question_type: normalizeListeningQuestionType(g.question_type),
+        instruction: g.instruction,
+      }))
+    ),
+  };
+}
+
+export function markAnswers(module: ScoredModule, key: AnswerKey, answers: Record<string, string>) {
+  return scoreSubmission({
+    module,
+    variant: module === 'reading' ? toTestVariant(key.test.test_type) : 'academic',
+    questions: key.questions,
+    groups: key.groups,
+    testAnswerMatching: key.test.answer_matching,
+    answers,
+  });
+}
@@ -0,0 +1,120 @@
+// Credit ledger calls shared by the AI edge functions. Costs and the daily
+// allowance live in src/lib/credits.ts; the ledger itself is written only
+// through the reserve_credits / commit_credits / refund_credits SQL functions.
+//
+// Reserve before calling the model, then commit on success or refund on
+// failure. Both settle at most once, so calling refund from a catch-all after
+// a commit is harmless.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { type CreditOperation, creditCost, DAILY_CREDIT_LIMIT } from "../../../src/lib/credits.ts";
+
+export * from "../../../src/lib/credits.ts";
+
+export interface CreditReservation {
+  id: string;
+  operation: CreditOperation;
+  cost: number;
+}
+
+export interface CreditCheck {
+  ok: boolean;
+  error?: string;
+  /** Null for free operations, and when the ledger was unreachable */
+  reservation: CreditReservation | null;
+  creditsUsed: number;
+  creditsRemaining: number;
+  bonusCredits: number;
+}
+
+/**
+ * Reserves the operation's cost for a system-pool user. Fails open: if the
+ * ledger can't be reached the operation goes ahead uncharged rather than
+ * blocking practice.
+ */
+export async function reserveCredits(
+  serviceClient: SupabaseClient,
+  userId: string,
+  operation: CreditOperation,
+  reference?: string,
+): Promise<CreditCheck> {
+  const cost = creditCost(operation);
+  const unreserved: CreditCheck = {
+    ok: true,
+    reservation: null,
+    creditsUsed: 0,
+    creditsRemaining: DAILY_CREDIT_LIMIT,
+    bonusCredits: 0,
+  };
+  if (cost === 0) return unreserved;
+
+  try {
+    const { data, error } = await serviceClient.rpc('reserve_credits', {
+      p_user_id: userId,
+      p_operation: operation,
+      p_cost: cost,
+      p_reference: reference ?? null,
+    });
+
+    if (error) {
+      console.error('reserve_credits RPC error:', error);
+      return unreserved;
+    }
+
+    console.log(`Credit reservation for ${operation} (cost ${cost}):`, data);
+
+    return {
+      ok: !!data.ok,
+      error: data.ok ? undefined : data.error || 'Daily credit limit reached. Add your own Gemini API key in Settings.',
+      reservation: data.ok ? { id: data.reservation_id, operation, cost } : null,
+      creditsUsed: data.credits_used ?? 0,
+      creditsRemaining: data.credits_remaining ?? 0,
+      bonusCredits: data.bonus_credits ?? 0,
+    };
+  } catch (err) {
+    console.error('Error reserving credits:', err);
+    return unreserved;
+  }
+}
+
+/** The operation succeeded. `reference` names what was produced, when it only exists now. */
+export async function commitCredits(
+  serviceClient: SupabaseClient,
+  reservation: CreditReservation | null,
+  reference?: string,
+): Promise<void> {
+  if (!reservation) return;
+
+  try {
+    const { error } = await serviceClient.rpc('commit_credits', {
+      p_reservation_id: reservation.id,
+      p_reference: reference ?? null,
+    });
+    if (error) console.error('commit_credits RPC error:', error);
+  } catch (err) {
+    console.error('Failed to commit credits:', err);
+  }
+}
+
+/** The operation failed after credits were reserved; `note` is shown in the user's history. */
+export async function refundCredits(
+  serviceClient: SupabaseClient,
+  reservation: CreditReservation | null,
+  note?: string,
+): Promise<void> {
+  if (!reservation) return;
+
+  try {
+    const { data, error } = await serviceClient.rpc('refund_credits', {
+      p_reservation_id: reservation.id,
+      p_note: note ?? null,
+    });
+    if (error) {
+      console.error('refund_credits RPC error:', error);
+    } else if (data) {
+      console.log(`Refunded ${reservation.cost} credits for failed ${reservation.operation}`);
+    }
+  } catch (err) {
+    console.error('Failed to refund credits:', err);
+  }
+}
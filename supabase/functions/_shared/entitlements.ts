@@ -0,0 +1,102 @@
+// Plan entitlement calls shared by the AI edge functions. Keys and the plan
+// format live in src/lib/entitlements.ts; usage is written only through the
+// consume_entitlement / release_entitlement SQL functions.
+//
+// Entitlements apply whichever Gemini key does the work: they meter what the
+// plan includes, while credits meter the shared keys. Consume before calling
+// the model and release if the work fails.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { EntitlementKey } from "../../../src/lib/entitlements.ts";
+
+export * from "../../../src/lib/entitlements.ts";
+
+export type MeteredEntitlement = Exclude<EntitlementKey, 'daily_credits'>;
+
+export interface EntitlementUse {
+  id: string;
+  key: MeteredEntitlement;
+  amount: number;
+}
+
+export interface EntitlementCheck {
+  ok: boolean;
+  error?: string;
+  /** Null when nothing was recorded (zero amount, or usage unreachable) */
+  usage: EntitlementUse | null;
+  limit: number | null;
+  remaining: number | null;
+}
+
+/** Response body for a refused entitlement, so clients can offer an upgrade */
+export function entitlementExceededBody(key: MeteredEntitlement, check: EntitlementCheck) {
+  return {
+    success: false,
+    error: check.error || 'Your plan limit has been reached. Upgrade your plan in Settings for more.',
+    code: 'ENTITLEMENT_EXCEEDED',
+    entitlement: key,
+    limit: check.limit,
+    remaining: check.remaining,
+  };
+}
+
+/**
+ * Records `amount` of a metered entitlement. Fails open like the credit
+ * ledger: if usage can't be recorded the work goes ahead unmetered.
+ */
+export async function consumeEntitlement(
+  serviceClient: SupabaseClient,
+  userId: string,
+  key: MeteredEntitlement,
+  amount = 1,
+  reference?: string,
+): Promise<EntitlementCheck> {
+  const unmetered: EntitlementCheck = { ok: true, usage: null, limit: null, remaining: null };
+  if (amount <= 0) return unmetered;
+
+  try {
+    const { data, error } = await serviceClient.rpc('consume_entitlement', {
+      p_user_id: userId,
+      p_key: key,
+      p_amount: amount,
+      p_reference: reference ?? null,
+    });
+
+    if (error) {
+      console.error('consume_entitlement RPC error:', error);
+      return unmetered;
+    }
+
+    console.log(`Entitlement ${key} (${amount}):`, data);
+
+    return {
+      ok: !!data.ok,
+      error: data.ok ? undefined : data.error,
+      usage: data.ok && data.usage_id ? { id: data.usage_id, key, amount } : null,
+      limit: data.limit ?? null,
+      remaining: data.remaining ?? null,
+    };
+  } catch (err) {
+    console.error('Error consuming entitlement:', err);
+    return unmetered;
+  }
+}
+
+/** The metered work failed; give the usage back. */
+export async function releaseEntitlement(
+  serviceClient: SupabaseClient,
+  usage: EntitlementUse | null,
+): Promise<void> {
+  if (!usage) return;
+
+  try {
+    const { error } = await serviceClient.rpc('release_entitlement', { p_usage_id: usage.id });
+    if (error) {
+      console.error('release_entitlement RPC error:', error);
+    } else {
+      console.log(`Released ${usage.amount} ${usage.key}`);
+    }
+  } catch (err) {
+    console.error('Failed to release entitlement:', err);
+  }
+}
@@ -0,0 +1,156 @@
+// Gemini plumbing shared by every AI edge function: CORS headers, decrypting
+// the user's stored key, the system key pool in api_keys, and the client from
+// src/lib/geminiClient.ts (model fallback, error kinds, token accounting).
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { httpStatusForLlmError, LlmError, LlmValidationError } from "../../../src/lib/geminiClient.ts";
+
+export * from "../../../src/lib/geminiClient.ts";
+
+// x-gemini-api-key lets a client send its own key instead of the stored one.
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-gemini-api-key',
+};
+
+// Keys in user_secrets are AES-GCM encrypted with app_encryption_key; the
+// first 12 bytes of the stored value are the IV.
+export async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  const combined = Uint8Array.from(atob(encryptedValue), (c) => c.charCodeAt(0));
+  const iv = combined.slice(0, 12);
+  const encryptedData = combined.slice(12);
+
+  const keyData = encoder.encode(encryptionKey);
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    keyData.slice(0, 32),
+    { name: "AES-GCM" },
+    false,
+    ["decrypt"],
+  );
+
+  const decryptedData = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv },
+    cryptoKey,
+    encryptedData,
+  );
+
+  return decoder.decode(decryptedData);
+}
+
+/** The user's own GEMINI_API_KEY from user_secrets, or null if they have not set one. */
+export async function getUserGeminiApiKey(client: SupabaseClient, userId: string): Promise<string | null> {
+  const appEncryptionKey = Deno.env.get('app_encryption_key');
+  if (!appEncryptionKey) {
+    throw new Error('app_encryption_key is not configured');
+  }
+
+  const { data, error } = await client
+    .from('user_secrets')
+    .select('encrypted_value')
+    .eq('user_id', userId)
+    .eq('secret_name', 'GEMINI_API_KEY')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data?.encrypted_value) return null;
+  return decryptApiKey(data.encrypted_value, appEncryptionKey);
+}
+
+// ─── System key pool (api_keys table) ───────────────────────────────────────
+
+export interface ApiKeyRecord {
+  id: string;
+  provider: string;
+  key_value: string;
+  is_active: boolean;
+  error_count: number;
+}
+
+export async function getActiveGeminiKeys(serviceClient: SupabaseClient): Promise<ApiKeyRecord[]> {
+  try {
+    const { data, error } = await serviceClient
+      .from('api_keys')
+      .select('id, provider, key_value, is_active, error_count')
+      .eq('provider', 'gemini')
+      .eq('is_active', true)
+      .order('error_count', { ascending: true });
+
+    if (error) {
+      console.error('Failed to fetch API keys:', error);
+      return [];
+    }
+    return (data as ApiKeyRecord[]) || [];
+  } catch (err) {
+    console.error('Error fetching API keys:', err);
+    return [];
+  }
+}
+
+export async function incrementKeyErrorCount(serviceClient: SupabaseClient, keyId: string, deactivate = false): Promise<void> {
+  try {
+    if (deactivate) {
+      await serviceClient
+        .from('api_keys')
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .eq('id', keyId);
+    } else {
+      const { data: currentKey } = await serviceClient
+        .from('api_keys')
+        .select('error_count')
+        .eq('id', keyId)
+        .single();
+
+      if (currentKey) {
+        await serviceClient
+          .from('api_keys')
+          .update({ error_count: (currentKey.error_count || 0) + 1, updated_at: new Date().toISOString() })
+          .eq('id', keyId);
+      }
+    }
+  } catch (err) {
+    console.error('Failed to update key error count:', err);
+  }
+}
+
+export async function resetKeyErrorCount(serviceClient: SupabaseClient, keyId: string): Promise<void> {
+  try {
+    await serviceClient
+      .from('api_keys')
+      .update({ error_count: 0, updated_at: new Date().toISOString() })
+      .eq('id', keyId);
+  } catch (err) {
+    console.error('Failed to reset key error count:', err);
+  }
+}
+
+// ─── Responses ──────────────────────────────────────────────────────────────
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Error response for a failed AI call. LlmErrors carry their ApiErrorKind as
+ * errorKind so describeApiError on the client can pick the right message;
+ * schema failures also list the validation issues.
+ */
+export function llmErrorResponse(error: unknown, fallbackMessage = 'AI request failed'): Response {
+  if (error instanceof LlmValidationError) {
+    return jsonResponse({
+      error: 'The AI returned an incomplete result. Please try again.',
+      errorKind: error.kind,
+      validationIssues: error.issues,
+    }, httpStatusForLlmError(error.kind));
+  }
+  if (error instanceof LlmError) {
+    return jsonResponse({ error: error.message, errorKind: error.kind }, httpStatusForLlmError(error.kind));
+  }
+  return jsonResponse({ error: error instanceof Error ? error.message : fallbackMessage }, 500);
+}
@@ -1,38 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
-import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-// Decrypt user's Gemini API key
-async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
-  
-  const combined = Uint8Array.from(atob(encryptedValue), c => c.charCodeAt(0));
-  const iv = combined.slice(0, 12);
-  const encryptedData = combined.slice(12);
-  
-  const keyData = encoder.encode(encryptionKey);
-  const cryptoKey = await crypto.subtle.importKey(
-    "raw",
-    keyData.slice(0, 32),
-    { name: "AES-GCM" },
-    false,
-    ["decrypt"]
-  );
-  
-  const decryptedData = await crypto.subtle.decrypt(
-    { name: "AES-GCM", iv },
-    cryptoKey,
-    encryptedData
-  );
-  
-  return decoder.decode(decryptedData);
-}
+import {
+  corsHeaders,
+  decryptApiKey,
+} from "../_shared/gemini.ts";
 
 // Generate session config for Gemini Speaking API
 serve(async (req) => {
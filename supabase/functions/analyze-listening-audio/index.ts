@@ -1,10 +1,14 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import {
+  corsHeaders,
+  createGeminiProvider,
+  createLlmClient,
+  decryptApiKey,
+  geminiModelsFor,
+  httpStatusForLlmError,
+  type LlmClient,
+  LlmError,
+} from "../_shared/gemini.ts";
 
 type PartKey = "part1" | "part2" | "part3" | "part4";
 
@@ -34,45 +38,6 @@ interface GeminiTranscriptionResult {
   total_duration?: number;
 }
 
-const GEMINI_MODELS_FALLBACK_ORDER = [
-  "gemini-2.5-pro",
-  "gemini-pro-latest",
-  "gemini-2.5-flash",
-  "gemini-flash-latest",
-  "gemini-2.0-flash",
-  "gemini-2.0-flash-001",
-  "gemini-2.5-flash-lite",
-  "gemini-flash-lite-latest",
-  "gemini-2.0-flash-lite-001",
-  "gemini-2.0-flash-lite",
-] as const;
-
-async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
-
-  const combined = Uint8Array.from(atob(encryptedValue), (c) => c.charCodeAt(0));
-  const iv = combined.slice(0, 12);
-  const encryptedData = combined.slice(12);
-
-  const keyData = encoder.encode(encryptionKey);
-  const cryptoKey = await crypto.subtle.importKey(
-    "raw",
-    keyData.slice(0, 32),
-    { name: "AES-GCM" },
-    false,
-    ["decrypt"],
-  );
-
-  const decryptedData = await crypto.subtle.decrypt(
-    { name: "AES-GCM", iv },
-    cryptoKey,
-    encryptedData,
-  );
-
-  return decoder.decode(decryptedData);
-}
-
 function uint8ArrayToBase64(uint8Array: Uint8Array): string {
   const chunkSize = 8192;
   let result = "";
@@ -195,80 +160,27 @@ async function fetchAudioAsBase64(audioUrl: string): Promise<{ base64: string; m
   return { base64, mimeType, bytes: uint8Array.byteLength };
 }
 
-async function transcribeWithGemini(opts: {
-  geminiApiKey: string;
+async function transcribeWithGemini(llm: LlmClient, opts: {
   mimeType: string;
   audioBase64: string;
   prompt: string;
 }): Promise<{ result: GeminiTranscriptionResult; usedModel: string }> {
-  let lastError: string | null = null;
-
-  for (const modelName of GEMINI_MODELS_FALLBACK_ORDER) {
-    console.log(`Gemini transcribe attempt: ${modelName}`);
-
-    try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${encodeURIComponent(opts.geminiApiKey)}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [
-              {
-                role: "user",
-                parts: [
-                  { text: opts.prompt },
-                  {
-                    inlineData: {
-                      mimeType: opts.mimeType,
-                      data: opts.audioBase64,
-                    },
-                  },
-                ],
-              },
-            ],
-            generationConfig: {
-              temperature: 0.2,
-              responseMimeType: "application/json",
-            },
-          }),
-        },
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Gemini ${modelName} failed:`, response.status, errorText);
-        if (response.status === 429) {
-          lastError = `Rate limited on ${modelName}`;
-          continue;
-        }
-        lastError = `${modelName}: ${response.status}`;
-        continue;
-      }
-
-      const data = await response.json();
-      const content = data?.candidates?.[0]?.content?.parts
-        ?.map((p: any) => p?.text)
-        .filter(Boolean)
-        .join("\n");
-
-      if (!content) {
-        lastError = `${modelName}: Empty response`;
-        continue;
-      }
-
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      const parsed: GeminiTranscriptionResult = JSON.parse(jsonMatch ? jsonMatch[0] : content);
-
-      return { result: parsed, usedModel: modelName };
-    } catch (e: any) {
-      console.error(`Gemini ${modelName} exception:`, e?.message || e);
-      lastError = e?.message || "Unknown error";
-      continue;
-    }
-  }
-
-  throw new Error(`All Gemini models failed. Last error: ${lastError}`);
+  const { data, model } = await llm.generateJson<GeminiTranscriptionResult>({
+    contents: [
+      {
+        role: "user",
+        parts: [
+          { text: opts.prompt },
+          { inlineData: { mimeType: opts.mimeType, data: opts.audioBase64 } },
+        ],
+      },
+    ],
+    generationConfig: {
+      temperature: 0.2,
+      responseMimeType: "application/json",
+    },
+  });
+  return { result: data, usedModel: model };
 }
 
 Deno.serve(async (req) => {
@@ -336,6 +248,13 @@ Deno.serve(async (req) => {
 
     const geminiApiKey = await decryptApiKey(secretData.encrypted_value, appEncryptionKey);
 
+    // Audio input, so only models that accept inline audio
+    const llm = createLlmClient({
+      provider: createGeminiProvider(geminiApiKey),
+      models: geminiModelsFor({ multimodal: true }),
+      logPrefix: "[analyze-listening-audio]",
+    });
+
     // 2) Service-role client for DB updates
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
 
@@ -394,8 +313,7 @@ Deno.serve(async (req) => {
 
       const prompt = buildGeminiPrompt(part.replace("part", "Part "), partGroups);
 
-      const { result, usedModel } = await transcribeWithGemini({
-        geminiApiKey,
+      const { result, usedModel } = await transcribeWithGemini(llm, {
         mimeType,
         audioBase64,
         prompt,
@@ -470,7 +388,7 @@ Deno.serve(async (req) => {
   } catch (error: any) {
     console.error("analyze-listening-audio error:", error);
     return new Response(JSON.stringify({ success: false, error: error?.message || "Analysis failed" }), {
-      status: 500,
+      status: error instanceof LlmError ? httpStatusForLlmError(error.kind) : 500,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   }
@@ -1,77 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
-import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
-// Decrypt user's Gemini API key
-async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
-  
-  const combined = Uint8Array.from(atob(encryptedValue), c => c.charCodeAt(0));
-  const iv = combined.slice(0, 12);
-  const encryptedData = combined.slice(12);
-  
-  const keyData = encoder.encode(encryptionKey);
-  const cryptoKey = await crypto.subtle.importKey(
-    "raw",
-    keyData.slice(0, 32),
-    { name: "AES-GCM" },
-    false,
-    ["decrypt"]
-  );
-  
-  const decryptedData = await crypto.subtle.decrypt(
-    { name: "AES-GCM", iv },
-    cryptoKey,
-    encryptedData
-  );
-  
-  return decoder.decode(decryptedData);
-}
-
-const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.0-flash', 'gemini-1.5-flash'];
-
-async function callGemini(apiKey: string, systemPrompt: string, userPrompt: string): Promise<string | null> {
-  for (const model of GEMINI_MODELS) {
-    try {
-      console.log(`Trying Gemini model: ${model}`);
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [
-              { role: 'user', parts: [{ text: `${systemPrompt}\n\n${userPrompt}` }] }
-            ],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 8192,
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        console.error(`Gemini ${model} failed with status ${response.status}`);
-        continue;
-      }
-
-      const data = await response.json();
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (text) return text;
-    } catch (err) {
-      console.error(`Error with ${model}:`, err);
-      continue;
-    }
-  }
-  return null;
-}
+import {
+  corsHeaders,
+  createGeminiProvider,
+  createLlmClient,
+  geminiModelsFor,
+  getUserGeminiApiKey,
+  LlmError,
+} from "../_shared/gemini.ts";
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -96,14 +32,8 @@ serve(async (req) => {
     }
 
     // Get user's Gemini API key
-    const { data: secretData, error: secretError } = await supabaseClient
-      .from('user_secrets')
-      .select('encrypted_value')
-      .eq('user_id', user.id)
-      .eq('secret_name', 'GEMINI_API_KEY')
-      .single();
-
-    if (secretError || !secretData) {
+    const geminiApiKey = await getUserGeminiApiKey(supabaseClient, user.id);
+    if (!geminiApiKey) {
       return new Response(JSON.stringify({ 
         error: 'Gemini API key not found. Please set it in Settings.',
         code: 'API_KEY_NOT_FOUND'
@@ -113,13 +43,6 @@ serve(async (req) => {
       });
     }
 
-    const appEncryptionKey = Deno.env.get('app_encryption_key');
-    if (!appEncryptionKey) {
-      throw new Error('Encryption key not configured');
-    }
-
-    const geminiApiKey = await decryptApiKey(secretData.encrypted_value, appEncryptionKey);
-
     const { testData } = await req.json();
 
     // Use service role client to fetch actual test data
@@ -208,28 +131,26 @@ Provide:
 4. Recommend specific resources for improvement
 5. Be encouraging but honest about areas needing work`;
 
-    const content = await callGemini(geminiApiKey, systemPrompt, userPrompt);
-    
-    if (!content) {
-      return new Response(
-        JSON.stringify({ analytics: null, error: 'Failed to generate analysis' }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    
-    // Parse JSON from response
+    const llm = createLlmClient({
+      provider: createGeminiProvider(geminiApiKey),
+      models: geminiModelsFor({ startTier: 'flash' }),
+      logPrefix: '[analyze-performance]',
+    });
+
     let analytics;
     try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        analytics = JSON.parse(jsonMatch[0]);
-      } else {
-        throw new Error("No JSON found in response");
-      }
-    } catch (parseError) {
-      console.error("Failed to parse AI response:", parseError);
+      ({ data: analytics } = await llm.generateJson({
+        contents: `${systemPrompt}\n\n${userPrompt}`,
+        generationConfig: { temperature: 0.7, maxOutputTokens: 8192 },
+      }));
+    } catch (llmError) {
+      console.error("Failed to generate analysis:", llmError);
       return new Response(
-        JSON.stringify({ analytics: null }),
+        JSON.stringify({
+          analytics: null,
+          error: 'Failed to generate analysis',
+          errorKind: llmError instanceof LlmError ? llmError.kind : undefined,
+        }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -0,0 +1,196 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { corsHeaders, jsonResponse } from "../_shared/gemini.ts";
+import {
+  createFakePaymentProvider,
+  type CurrentSubscription,
+  type PaymentProvider,
+  planSubscriptionChange,
+} from "../../../src/lib/billing.ts";
+
+const CURRENCY = 'usd';
+
+// Only the fake provider exists, and it approves every charge, so it must be
+// asked for explicitly (local and test runs). Unset means payments are off.
+function paymentProvider(): PaymentProvider | null {
+  if (Deno.env.get('PAYMENT_PROVIDER') !== 'fake') return null;
+  const declineUserIds = (Deno.env.get('FAKE_PAYMENT_DECLINE_USER_IDS') ?? '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+  return createFakePaymentProvider({ declineUserIds });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    );
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    // Subscriptions are written with the service role only
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { planId } = await req.json();
+    if (!planId || typeof planId !== 'string') {
+      return jsonResponse({ error: 'planId is required' }, 400);
+    }
+
+    const { data: target, error: targetError } = await serviceClient
+      .from('subscription_plans')
+      .select('id, name, price_monthly, is_default, is_active')
+      .eq('id', planId)
+      .maybeSingle();
+    if (targetError) throw targetError;
+    if (!target || !target.is_active) {
+      return jsonResponse({ error: 'Plan not found' }, 404);
+    }
+
+    const now = new Date();
+    const nowIso = now.toISOString();
+
+    const { data: currentRow, error: currentError } = await serviceClient
+      .from('subscriptions')
+      .select('id, plan_id, price, start_date, end_date')
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .not('plan_id', 'is', null)
+      .lte('start_date', nowIso)
+      .gt('end_date', nowIso)
+      .order('start_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (currentError) throw currentError;
+
+    const current: CurrentSubscription | null = currentRow
+      ? {
+        planId: currentRow.plan_id,
+        price: Number(currentRow.price),
+        start: new Date(currentRow.start_date),
+        end: new Date(currentRow.end_date),
+      }
+      : null;
+
+    const change = planSubscriptionChange(
+      current,
+      { id: target.id, price: Number(target.price_monthly), isDefault: target.is_default },
+      now,
+    );
+    console.log(`[change-subscription] ${user.id} -> ${target.name}:`, change);
+
+    if (change.kind === 'unchanged') {
+      return jsonResponse({ success: true, kind: change.kind, charge: 0, credit: 0 });
+    }
+
+    // Any change replaces a plan bought to start later, which was paid for
+    // up front; days granted by a promotion code are kept
+    const { data: scheduledRows, error: scheduledError } = await serviceClient
+      .from('subscriptions')
+      .select('id, price, payment_provider, payment_reference')
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .gt('start_date', nowIso)
+      .or('payment_provider.is.null,payment_provider.neq.promotion');
+    if (scheduledError) throw scheduledError;
+
+    const provider = paymentProvider();
+    const refundable = (scheduledRows || []).filter(row => row.payment_reference && Number(row.price) > 0);
+    if ((change.charge > 0 || refundable.length > 0) && !provider) {
+      return jsonResponse({ error: 'Payments are not configured', code: 'PAYMENT_PROVIDER_UNAVAILABLE' }, 503);
+    }
+
+    let refunded = 0;
+    for (const row of scheduledRows || []) {
+      let refundReference: string | null = null;
+      if (row.payment_reference && Number(row.price) > 0) {
+        if (row.payment_provider !== provider!.name) {
+          throw new Error(`Scheduled plan was paid through ${row.payment_provider}, which is not configured`);
+        }
+        const refund = await provider!.refund({ chargeReference: row.payment_reference, amount: Number(row.price), currency: CURRENCY });
+        if (!refund.ok) throw new Error(`Refund of the scheduled plan failed: ${refund.error}`);
+        refundReference = refund.reference;
+        refunded += Number(row.price);
+      }
+      const { error } = await serviceClient
+        .from('subscriptions')
+        .update({ status: 'cancelled', refund_reference: refundReference })
+        .eq('id', row.id);
+      if (error) throw error;
+    }
+
+    // Nothing renews, so cancelling only drops the scheduled plan; the current period runs out
+    if (change.kind === 'cancel') {
+      return jsonResponse({ success: true, kind: change.kind, charge: 0, credit: 0, refunded, endsAt: currentRow!.end_date });
+    }
+
+    let paymentReference: string | null = null;
+    let providerName: string | null = null;
+    if (change.charge > 0) {
+      const result = await provider!.charge({
+        userId: user.id,
+        planId: target.id,
+        amount: change.charge,
+        currency: CURRENCY,
+        description: `${target.name} plan (${change.kind})`,
+      });
+      if (!result.ok) {
+        return jsonResponse({ error: result.error, code: 'PAYMENT_FAILED', refunded }, 402);
+      }
+      paymentReference = result.reference;
+      providerName = provider!.name;
+    }
+
+    if (change.kind === 'upgrade') {
+      // The unused part of the old period was credited against the new price
+      const { error } = await serviceClient
+        .from('subscriptions')
+        .update({ status: 'cancelled', end_date: nowIso })
+        .eq('id', currentRow!.id);
+      if (error) throw error;
+    }
+
+    const { data: subscription, error: insertError } = await serviceClient
+      .from('subscriptions')
+      .insert({
+        user_id: user.id,
+        plan_id: target.id,
+        plan_name: target.name,
+        price: Number(target.price_monthly),
+        status: 'active',
+        start_date: change.startsAt!.toISOString(),
+        end_date: change.endsAt!.toISOString(),
+        payment_provider: providerName,
+        payment_reference: paymentReference,
+      })
+      .select('id, start_date, end_date')
+      .single();
+    if (insertError) throw insertError;
+
+    return jsonResponse({
+      success: true,
+      kind: change.kind,
+      charge: change.charge,
+      credit: change.credit,
+      refunded,
+      subscription,
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+    console.error('[change-subscription] Error:', message);
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -1,19 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
 import { uploadToR2 } from "../_shared/r2Client.ts";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-// Prefer models that work reliably on v1beta and support multi-modal inputs.
-const GEMINI_MODELS_FALLBACK_ORDER = [
-  'gemini-2.5-flash',
-  'gemini-flash-latest',
-  'gemini-2.0-flash',
-];
+import {
+  corsHeaders,
+  createGeminiProvider,
+  createLlmClient,
+  geminiModelsFor,
+  getUserGeminiApiKey,
+  llmErrorResponse,
+} from "../_shared/gemini.ts";
+import { aiSpeakingPartEvaluationSchema, zodValidator } from "../../../src/lib/aiSchemas.ts";
+import { renderPrompt } from "../../../src/lib/promptRegistry.ts";
+import { aiSpeakingPartEvaluationPrompt } from "../../../src/lib/prompts/speakingEvaluation.ts";
 
 interface PartEvaluationRequest {
   testId: string;
@@ -44,7 +42,6 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const appEncryptionKey = Deno.env.get('app_encryption_key');
 
     // Create client with user's auth
     const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
@@ -64,26 +61,9 @@ serve(async (req) => {
     }
     console.log(`[evaluate-ai-speaking-part] User authenticated: ${user.id}`);
 
-    if (!appEncryptionKey) {
-      console.error('[evaluate-ai-speaking-part] app_encryption_key not set');
-      return new Response(JSON.stringify({
-        error: 'Server configuration error: encryption key not set.',
-        code: 'SERVER_CONFIG_ERROR'
-      }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
     // Get user's Gemini API key
-    const { data: userSecret, error: secretError } = await supabaseClient
-      .from('user_secrets')
-      .select('encrypted_value')
-      .eq('user_id', user.id)
-      .eq('secret_name', 'GEMINI_API_KEY')
-      .single();
-
-    if (secretError || !userSecret) {
+    const geminiApiKey = await getUserGeminiApiKey(supabaseClient, user.id);
+    if (!geminiApiKey) {
       console.error('[evaluate-ai-speaking-part] Gemini API key not found for user:', user.id);
       return new Response(JSON.stringify({
         error: 'Gemini API key not found. Please set it in Settings.',
@@ -94,31 +74,6 @@ serve(async (req) => {
       });
     }
 
-    // Decrypt Gemini API key
-    const encoder = new TextEncoder();
-    const decoder = new TextDecoder();
-    const keyData = encoder.encode(appEncryptionKey);
-    const cryptoKey = await crypto.subtle.importKey(
-      "raw",
-      keyData.slice(0, 32),
-      { name: "AES-GCM" },
-      false,
-      ["decrypt"],
-    );
-
-    const encryptedBytes = Uint8Array.from(atob(userSecret.encrypted_value), (c) => c.charCodeAt(0));
-    const iv = encryptedBytes.slice(0, 12);
-    const ciphertext = encryptedBytes.slice(12);
-
-    const decryptedData = await crypto.subtle.decrypt(
-      { name: "AES-GCM", iv },
-      cryptoKey,
-      ciphertext,
-    );
-
-    const geminiApiKey = decoder.decode(decryptedData);
-    console.log('[evaluate-ai-speaking-part] Gemini API key decrypted successfully');
-
     // Parse request body
     const body: PartEvaluationRequest = await req.json();
     const { testId, partNumber, audioData, durations, questions, cueCardTopic, cueCardContent, instruction, topic, difficulty } = body;
@@ -161,6 +116,7 @@ serve(async (req) => {
     }
 
     // Build Gemini prompt for this single part
+    const evaluationPrompt = renderPrompt(aiSpeakingPartEvaluationPrompt, { partNumber, topic, difficulty });
     const contents = buildPartEvaluationContents({
       partNumber,
       audioData,
@@ -168,93 +124,33 @@ serve(async (req) => {
       cueCardTopic,
       cueCardContent,
       instruction,
-      topic,
-      difficulty,
+      instructions: evaluationPrompt.text,
     });
 
     // Call Gemini API
-    let evaluationRaw: any = null;
-    let usedModel: string | null = null;
-    const GEMINI_TIMEOUT_MS = 90_000;
+    const llm = createLlmClient({
+      provider: createGeminiProvider(geminiApiKey),
+      models: geminiModelsFor({ startTier: 'flash', multimodal: true }),
+      timeoutMs: 90_000,
+      logPrefix: '[evaluate-ai-speaking-part]',
+    });
 
     console.log(`[evaluate-ai-speaking-part] Starting Gemini API call for Part ${partNumber}`);
 
-    for (const modelName of GEMINI_MODELS_FALLBACK_ORDER) {
-      console.log(`[evaluate-ai-speaking-part] Attempting model: ${modelName}`);
-      const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${encodeURIComponent(geminiApiKey)}`;
-
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), GEMINI_TIMEOUT_MS);
-        
-        const geminiResponse = await fetch(GEMINI_API_URL, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          signal: controller.signal,
-          body: JSON.stringify({
-            contents,
-            generationConfig: {
-              temperature: 0.3, // Same as full test for consistency
-              maxOutputTokens: 6000, // Increased for complete model answers
-              responseMimeType: 'application/json',
-            },
-          }),
-        });
-        
-        clearTimeout(timeoutId);
-        console.log(`[evaluate-ai-speaking-part] Gemini ${modelName} response status: ${geminiResponse.status}`);
-
-        if (!geminiResponse.ok) {
-          const errorText = await geminiResponse.text();
-          console.error(`[evaluate-ai-speaking-part] Gemini ${modelName} error:`, errorText.slice(0, 300));
-
-          if (geminiResponse.status === 429 || geminiResponse.status === 503) {
-            continue;
-          }
-
-          if (geminiResponse.status === 400 && errorText.includes('API_KEY')) {
-            return new Response(JSON.stringify({
-              error: 'Invalid Gemini API key.',
-              code: 'INVALID_API_KEY',
-            }), {
-              status: 403,
-              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
-          }
-
-          continue;
-        }
-
-        const data = await geminiResponse.json();
-        const responseText = data?.candidates?.[0]?.content?.parts
-          ?.map((p: any) => p?.text)
-          .filter(Boolean)
-          .join('\n');
-
-        if (!responseText) {
-          console.error(`[evaluate-ai-speaking-part] No response text from ${modelName}`);
-          continue;
-        }
-
-        evaluationRaw = parseJsonFromResponse(responseText);
-        if (evaluationRaw) {
-          usedModel = modelName;
-          console.log(`[evaluate-ai-speaking-part] Successfully evaluated Part ${partNumber} with model: ${modelName}`);
-          break;
-        }
-      } catch (err: any) {
-        if (err.name === 'AbortError') {
-          console.error(`[evaluate-ai-speaking-part] Timeout with model ${modelName}`);
-        } else {
-          console.error(`[evaluate-ai-speaking-part] Error with model ${modelName}:`, err.message);
-        }
-        continue;
-      }
-    }
-
-    if (!evaluationRaw) {
-      console.error('[evaluate-ai-speaking-part] All models failed to evaluate');
-      throw new Error('Failed to evaluate speaking part. Please try again.');
+    let evaluationRaw: any;
+    let usedModel: string;
+    try {
+      ({ data: evaluationRaw, model: usedModel } = await llm.generateValidated({
+        contents,
+        generationConfig: {
+          temperature: 0.3, // Same as full test for consistency
+          maxOutputTokens: 6000, // Increased for complete model answers
+          responseMimeType: 'application/json',
+        },
+      }, zodValidator(aiSpeakingPartEvaluationSchema)));
+    } catch (llmError) {
+      console.error('[evaluate-ai-speaking-part] All models failed to evaluate:', llmError);
+      return llmErrorResponse(llmError, 'Failed to evaluate speaking part. Please try again.');
     }
 
     // Build the partial result
@@ -275,6 +171,7 @@ serve(async (req) => {
       },
       modelAnswers: evaluationRaw.modelAnswers || [],
       usedModel,
+      promptVersion: evaluationPrompt.version,
     };
 
     const elapsed = Date.now() - startTime;
@@ -315,17 +212,6 @@ function parseDataUrl(value: string): { mimeType: string; base64: string } {
   return { mimeType: 'audio/webm', base64: value };
 }
 
-function parseJsonFromResponse(responseText: string): any {
-  try {
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) return JSON.parse(jsonMatch[0]);
-    return JSON.parse(responseText);
-  } catch (err) {
-    console.error('Error parsing evaluation response:', err);
-    return null;
-  }
-}
-
 function buildPartEvaluationContents(input: {
   partNumber: 1 | 2 | 3;
   audioData: Record<string, string>;
@@ -333,59 +219,14 @@ function buildPartEvaluationContents(input: {
   cueCardTopic?: string;
   cueCardContent?: string;
   instruction?: string;
-  topic?: string;
-  difficulty?: string;
+  instructions: string;
 }): Array<{ parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> }> {
-  const { partNumber, audioData, questions, cueCardTopic, cueCardContent, instruction, topic, difficulty } = input;
+  const { partNumber, audioData, questions, cueCardTopic, cueCardContent, instruction, instructions } = input;
 
   const contents: Array<{ parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> }> = [];
 
-  // System prompt for single part evaluation - MATCHES FULL TEST SCORING GUIDELINES
-  contents.push({
-    parts: [{
-      text: `You are an expert IELTS Speaking examiner (2025 standard). You will evaluate Part ${partNumber} of a speaking test.
-
-${topic ? `TEST TOPIC: ${topic}` : ''}
-${difficulty ? `DIFFICULTY: ${difficulty}` : ''}
-
-Listen to the audio for each question and:
-1. Transcribe the candidate's speech accurately
-2. Evaluate based on IELTS criteria
-3. Provide specific feedback for this part
-4. Generate a model answer for EVERY question
-
-CRITICAL SCORING GUIDELINES (USE CONSISTENTLY - SAME SCALE AS FULL TEST):
-Score each criterion INDEPENDENTLY. Use the same scoring standard as a full test evaluation:
-- Band 9: Native-level performance
-- Band 7: Good user with occasional inaccuracies  
-- Band 5: Modest user with noticeable limitations
-- Band 3: Limited user with frequent errors
-
-IMPORTANT: Do NOT inflate scores just because this is a single part. Apply the EXACT same standards as a full test.
-Use half-band scores (5.5, 6.5, 7.5) when appropriate.
-
-MODEL ANSWERS REQUIREMENT:
-You MUST provide a model answer for EVERY question in this part. Show:
-- What the candidate actually said
-- An exemplary Band 8-9 model answer
-- Key features that make the model answer strong
-
-Respond with JSON in this exact format:
-{
-  "fluencyCoherence": { "score": number, "feedback": string },
-  "lexicalResource": { "score": number, "feedback": string },
-  "grammaticalRange": { "score": number, "feedback": string },
-  "pronunciation": { "score": number, "feedback": string },
-  "strengths": string[],
-  "improvements": string[],
-  "partFeedback": string,
-  "modelAnswers": [{"questionNumber": number, "question": string, "candidateResponse": string, "modelAnswer": string, "keyFeatures": string[]}],
-  "transcripts": { "part${partNumber}-q<id>": string }
-}
-
-CRITICAL: The "modelAnswers" array MUST contain an entry for EVERY question in this part.`,
-    }],
-  });
+  // Examiner instructions (evaluation.ai-speaking-part) - MATCHES FULL TEST SCORING GUIDELINES
+  contents.push({ parts: [{ text: instructions }] });
 
   // Part context
   contents.push({
@@ -1,20 +1,23 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
 import { uploadToR2 } from "../_shared/r2Client.ts";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-// Prefer models that work reliably on v1beta and support multi-modal inputs.
-const GEMINI_MODELS_FALLBACK_ORDER = [
-  'gemini-2.5-flash',
-  'gemini-flash-latest',
-  'gemini-2.0-flash',
-  'gemini-2.0-flash-001',
-];
+import {
+  corsHeaders,
+  createGeminiProvider,
+  createLlmClient,
+  geminiModelsFor,
+  getUserGeminiApiKey,
+  llmErrorResponse,
+} from "../_shared/gemini.ts";
+import { aiSpeakingEvaluationSchema, zodValidator } from "../../../src/lib/aiSchemas.ts";
+import { renderPrompt } from "../../../src/lib/promptRegistry.ts";
+import { aiSpeakingEvaluationPrompt } from "../../../src/lib/prompts/speakingEvaluation.ts";
+import {
+  consumeEntitlement,
+  entitlementExceededBody,
+  releaseEntitlement,
+  speakingMinutes,
+} from "../_shared/entitlements.ts";
 
 interface EvaluationRequest {
   testId: string;
@@ -61,7 +64,6 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const appEncryptionKey = Deno.env.get('app_encryption_key');
 
     // Create client with user's auth
     const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
@@ -81,26 +83,9 @@ serve(async (req) => {
     }
     console.log(`[evaluate-ai-speaking] User authenticated: ${user.id}`);
 
-    if (!appEncryptionKey) {
-      console.error('[evaluate-ai-speaking] app_encryption_key not set');
-      return new Response(JSON.stringify({
-        error: 'Server configuration error: encryption key not set.',
-        code: 'SERVER_CONFIG_ERROR'
-      }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
     // Get user's Gemini API key
-    const { data: userSecret, error: secretError } = await supabaseClient
-      .from('user_secrets')
-      .select('encrypted_value')
-      .eq('user_id', user.id)
-      .eq('secret_name', 'GEMINI_API_KEY')
-      .single();
-
-    if (secretError || !userSecret) {
+    const geminiApiKey = await getUserGeminiApiKey(supabaseClient, user.id);
+    if (!geminiApiKey) {
       console.error('[evaluate-ai-speaking] Gemini API key not found for user:', user.id);
       return new Response(JSON.stringify({
         error: 'Gemini API key not found. Please set it in Settings.',
@@ -111,31 +96,6 @@ serve(async (req) => {
       });
     }
 
-    // Decrypt Gemini API key
-    const encoder = new TextEncoder();
-    const decoder = new TextDecoder();
-    const keyData = encoder.encode(appEncryptionKey);
-    const cryptoKey = await crypto.subtle.importKey(
-      "raw",
-      keyData.slice(0, 32),
-      { name: "AES-GCM" },
-      false,
-      ["decrypt"],
-    );
-
-    const encryptedBytes = Uint8Array.from(atob(userSecret.encrypted_value), (c) => c.charCodeAt(0));
-    const iv = encryptedBytes.slice(0, 12);
-    const ciphertext = encryptedBytes.slice(12);
-
-    const decryptedData = await crypto.subtle.decrypt(
-      { name: "AES-GCM", iv },
-      cryptoKey,
-      ciphertext,
-    );
-
-    const geminiApiKey = decoder.decode(decryptedData);
-    console.log('[evaluate-ai-speaking] Gemini API key decrypted successfully');
-
     // Parse request body
     const body: EvaluationRequest = await req.json();
     const { testId, audioData, durations, topic, difficulty, part2SpeakingDuration, fluencyFlag } = body;
@@ -184,6 +144,24 @@ serve(async (req) => {
     // Service client for DB insert
     const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Plan entitlements: one evaluation plus the recorded minutes
+    const evaluationCheck = await consumeEntitlement(supabaseService, user.id, 'ai_evaluations', 1, testId);
+    if (!evaluationCheck.ok) {
+      return new Response(JSON.stringify(entitlementExceededBody('ai_evaluations', evaluationCheck)), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    const minutes = speakingMinutes(Object.values(durations ?? {}));
+    const minutesCheck = await consumeEntitlement(supabaseService, user.id, 'speaking_minutes', minutes, testId);
+    if (!minutesCheck.ok) {
+      await releaseEntitlement(supabaseService, evaluationCheck.usage);
+      return new Response(JSON.stringify(entitlementExceededBody('speaking_minutes', minutesCheck)), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Upload each segment to R2 and produce public URLs
     const audioUrls: Record<string, string> = {};
     
@@ -211,102 +189,45 @@ serve(async (req) => {
     }
 
     // Build Gemini multi-modal prompt similar to admin evaluation (audio inline + transcripts)
-    const contents = buildGeminiContents({
-      speakingParts,
-      audioData,
+    const evaluationPrompt = renderPrompt(aiSpeakingEvaluationPrompt, {
       topic: topic ?? testRow.topic ?? payload.topic,
       difficulty: difficulty ?? testRow.difficulty ?? payload.difficulty,
       part2SpeakingDuration,
       fluencyFlag,
     });
+    const contents = buildGeminiContents({
+      speakingParts,
+      audioData,
+      instructions: evaluationPrompt.text,
+    });
 
-    // Call Gemini API with fallback models and timeout
-    let evaluationRaw: any = null;
-    let usedModel: string | null = null;
-    const GEMINI_TIMEOUT_MS = 120_000; // 2 minutes timeout for large audio payloads
+    // Call Gemini with the flash tier (audio input) and a timeout sized for large payloads
+    const GEMINI_TIMEOUT_MS = 120_000;
+    const llm = createLlmClient({
+      provider: createGeminiProvider(geminiApiKey),
+      models: geminiModelsFor({ startTier: 'flash', multimodal: true }),
+      timeoutMs: GEMINI_TIMEOUT_MS,
+      logPrefix: '[evaluate-ai-speaking]',
+    });
 
     console.log(`[evaluate-ai-speaking] Starting Gemini API call, timeout: ${GEMINI_TIMEOUT_MS}ms`);
 
-    for (const modelName of GEMINI_MODELS_FALLBACK_ORDER) {
-      console.log(`[evaluate-ai-speaking] Attempting model: ${modelName}`);
-      const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${encodeURIComponent(geminiApiKey)}`;
-
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), GEMINI_TIMEOUT_MS);
-        
-        const geminiResponse = await fetch(GEMINI_API_URL, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          signal: controller.signal,
-          body: JSON.stringify({
-            contents,
-          generationConfig: {
-              temperature: 0.3, // Lower temperature for more consistent scoring
-              maxOutputTokens: 12000, // Increased for complete model answers
-              responseMimeType: 'application/json',
-            },
-          }),
-        });
-        
-        clearTimeout(timeoutId);
-        console.log(`[evaluate-ai-speaking] Gemini ${modelName} response status: ${geminiResponse.status}`);
-
-        if (!geminiResponse.ok) {
-          const errorText = await geminiResponse.text();
-          console.error(`[evaluate-ai-speaking] Gemini ${modelName} error (${geminiResponse.status}):`, errorText.slice(0, 500));
-
-          if (geminiResponse.status === 429 || geminiResponse.status === 503) {
-            console.log(`[evaluate-ai-speaking] Rate limited or service unavailable, trying next model...`);
-            continue;
-          }
-
-          if (geminiResponse.status === 400 && errorText.includes('API_KEY')) {
-            return new Response(JSON.stringify({
-              error: 'Invalid Gemini API key. Please update it in Settings.',
-              code: 'INVALID_API_KEY',
-            }), {
-              status: 403,
-              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
-          }
-
-          continue;
-        }
-
-        const data = await geminiResponse.json();
-        const responseText = data?.candidates?.[0]?.content?.parts
-          ?.map((p: any) => p?.text)
-          .filter(Boolean)
-          .join('\n');
-
-        if (!responseText) {
-          console.error(`[evaluate-ai-speaking] No response text from ${modelName}, candidate:`, JSON.stringify(data?.candidates?.[0]).slice(0, 500));
-          continue;
-        }
-
-        console.log(`[evaluate-ai-speaking] Response text length: ${responseText.length}`);
-        evaluationRaw = parseJsonFromResponse(responseText);
-        if (evaluationRaw) {
-          usedModel = modelName;
-          console.log(`[evaluate-ai-speaking] Successfully evaluated with model: ${modelName}`);
-          break;
-        } else {
-          console.error(`[evaluate-ai-speaking] Failed to parse JSON from ${modelName} response`);
-        }
-      } catch (err: any) {
-        if (err.name === 'AbortError') {
-          console.error(`[evaluate-ai-speaking] Timeout with model ${modelName} after ${GEMINI_TIMEOUT_MS}ms`);
-        } else {
-          console.error(`[evaluate-ai-speaking] Error with model ${modelName}:`, err.message || err);
-        }
-        continue;
-      }
-    }
-
-    if (!evaluationRaw) {
-      console.error('[evaluate-ai-speaking] All models failed to evaluate');
-      throw new Error('Failed to evaluate speaking test with any available model. Please try again.');
+    let evaluationRaw: any;
+    let usedModel: string;
+    try {
+      ({ data: evaluationRaw, model: usedModel } = await llm.generateValidated({
+        contents,
+        generationConfig: {
+          temperature: 0.3, // Lower temperature for more consistent scoring
+          maxOutputTokens: 12000, // Increased for complete model answers
+          responseMimeType: 'application/json',
+        },
+      }, zodValidator(aiSpeakingEvaluationSchema)));
+    } catch (llmError) {
+      console.error('[evaluate-ai-speaking] All models failed to evaluate:', llmError);
+      await releaseEntitlement(supabaseService, evaluationCheck.usage);
+      await releaseEntitlement(supabaseService, minutesCheck.usage);
+      return llmErrorResponse(llmError, 'Failed to evaluate speaking test with any available model. Please try again.');
     }
 
     // Normalize evaluation into the frontend-friendly structure
@@ -366,6 +287,7 @@ serve(async (req) => {
         time_spent_seconds: timeSpentSeconds,
         question_results: evaluation,
         completed_at: new Date().toISOString(),
+        prompt_version: evaluationPrompt.version,
       });
 
     if (insertError) {
@@ -416,17 +338,6 @@ function parseDataUrl(value: string): { mimeType: string; base64: string } {
   return { mimeType: 'audio/webm', base64: value };
 }
 
-function parseJsonFromResponse(responseText: string): any {
-  try {
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) return JSON.parse(jsonMatch[0]);
-    return JSON.parse(responseText);
-  } catch (err) {
-    console.error('Error parsing evaluation response:', err);
-    return null;
-  }
-}
-
 function extractTranscriptsMap(raw: any): Record<string, string> {
   // Support a few shapes:
   // 1) { transcripts: { "part1-q...": "..." } }
@@ -447,20 +358,13 @@ function extractTranscriptsMap(raw: any): Record<string, string> {
 function buildGeminiContents(input: {
   speakingParts: SpeakingPart[];
   audioData: Record<string, string>;
-  topic?: string;
-  difficulty?: string;
-  part2SpeakingDuration?: number;
-  fluencyFlag?: boolean;
+  instructions: string;
 }): Array<{ parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> }> {
-  const { speakingParts, audioData, topic, difficulty, part2SpeakingDuration, fluencyFlag } = input;
+  const { speakingParts, audioData, instructions } = input;
 
   const contents: Array<{ parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> }> = [];
 
-  contents.push({
-    parts: [{
-      text: getEvaluationSystemPrompt(topic, difficulty, part2SpeakingDuration, fluencyFlag),
-    }],
-  });
+  contents.push({ parts: [{ text: instructions }] });
 
   for (const part of speakingParts) {
     contents.push({
@@ -513,87 +417,6 @@ function buildGeminiContents(input: {
   return contents;
 }
 
-function getEvaluationSystemPrompt(
-  topic?: string,
-  difficulty?: string,
-  part2SpeakingDuration?: number,
-  fluencyFlag?: boolean,
-): string {
-  return `You are an expert IELTS Speaking examiner (2025 standard). You will be given:
-- The test context (topic/difficulty)
-- The exact questions
-- Audio recordings for each question
-
-You MUST base the score on what you hear in the audio.
-If there is no speech in the audio, score appropriately and explain why.
-
-${topic ? `TEST TOPIC: ${topic}\n` : ''}${difficulty ? `DIFFICULTY: ${difficulty}\n` : ''}${typeof part2SpeakingDuration === 'number' ? `PART 2 SPEAKING DURATION: ${Math.floor(part2SpeakingDuration)} seconds\n` : ''}${fluencyFlag ? `FLUENCY FLAG: Part 2 was below 80 seconds\n` : ''}
-
-CRITICAL SCORING GUIDELINES (USE CONSISTENTLY - SAME SCALE FOR FULL TEST OR INDIVIDUAL PARTS):
-You MUST score each criterion INDEPENDENTLY based on the specific evidence you observe. Each criterion measures DIFFERENT skills:
-
-FLUENCY & COHERENCE (assess speech flow and organization):
-- Band 9: Speaks fluently with only rare repetition or self-correction; discourse is coherent with fully appropriate cohesive features
-- Band 7: Speaks at length without noticeable effort; may demonstrate language-related hesitation; uses a range of connectives
-- Band 5: Usually maintains flow but uses repetition, self-correction and/or slow speech; over-uses connectives
-- Band 3: Speaks with long pauses; limited ability to link simple sentences
-
-LEXICAL RESOURCE (assess vocabulary range and precision):
-- Band 9: Uses vocabulary with full flexibility and precision in all topics; uses idiomatic language naturally
-- Band 7: Uses vocabulary flexibly to discuss a variety of topics; uses some less common and idiomatic vocabulary
-- Band 5: Manages to talk about familiar and unfamiliar topics but uses vocabulary with limited flexibility
-- Band 3: Uses simple vocabulary to convey personal information; insufficient vocabulary for less familiar topics
-
-GRAMMATICAL RANGE & ACCURACY (assess sentence structures and error frequency):
-- Band 9: Uses a full range of structures naturally and appropriately; produces consistently accurate structures
-- Band 7: Uses a range of complex structures with some flexibility; frequently produces error-free sentences
-- Band 5: Produces basic sentence forms with reasonable accuracy; uses complex structures but with errors
-- Band 3: Attempts basic sentence forms but with limited success; errors are frequent
-
-PRONUNCIATION (assess clarity, intonation, stress patterns):
-- Band 9: Uses the full range of pronunciation features with precision; is effortless to understand throughout
-- Band 7: Shows all positive features of Band 6 and some of Band 8; generally easy to understand
-- Band 5: Shows all positive features of Band 4 and some of Band 6; may mispronounce some words
-- Band 3: Shows some features of Band 2 and some of Band 4; causes some strain for the listener
-
-IMPORTANT SCORING NOTES:
-- A candidate with excellent vocabulary but poor grammar should show DIFFERENT scores for those criteria
-- A fluent speaker with poor pronunciation should score HIGH on fluency but LOWER on pronunciation
-- Score each criterion based ONLY on the evidence relevant to that skill
-- Use half-band scores (5.5, 6.5, 7.5) when performance falls between bands
-- The overall band should be calculated as the average of all four criteria, rounded to the nearest 0.5
-- Apply the SAME scoring standard whether evaluating a single part or the full test (do NOT inflate scores for full tests)
-
-MODEL ANSWERS REQUIREMENT:
-You MUST provide a model answer for EVERY question asked in the test. For each question:
-- Show what the candidate actually said (candidateResponse)
-- Provide an exemplary Band 8-9 model answer that a native speaker or expert would give
-- List key features that make the model answer strong
-
-Respond with JSON in this exact format:
-{
-  "overallBand": number,
-  "fluencyCoherence": { "score": number, "feedback": string, "examples": string[] },
-  "lexicalResource": { "score": number, "feedback": string, "examples": string[], "lexicalUpgrades": [{"original": string, "upgraded": string, "context": string}] },
-  "grammaticalRange": { "score": number, "feedback": string, "examples": string[] },
-  "pronunciation": { "score": number, "feedback": string },
-  "partAnalysis": [
-    {"partNumber": 1, "strengths": string[], "improvements": string[]},
-    {"partNumber": 2, "strengths": string[], "improvements": string[]},
-    {"partNumber": 3, "strengths": string[], "improvements": string[]}
-  ],
-  "modelAnswers": [
-    {"partNumber": number, "questionNumber": number, "question": string, "candidateResponse": string, "modelAnswer": string, "keyFeatures": string[]}
-  ],
-  "summary": string,
-  "keyStrengths": string[],
-  "priorityImprovements": string[],
-  "transcripts": { "part1-q<id>": string, "part2-q<id>": string, "part3-q<id>": string }
-}
-
-CRITICAL: The "modelAnswers" array MUST contain an entry for EVERY question from ALL parts.`;
-}
-
 function normalizeEvaluationResponse(data: any): any {
   const ensureArray = (val: any) => (Array.isArray(val) ? val : []);
 
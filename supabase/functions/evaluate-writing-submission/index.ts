@@ -1,151 +1,28 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
-import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-gemini-api-key',
-};
-
-// ============================================================================
-// CREDIT SYSTEM - Cost Map and Daily Limits
-// ============================================================================
-const COSTS = {
-  'generate_speaking': 5,
-  'generate_writing': 5,
-  'generate_listening': 20,
-  'generate_reading': 20,
-  'evaluate_speaking': 15,
-  'evaluate_writing': 10,
-  'evaluate_reading': 0,
-  'evaluate_listening': 0,
-  'explain_answer': 2
-};
-
-const DAILY_CREDIT_LIMIT = 100;
-
-// DB-managed API key interface
-interface ApiKeyRecord {
-  id: string;
-  provider: string;
-  key_value: string;
-  is_active: boolean;
-  error_count: number;
-}
-
-// Fetch active Gemini keys from api_keys table
-async function getActiveGeminiKeys(serviceClient: any): Promise<ApiKeyRecord[]> {
-  try {
-    const { data, error } = await serviceClient
-      .from('api_keys')
-      .select('id, provider, key_value, is_active, error_count')
-      .eq('provider', 'gemini')
-      .eq('is_active', true)
-      .order('error_count', { ascending: true });
-    
-    if (error) {
-      console.error('Failed to fetch API keys:', error);
-      return [];
-    }
-    return data || [];
-  } catch (err) {
-    console.error('Error fetching API keys:', err);
-    return [];
-  }
-}
-
-// ============================================================================
-// ATOMIC CREDIT FUNCTIONS - Uses DB functions to prevent race conditions
-// ============================================================================
-
-// Check and RESERVE credits atomically BEFORE calling AI
-async function checkAndReserveCredits(
-  serviceClient: any, 
-  userId: string, 
-  operationType: keyof typeof COSTS
-): Promise<{ ok: boolean; error?: string; creditsUsed?: number; creditsRemaining?: number }> {
-  const cost = COSTS[operationType] || 0;
-  if (cost === 0) return { ok: true, creditsUsed: 0, creditsRemaining: DAILY_CREDIT_LIMIT };
-  
-  try {
-    const { data, error } = await serviceClient.rpc('check_and_reserve_credits', {
-      p_user_id: userId,
-      p_cost: cost
-    });
-    
-    if (error) {
-      console.error('check_and_reserve_credits RPC error:', error);
-      return { ok: true, creditsUsed: 0, creditsRemaining: DAILY_CREDIT_LIMIT };
-    }
-    
-    console.log(`Credit check result for ${operationType} (cost ${cost}):`, data);
-    
-    if (!data.ok) {
-      return {
-        ok: false,
-        error: data.error || `Daily credit limit reached. Add your own Gemini API key in Settings.`,
-        creditsUsed: data.credits_used,
-        creditsRemaining: data.credits_remaining
-      };
-    }
-    
-    return {
-      ok: true,
-      creditsUsed: data.credits_used,
-      creditsRemaining: data.credits_remaining
-    };
-  } catch (err) {
-    console.error('Error in atomic credit check:', err);
-    return { ok: true, creditsUsed: 0, creditsRemaining: DAILY_CREDIT_LIMIT };
-  }
-}
-
-// Refund credits if the AI operation fails AFTER we reserved them
-async function refundCredits(
-  serviceClient: any, 
-  userId: string, 
-  operationType: keyof typeof COSTS
-): Promise<void> {
-  const cost = COSTS[operationType] || 0;
-  if (cost === 0) return;
-  
-  try {
-    const { error } = await serviceClient.rpc('refund_credits', {
-      p_user_id: userId,
-      p_cost: cost
-    });
-    
-    if (error) {
-      console.error('refund_credits RPC error:', error);
-    } else {
-      console.log(`Refunded ${cost} credits for failed ${operationType}`);
-    }
-  } catch (err) {
-    console.error('Failed to refund credits:', err);
-  }
-}
-
-// List of Gemini models in fallback order
-const GEMINI_MODELS_FALLBACK_ORDER = [
-  'gemini-2.5-pro',
-  'gemini-pro-latest',
-  'gemini-3-pro-preview',
-  'gemini-exp-1206',
-  'gemini-2.5-flash',
-  'gemini-flash-latest',
-  'gemini-2.0-flash',
-  'gemini-2.0-flash-001',
-  'gemini-2.5-flash-lite',
-  'gemini-flash-lite-latest',
-  'gemini-2.0-flash-lite-001',
-  'gemini-2.0-flash-lite',
-  'gemma-3-27b-it',
-  'gemma-3-12b-it',
-  'gemma-3-4b-it',
-  'gemma-3-1b-it',
-  'gemma-3n-e4b-it',
-  'gemma-3n-e2b-it'
-];
+import {
+  type AiValidationFailure,
+  corsHeaders,
+  createGeminiProvider,
+  createLlmClient,
+  decryptApiKey,
+  type GeminiPart,
+  geminiModelsFor,
+  getActiveGeminiKeys,
+  llmErrorResponse,
+  LlmValidationError,
+} from "../_shared/gemini.ts";
+import {
+  type WritingSubmissionEvaluation,
+  writingSubmissionEvaluationSchema,
+  zodValidator,
+} from "../../../src/lib/aiSchemas.ts";
+import { renderPrompt } from "../../../src/lib/promptRegistry.ts";
+import { writingSubmissionEvaluationPrompt } from "../../../src/lib/prompts/writingEvaluation.ts";
+import { resolveErrorAnnotations, type WritingErrorAnnotation } from "../../../src/lib/writingAnnotations.ts";
+import { analyzeEssay } from "../../../src/lib/essayMetrics.ts";
+import { commitCredits, type CreditReservation, refundCredits, reserveCredits } from "../_shared/credits.ts";
+import { consumeEntitlement, entitlementExceededBody, releaseEntitlement } from "../_shared/entitlements.ts";
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -204,6 +81,14 @@ serve(async (req) => {
       throw new Error(taskError?.message || 'Associated writing task not found.');
     }
 
+    // General Training tests use a letter for Task 1 instead of a visual report
+    const { data: writingTest } = await supabaseClient
+      .from('writing_tests')
+      .select('test_type')
+      .eq('id', task.writing_test_id)
+      .maybeSingle();
+    const isLetterTask = task.task_type === 'task1' && writingTest?.test_type === 'general';
+
     // Fetch image as base64 if it's a Task 1 with an image
     let imageBase64: string | null = null;
     if (task.task_type === 'task1' && task.image_url) {
@@ -255,27 +140,7 @@ serve(async (req) => {
       if (userSecret) {
         const appEncryptionKey = Deno.env.get('app_encryption_key');
         if (appEncryptionKey) {
-          const encoder = new TextEncoder();
-          const decoder = new TextDecoder();
-          const keyData = encoder.encode(appEncryptionKey);
-          const cryptoKey = await crypto.subtle.importKey(
-            "raw",
-            keyData.slice(0, 32),
-            { name: "AES-GCM" },
-            false,
-            ["decrypt"]
-          );
-          
-          const encryptedBytes = Uint8Array.from(atob(userSecret.encrypted_value), c => c.charCodeAt(0));
-          const iv = encryptedBytes.slice(0, 12);
-          const ciphertext = encryptedBytes.slice(12);
-          
-          const decryptedData = await crypto.subtle.decrypt(
-            { name: "AES-GCM", iv },
-            cryptoKey,
-            ciphertext
-          );
-          geminiApiKey = decoder.decode(decryptedData);
+          geminiApiKey = await decryptApiKey(userSecret.encrypted_value, appEncryptionKey);
           isUserProvidedKey = true;
           console.log('Using user API key from user_secrets (Priority 1)');
         }
@@ -296,11 +161,21 @@ serve(async (req) => {
       throw new Error('No API key available. Please add your Gemini API key in Settings.');
     }
 
+    // Plan entitlement applies whichever key is used
+    const evaluationCheck = await consumeEntitlement(serviceClient, user.id, 'ai_evaluations', 1, submissionId);
+    if (!evaluationCheck.ok) {
+      return new Response(JSON.stringify(entitlementExceededBody('ai_evaluations', evaluationCheck)), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Credit check and reserve for system pool users (atomic to prevent race conditions)
-    let creditsReserved = false;
+    let reservation: CreditReservation | null = null;
     if (!isUserProvidedKey) {
-      const creditCheck = await checkAndReserveCredits(serviceClient, user.id, 'evaluate_writing');
+      const creditCheck = await reserveCredits(serviceClient, user.id, 'evaluate_writing', submissionId);
       if (!creditCheck.ok) {
+        await releaseEntitlement(serviceClient, evaluationCheck.usage);
         return new Response(JSON.stringify({ 
           error: creditCheck.error,
           code: 'CREDIT_LIMIT_EXCEEDED'
@@ -309,221 +184,96 @@ serve(async (req) => {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
-      creditsReserved = true;
-      console.log(`Credits reserved: ${creditCheck.creditsUsed}/${DAILY_CREDIT_LIMIT}`);
-    }
-
-    // 4. Call Gemini API for evaluation with fallback models
-    let responseText: string | null = null;
-    let usedModel: string | null = null;
-
-    for (const modelName of GEMINI_MODELS_FALLBACK_ORDER) {
-      console.log(`Attempting evaluation with Gemini model: ${modelName}`);
-      const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${geminiApiKey}`;
-
-      // Move prompt construction inside the loop to access modelName
-      const prompt = `You are an expert IELTS writing examiner and a supportive English teacher. Please provide a detailed evaluation of your student's IELTS ${task.task_type === 'task1' ? 'Task 1 Report' : 'Task 2 Essay'} submission. Focus on offering constructive feedback and an overall band score, speaking directly to the student as their teacher would.
-
-IMPORTANT: Write your feedback as a teacher speaking directly to the student. Use "you" and "your" when addressing them. Do NOT use technical terms like "prompt" - instead say "the question", "the task", or "what was asked". Make the feedback feel like a one-on-one tutoring session.
-
-      ${task.task_type === 'task1' ? `This is an IELTS Task 1 Report. The student's submission should describe a visual (e.g., chart, graph, diagram, map, or process). ${imageBase64 ? 'I have provided the actual image/diagram that the student was asked to describe. Please carefully analyze this visual and evaluate how accurately and comprehensively the student has described it.' : 'Please note that you are NOT provided with the actual image, but the textual instructions and any accompanying text content for the task are given below.'} Evaluate the report based on how well it addresses these requirements.
-
-      Task 1 Instructions:
-      "${task.instruction}"
-      ${task.text_content ? `Additional Task Content: "${task.text_content}"` : ''}` : `This is an IELTS Task 2 Essay. The student's submission should be a response to the essay question provided below.
-
-      Essay Question:
-      "${task.instruction}"
-      ${task.text_content ? `Essay Topic: "${task.text_content}"` : ''}`}
-
-    Student's Submission:
-    "${submission.submission_text}"
-
-    Word Count: ${submission.submission_text.split(/\s+/).filter(Boolean).length}
-    Minimum Word Limit: ${task.word_limit_min}
-    ${task.word_limit_max ? `Maximum Word Limit: ${task.word_limit_max}` : ''}
-
-    Provide your evaluation focusing on the following IELTS criteria. For each criterion, give a band score (from 0 to 9, in 0.5 increments), identify strengths, point out weaknesses, and offer specific suggestions for improvement. Address the student directly using "you" and "your".
-    
-    **When providing strengths, weaknesses, and suggestions, use markdown for emphasis:**
-    -   Wrap **important words or phrases** in double asterisks for bolding (e.g., **strong vocabulary**).
-    -   Wrap ==key terms or examples== in double equals signs for highlighting (e.g., ==cohesive devices==).
-
-    1.  **Task Achievement/Response**:
-        -   **Band**: [0-9, in 0.5 increments]
-        -   **Strengths**: What you did well in addressing the task, presenting an overview, and supporting main features.
-        -   **Weaknesses**: Areas where you could improve in fully addressing the task requirements.
-        -   **Suggestions for Improvement**: Actionable advice to enhance your task achievement.
-    2.  **Coherence and Cohesion**:
-        -   **Band**: [0-9, in 0.5 increments]
-        -   **Strengths**: What you did well in organizing your response, logical flow, and use of cohesive devices.
-        -   **Weaknesses**: Areas where your organization, paragraphing, or connection between ideas could be clearer.
-        -   **Suggestions for Improvement**: Advice to improve the clarity and connection of your ideas.
-    3.  **Lexical Resource**:
-        -   **Band**: [0-9, in 0.5 increments]
-        -   **Strengths**: What you did well in using a range of vocabulary accurately and appropriately.
-        -   **Weaknesses**: Areas where your vocabulary could be more varied, precise, or natural.
-        -   **Suggestions for Improvement**: Advice on expanding your vocabulary and using less common lexical items effectively.
-    4.  **Grammatical Range and Accuracy**:
-        -   **Band**: [0-9, in 0.5 increments]
-        -   **Strengths**: What you did well in using a variety of grammatical structures accurately.
-        -   **Weaknesses**: Common errors or areas where your grammatical control could be improved.
-        -   **Suggestions for Improvement**: Advice to enhance your grammatical range and accuracy.
-    5.  **Overall Suggestions for Improvement**: Offer general actionable advice and strategies you can use to improve your writing for future IELTS tests.
-
-    Also, provide an **Overall Band Score** (from 0 to 9, in 0.5 increments).
-    
-    Format your response as a JSON object with the following structure:
-    {
-      "overall_band": number,
-      "evaluation_report": {
-        "task_achievement_response": {
-          "band": number,
-          "strengths": string,
-          "weaknesses": string,
-          "suggestions_for_improvement": string
-        },
-        "coherence_and_cohesion": {
-          "band": number,
-          "strengths": string,
-          "weaknesses": string,
-          "suggestions_for_improvement": string
-        },
-        "lexical_resource": {
-          "band": number,
-          "strengths": string,
-          "weaknesses": string,
-          "suggestions_for_improvement": string
-        },
-        "grammatical_range_and_accuracy": {
-          "band": number,
-          "strengths": string,
-          "weaknesses": string,
-          "suggestions_for_improvement": string
-        },
-        "overall_suggestions": string
-      }
+      reservation = creditCheck.reservation;
+      console.log(`Credits reserved: ${creditCheck.creditsUsed} used today, ${creditCheck.creditsRemaining} remaining`);
     }
-    
-    Ensure your response is ONLY the JSON object, with no additional text or markdown formatting outside of the JSON itself.
-    (Using model: ${modelName})`; // Added model name to prompt for debugging/context
 
-      try {
-        // Build the request body with optional image for Task 1
-        const parts: any[] = [{ text: prompt }];
-        
-        // Include image for vision-enabled evaluation if available
-        if (imageBase64 && task.task_type === 'task1') {
-          // Determine image mime type (default to png)
-          let mimeType = 'image/png';
-          if (task.image_url?.includes('.jpg') || task.image_url?.includes('.jpeg')) {
-            mimeType = 'image/jpeg';
-          } else if (task.image_url?.includes('.gif')) {
-            mimeType = 'image/gif';
-          } else if (task.image_url?.includes('.webp')) {
-            mimeType = 'image/webp';
-          }
-          
-          parts.push({
-            inline_data: {
-              mime_type: mimeType,
-              data: imageBase64
-            }
-          });
-          console.log(`Including image in request (${mimeType})`);
-        }
-
-        const geminiResponse = await fetch(GEMINI_API_URL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [{ parts }],
-          }),
-        });
+    // 4. Call Gemini for the evaluation and validate the report against the schema
+    const prompt = renderPrompt(writingSubmissionEvaluationPrompt, {
+      taskType: task.task_type,
+      isLetterTask,
+      hasImage: !!imageBase64,
+      instruction: task.instruction,
+      textContent: task.text_content,
+      submissionText: submission.submission_text,
+      wordLimitMin: task.word_limit_min,
+      wordLimitMax: task.word_limit_max,
+    });
 
-        if (geminiResponse.ok) {
-          const geminiData = await geminiResponse.json();
-          const content = geminiData.candidates?.[0]?.content?.parts?.[0]?.text;
-          if (content) {
-            responseText = content;
-            usedModel = modelName;
-            break; // Exit loop on successful response with content
-          } else {
-            console.warn(`Model ${modelName} returned OK but no content. Trying next model.`);
-          }
-        } else {
-          const errorText = await geminiResponse.text();
-          console.error(`Gemini API error with model ${modelName} (Status: ${geminiResponse.status}): ${errorText}`);
-
-          // Check for recoverable errors: rate limit (429), server errors (5xx), or specific messages
-          const isRecoverableError = 
-            geminiResponse.status === 429 || 
-            (geminiResponse.status >= 500 && geminiResponse.status < 600) || // 5xx server errors
-            errorText.includes('rate limit') || 
-            errorText.includes('overloaded') || 
-            errorText.includes('model not found') || 
-            errorText.includes('invalid model');
-
-          if (isRecoverableError) {
-            console.log(`Recoverable error with model ${modelName}. Trying next model.`);
-            continue; // Try next model
-          } else {
-            // Non-recoverable error, throw it
-            throw new Error(`Gemini API error with model ${modelName}: ${geminiResponse.status} - ${errorText}`);
-          }
-        }
-      } catch (fetchError: any) {
-        console.error(`Fetch error with model ${modelName}:`, fetchError.message);
-        // Network error or other fetch-related issue, try next model
-        continue;
+    // Build the request with the chart image for vision-enabled Task 1 evaluation
+    const parts: GeminiPart[] = [{ text: prompt.text }];
+    if (imageBase64 && task.task_type === 'task1') {
+      // Determine image mime type (default to png)
+      let mimeType = 'image/png';
+      if (task.image_url?.includes('.jpg') || task.image_url?.includes('.jpeg')) {
+        mimeType = 'image/jpeg';
+      } else if (task.image_url?.includes('.gif')) {
+        mimeType = 'image/gif';
+      } else if (task.image_url?.includes('.webp')) {
+        mimeType = 'image/webp';
       }
-    }
 
-    if (!responseText || !usedModel) {
-      throw new Error('All Gemini models failed to provide a valid response after multiple attempts.');
+      parts.push({ inline_data: { mime_type: mimeType, data: imageBase64 } });
+      console.log(`Including image in request (${mimeType})`);
     }
 
-    console.log(`Successfully received response from model: ${usedModel}`);
+    const llm = createLlmClient({
+      provider: createGeminiProvider(geminiApiKey),
+      models: geminiModelsFor({ multimodal: parts.length > 1 }),
+      logPrefix: '[evaluate-writing-submission]',
+    });
 
-    let evaluationReport: any;
+    type StoredReport = Omit<WritingSubmissionEvaluation['evaluation_report'], 'error_annotations'> & {
+      error_annotations: WritingErrorAnnotation[];
+    };
+    let evaluationReport: StoredReport | { validation_error: AiValidationFailure };
     let overallBand: number | null = null;
 
     try {
-      // Strip markdown code block delimiters before parsing
-      responseText = responseText.replace(/```json\n|\n```/g, '').trim();
-      console.log('Cleaned Gemini response:', responseText); // Log the cleaned response
-
-      // Attempt to parse the JSON response from Gemini
-      const parsedResponse = JSON.parse(responseText);
-      overallBand = parsedResponse.overall_band;
-      evaluationReport = parsedResponse.evaluation_report;
-    } catch (parseError) {
-      console.error('Failed to parse Gemini JSON response:', parseError);
-      // Fallback: If Gemini doesn't return perfect JSON, try to extract what we can
+      const { data, model, repaired } = await llm.generateValidated(
+        { contents: [{ parts }] },
+        zodValidator(writingSubmissionEvaluationSchema),
+      );
+      console.log(`Evaluation from ${model}${repaired ? ' (after repair)' : ''}`);
+      overallBand = data.overall_band;
+      // Error spans are stored with offsets into the submission text
       evaluationReport = {
-        raw_response: responseText,
-        parse_error: 'Failed to parse full JSON from Gemini. Raw response provided.',
+        ...data.evaluation_report,
+        error_annotations: resolveErrorAnnotations(submission.submission_text, data.evaluation_report.error_annotations),
       };
-      // Try to find a band score in the raw text if JSON parsing failed
-      const bandMatch = responseText.match(/Overall Band Score:\s*(\d+(\.\d)?)/i);
-      if (bandMatch && bandMatch[1]) {
-        overallBand = parseFloat(bandMatch[1]);
+    } catch (llmError) {
+      await releaseEntitlement(serviceClient, evaluationCheck.usage);
+      await refundCredits(
+        serviceClient,
+        reservation,
+        llmError instanceof LlmValidationError ? 'The evaluation came back malformed' : 'The evaluation failed',
+      );
+      if (!(llmError instanceof LlmValidationError)) {
+        console.error('All Gemini models failed:', llmError);
+        return llmErrorResponse(llmError, 'Failed to evaluate writing submission');
       }
+      // Keep the failure on the submission so the report page can explain it
+      console.error('Gemini evaluation failed validation:', llmError.issues);
+      evaluationReport = { validation_error: llmError.toFailure() };
     }
 
-    // 5. Update submission with evaluation results
+    // 5. Update submission with evaluation results and the text metrics behind them
     const { error: updateError } = await supabaseClient
       .from('writing_submissions')
       .update({
         evaluation_report: evaluationReport,
         overall_band: overallBand,
+        prompt_version: prompt.version,
+        text_metrics: analyzeEssay(submission.submission_text, task.task_type === 'task1' ? 'task1' : 'task2'),
       })
       .eq('id', submissionId);
 
     if (updateError) throw updateError;
 
+    if (overallBand !== null) {
+      await commitCredits(serviceClient, reservation);
+    }
+
     // 6. Implement cleanup: Keep only the last 3 submissions for this user and writing test
     const { data: allTasksForTest, error: tasksForTestError } = await supabaseClient
       .from('writing_tasks')
@@ -582,8 +332,6 @@ IMPORTANT: Write your feedback as a teacher speaking directly to the student. Us
       }
     }
 
-    // Credits already reserved atomically - no deduction needed
-
     return new Response(JSON.stringify({ message: 'Evaluation completed successfully', overallBand, evaluationReport }), {
       status: 200,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -1,81 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
-import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-// Decrypt user's Gemini API key
-async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
-  
-  const combined = Uint8Array.from(atob(encryptedValue), c => c.charCodeAt(0));
-  const iv = combined.slice(0, 12);
-  const encryptedData = combined.slice(12);
-  
-  const keyData = encoder.encode(encryptionKey);
-  const cryptoKey = await crypto.subtle.importKey(
-    "raw",
-    keyData.slice(0, 32),
-    { name: "AES-GCM" },
-    false,
-    ["decrypt"]
-  );
-  
-  const decryptedData = await crypto.subtle.decrypt(
-    { name: "AES-GCM", iv },
-    cryptoKey,
-    encryptedData
-  );
-  
-  return decoder.decode(decryptedData);
-}
-
-// Gemini models to try (with fallback)
-const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.0-flash', 'gemini-1.5-flash'];
-
-async function callGemini(apiKey: string, prompt: string): Promise<string | null> {
-  for (const model of GEMINI_MODELS) {
-    try {
-      console.log(`Trying Gemini model: ${model}`);
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: prompt }] }],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 2048,
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error(`Gemini ${model} failed:`, JSON.stringify(errorData));
-        if (response.status === 429) continue;
-        continue;
-      }
-
-      const data = await response.json();
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (text) {
-        console.log(`Success with ${model}`);
-        return text;
-      }
-    } catch (err) {
-      console.error(`Error with ${model}:`, err);
-      continue;
-    }
-  }
-  return null;
-}
+import {
+  corsHeaders,
+  createGeminiProvider,
+  createLlmClient,
+  geminiModelsFor,
+  getUserGeminiApiKey,
+  llmErrorResponse,
+} from "../_shared/gemini.ts";
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -101,14 +33,8 @@ serve(async (req) => {
     }
 
     // Get API key
-    const { data: secretData } = await supabaseClient
-      .from('user_secrets')
-      .select('encrypted_value')
-      .eq('user_id', user.id)
-      .eq('secret_name', 'GEMINI_API_KEY')
-      .single();
-
-    if (!secretData) {
+    const geminiApiKey = await getUserGeminiApiKey(supabaseClient, user.id);
+    if (!geminiApiKey) {
       return new Response(JSON.stringify({ 
         error: 'Gemini API key not found. Please add your API key in Settings.' 
       }), {
@@ -117,11 +43,6 @@ serve(async (req) => {
       });
     }
 
-    const appEncryptionKey = Deno.env.get('app_encryption_key');
-    if (!appEncryptionKey) throw new Error('Encryption key not configured');
-    
-    const geminiApiKey = await decryptApiKey(secretData.encrypted_value, appEncryptionKey);
-
     // Parse request
     const { 
       question, // User's follow-up question
@@ -187,14 +108,15 @@ First, evaluate if the student's message is meaningful and related to the questi
 
 Respond naturally as their personal tutor. Be encouraging, specific, and reference the actual ${context.module === 'listening' ? 'transcript' : 'passage'} content when helpful. Keep it conversational - 2-4 short paragraphs unless they need more detail.`;
 
-    const result = await callGemini(geminiApiKey, prompt);
-    
-    if (!result) {
-      return new Response(JSON.stringify({ error: 'Failed to generate response' }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+    const llm = createLlmClient({
+      provider: createGeminiProvider(geminiApiKey),
+      models: geminiModelsFor({ startTier: 'flash' }),
+      logPrefix: '[explain-answer-followup]',
+    });
+    const { text: result } = await llm.generateText({
+      contents: prompt,
+      generationConfig: { temperature: 0.7, maxOutputTokens: 2048 },
+    });
 
     return new Response(JSON.stringify({ 
       response: result.trim(),
@@ -205,9 +127,6 @@ Respond naturally as their personal tutor. Be encouraging, specific, and referen
 
   } catch (error: any) {
     console.error('Edge Function error:', error.message, error.stack);
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return llmErrorResponse(error);
   }
 });
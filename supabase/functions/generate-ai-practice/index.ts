@@ -1,138 +1,59 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
 import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-gemini-api-key',
-};
-
-// ============================================================================
-// CREDIT SYSTEM - Cost Map and Daily Limits
-// ============================================================================
-const COSTS = {
-  // GENERATION
-  'generate_speaking': 5,
-  'generate_writing': 5,
-  'generate_listening': 20,
-  'generate_reading': 20,
-  // EVALUATION
-  'evaluate_speaking': 15,
-  'evaluate_writing': 10,
-  'evaluate_reading': 0,    // FREE
-  'evaluate_listening': 0,  // FREE
-  // CHAT
-  'explain_answer': 2
-};
-
-const DAILY_CREDIT_LIMIT = 100;
-
-// ============================================================================
-// ATOMIC CREDIT FUNCTIONS - Uses DB functions to prevent race conditions
-// ============================================================================
-
-// Check and RESERVE credits atomically BEFORE calling AI
-// This prevents the "rapid click attack" where parallel requests bypass limits
-async function checkAndReserveCredits(
-  serviceClient: any, 
-  userId: string, 
-  operationType: keyof typeof COSTS
-): Promise<{ ok: boolean; error?: string; creditsUsed?: number; creditsRemaining?: number }> {
-  const cost = COSTS[operationType] || 0;
-  
-  // Free operations always pass
-  if (cost === 0) {
-    return { ok: true, creditsUsed: 0, creditsRemaining: DAILY_CREDIT_LIMIT };
-  }
-  
-  try {
-    // Call atomic DB function that locks the row and reserves credits
-    const { data, error } = await serviceClient.rpc('check_and_reserve_credits', {
-      p_user_id: userId,
-      p_cost: cost
-    });
-    
-    if (error) {
-      console.error('check_and_reserve_credits RPC error:', error);
-      // Fail open - allow operation if RPC fails
-      return { ok: true, creditsUsed: 0, creditsRemaining: DAILY_CREDIT_LIMIT };
-    }
-    
-    console.log(`Credit check result for ${operationType} (cost ${cost}):`, data);
-    
-    if (!data.ok) {
-      return {
-        ok: false,
-        error: data.error || `Daily credit limit reached. Add your own Gemini API key in Settings.`,
-        creditsUsed: data.credits_used,
-        creditsRemaining: data.credits_remaining
-      };
-    }
-    
-    return {
-      ok: true,
-      creditsUsed: data.credits_used,
-      creditsRemaining: data.credits_remaining
-    };
-  } catch (err) {
-    console.error('Error in atomic credit check:', err);
-    // Fail open - allow operation
-    return { ok: true, creditsUsed: 0, creditsRemaining: DAILY_CREDIT_LIMIT };
-  }
-}
-
-// Refund credits if the AI operation fails AFTER we reserved them
-async function refundCredits(
-  serviceClient: any, 
-  userId: string, 
-  operationType: keyof typeof COSTS
-): Promise<void> {
-  const cost = COSTS[operationType] || 0;
-  if (cost === 0) return;
-  
-  try {
-    const { error } = await serviceClient.rpc('refund_credits', {
-      p_user_id: userId,
-      p_cost: cost
-    });
-    
-    if (error) {
-      console.error('refund_credits RPC error:', error);
-    } else {
-      console.log(`Refunded ${cost} credits for failed ${operationType}`);
-    }
-  } catch (err) {
-    console.error('Failed to refund credits:', err);
-  }
-}
-
-// Decrypt user's Gemini API key
-async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
-  
-  const combined = Uint8Array.from(atob(encryptedValue), c => c.charCodeAt(0));
-  const iv = combined.slice(0, 12);
-  const encryptedData = combined.slice(12);
-  
-  const keyData = encoder.encode(encryptionKey);
-  const cryptoKey = await crypto.subtle.importKey(
-    "raw",
-    keyData.slice(0, 32),
-    { name: "AES-GCM" },
-    false,
-    ["decrypt"]
-  );
-  
-  const decryptedData = await crypto.subtle.decrypt(
-    { name: "AES-GCM", iv },
-    cryptoKey,
-    encryptedData
-  );
-  
-  return decoder.decode(decryptedData);
-}
+import {
+  type ApiKeyRecord,
+  buildRepairPrompt,
+  corsHeaders,
+  createGeminiProvider,
+  createLlmClient,
+  decryptApiKey,
+  geminiModelsFor,
+  getActiveGeminiKeys,
+  incrementKeyErrorCount,
+  type LlmClient,
+  LlmError,
+  llmErrorResponse,
+  LlmValidationError,
+  resetKeyErrorCount,
+  shouldTryNextModel,
+  type ValidationResult,
+  type Validator,
+  validateModelOutput,
+} from "../_shared/gemini.ts";
+import {
+  listeningGenerationSchema,
+  readingGenerationSchema,
+  speakingGenerationSchema,
+  writingTaskGenerationSchema,
+  zodValidator,
+} from "../../../src/lib/aiSchemas.ts";
+import { combinePromptVersions, type RenderedPrompt, renderPrompt } from "../../../src/lib/promptRegistry.ts";
+import {
+  LETTER_TYPES,
+  type LetterType,
+  listeningMonologuePrompt,
+  practiceEssayTaskPrompt,
+  practiceLetterTaskPrompt,
+  practiceListeningPrompt,
+  practiceReadingPrompt,
+  practiceSpeakingPrompt,
+  practiceVisualTaskPrompt,
+  READING_FILL_VARIATIONS,
+  type SpeakerConfigInput,
+  type SpeakerGenders,
+  TASK1_VISUAL_TYPES,
+  TASK2_ESSAY_TYPES,
+} from "../../../src/lib/prompts/practiceGeneration.ts";
+import {
+  commitCredits,
+  type CreditOperation,
+  type CreditReservation,
+  DAILY_CREDIT_LIMIT,
+  refundCredits,
+  reserveCredits,
+} from "../_shared/credits.ts";
 
 // IELTS Topics for random selection
 const IELTS_TOPICS = [
@@ -190,6 +111,18 @@ function getVoiceGender(voiceName: string): 'male' | 'female' {
   return VOICE_GENDER_MAP[voiceName] || 'male';
 }
 
+// Resolve script genders from the actual TTS voices to prevent name/voice mismatch
+function resolveSpeakerGenders(speakerConfig?: SpeakerConfigInput): SpeakerGenders {
+  const s1Voice = speakerConfig?.speaker1?.voiceName || 'Kore';
+  const s2Voice = speakerConfig?.speaker2?.voiceName || 'Aoede';
+  const speaker1 = VOICE_GENDER_MAP[s1Voice] || 'male';
+  const speaker2 = VOICE_GENDER_MAP[s2Voice] || (speaker1 === 'male' ? 'female' : 'male');
+  return {
+    speaker1: speaker1 === 'male' ? 'MALE' : 'FEMALE',
+    speaker2: speaker2 === 'male' ? 'MALE' : 'FEMALE',
+  };
+}
+
 // Get appropriate names based on gender
 function getGenderAppropriateNames(gender: 'male' | 'female'): string[] {
   if (gender === 'male') {
@@ -221,106 +154,14 @@ CRITICAL - VOICE-GENDER SYNCHRONIZATION:
   return constraint;
 }
 
-// Gemini models for IELTS text generation - sorted by performance & suitability
-// 1. gemini-2.5-flash: Stable, best speed/quality balance for structured text generation (June 2025)
-// 2. gemini-2.5-pro: Highest quality reasoning, best for complex question generation (fallback)
-// 3. gemini-2.0-flash: Fast & reliable, good general-purpose fallback
-// 4. gemini-2.0-flash-lite: Fastest, lightweight fallback for emergencies
-// EXCLUDED: TTS models, embedding models, image/video generation, experimental/preview, Gemma (smaller context)
-const GEMINI_MODELS = [
-  'gemini-2.5-flash',      // Primary: best balance for IELTS generation
-  'gemini-2.5-pro',        // High quality fallback 
-  'gemini-2.0-flash',      // Fast reliable fallback
-  'gemini-2.0-flash-lite', // Emergency fallback (lower quality but fast)
-];
+// Text generation starts at the flash tier: best speed/quality balance for structured output
+const GEMINI_MODELS = geminiModelsFor({ startTier: 'flash' });
 
 // Store last error for better error messages
 let lastGeminiError: string | null = null;
 let lastTokensUsed: number = 0;
 let isQuotaExceeded: boolean = false;
 
-// DB-managed API key interface
-interface ApiKeyRecord {
-  id: string;
-  provider: string;
-  key_value: string;
-  is_active: boolean;
-  error_count: number;
-}
-
-// Fetch active Gemini keys from api_keys table with rotation support
-async function getActiveGeminiKeys(supabaseServiceClient: any): Promise<ApiKeyRecord[]> {
-  try {
-    const { data, error } = await supabaseServiceClient
-      .from('api_keys')
-      .select('id, provider, key_value, is_active, error_count')
-      .eq('provider', 'gemini')
-      .eq('is_active', true)
-      .order('error_count', { ascending: true }); // Prioritize keys with fewer errors
-    
-    if (error) {
-      console.error('Failed to fetch API keys:', error);
-      return [];
-    }
-    
-    console.log(`Found ${data?.length || 0} active Gemini keys in api_keys table`);
-    return data || [];
-  } catch (err) {
-    console.error('Error fetching API keys:', err);
-    return [];
-  }
-}
-
-// Increment error count for a failed key
-async function incrementKeyErrorCount(supabaseServiceClient: any, keyId: string, deactivate: boolean = false): Promise<void> {
-  try {
-    const update: any = { 
-      error_count: deactivate ? 999 : undefined,
-      is_active: deactivate ? false : undefined,
-    };
-    
-    // Use raw increment if not deactivating
-    if (!deactivate) {
-      const { data: currentKey } = await supabaseServiceClient
-        .from('api_keys')
-        .select('error_count')
-        .eq('id', keyId)
-        .single();
-      
-      if (currentKey) {
-        await supabaseServiceClient
-          .from('api_keys')
-          .update({ 
-            error_count: (currentKey.error_count || 0) + 1,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', keyId);
-      }
-    } else {
-      await supabaseServiceClient
-        .from('api_keys')
-        .update({ is_active: false, updated_at: new Date().toISOString() })
-        .eq('id', keyId);
-    }
-    
-    console.log(`Updated key ${keyId}: ${deactivate ? 'deactivated' : 'incremented error count'}`);
-  } catch (err) {
-    console.error('Failed to update key error count:', err);
-  }
-}
-
-// Reset error count on successful use
-async function resetKeyErrorCount(supabaseServiceClient: any, keyId: string): Promise<void> {
-  try {
-    await supabaseServiceClient
-      .from('api_keys')
-      .update({ error_count: 0, updated_at: new Date().toISOString() })
-      .eq('id', keyId);
-  } catch (err) {
-    console.error('Failed to reset key error count:', err);
-  }
-}
-
 // Pre-flight validation: Check API key validity without consuming generation quota
 // Uses a lightweight models/list call instead of a generation request
 async function preflightApiCheck(apiKey: string, skipPreflight: boolean = false): Promise<{ ok: boolean; error?: string }> {
@@ -435,178 +276,94 @@ async function sleep(ms: number): Promise<void> {
   await new Promise(resolve => setTimeout(resolve, ms));
 }
 
-// Enhanced callGemini with DB key rotation support
-// If dbKeys array is provided, will rotate through them on 429/403 errors
+// Runs `generate` with the shared LLM client, which owns model fallback and
+// error classification. System-pool requests move on to the next DB key when
+// a key is rate limited or rejected; the last error is rethrown.
+async function withGeminiKeys<T>(
+  apiKey: string,
+  options: { dbKeys?: ApiKeyRecord[]; serviceClient?: SupabaseClient },
+  generate: (llm: LlmClient) => Promise<T>,
+): Promise<{ value: T; tokensUsed: number }> {
+  const dbKeys = options.dbKeys ?? [];
+  const serviceClient = options.serviceClient;
+  const keys: (ApiKeyRecord | null)[] = dbKeys.length > 0 ? dbKeys : [null];
+  let lastError: unknown = null;
+
+  for (const [index, keyRecord] of keys.entries()) {
+    if (keyRecord) console.log(`Using DB-managed key ${index + 1}/${dbKeys.length}`);
+    const llm = createLlmClient({
+      provider: createGeminiProvider(keyRecord?.key_value ?? apiKey),
+      models: GEMINI_MODELS,
+      logPrefix: '[generate-ai-practice]',
+    });
+    try {
+      const value = await generate(llm);
+      if (serviceClient && keyRecord) await resetKeyErrorCount(serviceClient, keyRecord.id);
+      return { value, tokensUsed: llm.usage.totalTokens };
+    } catch (err) {
+      lastError = err;
+      if (!(err instanceof LlmError) || err instanceof LlmValidationError || !isKeyFailure(err.kind)) break;
+      // Rate limits count against the key; a rejected key is taken out of the pool
+      if (serviceClient && keyRecord) {
+        await incrementKeyErrorCount(serviceClient, keyRecord.id, !isRateLimit(err.kind));
+      }
+      if (index < keys.length - 1) console.log(`Key ${index + 1} failed (${err.kind}), rotating to next key...`);
+    }
+  }
+  throw lastError;
+}
+
+const isRateLimit = (kind: LlmError['kind']) => kind === 'quota' || kind === 'rate_limited';
+const isKeyFailure = (kind: LlmError['kind']) => isRateLimit(kind) || kind === 'permission_denied' || !shouldTryNextModel(kind);
+
+function generationErrorMessage(error: unknown): string {
+  if (!(error instanceof LlmError)) {
+    return 'Connection error: Unable to reach AI service. Please check your internet connection and try again.';
+  }
+  if (isRateLimit(error.kind)) {
+    return 'QUOTA_EXCEEDED: All API keys have reached their rate limit. Please wait a few minutes and try again.';
+  }
+  if (isKeyFailure(error.kind)) {
+    return 'API access denied. Please verify your Gemini API key is valid and has the correct permissions.';
+  }
+  if (error.kind === 'network') {
+    return 'Connection error: Unable to reach AI service. Please check your internet connection and try again.';
+  }
+  return `AI service error: ${error.message.slice(0, 100)}`;
+}
+
+// Generates JSON text for a prompt, or null with the reason left in
+// lastGeminiError (see getLastGeminiError / wasQuotaExceeded).
 async function callGemini(
-  apiKey: string, 
-  prompt: string, 
-  maxRetries: number = 2,
+  apiKey: string,
+  prompt: string,
   options?: {
     dbKeys?: ApiKeyRecord[];
-    serviceClient?: any;
-    currentKeyIndex?: number;
+    serviceClient?: SupabaseClient;
   }
 ): Promise<string | null> {
   lastGeminiError = null;
   lastTokensUsed = 0;
   isQuotaExceeded = false;
-  
-  const dbKeys = options?.dbKeys || [];
-  const serviceClient = options?.serviceClient;
-  let currentKeyIndex = options?.currentKeyIndex || 0;
-  let currentApiKey = apiKey;
-  let currentKeyRecord: ApiKeyRecord | null = null;
-  
-  // If we have DB keys, use the first one
-  if (dbKeys.length > 0 && currentKeyIndex < dbKeys.length) {
-    currentKeyRecord = dbKeys[currentKeyIndex];
-    currentApiKey = currentKeyRecord.key_value;
-    console.log(`Using DB-managed key ${currentKeyIndex + 1}/${dbKeys.length}`);
-  }
-  
-  for (const model of GEMINI_MODELS) {
-    let retryCount = 0;
-    
-    while (retryCount <= maxRetries) {
-      try {
-        console.log(`Trying Gemini model: ${model}${retryCount > 0 ? ` (retry ${retryCount})` : ''}`);
-        const response = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${currentApiKey}`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                contents: [{ parts: [{ text: prompt }] }],
-                generationConfig: {
-                  temperature: 0.7,
-                  maxOutputTokens: 8192,
-                  // Strongly encourages the model to return valid JSON (prevents "[A] ..." non-JSON output)
-                  responseMimeType: 'application/json',
-                },
-              }),
-          }
-        );
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          console.error(`Gemini ${model} failed:`, JSON.stringify(errorData));
-          
-          // Parse error message for user-friendly display
-          const errorMessage = errorData?.error?.message || '';
-          const errorStatus = errorData?.error?.status || '';
-          
-          if (response.status === 429 || errorStatus === 'RESOURCE_EXHAUSTED') {
-            // Key rotation: try next DB key if available
-            if (dbKeys.length > 0 && currentKeyIndex < dbKeys.length - 1) {
-              console.log(`Key ${currentKeyIndex + 1} rate limited, rotating to next key...`);
-              
-              // Increment error count for this key
-              if (serviceClient && currentKeyRecord) {
-                await incrementKeyErrorCount(serviceClient, currentKeyRecord.id);
-              }
-              
-              currentKeyIndex++;
-              currentKeyRecord = dbKeys[currentKeyIndex];
-              currentApiKey = currentKeyRecord.key_value;
-              console.log(`Switched to DB key ${currentKeyIndex + 1}/${dbKeys.length}`);
-              retryCount = 0; // Reset retry count for new key
-              continue;
-            }
-            
-            // Check if it's a rate limit that might recover with waiting
-            if (retryCount < maxRetries) {
-              console.log(`Rate limit hit on ${model}, will retry after backoff...`);
-              await waitWithBackoff(retryCount);
-              retryCount++;
-              continue;
-            }
-            
-            // All retries and keys exhausted
-            isQuotaExceeded = true;
-            lastGeminiError = 'QUOTA_EXCEEDED: All API keys have reached their rate limit. Please wait a few minutes and try again.';
-            break;
-          } else if (response.status === 403 || errorStatus === 'PERMISSION_DENIED') {
-            // Key is invalid - try next DB key
-            if (dbKeys.length > 0 && currentKeyIndex < dbKeys.length - 1) {
-              console.log(`Key ${currentKeyIndex + 1} permission denied, rotating to next key...`);
-              
-              // Deactivate this key
-              if (serviceClient && currentKeyRecord) {
-                await incrementKeyErrorCount(serviceClient, currentKeyRecord.id, true);
-              }
-              
-              currentKeyIndex++;
-              currentKeyRecord = dbKeys[currentKeyIndex];
-              currentApiKey = currentKeyRecord.key_value;
-              retryCount = 0;
-              continue;
-            }
-            
-            lastGeminiError = 'API access denied. Please verify your Gemini API key is valid and has the correct permissions.';
-            break;
-          } else if (response.status === 400) {
-            lastGeminiError = 'Invalid request to AI. The generation request was rejected. Please try again with different settings.';
-            break;
-          } else if (response.status >= 500) {
-            if (retryCount < maxRetries) {
-              console.log(`Server error on ${model}, will retry after backoff...`);
-              await waitWithBackoff(retryCount);
-              retryCount++;
-              continue;
-            }
-            lastGeminiError = `AI service error (${response.status}): ${errorMessage.slice(0, 100)}`;
-          } else {
-            lastGeminiError = `AI service error (${response.status}): ${errorMessage.slice(0, 100)}`;
-          }
-          break;
-        }
-
-        const data = await response.json();
-        
-        // Extract token usage from response metadata
-        const usageMetadata = data.usageMetadata;
-        if (usageMetadata) {
-          const promptTokens = usageMetadata.promptTokenCount || 0;
-          const candidateTokens = usageMetadata.candidatesTokenCount || 0;
-          lastTokensUsed = promptTokens + candidateTokens;
-          console.log(`Token usage - Prompt: ${promptTokens}, Output: ${candidateTokens}, Total: ${lastTokensUsed}`);
-        }
-        
-        const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-        if (text) {
-          console.log(`Success with ${model}`);
-          
-          // Reset error count on success
-          if (serviceClient && currentKeyRecord) {
-            await resetKeyErrorCount(serviceClient, currentKeyRecord.id);
-          }
-          
-          return text;
-        } else {
-          const finishReason = data.candidates?.[0]?.finishReason;
-          if (finishReason === 'SAFETY') {
-            lastGeminiError = 'Content was filtered by safety settings. Please try a different topic.';
-          } else {
-            lastGeminiError = 'AI returned empty response. Please try again.';
-          }
-        }
-        break;
-      } catch (err) {
-        console.error(`Error with ${model}:`, err);
-        
-        if (retryCount < maxRetries) {
-          console.log(`Connection error on ${model}, will retry after backoff...`);
-          await waitWithBackoff(retryCount);
-          retryCount++;
-          continue;
-        }
-        
-        lastGeminiError = `Connection error: Unable to reach AI service. Please check your internet connection and try again.`;
-        break;
-      }
-    }
+  try {
+    const { value, tokensUsed } = await withGeminiKeys(apiKey, options ?? {}, llm => llm.generateText({
+      contents: prompt,
+      generationConfig: {
+        temperature: 0.7,
+        maxOutputTokens: 8192,
+        // Strongly encourages the model to return valid JSON (prevents "[A] ..." non-JSON output)
+        responseMimeType: 'application/json',
+      },
+    }));
+    lastTokensUsed = tokensUsed;
+    return value.text;
+  } catch (err) {
+    console.error('Gemini generation failed:', err);
+    isQuotaExceeded = err instanceof LlmError && isRateLimit(err.kind);
+    lastGeminiError = generationErrorMessage(err);
+    return null;
   }
-  return null;
 }
 
 // Save test to test_presets bank
@@ -651,43 +408,22 @@ function wasQuotaExceeded(): boolean {
   return isQuotaExceeded;
 }
 
-// Robust JSON extraction from Gemini response
-// Handles: raw JSON, ```json...```, ```...```, and mixed content
-function extractJsonFromResponse(text: string): string {
-  if (!text || typeof text !== 'string') {
-    throw new Error('Empty or invalid response from AI');
-  }
-  
-  // Try to find JSON in markdown code blocks first
-  // Match ```json ... ``` or ``` ... ```
-  const codeBlockMatch = text.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
-  if (codeBlockMatch && codeBlockMatch[1]) {
-    const extracted = codeBlockMatch[1].trim();
-    // Validate it looks like JSON
-    if (extracted.startsWith('{') || extracted.startsWith('[')) {
-      return extracted;
-    }
-  }
-  
-  // Try finding JSON object directly (starts with { and ends with })
-  const jsonObjectMatch = text.match(/\{[\s\S]*\}/);
-  if (jsonObjectMatch) {
-    return jsonObjectMatch[0];
-  }
-  
-  // Try finding JSON array directly
-  const jsonArrayMatch = text.match(/\[[\s\S]*\]/);
-  if (jsonArrayMatch) {
-    return jsonArrayMatch[0];
-  }
-  
-  // Last resort: try trimming and returning as-is
-  const trimmed = text.trim();
-  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
-    return trimmed;
-  }
-  
-  throw new Error('Could not extract valid JSON from AI response');
+// Checks generated content against its schema (src/lib/aiSchemas.ts). If it
+// does not match, the model gets its own output and the issues back for one
+// repair attempt; `repair` sends that prompt and returns the new raw text.
+async function validateGeneratedContent<T>(
+  raw: string,
+  prompt: string,
+  validate: Validator<T>,
+  repair: (repairPrompt: string) => Promise<string | null>,
+): Promise<ValidationResult<T>> {
+  const first = validateModelOutput(raw, validate);
+  if (first.ok) return first;
+
+  console.warn('Generated content failed validation, asking for a repair:', first.issues);
+  const repaired = await repair(`${prompt}\n\nYour previous response was:\n${raw}\n\n${buildRepairPrompt(first.issues)}`);
+  if (!repaired) return first;
+  return validateModelOutput(repaired, validate);
 }
 
 // ============================================================================
@@ -744,19 +480,6 @@ async function uploadGeneratedImage(
   }
 }
 
-// Speaker configuration interface
-interface SpeakerVoiceConfig {
-  gender: 'male' | 'female';
-  accent: string;
-  voiceName: string;
-}
-
-interface SpeakerConfigInput {
-  speaker1: SpeakerVoiceConfig;
-  speaker2?: SpeakerVoiceConfig;
-  useTwoSpeakers: boolean;
-}
-
 // Store last TTS error for user-friendly messages
 let lastTTSError: string | null = null;
 
@@ -1156,931 +879,6 @@ ${script}`;
   return null;
 }
 
-// Reading configuration interface
-interface ReadingConfig {
-  passagePreset?: string;
-  paragraphCount?: number;
-  wordCount?: number;
-  useWordCountMode?: boolean;
-}
-
-// Listening configuration interface
-// Gemini free tier limits: ~15 min audio/day, keep each request to max ~2 min (70% of capacity)
-// ~150 words per minute of speech at normal pace
-interface SpellingModeConfig {
-  enabled: boolean;
-  testScenario: 'phone_call' | 'hotel_booking' | 'job_inquiry';
-  spellingDifficulty: 'low' | 'high';
-  numberFormat: 'phone_number' | 'date' | 'postcode';
-}
-
-interface ListeningConfig {
-  transcriptPreset?: string;
-  durationSeconds?: number;
-  wordCount?: number;
-  useWordCountMode?: boolean;
-  speakerConfig?: SpeakerConfigInput;
-  spellingMode?: SpellingModeConfig;
-  monologueMode?: boolean; // Single speaker mode like IELTS Part 4
-}
-
-// Reading question type prompts - generate structured data matching DB schema
-function getReadingPrompt(
-  questionType: string, 
-  topic: string, 
-  difficulty: string, 
-  questionCount: number,
-  readingConfig?: ReadingConfig
-): string {
-  const difficultyDesc = difficulty === 'easy' ? 'Band 5-5.5' : difficulty === 'medium' ? 'Band 6-6.5' : difficulty === 'hard' ? 'Band 7-7.5' : 'Band 8-9 (Expert level - extremely challenging, requires near-native comprehension, subtle inferences, and mastery of nuanced vocabulary)';
-  
-  // Determine passage specifications based on config
-  let paragraphCount = readingConfig?.paragraphCount || 6;
-  let wordCount = readingConfig?.wordCount || 750;
-  
-  // If using word count mode, estimate paragraphs (avg ~100-120 words per paragraph)
-  if (readingConfig?.useWordCountMode && readingConfig.wordCount) {
-    paragraphCount = Math.max(3, Math.min(10, Math.ceil(wordCount / 110)));
-  } else if (!readingConfig?.useWordCountMode && readingConfig?.paragraphCount) {
-    // If using paragraph mode, estimate word count
-    wordCount = paragraphCount * 110;
-  }
-
-  // Generate paragraph labels
-  const paragraphLabels = Array.from({ length: paragraphCount }, (_, i) => 
-    String.fromCharCode(65 + i) // A, B, C, ...
-  );
-  const labelList = paragraphLabels.map(l => `[${l}]`).join(', ');
-  
-  const basePrompt = `Generate an IELTS Academic Reading test with the following specifications:
-
-Topic: ${topic}
-Difficulty: ${difficulty} (${difficultyDesc})
-
-Requirements:
-1. Create a reading passage with these specifications:
-   - Total word count: approximately ${wordCount} words (strict: between ${wordCount - 50} and ${wordCount + 100} words)
-   - Number of paragraphs: ${paragraphCount} paragraphs, labeled ${labelList}
-   - Each paragraph should be 80-150 words (official IELTS standard)
-   - Academic in tone and style
-   - Well-structured with clear paragraph labels [A], [B], etc.
-   - Contains specific information that can be tested
-   - Appropriate for the ${difficulty} difficulty level
-
-`;
-
-  switch (questionType) {
-    case 'TRUE_FALSE_NOT_GIVEN':
-    case 'YES_NO_NOT_GIVEN':
-      return basePrompt + `2. Create ${questionCount} ${questionType === 'YES_NO_NOT_GIVEN' ? 'Yes/No/Not Given' : 'True/False/Not Given'} questions based on the passage.
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The title of the passage",
-    "content": "The full passage text with paragraph labels like [A], [B], etc."
-  },
-  "instruction": "Do the following statements agree with the information given in the passage? Write ${questionType === 'YES_NO_NOT_GIVEN' ? 'YES, NO, or NOT GIVEN' : 'TRUE, FALSE, or NOT GIVEN'}.",
-  "questions": [
-    {
-      "question_number": 1,
-      "question_text": "Statement about the passage",
-      "correct_answer": "${questionType === 'YES_NO_NOT_GIVEN' ? 'YES' : 'TRUE'}",
-      "explanation": "Why this is the correct answer"
-    }
-  ]
-}`;
-
-    case 'MULTIPLE_CHOICE':
-    case 'MULTIPLE_CHOICE_SINGLE':
-      return basePrompt + `2. Create ${questionCount} multiple choice questions (single answer) based on the passage.
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The title of the passage",
-    "content": "The full passage text with paragraph labels like [A], [B], etc."
-  },
-  "instruction": "Choose the correct letter, A, B, C or D.",
-  "questions": [
-    {
-      "question_number": 1,
-      "question_text": "The question about the passage?",
-      "options": ["A First option", "B Second option", "C Third option", "D Fourth option"],
-      "correct_answer": "A",
-      "explanation": "Why A is correct"
-    }
-  ]
-}`;
-
-    case 'MULTIPLE_CHOICE_MULTIPLE':
-      // For MCQ Multiple, we create ONE question "set" where test-takers must pick 3 answers.
-      // The question group spans 3 question numbers (Questions 1-3) with 6 options (A-F).
-      // This is the standardized MCMA format for AI practice.
-
-      return basePrompt + `2. Create ONE multiple choice question set where test-takers must select THREE correct answers from six options (A-F).
-
-CRITICAL REQUIREMENTS:
-- The question set spans Questions 1 to 3 (3 question numbers)
-- Return EXACTLY 3 question objects with question_number 1, 2, and 3
-- ALL 3 question objects must have IDENTICAL content (same question_text, same options, same correct_answer, same explanation)
-- Generate exactly 6 options (A through F)
-- The correct_answer must be a comma-separated list of 3 letters (e.g., "A,C,E" or "B,D,F")
-- DO NOT always use the same letters - randomize which 3 options are correct
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The title of the passage",
-    "content": "The full passage text with paragraph labels like [A], [B], etc."
-  },
-  "instruction": "Questions 1-3. Choose THREE letters, A-F.",
-  "max_answers": 3,
-  "questions": [
-    {
-      "question_number": 1,
-      "question_text": "Which THREE of the following statements are true according to the passage?",
-      "options": ["A First option", "B Second option", "C Third option", "D Fourth option", "E Fifth option", "F Sixth option"],
-      "correct_answer": "A,C,E",
-      "explanation": "A is correct because... C is correct because... E is correct because...",
-      "max_answers": 3
-    },
-    {
-      "question_number": 2,
-      "question_text": "Which THREE of the following statements are true according to the passage?",
-      "options": ["A First option", "B Second option", "C Third option", "D Fourth option", "E Fifth option", "F Sixth option"],
-      "correct_answer": "A,C,E",
-      "explanation": "A is correct because... C is correct because... E is correct because...",
-      "max_answers": 3
-    },
-    {
-      "question_number": 3,
-      "question_text": "Which THREE of the following statements are true according to the passage?",
-      "options": ["A First option", "B Second option", "C Third option", "D Fourth option", "E Fifth option", "F Sixth option"],
-      "correct_answer": "A,C,E",
-      "explanation": "A is correct because... C is correct because... E is correct because...",
-      "max_answers": 3
-    }
-  ]
-}`;
-
-    case 'MATCHING_HEADINGS':
-      return basePrompt + `2. Create a matching headings question where test-takers match paragraphs to headings.
-   - Provide MORE headings than paragraphs (at least 2-3 extra distractors)
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The title of the passage",
-    "content": "The full passage text with paragraph labels like [A], [B], [C], [D], [E]"
-  },
-  "instruction": "The passage has five paragraphs, A-E. Choose the correct heading for each paragraph from the list of headings below.",
-  "headings": [
-    {"id": "i", "text": "First heading option"},
-    {"id": "ii", "text": "Second heading option"},
-    {"id": "iii", "text": "Third heading option"},
-    {"id": "iv", "text": "Fourth heading option"},
-    {"id": "v", "text": "Fifth heading option"},
-    {"id": "vi", "text": "Sixth heading (distractor)"},
-    {"id": "vii", "text": "Seventh heading (distractor)"}
-  ],
-  "questions": [
-    {"question_number": 1, "question_text": "Paragraph A", "correct_answer": "ii", "explanation": "Why ii matches A"},
-    {"question_number": 2, "question_text": "Paragraph B", "correct_answer": "v", "explanation": "Why v matches B"},
-    {"question_number": 3, "question_text": "Paragraph C", "correct_answer": "i", "explanation": "Why i matches C"},
-    {"question_number": 4, "question_text": "Paragraph D", "correct_answer": "iv", "explanation": "Why iv matches D"},
-    {"question_number": 5, "question_text": "Paragraph E", "correct_answer": "iii", "explanation": "Why iii matches E"}
-  ]
-}`;
-
-    case 'MATCHING_INFORMATION':
-      return basePrompt + `2. Create ${questionCount} matching information questions where test-takers match statements to paragraphs.
-   - The passage has multiple paragraphs labeled A, B, C, D, E
-   - Each question asks which paragraph contains specific information
-   - Provide paragraph options with descriptions (not just letters)
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The title of the passage",
-    "content": "The full passage text with paragraph labels like [A], [B], [C], [D], [E]"
-  },
-  "instruction": "Which paragraph contains the following information? Write the correct letter, A-E.",
-  "options": [
-    {"letter": "A", "text": "Introduction and background"},
-    {"letter": "B", "text": "Historical development"},
-    {"letter": "C", "text": "Current applications"},
-    {"letter": "D", "text": "Future implications"},
-    {"letter": "E", "text": "Conclusion and summary"}
-  ],
-  "questions": [
-    {
-      "question_number": 1,
-      "question_text": "A description of the early origins of the subject",
-      "correct_answer": "B",
-      "explanation": "This information is found in paragraph B where the historical development is discussed..."
-    }
-  ]
-}`;
-
-    case 'FILL_IN_BLANK':
-    case 'SHORT_ANSWER':
-      // Randomly select a display variation for fill-in-the-blank questions
-      // Variations: standard, paragraph, bullets, headings, note_style
-      const fillVariations = ['standard', 'paragraph', 'bullets', 'headings', 'note_style'];
-      const selectedVariation = fillVariations[Math.floor(Math.random() * fillVariations.length)];
-      
-      // Randomly select word limit (1, 2, or 3 words)
-      const wordLimitOptions = [1, 2, 3];
-      const selectedWordLimit = wordLimitOptions[Math.floor(Math.random() * wordLimitOptions.length)];
-      const wordLimitText = selectedWordLimit === 1 ? 'ONE WORD ONLY' : 
-                            selectedWordLimit === 2 ? 'NO MORE THAN TWO WORDS' : 
-                            'NO MORE THAN THREE WORDS';
-      
-      let variationInstructions = '';
-      let variationFormat = '';
-      
-      if (selectedVariation === 'paragraph') {
-        variationInstructions = `
-   - Format the questions as a flowing paragraph with blanks numbered in parentheses
-   - The paragraph should be a coherent summary of part of the passage`;
-        variationFormat = `
-  "display_options": {
-    "display_as_paragraph": true,
-    "paragraph_text": "The study found that (1) _____ was the primary factor, which led to (2) _____ in the region. Researchers concluded that (3) _____ would be necessary..."
-  },`;
-      } else if (selectedVariation === 'bullets') {
-        variationInstructions = `
-   - Format each question as a bullet point item`;
-        variationFormat = `
-  "display_options": {
-    "show_bullets": true
-  },`;
-      } else if (selectedVariation === 'headings') {
-        variationInstructions = `
-   - Group questions under 2-3 thematic headings based on the passage content
-   - Each question should have a "heading" field indicating which heading it belongs to`;
-        variationFormat = `
-  "display_options": {
-    "show_headings": true,
-    "group_title": "Summary of Key Points"
-  },`;
-      } else if (selectedVariation === 'note_style') {
-        variationInstructions = `
-   - Format as note-taking style with categories
-   - Group questions into 2-3 note categories
-   - Each category has a title and list of items with blanks`;
-        variationFormat = `
-  "display_options": {
-    "note_style_enabled": true,
-    "note_categories": [
-      {
-        "title": "Main Findings",
-        "items": [
-          {"text_before": "Primary cause:", "question_number": 1, "text_after": ""},
-          {"text_before": "Effect on population:", "question_number": 2, "text_after": ""}
-        ]
-      }
-    ]
-  },`;
-      } else {
-        variationFormat = `
-  "display_options": {},`;
-      }
-      
-      return basePrompt + `2. Create ${questionCount} fill-in-the-blank/sentence completion questions.
-
-CRITICAL WORD LIMIT RULE - STRICTLY ENFORCED:
-- Maximum word limit: ${selectedWordLimit} word(s) per answer
-- Every answer MUST be ${selectedWordLimit === 1 ? 'exactly 1 word' : selectedWordLimit === 2 ? '1 or 2 words (never 3+)' : '1, 2, or 3 words (never 4+)'}
-- NEVER exceed the word limit - this violates IELTS standards
-- If word limit is 3, vary lengths naturally: some 1-word, some 2-word, some 3-word answers
-- If word limit is 2, use mix of 1-word and 2-word answers
-- If word limit is 1, ALL answers must be exactly 1 word${variationInstructions}
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The title of the passage",
-    "content": "The full passage text with paragraph labels like [A], [B], etc."
-  },
-  "instruction": "Complete the sentences below. Choose ${wordLimitText} from the passage for each answer.",${variationFormat}
-  "questions": [
-    {
-      "question_number": 1,
-      "question_text": "According to the passage, the main cause of _____ is pollution.",
-      "correct_answer": "${selectedWordLimit === 1 ? 'pollution' : selectedWordLimit === 2 ? 'climate change' : 'global climate change'}",
-      "explanation": "Found in paragraph A: 'the main cause of climate change is pollution'"${selectedVariation === 'headings' ? ',\n      "heading": "Environmental Impact"' : ''}
-    }
-  ]
-}`;
-
-    case 'SENTENCE_COMPLETION':
-      return basePrompt + `2. Create ${questionCount} sentence completion questions with a word bank.
-   - Provide a list of words/phrases (options A-H) that test-takers must choose from
-   - Each question is a sentence with a blank that must be completed using one of the given words
-   - Provide more options than questions as distractors
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The title of the passage",
-    "content": "The full passage text with paragraph labels like [A], [B], etc."
-  },
-  "instruction": "Complete the sentences below. Choose the correct letter, A-H, from the list of words below.",
-  "word_bank": [
-    {"id": "A", "text": "technology"},
-    {"id": "B", "text": "environment"},
-    {"id": "C", "text": "research"},
-    {"id": "D", "text": "education"},
-    {"id": "E", "text": "climate"},
-    {"id": "F", "text": "innovation"},
-    {"id": "G", "text": "development"},
-    {"id": "H", "text": "sustainability"}
-  ],
-  "questions": [
-    {
-      "question_number": 1,
-      "question_text": "The main focus of the study was on _____.",
-      "correct_answer": "A",
-      "explanation": "The passage mentions technology as the main focus in paragraph B"
-    },
-    {
-      "question_number": 2,
-      "question_text": "Scientists emphasized the importance of _____ in modern society.",
-      "correct_answer": "F",
-      "explanation": "Innovation is discussed as crucial in paragraph C"
-    }
-  ]
-}`;
-
-    case 'TABLE_COMPLETION':
-      return basePrompt + `2. Create a table completion task with ${questionCount} blanks to fill.
-
-CRITICAL RULES - FOLLOW EXACTLY:
-1. WORD LIMIT: Maximum TWO words per answer. STRICTLY ENFORCED.
-   - Every answer MUST be 1 or 2 words maximum
-   - NEVER use 3+ word answers - this violates IELTS standards
-   - Vary the lengths naturally: mix of 1-word and 2-word answers
-   - Example valid answers: "pollution" (1 word), "water supply" (2 words)
-   - Example INVALID: "clean water supply" (3 words - NEVER DO THIS)
-2. Tables MUST have EXACTLY 3 COLUMNS (no more, no less).
-3. Use inline blanks with __ (double underscores) within cell content, NOT separate cells for blanks.
-   - Example: "Clean air and water, pollination of crops, and __" where __ is the blank
-4. DISTRIBUTE blanks across BOTH column 2 AND column 3. Do NOT put all blanks only in column 2.
-   - Alternate between putting blanks in the 2nd column and the 3rd column
-   - At least 1/3 of blanks MUST be in the 3rd column
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The title of the passage",
-    "content": "The full passage text with paragraph labels like [A], [B], etc."
-  },
-  "instruction": "Complete the table below. Choose NO MORE THAN TWO WORDS from the passage for each answer.",
-  "table_data": [
-    [{"content": "Category", "is_header": true}, {"content": "Details", "is_header": true}, {"content": "Impact", "is_header": true}],
-    [{"content": "First item"}, {"content": "Description text and __", "has_question": true, "question_number": 1}, {"content": "Positive effect"}],
-    [{"content": "Second item"}, {"content": "More text here"}, {"content": "Results in __", "has_question": true, "question_number": 2}],
-    [{"content": "Third item"}, {"content": "Additional info about __", "has_question": true, "question_number": 3}, {"content": "Significant"}]
-  ],
-  "questions": [
-    {"question_number": 1, "question_text": "Fill in blank 1", "correct_answer": "resources", "explanation": "Found in paragraph B"},
-    {"question_number": 2, "question_text": "Fill in blank 2", "correct_answer": "water scarcity", "explanation": "Found in paragraph C"},
-    {"question_number": 3, "question_text": "Fill in blank 3", "correct_answer": "deforestation", "explanation": "Found in paragraph D"}
-  ]
-}`;
-
-    case 'FLOWCHART_COMPLETION':
-      return basePrompt + `2. Create a flowchart completion task describing a process with ${questionCount} blanks.
-
-CRITICAL INSTRUCTION RULES:
-- The instruction displayed to the user MUST be exactly: "Choose NO MORE THAN THREE WORDS AND/OR A NUMBER from the passage for each answer."
-- The answers you select from the text MUST respect this limit (max 3 words).
-- Do not artificially limit it to 2 words if a 3-word answer is better.
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The title of the passage",
-    "content": "The full passage text describing a process with paragraph labels like [A], [B], etc."
-  },
-  "instruction": "Choose NO MORE THAN THREE WORDS AND/OR A NUMBER from the passage for each answer.",
-  "flowchart_title": "Process of...",
-  "flowchart_steps": [
-    {"id": "step1", "label": "First step: gathering materials", "isBlank": false},
-    {"id": "step2", "label": "", "isBlank": true, "questionNumber": 1},
-    {"id": "step3", "label": "Third step: processing", "isBlank": false},
-    {"id": "step4", "label": "", "isBlank": true, "questionNumber": 2},
-    {"id": "step5", "label": "Final step: completion", "isBlank": false}
-  ],
-  "questions": [
-    {"question_number": 1, "question_text": "Step 2", "correct_answer": "mixing ingredients", "explanation": "Found in paragraph B"},
-    {"question_number": 2, "question_text": "Step 4", "correct_answer": "quality testing", "explanation": "Found in paragraph D"}
-  ]
-}`;
-
-    case 'SUMMARY_COMPLETION':
-    case 'SUMMARY_WORD_BANK':
-      return basePrompt + `2. Create a summary completion task with a word bank.
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The title of the passage",
-    "content": "The full passage text with paragraph labels like [A], [B], etc."
-  },
-  "instruction": "Complete the summary using the list of words, A-H, below.",
-  "summary_text": "The passage discusses how {{1}} affects modern society. Scientists have found that {{2}} plays a crucial role in this process. Furthermore, {{3}} has been identified as a key factor.",
-  "word_bank": [
-    {"id": "A", "text": "technology"},
-    {"id": "B", "text": "environment"},
-    {"id": "C", "text": "research"},
-    {"id": "D", "text": "education"},
-    {"id": "E", "text": "climate"},
-    {"id": "F", "text": "innovation"}
-  ],
-  "questions": [
-    {"question_number": 1, "question_text": "Gap 1", "correct_answer": "A", "explanation": "Technology is discussed as affecting society"},
-    {"question_number": 2, "question_text": "Gap 2", "correct_answer": "C", "explanation": "Research is mentioned as crucial"},
-    {"question_number": 3, "question_text": "Gap 3", "correct_answer": "E", "explanation": "Climate is identified as key factor"}
-  ]
-}`;
-
-    case 'MATCHING_SENTENCE_ENDINGS':
-      return basePrompt + `2. Create ${questionCount} matching sentence endings questions.
-   - Provide more endings than questions as distractors
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The title of the passage",
-    "content": "The full passage text with paragraph labels like [A], [B], etc."
-  },
-  "instruction": "Complete each sentence with the correct ending, A-G, below.",
-  "sentence_beginnings": [
-    {"number": 1, "text": "Scientists discovered that"},
-    {"number": 2, "text": "The research team found that"},
-    {"number": 3, "text": "Experts believe that"}
-  ],
-  "sentence_endings": [
-    {"id": "A", "text": "pollution has increased significantly."},
-    {"id": "B", "text": "new methods are needed."},
-    {"id": "C", "text": "the results were unexpected."},
-    {"id": "D", "text": "further study is required."},
-    {"id": "E", "text": "improvements can be made."}
-  ],
-  "questions": [
-    {"question_number": 1, "question_text": "Scientists discovered that", "correct_answer": "C", "explanation": "The passage states..."},
-    {"question_number": 2, "question_text": "The research team found that", "correct_answer": "A", "explanation": "Found in paragraph B..."}
-  ]
-}`;
-
-    case 'MAP_LABELING':
-      return basePrompt + `2. Create a map/diagram labeling task with ${questionCount} labels to identify.
-
-OFFICIAL IELTS FORMAT - CRITICAL RULES:
-- The MAP shows: (1) Letter circles A-H marking UNKNOWN locations, and (2) LABELED landmarks for navigation
-- The PASSAGE describes where things are using DIRECTIONS and LANDMARKS (e.g., "opposite the main entrance", "north of the café")
-- QUESTIONS show the PLACE NAME the test taker must locate (e.g., "Library", "Gift Shop")
-- The correct_answer is the LETTER (A, B, C, etc.) where that place is located
-
-MAP STRUCTURE:
-- map_labels: Answer positions A-H with x,y coordinates (0-100 percentage). The "text" field stores what the letter represents (for answer checking) but this text is NOT shown on the map - only the letter circle appears!
-- landmarks: Reference points with x,y coordinates that ARE labeled on the map (streets, known buildings like "Main Entrance", "Café", "Park")
-
-PASSAGE STYLE:
-- Describe locations using RELATIVE POSITIONS: "The gift shop is directly opposite the main entrance" or "Located to the north of the café"
-- NEVER say "The gift shop is at position B" - test takers must figure this out!
-- Use directional words: north, south, east, west, opposite, adjacent, between, corner of, next to, behind
-
-CRITICAL: Answers must NOT be sequential! Randomize: Q1=D, Q2=A, Q3=F, Q4=B (NOT Q1=A, Q2=B, Q3=C)
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The New Community Center",
-    "content": "The new community center opened last month. The main entrance faces Oak Street. Immediately to the left of the entrance is the reception desk. The children's play area is located in the northeast corner, directly behind the café. The library occupies the western wing, opposite the sports hall. Meeting rooms can be found on the second floor, accessible via the staircase next to the reception."
-  },
-  "instruction": "Label the map below. Choose the correct letter, A-H.",
-  "map_description": "A floor plan showing Oak Street at the bottom with main entrance. The building has various rooms arranged around a central corridor.",
-  "map_labels": [
-    {"id": "A", "text": "Reception", "x": 25, "y": 70},
-    {"id": "B", "text": "Children's Play Area", "x": 75, "y": 20},
-    {"id": "C", "text": "Library", "x": 15, "y": 40},
-    {"id": "D", "text": "Sports Hall", "x": 75, "y": 40},
-    {"id": "E", "text": "Meeting Rooms", "x": 50, "y": 15},
-    {"id": "F", "text": "Storage", "x": 85, "y": 70},
-    {"id": "G", "text": "Staff Room", "x": 15, "y": 20},
-    {"id": "H", "text": "Toilets", "x": 85, "y": 15}
-  ],
-  "landmarks": [
-    {"id": "L1", "text": "Oak Street", "x": 50, "y": 95},
-    {"id": "L2", "text": "Main Entrance", "x": 50, "y": 85},
-    {"id": "L3", "text": "Café", "x": 60, "y": 30},
-    {"id": "L4", "text": "Staircase", "x": 35, "y": 70}
-  ],
-  "map_type": "floor_plan",
-  "questions": [
-    {"question_number": 1, "question_text": "Children's Play Area", "correct_answer": "B", "explanation": "Passage says it's in the northeast corner, behind the café"},
-    {"question_number": 2, "question_text": "Library", "correct_answer": "C", "explanation": "Passage says it occupies the western wing, opposite the sports hall"},
-    {"question_number": 3, "question_text": "Reception", "correct_answer": "A", "explanation": "Passage says it's immediately left of the main entrance"},
-    {"question_number": 4, "question_text": "Sports Hall", "correct_answer": "D", "explanation": "Passage says the library is opposite it"}
-  ]
-}`;
-
-    case 'NOTE_COMPLETION':
-      return basePrompt + `2. Create a note completion task with ${questionCount} blanks.
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The title of the passage",
-    "content": "The full passage text with paragraph labels like [A], [B], etc."
-  },
-  "instruction": "Complete the notes below. Choose NO MORE THAN TWO WORDS from the passage for each answer.",
-  "note_sections": [
-    {
-      "title": "Main Topic",
-      "items": [
-        {"text_before": "The primary cause is", "question_number": 1, "text_after": ""},
-        {"text_before": "This leads to", "question_number": 2, "text_after": "in urban areas"}
-      ]
-    }
-  ],
-  "questions": [
-    {"question_number": 1, "question_text": "Note 1", "correct_answer": "pollution", "explanation": "Found in paragraph A"},
-    {"question_number": 2, "question_text": "Note 2", "correct_answer": "health problems", "explanation": "Found in paragraph B"}
-  ]
-}`;
-
-    default:
-      return basePrompt + `2. Create ${questionCount} fill-in-the-blank questions based on the passage.
-
-Return ONLY valid JSON in this exact format:
-{
-  "passage": {
-    "title": "The title of the passage",
-    "content": "The full passage text with paragraph labels like [A], [B], etc."
-  },
-  "instruction": "Complete the sentences below using words from the passage.",
-  "questions": [
-    {
-      "question_number": 1,
-      "question_text": "Complete this sentence: _____",
-      "correct_answer": "the answer",
-      "explanation": "Why this is correct"
-    }
-  ]
-}`;
-  }
-}
-
-// Listening question type prompts
-// TEMPORARY: 1 minute audio for testing (revert to 4/600 for production)
-const LISTENING_AUDIO_LENGTH_MINUTES = 1; // TESTING: was 4
-const LISTENING_QUESTION_COUNT = 7;
-const LISTENING_WORD_COUNT = 150; // TESTING: was 600 (1 min * 150 words/min)
-
-function getListeningPrompt(
-  questionType: string, 
-  topic: string, 
-  difficulty: string, 
-  questionCount: number, 
-  scenario: any,
-  listeningConfig?: ListeningConfig
-): string {
-  const difficultyDesc = difficulty === 'easy' ? 'Band 5-5.5' : difficulty === 'medium' ? 'Band 6-6.5' : difficulty === 'hard' ? 'Band 7-7.5' : 'Band 8-9 (Expert level - extremely challenging, requires near-native comprehension, subtle inferences, and mastery of nuanced vocabulary)';
-  
-  // HARDCODED per Architect spec: 4 minutes audio, 7 questions
-  const targetWordCount = LISTENING_WORD_COUNT;
-  const targetDurationSeconds = LISTENING_AUDIO_LENGTH_MINUTES * 60; // 240 seconds
-  const effectiveQuestionCount = LISTENING_QUESTION_COUNT;
-  
-  const wordRange = `${targetWordCount - 50}-${targetWordCount + 50}`;
-
-  // Determine if we use 1 or 2 speakers based on config
-  const useTwoSpeakers = listeningConfig?.speakerConfig?.useTwoSpeakers !== false;
-
-  // SSML pause instructions - Use natural, short pauses
-  const ssmlInstructions = `
-   CRITICAL AUDIO PACING - NATURAL PAUSES ONLY:
-   - You MUST use SSML tags for pauses in the dialogue
-   - Insert <break time='500ms'/> between sentences and speaker turns
-   - Insert <break time='300ms'/> for natural pauses within speech
-   - NEVER use pauses longer than 1 second - keep the audio flowing naturally
-   - Example: "Speaker1: Welcome to the museum tour.<break time='500ms'/> Let me start by explaining the layout."
-   - Avoid long silences - test takers can pause the audio if needed`;
-
-  // FIX 1: Resolve genders dynamically from actual TTS voices to prevent name/voice mismatch
-  const s1Voice = listeningConfig?.speakerConfig?.speaker1?.voiceName || 'Kore';
-  const s2Voice = listeningConfig?.speakerConfig?.speaker2?.voiceName || 'Aoede';
-  
-  const s1Gender = (VOICE_GENDER_MAP[s1Voice] || 'male').toUpperCase();
-  const s2Gender = (VOICE_GENDER_MAP[s2Voice] || (s1Gender === 'MALE' ? 'female' : 'male')).toUpperCase();
-  
-  const maleNames = 'Mark, David, John, Michael, James';
-  const femaleNames = 'Sarah, Emma, Lisa, Rachel, Kate';
-
-  // Build prompt for realistic character names with SSML instructions
-  const characterInstructions = useTwoSpeakers
-    ? `1. Create a dialogue script between two characters that is:
-   - ${wordRange} words total (approximately ${targetDurationSeconds} seconds / ${LISTENING_AUDIO_LENGTH_MINUTES} minutes when spoken)
-   
-   CRITICAL GENDER & NAME RULES (VOICE-SYNCHRONIZED):
-   - Speaker1 voice is ${s1Gender}. You MUST assign Speaker1 a ${s1Gender} name (e.g., ${s1Gender === 'MALE' ? maleNames : femaleNames}).
-   - Speaker2 voice is ${s2Gender}. You MUST assign Speaker2 a ${s2Gender} name (e.g., ${s2Gender === 'MALE' ? maleNames : femaleNames}).
-   - DO NOT use self-referential phrases that contradict these genders.
-   - DO NOT assign a male name to a female voice or vice versa.
-   
-   - In the output JSON dialogue field, you MUST use "Speaker1:" and "Speaker2:" prefixes for TTS processing
-   - ALSO include a "speaker_names" object in your JSON that maps Speaker1/Speaker2 to their real names
-   - Contains specific details (names, numbers, dates, locations)
-   ${ssmlInstructions}
-   
-   CRITICAL OUTPUT FORMAT:
-   - dialogue: Use "Speaker1:" and "Speaker2:" prefixes (required for audio generation)
-   - speaker_names: {"Speaker1": "${s1Gender === 'MALE' ? 'Mark' : 'Sarah'}", "Speaker2": "${s2Gender === 'MALE' ? 'David' : 'Emma'}"}`
-    : `1. Create a monologue script by a single speaker that is:
-   - ${wordRange} words total (approximately ${targetDurationSeconds} seconds / ${LISTENING_AUDIO_LENGTH_MINUTES} minutes when spoken)
-   - Clear and informative, like a tour guide, lecturer, or announcer
-   - Use "Speaker1:" prefix for all lines (required for TTS)
-   - ALSO include a "speaker_names" object: {"Speaker1": "Appropriate Role/Title"}
-   - Example: speaker_names: {"Speaker1": "Tour Guide"} or {"Speaker1": "${s1Gender === 'MALE' ? 'Professor Williams' : 'Dr. Thompson'}"}
-   - Contains specific details (names, numbers, dates, locations)
-   ${ssmlInstructions}`;
-
-  const basePrompt = `Generate an IELTS Listening test section with the following specifications:
-
-Topic: ${topic}
-Scenario: ${scenario.description}
-Difficulty: ${difficulty} (${difficultyDesc})
-FIXED PARAMETERS: ${LISTENING_AUDIO_LENGTH_MINUTES} minutes audio, ${effectiveQuestionCount} questions
-
-Requirements:
-${characterInstructions}
-`;
-
-  // Handle FILL_IN_BLANK with optional Spelling Mode or Monologue Mode
-  if (questionType === 'FILL_IN_BLANK') {
-    const spellingMode = listeningConfig?.spellingMode;
-    const isMonologue = listeningConfig?.monologueMode === true;
-    
-    // NATURAL GAP POSITIONING INSTRUCTION - randomizes blank positions
-    const gapPositionInstruction = `
-CRITICAL - NATURAL GAP/BLANK POSITIONING:
-For fill-in-the-blank questions, you MUST randomize the position of the missing word (represented by _____):
-- 30% of questions: Blank should be near the START of the sentence (e.g., "_____ is the main attraction.")
-- 40% of questions: Blank should be in the MIDDLE of the sentence (e.g., "The event starts at _____ on Saturday.")
-- 30% of questions: Blank should be at the END of the sentence (e.g., "Visitors should bring _____.")
-- Ensure the sentence context makes the missing word deducible from the audio.
-- NEVER put all blanks at the same position - vary them naturally across questions.`;
-    
-    // Monologue mode (IELTS Part 4 style)
-    if (isMonologue) {
-      return basePrompt + `2. Create ${effectiveQuestionCount} fill-in-the-blank questions in IELTS Part 4 monologue style.
-
-CRITICAL RULES FOR MONOLOGUE MODE:
-- This is a SINGLE SPEAKER monologue (like a lecture, tour guide, or presentation)
-- Use "Speaker1:" prefix for ALL lines (required for TTS)
-- Blanks should contain common nouns, dates, numbers, or descriptive phrases
-${gapPositionInstruction}
-
-Return ONLY valid JSON:
-{
-  "dialogue": "Speaker1: Welcome to today's lecture...<break time='500ms'/> Let me explain...",
-  "speaker_names": {"Speaker1": "Professor Williams"},
-  "instruction": "Complete the notes below. Write NO MORE THAN THREE WORDS AND/OR A NUMBER for each answer.",
-  "questions": [
-    {"question_number": 1, "question_text": "_____ was the primary building material used.", "correct_answer": "Limestone", "explanation": "Speaker mentions limestone (START gap)"},
-    {"question_number": 2, "question_text": "The museum opens at _____ on weekdays.", "correct_answer": "9 AM", "explanation": "Speaker states opening time (MIDDLE gap)"},
-    {"question_number": 3, "question_text": "Visitors should register at _____.", "correct_answer": "the front desk", "explanation": "Speaker mentions registration location (END gap)"}
-  ]
-}`;
-    }
-    
-    // Standard Fill-in-Blank
-    return basePrompt + `2. Create ${effectiveQuestionCount} fill-in-the-blank questions.
-${gapPositionInstruction}
-
-CRITICAL NEGATIVE CONSTRAINT: You are PROHIBITED from placing the blank at the very end of the sentence more than 30% of the time.
-
-Return ONLY valid JSON:
-{
-  "dialogue": "Speaker1: Hello, welcome to the museum...<break time='500ms'/>\\nSpeaker2: Thank you...",
-  "speaker_names": {"Speaker1": "Tour Guide", "Speaker2": "Visitor"},
-  "instruction": "Complete the notes below. Write NO MORE THAN THREE WORDS AND/OR A NUMBER for each answer.",
-  "questions": [
-    {"question_number": 1, "question_text": "_____ is located on the second floor.", "correct_answer": "The gift shop", "explanation": "Speaker mentions gift shop location (START gap)"},
-    {"question_number": 2, "question_text": "The tour lasts approximately _____.", "correct_answer": "45 minutes", "explanation": "Speaker mentions tour duration (MIDDLE gap)"},
-    {"question_number": 3, "question_text": "Photography is not allowed in _____.", "correct_answer": "the main gallery", "explanation": "Speaker mentions photography restriction (END gap)"}
-  ]
-}`;
-  }
-
-  switch (questionType) {
-    case 'MULTIPLE_CHOICE':
-    case 'MULTIPLE_CHOICE_SINGLE':
-      return basePrompt + `2. Create ${effectiveQuestionCount} multiple choice questions (single answer).
-
-Return ONLY valid JSON:
-{
-  "dialogue": "Speaker1: Let me explain...<break time='500ms'/>\\nSpeaker2: I see...",
-  "speaker_names": {"Speaker1": "Instructor", "Speaker2": "Student"},
-  "instruction": "Choose the correct letter, A, B or C.",
-  "questions": [
-    {"question_number": 1, "question_text": "What is the main topic?", "options": ["A First option", "B Second option", "C Third option"], "correct_answer": "A", "explanation": "The speaker mentions..."}
-  ]
-}`;
-
-    case 'MULTIPLE_CHOICE_MULTIPLE':
-      // For MCQ Multiple, we create ONE question "set" where test-takers must pick 3 answers.
-      // The question group spans 3 question numbers (Questions 1-3) with 6 options (A-F).
-      // This mirrors the reading MCMA format exactly.
-      return basePrompt + `2. Create ONE multiple choice question set where test-takers must select THREE correct answers from six options (A-F).
-
-CRITICAL REQUIREMENTS:
-- The question set spans Questions 1 to 3 (3 question numbers)
-- Return EXACTLY 3 question objects with question_number 1, 2, and 3
-- ALL 3 question objects must have IDENTICAL content (same question_text, same options, same correct_answer, same explanation)
-- Generate exactly 6 options (A through F) with full descriptive text
-- The correct_answer must be a comma-separated list of 3 letters (e.g., "A,C,E" or "B,D,F")
-- DO NOT always use the same letters - randomize which 3 options are correct
-- Each option must be in format "A Full description of option A" (letter followed by space then text)
-
-Return ONLY valid JSON:
-{
-  "dialogue": "Speaker1: There are several key benefits to this approach...<break time='500ms'/> First, it improves efficiency...<break time='300ms'/> Additionally, it reduces costs...",
-  "speaker_names": {"Speaker1": "Expert"},
-  "instruction": "Questions 1-3. Choose THREE letters, A-F.",
-  "max_answers": 3,
-  "questions": [
-    {"question_number": 1, "question_text": "Which THREE benefits are mentioned by the speaker?", "options": ["A Improved efficiency in operations", "B Better customer satisfaction", "C Reduced overall costs", "D Enhanced employee morale", "E Faster processing times", "F Greater market reach"], "correct_answer": "A,C,E", "explanation": "A is correct because efficiency is mentioned. C is correct because cost reduction is discussed. E is correct because faster processing is highlighted.", "max_answers": 3},
-    {"question_number": 2, "question_text": "Which THREE benefits are mentioned by the speaker?", "options": ["A Improved efficiency in operations", "B Better customer satisfaction", "C Reduced overall costs", "D Enhanced employee morale", "E Faster processing times", "F Greater market reach"], "correct_answer": "A,C,E", "explanation": "A is correct because efficiency is mentioned. C is correct because cost reduction is discussed. E is correct because faster processing is highlighted.", "max_answers": 3},
-    {"question_number": 3, "question_text": "Which THREE benefits are mentioned by the speaker?", "options": ["A Improved efficiency in operations", "B Better customer satisfaction", "C Reduced overall costs", "D Enhanced employee morale", "E Faster processing times", "F Greater market reach"], "correct_answer": "A,C,E", "explanation": "A is correct because efficiency is mentioned. C is correct because cost reduction is discussed. E is correct because faster processing is highlighted.", "max_answers": 3}
-  ]
-}`;
-    case 'MATCHING_CORRECT_LETTER':
-    case 'DRAG_AND_DROP_OPTIONS': {
-      // UNIFIED PROMPT for both question types - they are functionally identical
-      // Calculate number of distractor options (2-3 more than number of questions)
-      const numDistractorsDND = Math.min(3, Math.max(2, Math.ceil(effectiveQuestionCount * 0.4)));
-      const totalOptionsDND = effectiveQuestionCount + numDistractorsDND;
-      const lastLetterDND = String.fromCharCode(64 + totalOptionsDND);
-      
-      return basePrompt + `2. Create ${effectiveQuestionCount} drag-and-drop questions with a word bank.
-
-CRITICAL - DRAG & DROP FORMAT WITH DISTRACTORS:
-This is a WORD BANK question type where test-takers drag options to fill blanks.
-You MUST generate MORE options than questions - the extras are DISTRACTORS.
-
-REQUIREMENTS:
-1. Generate EXACTLY ${totalOptionsDND} options in the "drag_options" array (letters A-${lastLetterDND})
-2. Only ${effectiveQuestionCount} are correct answers; ${numDistractorsDND} are PLAUSIBLE DISTRACTORS
-3. DISTRACTORS must be thematically relevant but WRONG based on the dialogue
-   - If answers are names, distractors should be other plausible names NOT mentioned
-   - If answers are dates/times, distractors should be other dates/times NOT mentioned
-   - If answers are places, distractors should be other plausible places NOT mentioned
-4. Each question_text MUST contain a blank using underscores: ________
-5. Each correct_answer MUST be a SINGLE LETTER (A, B, C, etc.)
-6. Letter mapping: A = drag_options[0], B = drag_options[1], etc.
-
-EXAMPLE: If dialogue mentions "October 12th" and "Central Park":
-- drag_options: ["October 12th", "Central Park", "November 5th", "Riverside Park"]
-- Question about date → correct_answer: "A"
-- "November 5th" and "Riverside Park" are distractors (plausible but not mentioned)
-
-Return ONLY valid JSON:
-{
-  "dialogue": "Speaker1: The wellness fair is on October 12th at Central Park Pavilion...<break time='500ms'/> Sarah Jenkins leads the yoga session at 10 AM...",
-  "speaker_names": {"Speaker1": "Event Coordinator"},
-  "instruction": "Complete the notes below by dragging the correct option to each blank.",
-  "drag_options": ["October 12th", "Central Park", "Sarah Jenkins", "10 AM", "November 5th", "Riverside Park", "Michael Brown", "2 PM"],
-  "questions": [
-    {"question_number": 1, "question_text": "Event date: ________", "correct_answer": "A", "explanation": "Speaker mentions 'October 12th' as the date."},
-    {"question_number": 2, "question_text": "Location: ________ Pavilion", "correct_answer": "B", "explanation": "Speaker says 'Central Park Pavilion'."},
-    {"question_number": 3, "question_text": "Yoga instructor: ________", "correct_answer": "C", "explanation": "Sarah Jenkins leads the yoga session."},
-    {"question_number": 4, "question_text": "Yoga session time: ________", "correct_answer": "D", "explanation": "Yoga is at 10 AM."}
-  ]
-}`;
-    }
-
-    case 'TABLE_COMPLETION':
-      return basePrompt + `2. Create a table completion task with ${effectiveQuestionCount} blanks.
-
-Return ONLY valid JSON:
-{
-  "dialogue": "Speaker1: Let me give you the schedule...<break time='500ms'/>",
-  "speaker_names": {"Speaker1": "Coordinator"},
-  "instruction": "Complete the table below.",
-  "table_data": {
-    "headers": ["Event", "Time", "Location"],
-    "rows": [
-      [{"text": "Opening ceremony"}, {"text": "9:00 AM"}, {"isBlank": true, "questionNumber": 1}],
-      [{"text": "Workshop"}, {"isBlank": true, "questionNumber": 2}, {"text": "Room 101"}]
-    ]
-  },
-  "questions": [
-    {"question_number": 1, "question_text": "Location of opening ceremony", "correct_answer": "Main Hall", "explanation": "Speaker says Main Hall"}
-  ]
-}`;
-
-    case 'FLOWCHART_COMPLETION':
-      return basePrompt + `2. Create a flowchart completion task with ${effectiveQuestionCount} blanks.
-
-Return ONLY valid JSON:
-{
-  "dialogue": "Speaker1: Let me explain the process...<break time='500ms'/>",
-  "speaker_names": {"Speaker1": "HR Manager"},
-  "instruction": "Complete the flow chart below.",
-  "flowchart_title": "Application Process",
-  "flowchart_steps": [
-    {"id": "step1", "text": "Submit application", "hasBlank": false},
-    {"id": "step2", "text": "Receive __1__", "hasBlank": true, "blankNumber": 1},
-    {"id": "step3", "text": "Attend __2__", "hasBlank": true, "blankNumber": 2}
-  ],
-  "distractor_options": ["schedule", "discount"],
-  "questions": [
-    {"question_number": 1, "question_text": "Step 2", "correct_answer": "confirmation", "explanation": "System sends confirmation"}
-  ]
-}`;
-
-    case 'MAP_LABELING':
-      return basePrompt + `2. Create a map labeling task with ${effectiveQuestionCount} locations.
-
-CRITICAL: Use directional language, NEVER say "at position B".
-Include x,y coordinates (0-100 percentage) for each label and landmark for map rendering.
-
-Return ONLY valid JSON:
-{
-  "dialogue": "Speaker1: Welcome to Historic Fairview. Let me show you around...<break time='500ms'/> The quilt shop is on the west side of Main Street, just past the welcome center.<break time='500ms'/> If you walk north along Main Street, you'll find the handicrafts museum on your right, directly across from the bank...",
-  "speaker_names": {"Speaker1": "Tour Guide"},
-  "instruction": "Label the map. Choose the correct letter, A-H.",
-  "map_description": "A street map showing the intersection of Oak Street and Main Street. Buildings are arranged along both streets.",
-  "map_type": "street_map",
-  "map_labels": [
-    {"id": "A", "text": "Art Gallery", "x": 20, "y": 25},
-    {"id": "B", "text": "Bookshop", "x": 40, "y": 35},
-    {"id": "C", "text": "Museum", "x": 70, "y": 25},
-    {"id": "D", "text": "Quilt Shop", "x": 25, "y": 55},
-    {"id": "E", "text": "School House", "x": 75, "y": 55},
-    {"id": "F", "text": "Gift Shop", "x": 50, "y": 65},
-    {"id": "G", "text": "Café", "x": 80, "y": 35},
-    {"id": "H", "text": "Post Office", "x": 15, "y": 75}
-  ],
-  "landmarks": [
-    {"id": "L1", "text": "Bank", "x": 55, "y": 25},
-    {"id": "L2", "text": "Welcome Center", "x": 30, "y": 45},
-    {"id": "L3", "text": "Oak Street", "x": 50, "y": 10},
-    {"id": "L4", "text": "Main Street", "x": 10, "y": 50},
-    {"id": "L5", "text": "Elm Street", "x": 50, "y": 90}
-  ],
-  "questions": [
-    {"question_number": 1, "question_text": "Quilt Shop", "correct_answer": "D", "explanation": "Guide says it's on west side of Main Street, past welcome center"},
-    {"question_number": 2, "question_text": "Museum", "correct_answer": "C", "explanation": "Guide says it's north on Main Street, across from the bank"},
-    {"question_number": 3, "question_text": "School House", "correct_answer": "E", "explanation": "Guide says it's on the east side, south of the café"}
-  ]
-}`;
-
-    case 'NOTE_COMPLETION':
-      return basePrompt + `2. Create a note completion task with ${effectiveQuestionCount} blanks.
-
-Return ONLY valid JSON:
-{
-  "dialogue": "Speaker1: Let me explain the key points...<break time='500ms'/>",
-  "speaker_names": {"Speaker1": "Lecturer"},
-  "instruction": "Complete the notes below.",
-  "note_sections": [
-    {
-      "title": "Main Topic",
-      "items": [
-        {"text_before": "The primary focus is", "question_number": 1, "text_after": ""}
-      ]
-    }
-  ],
-  "questions": [
-    {"question_number": 1, "question_text": "Note 1", "correct_answer": "research methods", "explanation": "Speaker mentions research methods"}
-  ]
-}`;
-
-    // DRAG_AND_DROP_OPTIONS is handled above with MATCHING_CORRECT_LETTER (same prompt)
-
-
-    default:
-      return basePrompt + `2. Create ${effectiveQuestionCount} fill-in-the-blank questions.
-
-Return ONLY valid JSON:
-{
-  "dialogue": "Speaker1: dialogue...<break time='500ms'/>\\nSpeaker2: response...",
-  "speaker_names": {"Speaker1": "Host", "Speaker2": "Guest"},
-  "instruction": "Complete the notes below.",
-  "questions": [
-    {"question_number": 1, "question_text": "The event takes place in _____.", "correct_answer": "the main garden", "explanation": "Speaker mentions the main garden"}
-  ]
-}`;
-  }
-}
-
 // ============================================================================
 // SERVE HANDLER
 // ============================================================================
@@ -2179,14 +977,16 @@ serve(async (req) => {
     // ============ CREDIT SYSTEM CHECK ============
     // Step 1: If user has their own key (BYOK), skip all credit checks
     // Step 2-4: Check and enforce credit limits for system pool users
-    const operationType = module === 'reading' ? 'generate_reading' 
+    const operationType: CreditOperation = module === 'reading' ? 'generate_reading'
                         : module === 'listening' ? 'generate_listening'
                         : module === 'writing' ? 'generate_writing'
                         : module === 'speaking' ? 'generate_speaking'
                         : 'generate_reading';
     
+    // Committed once the test is returned, refunded if generation fails
+    let reservation: CreditReservation | null = null;
     if (!isUserProvidedKey) {
-      const creditCheck = await checkAndReserveCredits(serviceClient, user.id, operationType as keyof typeof COSTS);
+      const creditCheck = await reserveCredits(serviceClient, user.id, operationType);
       
       if (!creditCheck.ok) {
         return new Response(JSON.stringify({ 
@@ -2194,6 +994,7 @@ serve(async (req) => {
           errorType: 'CREDIT_LIMIT_EXCEEDED',
           creditsUsed: creditCheck.creditsUsed,
           creditsRemaining: creditCheck.creditsRemaining,
+          bonusCredits: creditCheck.bonusCredits,
           dailyLimit: DAILY_CREDIT_LIMIT
         }), {
           status: 403,
@@ -2201,15 +1002,12 @@ serve(async (req) => {
         });
       }
       
+      reservation = creditCheck.reservation;
       console.log(`Credits reserved: ${creditCheck.creditsUsed}/${DAILY_CREDIT_LIMIT} used, ${creditCheck.creditsRemaining} remaining after this operation`);
     } else {
       console.log('BYOK mode: Skipping credit check');
     }
     
-    // Track if we need to refund on error (only if credits were reserved)
-    const creditsReserved = !isUserProvidedKey;
-    const currentOperationType = operationType as keyof typeof COSTS;
-    
     const topic = topicPreference || IELTS_TOPICS[Math.floor(Math.random() * IELTS_TOPICS.length)];
     const testId = crypto.randomUUID();
 
@@ -2526,8 +1324,10 @@ serve(async (req) => {
               questionGroups: groups,
               isPreset: true,
               presetId: preset.id,
+              promptVersion: preset.prompt_version ?? undefined,
             };
           
+          await commitCredits(serviceClient, reservation, presetRunTestId);
           console.log(`Serving listening preset: ${preset.topic}`);
           return new Response(JSON.stringify(responsePayload), {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -2607,8 +1407,10 @@ serve(async (req) => {
             audioUrls: payload.audioUrls, // Pre-generated TTS audio URLs
             isPreset: true,
             presetId: preset.id,
+            promptVersion: preset.prompt_version ?? undefined,
           };
           
+          await commitCredits(serviceClient, reservation, presetRunTestId);
           console.log(`Serving speaking preset: ${preset.topic}, parts: ${speakingParts.length}`);
           return new Response(JSON.stringify(responsePayload), {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -2887,8 +1689,10 @@ serve(async (req) => {
             questionGroups: groups,
             isPreset: true,
             presetId: preset.id,
+            promptVersion: preset.prompt_version ?? undefined,
           };
           
+          await commitCredits(serviceClient, reservation, presetRunTestId);
           console.log(`Serving reading preset: ${preset.topic}`);
           return new Response(JSON.stringify(responsePayload), {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -2904,8 +1708,10 @@ serve(async (req) => {
             writingTask: payload.writingTask || payload,
             isPreset: true,
             presetId: preset.id,
+            promptVersion: preset.prompt_version ?? undefined,
           };
           
+          await commitCredits(serviceClient, reservation, presetRunTestId);
           console.log(`Serving writing preset: ${preset.topic}`);
           return new Response(JSON.stringify(responsePayload), {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -2924,6 +1730,7 @@ serve(async (req) => {
     // Pre-flight validation
     const preflightResult = await preflightApiCheck(geminiApiKey, skipPreflight === true);
     if (!preflightResult.ok) {
+      await refundCredits(serviceClient, reservation, 'The AI service was unavailable');
       return new Response(JSON.stringify({ 
         error: preflightResult.error,
         errorType: 'API_ERROR',
@@ -2935,16 +1742,18 @@ serve(async (req) => {
     }
 
     if (module === 'reading') {
-      const readingPrompt = getReadingPrompt(questionType, topic, difficulty, questionCount, readingConfig);
-      const result = await callGemini(geminiApiKey, readingPrompt, 2, { dbKeys: dbApiKeys, serviceClient });
+      // Fill-in-the-blank layout is varied per test; the template itself stays deterministic
+      const fillLayout = {
+        variation: READING_FILL_VARIATIONS[Math.floor(Math.random() * READING_FILL_VARIATIONS.length)],
+        wordLimit: 1 + Math.floor(Math.random() * 3),
+      };
+      const readingPrompt = renderPrompt(practiceReadingPrompt, { questionType, topic, difficulty, questionCount, readingConfig, fillLayout });
+      const result = await callGemini(geminiApiKey, readingPrompt.text, { dbKeys: dbApiKeys, serviceClient });
       
       let totalTokensUsed = getLastTokensUsed();
       
       if (!result) {
-        // Refund credits on AI failure
-        if (creditsReserved) {
-          await refundCredits(serviceClient, user.id, currentOperationType);
-        }
+        await refundCredits(serviceClient, reservation, 'Generation failed');
         if (wasQuotaExceeded()) {
           return new Response(JSON.stringify({ 
             error: getLastGeminiError(),
@@ -2962,39 +1771,29 @@ serve(async (req) => {
       
       await updateQuotaTracking(serviceClient, user.id, totalTokensUsed);
 
-      let parsed;
-      try {
-        const jsonStr = extractJsonFromResponse(result);
-        parsed = JSON.parse(jsonStr);
-        
-        // Validate required fields
-        if (!parsed.passage || !parsed.passage.content) {
-          throw new Error('Missing passage content in AI response');
-        }
-        if (!Array.isArray(parsed.questions) || parsed.questions.length === 0) {
-          throw new Error('Missing or empty questions array in AI response');
-        }
-        // Validate each question has required fields
-        for (const q of parsed.questions) {
-          if (!q.correct_answer) {
-            throw new Error(`Question ${q.question_number || '?'} missing correct_answer`);
-          }
-        }
-      } catch (e) {
-        console.error("Failed to parse/validate Gemini response:", e);
-        // Refund credits on parse failure
-        if (creditsReserved) {
-          await refundCredits(serviceClient, user.id, currentOperationType);
-        }
+      const checked = await validateGeneratedContent(
+        result,
+        readingPrompt.text,
+        zodValidator(readingGenerationSchema(questionType)),
+        async (repairPrompt) => {
+          const repaired = await callGemini(geminiApiKey, repairPrompt, { dbKeys: dbApiKeys, serviceClient });
+          await updateQuotaTracking(serviceClient, user.id, getLastTokensUsed());
+          return repaired;
+        },
+      );
+      if (!checked.ok) {
+        console.error("Reading content failed validation after repair:", checked.issues);
+        await refundCredits(serviceClient, reservation, 'The generated test was invalid');
         return new Response(JSON.stringify({ 
           error: 'AI returned invalid content. Please try again.',
-          errorType: 'PARSE_ERROR',
-          details: e instanceof Error ? e.message : String(e)
+          errorType: 'VALIDATION_ERROR',
+          validationIssues: checked.issues,
         }), {
           status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
+      const parsed = checked.value;
 
       const groupId = crypto.randomUUID();
       const passageId = crypto.randomUUID();
@@ -3062,6 +1861,7 @@ serve(async (req) => {
       const responsePayload = {
         testId,
         topic,
+        promptVersion: readingPrompt.version,
         passage: {
           id: passageId,
           title: parsed.passage?.title || 'Reading Passage',
@@ -3083,7 +1883,7 @@ serve(async (req) => {
         await saveToTestBank(serviceClient, 'reading', topic, responsePayload);
       }
 
-      // Credits already reserved atomically before AI call - no deduction needed
+      await commitCredits(serviceClient, reservation, testId);
 
       return new Response(JSON.stringify(responsePayload), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -3091,16 +1891,20 @@ serve(async (req) => {
 
     } else if (module === 'listening') {
       const scenario = LISTENING_SCENARIOS[Math.floor(Math.random() * LISTENING_SCENARIOS.length)];
-      const listeningPrompt = getListeningPrompt(questionType, topic, difficulty, LISTENING_QUESTION_COUNT, scenario, listeningConfig);
+      const listeningPrompt = renderPrompt(practiceListeningPrompt, {
+        questionType,
+        topic,
+        difficulty,
+        scenario,
+        speakerGenders: resolveSpeakerGenders(listeningConfig?.speakerConfig),
+        listeningConfig,
+      });
       
-      const result = await callGemini(geminiApiKey, listeningPrompt, 2, { dbKeys: dbApiKeys, serviceClient });
+      const result = await callGemini(geminiApiKey, listeningPrompt.text, { dbKeys: dbApiKeys, serviceClient });
       let totalTokensUsed = getLastTokensUsed();
       
       if (!result) {
-        // Refund credits on AI failure
-        if (creditsReserved) {
-          await refundCredits(serviceClient, user.id, currentOperationType);
-        }
+        await refundCredits(serviceClient, reservation, 'Generation failed');
         if (wasQuotaExceeded()) {
           return new Response(JSON.stringify({ 
             error: getLastGeminiError(),
@@ -3116,54 +1920,29 @@ serve(async (req) => {
         });
       }
 
-      let parsed;
-      try {
-        const jsonStr = extractJsonFromResponse(result);
-        parsed = JSON.parse(jsonStr);
-        
-        // Validate required fields
-        if (!parsed.dialogue || typeof parsed.dialogue !== 'string' || parsed.dialogue.trim().length < 50) {
-          throw new Error('Missing or too short dialogue in AI response');
-        }
-        if (!Array.isArray(parsed.questions) || parsed.questions.length === 0) {
-          throw new Error('Missing or empty questions array in AI response');
-        }
-        if (!parsed.instruction || typeof parsed.instruction !== 'string') {
-          throw new Error('Missing instruction in AI response');
-        }
-        // Validate each question has required fields
-        for (const q of parsed.questions) {
-          if (!q.correct_answer) {
-            throw new Error(`Question ${q.question_number || '?'} missing correct_answer`);
-          }
-        }
-        
-        // MCMA-specific validation: must have options with at least 5 choices
-        if (questionType === 'MULTIPLE_CHOICE_MULTIPLE') {
-          const firstQ = parsed.questions[0];
-          if (!firstQ?.options || !Array.isArray(firstQ.options) || firstQ.options.length < 5) {
-            throw new Error('MULTIPLE_CHOICE_MULTIPLE requires at least 5 options (A-E or A-F). AI returned invalid or missing options.');
-          }
-          // Ensure we have 3 questions for MCMA
-          if (parsed.questions.length < 3) {
-            throw new Error('MULTIPLE_CHOICE_MULTIPLE requires exactly 3 question objects. AI returned fewer.');
-          }
-        }
-      } catch (e) {
-        console.error("Failed to parse/validate listening response:", e);
-        // Refund credits on parse failure
-        if (creditsReserved) {
-          await refundCredits(serviceClient, user.id, currentOperationType);
-        }
+      const checked = await validateGeneratedContent(
+        result,
+        listeningPrompt.text,
+        zodValidator(listeningGenerationSchema(questionType)),
+        async (repairPrompt) => {
+          const repaired = await callGemini(geminiApiKey, repairPrompt, { dbKeys: dbApiKeys, serviceClient });
+          totalTokensUsed += getLastTokensUsed();
+          return repaired;
+        },
+      );
+      if (!checked.ok) {
+        console.error("Listening content failed validation after repair:", checked.issues);
+        await refundCredits(serviceClient, reservation, 'The generated test was invalid');
         return new Response(JSON.stringify({ 
           error: 'AI returned invalid content. Please try again.',
-          errorType: 'PARSE_ERROR',
-          details: e instanceof Error ? e.message : String(e)
+          errorType: 'VALIDATION_ERROR',
+          validationIssues: checked.issues,
         }), {
           status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
+      const parsed = checked.value;
 
       // Generate TTS audio
       const useTwoSpeakers = listeningConfig?.speakerConfig?.useTwoSpeakers !== false;
@@ -3178,21 +1957,9 @@ serve(async (req) => {
       if (!audio && parsed.dialogue && useTwoSpeakers) {
         console.log('[Monologue Rescue] Audio generation failed, converting dialogue to monologue for browser TTS...');
         try {
-          // FIX 3: Clean monologue rescue script - explicitly strip SSML tags for browser TTS
-          const monologuePrompt = `Rewrite the following dialogue as a detailed monologue or narration. 
-Remove all speaker labels (e.g., "Speaker1:", "Speaker2:", names followed by colons). 
-Convert the conversation into a flowing narrative that a single narrator would read aloud.
-Keep ALL factual information, numbers, dates, names, and details that would be needed to answer test questions.
-
-CRITICAL: REMOVE ALL SSML TAGS like <break time='500ms'/>.
-Output ONLY plain text. Do not include any XML, angle brackets, or SSML markup.
-Use punctuation (periods, commas, ellipses) for natural pauses instead.
-Return ONLY the raw monologue text, no JSON wrapper.
-
-DIALOGUE TO CONVERT:
-${parsed.dialogue}`;
+          const monologuePrompt = renderPrompt(listeningMonologuePrompt, { dialogue: parsed.dialogue }).text;
           
-          const monologueResult = await callGemini(geminiApiKey, monologuePrompt, 1, { dbKeys: dbApiKeys, serviceClient });
+          const monologueResult = await callGemini(geminiApiKey, monologuePrompt, { dbKeys: dbApiKeys, serviceClient });
           
           if (monologueResult && monologueResult.trim().length > 50) {
             console.log('[Monologue Rescue] Successfully converted to monologue');
@@ -3388,6 +2155,7 @@ ${parsed.dialogue}`;
       const responsePayload = {
         testId,
         topic,
+        promptVersion: listeningPrompt.version,
         transcript: displayTranscript,
         speakerNames,
         audioBase64: audio?.audioBase64 || null,
@@ -3409,7 +2177,7 @@ ${parsed.dialogue}`;
         await saveToTestBank(serviceClient, 'listening', topic, responsePayload);
       }
 
-      // Credits already reserved atomically before AI call - no deduction needed
+      await commitCredits(serviceClient, reservation, testId);
 
       return new Response(JSON.stringify(responsePayload), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -3421,277 +2189,67 @@ ${parsed.dialogue}`;
       const taskType = writingConfig.taskType || questionType;
       const task1VisualType = writingConfig.task1VisualType || 'RANDOM';
       const task2EssayType = writingConfig.task2EssayType || 'RANDOM';
+      // General Training: Task 1 is a letter instead of a visual report
+      const isGeneralTraining = writingConfig.testVariant === 'general';
+      const task1LetterType = writingConfig.task1LetterType || 'RANDOM';
       
       const isFullTest = taskType === 'FULL_TEST';
       const includeTask1 = isFullTest || taskType === 'TASK_1';
       const includeTask2 = isFullTest || taskType === 'TASK_2';
       
       let writingTotalTokensUsed = 0;
+      const writingPromptVersions: string[] = [];
 
       async function generateSingleWritingTask(taskNum: 1 | 2, visualType: string, essayType: string): Promise<any> {
         const isTask1 = taskNum === 1;
-        let writingPrompt: string;
-        
-        if (isTask1) {
-          const visualTypeToUse = visualType === 'RANDOM'
-            ? ['BAR_CHART', 'LINE_GRAPH', 'PIE_CHART', 'TABLE', 'PROCESS_DIAGRAM', 'MAP'][Math.floor(Math.random() * 6)]
-            : visualType;
-          
-          // Build type-specific visualData examples based on visual type
-          let visualDataExample: string;
-          let typeSpecificInstructions: string;
-          
-          switch (visualTypeToUse) {
-            case 'PROCESS_DIAGRAM':
-              visualDataExample = `{
-    "type": "PROCESS_DIAGRAM",
-    "title": "Process Title",
-    "steps": [
-      { "label": "Step 1: Raw materials collected", "description": "Optional detail" },
-      { "label": "Step 2: Materials processed", "description": "Optional detail" },
-      { "label": "Step 3: Quality check", "description": "Optional detail" },
-      { "label": "Step 4: Final product", "description": "Optional detail" }
-    ]
-  }`;
-              typeSpecificInstructions = `Create a process/cycle diagram with 4-8 steps. Each step must have a clear "label" field. The "description" field is optional but helpful.`;
-              break;
-            case 'MAP':
-              visualDataExample = `{
-    "type": "MAP",
-    "title": "Town Centre Development",
-    "subtitle": "Changes between 1990 and 2020",
-    "mapData": {
-      "before": {
-        "year": "1990",
-        "features": [
-          { "label": "Town Hall", "type": "building", "position": "center" },
-          { "label": "Main Street", "type": "road", "position": "north-south" },
-          { "label": "Old Park", "type": "park", "position": "east" }
-        ]
-      },
-      "after": {
-        "year": "2020",
-        "features": [
-          { "label": "Town Hall", "type": "building", "position": "center" },
-          { "label": "Main Street", "type": "road", "position": "north-south" },
-          { "label": "Shopping Mall", "type": "building", "position": "east" },
-          { "label": "New Car Park", "type": "other", "position": "south" }
-        ]
-      }
-    }
-  }`;
-              typeSpecificInstructions = `Create a map comparison showing changes over time. Include "before" and "after" sections with features (buildings, roads, parks, water bodies). Use position words like "north", "south", "center", "east", "west", "north-east" etc.`;
-              break;
-            case 'TABLE':
-              visualDataExample = `{
-    "type": "TABLE",
-    "title": "Table Title",
-    "headers": ["Category", "2010", "2015", "2020"],
-    "rows": [
-      [{ "value": "Item A" }, { "value": 25 }, { "value": 30 }, { "value": 35 }],
-      [{ "value": "Item B" }, { "value": 40 }, { "value": 38 }, { "value": 42 }],
-      [{ "value": "Item C" }, { "value": 15 }, { "value": 20 }, { "value": 28 }]
-    ]
-  }`;
-              typeSpecificInstructions = `Create a data table with 3-5 rows and 3-5 columns of numeric data showing trends or comparisons.`;
-              break;
-            case 'LINE_GRAPH':
-              visualDataExample = `{
-    "type": "LINE_GRAPH",
-    "title": "Graph Title",
-    "xAxisLabel": "Year",
-    "yAxisLabel": "Percentage (%)",
-    "series": [
-      { "name": "Category A", "data": [{ "x": "2000", "y": 20 }, { "x": "2005", "y": 35 }, { "x": "2010", "y": 45 }] },
-      { "name": "Category B", "data": [{ "x": "2000", "y": 40 }, { "x": "2005", "y": 38 }, { "x": "2010", "y": 50 }] }
-    ]
-  }`;
-              typeSpecificInstructions = `Create a line graph with 2-4 series showing trends over 4-6 time points. Use percentages (0-100) or realistic numbers.`;
-              break;
-            case 'PIE_CHART':
-              visualDataExample = `{
-    "type": "PIE_CHART",
-    "title": "Pie Chart Title",
-    "data": [
-      { "label": "Category A", "value": 35 },
-      { "label": "Category B", "value": 25 },
-      { "label": "Category C", "value": 20 },
-      { "label": "Category D", "value": 15 },
-      { "label": "Other", "value": 5 }
-    ]
-  }`;
-              typeSpecificInstructions = `Create a pie chart with 4-6 segments. Values must add up to 100 (percentages).`;
-              break;
-            case 'BAR_CHART':
-            default:
-              visualDataExample = `{
-    "type": "BAR_CHART",
-    "title": "Chart Title",
-    "xAxisLabel": "Categories",
-    "yAxisLabel": "Percentage (%)",
-    "data": [
-      { "label": "Category A", "value": 45 },
-      { "label": "Category B", "value": 32 },
-      { "label": "Category C", "value": 28 },
-      { "label": "Category D", "value": 55 }
-    ]
-  }`;
-              typeSpecificInstructions = `Create a bar chart with 4-8 bars. Use percentages (0-100) or realistic whole numbers.`;
-              break;
-          }
-            
-          writingPrompt = `You are a data analyst. Generate an IELTS Academic Writing Task 1 with BOTH the essay question AND the chart/diagram data.
-
-Topic: ${topic}
-Difficulty: ${difficulty}
-Visual Type: ${visualTypeToUse}
-
-CRITICAL INSTRUCTIONS:
-1. ${typeSpecificInstructions}
-2. The instruction must start with "The ${visualTypeToUse.replace(/_/g, ' ').toLowerCase()} below shows..."
-3. Include: "Summarise the information by selecting and reporting the main features, and make comparisons where relevant."
-4. End with: "Write at least 150 words."
-
-Return this EXACT JSON structure:
-{
-  "task_type": "task1",
-  "instruction": "The ${visualTypeToUse.replace(/_/g, ' ').toLowerCase()} below shows [specific description]. Summarise the information by selecting and reporting the main features, and make comparisons where relevant. Write at least 150 words.",
-  "visual_type": "${visualTypeToUse}",
-  "visualData": ${visualDataExample}
-}
-
-IMPORTANT: Use whole numbers. Keep all labels under 15 characters. Ensure visualData matches the exact structure shown above.`;
+        const pick = <T,>(options: readonly T[]): T => options[Math.floor(Math.random() * options.length)];
+        let writingPrompt: RenderedPrompt;
+
+        if (isTask1 && isGeneralTraining) {
+          const letterType = task1LetterType === 'RANDOM' ? pick(LETTER_TYPES) : task1LetterType as LetterType;
+          writingPrompt = renderPrompt(practiceLetterTaskPrompt, { topic, difficulty, letterType });
+        } else if (isTask1) {
+          const visual = visualType === 'RANDOM' ? pick(TASK1_VISUAL_TYPES) : visualType;
+          writingPrompt = renderPrompt(practiceVisualTaskPrompt, { topic, difficulty, visualType: visual });
         } else {
-          const essayTypeToUse = essayType === 'RANDOM'
-            ? ['OPINION', 'DISCUSSION', 'PROBLEM_SOLUTION', 'ADVANTAGES_DISADVANTAGES', 'TWO_PART_QUESTION'][Math.floor(Math.random() * 5)]
-            : essayType;
-            
-          const essayFormatGuide = {
-            'OPINION': 'To what extent do you agree or disagree?',
-            'DISCUSSION': 'Discuss both views and give your own opinion.',
-            'PROBLEM_SOLUTION': 'What are the causes of this problem and what solutions can you suggest?',
-            'ADVANTAGES_DISADVANTAGES': 'What are the advantages and disadvantages of this?',
-            'TWO_PART_QUESTION': 'Include two related questions that the student must address.'
-          };
-          
-          writingPrompt = `Generate an IELTS Academic Writing Task 2.
-Topic: ${topic}
-Difficulty: ${difficulty}
-Essay Type: ${essayTypeToUse}
-
-IMPORTANT: The instruction must follow official IELTS format exactly:
-- Start with a statement or context about a topic
-- Present the main question/argument
-- End with the appropriate question format for ${essayTypeToUse}: "${essayFormatGuide[essayTypeToUse as keyof typeof essayFormatGuide] || ''}"
-- Include: "Give reasons for your answer and include any relevant examples from your own knowledge or experience."
-- End with: "Write at least 250 words."
-
-Return this EXACT JSON structure:
-{
-  "task_type": "task2",
-  "instruction": "[Context statement about the topic]. [Main argument or question]. ${essayFormatGuide[essayTypeToUse as keyof typeof essayFormatGuide] || ''} Give reasons for your answer and include any relevant examples from your own knowledge or experience. Write at least 250 words.",
-  "essay_type": "${essayTypeToUse}"
-}`;
+          const essay = essayType === 'RANDOM' ? pick(TASK2_ESSAY_TYPES) : essayType;
+          writingPrompt = renderPrompt(practiceEssayTaskPrompt, { topic, difficulty, essayType: essay, isGeneralTraining });
         }
+        writingPromptVersions.push(writingPrompt.version);
 
         // Use Gemini with JSON mode for stable, non-truncated output
         console.log(`Generating Task ${taskNum} with JSON mode...`);
 
-        const safeParseJson = (raw: string): any => {
-          // 1) Direct parse (best case)
-          try {
-            return JSON.parse(raw);
-          } catch {
-            // 2) Extract JSON from mixed content (code fences etc.)
-            const extracted = extractJsonFromResponse(raw);
-            return JSON.parse(extracted);
-          }
-        };
-
-        const baseMaxOutputTokens = 2048;
-        const maxAttempts = 3;
-        let lastErr: unknown = null;
-
-        for (let attempt = 0; attempt < maxAttempts; attempt++) {
-          const maxOutputTokens = attempt === 0 ? baseMaxOutputTokens : baseMaxOutputTokens * 2;
-
-          const response = await fetch(
-            `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${geminiApiKey}`,
-            {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                contents: [{ parts: [{ text: writingPrompt }] }],
-                generationConfig: {
-                  // Lower temperature improves schema adherence for strict JSON
-                  temperature: 0.2,
-                  maxOutputTokens,
-                  responseMimeType: 'application/json', // Force JSON mode
-                },
-              }),
-            }
-          );
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error(`Task ${taskNum} generation failed:`, response.status, errorText);
-            throw new Error(`Failed to generate Task ${taskNum}: ${response.status}`);
-          }
-
-          const data = await response.json();
-
-          // Track token usage
-          const usageMetadata = data.usageMetadata;
-          if (usageMetadata) {
-            const promptTokens = usageMetadata.promptTokenCount || 0;
-            const candidateTokens = usageMetadata.candidatesTokenCount || 0;
-            writingTotalTokensUsed += promptTokens + candidateTokens;
-            console.log(`Task ${taskNum} tokens - Prompt: ${promptTokens}, Output: ${candidateTokens}`);
-          }
-
-          const finishReason = data.candidates?.[0]?.finishReason;
-
-          const resultText = data.candidates?.[0]?.content?.parts?.[0]?.text;
-          if (!resultText) {
-            lastErr = new Error(`Empty response for Task ${taskNum}`);
-            console.error(lastErr);
-            continue;
-          }
-
-          console.log(`Task ${taskNum} response length: ${resultText.length} chars (attempt ${attempt + 1}/${maxAttempts}, finishReason=${finishReason || 'unknown'})`);
-
-          try {
-            const parsed = safeParseJson(resultText);
-
-            return {
-              id: crypto.randomUUID(),
-              task_type: isTask1 ? 'task1' : 'task2',
-              instruction: parsed.instruction,
-              image_description: parsed.visual_description || parsed.instruction, // Fallback
-              chartData: parsed.visualData || null, // Direct from combined response
-              visual_type: parsed.visual_type,
-              essay_type: parsed.essay_type,
-              word_limit_min: isTask1 ? 150 : 250,
-              word_limit_max: isTask1 ? 200 : 350,
-            };
-          } catch (e) {
-            lastErr = e;
-            const preview = resultText?.substring(0, 500);
-            console.error(`Failed to parse Task ${taskNum} JSON (attempt ${attempt + 1}/${maxAttempts}):`, e, preview);
-
-            // If the model output looks truncated, retry with a larger token budget.
-            // Otherwise, retry once more anyway (models sometimes self-correct on retry).
-            const looksTruncated = !resultText.trim().endsWith('}') || finishReason === 'MAX_TOKENS';
-            if (!looksTruncated && attempt >= 1) {
-              break;
-            }
-
-            continue;
-          }
-        }
+        const { value: { data: parsed, repaired }, tokensUsed } = await withGeminiKeys(
+          geminiApiKey!,
+          { dbKeys: dbApiKeys, serviceClient },
+          llm => llm.generateValidated({
+            contents: writingPrompt.text,
+            generationConfig: {
+              // Lower temperature improves schema adherence for strict JSON
+              temperature: 0.2,
+              maxOutputTokens: 4096,
+              responseMimeType: 'application/json', // Force JSON mode
+            },
+          }, zodValidator(writingTaskGenerationSchema)),
+        );
+        writingTotalTokensUsed += tokensUsed;
+        console.log(`Task ${taskNum} generated${repaired ? ' (after repair)' : ''}`);
 
-        console.error(`Failed to parse Task ${taskNum} after ${maxAttempts} attempts:`, lastErr);
-        throw new Error(`Failed to parse Task ${taskNum} content`);
+        return {
+          id: crypto.randomUUID(),
+          task_type: isTask1 ? 'task1' : 'task2',
+          instruction: parsed.instruction,
+          image_description: parsed.visual_description || parsed.instruction, // Fallback
+          chartData: parsed.visualData || null, // Direct from combined response
+          visual_type: parsed.visual_type,
+          essay_type: parsed.essay_type,
+          letter_type: parsed.letter_type,
+          bullet_points: Array.isArray(parsed.bullet_points) ? parsed.bullet_points : undefined,
+          salutation: parsed.salutation,
+          word_limit_min: isTask1 ? 150 : 250,
+          word_limit_max: isTask1 ? 200 : 350,
+        };
       }
 
       try {
@@ -3714,12 +2272,13 @@ Return this EXACT JSON structure:
             await updateQuotaTracking(serviceClient, user.id, writingTotalTokensUsed);
           }
 
-          // Credits already reserved atomically before AI call - no deduction needed
+          await commitCredits(serviceClient, reservation, testId);
           
           return new Response(JSON.stringify({
             testId,
             topic,
             timeMinutes,
+            promptVersion: combinePromptVersions(writingPromptVersions),
             writingTask: {
               id: crypto.randomUUID(),
               test_type: 'full_test',
@@ -3743,22 +2302,21 @@ Return this EXACT JSON structure:
             await updateQuotaTracking(serviceClient, user.id, writingTotalTokensUsed);
           }
 
-          // Credits already reserved atomically before AI call - no deduction needed
+          await commitCredits(serviceClient, reservation, testId);
           
           return new Response(JSON.stringify({
             testId,
             topic,
+            promptVersion: combinePromptVersions(writingPromptVersions),
             writingTask: taskResult,
           }), {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
         }
-      } catch (err: any) {
+      } catch (err) {
         console.error('Writing generation error:', err);
-        return new Response(JSON.stringify({ error: err.message || 'Failed to generate writing test' }), {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
+        await refundCredits(serviceClient, reservation, 'Generation failed');
+        return llmErrorResponse(err, 'Failed to generate writing test');
       }
 
     } else if (module === 'speaking') {
@@ -3768,80 +2326,15 @@ Return this EXACT JSON structure:
       const includePart2 = isFullTest || questionType === 'PART_2';
       const includePart3 = isFullTest || questionType === 'PART_3';
 
-      const speakingPrompt = `Generate an official IELTS Speaking test with proper examiner phrases.
-
-TOPIC: ${topic}
-DIFFICULTY: ${difficulty}
-PARTS TO INCLUDE: ${[includePart1 && 'Part 1', includePart2 && 'Part 2', includePart3 && 'Part 3'].filter(Boolean).join(', ')}
-
-OFFICIAL IELTS SPEAKING TEST FORMAT:
-
-PART 1 (Introduction & Interview) - 4-5 minutes:
-- Examiner intro: "Now, in this first part, I'd like to ask you some questions about yourself."
-- Then: "Let's talk about [topic]..." followed by 4-5 simple questions
-- Questions should be personal/familiar topics (home, work, studies, hobbies, etc.)
-- Each question expects 20-30 seconds answer
-
-PART 2 (Individual Long Turn) - 3-4 minutes:
-- Examiner intro: "Now, I'm going to give you a topic and I'd like you to talk about it for one to two minutes. Before you talk, you'll have one minute to think about what you're going to say. You can make some notes if you wish."
-- Provide a cue card with: "Describe [topic]" followed by bullet points "You should say:" with 3-4 prompts
-- After 2 minutes: "Thank you."
-- One optional rounding-off question
-
-PART 3 (Two-way Discussion) - 4-5 minutes:
-- Examiner intro: "We've been talking about [Part 2 topic] and I'd like to discuss one or two more general questions related to this."
-- 4-5 abstract/analytical questions that extend from Part 2 topic
-- Questions should require opinion, analysis, speculation
-- Each question expects 45-60 seconds answer
-
-Return ONLY valid JSON:
-{
-  "topic": "${topic}",
-  "parts": [
-    ${includePart1 ? `{
-      "part_number": 1,
-      "instruction": "Now, in this first part, I'd like to ask you some questions about yourself. Let's talk about [specific topic]...",
-      "questions": [
-        { "question_number": 1, "question_text": "First question about the topic?" },
-        { "question_number": 2, "question_text": "Second question?" },
-        { "question_number": 3, "question_text": "Third question?" },
-        { "question_number": 4, "question_text": "Fourth question?" }
-      ],
-      "time_limit_seconds": 300
-    }${includePart2 || includePart3 ? ',' : ''}` : ''}
-    ${includePart2 ? `{
-      "part_number": 2,
-      "instruction": "Now, I'm going to give you a topic and I'd like you to talk about it for one to two minutes. Before you talk, you'll have one minute to think about what you're going to say. You can make some notes if you wish.",
-      "cue_card_topic": "Describe [something related to topic]",
-      "cue_card_content": "You should say:\\n• first bullet point\\n• second bullet point\\n• third bullet point\\n• and explain why...",
-      "questions": [
-        { "question_number": 1, "question_text": "Optional rounding-off question after 2-minute speech" }
-      ],
-      "preparation_time_seconds": 60,
-      "speaking_time_seconds": 120
-    }${includePart3 ? ',' : ''}` : ''}
-    ${includePart3 ? `{
-      "part_number": 3,
-      "instruction": "We've been talking about [Part 2 topic] and I'd like to discuss one or two more general questions related to this.",
-      "questions": [
-        { "question_number": 1, "question_text": "First analytical/abstract question?" },
-        { "question_number": 2, "question_text": "Second question requiring opinion?" },
-        { "question_number": 3, "question_text": "Third question about implications?" },
-        { "question_number": 4, "question_text": "Fourth speculative question?" }
-      ],
-      "time_limit_seconds": 300
-    }` : ''}
-  ]
-}
-
-Generate realistic, ${difficulty}-level questions appropriate for IELTS. Make questions coherent and thematically connected.`;
+      const speakingPrompt = renderPrompt(practiceSpeakingPrompt, { topic, difficulty, includePart1, includePart2, includePart3 });
 
-      const result = await callGemini(geminiApiKey, speakingPrompt, 2, { dbKeys: dbApiKeys, serviceClient });
+      const result = await callGemini(geminiApiKey, speakingPrompt.text, { dbKeys: dbApiKeys, serviceClient });
       
       // Track tokens used
       const totalTokensUsed = getLastTokensUsed();
       
       if (!result) {
+        await refundCredits(serviceClient, reservation, 'Generation failed');
         // If quota exceeded, return special error with status 429
         if (wasQuotaExceeded()) {
           return new Response(JSON.stringify({ 
@@ -3862,17 +2355,29 @@ Generate realistic, ${difficulty}-level questions appropriate for IELTS. Make qu
       // Update quota tracking (uses serviceClient from main handler scope)
       await updateQuotaTracking(serviceClient, user.id, totalTokensUsed);
 
-      let parsed;
-      try {
-        const jsonStr = extractJsonFromResponse(result);
-        parsed = JSON.parse(jsonStr);
-      } catch (e) {
-        console.error("Failed to parse Gemini response:", e, result?.substring(0, 500));
-        return new Response(JSON.stringify({ error: 'Failed to parse generated content. Please try again.' }), {
+      const checked = await validateGeneratedContent(
+        result,
+        speakingPrompt.text,
+        zodValidator(speakingGenerationSchema),
+        async (repairPrompt) => {
+          const repaired = await callGemini(geminiApiKey, repairPrompt, { dbKeys: dbApiKeys, serviceClient });
+          await updateQuotaTracking(serviceClient, user.id, getLastTokensUsed());
+          return repaired;
+        },
+      );
+      if (!checked.ok) {
+        console.error("Speaking content failed validation after repair:", checked.issues, result.substring(0, 500));
+        await refundCredits(serviceClient, reservation, 'The generated test was invalid');
+        return new Response(JSON.stringify({
+          error: 'Failed to generate valid speaking content. Please try again.',
+          errorType: 'VALIDATION_ERROR',
+          validationIssues: checked.issues,
+        }), {
           status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
+      const parsed = checked.value;
 
       // Process the parts with proper structure
       const speakingParts = (parsed.parts || []).map((p: any, pIndex: number) => {
@@ -3896,17 +2401,19 @@ Generate realistic, ${difficulty}-level questions appropriate for IELTS. Make qu
         };
       });
 
-      // Credits already reserved atomically before AI call - no deduction needed
+      await commitCredits(serviceClient, reservation, testId);
 
       return new Response(JSON.stringify({
         testId,
         topic: parsed.topic || topic,
+        promptVersion: speakingPrompt.version,
         speakingParts,
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
+    await refundCredits(serviceClient, reservation, 'Invalid module');
     return new Response(JSON.stringify({ error: 'Invalid module' }), {
       status: 400,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,157 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { loadAnswerKey, markAnswers, SUBMISSION_TABLES, type ScoredModule } from "../_shared/answerKey.ts";
+import {
+  analyzeItems,
+  compareSuspiciousItems,
+  getItemFlags,
+  isSuspiciousItem,
+  ITEM_ANALYSIS_MIN_ATTEMPTS,
+  type ItemStats,
+  type SuspiciousItem,
+} from "../../../src/lib/itemAnalysis.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_SUSPICIOUS_ITEMS = 50;
+
+const TEST_TABLES: Record<ScoredModule, string> = {
+  reading: 'reading_tests',
+  listening: 'listening_tests',
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/** Mark every submission of one test and compute per-question statistics */
+async function analyzeTest(
+  serviceClient: SupabaseClient,
+  module: ScoredModule,
+  testId: string,
+  answerSets: Record<string, string>[]
+): Promise<ItemStats[]> {
+  if (answerSets.length === 0) return [];
+  const key = await loadAnswerKey(serviceClient, module, testId);
+  return analyzeItems(answerSets.map(answers => markAnswers(module, key, answers)));
+}
+
+// PostgREST caps each response at max-rows, so submissions are read in pages
+const SUBMISSION_PAGE_SIZE = 1000;
+
+/** Every submitted answer set for one test */
+async function loadAnswerSets(serviceClient: SupabaseClient, module: ScoredModule, testId: string) {
+  const answerSets: Record<string, string>[] = [];
+  for (let from = 0; ; from += SUBMISSION_PAGE_SIZE) {
+    const { data, error } = await serviceClient
+      .from(SUBMISSION_TABLES[module])
+      .select('answers')
+      .eq('test_id', testId)
+      .order('id')
+      .range(from, from + SUBMISSION_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const row of (data || []) as { answers: Record<string, string> | null }[]) {
+      answerSets.push(row.answers || {});
+    }
+    if (!data || data.length < SUBMISSION_PAGE_SIZE) return answerSets;
+  }
+}
+
+async function countSubmissions(serviceClient: SupabaseClient, module: ScoredModule, testId: string) {
+  const { count, error } = await serviceClient
+    .from(SUBMISSION_TABLES[module])
+    .select('id', { count: 'exact', head: true })
+    .eq('test_id', testId);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/** Flagged questions across every test with enough submissions, loaded one test at a time */
+async function findSuspiciousItems(serviceClient: SupabaseClient): Promise<SuspiciousItem[]> {
+  const items: SuspiciousItem[] = [];
+
+  for (const module of ['reading', 'listening'] as ScoredModule[]) {
+    const { data: tests, error } = await serviceClient.from(TEST_TABLES[module]).select('id, title');
+    if (error) throw error;
+
+    for (const test of (tests || []) as { id: string; title: string }[]) {
+      if (await countSubmissions(serviceClient, module, test.id) < ITEM_ANALYSIS_MIN_ATTEMPTS) continue;
+      const stats = await analyzeTest(serviceClient, module, test.id, await loadAnswerSets(serviceClient, module, test.id));
+      for (const item of stats) {
+        const flags = getItemFlags(item);
+        if (!isSuspiciousItem(flags)) continue;
+        items.push({ ...item, module, testId: test.id, testTitle: test.title || 'Test', flags });
+      }
+    }
+  }
+
+  return items.sort(compareSuspiciousItems).slice(0, MAX_SUSPICIOUS_ITEMS);
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: adminCheck } = await serviceClient
+      .from('admin_users')
+      .select('id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!adminCheck) {
+      return jsonResponse({ error: 'Admin access required' }, 403);
+    }
+
+    const { action = 'test', module, testId } = await req.json();
+
+    if (action === 'suspicious') {
+      return jsonResponse({ items: await findSuspiciousItems(serviceClient) });
+    }
+
+    if (module !== 'reading' && module !== 'listening') {
+      return jsonResponse({ error: 'Invalid module' }, 400);
+    }
+    if (typeof testId !== 'string' || !testId) {
+      return jsonResponse({ error: 'Missing testId' }, 400);
+    }
+
+    const answerSets = await loadAnswerSets(serviceClient, module, testId);
+    const items = await analyzeTest(serviceClient, module, testId, answerSets);
+    return jsonResponse({ submissions: answerSets.length, items });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+    console.error('Edge Function error:', message);
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,380 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { type AnswerKey, loadAnswerKey, markAnswers, SUBMISSION_TABLES, type ScoredModule } from "../_shared/answerKey.ts";
+import {
+  appendAlternateAnswer,
+  remarkPracticeQuestion,
+  type AnswerDisputeRow,
+} from "../../../src/lib/answerDisputes.ts";
+import { checkAnswer, resolveWordLimit } from "../../../src/lib/ieltsAnswerValidation.ts";
+import { rawScoreToBand, toTestVariant } from "../../../src/lib/bandConversion.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+interface AuditContext {
+  dispute: AnswerDisputeRow;
+  adminId: string;
+  note: string;
+}
+
+interface PracticeQuestion {
+  question_number: number;
+  question_type?: string;
+  correct_answer: string;
+}
+
+interface PracticeGroup {
+  question_type?: string;
+  instruction?: string | null;
+  max_words?: number | null;
+  max_numbers?: number | null;
+  questions?: PracticeQuestion[];
+}
+
+interface PracticePayload {
+  questionGroups?: PracticeGroup[];
+}
+
+/** Result of applying an approved alternative; `accepts` marks another answer to the question the way results are marked */
+interface ResolvedKey {
+  correctAnswer: string;
+  rescored: number;
+  accepts: (answer: string) => boolean;
+}
+
+interface PracticeResultRow {
+  id: string;
+  user_id: string;
+  score: number;
+  band_score: number | null;
+  question_results: Parameters<typeof remarkPracticeQuestion>[0];
+}
+
+// Approving runs as separate writes (key, then each re-marked row with its
+// audit entry, then the dispute), so every step is safe to repeat: if one
+// fails the dispute stays pending and approving it again finishes the job.
+// Re-marking is deterministic for a given key, so concurrent runs agree.
+
+const KEY_UPDATE_ATTEMPTS = 3;
+
+/** Append the alternative to a published question's key; returns the new key */
+async function updateTestAnswerKey(serviceClient: SupabaseClient, dispute: AnswerDisputeRow, alternative: string) {
+  const module = dispute.module as ScoredModule;
+  const parentIds = module === 'reading'
+    ? (await serviceClient.from('reading_passages').select('id').eq('test_id', dispute.test_id)).data
+    : (await serviceClient.from('listening_question_groups').select('id').eq('test_id', dispute.test_id)).data;
+  const table = module === 'reading' ? 'reading_questions' : 'listening_questions';
+
+  for (let attempt = 0; attempt < KEY_UPDATE_ATTEMPTS; attempt++) {
+    const { data: question, error } = await serviceClient
+      .from(table)
+      .select('id, correct_answer')
+      .in(module === 'reading' ? 'passage_id' : 'group_id', (parentIds || []).map((p: { id: string }) => p.id))
+      .eq('question_number', dispute.question_number)
+      .maybeSingle();
+    if (error) throw error;
+    if (!question) throw new Error('Question not found');
+
+    const correctAnswer = appendAlternateAnswer(question.correct_answer, alternative);
+    if (correctAnswer === question.correct_answer) return correctAnswer;
+
+    // Only if nobody else changed the key since it was read, so two approvals can't drop each other's alternative
+    const { data: updated, error: updateError } = await serviceClient
+      .from(table)
+      .update({ correct_answer: correctAnswer })
+      .eq('id', question.id)
+      .eq('correct_answer', question.correct_answer)
+      .select('id');
+    if (updateError) throw updateError;
+    if (updated && updated.length > 0) return correctAnswer;
+  }
+  throw new Error('The answer key kept changing while it was being updated. Please try again.');
+}
+
+/** Record a re-mark; a repeated run finds the entry already there */
+async function recordScoreAdjustment(serviceClient: SupabaseClient, adjustment: Record<string, unknown>) {
+  const { error } = await serviceClient
+    .from('score_adjustments')
+    .upsert(adjustment, { onConflict: 'dispute_id,submission_id', ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+// Submissions are re-marked a page at a time, keyed on id: PostgREST caps
+// each response at max-rows, and re-marking doesn't change which rows match
+const RESCORE_PAGE_SIZE = 500;
+
+/** Re-mark every stored submission of the test, recording each score change */
+async function rescoreTestSubmissions(serviceClient: SupabaseClient, key: AnswerKey, { dispute, adminId, note }: AuditContext) {
+  const module = dispute.module as ScoredModule;
+  const table = SUBMISSION_TABLES[module];
+
+  let rescored = 0;
+  let lastId: string | null = null;
+  for (;;) {
+    let query = serviceClient
+      .from(table)
+      .select('id, user_id, answers, score, band_score')
+      .eq('test_id', dispute.test_id)
+      .order('id')
+      .limit(RESCORE_PAGE_SIZE);
+    if (lastId) query = query.gt('id', lastId);
+    const { data: submissions, error } = await query;
+    if (error) throw error;
+
+    for (const submission of submissions || []) {
+      const result = markAnswers(module, key, (submission.answers || {}) as Record<string, string>);
+      if (result.score === submission.score && result.bandScore === Number(submission.band_score)) continue;
+
+      // Audit first: if the update then fails, the retry re-marks the row and keeps this entry
+      await recordScoreAdjustment(serviceClient, {
+        user_id: submission.user_id,
+        module,
+        source: 'test',
+        test_id: dispute.test_id,
+        submission_id: submission.id,
+        dispute_id: dispute.id,
+        old_score: submission.score,
+        new_score: result.score,
+        old_band_score: submission.band_score,
+        new_band_score: result.bandScore,
+        note,
+        created_by: adminId,
+      });
+
+      const { error: updateError } = await serviceClient
+        .from(table)
+        .update({ score: result.score, total_questions: result.total, band_score: result.bandScore })
+        .eq('id', submission.id);
+      if (updateError) throw updateError;
+      rescored++;
+    }
+
+    if (!submissions || submissions.length < RESCORE_PAGE_SIZE) break;
+    lastId = submissions[submissions.length - 1].id;
+  }
+  return rescored;
+}
+
+/** AI practice tests are per user: update the payload key and re-mark its results */
+async function resolvePracticeDispute(serviceClient: SupabaseClient, alternative: string, { dispute, adminId, note }: AuditContext): Promise<ResolvedKey> {
+  const { data: test, error } = await serviceClient
+    .from('ai_practice_tests')
+    .select('id, payload, test_variant')
+    .eq('id', dispute.test_id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!test) throw new Error('Test not found');
+
+  const payload = (test.payload || {}) as PracticePayload;
+  const group = (payload.questionGroups || [])
+    .find(g => (g.questions || []).some(q => q.question_number === dispute.question_number));
+  const question = group?.questions?.find(q => q.question_number === dispute.question_number);
+  if (!group || !question) throw new Error('Question not found');
+
+  const correctAnswer = appendAlternateAnswer(question.correct_answer || '', alternative);
+  if (correctAnswer !== question.correct_answer) {
+    question.correct_answer = correctAnswer;
+    const { error: payloadError } = await serviceClient.from('ai_practice_tests').update({ payload }).eq('id', test.id);
+    if (payloadError) throw payloadError;
+  }
+  // Marked as the practice test pages mark it
+  const questionType = question.question_type || group.question_type;
+  const wordLimit = resolveWordLimit(group);
+  const accepts = (answer: string) => checkAnswer(answer, correctAnswer, questionType, null, wordLimit);
+
+  let rescored = 0;
+  let lastId: string | null = null;
+  for (;;) {
+    let query = serviceClient
+      .from('ai_practice_results')
+      .select('id, user_id, score, band_score, question_results')
+      .eq('test_id', dispute.test_id)
+      .order('id')
+      .limit(RESCORE_PAGE_SIZE);
+    if (lastId) query = query.gt('id', lastId);
+    const { data: results, error: resultsError } = await query;
+    if (resultsError) throw resultsError;
+
+    for (const row of (results || []) as PracticeResultRow[]) {
+      const remarked = remarkPracticeQuestion(row.question_results || [], dispute.question_number, correctAnswer);
+      if (!remarked.changed) continue;
+
+      const bandScore = rawScoreToBand(remarked.score, {
+        module: dispute.module as ScoredModule,
+        variant: toTestVariant(test.test_variant),
+        totalQuestions: remarked.total,
+      });
+      await recordScoreAdjustment(serviceClient, {
+        user_id: row.user_id,
+        module: dispute.module,
+        source: 'ai_practice',
+        test_id: dispute.test_id,
+        submission_id: row.id,
+        dispute_id: dispute.id,
+        old_score: row.score,
+        new_score: remarked.score,
+        old_band_score: row.band_score,
+        new_band_score: bandScore,
+        note,
+        created_by: adminId,
+      });
+
+      const { error: updateError } = await serviceClient
+        .from('ai_practice_results')
+        .update({
+          question_results: remarked.questionResults,
+          score: remarked.score,
+          total_questions: remarked.total,
+          band_score: bandScore,
+        })
+        .eq('id', row.id);
+      if (updateError) throw updateError;
+      rescored++;
+    }
+
+    if (!results || results.length < RESCORE_PAGE_SIZE) break;
+    lastId = results[results.length - 1].id;
+  }
+  return { correctAnswer, rescored, accepts };
+}
+
+/** Key update and re-mark for a published Reading / Listening test */
+async function resolveTestDispute(serviceClient: SupabaseClient, alternative: string, audit: AuditContext): Promise<ResolvedKey> {
+  const { dispute } = audit;
+  const module = dispute.module as ScoredModule;
+  const correctAnswer = await updateTestAnswerKey(serviceClient, dispute, alternative);
+  const key = await loadAnswerKey(serviceClient, module, dispute.test_id);
+  const rescored = await rescoreTestSubmissions(serviceClient, key, audit);
+  // Marked exactly as submissions are, with the question's type, matching config and word limit
+  const accepts = (answer: string) =>
+    markAnswers(module, key, { [String(dispute.question_number)]: answer }).questionResults
+      .some(r => r.questionNumber === dispute.question_number && r.isCorrect);
+  return { correctAnswer, rescored, accepts };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: adminCheck } = await serviceClient
+      .from('admin_users')
+      .select('id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!adminCheck) {
+      return jsonResponse({ error: 'Admin access required' }, 403);
+    }
+
+    const { disputeId, decision, alternative, adminNote } = await req.json();
+
+    if (decision !== 'approve' && decision !== 'reject') {
+      return jsonResponse({ error: 'Invalid decision' }, 400);
+    }
+
+    const { data: dispute } = await serviceClient
+      .from('answer_disputes')
+      .select('*')
+      .eq('id', disputeId)
+      .maybeSingle();
+
+    if (!dispute) {
+      return jsonResponse({ error: 'Dispute not found' }, 404);
+    }
+    if (dispute.status !== 'pending') {
+      return jsonResponse({ error: 'Dispute has already been resolved' }, 409);
+    }
+
+    const note = typeof adminNote === 'string' && adminNote.trim() ? adminNote.trim().slice(0, 1000) : null;
+    const resolution = { admin_note: note, resolved_by: user.id, resolved_at: new Date().toISOString() };
+
+    if (decision === 'reject') {
+      const { data: rejected, error } = await serviceClient
+        .from('answer_disputes')
+        .update({ ...resolution, status: 'rejected' })
+        .eq('id', dispute.id)
+        .eq('status', 'pending')
+        .select('id');
+      if (error) throw error;
+      if (!rejected?.length) return jsonResponse({ error: 'Dispute has already been resolved' }, 409);
+      return jsonResponse({ success: true, status: 'rejected' });
+    }
+
+    const accepted = (typeof alternative === 'string' && alternative.trim() ? alternative : dispute.user_answer).trim();
+    const audit: AuditContext = {
+      dispute,
+      adminId: user.id,
+      note: `Q${dispute.question_number} now also accepts "${accepted}" (answer dispute)${note ? `: ${note}` : ''}`,
+    };
+
+    const { correctAnswer, rescored, accepts } = dispute.source === 'ai_practice'
+      ? await resolvePracticeDispute(serviceClient, accepted, audit)
+      : await resolveTestDispute(serviceClient, accepted, audit);
+
+    // Approve this dispute and any other pending one the new key now accepts
+    const { data: pending } = await serviceClient
+      .from('answer_disputes')
+      .select('id, user_answer')
+      .eq('source', dispute.source)
+      .eq('test_id', dispute.test_id)
+      .eq('question_number', dispute.question_number)
+      .eq('status', 'pending');
+    const approvedIds = (pending || [])
+      .filter((d: { id: string; user_answer: string }) => d.id === dispute.id || accepts(d.user_answer))
+      .map((d: { id: string }) => d.id);
+
+    const { data: approved, error: resolveError } = await serviceClient
+      .from('answer_disputes')
+      .update({ ...resolution, status: 'approved' })
+      .in('id', approvedIds)
+      .eq('status', 'pending')
+      .select('id');
+    if (resolveError) throw resolveError;
+
+    return jsonResponse({
+      success: true,
+      status: 'approved',
+      correctAnswer,
+      rescoredSubmissions: rescored,
+      approvedDisputes: approved?.length ?? 0,
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+    console.error('Edge Function error:', message);
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,296 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  corsHeaders,
+  createGeminiProvider,
+  createLlmClient,
+  decryptApiKey,
+  geminiModelsFor,
+  getActiveGeminiKeys,
+  jsonResponse,
+  llmErrorResponse,
+  LlmValidationError,
+} from "../_shared/gemini.ts";
+import { modelRewriteSchema, zodValidator } from "../../../src/lib/aiSchemas.ts";
+import { renderPrompt } from "../../../src/lib/promptRegistry.ts";
+import { writingRewritePrompt } from "../../../src/lib/prompts/writingRewrite.ts";
+import { REWRITE_TARGET_BANDS, type RewriteSource } from "../../../src/lib/writingRewrite.ts";
+import {
+  commitCredits,
+  type CreditReservation,
+  DAILY_CREDIT_LIMIT,
+  refundCredits,
+  reserveCredits,
+} from "../_shared/credits.ts";
+
+interface RewriteRequest {
+  source: RewriteSource;
+  /** writing_submissions.id or ai_practice_results.id */
+  sourceId: string;
+  /** Which task of a full practice test; taken from the row for submissions */
+  taskType?: 'task1' | 'task2';
+  targetBand: number;
+}
+
+interface RewriteContext {
+  taskType: 'task1' | 'task2';
+  isLetter: boolean;
+  instruction: string;
+  essay: string;
+  currentBand: number | null;
+  feedback?: string;
+}
+
+type Client = ReturnType<typeof createClient>;
+
+interface PracticeTask {
+  task_type?: string;
+  instruction?: string;
+}
+
+interface PracticeTaskReport {
+  priority_improvements?: unknown;
+}
+
+// What evaluate-ai-practice-writing returned, as AIPracticeWritingTest stored it
+interface StoredPracticeReport {
+  overall_band?: number;
+  task1_band?: number;
+  task2_band?: number;
+  evaluation_report?: PracticeTaskReport;
+  task1_evaluation?: PracticeTaskReport;
+  task2_evaluation?: PracticeTaskReport;
+}
+
+// A writing_submissions row with its task and the examiner's overall suggestions
+async function loadSubmission(client: Client, userId: string, submissionId: string): Promise<RewriteContext | null> {
+  const { data: submission } = await client
+    .from('writing_submissions')
+    .select('submission_text, overall_band, evaluation_report, task_id')
+    .eq('id', submissionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (!submission) return null;
+
+  const { data: task } = await client
+    .from('writing_tasks')
+    .select('task_type, instruction, writing_test_id')
+    .eq('id', submission.task_id)
+    .maybeSingle();
+  if (!task) return null;
+
+  const { data: writingTest } = await client
+    .from('writing_tests')
+    .select('test_type')
+    .eq('id', task.writing_test_id)
+    .maybeSingle();
+
+  const taskType = task.task_type === 'task1' ? 'task1' : 'task2';
+  const report = submission.evaluation_report as { overall_suggestions?: string } | null;
+  return {
+    taskType,
+    isLetter: taskType === 'task1' && writingTest?.test_type === 'general',
+    instruction: task.instruction,
+    essay: submission.submission_text,
+    currentBand: submission.overall_band,
+    feedback: report?.overall_suggestions,
+  };
+}
+
+// One task of an ai_practice_results row; the report is stored as JSON in its single question
+async function loadPracticeResult(
+  client: Client,
+  userId: string,
+  resultId: string,
+  taskType: 'task1' | 'task2',
+): Promise<RewriteContext | null> {
+  const { data: result } = await client
+    .from('ai_practice_results')
+    .select('test_id, answers, band_score, question_results')
+    .eq('id', resultId)
+    .eq('user_id', userId)
+    .eq('module', 'writing')
+    .maybeSingle();
+  if (!result) return null;
+
+  const { data: test } = await client
+    .from('ai_practice_tests')
+    .select('payload, test_variant')
+    .eq('id', result.test_id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const writingTask = (test?.payload as { writingTask?: PracticeTask & { task1?: PracticeTask; task2?: PracticeTask } } | null)?.writingTask;
+  const isFullTest = !!writingTask?.task1;
+  const task = isFullTest ? writingTask?.[taskType] : writingTask;
+  const answers = result.answers as Record<string, string> | null;
+  const essay = answers?.[taskType === 'task1' || !isFullTest ? '1' : '2'];
+  if (!task || !essay) return null;
+
+  let report: StoredPracticeReport | null = null;
+  try {
+    const explanation = (result.question_results as Array<{ explanation?: unknown }> | null)?.[0]?.explanation;
+    report = typeof explanation === 'string' ? JSON.parse(explanation) : null;
+  } catch {
+    report = null;
+  }
+  const taskReport = isFullTest ? report?.[`${taskType}_evaluation`] : report?.evaluation_report;
+  const taskBand = isFullTest ? report?.[`${taskType}_band`] : report?.overall_band;
+  const improvements = taskReport?.priority_improvements;
+
+  const resolvedType = isFullTest ? taskType : task.task_type === 'task1' ? 'task1' : 'task2';
+  return {
+    taskType: resolvedType,
+    isLetter: resolvedType === 'task1' && test?.test_variant === 'general',
+    instruction: task.instruction ?? '',
+    essay,
+    currentBand: typeof taskBand === 'number' ? taskBand : result.band_score,
+    feedback: Array.isArray(improvements) ? improvements.filter(i => typeof i === 'string').join('\n') : undefined,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    );
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) return jsonResponse({ error: 'Unauthorized' }, 401);
+
+    const { source, sourceId, taskType, targetBand }: RewriteRequest = await req.json();
+    if (!sourceId || !['writing_submission', 'ai_practice_result'].includes(source)) {
+      return jsonResponse({ error: 'Missing or invalid source' }, 400);
+    }
+    if (!(REWRITE_TARGET_BANDS as readonly number[]).includes(targetBand)) {
+      return jsonResponse({ error: `Target band must be one of ${REWRITE_TARGET_BANDS.join(', ')}` }, 400);
+    }
+
+    // 1. Load the answer the user owns; the client only names it
+    const context = source === 'writing_submission'
+      ? await loadSubmission(supabaseClient, user.id, sourceId)
+      : await loadPracticeResult(supabaseClient, user.id, sourceId, taskType === 'task2' ? 'task2' : 'task1');
+    if (!context) return jsonResponse({ error: 'Answer not found' }, 404);
+
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // 2. A rewrite already made for this answer and band costs nothing
+    const { data: cached } = await serviceClient
+      .from('writing_model_rewrites')
+      .select('id, rewrite, target_band, prompt_version, created_at')
+      .eq('source_type', source)
+      .eq('source_id', sourceId)
+      .eq('task_type', context.taskType)
+      .eq('target_band', targetBand)
+      .maybeSingle();
+    if (cached) return jsonResponse({ ...cached, cached: true });
+
+    // 3. Hybrid key priority: the user's own key, then the system pool
+    const headerApiKey = req.headers.get('x-gemini-api-key');
+    let geminiApiKey: string | null = null;
+    let isUserProvidedKey = false;
+
+    if (headerApiKey) {
+      geminiApiKey = headerApiKey;
+      isUserProvidedKey = true;
+    } else {
+      const { data: userSecret } = await supabaseClient
+        .from('user_secrets')
+        .select('encrypted_value')
+        .eq('user_id', user.id)
+        .eq('secret_name', 'GEMINI_API_KEY')
+        .maybeSingle();
+
+      const appEncryptionKey = Deno.env.get('app_encryption_key');
+      if (userSecret && appEncryptionKey) {
+        geminiApiKey = await decryptApiKey(userSecret.encrypted_value, appEncryptionKey);
+        isUserProvidedKey = true;
+      }
+    }
+
+    if (!isUserProvidedKey) {
+      const dbApiKeys = await getActiveGeminiKeys(serviceClient);
+      if (dbApiKeys.length > 0) geminiApiKey = dbApiKeys[0].key_value;
+    }
+
+    if (!geminiApiKey) {
+      return jsonResponse({ error: 'No API key available. Please add your Gemini API key in Settings.' }, 400);
+    }
+
+    // 4. System pool users pay for the rewrite, refunded if it fails
+    let reservation: CreditReservation | null = null;
+    if (!isUserProvidedKey) {
+      const creditCheck = await reserveCredits(serviceClient, user.id, 'rewrite_writing', sourceId);
+      if (!creditCheck.ok) {
+        return jsonResponse({
+          error: creditCheck.error,
+          errorType: 'CREDIT_LIMIT_EXCEEDED',
+          creditsUsed: creditCheck.creditsUsed,
+          creditsRemaining: creditCheck.creditsRemaining,
+          bonusCredits: creditCheck.bonusCredits,
+          dailyLimit: DAILY_CREDIT_LIMIT,
+        }, 403);
+      }
+      reservation = creditCheck.reservation;
+    }
+
+    // 5. Rewrite and validate
+    const prompt = renderPrompt(writingRewritePrompt, { ...context, targetBand });
+    const llm = createLlmClient({
+      provider: createGeminiProvider(geminiApiKey),
+      models: geminiModelsFor({ startTier: 'flash' }),
+      logPrefix: '[rewrite-writing-answer]',
+    });
+
+    let rewrite;
+    try {
+      ({ data: rewrite } = await llm.generateValidated({
+        contents: [{ parts: [{ text: prompt.text }] }],
+        generationConfig: { temperature: 0.6, maxOutputTokens: 8192, responseMimeType: 'application/json' },
+      }, zodValidator(modelRewriteSchema)));
+    } catch (llmError) {
+      console.error('[rewrite-writing-answer] Rewrite failed:', llmError);
+      await refundCredits(
+        serviceClient,
+        reservation,
+        llmError instanceof LlmValidationError ? 'The rewrite came back malformed' : 'The rewrite failed',
+      );
+      return llmErrorResponse(llmError, 'Failed to rewrite the answer');
+    }
+
+    // 6. Cache it; a concurrent request for the same band may have got there first
+    const { data: saved, error: saveError } = await serviceClient
+      .from('writing_model_rewrites')
+      .upsert({
+        user_id: user.id,
+        source_type: source,
+        source_id: sourceId,
+        task_type: context.taskType,
+        target_band: targetBand,
+        rewrite,
+        prompt_version: prompt.version,
+      }, { onConflict: 'source_type,source_id,task_type,target_band' })
+      .select('id, rewrite, target_band, prompt_version, created_at')
+      .single();
+    if (saveError) console.error('[rewrite-writing-answer] Failed to cache rewrite:', saveError);
+
+    await commitCredits(serviceClient, reservation, saved?.id);
+
+    return jsonResponse({
+      ...(saved ?? { rewrite, target_band: targetBand, prompt_version: prompt.version }),
+      cached: false,
+    });
+  } catch (error) {
+    console.error('[rewrite-writing-answer] Error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
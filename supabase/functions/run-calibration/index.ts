@@ -0,0 +1,199 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  corsHeaders,
+  createGeminiProvider,
+  createLlmClient,
+  type GeminiContent,
+  geminiModelsFor,
+  getActiveGeminiKeys,
+  getUserGeminiApiKey,
+  jsonResponse,
+  type LlmClient,
+  LlmError,
+} from "../_shared/gemini.ts";
+import {
+  practiceWritingEvaluationSchema,
+  speakingSubmissionEvaluationSchema,
+  zodValidator,
+} from "../../../src/lib/aiSchemas.ts";
+import {
+  CALIBRATION_CRITERIA,
+  type CalibrationCriterion,
+  type CalibrationScriptResult,
+  type CalibrationScriptRow,
+} from "../../../src/lib/calibration.ts";
+import { type RenderedPrompt, renderPrompt } from "../../../src/lib/promptRegistry.ts";
+import { speakingSubmissionEvaluationPrompt } from "../../../src/lib/prompts/speakingEvaluation.ts";
+import { practiceWritingEvaluationPrompt } from "../../../src/lib/prompts/writingEvaluation.ts";
+
+// Scripts are scored one Gemini call each; the admin page sends small batches
+// so a run never approaches the edge function time limit
+const MAX_SCRIPTS_PER_CALL = 5;
+
+type Bands = Partial<Record<CalibrationCriterion, number>>;
+
+interface ScoredScript {
+  prompt: RenderedPrompt;
+  model: string;
+  overall: number;
+  bands: Bands;
+}
+
+/** Same prompt and schema as evaluate-ai-practice-writing */
+async function scoreWriting(llm: LlmClient, script: CalibrationScriptRow): Promise<ScoredScript> {
+  const taskType = script.task_type ?? 'task2';
+  const prompt = renderPrompt(practiceWritingEvaluationPrompt, {
+    taskType,
+    instruction: script.instruction,
+    submissionText: script.script,
+    wordCount: script.script.trim().split(/\s+/).filter(Boolean).length,
+    imageDescription: script.visual_description ?? undefined,
+  });
+  const { data, model } = await llm.generateValidated({
+    contents: prompt.text,
+    generationConfig: { temperature: 0.5, maxOutputTokens: 8192, responseMimeType: 'application/json' },
+  }, zodValidator(practiceWritingEvaluationSchema(taskType === 'task1')));
+
+  const report = data.evaluation_report;
+  const task = taskType === 'task1' ? report.task_achievement : report.task_response;
+  return {
+    prompt,
+    model,
+    overall: data.overall_band,
+    bands: {
+      task_response: task?.band,
+      coherence_cohesion: report.coherence_cohesion.band,
+      lexical_resource: report.lexical_resource.band,
+      grammatical_range_accuracy: report.grammatical_accuracy.band,
+    },
+  };
+}
+
+/**
+ * Same examiner instructions as evaluate-speaking-submission, with the
+ * transcript sent where the audio would be.
+ */
+async function scoreSpeaking(llm: LlmClient, script: CalibrationScriptRow): Promise<ScoredScript> {
+  const prompt = renderPrompt(speakingSubmissionEvaluationPrompt, {
+    testName: 'Calibration script',
+    testDescription: null,
+  });
+  const contents: GeminiContent[] = [
+    { parts: [{ text: prompt.text }] },
+    { parts: [{ text: `\nQuestions asked:\n${script.instruction}\n` }] },
+    { parts: [{ text: `Transcript of your answers (provided instead of audio):\n"""\n${script.script}\n"""` }] },
+    { parts: [{ text: `\nReturn ONLY the JSON object described above, with no additional text or markdown formatting.` }] },
+  ];
+  const { data, model } = await llm.generateValidated({ contents }, zodValidator(speakingSubmissionEvaluationSchema));
+
+  const report = data.evaluation_report;
+  return {
+    prompt,
+    model,
+    overall: data.overall_band,
+    bands: {
+      fluency_coherence: report.fluency_coherence.band,
+      lexical_resource: report.lexical_resource.band,
+      grammatical_range_accuracy: report.grammatical_range_accuracy.band,
+    },
+  };
+}
+
+function officialBands(script: CalibrationScriptRow): Bands {
+  const bands: Bands = {};
+  for (const criterion of CALIBRATION_CRITERIA[script.module]) {
+    const band = script.official_bands[criterion];
+    if (typeof band === 'number') bands[criterion] = band;
+  }
+  return bands;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    );
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: adminCheck } = await serviceClient
+      .from('admin_users')
+      .select('id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!adminCheck) {
+      return jsonResponse({ error: 'Admin access required' }, 403);
+    }
+
+    const { scriptIds } = await req.json();
+    if (!Array.isArray(scriptIds) || scriptIds.length === 0 || scriptIds.length > MAX_SCRIPTS_PER_CALL) {
+      return jsonResponse({ error: `Send between 1 and ${MAX_SCRIPTS_PER_CALL} script ids` }, 400);
+    }
+
+    const { data: scripts, error: scriptsError } = await serviceClient
+      .from('calibration_scripts')
+      .select('*')
+      .in('id', scriptIds);
+    if (scriptsError) throw scriptsError;
+
+    // Calibration runs on the admin's own key when set, otherwise the system pool; no credits are charged
+    const geminiApiKey = await getUserGeminiApiKey(supabaseClient, user.id)
+      ?? (await getActiveGeminiKeys(serviceClient))[0]?.key_value;
+    if (!geminiApiKey) {
+      return jsonResponse({ error: 'No Gemini API key available', errorKind: 'invalid_key' }, 400);
+    }
+
+    const results: CalibrationScriptResult[] = [];
+    for (const script of (scripts || []) as CalibrationScriptRow[]) {
+      const llm = createLlmClient({
+        provider: createGeminiProvider(geminiApiKey),
+        models: geminiModelsFor({ startTier: 'flash' }),
+        logPrefix: '[run-calibration]',
+      });
+      const base = {
+        scriptId: script.id,
+        officialOverall: Number(script.official_overall),
+        officialBands: officialBands(script),
+      };
+
+      try {
+        const scored = script.module === 'writing' ? await scoreWriting(llm, script) : await scoreSpeaking(llm, script);
+        results.push({
+          ...base,
+          aiOverall: scored.overall,
+          aiBands: scored.bands,
+          promptVersion: scored.prompt.version,
+          model: scored.model,
+        });
+      } catch (error) {
+        // Key-level failures end the batch; anything else is recorded against the script
+        if (error instanceof LlmError && (error.kind === 'invalid_key' || error.kind === 'key_suspended')) throw error;
+        console.error(`[run-calibration] Script ${script.id} failed:`, error);
+        results.push({ ...base, aiOverall: null, aiBands: {}, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return jsonResponse({ results });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+    console.error('[run-calibration] Error:', message);
+    return jsonResponse({ error: message, errorKind: error instanceof LlmError ? error.kind : undefined }, 500);
+  }
+});
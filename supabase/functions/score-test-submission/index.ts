@@ -0,0 +1,134 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { loadAnswerKey, markAnswers, SUBMISSION_TABLES, type ScoredModule } from "../_shared/answerKey.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { action = 'submit', module, testId, submissionId, answers } = await req.json();
+
+    if (module !== 'reading' && module !== 'listening') {
+      return jsonResponse({ error: 'Invalid module' }, 400);
+    }
+    if (typeof submissionId !== 'string' || !UUID_PATTERN.test(submissionId)) {
+      return jsonResponse({ error: 'Missing submissionId' }, 400);
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const table = SUBMISSION_TABLES[module as ScoredModule];
+
+    const { data: existing } = await serviceClient
+      .from(table)
+      .select('id, user_id, test_id, answers, score, total_questions, band_score, completed_at')
+      .eq('id', submissionId)
+      .maybeSingle();
+
+    if (existing && existing.user_id !== user.id) {
+      return jsonResponse({ error: 'Submission not found' }, 404);
+    }
+
+    // Results for a saved submission (also answers a retried submit)
+    if (action === 'results' || existing) {
+      if (!existing) {
+        return jsonResponse({ error: 'Submission not found' }, 404);
+      }
+      const key = await loadAnswerKey(serviceClient, module, existing.test_id);
+      const result = markAnswers(module, key, (existing.answers || {}) as Record<string, string>);
+      // The stored score is the record (an approved dispute re-marks it with an
+      // audit entry); only the per-question marks come from the current key
+      const total = existing.total_questions ?? result.total;
+      return jsonResponse({
+        ...result,
+        score: existing.score,
+        total,
+        percentage: total > 0 ? Math.round((existing.score / total) * 100) : 0,
+        bandScore: existing.band_score === null ? result.bandScore : Number(existing.band_score),
+        submissionId: existing.id,
+        testId: existing.test_id,
+        completedAt: existing.completed_at,
+      });
+    }
+
+    if (typeof testId !== 'string' || !UUID_PATTERN.test(testId)) {
+      return jsonResponse({ error: 'Missing testId' }, 400);
+    }
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+      return jsonResponse({ error: 'Missing answers' }, 400);
+    }
+
+    // Keep only answers keyed by question number
+    const cleanAnswers: Record<string, string> = {};
+    for (const [questionNumber, answer] of Object.entries(answers)) {
+      if (/^\d+$/.test(questionNumber) && typeof answer === 'string') {
+        cleanAnswers[questionNumber] = answer.slice(0, 500);
+      }
+    }
+
+    const key = await loadAnswerKey(serviceClient, module, testId);
+    const result = markAnswers(module, key, cleanAnswers);
+
+    const { data: submission, error: insertError } = await serviceClient
+      .from(table)
+      .insert({
+        id: submissionId,
+        user_id: user.id,
+        test_id: testId,
+        answers: cleanAnswers,
+        score: result.score,
+        total_questions: result.total,
+        band_score: result.bandScore,
+      })
+      .select('id, completed_at')
+      .single();
+
+    if (insertError) throw insertError;
+
+    return jsonResponse({
+      ...result,
+      submissionId: submission.id,
+      testId,
+      completedAt: submission.completed_at,
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+    console.error('Edge Function error:', message);
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -1,34 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
-import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-// List of Gemini models in fallback order (aligned with evaluate-writing-submission)
-// NOTE: Some older model names (e.g., gemini-1.5-*) may 404 depending on API version.
-const GEMINI_MODELS_FALLBACK_ORDER = [
-  'gemini-2.5-pro',
-  'gemini-pro-latest',
-  'gemini-3-pro-preview',
-  'gemini-exp-1206',
-  'gemini-2.5-flash',
-  'gemini-flash-latest',
-  'gemini-2.0-flash',
-  'gemini-2.0-flash-001',
-  'gemini-2.5-flash-lite',
-  'gemini-flash-lite-latest',
-  'gemini-2.0-flash-lite-001',
-  'gemini-2.0-flash-lite',
-  'gemma-3-27b-it',
-  'gemma-3-12b-it',
-  'gemma-3-4b-it',
-  'gemma-3-1b-it',
-  'gemma-3n-e4b-it',
-  'gemma-3n-e2b-it',
-];
+import {
+  corsHeaders,
+  createGeminiProvider,
+  createLlmClient,
+  extractJson,
+  geminiModelsFor,
+  getUserGeminiApiKey,
+  httpStatusForLlmError,
+  LlmError,
+} from "../_shared/gemini.ts";
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
@@ -60,32 +41,6 @@ interface TranscriptionResult {
   total_duration: number;
 }
 
-async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
-
-  const combined = Uint8Array.from(atob(encryptedValue), (c) => c.charCodeAt(0));
-  const iv = combined.slice(0, 12);
-  const encryptedData = combined.slice(12);
-
-  const keyData = encoder.encode(encryptionKey);
-  const cryptoKey = await crypto.subtle.importKey(
-    "raw",
-    keyData.slice(0, 32),
-    { name: "AES-GCM" },
-    false,
-    ["decrypt"],
-  );
-
-  const decryptedData = await crypto.subtle.decrypt(
-    { name: "AES-GCM", iv },
-    cryptoKey,
-    encryptedData,
-  );
-
-  return decoder.decode(decryptedData);
-}
-
 // Convert Uint8Array to base64 in chunks to avoid stack overflow
 function uint8ArrayToBase64(uint8Array: Uint8Array): string {
   const chunkSize = 8192;
@@ -124,21 +79,9 @@ serve(async (req) => {
       });
     }
 
-    const appEncryptionKey = Deno.env.get('app_encryption_key');
-    if (!appEncryptionKey) {
-      throw new Error('app_encryption_key is not configured');
-    }
-
-    const { data: secretData, error: secretError } = await supabaseClient
-      .from('user_secrets')
-      .select('encrypted_value')
-      .eq('user_id', user.id)
-      .eq('secret_name', 'GEMINI_API_KEY')
-      .maybeSingle();
-
-    if (secretError) throw secretError;
+    const geminiApiKey = await getUserGeminiApiKey(supabaseClient, user.id);
 
-    if (!secretData?.encrypted_value) {
+    if (!geminiApiKey) {
       return new Response(JSON.stringify({
         error: 'Gemini API key not found. Please add your GEMINI_API_KEY in Settings.',
       }), {
@@ -147,8 +90,6 @@ serve(async (req) => {
       });
     }
 
-    const geminiApiKey = await decryptApiKey(secretData.encrypted_value, appEncryptionKey);
-
     const formData = await req.formData();
     const audioFile = formData.get('audio') as File | null;
     const audioUrl = formData.get('audioUrl') as string | null;
@@ -234,92 +175,43 @@ Return your response as a valid JSON object with this exact structure:
 Times should be in seconds (decimals allowed). Be as accurate as possible with timestamps.
 ONLY return the JSON object, no other text.`;
 
-    // Try models in fallback order
-    let responseText: string | null = null;
-    let usedModel: string | null = null;
-    let lastError: string | null = null;
+    // Audio input, so only models that accept inline audio
+    const llm = createLlmClient({
+      provider: createGeminiProvider(geminiApiKey),
+      models: geminiModelsFor({ multimodal: true }),
+      logPrefix: '[transcribe-listening-audio]',
+    });
 
-    for (const modelName of GEMINI_MODELS_FALLBACK_ORDER) {
-      console.log(`Attempting transcription with Gemini model: ${modelName}`);
-      
-      try {
-        const response = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${encodeURIComponent(geminiApiKey)}`,
+    let responseText: string;
+    let usedModel: string;
+    try {
+      ({ text: responseText, model: usedModel } = await llm.generateText({
+        contents: [
           {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              contents: [
-                {
-                  role: 'user',
-                  parts: [
-                    { text: systemPrompt },
-                    { text: 'Please transcribe this IELTS listening test audio and identify all parts and question groups with their timestamps.' },
-                    {
-                      inlineData: {
-                        mimeType,
-                        data: audioBase64,
-                      },
-                    },
-                  ],
-                },
-              ],
-              generationConfig: {
-                temperature: 0.2,
-                responseMimeType: 'application/json',
-              },
-            }),
+            role: 'user',
+            parts: [
+              { text: systemPrompt },
+              { text: 'Please transcribe this IELTS listening test audio and identify all parts and question groups with their timestamps.' },
+              { inlineData: { mimeType, data: audioBase64 } },
+            ],
           },
-        );
-
-        if (response.ok) {
-          const data = await response.json();
-          const content = data?.candidates?.[0]?.content?.parts
-            ?.map((p: any) => p?.text)
-            .filter(Boolean)
-            .join('\n');
-
-          if (content) {
-            responseText = content;
-            usedModel = modelName;
-            console.log(`Transcription successful with model: ${modelName}`);
-            break;
-          } else {
-            console.warn(`Model ${modelName} returned OK but no content. Trying next model.`);
-            lastError = `${modelName}: Empty response`;
-          }
-        } else {
-          const errorText = await response.text();
-          console.error(`Gemini ${modelName} failed:`, response.status, errorText);
-          
-          // Rate limit - try next model
-          if (response.status === 429) {
-            console.log(`Rate limited on ${modelName}, trying next model...`);
-            lastError = `Rate limited on ${modelName}`;
-            continue;
-          }
-          
-          lastError = `${modelName}: ${response.status}`;
-          continue;
-        }
-      } catch (fetchError: any) {
-        console.error(`Fetch error with ${modelName}:`, fetchError.message);
-        lastError = fetchError.message;
-        continue;
-      }
-    }
-
-    if (!responseText) {
-      const isRateLimited = lastError?.includes('Rate limited');
+        ],
+        generationConfig: {
+          temperature: 0.2,
+          responseMimeType: 'application/json',
+        },
+      }));
+    } catch (llmError) {
+      const kind = llmError instanceof LlmError ? llmError.kind : 'unknown';
+      const message = llmError instanceof Error ? llmError.message : String(llmError);
       return new Response(
         JSON.stringify({ 
-          error: `All models failed. Last error: ${lastError}`,
-          rateLimited: isRateLimited
+          error: `All models failed. Last error: ${message}`,
+          errorKind: kind,
+          rateLimited: kind === 'rate_limited' || kind === 'quota',
         }),
         { 
-          status: isRateLimited ? 429 : 500, 
+          status: httpStatusForLlmError(kind), 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         },
       );
@@ -328,17 +220,9 @@ ONLY return the JSON object, no other text.`;
     console.log('Gemini response received from model:', usedModel);
     console.log('Raw Gemini response:', responseText.substring(0, 500));
 
-    let result: TranscriptionResult;
-    try {
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        result = JSON.parse(jsonMatch[0]);
-      } else {
-        result = JSON.parse(responseText);
-      }
-    } catch (parseError) {
-      console.error('Failed to parse Gemini response as JSON:', parseError);
-      console.error('Content was:', responseText);
+    const result = extractJson<TranscriptionResult>(responseText);
+    if (!result) {
+      console.error('Failed to parse Gemini response as JSON. Content was:', responseText);
       throw new Error('Failed to parse transcription result');
     }
 
@@ -0,0 +1,30 @@
+-- Spaced repetition scheduling state for flashcards (SM-2 variant)
+ALTER TABLE public.flashcard_cards
+ADD COLUMN IF NOT EXISTS ease_factor numeric(4,2) NOT NULL DEFAULT 2.5;
+
+ALTER TABLE public.flashcard_cards
+ADD COLUMN IF NOT EXISTS interval_days integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.flashcard_cards
+ADD COLUMN IF NOT EXISTS repetitions integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.flashcard_cards
+ADD COLUMN IF NOT EXISTS lapses integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.flashcard_cards
+ADD COLUMN IF NOT EXISTS due_at timestamp with time zone;
+
+ALTER TABLE public.flashcard_cards
+ADD COLUMN IF NOT EXISTS last_reviewed_at timestamp with time zone;
+
+-- Backfill existing progress so previously "mastered" words resurface
+UPDATE public.flashcard_cards
+SET
+  repetitions = CASE status WHEN 'learning' THEN 0 WHEN 'reviewing' THEN 1 ELSE 3 END,
+  interval_days = CASE status WHEN 'learning' THEN 0 WHEN 'reviewing' THEN 1 ELSE 21 END,
+  due_at = COALESCE(next_review_at, now())
+WHERE due_at IS NULL;
+
+-- "Due today" queue across all decks
+CREATE INDEX IF NOT EXISTS idx_flashcard_cards_user_due
+ON public.flashcard_cards(user_id, due_at);
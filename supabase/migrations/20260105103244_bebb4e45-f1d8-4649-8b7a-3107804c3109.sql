@@ -0,0 +1,14 @@
+-- Configurable answer-matching rules (see src/lib/ieltsAnswerValidation.ts)
+-- Shape: { "disabledRules": ["spelling_variant", ...], "customEquivalences": [{ "name": "...", "entries": [["a", "b"]] }] }
+-- Question-group settings take precedence over test-level settings.
+ALTER TABLE public.reading_tests
+ADD COLUMN IF NOT EXISTS answer_matching jsonb;
+
+ALTER TABLE public.listening_tests
+ADD COLUMN IF NOT EXISTS answer_matching jsonb;
+
+ALTER TABLE public.reading_question_groups
+ADD COLUMN IF NOT EXISTS answer_matching jsonb;
+
+ALTER TABLE public.listening_question_groups
+ADD COLUMN IF NOT EXISTS answer_matching jsonb;
@@ -0,0 +1,10 @@
+-- Structured word limits for completion-style question groups.
+-- When set, these take precedence over the limit parsed from the instruction text
+-- (e.g. "NO MORE THAN TWO WORDS AND/OR A NUMBER" -> max_words = 2, max_numbers = 1).
+ALTER TABLE public.reading_question_groups
+ADD COLUMN IF NOT EXISTS max_words integer,
+ADD COLUMN IF NOT EXISTS max_numbers integer;
+
+ALTER TABLE public.listening_question_groups
+ADD COLUMN IF NOT EXISTS max_words integer,
+ADD COLUMN IF NOT EXISTS max_numbers integer;
@@ -0,0 +1,16 @@
+-- General Training support.
+-- Writing tests and AI practice tests carry an Academic / General Training variant
+-- (reading and listening tests already use test_type for this).
+ALTER TABLE public.writing_tests
+ADD COLUMN IF NOT EXISTS test_type text NOT NULL DEFAULT 'academic'
+  CHECK (test_type IN ('academic', 'general'));
+
+ALTER TABLE public.ai_practice_tests
+ADD COLUMN IF NOT EXISTS test_variant text NOT NULL DEFAULT 'academic'
+  CHECK (test_variant IN ('academic', 'general'));
+
+-- GT reading is split into 3 sections, the first two holding several short texts.
+-- Each reading_passages row is one text; NULL = Academic (one passage per part).
+ALTER TABLE public.reading_passages
+ADD COLUMN IF NOT EXISTS section_number integer
+  CHECK (section_number BETWEEN 1 AND 3);
@@ -0,0 +1,154 @@
+-- ============================================
+-- MOCK TEST SESSIONS TABLE
+-- One row per full mock exam: the four papers taken in sequence,
+-- which section is in progress, and each section's submission / band
+-- ============================================
+CREATE TABLE public.mock_test_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  book_name TEXT,
+  test_number INTEGER,
+  test_variant TEXT NOT NULL DEFAULT 'academic' CHECK (test_variant IN ('academic', 'general')),
+  listening_test_id UUID,
+  reading_test_id UUID,
+  writing_test_id UUID,
+  speaking_test_id UUID,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'abandoned')),
+  current_section TEXT CHECK (current_section IN ('listening', 'reading', 'writing', 'speaking')),
+  -- { listening: { status, started_at, submitted_at, submission_ids, band }, ... }
+  section_results JSONB NOT NULL DEFAULT '{}'::jsonb,
+  break_until TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_mock_test_sessions_user_status ON public.mock_test_sessions(user_id, status);
+
+-- Enable RLS
+ALTER TABLE public.mock_test_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own mock test sessions"
+  ON public.mock_test_sessions
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all mock test sessions"
+  ON public.mock_test_sessions
+  FOR SELECT
+  USING (is_admin(auth.uid()));
+
+CREATE TRIGGER update_mock_test_sessions_updated_at
+  BEFORE UPDATE ON public.mock_test_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- SECTION BANDS
+-- The client keeps the session's progress (current section, break, each
+-- section's status and submission ids), but a section's band is always
+-- read from the submissions it points at, which must be the candidate's
+-- own submissions for that paper. Whatever band or status the client
+-- sends is replaced, and the session completes only once every paper has
+-- a band.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.verify_mock_test_session_bands()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_results jsonb := COALESCE(NEW.section_results, '{}'::jsonb);
+  v_section text;
+  v_test_id uuid;
+  v_result jsonb;
+  v_ids uuid[];
+  v_count integer;
+  v_band numeric;
+  v_task1 numeric;
+  v_task2 numeric;
+  v_sections integer := 0;
+  v_banded integer := 0;
+BEGIN
+  FOREACH v_section IN ARRAY ARRAY['listening', 'reading', 'writing', 'speaking'] LOOP
+    v_test_id := CASE v_section
+      WHEN 'listening' THEN NEW.listening_test_id
+      WHEN 'reading' THEN NEW.reading_test_id
+      WHEN 'writing' THEN NEW.writing_test_id
+      ELSE NEW.speaking_test_id
+    END;
+    IF v_test_id IS NOT NULL THEN
+      v_sections := v_sections + 1;
+    END IF;
+
+    v_result := v_results -> v_section;
+    CONTINUE WHEN v_result IS NULL OR jsonb_typeof(v_result) <> 'object';
+
+    SELECT COALESCE(array_agg(DISTINCT value::uuid), '{}') INTO v_ids
+    FROM jsonb_array_elements_text(COALESCE(v_result -> 'submission_ids', '[]'::jsonb));
+
+    v_band := NULL;
+    IF cardinality(v_ids) > 0 THEN
+      IF v_section = 'listening' THEN
+        SELECT count(*), max(band_score) INTO v_count, v_band
+        FROM listening_test_submissions
+        WHERE id = ANY(v_ids) AND user_id = NEW.user_id AND test_id = v_test_id;
+      ELSIF v_section = 'reading' THEN
+        SELECT count(*), max(band_score) INTO v_count, v_band
+        FROM reading_test_submissions
+        WHERE id = ANY(v_ids) AND user_id = NEW.user_id AND test_id = v_test_id;
+      ELSIF v_section = 'writing' THEN
+        SELECT count(*),
+               max(s.overall_band) FILTER (WHERE t.task_type = 'task1'),
+               max(s.overall_band) FILTER (WHERE t.task_type = 'task2')
+          INTO v_count, v_task1, v_task2
+        FROM writing_submissions s
+        JOIN writing_tasks t ON t.id = s.task_id
+        WHERE s.id = ANY(v_ids) AND s.user_id = NEW.user_id AND t.writing_test_id = v_test_id;
+        -- Once every task is evaluated, weighted as in combineWritingTaskBands
+        IF NOT EXISTS (SELECT 1 FROM writing_submissions WHERE id = ANY(v_ids) AND overall_band IS NULL) THEN
+          v_band := CASE
+            WHEN v_task1 IS NULL THEN v_task2
+            WHEN v_task2 IS NULL THEN v_task1
+            ELSE floor((v_task1 + v_task2 * 2) / 3 * 2 + 0.5) / 2
+          END;
+        END IF;
+      ELSE
+        SELECT count(*), max(overall_band) INTO v_count, v_band
+        FROM speaking_submissions
+        WHERE id = ANY(v_ids) AND user_id = NEW.user_id AND test_id = v_test_id;
+      END IF;
+
+      IF v_count <> cardinality(v_ids) THEN
+        RAISE EXCEPTION 'The % section of this mock test lists submissions that are not for its paper', v_section;
+      END IF;
+    END IF;
+
+    IF v_result ->> 'status' IS DISTINCT FROM 'submitted' THEN
+      v_band := NULL;
+    END IF;
+    v_results := jsonb_set(v_results, ARRAY[v_section], v_result || jsonb_build_object('band', v_band));
+    IF v_test_id IS NOT NULL AND v_band IS NOT NULL THEN
+      v_banded := v_banded + 1;
+    END IF;
+  END LOOP;
+
+  NEW.section_results := v_results;
+  IF NEW.status <> 'abandoned' THEN
+    IF v_sections > 0 AND v_banded = v_sections THEN
+      NEW.status := 'completed';
+      NEW.completed_at := CASE WHEN TG_OP = 'UPDATE' AND OLD.status = 'completed' THEN OLD.completed_at ELSE now() END;
+    ELSE
+      NEW.status := 'in_progress';
+      NEW.completed_at := NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER verify_mock_test_session_bands
+  BEFORE INSERT OR UPDATE ON public.mock_test_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.verify_mock_test_session_bands();
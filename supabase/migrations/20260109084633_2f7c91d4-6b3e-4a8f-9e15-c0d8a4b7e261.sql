@@ -0,0 +1,35 @@
+-- ============================================
+-- TEST ATTEMPTS TABLE
+-- Server-side autosave of in-progress tests so an attempt survives a
+-- crashed tab and can be resumed from another device.
+-- One row per user and test; deleted when the test is submitted.
+-- ============================================
+CREATE TABLE public.test_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  module TEXT NOT NULL CHECK (module IN ('reading', 'listening', 'writing')),
+  -- 'test' = published reading/listening/writing tests, 'ai_practice' = ai_practice_tests
+  source TEXT NOT NULL DEFAULT 'test' CHECK (source IN ('test', 'ai_practice')),
+  test_id UUID NOT NULL,
+  -- { answers, currentQuestion, currentPassageIndex, submissionText1, submissionText2 }
+  state JSONB NOT NULL DEFAULT '{}'::jsonb,
+  time_left INTEGER,
+  -- Browser that last saved, so resume can say it came from another device
+  client_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, source, test_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.test_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own test attempts"
+  ON public.test_attempts
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_test_attempts_updated_at
+  BEFORE UPDATE ON public.test_attempts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,43 @@
+-- ============================================
+-- TEST ANNOTATIONS TABLE
+-- Highlights and notes made while taking a test, synced per user so they
+-- follow the candidate across devices and can be reviewed later.
+-- One row per highlight; the optional note is stored on the same row.
+-- ============================================
+CREATE TABLE public.test_annotations (
+  -- Generated client-side so highlights made offline keep their id
+  id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  module TEXT NOT NULL CHECK (module IN ('reading', 'listening', 'writing', 'speaking')),
+  -- 'test' = published tests, 'ai_practice' = ai_practice_tests
+  source TEXT NOT NULL DEFAULT 'test' CHECK (source IN ('test', 'ai_practice')),
+  test_id UUID NOT NULL,
+  -- Passage paragraph or question the highlight belongs to
+  content_id TEXT NOT NULL,
+  highlighted_text TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT 'yellow' CHECK (color IN ('yellow', 'red')),
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  is_note BOOLEAN NOT NULL DEFAULT false,
+  note_id UUID,
+  note_text TEXT,
+  note_created_at TIMESTAMP WITH TIME ZONE,
+  note_updated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_test_annotations_user_test ON public.test_annotations(user_id, test_id);
+
+-- Enable RLS
+ALTER TABLE public.test_annotations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own test annotations"
+  ON public.test_annotations
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_test_annotations_updated_at
+  BEFORE UPDATE ON public.test_annotations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,79 @@
+-- ============================================
+-- SERVER-SIDE SCORING FOR READING / LISTENING
+-- Submissions are now marked and written by the score-test-submission
+-- edge function with the service role, so users can no longer insert a
+-- submission (and its score / band) directly.
+-- ============================================
+DROP POLICY IF EXISTS "Users can insert their own reading submissions" ON public.reading_test_submissions;
+DROP POLICY IF EXISTS "Users can insert their own listening submissions" ON public.listening_test_submissions;
+
+-- ============================================
+-- ANSWER KEYS
+-- Questions stay publicly readable, but correct_answer is no longer
+-- granted to API users. Column privileges only take effect once the
+-- table-wide grant is gone, so every other column is granted back.
+-- The scoring functions read the key with the service role.
+-- ============================================
+REVOKE SELECT ON public.reading_questions FROM anon, authenticated;
+GRANT SELECT (
+  id, passage_id, question_group_id, question_number, question_type, question_text,
+  options, instruction, heading, table_data, option_format, created_at
+) ON public.reading_questions TO anon, authenticated;
+
+REVOKE SELECT ON public.listening_questions FROM anon, authenticated;
+GRANT SELECT (
+  id, group_id, question_number, question_text, is_given,
+  heading, table_data, options, option_format, created_at
+) ON public.listening_questions TO anon, authenticated;
+
+-- Worked examples are printed on the paper, so their answers stay readable
+CREATE OR REPLACE FUNCTION public.get_listening_example_answers(p_question_ids uuid[])
+RETURNS TABLE (id uuid, correct_answer text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.id, q.correct_answer
+  FROM listening_questions q
+  WHERE q.id = ANY(p_question_ids) AND q.is_given;
+$$;
+
+-- The test editors need the full rows, answer key included
+CREATE OR REPLACE FUNCTION public.get_admin_reading_questions(p_passage_ids uuid[])
+RETURNS SETOF public.reading_questions
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can view answer keys';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM reading_questions
+  WHERE passage_id = ANY(p_passage_ids)
+  ORDER BY question_number;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_admin_listening_questions(p_group_ids uuid[])
+RETURNS SETOF public.listening_questions
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can view answer keys';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM listening_questions
+  WHERE group_id = ANY(p_group_ids)
+  ORDER BY question_number;
+END;
+$$;
@@ -0,0 +1,93 @@
+-- ============================================
+-- ANSWER DISPUTES
+-- Students report an answer they believe should have been accepted.
+-- Admins review them grouped by question; approving one appends the
+-- answer to the key as a "/" alternative and re-scores past submissions.
+-- ============================================
+CREATE TABLE public.answer_disputes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  module TEXT NOT NULL CHECK (module IN ('reading', 'listening')),
+  -- 'test' = published tests, 'ai_practice' = ai_practice_tests
+  source TEXT NOT NULL DEFAULT 'test' CHECK (source IN ('test', 'ai_practice')),
+  test_id UUID NOT NULL,
+  -- reading/listening_test_submissions.id; AI practice results are keyed by test
+  submission_id UUID,
+  question_number INTEGER NOT NULL,
+  question_text TEXT,
+  user_answer TEXT NOT NULL,
+  -- Answer key at the time of the dispute
+  correct_answer TEXT NOT NULL,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  admin_note TEXT,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, source, test_id, question_number)
+);
+
+CREATE INDEX idx_answer_disputes_status ON public.answer_disputes(status, created_at);
+CREATE INDEX idx_answer_disputes_question ON public.answer_disputes(source, test_id, question_number);
+
+-- Enable RLS
+ALTER TABLE public.answer_disputes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own answer disputes"
+  ON public.answer_disputes
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own answer disputes"
+  ON public.answer_disputes
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND status = 'pending');
+
+CREATE POLICY "Admins can view all answer disputes"
+  ON public.answer_disputes
+  FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_answer_disputes_updated_at
+  BEFORE UPDATE ON public.answer_disputes
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- SCORE ADJUSTMENTS
+-- Audit trail for scores changed after submission, written by the
+-- resolve-answer-dispute edge function with the service role.
+-- ============================================
+CREATE TABLE public.score_adjustments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  module TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('test', 'ai_practice')),
+  test_id UUID NOT NULL,
+  -- Submission or ai_practice_results row that was re-scored
+  submission_id UUID NOT NULL,
+  dispute_id UUID REFERENCES public.answer_disputes(id) ON DELETE SET NULL,
+  old_score INTEGER NOT NULL,
+  new_score INTEGER NOT NULL,
+  old_band_score NUMERIC,
+  new_band_score NUMERIC,
+  note TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_score_adjustments_submission ON public.score_adjustments(submission_id);
+-- One entry per row a dispute re-marks, so resolving it again doesn't repeat them
+CREATE UNIQUE INDEX idx_score_adjustments_dispute_submission ON public.score_adjustments(dispute_id, submission_id);
+
+ALTER TABLE public.score_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own score adjustments"
+  ON public.score_adjustments
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all score adjustments"
+  ON public.score_adjustments
+  FOR SELECT
+  USING (public.is_admin(auth.uid()));
@@ -0,0 +1,19 @@
+-- Prompt versions.
+-- Every AI-generated test and AI evaluation records the prompt template(s)
+-- that produced it as "<id>@<version>" (comma separated when a result was
+-- built from several prompts, e.g. a full writing test). NULL = produced
+-- before prompts were versioned, or not AI-generated.
+ALTER TABLE public.ai_practice_tests
+ADD COLUMN IF NOT EXISTS prompt_version text;
+
+ALTER TABLE public.ai_practice_results
+ADD COLUMN IF NOT EXISTS prompt_version text;
+
+ALTER TABLE public.generated_test_audio
+ADD COLUMN IF NOT EXISTS prompt_version text;
+
+ALTER TABLE public.writing_submissions
+ADD COLUMN IF NOT EXISTS prompt_version text;
+
+ALTER TABLE public.speaking_submissions
+ADD COLUMN IF NOT EXISTS prompt_version text;
@@ -0,0 +1,69 @@
+-- ============================================
+-- AI EXAMINER CALIBRATION
+-- Human-scored writing essays and speaking transcripts, grouped into named
+-- datasets. The admin calibration page runs the current AI evaluator over a
+-- dataset (run-calibration edge function) and stores each run's agreement
+-- statistics, so drift after a prompt or model change is visible.
+-- ============================================
+CREATE TABLE public.calibration_scripts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  dataset TEXT NOT NULL,
+  module TEXT NOT NULL CHECK (module IN ('writing', 'speaking')),
+  -- Writing only
+  task_type TEXT CHECK (task_type IN ('task1', 'task2')),
+  -- Task question, or the speaking questions in order
+  instruction TEXT NOT NULL,
+  -- Essay, or transcript of the candidate's answers
+  script TEXT NOT NULL,
+  -- Task 1 chart/diagram described in words
+  visual_description TEXT,
+  -- Official band per criterion, e.g. {"task_response": 6.5, ...}
+  official_bands JSONB NOT NULL,
+  official_overall NUMERIC NOT NULL CHECK (official_overall BETWEEN 0 AND 9),
+  source TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_calibration_scripts_dataset ON public.calibration_scripts(dataset, module);
+
+CREATE TABLE public.calibration_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  dataset TEXT NOT NULL,
+  module TEXT NOT NULL CHECK (module IN ('writing', 'speaking')),
+  -- Edge function whose prompt was calibrated
+  evaluator TEXT NOT NULL,
+  -- "<id>@<version>" of the prompt(s) used, and the model(s) that answered
+  prompt_version TEXT,
+  model TEXT,
+  script_count INTEGER NOT NULL,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  -- Exact/adjacent agreement, MAE and bias, overall and per criterion
+  summary JSONB NOT NULL,
+  -- AI vs official bands per script
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_calibration_runs_dataset ON public.calibration_runs(dataset, module, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.calibration_scripts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.calibration_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage calibration scripts"
+  ON public.calibration_scripts
+  FOR ALL
+  USING (public.is_admin(auth.uid()))
+  WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can view calibration runs"
+  ON public.calibration_runs
+  FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can record calibration runs"
+  ON public.calibration_runs
+  FOR INSERT
+  WITH CHECK (public.is_admin(auth.uid()) AND auth.uid() = created_by);
@@ -0,0 +1,304 @@
+-- ============================================
+-- CREDIT LEDGER
+-- Replaces profiles.daily_credits_used with an append-only ledger of every
+-- credit movement (see src/lib/credits.ts). Users keep a daily allowance;
+-- grants and promotion codes add bonus credits that are only drawn on once
+-- the day's allowance is spent.
+-- ============================================
+CREATE TABLE public.credit_transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('reserve', 'commit', 'refund', 'grant', 'promo')),
+  -- Signed: reserves are negative, refunds/grants/promos positive, commits 0
+  amount INTEGER NOT NULL,
+  -- Part of amount drawn from (or added to) bonus credits; the rest is the daily allowance
+  bonus_amount INTEGER NOT NULL DEFAULT 0,
+  -- CREDIT_COSTS key for reservations
+  operation TEXT,
+  -- Test, submission or promotion code the credits were spent on or came from
+  reference TEXT,
+  -- The reserve row a commit or refund settles
+  reservation_id UUID REFERENCES public.credit_transactions(id) ON DELETE CASCADE,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((kind IN ('commit', 'refund')) = (reservation_id IS NOT NULL))
+);
+
+CREATE INDEX idx_credit_transactions_user ON public.credit_transactions(user_id, created_at DESC);
+-- A reservation is settled at most once
+CREATE UNIQUE INDEX idx_credit_transactions_settlement
+  ON public.credit_transactions(reservation_id)
+  WHERE kind IN ('commit', 'refund');
+
+ALTER TABLE public.credit_transactions ENABLE ROW LEVEL SECURITY;
+
+-- No insert/update/delete policies: rows are only written by the functions below
+CREATE POLICY "Users can view their own credit transactions"
+  ON public.credit_transactions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all credit transactions"
+  ON public.credit_transactions
+  FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+-- The credits admin page looks users up by email
+CREATE POLICY "Admins can view all profiles"
+  ON public.profiles
+  FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+-- ============================================
+-- BALANCE
+-- ============================================
+
+-- Daily allowance; a single place to change it per user
+CREATE OR REPLACE FUNCTION public.daily_credit_limit(p_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT 100;
+$$;
+
+-- Today's allowance use and the bonus balance. A refund counts against the
+-- day its reservation was made, so a refund after midnight doesn't eat into
+-- the new day.
+CREATE OR REPLACE FUNCTION public.credit_balance(p_user_id uuid, OUT daily_used integer, OUT bonus integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(-SUM(t.amount - t.bonus_amount) FILTER (
+      WHERE t.kind IN ('reserve', 'refund') AND COALESCE(r.created_at, t.created_at) >= CURRENT_DATE
+    ), 0)::integer,
+    COALESCE(SUM(t.bonus_amount), 0)::integer
+  FROM credit_transactions t
+  LEFT JOIN credit_transactions r ON r.id = t.reservation_id
+  WHERE t.user_id = p_user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_credit_status(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit integer := public.daily_credit_limit(p_user_id);
+  v_balance record;
+BEGIN
+  -- Service-role callers (edge functions) carry no auth.uid(); everyone else
+  -- must be the owner or an admin.
+  IF COALESCE(auth.role(), '') <> 'service_role'
+     AND auth.uid() IS DISTINCT FROM p_user_id
+     AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to view credits for another user';
+  END IF;
+
+  SELECT * INTO v_balance FROM public.credit_balance(p_user_id);
+
+  RETURN jsonb_build_object(
+    'credits_used', v_balance.daily_used,
+    'credits_remaining', GREATEST(0, v_limit - v_balance.daily_used),
+    'limit', v_limit,
+    'bonus_credits', v_balance.bonus
+  );
+END;
+$$;
+
+-- ============================================
+-- RESERVE / COMMIT / REFUND
+-- Called by the edge functions with the service role.
+-- ============================================
+DROP FUNCTION IF EXISTS public.check_and_reserve_credits(uuid, integer);
+DROP FUNCTION IF EXISTS public.refund_credits(uuid, integer);
+
+-- Reserve credits BEFORE calling the model. Locking the profile row
+-- serialises reservations per user, so parallel requests can't overspend.
+CREATE OR REPLACE FUNCTION public.reserve_credits(
+  p_user_id uuid,
+  p_operation text,
+  p_cost integer,
+  p_reference text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit integer := public.daily_credit_limit(p_user_id);
+  v_balance record;
+  v_daily_remaining integer;
+  v_from_bonus integer;
+  v_reservation_id uuid;
+BEGIN
+  IF p_cost <= 0 THEN
+    RAISE EXCEPTION 'Reservation cost must be positive';
+  END IF;
+
+  PERFORM 1 FROM profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'error', 'Profile not found',
+      'credits_used', 0,
+      'credits_remaining', 0,
+      'bonus_credits', 0
+    );
+  END IF;
+
+  SELECT * INTO v_balance FROM public.credit_balance(p_user_id);
+  v_daily_remaining := GREATEST(0, v_limit - v_balance.daily_used);
+  v_from_bonus := GREATEST(0, p_cost - v_daily_remaining);
+
+  IF v_from_bonus > v_balance.bonus THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'error', format('Daily credit limit reached (%s/%s). Add your own Gemini API key in Settings.', v_balance.daily_used, v_limit),
+      'credits_used', v_balance.daily_used,
+      'credits_remaining', v_daily_remaining,
+      'bonus_credits', v_balance.bonus
+    );
+  END IF;
+
+  INSERT INTO credit_transactions (user_id, kind, amount, bonus_amount, operation, reference)
+  VALUES (p_user_id, 'reserve', -p_cost, -v_from_bonus, p_operation, p_reference)
+  RETURNING id INTO v_reservation_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'reservation_id', v_reservation_id,
+    'credits_used', v_balance.daily_used + p_cost - v_from_bonus,
+    'credits_remaining', v_daily_remaining - (p_cost - v_from_bonus),
+    'bonus_credits', v_balance.bonus - v_from_bonus
+  );
+END;
+$$;
+
+-- Mark a reservation as spent. p_reference replaces the reservation's
+-- reference when the result (e.g. the generated test) only exists now.
+-- Returns false if the reservation was already settled.
+CREATE OR REPLACE FUNCTION public.commit_credits(p_reservation_id uuid, p_reference text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation credit_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_reservation FROM credit_transactions WHERE id = p_reservation_id AND kind = 'reserve';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reservation % not found', p_reservation_id;
+  END IF;
+
+  INSERT INTO credit_transactions (user_id, kind, amount, bonus_amount, operation, reference, reservation_id)
+  VALUES (
+    v_reservation.user_id, 'commit', 0, 0, v_reservation.operation,
+    COALESCE(p_reference, v_reservation.reference), p_reservation_id
+  )
+  ON CONFLICT DO NOTHING;
+  RETURN FOUND;
+END;
+$$;
+
+-- Return a reservation after the operation failed. Returns false if it was
+-- already settled.
+CREATE OR REPLACE FUNCTION public.refund_credits(p_reservation_id uuid, p_note text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation credit_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_reservation FROM credit_transactions WHERE id = p_reservation_id AND kind = 'reserve';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reservation % not found', p_reservation_id;
+  END IF;
+
+  INSERT INTO credit_transactions (user_id, kind, amount, bonus_amount, operation, reference, reservation_id, note)
+  VALUES (
+    v_reservation.user_id, 'refund', -v_reservation.amount, -v_reservation.bonus_amount,
+    v_reservation.operation, v_reservation.reference, p_reservation_id, p_note
+  )
+  ON CONFLICT DO NOTHING;
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.credit_balance(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reserve_credits(uuid, text, integer, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.commit_credits(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_credits(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.credit_balance(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reserve_credits(uuid, text, integer, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.commit_credits(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.refund_credits(uuid, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.get_credit_status(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_credit_status(uuid) TO authenticated, service_role;
+
+-- ============================================
+-- ADMIN GRANTS
+-- ============================================
+CREATE OR REPLACE FUNCTION public.grant_credits(p_email text, p_amount integer, p_note text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_transaction_id uuid;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Grant amount must be positive';
+  END IF;
+  IF COALESCE(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A note explaining the grant is required';
+  END IF;
+
+  SELECT id INTO v_user_id FROM profiles WHERE lower(email) = lower(trim(p_email));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No user with email %', p_email;
+  END IF;
+
+  INSERT INTO credit_transactions (user_id, kind, amount, bonus_amount, note, created_by)
+  VALUES (v_user_id, 'grant', p_amount, p_amount, trim(p_note), auth.uid())
+  RETURNING id INTO v_transaction_id;
+
+  RETURN jsonb_build_object('transaction_id', v_transaction_id, 'user_id', v_user_id);
+END;
+$$;
+
+-- ============================================
+-- RETIRE THE DAILY COUNTER
+-- Today's usage is carried into the ledger so nobody gets a second
+-- allowance on the day this ships.
+-- ============================================
+WITH carried AS (
+  INSERT INTO public.credit_transactions (user_id, kind, amount, bonus_amount, note)
+  SELECT id, 'reserve', -daily_credits_used, 0, 'Usage before the credit ledger'
+  FROM public.profiles
+  WHERE last_reset_date = CURRENT_DATE AND daily_credits_used > 0
+  RETURNING id, user_id
+)
+INSERT INTO public.credit_transactions (user_id, kind, amount, bonus_amount, reservation_id)
+SELECT user_id, 'commit', 0, 0, id FROM carried;
+
+DROP INDEX IF EXISTS public.idx_profiles_last_reset_date;
+
+ALTER TABLE public.profiles
+  DROP COLUMN IF EXISTS daily_credits_used,
+  DROP COLUMN IF EXISTS last_reset_date;
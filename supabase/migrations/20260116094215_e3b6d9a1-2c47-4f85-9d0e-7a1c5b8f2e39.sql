@@ -0,0 +1,388 @@
+-- ============================================
+-- SUBSCRIPTION PLANS
+-- A plan grants entitlements (see src/lib/entitlements.ts). Users without
+-- an active subscription are on the default plan.
+-- ============================================
+CREATE TABLE public.subscription_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  price_monthly NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (price_monthly >= 0),
+  -- { daily_credits, ai_evaluations, full_mocks, speaking_minutes }; null = unlimited,
+  -- except daily_credits, which the credit ledger meters and so is always a number
+  entitlements JSONB NOT NULL CHECK (jsonb_typeof(entitlements -> 'daily_credits') = 'number'),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (NOT is_default OR is_active)
+);
+
+-- Exactly one default plan at a time
+CREATE UNIQUE INDEX idx_subscription_plans_default ON public.subscription_plans(is_default) WHERE is_default;
+
+ALTER TABLE public.subscription_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active plans"
+  ON public.subscription_plans
+  FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Admins can manage plans"
+  ON public.subscription_plans
+  FOR ALL
+  USING (public.is_admin(auth.uid()))
+  WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_subscription_plans_updated_at
+  BEFORE UPDATE ON public.subscription_plans
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.subscription_plans (slug, name, description, price_monthly, entitlements, is_default, sort_order) VALUES
+  ('free', 'Free', 'Practice every module with a daily AI allowance', 0,
+    '{"daily_credits": 100, "ai_evaluations": 30, "full_mocks": 2, "speaking_minutes": 60}', true, 0),
+  ('plus', 'Plus', 'More evaluations and mock tests for regular practice', 9.99,
+    '{"daily_credits": 300, "ai_evaluations": 150, "full_mocks": 10, "speaking_minutes": 300}', false, 1),
+  ('pro', 'Pro', 'Unlimited evaluations and mocks for the final weeks before the exam', 19.99,
+    '{"daily_credits": 1000, "ai_evaluations": null, "full_mocks": null, "speaking_minutes": 1200}', false, 2);
+
+-- ============================================
+-- SUBSCRIPTIONS
+-- Written by the change-subscription edge function after payment; users
+-- can no longer insert their own rows. Periods are prepaid and don't renew;
+-- a scheduled plan cancelled before it starts is refunded (refund_reference).
+-- ============================================
+ALTER TABLE public.subscriptions
+  ADD COLUMN plan_id UUID REFERENCES public.subscription_plans(id),
+  ADD COLUMN payment_provider TEXT,
+  ADD COLUMN payment_reference TEXT,
+  ADD COLUMN refund_reference TEXT;
+
+UPDATE public.subscriptions s
+SET plan_id = p.id
+FROM public.subscription_plans p
+WHERE lower(s.plan_name) = p.slug OR lower(s.plan_name) = lower(p.name);
+
+-- Subscriptions from before plans existed were all the one paid tier; Plus
+-- is its successor, so nobody who paid loses access
+UPDATE public.subscriptions
+SET plan_id = (SELECT id FROM public.subscription_plans WHERE slug = 'plus')
+WHERE plan_id IS NULL;
+
+ALTER TABLE public.subscriptions ALTER COLUMN plan_id SET NOT NULL;
+
+CREATE INDEX idx_subscriptions_user_period ON public.subscriptions(user_id, start_date, end_date);
+
+DROP POLICY IF EXISTS "Users can insert their own subscriptions" ON public.subscriptions;
+
+CREATE POLICY "Admins can view all subscriptions"
+  ON public.subscriptions
+  FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+-- Scheduled downgrades are stored ahead of time, so only count the period covering now
+CREATE OR REPLACE FUNCTION public.has_active_subscription(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.subscriptions
+    WHERE user_id = p_user_id
+    AND status = 'active'
+    AND start_date <= now()
+    AND end_date > now()
+  );
+$$;
+
+-- ============================================
+-- ENTITLEMENT USAGE
+-- One row per metered use; released (deleted) when the work fails.
+-- ============================================
+CREATE TABLE public.entitlement_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entitlement TEXT NOT NULL CHECK (entitlement IN ('ai_evaluations', 'full_mocks', 'speaking_minutes')),
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  -- Submission, test or mock session the usage was for
+  reference TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_entitlement_usage_user ON public.entitlement_usage(user_id, entitlement, created_at);
+
+ALTER TABLE public.entitlement_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own entitlement usage"
+  ON public.entitlement_usage
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- ENTITLEMENT FUNCTIONS
+-- ============================================
+
+-- The subscription in effect now, if any
+CREATE OR REPLACE FUNCTION public.current_subscription(p_user_id uuid)
+RETURNS public.subscriptions
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM subscriptions
+  WHERE user_id = p_user_id
+    AND status = 'active'
+    AND start_date <= now()
+    AND end_date > now()
+  ORDER BY start_date DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.user_plan(p_user_id uuid)
+RETURNS public.subscription_plans
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.* FROM subscription_plans p
+  WHERE p.id = (public.current_subscription(p_user_id)).plan_id
+     OR (p.is_default AND (public.current_subscription(p_user_id)).id IS NULL)
+  ORDER BY p.is_default
+  LIMIT 1;
+$$;
+
+-- Monthly entitlements follow the subscription's billing month, or the
+-- calendar month on the default plan
+CREATE OR REPLACE FUNCTION public.entitlement_period(p_user_id uuid, OUT period_start timestamptz, OUT period_end timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subscription subscriptions%ROWTYPE := public.current_subscription(p_user_id);
+  v_age interval;
+BEGIN
+  IF v_subscription.id IS NULL THEN
+    period_start := date_trunc('month', now());
+    period_end := period_start + interval '1 month';
+    RETURN;
+  END IF;
+
+  v_age := age(now(), v_subscription.start_date);
+  period_start := v_subscription.start_date
+    + make_interval(months => (extract(year FROM v_age) * 12 + extract(month FROM v_age))::integer);
+  period_end := LEAST(period_start + interval '1 month', v_subscription.end_date);
+END;
+$$;
+
+-- The daily credit allowance now comes from the plan. Plans always set it
+-- (see the CHECK above); 100 only applies if no default plan exists.
+CREATE OR REPLACE FUNCTION public.daily_credit_limit(p_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(((public.user_plan(p_user_id)).entitlements ->> 'daily_credits')::integer, 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.entitlement_limit(p_plan public.subscription_plans, p_key text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  -- A key the plan doesn't list isn't included; an explicit null is unlimited
+  SELECT CASE
+    WHEN NOT (p_plan.entitlements ? p_key) THEN 0
+    ELSE (p_plan.entitlements ->> p_key)::integer
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_entitlements(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan subscription_plans%ROWTYPE := public.user_plan(p_user_id);
+  v_subscription subscriptions%ROWTYPE := public.current_subscription(p_user_id);
+  v_period record;
+  v_credits jsonb;
+  v_entitlements jsonb := '{}'::jsonb;
+  v_key text;
+  v_limit integer;
+  v_used integer;
+BEGIN
+  -- Service-role callers (edge functions) carry no auth.uid(); everyone else
+  -- must be the owner or an admin.
+  IF COALESCE(auth.role(), '') <> 'service_role'
+     AND auth.uid() IS DISTINCT FROM p_user_id
+     AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to view entitlements for another user';
+  END IF;
+
+  SELECT * INTO v_period FROM public.entitlement_period(p_user_id);
+
+  v_credits := public.get_credit_status(p_user_id);
+  v_entitlements := jsonb_build_object('daily_credits', jsonb_build_object(
+    'limit', (v_credits ->> 'limit')::integer,
+    'used', (v_credits ->> 'credits_used')::integer,
+    'remaining', (v_credits ->> 'credits_remaining')::integer
+  ));
+
+  FOREACH v_key IN ARRAY ARRAY['ai_evaluations', 'full_mocks', 'speaking_minutes'] LOOP
+    v_limit := public.entitlement_limit(v_plan, v_key);
+    SELECT COALESCE(SUM(amount), 0)::integer INTO v_used
+    FROM entitlement_usage
+    WHERE user_id = p_user_id AND entitlement = v_key AND created_at >= v_period.period_start;
+
+    v_entitlements := v_entitlements || jsonb_build_object(v_key, jsonb_build_object(
+      'limit', v_limit,
+      'used', v_used,
+      'remaining', CASE WHEN v_limit IS NULL THEN NULL ELSE GREATEST(0, v_limit - v_used) END
+    ));
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'plan', jsonb_build_object(
+      'id', v_plan.id,
+      'slug', v_plan.slug,
+      'name', v_plan.name,
+      'price_monthly', v_plan.price_monthly,
+      'is_default', v_plan.is_default
+    ),
+    'subscription', CASE WHEN v_subscription.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'id', v_subscription.id,
+      'start_date', v_subscription.start_date,
+      'end_date', v_subscription.end_date
+    ) END,
+    'period_start', v_period.period_start,
+    'period_end', v_period.period_end,
+    'entitlements', v_entitlements
+  );
+END;
+$$;
+
+-- Record metered usage, or refuse once the period's limit is reached.
+-- Locking the profile row serialises consumption per user.
+CREATE OR REPLACE FUNCTION public.consume_entitlement(
+  p_user_id uuid,
+  p_key text,
+  p_amount integer DEFAULT 1,
+  p_reference text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan subscription_plans%ROWTYPE;
+  v_period record;
+  v_limit integer;
+  v_used integer;
+  v_usage_id uuid;
+BEGIN
+  IF p_key NOT IN ('ai_evaluations', 'full_mocks', 'speaking_minutes') THEN
+    RAISE EXCEPTION 'Unknown entitlement %', p_key;
+  END IF;
+  IF p_amount <= 0 THEN
+    RETURN jsonb_build_object('ok', true, 'usage_id', NULL);
+  END IF;
+
+  PERFORM 1 FROM profiles WHERE id = p_user_id FOR UPDATE;
+
+  v_plan := public.user_plan(p_user_id);
+  v_limit := public.entitlement_limit(v_plan, p_key);
+  SELECT * INTO v_period FROM public.entitlement_period(p_user_id);
+  SELECT COALESCE(SUM(amount), 0)::integer INTO v_used
+  FROM entitlement_usage
+  WHERE user_id = p_user_id AND entitlement = p_key AND created_at >= v_period.period_start;
+
+  IF v_limit IS NOT NULL AND v_used + p_amount > v_limit THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'error', format('Your %s plan includes %s %s per month and you have used %s. Upgrade your plan in Settings for more.',
+        v_plan.name, v_limit, replace(p_key, '_', ' '), v_used),
+      'limit', v_limit,
+      'used', v_used,
+      'remaining', GREATEST(0, v_limit - v_used),
+      'period_end', v_period.period_end
+    );
+  END IF;
+
+  INSERT INTO entitlement_usage (user_id, entitlement, amount, reference)
+  VALUES (p_user_id, p_key, p_amount, p_reference)
+  RETURNING id INTO v_usage_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'usage_id', v_usage_id,
+    'limit', v_limit,
+    'used', v_used + p_amount,
+    'remaining', CASE WHEN v_limit IS NULL THEN NULL ELSE v_limit - v_used - p_amount END
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_entitlement(p_usage_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM entitlement_usage WHERE id = p_usage_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_entitlement(uuid, text, integer, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_entitlement(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_entitlement(uuid, text, integer, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_entitlement(uuid) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.get_entitlements(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_entitlements(uuid) TO authenticated, service_role;
+
+-- ============================================
+-- FULL MOCK GATE
+-- Sessions are created from the browser, so the mock allowance is
+-- consumed by a trigger rather than trusted to the client.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.consume_full_mock_entitlement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Swapping in other papers makes it a new mock as far as the allowance goes
+  IF TG_OP = 'UPDATE'
+     AND NEW.listening_test_id IS NOT DISTINCT FROM OLD.listening_test_id
+     AND NEW.reading_test_id IS NOT DISTINCT FROM OLD.reading_test_id
+     AND NEW.writing_test_id IS NOT DISTINCT FROM OLD.writing_test_id
+     AND NEW.speaking_test_id IS NOT DISTINCT FROM OLD.speaking_test_id THEN
+    RETURN NEW;
+  END IF;
+
+  v_result := public.consume_entitlement(NEW.user_id, 'full_mocks', 1, NEW.id::text);
+  IF NOT (v_result ->> 'ok')::boolean THEN
+    RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = v_result ->> 'error', HINT = 'ENTITLEMENT_EXCEEDED';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER consume_full_mock_entitlement
+  BEFORE INSERT OR UPDATE OF listening_test_id, reading_test_id, writing_test_id, speaking_test_id
+  ON public.mock_test_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.consume_full_mock_entitlement();
@@ -0,0 +1,242 @@
+-- ============================================
+-- PROMOTION CAMPAIGNS
+-- Codes are grouped into campaigns; the campaign defines the reward and
+-- the limits. Redemption goes through redeem_promotion_code() only.
+-- ============================================
+CREATE TABLE public.promotion_campaigns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- plan_days: reward_amount days on reward_plan_id; credits: reward_amount bonus credits
+  reward_type TEXT NOT NULL CHECK (reward_type IN ('plan_days', 'credits')),
+  reward_plan_id UUID REFERENCES public.subscription_plans(id),
+  reward_amount INTEGER NOT NULL CHECK (reward_amount > 0),
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  -- Across all of the campaign's codes; null for no cap
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  per_user_limit INTEGER NOT NULL DEFAULT 1 CHECK (per_user_limit > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((reward_type = 'plan_days') = (reward_plan_id IS NOT NULL)),
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+ALTER TABLE public.promotion_campaigns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage promotion campaigns"
+  ON public.promotion_campaigns
+  FOR ALL
+  USING (public.is_admin(auth.uid()))
+  WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_promotion_campaigns_updated_at
+  BEFORE UPDATE ON public.promotion_campaigns
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- PROMOTION CODES
+-- The table predates the migrations (the admin page has been generating
+-- single-use "N days of access" codes into it); create it where missing so
+-- the conversion below runs everywhere.
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.promotion_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  duration_days INTEGER,
+  created_by UUID,
+  claimed_by UUID,
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.promotion_codes
+  ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES public.promotion_campaigns(id) ON DELETE CASCADE,
+  -- Per-code cap: 1 for single-use codes, null for a shared code limited by its campaign
+  ADD COLUMN IF NOT EXISTS max_redemptions INTEGER CHECK (max_redemptions > 0);
+
+CREATE TABLE public.promotion_redemptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code_id UUID NOT NULL REFERENCES public.promotion_codes(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES public.promotion_campaigns(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The reward as granted, in case the campaign is edited later
+  reward_type TEXT NOT NULL,
+  reward_amount INTEGER NOT NULL,
+  subscription_id UUID REFERENCES public.subscriptions(id) ON DELETE SET NULL,
+  credit_transaction_id UUID REFERENCES public.credit_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_promotion_redemptions_campaign ON public.promotion_redemptions(campaign_id, created_at DESC);
+CREATE INDEX idx_promotion_redemptions_code ON public.promotion_redemptions(code_id);
+CREATE INDEX idx_promotion_redemptions_user ON public.promotion_redemptions(user_id, campaign_id);
+
+ALTER TABLE public.promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own redemptions"
+  ON public.promotion_redemptions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all redemptions"
+  ON public.promotion_redemptions
+  FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+-- Existing codes become single-use codes in one campaign per duration, granting
+-- days on the top paid plan. Claims are kept as redemptions so the codes stay used.
+INSERT INTO public.promotion_campaigns (name, description, reward_type, reward_plan_id, reward_amount)
+SELECT
+  format('Legacy %s-day codes', d.duration_days),
+  'Codes generated before campaigns existed',
+  'plan_days',
+  (SELECT id FROM public.subscription_plans WHERE NOT is_default ORDER BY price_monthly DESC LIMIT 1),
+  d.duration_days
+FROM (SELECT DISTINCT duration_days FROM public.promotion_codes WHERE duration_days > 0) d
+WHERE EXISTS (SELECT 1 FROM public.subscription_plans WHERE NOT is_default);
+
+UPDATE public.promotion_codes c
+SET campaign_id = p.id, max_redemptions = 1
+FROM public.promotion_campaigns p
+WHERE c.campaign_id IS NULL AND p.name = format('Legacy %s-day codes', c.duration_days);
+
+INSERT INTO public.promotion_redemptions (code_id, campaign_id, user_id, reward_type, reward_amount, created_at)
+SELECT c.id, c.campaign_id, c.claimed_by, 'plan_days', c.duration_days, COALESCE(c.claimed_at, c.created_at)
+FROM public.promotion_codes c
+WHERE c.claimed_by IS NOT NULL AND c.campaign_id IS NOT NULL
+  AND EXISTS (SELECT 1 FROM auth.users u WHERE u.id = c.claimed_by);
+
+-- Codes with no usable duration could never have been honoured
+DELETE FROM public.promotion_codes WHERE campaign_id IS NULL;
+
+ALTER TABLE public.promotion_codes
+  ALTER COLUMN campaign_id SET NOT NULL,
+  DROP COLUMN IF EXISTS duration_days,
+  DROP COLUMN IF EXISTS claimed_by,
+  DROP COLUMN IF EXISTS claimed_at;
+
+UPDATE public.promotion_codes SET code = upper(trim(code));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promotion_codes_code_upper ON public.promotion_codes(upper(code));
+CREATE INDEX IF NOT EXISTS idx_promotion_codes_campaign ON public.promotion_codes(campaign_id);
+
+ALTER TABLE public.promotion_codes ENABLE ROW LEVEL SECURITY;
+
+-- Users never read codes directly, so they can't be listed
+DROP POLICY IF EXISTS "Admins can manage promotion codes" ON public.promotion_codes;
+CREATE POLICY "Admins can manage promotion codes"
+  ON public.promotion_codes
+  FOR ALL
+  USING (public.is_admin(auth.uid()))
+  WITH CHECK (public.is_admin(auth.uid()));
+
+-- ============================================
+-- REDEMPTION
+-- ============================================
+CREATE OR REPLACE FUNCTION public.redeem_promotion_code(p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_code promotion_codes%ROWTYPE;
+  v_campaign promotion_campaigns%ROWTYPE;
+  v_plan subscription_plans%ROWTYPE;
+  v_current subscriptions%ROWTYPE;
+  v_current_price numeric;
+  v_booked_until timestamptz;
+  v_count integer;
+  v_start timestamptz;
+  v_end timestamptz;
+  v_subscription_id uuid;
+  v_transaction_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to redeem a code';
+  END IF;
+
+  SELECT * INTO v_code FROM promotion_codes WHERE upper(code) = upper(trim(p_code));
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'That code is not valid');
+  END IF;
+
+  -- Locking the campaign serialises redemptions against its caps
+  SELECT * INTO v_campaign FROM promotion_campaigns WHERE id = v_code.campaign_id FOR UPDATE;
+
+  IF NOT v_campaign.is_active THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'This promotion is not running');
+  END IF;
+  IF v_campaign.starts_at IS NOT NULL AND v_campaign.starts_at > now() THEN
+    RETURN jsonb_build_object('ok', false, 'error', format('This promotion starts on %s', to_char(v_campaign.starts_at, 'Mon DD, YYYY')));
+  END IF;
+  IF (v_campaign.ends_at IS NOT NULL AND v_campaign.ends_at <= now())
+     OR (v_code.expires_at IS NOT NULL AND v_code.expires_at <= now()) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'This code has expired');
+  END IF;
+
+  SELECT count(*) INTO v_count FROM promotion_redemptions
+  WHERE campaign_id = v_campaign.id AND user_id = v_user_id;
+  IF v_count >= v_campaign.per_user_limit THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'You have already redeemed this promotion');
+  END IF;
+
+  IF v_campaign.max_redemptions IS NOT NULL THEN
+    SELECT count(*) INTO v_count FROM promotion_redemptions WHERE campaign_id = v_campaign.id;
+    IF v_count >= v_campaign.max_redemptions THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'This promotion has been fully redeemed');
+    END IF;
+  END IF;
+
+  IF v_code.max_redemptions IS NOT NULL THEN
+    SELECT count(*) INTO v_count FROM promotion_redemptions WHERE code_id = v_code.id;
+    IF v_count >= v_code.max_redemptions THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'This code has already been used');
+    END IF;
+  END IF;
+
+  IF v_campaign.reward_type = 'credits' THEN
+    INSERT INTO credit_transactions (user_id, kind, amount, bonus_amount, reference, note)
+    VALUES (v_user_id, 'promo', v_campaign.reward_amount, v_campaign.reward_amount, v_code.code, v_campaign.name)
+    RETURNING id INTO v_transaction_id;
+  ELSE
+    SELECT * INTO v_plan FROM subscription_plans WHERE id = v_campaign.reward_plan_id;
+
+    -- A pricier plan applies from now. The same or a cheaper plan waits until
+    -- the access already booked runs out, so a promotion never replaces a
+    -- plan the user is paying for with a lesser one.
+    v_current := public.current_subscription(v_user_id);
+    SELECT price_monthly INTO v_current_price FROM subscription_plans WHERE id = v_current.plan_id;
+    SELECT max(end_date) INTO v_booked_until FROM subscriptions
+    WHERE user_id = v_user_id AND status = 'active' AND end_date > now();
+    v_start := CASE
+      WHEN v_current.id IS NULL OR v_plan.price_monthly > v_current_price THEN now()
+      ELSE GREATEST(now(), v_booked_until)
+    END;
+    v_end := v_start + make_interval(days => v_campaign.reward_amount);
+
+    INSERT INTO subscriptions (user_id, plan_id, plan_name, price, status, start_date, end_date, payment_provider, payment_reference)
+    VALUES (v_user_id, v_plan.id, v_plan.name, 0, 'active', v_start, v_end, 'promotion', v_code.code)
+    RETURNING id INTO v_subscription_id;
+  END IF;
+
+  INSERT INTO promotion_redemptions (code_id, campaign_id, user_id, reward_type, reward_amount, subscription_id, credit_transaction_id)
+  VALUES (v_code.id, v_campaign.id, v_user_id, v_campaign.reward_type, v_campaign.reward_amount, v_subscription_id, v_transaction_id);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'reward_type', v_campaign.reward_type,
+    'reward_amount', v_campaign.reward_amount,
+    'plan_name', v_plan.name,
+    'starts_at', v_start,
+    'ends_at', v_end
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_promotion_code(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeem_promotion_code(text) TO authenticated;
@@ -0,0 +1,9 @@
+-- ============================================
+-- WRITING REVISIONS
+-- A submission written by revising an earlier attempt points at the row it
+-- was revised from (same task), so the report page can compare the two.
+-- ============================================
+ALTER TABLE public.writing_submissions
+  ADD COLUMN revised_from_id UUID REFERENCES public.writing_submissions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_writing_submissions_revised_from ON public.writing_submissions(revised_from_id);
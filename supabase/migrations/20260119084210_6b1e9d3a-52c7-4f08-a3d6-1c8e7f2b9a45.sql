@@ -0,0 +1,8 @@
+-- ============================================
+-- ESSAY TEXT METRICS
+-- Deterministic text analysis (length, paragraphing, lexical diversity, AWL
+-- coverage, cohesive devices) stored next to each evaluation as objective
+-- evidence for the AI band. Shape: EssayMetrics in src/lib/essayMetrics.ts.
+-- ============================================
+ALTER TABLE public.writing_submissions
+  ADD COLUMN text_metrics JSONB;
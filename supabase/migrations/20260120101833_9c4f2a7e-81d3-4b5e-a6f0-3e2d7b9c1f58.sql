@@ -0,0 +1,34 @@
+-- ============================================
+-- WRITING MODEL REWRITES
+-- A student's answer rewritten at a target band by rewrite-writing-answer,
+-- cached so asking again for the same band is free. The answer is either a
+-- writing_submissions row or one task of an ai_practice_results row; source_id
+-- points at whichever source_type names. Written by the edge function only.
+-- Shape of rewrite: ModelRewrite in src/lib/writingRewrite.ts.
+-- ============================================
+CREATE TABLE public.writing_model_rewrites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_type TEXT NOT NULL CHECK (source_type IN ('writing_submission', 'ai_practice_result')),
+  source_id UUID NOT NULL,
+  task_type TEXT NOT NULL CHECK (task_type IN ('task1', 'task2')),
+  target_band NUMERIC(2,1) NOT NULL CHECK (target_band BETWEEN 0 AND 9),
+  rewrite JSONB NOT NULL,
+  prompt_version TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (source_type, source_id, task_type, target_band)
+);
+
+CREATE INDEX idx_writing_model_rewrites_user ON public.writing_model_rewrites(user_id);
+
+ALTER TABLE public.writing_model_rewrites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own model rewrites"
+  ON public.writing_model_rewrites
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own model rewrites"
+  ON public.writing_model_rewrites
+  FOR DELETE
+  USING (auth.uid() = user_id);